@@ -0,0 +1,15 @@
+CREATE TABLE "audit_entries" (
+	"id" text PRIMARY KEY NOT NULL,
+	"timestamp" timestamp NOT NULL,
+	"actor_type" text NOT NULL,
+	"actor_id" text,
+	"actor_name" text,
+	"plugin_id" text NOT NULL,
+	"procedure" text NOT NULL,
+	"access_rules" jsonb NOT NULL,
+	"input" jsonb,
+	"outcome" text NOT NULL,
+	"error_code" text,
+	"error_message" text,
+	"duration_ms" integer NOT NULL
+);
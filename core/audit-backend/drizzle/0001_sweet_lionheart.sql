@@ -0,0 +1,2 @@
+ALTER TABLE "audit_entries" ADD COLUMN "result" jsonb;--> statement-breakpoint
+ALTER TABLE "audit_entries" ADD COLUMN "changes" jsonb;
\ No newline at end of file
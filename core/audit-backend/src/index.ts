@@ -0,0 +1,55 @@
+import {
+  createBackendPlugin,
+  coreServices,
+  coreHooks,
+} from "@checkstack/backend-api";
+import {
+  auditAccessRules,
+  auditContract,
+  pluginMetadata,
+} from "@checkstack/audit-common";
+import * as schema from "./schema";
+import { AuditService } from "./service";
+import { createAuditRouter } from "./router";
+import { setupRetentionJob } from "./retention-job";
+
+export default createBackendPlugin({
+  metadata: pluginMetadata,
+  register(env) {
+    env.registerAccessRules(auditAccessRules);
+
+    env.registerInit({
+      schema,
+      deps: {
+        logger: coreServices.logger,
+        rpc: coreServices.rpc,
+        config: coreServices.config,
+        queueManager: coreServices.queueManager,
+      },
+      init: async ({ database, logger, rpc, config, queueManager }) => {
+        logger.debug("📜 Initializing Audit Backend...");
+
+        const service = new AuditService(database);
+        rpc.registerRouter(createAuditRouter(service, config), auditContract);
+
+        await setupRetentionJob({ service, config, logger, queueManager });
+
+        logger.debug("✅ Audit Backend initialized.");
+      },
+      afterPluginsReady: async ({ database, logger, onHook }) => {
+        const service = new AuditService(database);
+
+        // Persist every audited mutation exactly once across instances
+        onHook(
+          coreHooks.mutationAudited,
+          async (event) => {
+            await service.record(event);
+          },
+          { mode: "work-queue", workerGroup: "audit-writer" },
+        );
+
+        logger.debug("✅ Audit Backend afterPluginsReady complete.");
+      },
+    });
+  },
+});
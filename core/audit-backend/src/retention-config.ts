@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+/**
+ * Plugin-level configuration for the audit log retention policy.
+ * Audit entries are always purged after this period to keep the table bounded.
+ */
+export const retentionConfigV1 = z.object({
+  /**
+   * Number of days to retain audit entries before purging.
+   */
+  retentionDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(3650)
+    .default(365)
+    .describe("Number of days to retain audit entries before purging"),
+});
+
+export type RetentionConfig = z.infer<typeof retentionConfigV1>;
+
+export const RETENTION_CONFIG_VERSION = 1;
+export const RETENTION_CONFIG_ID = "audit.retention";
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = { retentionDays: 365 };
@@ -0,0 +1,69 @@
+import type { ConfigService, Logger } from "@checkstack/backend-api";
+import type { QueueManager } from "@checkstack/queue-api";
+import type { AuditService } from "./service";
+import {
+  DEFAULT_RETENTION_CONFIG,
+  RETENTION_CONFIG_ID,
+  RETENTION_CONFIG_VERSION,
+  retentionConfigV1,
+} from "./retention-config";
+
+interface RetentionJobDeps {
+  service: AuditService;
+  config: ConfigService;
+  logger: Logger;
+  queueManager: QueueManager;
+}
+
+const RETENTION_QUEUE = "audit-retention";
+
+interface RetentionJobPayload {
+  trigger: "scheduled";
+}
+
+/**
+ * Registers the daily job that purges audit entries past their retention.
+ */
+export async function setupRetentionJob(deps: RetentionJobDeps) {
+  const { queueManager, logger } = deps;
+
+  const queue = queueManager.getQueue<RetentionJobPayload>(RETENTION_QUEUE);
+
+  await queue.consume(
+    async () => {
+      await runRetentionJob(deps);
+    },
+    { consumerGroup: "retention-worker" },
+  );
+
+  await queue.scheduleRecurring(
+    { trigger: "scheduled" },
+    {
+      jobId: "audit-retention-daily",
+      intervalSeconds: 24 * 60 * 60, // Daily (24 hours)
+    },
+  );
+
+  logger.debug("Audit retention job scheduled (runs daily)");
+}
+
+/**
+ * Purge entries older than the configured retention period
+ */
+export async function runRetentionJob(
+  deps: Pick<RetentionJobDeps, "service" | "config" | "logger">,
+) {
+  const { service, config, logger } = deps;
+
+  const { retentionDays } =
+    (await config.get(
+      RETENTION_CONFIG_ID,
+      retentionConfigV1,
+      RETENTION_CONFIG_VERSION,
+    )) ?? DEFAULT_RETENTION_CONFIG;
+
+  const deleted = await service.purgeExpired(retentionDays);
+  logger.info(
+    `Purged ${deleted} audit entries older than ${retentionDays} days`,
+  );
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, mock } from "bun:test";
+import { call } from "@orpc/server";
+import {
+  createMockRpcContext,
+  type ConfigService,
+} from "@checkstack/backend-api";
+import { createAuditRouter } from "./router";
+import type { AuditService } from "./service";
+
+describe("Audit Router", () => {
+  const entry = {
+    id: "entry-1",
+    timestamp: new Date("2026-01-01T00:00:00.000Z"),
+    actorType: "user" as const,
+    actorId: "user-1",
+    actorName: "Jane",
+    pluginId: "catalog",
+    procedure: "catalog.updateSystem",
+    accessRules: ["catalog.system.manage"],
+    input: { id: "system-1", name: "API" },
+    outcome: "success" as const,
+    durationMs: 12,
+  };
+
+  const createRouter = (config?: Partial<ConfigService>) => {
+    const service = {
+      listEntries: mock(async () => ({ entries: [entry], total: 1 })),
+      getPluginIds: mock(async () => ["catalog"]),
+    };
+    const configService = {
+      get: mock(async () => {}),
+      set: mock(async () => {}),
+      ...config,
+    } as unknown as ConfigService;
+    const router = createAuditRouter(
+      service as unknown as AuditService,
+      configService,
+    );
+    return { router, service, configService };
+  };
+
+  describe("getEntries", () => {
+    it("passes filters to the service", async () => {
+      const { router, service } = createRouter();
+      const context = createMockRpcContext();
+
+      const result = await call(
+        router.getEntries,
+        { pluginId: "catalog", outcome: "success" },
+        { context },
+      );
+
+      expect(result.total).toBe(1);
+      expect(result.entries[0].procedure).toBe("catalog.updateSystem");
+      expect(service.listEntries).toHaveBeenCalledWith({
+        pluginId: "catalog",
+        outcome: "success",
+        page: 1,
+        pageSize: 50,
+      });
+    });
+
+    it("requires audit read access", async () => {
+      const { router } = createRouter();
+      const context = createMockRpcContext({
+        user: { type: "user", id: "user-2", accessRules: [] },
+      });
+
+      await expect(call(router.getEntries, {}, { context })).rejects.toThrow(
+        "Missing access",
+      );
+    });
+  });
+
+  describe("retention settings", () => {
+    it("returns the default retention when not configured", async () => {
+      const { router } = createRouter();
+      const context = createMockRpcContext();
+
+      const result = await call(router.getRetentionSettings, undefined, {
+        context,
+      });
+
+      expect(result).toEqual({ retentionDays: 365 });
+    });
+
+    it("stores updated retention settings", async () => {
+      const { router, configService } = createRouter();
+      const context = createMockRpcContext();
+
+      const result = await call(
+        router.setRetentionSettings,
+        { retentionDays: 90 },
+        { context },
+      );
+
+      expect(result).toEqual({ retentionDays: 90 });
+      expect(configService.set).toHaveBeenCalledWith(
+        "audit.retention",
+        expect.anything(),
+        1,
+        { retentionDays: 90 },
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { implement } from "@orpc/server";
+import {
+  autoAuthMiddleware,
+  type ConfigService,
+  type RpcContext,
+} from "@checkstack/backend-api";
+import { auditContract } from "@checkstack/audit-common";
+import type { AuditService } from "./service";
+import {
+  DEFAULT_RETENTION_CONFIG,
+  RETENTION_CONFIG_ID,
+  RETENTION_CONFIG_VERSION,
+  retentionConfigV1,
+} from "./retention-config";
+
+/**
+ * Creates the audit router using contract-based implementation.
+ *
+ * Auth and access rules are automatically enforced via autoAuthMiddleware
+ * based on the contract's meta.userType and meta.access.
+ */
+const os = implement(auditContract)
+  .$context<RpcContext>()
+  .use(autoAuthMiddleware);
+
+export const createAuditRouter = (
+  service: AuditService,
+  configService: ConfigService,
+) => {
+  return os.router({
+    getEntries: os.getEntries.handler(async ({ input }) => {
+      return service.listEntries(input);
+    }),
+
+    getPluginIds: os.getPluginIds.handler(async () => {
+      return service.getPluginIds();
+    }),
+
+    getRetentionSettings: os.getRetentionSettings.handler(async () => {
+      const config = await configService.get(
+        RETENTION_CONFIG_ID,
+        retentionConfigV1,
+        RETENTION_CONFIG_VERSION,
+      );
+      return config ?? DEFAULT_RETENTION_CONFIG;
+    }),
+
+    setRetentionSettings: os.setRetentionSettings.handler(async ({ input }) => {
+      await configService.set(
+        RETENTION_CONFIG_ID,
+        retentionConfigV1,
+        RETENTION_CONFIG_VERSION,
+        input,
+      );
+      return input;
+    }),
+  });
+};
+
+export type AuditRouter = ReturnType<typeof createAuditRouter>;
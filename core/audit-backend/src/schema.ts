@@ -0,0 +1,38 @@
+import { pgTable, text, timestamp, jsonb, integer } from "drizzle-orm/pg-core";
+import type { AuditChange } from "@checkstack/backend-api";
+
+/**
+ * Audit log - one row per mutation called through the RPC layer
+ */
+export const auditEntries = pgTable("audit_entries", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  timestamp: timestamp("timestamp").notNull(),
+
+  /** Actor type: user, application, anonymous */
+  actorType: text("actor_type")
+    .notNull()
+    .$type<"user" | "application" | "anonymous">(),
+  actorId: text("actor_id"),
+  /** Display name at the time of the mutation */
+  actorName: text("actor_name"),
+
+  pluginId: text("plugin_id").notNull(),
+  /** Qualified procedure name, e.g. "catalog.updateSystem" */
+  procedure: text("procedure").notNull(),
+  accessRules: jsonb("access_rules").notNull().$type<string[]>(),
+
+  /** Procedure input with secrets redacted */
+  input: jsonb("input").$type<unknown>(),
+  /** Procedure output with secrets redacted, for successful mutations */
+  result: jsonb("result").$type<unknown>(),
+  /** Fields changed, for procedures that record their before-state */
+  changes: jsonb("changes").$type<AuditChange[]>(),
+
+  /** Outcome: success, failure */
+  outcome: text("outcome").notNull().$type<"success" | "failure">(),
+  errorCode: text("error_code"),
+  errorMessage: text("error_message"),
+  durationMs: integer("duration_ms").notNull(),
+});
@@ -0,0 +1,135 @@
+import { and, count, desc, eq, gte, ilike, lt, lte, or } from "drizzle-orm";
+import type { MutationAuditEvent, SafeDatabase } from "@checkstack/backend-api";
+import type {
+  AuditEntry,
+  AuditEntryQueryInput,
+} from "@checkstack/audit-common";
+import * as schema from "./schema";
+import { auditEntries } from "./schema";
+
+type Db = SafeDatabase<typeof schema>;
+
+export class AuditService {
+  constructor(private db: Db) {}
+
+  /**
+   * Persist an audit event emitted by the RPC layer
+   */
+  async record(event: MutationAuditEvent): Promise<void> {
+    await this.db.insert(auditEntries).values({
+      timestamp: new Date(event.timestamp),
+      actorType: event.actor.type,
+      actorId: event.actor.id,
+      actorName: event.actor.name,
+      pluginId: event.pluginId,
+      procedure: event.procedure,
+      accessRules: event.accessRules,
+      input: event.input,
+      result: event.result,
+      changes: event.changes,
+      outcome: event.outcome,
+      errorCode: event.errorCode,
+      errorMessage: event.errorMessage,
+      durationMs: event.durationMs,
+    });
+  }
+
+  /**
+   * Search entries, newest first
+   */
+  async listEntries(
+    query: AuditEntryQueryInput,
+  ): Promise<{ entries: AuditEntry[]; total: number }> {
+    const { search, actorType, actorId, pluginId, outcome, from, to } = query;
+
+    const conditions = [];
+    if (search) {
+      const pattern = `%${search}%`;
+      conditions.push(
+        or(
+          ilike(auditEntries.procedure, pattern),
+          ilike(auditEntries.actorName, pattern),
+          ilike(auditEntries.actorId, pattern),
+        ),
+      );
+    }
+    if (actorType) {
+      conditions.push(eq(auditEntries.actorType, actorType));
+    }
+    if (actorId) {
+      conditions.push(eq(auditEntries.actorId, actorId));
+    }
+    if (pluginId) {
+      conditions.push(eq(auditEntries.pluginId, pluginId));
+    }
+    if (outcome) {
+      conditions.push(eq(auditEntries.outcome, outcome));
+    }
+    if (from) {
+      conditions.push(gte(auditEntries.timestamp, from));
+    }
+    if (to) {
+      conditions.push(lte(auditEntries.timestamp, to));
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ value: total }] = await this.db
+      .select({ value: count() })
+      .from(auditEntries)
+      .where(whereClause);
+
+    const rows = await this.db
+      .select()
+      .from(auditEntries)
+      .where(whereClause)
+      .orderBy(desc(auditEntries.timestamp))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return {
+      entries: rows.map((row) => ({
+        id: row.id,
+        timestamp: row.timestamp,
+        actorType: row.actorType,
+        actorId: row.actorId ?? undefined,
+        actorName: row.actorName ?? undefined,
+        pluginId: row.pluginId,
+        procedure: row.procedure,
+        accessRules: row.accessRules,
+        input: row.input,
+        result: row.result ?? undefined,
+        changes: row.changes ?? undefined,
+        outcome: row.outcome,
+        errorCode: row.errorCode ?? undefined,
+        errorMessage: row.errorMessage ?? undefined,
+        durationMs: row.durationMs,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Distinct plugin IDs present in the log
+   */
+  async getPluginIds(): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ pluginId: auditEntries.pluginId })
+      .from(auditEntries)
+      .orderBy(auditEntries.pluginId);
+    return rows.map((row) => row.pluginId);
+  }
+
+  /**
+   * Delete entries older than the retention period.
+   * @returns Number of deleted entries
+   */
+  async purgeExpired(retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const deleted = await this.db
+      .delete(auditEntries)
+      .where(lt(auditEntries.timestamp, cutoff))
+      .returning({ id: auditEntries.id });
+    return deleted.length;
+  }
+}
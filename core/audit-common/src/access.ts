@@ -0,0 +1,19 @@
+import { accessPair } from "@checkstack/common";
+
+/**
+ * Access rules for the Audit plugin.
+ */
+export const auditAccess = {
+  /**
+   * Read the audit log and manage its retention.
+   */
+  log: accessPair("audit", {
+    read: { description: "View the Audit Log" },
+    manage: { description: "Manage Audit Log Retention" },
+  }),
+};
+
+/**
+ * All access rules for registration with the plugin system.
+ */
+export const auditAccessRules = [auditAccess.log.read, auditAccess.log.manage];
@@ -0,0 +1,5 @@
+export * from "./schemas";
+export * from "./access";
+export { auditContract, AuditApi, type AuditContract } from "./rpc-contract";
+export * from "./plugin-metadata";
+export { auditRoutes } from "./routes";
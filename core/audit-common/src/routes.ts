@@ -0,0 +1,8 @@
+import { createRoutes } from "@checkstack/common";
+
+/**
+ * Route definitions for the audit plugin.
+ */
+export const auditRoutes = createRoutes("audit", {
+  log: "/",
+});
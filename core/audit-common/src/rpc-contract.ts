@@ -0,0 +1,56 @@
+import { createClientDefinition, proc } from "@checkstack/common";
+import { z } from "zod";
+import { auditAccess } from "./access";
+import { pluginMetadata } from "./plugin-metadata";
+import {
+  AuditEntrySchema,
+  AuditEntryQueryInputSchema,
+  AuditRetentionSettingsSchema,
+} from "./schemas";
+
+// Audit RPC Contract with access metadata
+export const auditContract = {
+  // Search the audit log - Read access
+  getEntries: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [auditAccess.log.read],
+  })
+    .input(AuditEntryQueryInputSchema)
+    .output(
+      z.object({
+        entries: z.array(AuditEntrySchema),
+        total: z.number(),
+      }),
+    ),
+
+  // Plugins that appear in the audit log, for filtering - Read access
+  getPluginIds: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [auditAccess.log.read],
+  }).output(z.array(z.string())),
+
+  // Retention settings - Read access
+  getRetentionSettings: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [auditAccess.log.read],
+  }).output(AuditRetentionSettingsSchema),
+
+  // Update retention settings - Manage access
+  setRetentionSettings: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [auditAccess.log.manage],
+  })
+    .input(AuditRetentionSettingsSchema)
+    .output(AuditRetentionSettingsSchema),
+};
+
+// Export contract type
+export type AuditContract = typeof auditContract;
+
+// Export client definition for type-safe forPlugin usage
+// Use: const client = rpcApi.forPlugin(AuditApi);
+export const AuditApi = createClientDefinition(auditContract, pluginMetadata);
@@ -0,0 +1,70 @@
+import { z } from "zod";
+
+export const AuditActorTypeSchema = z.enum([
+  "user",
+  "application",
+  "anonymous",
+]);
+export type AuditActorType = z.infer<typeof AuditActorTypeSchema>;
+
+export const AuditOutcomeSchema = z.enum(["success", "failure"]);
+export type AuditOutcome = z.infer<typeof AuditOutcomeSchema>;
+
+/** A field changed by a mutation, secrets redacted */
+export const AuditChangeSchema = z.object({
+  /** Dot-separated field path, e.g. "config.url" */
+  path: z.string(),
+  before: z.unknown(),
+  after: z.unknown(),
+});
+export type AuditChange = z.infer<typeof AuditChangeSchema>;
+
+/**
+ * A recorded mutation.
+ */
+export const AuditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.coerce.date(),
+  actorType: AuditActorTypeSchema,
+  actorId: z.string().optional(),
+  actorName: z.string().optional(),
+  pluginId: z.string(),
+  /** Qualified procedure name, e.g. "catalog.updateSystem" */
+  procedure: z.string(),
+  /** Qualified access rule IDs required by the procedure */
+  accessRules: z.array(z.string()),
+  /** Procedure input with secrets redacted */
+  input: z.unknown(),
+  /** Procedure output with secrets redacted, for successful mutations */
+  result: z.unknown(),
+  /** Fields changed, for procedures that record their before-state */
+  changes: z.array(AuditChangeSchema).optional(),
+  outcome: AuditOutcomeSchema,
+  errorCode: z.string().optional(),
+  errorMessage: z.string().optional(),
+  durationMs: z.number(),
+});
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
+/** Input for searching the audit log */
+export const AuditEntryQueryInputSchema = z.object({
+  /** Matches procedure, actor name and actor ID */
+  search: z.string().optional(),
+  actorType: AuditActorTypeSchema.optional(),
+  actorId: z.string().optional(),
+  pluginId: z.string().optional(),
+  outcome: AuditOutcomeSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(100).default(50),
+});
+export type AuditEntryQueryInput = z.infer<typeof AuditEntryQueryInputSchema>;
+
+export const AuditRetentionSettingsSchema = z.object({
+  /** Entries older than this are purged daily */
+  retentionDays: z.number().int().min(1).max(3650),
+});
+export type AuditRetentionSettings = z.infer<
+  typeof AuditRetentionSettingsSchema
+>;
@@ -0,0 +1,30 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ScrollText } from "lucide-react";
+import type { UserMenuItemsContext } from "@checkstack/frontend-api";
+import { DropdownMenuItem } from "@checkstack/ui";
+import { resolveRoute } from "@checkstack/common";
+import {
+  auditRoutes,
+  auditAccess,
+  pluginMetadata,
+} from "@checkstack/audit-common";
+
+export const AuditUserMenuItems = ({
+  accessRules: userPerms,
+}: UserMenuItemsContext) => {
+  const qualifiedId = `${pluginMetadata.pluginId}.${auditAccess.log.read.id}`;
+  const canRead = userPerms.includes("*") || userPerms.includes(qualifiedId);
+
+  if (!canRead) {
+    return <React.Fragment />;
+  }
+
+  return (
+    <Link to={resolveRoute(auditRoutes.routes.log)}>
+      <DropdownMenuItem icon={<ScrollText className="h-4 w-4" />}>
+        Audit Log
+      </DropdownMenuItem>
+    </Link>
+  );
+};
@@ -0,0 +1,30 @@
+import {
+  UserMenuItemsSlot,
+  createSlotExtension,
+  createFrontendPlugin,
+} from "@checkstack/frontend-api";
+import {
+  auditRoutes,
+  auditAccess,
+  pluginMetadata,
+} from "@checkstack/audit-common";
+import { AuditLogPage } from "./pages/AuditLogPage";
+import { AuditUserMenuItems } from "./components/UserMenuItems";
+
+export const auditPlugin = createFrontendPlugin({
+  metadata: pluginMetadata,
+  routes: [
+    {
+      route: auditRoutes.routes.log,
+      element: <AuditLogPage />,
+      title: "Audit Log",
+      accessRule: auditAccess.log.read,
+    },
+  ],
+  extensions: [
+    createSlotExtension(UserMenuItemsSlot, {
+      id: "audit.user-menu.items",
+      component: AuditUserMenuItems,
+    }),
+  ],
+});
@@ -0,0 +1,414 @@
+import { useEffect, useState } from "react";
+import {
+  ScrollText,
+  CheckCircle,
+  XCircle,
+  ChevronDown,
+  ChevronRight,
+  Save,
+} from "lucide-react";
+import {
+  PageLayout,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Input,
+  Label,
+  DateTimePicker,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  useToast,
+  usePagination,
+  usePaginationSync,
+} from "@checkstack/ui";
+import {
+  accessApiRef,
+  useApi,
+  usePluginClient,
+} from "@checkstack/frontend-api";
+import {
+  AuditApi,
+  auditAccess,
+  type AuditActorType,
+  type AuditEntry,
+  type AuditOutcome,
+} from "@checkstack/audit-common";
+
+/** Select value for "no filter", Radix Select does not allow empty values */
+const ALL = "all";
+
+const actorLabels: Record<AuditActorType, string> = {
+  user: "User",
+  application: "Application",
+  anonymous: "Anonymous",
+};
+
+const AuditEntryRow = ({ entry }: { entry: AuditEntry }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <>
+      <TableRow
+        className="cursor-pointer"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <TableCell>
+          {expanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+        </TableCell>
+        <TableCell>
+          <div className="text-sm text-muted-foreground whitespace-nowrap">
+            {new Date(entry.timestamp).toLocaleString()}
+          </div>
+        </TableCell>
+        <TableCell>
+          <div className="font-medium">
+            {entry.actorName ?? entry.actorId ?? actorLabels[entry.actorType]}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {actorLabels[entry.actorType]}
+          </div>
+        </TableCell>
+        <TableCell>
+          <div className="text-sm font-mono">{entry.procedure}</div>
+        </TableCell>
+        <TableCell>
+          {entry.outcome === "success" ? (
+            <Badge variant="success" className="flex items-center gap-1 w-fit">
+              <CheckCircle className="h-4 w-4" />
+              success
+            </Badge>
+          ) : (
+            <Badge
+              variant="destructive"
+              className="flex items-center gap-1 w-fit"
+              title={entry.errorMessage}
+            >
+              <XCircle className="h-4 w-4" />
+              {entry.errorCode ?? "failure"}
+            </Badge>
+          )}
+        </TableCell>
+        <TableCell className="text-sm text-muted-foreground">
+          {entry.durationMs}ms
+        </TableCell>
+      </TableRow>
+      {expanded && (
+        <TableRow>
+          <TableCell colSpan={6} className="bg-muted/30">
+            <div className="space-y-3 p-2 text-sm">
+              {entry.errorMessage && (
+                <div className="text-destructive">{entry.errorMessage}</div>
+              )}
+              <div>
+                <span className="text-muted-foreground">Access rules: </span>
+                <span className="font-mono">
+                  {entry.accessRules.length > 0
+                    ? entry.accessRules.join(", ")
+                    : "none"}
+                </span>
+              </div>
+              {entry.actorId && (
+                <div>
+                  <span className="text-muted-foreground">Actor ID: </span>
+                  <span className="font-mono">{entry.actorId}</span>
+                </div>
+              )}
+              {entry.changes && (
+                <div>
+                  <div className="text-muted-foreground mb-1">Changes</div>
+                  {entry.changes.length === 0 ? (
+                    <div className="text-xs">No fields changed</div>
+                  ) : (
+                    <div className="space-y-1 font-mono text-xs">
+                      {entry.changes.map((change) => (
+                        <div key={change.path}>
+                          <span className="font-semibold">
+                            {change.path || "(value)"}
+                          </span>
+                          : {JSON.stringify(change.before) ?? "unset"} →{" "}
+                          {JSON.stringify(change.after) ?? "unset"}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              <div>
+                <div className="text-muted-foreground mb-1">Input</div>
+                <pre className="overflow-x-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(entry.input, undefined, 2) ?? "No input"}
+                </pre>
+              </div>
+              {entry.result !== undefined && (
+                <div>
+                  <div className="text-muted-foreground mb-1">Result</div>
+                  <pre className="overflow-x-auto rounded-md bg-muted p-3 text-xs">
+                    {JSON.stringify(entry.result, undefined, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  );
+};
+
+const RetentionSettingsCard = () => {
+  const auditClient = usePluginClient(AuditApi);
+  const toast = useToast();
+
+  const { data: settings } = auditClient.getRetentionSettings.useQuery();
+  const [retentionDays, setRetentionDays] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setRetentionDays(settings.retentionDays.toString());
+    }
+  }, [settings]);
+
+  const saveMutation = auditClient.setRetentionSettings.useMutation({
+    onSuccess: () => {
+      toast.success("Retention settings saved");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save settings",
+      );
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Retention</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="retentionDays">Keep entries for (days)</Label>
+            <Input
+              id="retentionDays"
+              type="number"
+              min={1}
+              max={3650}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <Button
+            onClick={() =>
+              saveMutation.mutate({
+                retentionDays: Number.parseInt(retentionDays, 10),
+              })
+            }
+            disabled={saveMutation.isPending || !retentionDays}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mt-2">
+          Older entries are purged once a day.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const AuditLogPage = () => {
+  const auditClient = usePluginClient(AuditApi);
+  const accessApi = useApi(accessApiRef);
+  const { allowed: canRead, loading: accessLoading } = accessApi.useAccess(
+    auditAccess.log.read,
+  );
+  const { allowed: canManage } = accessApi.useAccess(auditAccess.log.manage);
+
+  const [search, setSearch] = useState("");
+  const [actorType, setActorType] = useState<AuditActorType | typeof ALL>(ALL);
+  const [pluginId, setPluginId] = useState(ALL);
+  const [outcome, setOutcome] = useState<AuditOutcome | typeof ALL>(ALL);
+  const [from, setFrom] = useState<Date>();
+  const [to, setTo] = useState<Date>();
+
+  const pagination = usePagination({ defaultLimit: 50 });
+  const page = Math.floor(pagination.offset / pagination.limit) + 1;
+
+  const { data, isLoading } = auditClient.getEntries.useQuery({
+    search: search.trim() || undefined,
+    actorType: actorType === ALL ? undefined : actorType,
+    pluginId: pluginId === ALL ? undefined : pluginId,
+    outcome: outcome === ALL ? undefined : outcome,
+    from,
+    to,
+    page,
+    pageSize: pagination.limit,
+  });
+  const { data: pluginIds } = auditClient.getPluginIds.useQuery();
+
+  usePaginationSync(pagination, data?.total);
+
+  const entries = data?.entries ?? [];
+
+  return (
+    <PageLayout
+      title="Audit Log"
+      subtitle="Every change made through the API, by whom and with what result"
+      icon={ScrollText}
+      loading={accessLoading}
+      allowed={canRead}
+    >
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="search">Search</Label>
+                <Input
+                  id="search"
+                  placeholder="Procedure or actor"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Actor</Label>
+                <Select
+                  value={actorType}
+                  onValueChange={(value) =>
+                    setActorType(value as AuditActorType | typeof ALL)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All actors</SelectItem>
+                    {Object.entries(actorLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Plugin</Label>
+                <Select value={pluginId} onValueChange={setPluginId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All plugins</SelectItem>
+                    {(pluginIds ?? []).map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Outcome</Label>
+                <Select
+                  value={outcome}
+                  onValueChange={(value) =>
+                    setOutcome(value as AuditOutcome | typeof ALL)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All outcomes</SelectItem>
+                    <SelectItem value="success">Success</SelectItem>
+                    <SelectItem value="failure">Failure</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>From</Label>
+                <DateTimePicker value={from} onChange={setFrom} maxDate={to} />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <DateTimePicker value={to} onChange={setTo} minDate={from} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {entries.length === 0 && !isLoading ? (
+          <Card className="p-8">
+            <div className="text-center text-muted-foreground">
+              No audit entries found
+            </div>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Procedure</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <AuditEntryRow key={entry.id} entry={entry} />
+                ))}
+              </TableBody>
+            </Table>
+            {pagination.totalPages > 1 && (
+              <div className="p-4 border-t flex justify-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasPrev}
+                  onClick={pagination.prevPage}
+                >
+                  Previous
+                </Button>
+                <span className="flex items-center text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasNext}
+                  onClick={pagination.nextPage}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </Card>
+        )}
+
+        {canManage && <RetentionSettingsCard />}
+      </div>
+    </PageLayout>
+  );
+};
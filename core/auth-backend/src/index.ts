@@ -1,12 +1,14 @@
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { APIError } from "better-auth/api";
+import { twoFactor } from "better-auth/plugins/two-factor";
 import {
   createBackendPlugin,
   coreServices,
   coreHooks,
   authenticationStrategyServiceRef,
   type AuthStrategy,
+  type ConfigService,
 } from "@checkstack/backend-api";
 import {
   pluginMetadata,
@@ -23,6 +25,7 @@ import { User } from "better-auth/types";
 import { verifyPassword } from "better-auth/crypto";
 import { createExtensionPoint } from "@checkstack/backend-api";
 import { enrichUser } from "./utils/user";
+import { applyTwoFactorPolicy } from "./utils/two-factor";
 import { ADMIN_ROLE_ID, createAuthRouter } from "./router";
 import { validateStrategySchema } from "./utils/validate-schema";
 import {
@@ -290,6 +293,7 @@ export default createBackendPlugin({
   register(env) {
     let auth: ReturnType<typeof betterAuth> | undefined;
     let db: SafeDatabase<typeof schema> | undefined;
+    let configService: ConfigService | undefined;
 
     const strategies: AuthStrategy<unknown>[] = [];
 
@@ -324,12 +328,6 @@ export default createBackendPlugin({
       },
     });
 
-    // Helper to fetch access rules
-    const enrichUserLocal = async (user: User) => {
-      if (!db) return user;
-      return enrichUser(user, db);
-    };
-
     // 2. Register Authentication Strategy (used by Core AuthService)
     env.registerService(authenticationStrategyServiceRef, {
       validate: async (request: Request) => {
@@ -439,7 +437,19 @@ export default createBackendPlugin({
           headers: request.headers,
         });
         if (!session?.user) return;
-        return enrichUserLocal(session.user);
+        const user = await enrichUser(session.user, db);
+        if (!configService) return user;
+
+        // Added to the session user by the two-factor plugin
+        const { twoFactorEnabled } = session.user as User & {
+          twoFactorEnabled?: boolean | null;
+        };
+        return applyTwoFactorPolicy({
+          user,
+          twoFactorEnabled: twoFactorEnabled === true,
+          db,
+          config: configService,
+        });
       },
     });
 
@@ -465,6 +475,7 @@ export default createBackendPlugin({
         logger.debug("[auth-backend] Initializing Auth Backend...");
 
         db = database;
+        configService = config;
 
         // Function to initialize/reinitialize better-auth
         const initializeBetterAuth = async () => {
@@ -585,6 +596,10 @@ export default createBackendPlugin({
               resetPasswordTokenExpiresIn: 60 * 60, // 1 hour
             },
             socialProviders,
+            plugins: [
+              // TOTP and recovery codes, only challenged on credential sign-in
+              twoFactor({ issuer: "Checkstack" }),
+            ],
             basePath: "/api/auth",
             baseURL: process.env.BASE_URL || "http://localhost:5173",
             trustedOrigins: [process.env.BASE_URL || "http://localhost:5173"],
@@ -842,6 +857,10 @@ export default createBackendPlugin({
 
 // Re-export utility functions for use by custom auth strategies
 export * from "./utils/auth-error-redirect";
+export {
+  strategyMetaConfigV1,
+  STRATEGY_META_CONFIG_VERSION,
+} from "./meta-config";
 
 // Re-export hooks for cross-plugin communication
 export { authHooks } from "./hooks";
@@ -157,13 +157,38 @@ describe("Auth Router", () => {
     expect(mockDb.transaction).toHaveBeenCalled();
 
     // Verify all related tables were deleted in order
-    expect(deletedTables).toHaveLength(4);
+    expect(deletedTables).toHaveLength(5);
     expect(deletedTables.includes(schema.userRole)).toBe(true);
     expect(deletedTables.includes(schema.session)).toBe(true);
     expect(deletedTables.includes(schema.account)).toBe(true);
+    expect(deletedTables.includes(schema.twoFactor)).toBe(true);
     expect(deletedTables.includes(schema.user)).toBe(true);
   });
 
+  it("resetUserTwoFactor clears the secret and signs the user out", async () => {
+    const context = createMockRpcContext({ user: mockUser });
+
+    const deletedTables: unknown[] = [];
+    const updateSet = mock(() => ({ where: mock(() => Promise.resolve()) }));
+    const mockTx: unknown = {
+      delete: mock((table: unknown) => {
+        deletedTables.push(table);
+        return { where: mock(() => Promise.resolve()) };
+      }),
+      update: mock(() => ({ set: updateSet })),
+    };
+    mockDb.transaction.mockImplementationOnce((cb: (tx: unknown) => unknown) =>
+      cb(mockTx),
+    );
+
+    await call(router.resetUserTwoFactor, "user-1", { context });
+
+    expect(deletedTables).toEqual([schema.twoFactor, schema.session]);
+    expect(updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ twoFactorEnabled: false }),
+    );
+  });
+
   it("getRoles returns all roles with accesss", async () => {
     const context = createMockRpcContext({ user: mockUser });
     mockDb.select.mockImplementationOnce(() => ({
@@ -249,6 +274,22 @@ describe("Auth Router", () => {
     );
   });
 
+  it("setTwoFactorPolicy stores the required roles", async () => {
+    const context = createMockRpcContext({ user: mockUser });
+    const result = await call(
+      router.setTwoFactorPolicy,
+      { requiredRoleIds: ["admin", "admin", "operators"] },
+      { context },
+    );
+    expect(result.success).toBe(true);
+    expect(mockConfigService.set).toHaveBeenCalledWith(
+      "platform.two-factor",
+      expect.anything(),
+      1,
+      { requiredRoleIds: ["admin", "operators"] },
+    );
+  });
+
   // ==========================================================================
   // SERVICE-TO-SERVICE TESTS
   // ==========================================================================
@@ -633,6 +674,58 @@ describe("Auth Router", () => {
     expect(deleteMock).toHaveBeenCalled();
   });
 
+  it("upsertExternalUser syncs managed team memberships", async () => {
+    const context = createMockRpcContext({ user: mockServiceUser });
+
+    // Mock existing user found
+    mockDb.select.mockImplementationOnce(() => ({
+      from: mock(() => createChain([{ id: "existing-user-id" }])),
+    }));
+
+    // Mock update chain
+    mockDb.update = mock(() => ({
+      set: mock(() => ({
+        where: mock(() => Promise.resolve()),
+      })),
+    }));
+
+    // Mock valid sync teams lookup
+    mockDb.select.mockImplementationOnce(() => ({
+      from: mock(() => createChain([{ id: "team-sre" }])),
+    }));
+
+    // Mock current teams - one managed team to remove, one manual team to keep
+    mockDb.select.mockImplementationOnce(() => ({
+      from: mock(() =>
+        createChain([{ teamId: "team-old" }, { teamId: "team-manual" }]),
+      ),
+    }));
+
+    const deleteMock = mock(() => ({
+      where: mock(() => Promise.resolve()),
+    }));
+    mockDb.delete = deleteMock;
+
+    const result = await call(
+      router.upsertExternalUser,
+      {
+        email: "user@example.com",
+        name: "User",
+        providerId: "oidc-keycloak",
+        accountId: "user123",
+        password: "hashed-password",
+        autoUpdateUser: true,
+        syncTeams: ["team-sre"],
+        managedTeamIds: ["team-sre", "team-old"],
+      },
+      { context },
+    );
+
+    expect(result.created).toBe(false);
+    expect(mockDb.insert).toHaveBeenCalled();
+    expect(deleteMock).toHaveBeenCalled();
+  });
+
   // ==========================================================================
   // ADMIN USER CREATION TESTS
   // ==========================================================================
@@ -863,6 +956,41 @@ describe("Auth Router", () => {
     expect(result.hasCredentialAccount).toBe(false);
   });
 
+  it("getCurrentUserProfile reports pending 2FA enrollment required by policy", async () => {
+    // Enforcement strips roles from the context user, stored roles are used instead
+    const context = createMockRpcContext({
+      user: { ...mockUser, roles: [], accessRules: [] },
+    });
+
+    mockDb.select.mockImplementationOnce(() => ({
+      from: mock(() =>
+        createChain([
+          {
+            id: "test-user",
+            name: "Test",
+            email: "test@test.com",
+            twoFactorEnabled: false,
+          },
+        ]),
+      ),
+    }));
+    mockDb.select.mockImplementationOnce(() => ({
+      from: mock(() => createChain([{ providerId: "credential" }])),
+    }));
+    mockDb.select.mockImplementationOnce(() => ({
+      from: mock(() => createChain([{ roleId: ADMIN_ROLE_ID }])),
+    }));
+    mockConfigService.get.mockImplementationOnce(() =>
+      Promise.resolve({ requiredRoleIds: [ADMIN_ROLE_ID] }),
+    );
+
+    const result = await call(router.getCurrentUserProfile, undefined, {
+      context,
+    });
+    expect(result.twoFactorEnabled).toBe(false);
+    expect(result.twoFactorRequired).toBe(true);
+  });
+
   it("updateCurrentUser updates name for any user", async () => {
     const context = createMockRpcContext({ user: mockUser });
 
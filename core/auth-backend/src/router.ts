@@ -30,6 +30,15 @@ import {
   PLATFORM_REGISTRATION_CONFIG_VERSION,
   PLATFORM_REGISTRATION_CONFIG_ID,
 } from "./platform-registration-config";
+import {
+  twoFactorPolicyConfigV1,
+  TWO_FACTOR_POLICY_CONFIG_ID,
+  TWO_FACTOR_POLICY_CONFIG_VERSION,
+} from "./two-factor-policy-config";
+import {
+  getTwoFactorPolicy as loadTwoFactorPolicy,
+  requiresTwoFactorEnrollment,
+} from "./utils/two-factor";
 
 export const ADMIN_ROLE_ID = "admin";
 export const USERS_ROLE_ID = "users";
@@ -187,6 +196,7 @@ export const createAuthRouter = (
       roles: userRoles
         .filter((ur) => ur.userId === u.id)
         .map((ur) => ur.roleId),
+      twoFactorEnabled: u.twoFactorEnabled === true,
     }));
   });
 
@@ -215,6 +225,9 @@ export const createAuthRouter = (
       // Delete accounts
       await tx.delete(schema.account).where(eq(schema.account.userId, id));
 
+      // Delete two-factor secrets
+      await tx.delete(schema.twoFactor).where(eq(schema.twoFactor.userId, id));
+
       // Finally, delete the user
       await tx.delete(schema.user).where(eq(schema.user.id, id));
     });
@@ -223,6 +236,25 @@ export const createAuthRouter = (
     await context.emitHook(authHooks.userDeleted, { userId: id });
   });
 
+  const resetUserTwoFactor = os.resetUserTwoFactor.handler(
+    async ({ input: userId, context }) => {
+      await internalDb.transaction(async (tx) => {
+        await tx
+          .delete(schema.twoFactor)
+          .where(eq(schema.twoFactor.userId, userId));
+        await tx
+          .update(schema.user)
+          .set({ twoFactorEnabled: false, updatedAt: new Date() })
+          .where(eq(schema.user.id, userId));
+        // Sign out everywhere so the user has to sign in and enroll again
+        await tx
+          .delete(schema.session)
+          .where(eq(schema.session.userId, userId));
+      });
+      context.logger.info(`Reset two-factor authentication for user ${userId}`);
+    },
+  );
+
   const getRoles = os.getRoles.handler(async () => {
     const roles = await internalDb.select().from(schema.role);
     const roleAccessRules = await internalDb
@@ -593,6 +625,22 @@ export const createAuthRouter = (
     },
   );
 
+  const getTwoFactorPolicy = os.getTwoFactorPolicy.handler(async () => {
+    return loadTwoFactorPolicy(configService);
+  });
+
+  const setTwoFactorPolicy = os.setTwoFactorPolicy.handler(
+    async ({ input }) => {
+      await configService.set(
+        TWO_FACTOR_POLICY_CONFIG_ID,
+        twoFactorPolicyConfigV1,
+        TWO_FACTOR_POLICY_CONFIG_VERSION,
+        { requiredRoleIds: [...new Set(input.requiredRoleIds)] },
+      );
+      return { success: true };
+    },
+  );
+
   // ==========================================================================
   // ONBOARDING ENDPOINTS
   // ==========================================================================
@@ -709,11 +757,27 @@ export const createAuthRouter = (
         )
         .limit(1);
 
+      // Evaluate the 2FA policy against stored roles, the context user
+      // has no roles while enrollment is pending
+      const userRoles = await internalDb
+        .select({ roleId: schema.userRole.roleId })
+        .from(schema.userRole)
+        .where(eq(schema.userRole.userId, user.id));
+      const { requiredRoleIds } = await loadTwoFactorPolicy(configService);
+      const twoFactorEnabled = users[0].twoFactorEnabled === true;
+
       return {
         id: users[0].id,
         name: users[0].name,
         email: users[0].email,
         hasCredentialAccount: accounts.length > 0,
+        twoFactorEnabled,
+        twoFactorRequired: requiresTwoFactorEnrollment({
+          roles: userRoles.map((r) => r.roleId),
+          requiredRoleIds,
+          twoFactorEnabled,
+          hasCredentialAccount: accounts.length > 0,
+        }),
       };
     },
   );
@@ -865,6 +929,8 @@ export const createAuthRouter = (
         autoUpdateUser,
         syncRoles,
         managedRoleIds,
+        syncTeams,
+        managedTeamIds,
       } = input;
 
       // Check if user exists
@@ -986,6 +1052,56 @@ export const createAuthRouter = (
         }
       }
 
+      // Handle team sync if syncTeams is provided, same semantics as roles
+      if (syncTeams) {
+        const syncTeamSet = new Set(syncTeams);
+
+        const validSyncTeams =
+          syncTeams.length > 0
+            ? await internalDb
+                .select({ id: schema.team.id })
+                .from(schema.team)
+                .where(inArray(schema.team.id, syncTeams))
+            : [];
+
+        const currentTeams = await internalDb
+          .select({ teamId: schema.userTeam.teamId })
+          .from(schema.userTeam)
+          .where(eq(schema.userTeam.userId, userId));
+        const currentTeamIds = new Set(currentTeams.map((t) => t.teamId));
+
+        const teamsToAdd = validSyncTeams
+          .map((t) => t.id)
+          .filter((id) => !currentTeamIds.has(id));
+        if (teamsToAdd.length > 0) {
+          await internalDb
+            .insert(schema.userTeam)
+            .values(teamsToAdd.map((teamId) => ({ userId, teamId })));
+          context.logger.info(
+            `Added ${teamsToAdd.length} team memberships for external user: ${email}`,
+          );
+        }
+
+        if (managedTeamIds && managedTeamIds.length > 0) {
+          const teamsToRemove = [...currentTeamIds].filter(
+            (id) => managedTeamIds.includes(id) && !syncTeamSet.has(id),
+          );
+          if (teamsToRemove.length > 0) {
+            await internalDb
+              .delete(schema.userTeam)
+              .where(
+                and(
+                  eq(schema.userTeam.userId, userId),
+                  inArray(schema.userTeam.teamId, teamsToRemove),
+                ),
+              );
+            context.logger.info(
+              `Removed ${teamsToRemove.length} managed team memberships for external user: ${email}`,
+            );
+          }
+        }
+      }
+
       return { userId, created };
     },
   );
@@ -1719,12 +1835,15 @@ export const createAuthRouter = (
     updateRole,
     deleteRole,
     updateUserRoles,
+    resetUserTwoFactor,
     getStrategies,
     updateStrategy,
     reloadAuth,
     getRegistrationSchema,
     getRegistrationStatus,
     setRegistrationStatus,
+    getTwoFactorPolicy,
+    setTwoFactorPolicy,
     getOnboardingStatus,
     completeOnboarding,
     getCurrentUserProfile,
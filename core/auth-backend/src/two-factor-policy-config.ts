@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+/**
+ * Platform-level two-factor authentication policy.
+ * Credential users holding one of the listed roles must enroll a TOTP authenticator.
+ */
+export const twoFactorPolicyConfigV1 = z.object({
+  /**
+   * Roles that require two-factor authentication.
+   * Users with these roles are signed in without any access until they enroll.
+   */
+  requiredRoleIds: z
+    .array(z.string())
+    .default([])
+    .describe(
+      "Roles whose credential users must enable two-factor authentication",
+    ),
+});
+
+export type TwoFactorPolicyConfig = z.infer<typeof twoFactorPolicyConfigV1>;
+
+export const TWO_FACTOR_POLICY_CONFIG_VERSION = 1;
+export const TWO_FACTOR_POLICY_CONFIG_ID = "platform.two-factor";
@@ -0,0 +1,103 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { ConfigService, SafeDatabase } from "@checkstack/backend-api";
+import type * as schema from "../schema";
+import {
+  applyTwoFactorPolicy,
+  requiresTwoFactorEnrollment,
+} from "./two-factor";
+
+const createMockDb = (accounts: unknown[]) => {
+  const mockDb: unknown = {
+    select: mock(() => mockDb),
+    from: mock(() => mockDb),
+    where: mock(() => mockDb),
+    limit: mock(() => Promise.resolve(accounts)),
+  };
+  return mockDb as SafeDatabase<typeof schema>;
+};
+
+const createMockConfig = (requiredRoleIds: string[]) =>
+  ({
+    get: mock(() => Promise.resolve({ requiredRoleIds })),
+  }) as unknown as ConfigService;
+
+const admin = {
+  type: "user" as const,
+  id: "user-1",
+  roles: ["admin", "users"],
+  accessRules: ["*"],
+  teamIds: ["team-1"],
+};
+
+describe("requiresTwoFactorEnrollment", () => {
+  it("requires enrollment for credential users with a covered role", () => {
+    expect(
+      requiresTwoFactorEnrollment({
+        roles: ["admin"],
+        requiredRoleIds: ["admin"],
+        twoFactorEnabled: false,
+        hasCredentialAccount: true,
+      }),
+    ).toBe(true);
+  });
+
+  it("skips enrolled users, SSO users and uncovered roles", () => {
+    const base = {
+      roles: ["admin"],
+      requiredRoleIds: ["admin"],
+      twoFactorEnabled: false,
+      hasCredentialAccount: true,
+    };
+    expect(
+      requiresTwoFactorEnrollment({ ...base, twoFactorEnabled: true }),
+    ).toBe(false);
+    expect(
+      requiresTwoFactorEnrollment({ ...base, hasCredentialAccount: false }),
+    ).toBe(false);
+    expect(requiresTwoFactorEnrollment({ ...base, roles: ["users"] })).toBe(
+      false,
+    );
+  });
+});
+
+describe("applyTwoFactorPolicy", () => {
+  it("removes all access until the user enrolls", async () => {
+    const result = await applyTwoFactorPolicy({
+      user: admin,
+      twoFactorEnabled: false,
+      db: createMockDb([{ id: "account-1" }]),
+      config: createMockConfig(["admin"]),
+    });
+
+    expect(result).toEqual({
+      ...admin,
+      roles: [],
+      accessRules: [],
+      teamIds: [],
+    });
+  });
+
+  it("keeps access for enrolled users", async () => {
+    const config = createMockConfig(["admin"]);
+    const result = await applyTwoFactorPolicy({
+      user: admin,
+      twoFactorEnabled: true,
+      db: createMockDb([{ id: "account-1" }]),
+      config,
+    });
+
+    expect(result).toBe(admin);
+    expect(config.get).not.toHaveBeenCalled();
+  });
+
+  it("keeps access for users without a credential account", async () => {
+    const result = await applyTwoFactorPolicy({
+      user: admin,
+      twoFactorEnabled: false,
+      db: createMockDb([]),
+      config: createMockConfig(["admin"]),
+    });
+
+    expect(result).toBe(admin);
+  });
+});
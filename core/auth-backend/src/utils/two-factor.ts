@@ -0,0 +1,93 @@
+import type {
+  ConfigService,
+  RealUser,
+  SafeDatabase,
+} from "@checkstack/backend-api";
+import { and, eq } from "drizzle-orm";
+import * as schema from "../schema";
+import {
+  twoFactorPolicyConfigV1,
+  TWO_FACTOR_POLICY_CONFIG_ID,
+  TWO_FACTOR_POLICY_CONFIG_VERSION,
+  type TwoFactorPolicyConfig,
+} from "../two-factor-policy-config";
+
+/**
+ * Whether a user must enroll two-factor authentication before getting access.
+ * Only credential users can enroll, SSO users rely on their identity provider's MFA.
+ */
+export const requiresTwoFactorEnrollment = ({
+  roles,
+  requiredRoleIds,
+  twoFactorEnabled,
+  hasCredentialAccount,
+}: {
+  roles: string[];
+  requiredRoleIds: string[];
+  twoFactorEnabled: boolean;
+  hasCredentialAccount: boolean;
+}): boolean =>
+  !twoFactorEnabled &&
+  hasCredentialAccount &&
+  roles.some((roleId) => requiredRoleIds.includes(roleId));
+
+export const getTwoFactorPolicy = async (
+  config: ConfigService,
+): Promise<TwoFactorPolicyConfig> => {
+  const policy = await config.get(
+    TWO_FACTOR_POLICY_CONFIG_ID,
+    twoFactorPolicyConfigV1,
+    TWO_FACTOR_POLICY_CONFIG_VERSION,
+  );
+  return policy ?? { requiredRoleIds: [] };
+};
+
+export const hasCredentialAccount = async (
+  db: SafeDatabase<typeof schema>,
+  userId: string,
+): Promise<boolean> => {
+  const accounts = await db
+    .select({ id: schema.account.id })
+    .from(schema.account)
+    .where(
+      and(
+        eq(schema.account.userId, userId),
+        eq(schema.account.providerId, "credential"),
+      ),
+    )
+    .limit(1);
+  return accounts.length > 0;
+};
+
+/**
+ * Apply the two-factor policy to an authenticated user.
+ * Users who still have to enroll keep their identity but lose all roles,
+ * access rules and teams, so they can only manage their own account.
+ */
+export const applyTwoFactorPolicy = async ({
+  user,
+  twoFactorEnabled,
+  db,
+  config,
+}: {
+  user: RealUser;
+  twoFactorEnabled: boolean;
+  db: SafeDatabase<typeof schema>;
+  config: ConfigService;
+}): Promise<RealUser> => {
+  if (twoFactorEnabled) return user;
+
+  const { requiredRoleIds } = await getTwoFactorPolicy(config);
+  const roles = user.roles ?? [];
+  if (!roles.some((roleId) => requiredRoleIds.includes(roleId))) return user;
+
+  const required = requiresTwoFactorEnrollment({
+    roles,
+    requiredRoleIds,
+    twoFactorEnabled,
+    hasCredentialAccount: await hasCredentialAccount(db, user.id),
+  });
+  if (!required) return user;
+
+  return { ...user, roles: [], accessRules: [], teamIds: [] };
+};
@@ -13,6 +13,7 @@ const UserDtoSchema = z.object({
   email: z.string(),
   name: z.string(),
   roles: z.array(z.string()),
+  twoFactorEnabled: z.boolean(),
 });
 
 const RoleDtoSchema = z.object({
@@ -54,6 +55,10 @@ const RegistrationStatusSchema = z.object({
   allowRegistration: z.boolean(),
 });
 
+const TwoFactorPolicySchema = z.object({
+  requiredRoleIds: z.array(z.string()),
+});
+
 // Service-to-service schemas
 const FindUserByEmailInputSchema = z.object({
   email: z.string().email(),
@@ -72,6 +77,10 @@ const UpsertExternalUserInputSchema = z.object({
   syncRoles: z.array(z.string()).optional(),
   /** All role IDs that are managed by directory mappings (used to remove roles when user leaves groups) */
   managedRoleIds: z.array(z.string()).optional(),
+  /** Team IDs to assign based on current directory group membership */
+  syncTeams: z.array(z.string()).optional(),
+  /** All team IDs that are managed by directory mappings (used to remove memberships when user leaves groups) */
+  managedTeamIds: z.array(z.string()).optional(),
 });
 
 const UpsertExternalUserOutputSchema = z.object({
@@ -153,6 +162,9 @@ export const authContract = {
       name: z.string(),
       email: z.string(),
       hasCredentialAccount: z.boolean(),
+      twoFactorEnabled: z.boolean(),
+      /** The 2FA policy requires this user to enroll before getting access */
+      twoFactorRequired: z.boolean(),
     }),
   ),
 
@@ -203,6 +215,14 @@ export const authContract = {
     .input(z.object({ userId: z.string(), roles: z.array(z.string()) }))
     .output(z.void()),
 
+  resetUserTwoFactor: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [authAccess.users.manage],
+  })
+    .input(z.string())
+    .output(z.void()),
+
   // ==========================================================================
   // ROLE MANAGEMENT (userType: "user" with access)
   // ==========================================================================
@@ -304,6 +324,24 @@ export const authContract = {
     .input(RegistrationStatusSchema)
     .output(z.object({ success: z.boolean() })),
 
+  // ==========================================================================
+  // TWO-FACTOR POLICY (userType: "user" with access)
+  // ==========================================================================
+
+  getTwoFactorPolicy: proc({
+    operationType: "query",
+    userType: "user",
+    access: [authAccess.strategies],
+  }).output(TwoFactorPolicySchema),
+
+  setTwoFactorPolicy: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [authAccess.strategies],
+  })
+    .input(TwoFactorPolicySchema)
+    .output(z.object({ success: z.boolean() })),
+
   // ==========================================================================
   // INTERNAL SERVICE ENDPOINTS (userType: "service")
   // ==========================================================================
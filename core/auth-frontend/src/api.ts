@@ -7,6 +7,7 @@ export interface AuthUser {
   email: string;
   name?: string;
   image?: string;
+  twoFactorEnabled?: boolean;
 }
 
 export interface AuthSession {
@@ -61,10 +62,20 @@ export interface EnabledAuthStrategy {
  */
 export interface AuthApi {
   // Better-auth methods (not RPC)
+  /**
+   * Sign in with email and password.
+   * Resolves with `twoFactorRequired` when a TOTP or recovery code is needed
+   * to finish the sign-in via `verifyTwoFactor`.
+   */
   signIn(
     email: string,
     password: string
-  ): Promise<{ data?: AuthSession; error?: Error }>;
+  ): Promise<{ data?: AuthSession; error?: Error; twoFactorRequired?: boolean }>;
+  verifyTwoFactor(props: {
+    code: string;
+    method: "totp" | "backup-code";
+    trustDevice?: boolean;
+  }): Promise<{ error?: Error }>;
   signInWithSocial(provider: string): Promise<void>;
   signOut(): Promise<void>;
   getSession(): Promise<{ data?: AuthSession; error?: Error }>;
@@ -48,12 +48,23 @@ export function AuthStrategyCard({
     }));
   }, [roles]);
 
+  // Fetch all teams for the team mapping dropdowns
+  const { data: teams = [] } = authClient.getTeams.useQuery({});
+
+  const teamOptionsResolver: OptionsResolver = useCallback(async () => {
+    return teams.map((team) => ({
+      value: team.id,
+      label: team.name,
+    }));
+  }, [teams]);
+
   // Memoize the resolvers object to prevent unnecessary re-renders
   const optionsResolvers = useMemo(
     () => ({
       roleOptions: roleOptionsResolver,
+      teamOptions: teamOptionsResolver,
     }),
-    [roleOptionsResolver],
+    [roleOptionsResolver, teamOptionsResolver],
   );
 
   // Check if config schema has properties
@@ -38,19 +38,23 @@ import {
 } from "@checkstack/ui";
 import { authApiRef } from "../api";
 import { useEnabledStrategies } from "../hooks/useEnabledStrategies";
+import { useOidcIssuers } from "../hooks/useOidcIssuers";
 import { useAccessRules } from "../hooks/useAccessRules";
 import { useAuthClient } from "../lib/auth-client";
 import { SocialProviderButton } from "./SocialProviderButton";
+import { TwoFactorChallenge } from "./TwoFactorChallenge";
 import { useEffect } from "react";
 
 export const LoginPage = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
 
   const authApi = useApi(authApiRef);
   const authClient = usePluginClient(AuthApi);
   const { strategies, loading: strategiesLoading } = useEnabledStrategies();
+  const oidcIssuers = useOidcIssuers(strategies.some((s) => s.id === "oidc"));
 
   // Query: Registration status
   const { data: registrationData } = authClient.getRegistrationStatus.useQuery(
@@ -62,9 +66,14 @@ export const LoginPage = () => {
     e.preventDefault();
     setLoading(true);
     try {
-      const { error } = await authApi.signIn(email, password);
+      const { error, twoFactorRequired } = await authApi.signIn(
+        email,
+        password,
+      );
       if (error) {
         console.error("Login failed:", error);
+      } else if (twoFactorRequired) {
+        setTwoFactorPending(true);
       } else {
         // Use full page navigation to ensure session/permissions state refreshes
         globalThis.location.href = "/";
@@ -93,6 +102,17 @@ export const LoginPage = () => {
   const hasCredential = !!credentialStrategy;
   const hasSocial = socialStrategies.length > 0;
 
+  if (twoFactorPending) {
+    return (
+      <TwoFactorChallenge
+        onCancel={() => {
+          setTwoFactorPending(false);
+          setPassword("");
+        }}
+      />
+    );
+  }
+
   // Loading state
   if (strategiesLoading) {
     return (
@@ -224,14 +244,28 @@ export const LoginPage = () => {
             {/* Social Provider Buttons */}
             {hasSocial && (
               <div className="space-y-2">
-                {socialStrategies.map((strategy) => (
-                  <SocialProviderButton
-                    key={strategy.id}
-                    displayName={strategy.displayName}
-                    icon={strategy.icon}
-                    onClick={() => handleSocialLogin(strategy.id)}
-                  />
-                ))}
+                {socialStrategies.map((strategy) =>
+                  // OIDC renders one button per configured issuer
+                  strategy.id === "oidc" ? (
+                    oidcIssuers.map((issuer) => (
+                      <SocialProviderButton
+                        key={`oidc-${issuer.id}`}
+                        displayName={issuer.displayName}
+                        icon={strategy.icon}
+                        onClick={() => {
+                          globalThis.location.href = `/api/auth-oidc/oidc/login?issuer=${encodeURIComponent(issuer.id)}`;
+                        }}
+                      />
+                    ))
+                  ) : (
+                    <SocialProviderButton
+                      key={strategy.id}
+                      displayName={strategy.displayName}
+                      icon={strategy.icon}
+                      onClick={() => handleSocialLogin(strategy.id)}
+                    />
+                  ),
+                )}
               </div>
             )}
           </div>
@@ -7,6 +7,7 @@ import {
   ArrowLeft,
   CheckCircle,
   AlertCircle,
+  ShieldAlert,
 } from "lucide-react";
 import { usePluginClient } from "@checkstack/frontend-api";
 import { AuthApi, authRoutes } from "@checkstack/auth-common";
@@ -27,6 +28,7 @@ import {
   AlertTitle,
   AlertDescription,
 } from "@checkstack/ui";
+import { TwoFactorCard } from "./TwoFactorCard";
 
 export const ProfilePage = () => {
   const navigate = useNavigate();
@@ -42,8 +44,11 @@ export const ProfilePage = () => {
   const authClient = usePluginClient(AuthApi);
 
   // Fetch current user profile
-  const { data: profile, isLoading: loadingProfile } =
-    authClient.getCurrentUserProfile.useQuery({});
+  const {
+    data: profile,
+    isLoading: loadingProfile,
+    refetch: refetchProfile,
+  } = authClient.getCurrentUserProfile.useQuery({});
 
   // Update mutation
   const updateMutation = authClient.updateCurrentUser.useMutation({
@@ -114,8 +119,31 @@ export const ProfilePage = () => {
     );
   }
 
+  const handleTwoFactorChange = () => {
+    if (profile?.twoFactorRequired) {
+      // Roles were withheld until enrollment, reload to pick up access rules
+      globalThis.location.href = "/";
+      return;
+    }
+    void refetchProfile();
+  };
+
   return (
-    <div className="min-h-[80vh] flex items-center justify-center">
+    <div className="min-h-[80vh] flex flex-col items-center justify-center gap-6 py-8">
+      {profile?.twoFactorRequired && (
+        <Alert variant="warning" className="w-full max-w-md">
+          <AlertIcon>
+            <ShieldAlert className="h-4 w-4" />
+          </AlertIcon>
+          <AlertContent>
+            <AlertTitle>Two-factor authentication required</AlertTitle>
+            <AlertDescription>
+              One of your roles requires two-factor authentication. Enable it
+              below to regain access.
+            </AlertDescription>
+          </AlertContent>
+        </Alert>
+      )}
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold">Profile</CardTitle>
@@ -218,6 +246,12 @@ export const ProfilePage = () => {
           </CardFooter>
         </form>
       </Card>
+      {hasCredentialAccount && (
+        <TwoFactorCard
+          enabled={profile?.twoFactorEnabled ?? false}
+          onChange={handleTwoFactorChange}
+        />
+      )}
     </div>
   );
 };
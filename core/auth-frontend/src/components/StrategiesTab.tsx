@@ -19,6 +19,7 @@ import { usePluginClient } from "@checkstack/frontend-api";
 import { AuthApi } from "@checkstack/auth-common";
 import type { AuthStrategy } from "../api";
 import { AuthStrategyCard } from "./AuthStrategyCard";
+import { TwoFactorPolicyCard } from "./TwoFactorPolicyCard";
 
 export interface StrategiesTabProps {
   strategies: AuthStrategy[];
@@ -206,6 +207,8 @@ export const StrategiesTab: React.FC<StrategiesTabProps> = ({
         </CardContent>
       </Card>
 
+      {canManageStrategies && <TwoFactorPolicyCard />}
+
       <div className="flex justify-end">
         <Button
           onClick={handleReloadAuth}
@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { ShieldCheck, ShieldOff, RefreshCw } from "lucide-react";
+import {
+  Button,
+  Input,
+  Label,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  Badge,
+  useToast,
+} from "@checkstack/ui";
+import { useAuthClient } from "../lib/auth-client";
+
+type Step =
+  | { type: "idle" }
+  | { type: "password"; action: "enable" | "disable" | "regenerate" }
+  | { type: "verify"; totpURI: string; backupCodes: string[] }
+  | { type: "codes"; backupCodes: string[] };
+
+const RecoveryCodes = ({ codes }: { codes: string[] }) => (
+  <div className="space-y-2">
+    <p className="text-sm text-muted-foreground">
+      Store these recovery codes somewhere safe. Each code can be used once to
+      sign in if you lose access to your authenticator app.
+    </p>
+    <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm">
+      {codes.map((code) => (
+        <span key={code}>{code}</span>
+      ))}
+    </div>
+  </div>
+);
+
+/**
+ * Profile card to enroll in, disable and manage TOTP two-factor authentication.
+ * Every change requires the current password, so it is only shown to users
+ * with a credential account.
+ */
+export const TwoFactorCard = ({
+  enabled,
+  onChange,
+}: {
+  enabled: boolean;
+  onChange: () => void;
+}) => {
+  const authClient = useAuthClient();
+  const toast = useToast();
+  const [step, setStep] = useState<Step>({ type: "idle" });
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setStep({ type: "idle" });
+    setPassword("");
+    setCode("");
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (step.type !== "password") return;
+    setLoading(true);
+    try {
+      switch (step.action) {
+        case "enable": {
+          const { data, error } = await authClient.twoFactor.enable({
+            password,
+          });
+          if (error) {
+            toast.error(error.message ?? "Failed to enable two-factor");
+            return;
+          }
+          setStep({
+            type: "verify",
+            totpURI: data.totpURI,
+            backupCodes: data.backupCodes,
+          });
+          break;
+        }
+        case "disable": {
+          const { error } = await authClient.twoFactor.disable({ password });
+          if (error) {
+            toast.error(error.message ?? "Failed to disable two-factor");
+            return;
+          }
+          toast.success("Two-factor authentication disabled");
+          reset();
+          onChange();
+          break;
+        }
+        case "regenerate": {
+          const { data, error } =
+            await authClient.twoFactor.generateBackupCodes({ password });
+          if (error) {
+            toast.error(error.message ?? "Failed to generate recovery codes");
+            return;
+          }
+          setStep({ type: "codes", backupCodes: data.backupCodes });
+          break;
+        }
+      }
+      setPassword("");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const { error } = await authClient.twoFactor.verifyTotp({
+        code: code.trim(),
+      });
+      if (error) {
+        toast.error(error.message ?? "Invalid code");
+        return;
+      }
+      toast.success("Two-factor authentication enabled");
+      reset();
+      onChange();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <div className="flex items-center justify-between">
+          <CardTitle>Two-factor authentication</CardTitle>
+          <Badge variant={enabled ? "success" : "secondary"}>
+            {enabled ? "Enabled" : "Disabled"}
+          </Badge>
+        </div>
+        <CardDescription>
+          Require a code from an authenticator app when signing in with your
+          password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step.type === "idle" &&
+          (enabled ? (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  setStep({ type: "password", action: "regenerate" })
+                }
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                New recovery codes
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => setStep({ type: "password", action: "disable" })}
+              >
+                <ShieldOff className="h-4 w-4 mr-2" />
+                Disable
+              </Button>
+            </div>
+          ) : (
+            <Button
+              onClick={() => setStep({ type: "password", action: "enable" })}
+            >
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Enable two-factor
+            </Button>
+          ))}
+
+        {step.type === "password" && (
+          <form className="space-y-4" onSubmit={handlePasswordSubmit}>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">
+                Confirm with your password
+              </Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                required
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading}>
+                Continue
+              </Button>
+              <Button type="button" variant="outline" onClick={reset}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {step.type === "verify" && (
+          <form className="space-y-4" onSubmit={handleVerify}>
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the code
+              it shows to finish the setup.
+            </p>
+            <div className="flex justify-center rounded-md bg-white p-4">
+              <QRCodeSVG value={step.totpURI} size={180} />
+            </div>
+            <RecoveryCodes codes={step.backupCodes} />
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-verify">Authentication code</Label>
+              <Input
+                id="two-factor-verify"
+                autoComplete="one-time-code"
+                inputMode="numeric"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading}>
+                {loading ? "Verifying..." : "Verify and enable"}
+              </Button>
+              <Button type="button" variant="outline" onClick={reset}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {step.type === "codes" && (
+          <>
+            <RecoveryCodes codes={step.backupCodes} />
+            <p className="text-sm text-muted-foreground">
+              Your previous recovery codes no longer work.
+            </p>
+            <Button variant="outline" onClick={reset}>
+              Done
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
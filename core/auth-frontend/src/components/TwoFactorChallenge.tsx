@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { AlertCircle, ShieldCheck } from "lucide-react";
+import { useApi } from "@checkstack/frontend-api";
+import {
+  Button,
+  Input,
+  Label,
+  Checkbox,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+  Alert,
+  AlertIcon,
+  AlertContent,
+  AlertDescription,
+} from "@checkstack/ui";
+import { authApiRef } from "../api";
+
+/**
+ * Second sign-in step for users with two-factor authentication enabled.
+ * Accepts either an authenticator code or a one-time recovery code.
+ */
+export const TwoFactorChallenge = ({ onCancel }: { onCancel: () => void }) => {
+  const authApi = useApi(authApiRef);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(undefined);
+    setLoading(true);
+    try {
+      const { error: verifyError } = await authApi.verifyTwoFactor({
+        code: code.trim(),
+        method: useRecoveryCode ? "backup-code" : "totp",
+        trustDevice,
+      });
+      if (verifyError) {
+        setError(verifyError.message || "Invalid code");
+      } else {
+        // Use full page navigation to ensure session/permissions state refreshes
+        globalThis.location.href = "/";
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader className="flex flex-col space-y-1 items-center">
+          <ShieldCheck className="h-8 w-8 text-primary" />
+          <CardTitle>Two-factor authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? "Enter one of your recovery codes"
+              : "Enter the 6-digit code from your authenticator app"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            {error && (
+              <Alert variant="error">
+                <AlertIcon>
+                  <AlertCircle className="h-4 w-4" />
+                </AlertIcon>
+                <AlertContent>
+                  <AlertDescription>{error}</AlertDescription>
+                </AlertContent>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">
+                {useRecoveryCode ? "Recovery code" : "Authentication code"}
+              </Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                required
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="trust-device"
+                checked={trustDevice}
+                onCheckedChange={setTrustDevice}
+              />
+              <label htmlFor="trust-device" className="text-sm cursor-pointer">
+                Trust this device for 30 days
+              </label>
+            </div>
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? "Verifying..." : "Verify"}
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter className="flex justify-between border-t border-border mt-4 pt-4">
+          <button
+            type="button"
+            className="text-sm text-primary hover:underline"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+              setError(undefined);
+            }}
+          >
+            {useRecoveryCode
+              ? "Use authenticator app"
+              : "Use a recovery code instead"}
+          </button>
+          <button
+            type="button"
+            className="text-sm text-muted-foreground hover:underline"
+            onClick={onCancel}
+          >
+            Back to sign in
+          </button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
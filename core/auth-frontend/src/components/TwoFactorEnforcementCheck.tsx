@@ -0,0 +1,37 @@
+import { AuthApi, authRoutes } from "@checkstack/auth-common";
+import { resolveRoute } from "@checkstack/common";
+import { useApi, usePluginClient } from "@checkstack/frontend-api";
+import { useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { authApiRef } from "../api";
+
+/**
+ * Two-factor guard that redirects to the profile page while the signed-in
+ * user still has to enroll because one of their roles requires it.
+ * Skips check if already on the profile page.
+ */
+export function TwoFactorEnforcementCheck() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const authApi = useApi(authApiRef);
+  const authClient = usePluginClient(AuthApi);
+  const { data: session } = authApi.useSession();
+
+  const { data: profile } = authClient.getCurrentUserProfile.useQuery(
+    {},
+    { enabled: !!session?.user },
+  );
+
+  useEffect(() => {
+    if (!profile?.twoFactorRequired) {
+      return;
+    }
+
+    const profilePath = resolveRoute(authRoutes.routes.profile);
+    if (location.pathname !== profilePath) {
+      navigate(profilePath, { replace: true });
+    }
+  }, [profile, location.pathname, navigate]);
+
+  return <></>;
+}
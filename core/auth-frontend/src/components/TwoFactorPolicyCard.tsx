@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from "react";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  Button,
+  Checkbox,
+  LoadingSpinner,
+  useToast,
+} from "@checkstack/ui";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { AuthApi } from "@checkstack/auth-common";
+
+/**
+ * Selects the roles whose members must use two-factor authentication.
+ */
+export const TwoFactorPolicyCard: React.FC = () => {
+  const authClient = usePluginClient(AuthApi);
+  const toast = useToast();
+
+  const { data: roles = [], isLoading: loadingRoles } =
+    authClient.getRoles.useQuery();
+  const { data: policy, isLoading: loadingPolicy } =
+    authClient.getTwoFactorPolicy.useQuery();
+
+  const [requiredRoleIds, setRequiredRoleIds] = useState<Set<string>>(
+    new Set(),
+  );
+
+  useEffect(() => {
+    if (policy) {
+      setRequiredRoleIds(new Set(policy.requiredRoleIds));
+    }
+  }, [policy]);
+
+  const saveMutation = authClient.setTwoFactorPolicy.useMutation({
+    onSuccess: () => {
+      toast.success("Two-factor policy saved");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save policy",
+      );
+    },
+  });
+
+  const handleToggleRole = (roleId: string) => {
+    const next = new Set(requiredRoleIds);
+    if (next.has(roleId)) {
+      next.delete(roleId);
+    } else {
+      next.add(roleId);
+    }
+    setRequiredRoleIds(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Policy</CardTitle>
+        <CardDescription>
+          Members of the selected roles must enroll in two-factor
+          authentication. Until they do, they keep their session but lose the
+          permissions of all their roles. Users signing in through single
+          sign-on are exempt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loadingRoles || loadingPolicy ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {roles
+                .filter((role) => role.isAssignable !== false)
+                .map((role) => (
+                  <div key={role.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`two-factor-role-${role.id}`}
+                      checked={requiredRoleIds.has(role.id)}
+                      onCheckedChange={() => handleToggleRole(role.id)}
+                    />
+                    <label
+                      htmlFor={`two-factor-role-${role.id}`}
+                      className="text-sm font-medium leading-none"
+                    >
+                      {role.name}
+                    </label>
+                  </div>
+                ))}
+            </div>
+            <Button
+              onClick={() =>
+                saveMutation.mutate({ requiredRoleIds: [...requiredRoleIds] })
+              }
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -16,9 +16,10 @@ import {
   Alert,
   AlertDescription,
   ConfirmationModal,
+  Badge,
   useToast,
 } from "@checkstack/ui";
-import { Plus, Trash2 } from "lucide-react";
+import { Plus, ShieldOff, Trash2 } from "lucide-react";
 import { usePluginClient } from "@checkstack/frontend-api";
 import { AuthApi } from "@checkstack/auth-common";
 import type { AuthUser, Role, AuthStrategy } from "../api";
@@ -51,6 +52,7 @@ export const UsersTab: React.FC<UsersTabProps> = ({
   const toast = useToast();
 
   const [userToDelete, setUserToDelete] = useState<string>();
+  const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<string>();
   const [createUserDialogOpen, setCreateUserDialogOpen] = useState(false);
 
   const hasCredentialStrategy = strategies.some(
@@ -71,6 +73,21 @@ export const UsersTab: React.FC<UsersTabProps> = ({
     },
   });
 
+  const resetTwoFactorMutation = authClient.resetUserTwoFactor.useMutation({
+    onSuccess: () => {
+      toast.success("Two-factor authentication reset");
+      setUserToResetTwoFactor(undefined);
+      void onDataChange();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to reset two-factor authentication",
+      );
+    },
+  });
+
   const updateRolesMutation = authClient.updateUserRoles.useMutation({
     onSuccess: () => {
       void onDataChange();
@@ -100,6 +117,11 @@ export const UsersTab: React.FC<UsersTabProps> = ({
     deleteUserMutation.mutate(userToDelete);
   };
 
+  const handleResetTwoFactor = () => {
+    if (!userToResetTwoFactor) return;
+    resetTwoFactorMutation.mutate(userToResetTwoFactor);
+  };
+
   const handleToggleRole = (
     userId: string,
     roleId: string,
@@ -156,6 +178,7 @@ export const UsersTab: React.FC<UsersTabProps> = ({
                   <TableRow>
                     <TableHead>User</TableHead>
                     <TableHead>Roles</TableHead>
+                    <TableHead>2FA</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -205,17 +228,38 @@ export const UsersTab: React.FC<UsersTabProps> = ({
                             ))}
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            user.twoFactorEnabled ? "success" : "secondary"
+                          }
+                        >
+                          {user.twoFactorEnabled ? "Enabled" : "Off"}
+                        </Badge>
+                      </TableCell>
                       <TableCell className="text-right">
-                        {canManageUsers &&
-                          user.email !== "admin@checkstack.com" && (
+                        <div className="flex justify-end gap-2">
+                          {canManageUsers && user.twoFactorEnabled && (
                             <Button
-                              variant="destructive"
+                              variant="outline"
                               size="icon"
-                              onClick={() => setUserToDelete(user.id)}
+                              title="Reset two-factor authentication"
+                              onClick={() => setUserToResetTwoFactor(user.id)}
                             >
-                              <Trash2 size={16} />
+                              <ShieldOff size={16} />
                             </Button>
                           )}
+                          {canManageUsers &&
+                            user.email !== "admin@checkstack.com" && (
+                              <Button
+                                variant="destructive"
+                                size="icon"
+                                onClick={() => setUserToDelete(user.id)}
+                              >
+                                <Trash2 size={16} />
+                              </Button>
+                            )}
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -238,6 +282,15 @@ export const UsersTab: React.FC<UsersTabProps> = ({
         message="Are you sure you want to delete this user? This action cannot be undone."
       />
 
+      <ConfirmationModal
+        isOpen={!!userToResetTwoFactor}
+        onClose={() => setUserToResetTwoFactor(undefined)}
+        onConfirm={handleResetTwoFactor}
+        title="Reset Two-Factor Authentication"
+        message="This removes the user's authenticator and recovery codes and signs them out everywhere. They can sign in with their password and enroll again."
+        confirmText="Reset"
+      />
+
       <CreateUserDialog
         open={createUserDialogOpen}
         onOpenChange={setCreateUserDialogOpen}
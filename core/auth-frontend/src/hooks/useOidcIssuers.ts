@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+
+export interface OidcIssuer {
+  id: string;
+  displayName: string;
+}
+
+/**
+ * Load the configured OpenID Connect issuers.
+ * Each issuer is rendered as its own login button.
+ */
+export const useOidcIssuers = (enabled: boolean): OidcIssuer[] => {
+  const [issuers, setIssuers] = useState<OidcIssuer[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    fetch("/api/auth-oidc/oidc/issuers")
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: OidcIssuer[]) => {
+        if (!cancelled) setIssuers(data);
+      })
+      .catch((error) => {
+        console.error("Failed to load OIDC issuers:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return issuers;
+};
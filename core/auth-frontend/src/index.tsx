@@ -37,6 +37,7 @@ import {
 } from "@checkstack/auth-common";
 import { resolveRoute } from "@checkstack/common";
 import { OnboardingCheck } from "./components/OnboardingCheck";
+import { TwoFactorEnforcementCheck } from "./components/TwoFactorEnforcementCheck";
 
 /**
  * BetterAuthApi wraps only better-auth client methods.
@@ -51,6 +52,11 @@ class BetterAuthApi implements AuthApi {
       return { data: undefined, error };
     }
 
+    // Credential users with two-factor authentication get a challenge instead of a session
+    if ("twoFactorRedirect" in res.data && res.data.twoFactorRedirect) {
+      return { data: undefined, error: undefined, twoFactorRequired: true };
+    }
+
     const data = res.data as typeof res.data & {
       session?: AuthSession["session"];
     };
@@ -68,6 +74,28 @@ class BetterAuthApi implements AuthApi {
     };
   }
 
+  async verifyTwoFactor({
+    code,
+    method,
+    trustDevice,
+  }: {
+    code: string;
+    method: "totp" | "backup-code";
+    trustDevice?: boolean;
+  }) {
+    const client = getAuthClientLazy();
+    const res =
+      method === "totp"
+        ? await client.twoFactor.verifyTotp({ code, trustDevice })
+        : await client.twoFactor.verifyBackupCode({ code, trustDevice });
+    if (res.error) {
+      const error = new Error(res.error.message || res.error.statusText);
+      error.name = res.error.code || "AuthError";
+      return { error };
+    }
+    return { error: undefined };
+  }
+
   async signInWithSocial(provider: string) {
     // Use current origin as callback URL (works in dev and production)
     const frontendUrl = globalThis.location?.origin;
@@ -219,5 +247,9 @@ export const authPlugin = createFrontendPlugin({
       id: "auth.onboarding-guard",
       component: OnboardingCheck,
     }),
+    createSlotExtension(NavbarLeftSlot, {
+      id: "auth.two-factor-guard",
+      component: TwoFactorEnforcementCheck,
+    }),
   ],
 });
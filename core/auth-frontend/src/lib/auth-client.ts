@@ -1,12 +1,22 @@
 import { useMemo } from "react";
 import { createAuthClient } from "better-auth/react";
+import { twoFactorClient } from "better-auth/client/plugins";
 import {
   useRuntimeConfig,
   getCachedRuntimeConfig,
 } from "@checkstack/frontend-api";
 
+const createClient = (baseUrl: string) =>
+  createAuthClient({
+    baseURL: baseUrl,
+    basePath: "/api/auth",
+    plugins: [twoFactorClient()],
+  });
+
+type AuthClient = ReturnType<typeof createClient>;
+
 // Cache for lazy-initialized client
-let cachedClient: ReturnType<typeof createAuthClient> | undefined;
+let cachedClient: AuthClient | undefined;
 let cachedBaseUrl: string | undefined;
 
 /**
@@ -16,14 +26,7 @@ let cachedBaseUrl: string | undefined;
 export function useAuthClient() {
   const { baseUrl } = useRuntimeConfig();
 
-  return useMemo(
-    () =>
-      createAuthClient({
-        baseURL: baseUrl,
-        basePath: "/api/auth",
-      }),
-    [baseUrl]
-  );
+  return useMemo(() => createClient(baseUrl), [baseUrl]);
 }
 
 /**
@@ -33,17 +36,14 @@ export function useAuthClient() {
  * Note: This should only be called AFTER RuntimeConfigProvider has loaded.
  * Components rendered inside the provider tree are guaranteed to have config available.
  */
-export function getAuthClientLazy(): ReturnType<typeof createAuthClient> {
+export function getAuthClientLazy(): AuthClient {
   const config = getCachedRuntimeConfig();
   const baseUrl = config?.baseUrl ?? "http://localhost:3000";
 
   // Recreate client if baseUrl changed or not yet created
   if (!cachedClient || cachedBaseUrl !== baseUrl) {
     cachedBaseUrl = baseUrl;
-    cachedClient = createAuthClient({
-      baseURL: baseUrl,
-      basePath: "/api/auth",
-    });
+    cachedClient = createClient(baseUrl);
   }
 
   return cachedClient;
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "bun:test";
+import { z } from "zod";
+import {
+  AUDIT_MAX_STRING_LENGTH,
+  AUDIT_REDACTED,
+  collectSecretKeys,
+  diffAuditValues,
+  sanitizeAuditInput,
+  toAuditActor,
+} from "./audit";
+import { configString } from "./zod-config";
+
+describe("sanitizeAuditInput", () => {
+  it("redacts secret-looking keys at any depth", () => {
+    const result = sanitizeAuditInput({
+      name: "Production DB",
+      config: {
+        password: "hunter2",
+        apiKey: "abc",
+        headers: [{ name: "Authorization", authorization: "Bearer x" }],
+      },
+      clientSecret: "s3cret",
+    });
+
+    expect(result).toEqual({
+      name: "Production DB",
+      config: {
+        password: AUDIT_REDACTED,
+        apiKey: AUDIT_REDACTED,
+        headers: [{ name: "Authorization", authorization: AUDIT_REDACTED }],
+      },
+      clientSecret: AUDIT_REDACTED,
+    });
+  });
+
+  it("redacts secret config fields of plugins", () => {
+    const result = sanitizeAuditInput({
+      config: {
+        authHeaderName: "X-API-Key",
+        authHeaderValue: "abc",
+        userKey: "u123",
+        accessKey: "AKIA",
+      },
+    });
+
+    expect(result).toEqual({
+      config: {
+        authHeaderName: "X-API-Key",
+        authHeaderValue: AUDIT_REDACTED,
+        userKey: AUDIT_REDACTED,
+        accessKey: AUDIT_REDACTED,
+      },
+    });
+  });
+
+  it("keeps empty secrets visible so clearing a secret is auditable", () => {
+    expect(sanitizeAuditInput({ token: "" })).toEqual({ token: "" });
+  });
+
+  it("does not redact keys that only contain a secret word as prefix", () => {
+    expect(sanitizeAuditInput({ passwordPolicy: "strict" })).toEqual({
+      passwordPolicy: "strict",
+    });
+  });
+
+  it("truncates long strings", () => {
+    const result = sanitizeAuditInput("x".repeat(AUDIT_MAX_STRING_LENGTH + 10));
+
+    expect(typeof result).toBe("string");
+    expect((result as string).endsWith("…[truncated]")).toBe(true);
+  });
+
+  it("serializes dates", () => {
+    const date = new Date("2026-01-01T00:00:00.000Z");
+    expect(sanitizeAuditInput({ startAt: date })).toEqual({
+      startAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("collectSecretKeys", () => {
+  it("collects x-secret fields of nested, optional and array schemas", () => {
+    const schema = z.object({
+      name: z.string(),
+      connection: z
+        .object({ dsn: configString({ "x-secret": true }) })
+        .optional(),
+      headers: z.array(
+        z.object({
+          name: z.string(),
+          value: configString({ "x-secret": true }),
+        }),
+      ),
+      options: z.union([
+        z.object({ bearer: configString({ "x-secret": true }).optional() }),
+        z.object({ none: z.boolean() }),
+      ]),
+    });
+
+    expect([...collectSecretKeys(schema)].toSorted()).toEqual([
+      "bearer",
+      "dsn",
+      "value",
+    ]);
+  });
+
+  it("redacts schema secrets whose name does not look like a secret", () => {
+    const secretKeys = collectSecretKeys(
+      z.object({ dsn: configString({ "x-secret": true }) }),
+    );
+
+    expect(
+      sanitizeAuditInput({ config: { dsn: "postgres://u:p@db" } }, secretKeys),
+    ).toEqual({ config: { dsn: AUDIT_REDACTED } });
+  });
+});
+
+describe("diffAuditValues", () => {
+  it("lists changed fields by path", () => {
+    const changes = diffAuditValues(
+      { name: "API", config: { url: "https://a", timeout: 1000 }, tags: ["a"] },
+      { name: "API", config: { url: "https://b", timeout: 1000 }, tags: ["b"] },
+    );
+
+    expect(changes).toEqual([
+      { path: "config.url", before: "https://a", after: "https://b" },
+      { path: "tags", before: ["a"], after: ["b"] },
+    ]);
+  });
+
+  it("lists added and removed fields", () => {
+    expect(diffAuditValues({ a: 1 }, { b: 2 })).toEqual([
+      { path: "a", before: 1, after: undefined },
+      { path: "b", before: undefined, after: 2 },
+    ]);
+  });
+
+  it("shows that a secret changed without its values", () => {
+    const secretKeys = new Set(["dsn"]);
+
+    expect(
+      diffAuditValues(
+        { dsn: "old", token: "t1" },
+        { dsn: "new", token: "t2" },
+        secretKeys,
+      ),
+    ).toEqual([
+      { path: "dsn", before: AUDIT_REDACTED, after: AUDIT_REDACTED },
+      { path: "token", before: AUDIT_REDACTED, after: AUDIT_REDACTED },
+    ]);
+    expect(diffAuditValues({ dsn: "old" }, { dsn: "" }, secretKeys)).toEqual([
+      { path: "dsn", before: AUDIT_REDACTED, after: "" },
+    ]);
+  });
+
+  it("compares dates by value", () => {
+    expect(
+      diffAuditValues(
+        { updatedAt: new Date("2026-01-01T00:00:00.000Z") },
+        { updatedAt: new Date("2026-01-01T00:00:00.000Z") },
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("toAuditActor", () => {
+  it("maps users, applications and anonymous callers", () => {
+    expect(
+      toAuditActor({ type: "user", id: "u1", email: "jane@example.com" }),
+    ).toEqual({ type: "user", id: "u1", name: "jane@example.com" });
+    expect(toAuditActor({ type: "application", id: "a1", name: "CI" })).toEqual(
+      { type: "application", id: "a1", name: "CI" },
+    );
+    expect(toAuditActor(undefined)).toEqual({ type: "anonymous" });
+  });
+
+  it("skips services", () => {
+    expect(toAuditActor({ type: "service", pluginId: "catalog" })).toBe(
+      undefined,
+    );
+  });
+});
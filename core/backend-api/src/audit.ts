@@ -0,0 +1,243 @@
+import { z } from "zod";
+import type { AuthUser } from "./types";
+import { isSecretSchema } from "./zod-config";
+
+/**
+ * Who executed an audited mutation.
+ * Service-to-service calls are not audited, they are triggered by other
+ * audited actions or by the platform itself.
+ */
+export interface AuditActor {
+  type: "user" | "application" | "anonymous";
+  id?: string;
+  name?: string;
+}
+
+/**
+ * A single mutation recorded by the RPC layer.
+ * Emitted via `coreHooks.mutationAudited` and persisted by the audit plugin.
+ */
+export interface MutationAuditEvent {
+  /** ISO timestamp of when the mutation was called */
+  timestamp: string;
+  actor: AuditActor;
+  /** Plugin that owns the procedure */
+  pluginId: string;
+  /** Qualified procedure name, e.g. "catalog.updateSystem" */
+  procedure: string;
+  /** Qualified access rule IDs required by the procedure */
+  accessRules: string[];
+  /** Procedure input with secrets redacted, as sent by the caller */
+  input: unknown;
+  /** Procedure output with secrets redacted, for successful mutations */
+  result?: unknown;
+  /**
+   * Fields the mutation changed, for procedures that record their
+   * before-state via `context.audit`
+   */
+  changes?: AuditChange[];
+  outcome: "success" | "failure";
+  /** oRPC error code for failed mutations, e.g. "FORBIDDEN" */
+  errorCode?: string;
+  errorMessage?: string;
+  durationMs: number;
+}
+
+/** A field changed by an audited mutation */
+export interface AuditChange {
+  /** Dot-separated field path, e.g. "config.url" */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Lets a mutation add details to its audit event.
+ * Available as `context.audit` while an audited mutation runs.
+ */
+export interface MutationAuditRecorder {
+  /**
+   * Record the changed entity as it was before the mutation.
+   * The event then lists the fields that differ from the procedure output.
+   */
+  recordBefore(state: unknown): void;
+  /**
+   * Redact the `x-secret` fields of a config schema the input or output
+   * carries as untyped record, e.g. a strategy config.
+   */
+  addSecretSchema(schema: z.ZodTypeAny): void;
+}
+
+export const AUDIT_REDACTED = "[REDACTED]";
+
+/** Strings longer than this are truncated to keep audit entries small */
+export const AUDIT_MAX_STRING_LENGTH = 2000;
+
+const MAX_DEPTH = 10;
+
+/**
+ * Fallback for secrets without schema, e.g. plugin configs whose schema the
+ * procedure did not add via `MutationAuditRecorder.addSecretSchema`.
+ */
+const SECRET_KEY_PATTERN =
+  /pass(word|phrase)?$|secret|token|(api|private|user|access|signing)[-_]?key|auth[-_]?header[-_]?value|credential|authorization|cookie/i;
+
+/**
+ * Collect the names of fields marked `x-secret` anywhere in a schema.
+ */
+export function collectSecretKeys(
+  schema: z.ZodTypeAny,
+  keys = new Set<string>(),
+  depth = 0,
+): Set<string> {
+  if (depth >= MAX_DEPTH) return keys;
+  const next = (inner: unknown) =>
+    collectSecretKeys(inner as z.ZodTypeAny, keys, depth + 1);
+
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault
+  ) {
+    next(schema.def.innerType);
+  } else if (schema instanceof z.ZodArray) {
+    next(schema.element);
+  } else if (schema instanceof z.ZodRecord) {
+    next(schema.valueType);
+  } else if (schema instanceof z.ZodUnion) {
+    for (const option of schema.options) next(option);
+  } else if (schema instanceof z.ZodIntersection) {
+    next(schema.def.left);
+    next(schema.def.right);
+  } else if (schema instanceof z.ZodPipe) {
+    next(schema.def.in);
+  } else if (schema instanceof z.ZodObject) {
+    for (const [key, field] of Object.entries(schema.shape)) {
+      if (isSecretSchema(field as z.ZodTypeAny)) {
+        keys.add(key);
+      } else {
+        next(field);
+      }
+    }
+  }
+  return keys;
+}
+
+function isSecretKey(key: string, secretKeys: ReadonlySet<string>): boolean {
+  return secretKeys.has(key) || SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Prepare a procedure input or output for the audit log.
+ * Values of secret fields are replaced, long strings are truncated.
+ *
+ * @param secretKeys - Names of `x-secret` fields, see `collectSecretKeys`.
+ *   Keys that look like secrets are redacted in any case.
+ */
+export function sanitizeAuditInput(
+  value: unknown,
+  secretKeys: ReadonlySet<string> = new Set(),
+  depth = 0,
+): unknown {
+  if (typeof value === "string") {
+    return value.length > AUDIT_MAX_STRING_LENGTH
+      ? `${value.slice(0, AUDIT_MAX_STRING_LENGTH)}…[truncated]`
+      : value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeAuditInput(item, secretKeys, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] =
+      isSecretKey(key, secretKeys) && entry !== undefined && entry !== ""
+        ? AUDIT_REDACTED
+        : sanitizeAuditInput(entry, secretKeys, depth + 1);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function serializeAuditValue(value: unknown): string | undefined {
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value);
+}
+
+/**
+ * List the fields that differ between two states of an entity.
+ * Objects are compared field by field, arrays and other values as a whole.
+ * Changed secrets are listed with redacted values.
+ */
+export function diffAuditValues(
+  before: unknown,
+  after: unknown,
+  secretKeys: ReadonlySet<string> = new Set(),
+  path: string[] = [],
+): AuditChange[] {
+  const key = path.at(-1);
+  const secret = key !== undefined && isSecretKey(key, secretKeys);
+
+  if (
+    !secret &&
+    path.length < MAX_DEPTH &&
+    isPlainObject(before) &&
+    isPlainObject(after)
+  ) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((child) =>
+      diffAuditValues(before[child], after[child], secretKeys, [
+        ...path,
+        child,
+      ]),
+    );
+  }
+
+  if (serializeAuditValue(before) === serializeAuditValue(after)) {
+    return [];
+  }
+  const sanitize = (value: unknown) =>
+    secret && value !== undefined && value !== ""
+      ? AUDIT_REDACTED
+      : sanitizeAuditInput(value, secretKeys);
+  return [
+    { path: path.join("."), before: sanitize(before), after: sanitize(after) },
+  ];
+}
+
+/**
+ * Map the authenticated caller to an audit actor.
+ * Returns undefined for services, which are not audited.
+ */
+export function toAuditActor(
+  user: AuthUser | undefined,
+): AuditActor | undefined {
+  if (!user) return { type: "anonymous" };
+  switch (user.type) {
+    case "user": {
+      return { type: "user", id: user.id, name: user.name ?? user.email };
+    }
+    case "application": {
+      return { type: "application", id: user.id, name: user.name };
+    }
+    case "service": {
+      return undefined;
+    }
+  }
+}
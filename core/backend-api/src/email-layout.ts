@@ -22,8 +22,12 @@ export interface EmailLayoutOptions {
     label: string;
     url: string;
   };
+  /** Secondary actions, rendered as outlined buttons after the call-to-action */
+  actions?: Array<{ label: string; url: string }>;
 
-  // Admin-customizable options (via layoutConfig)
+  // Admin-customizable options (via layoutConfig or the organisation branding)
+  /** Product name, used as logo alt text */
+  productName?: string;
   /** Logo URL (max ~200px wide recommended) */
   logoUrl?: string;
   /** Primary brand color (hex, e.g., "#3b82f6") */
@@ -79,6 +83,8 @@ export function wrapInEmailLayout(options: EmailLayoutOptions): string {
     bodyHtml,
     importance,
     action,
+    actions = [],
+    productName,
     logoUrl,
     primaryColor,
     footerText = "This is an automated notification.",
@@ -89,6 +95,20 @@ export function wrapInEmailLayout(options: EmailLayoutOptions): string {
   const headerColor = primaryColor ?? IMPORTANCE_COLORS[importance];
   const buttonColor = options.accentColor ?? headerColor;
 
+  // Build secondary action buttons HTML
+  const secondaryButtonsHtml = actions
+    .map(
+      (secondary) =>
+        `<td style="padding-right: 8px;">
+                    <a href="${escapeHtml(
+                      secondary.url
+                    )}" style="display: inline-block; padding: 10px 20px; border: 2px solid ${buttonColor}; color: ${buttonColor}; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 14px;">
+                      ${escapeHtml(secondary.label)}
+                    </a>
+                  </td>`
+    )
+    .join("");
+
   // Build footer links HTML
   const footerLinksHtml =
     footerLinks.length > 0
@@ -179,7 +199,9 @@ export function wrapInEmailLayout(options: EmailLayoutOptions): string {
             <td align="center" style="padding: 24px 24px 0 24px;">
               <img src="${escapeHtml(
                 logoUrl
-              )}" alt="Logo" style="max-width: 200px; height: auto;">
+              )}" alt="${escapeHtml(
+                productName ?? "Logo"
+              )}" style="max-width: 200px; height: auto;">
             </td>
           </tr>
           `
@@ -200,18 +222,23 @@ export function wrapInEmailLayout(options: EmailLayoutOptions): string {
                 ${bodyHtml}
               </div>
               ${
-                action
+                action || actions.length > 0
                   ? `
-              <!-- CTA Button -->
+              <!-- CTA Buttons -->
               <table role="presentation" cellpadding="0" cellspacing="0" style="margin-top: 24px;">
                 <tr>
-                  <td>
+                  ${
+                    action
+                      ? `<td style="padding-right: 8px;">
                     <a href="${escapeHtml(
                       action.url
                     )}" class="button" style="display: inline-block; padding: 12px 24px; background-color: ${buttonColor}; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 14px;">
                       ${escapeHtml(action.label)}
                     </a>
-                  </td>
+                  </td>`
+                      : ""
+                  }
+                  ${secondaryButtonsHtml}
                 </tr>
               </table>
               `
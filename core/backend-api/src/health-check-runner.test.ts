@@ -0,0 +1,154 @@
+import { describe, expect, it, mock } from "bun:test";
+import { z } from "zod";
+import { Versioned } from "./config-versioning";
+import { VersionedAggregated, aggregatedCounter } from "./aggregated-result";
+import type { RegisteredCollector } from "./collector-registry";
+import type { HealthCheckStrategy } from "./health-check";
+import { runHealthCheck } from "./health-check-runner";
+
+const logger = {
+  info: mock(),
+  error: mock(),
+  warn: mock(),
+  debug: mock(),
+};
+
+const createStrategy = (
+  createClient: HealthCheckStrategy["createClient"],
+): HealthCheckStrategy =>
+  ({
+    id: "mock",
+    displayName: "Mock",
+    config: new Versioned({
+      version: 1,
+      schema: z.object({ timeout: z.number() }),
+    }),
+    result: new Versioned({ version: 1, schema: z.object({}) }),
+    aggregatedResult: new VersionedAggregated({
+      version: 1,
+      fields: { count: aggregatedCounter({}) },
+    }),
+    createClient,
+    mergeResult: mock(() => ({})),
+  }) as unknown as HealthCheckStrategy;
+
+const connect = () =>
+  createStrategy(async () => ({
+    client: { exec: mock(async () => ({})) },
+    close: mock(() => {}),
+  }));
+
+const createCollector = (
+  execute: () => Promise<{ result: Record<string, unknown>; error?: string }>,
+): RegisteredCollector =>
+  ({
+    qualifiedId: "mock.collector",
+    collector: {
+      id: "collector",
+      execute,
+      result: new Versioned({
+        version: 1,
+        schema: z.object({ value: z.number() }),
+      }),
+    },
+    ownerPlugin: { pluginId: "mock" },
+  }) as unknown as RegisteredCollector;
+
+describe("runHealthCheck", () => {
+  it("should store collector results and report healthy", async () => {
+    const registered = createCollector(async () => ({ result: { value: 5 } }));
+
+    const outcome = await runHealthCheck({
+      strategy: connect(),
+      strategyId: "mock.strategy",
+      config: { timeout: 1000 },
+      collectors: [{ id: "c1", collectorId: "mock.collector", config: {} }],
+      collectorRegistry: { getCollector: () => registered },
+      logger,
+    });
+
+    expect(outcome.status).toBe("healthy");
+    expect(outcome.message).toStartWith("Completed in ");
+    expect(outcome.metadata.connected).toBe(true);
+    expect(outcome.metadata.collectors).toEqual({
+      c1: {
+        _collectorId: "mock.collector",
+        _assertionFailed: undefined,
+        value: 5,
+      },
+    });
+  });
+
+  it("should report unhealthy when an assertion fails", async () => {
+    const registered = createCollector(async () => ({ result: { value: 5 } }));
+
+    const outcome = await runHealthCheck({
+      strategy: connect(),
+      strategyId: "mock.strategy",
+      config: { timeout: 1000 },
+      collectors: [
+        {
+          id: "c1",
+          collectorId: "mock.collector",
+          config: {},
+          assertions: [{ field: "value", operator: "lessThan", value: 3 }],
+        },
+      ],
+      collectorRegistry: { getCollector: () => registered },
+      logger,
+    });
+
+    expect(outcome.status).toBe("unhealthy");
+    expect(outcome.message).toBe(
+      "Check failed: Assertion failed: value lessThan 3",
+    );
+  });
+
+  it("should skip unknown collectors", async () => {
+    const outcome = await runHealthCheck({
+      strategy: connect(),
+      strategyId: "mock.strategy",
+      config: { timeout: 1000 },
+      collectors: [{ id: "c1", collectorId: "missing", config: {} }],
+      collectorRegistry: { getCollector: () => undefined },
+      logger,
+    });
+
+    expect(outcome.status).toBe("healthy");
+    expect(outcome.metadata.collectors).toEqual({});
+  });
+
+  it("should report connection failures as unhealthy", async () => {
+    const outcome = await runHealthCheck({
+      strategy: createStrategy(async () => {
+        throw new Error("ECONNREFUSED");
+      }),
+      strategyId: "mock.strategy",
+      config: { timeout: 1000 },
+      collectors: [],
+      collectorRegistry: { getCollector: () => undefined },
+      logger,
+    });
+
+    expect(outcome.status).toBe("unhealthy");
+    expect(outcome.message).toBe("ECONNREFUSED");
+    expect(outcome.metadata).toEqual({
+      connected: false,
+      error: "ECONNREFUSED",
+    });
+  });
+
+  it("should enforce the strategy timeout", async () => {
+    const outcome = await runHealthCheck({
+      strategy: createStrategy(() => new Promise(() => {})),
+      strategyId: "mock.strategy",
+      config: { timeout: 20 },
+      collectors: [],
+      collectorRegistry: { getCollector: () => undefined },
+      logger,
+    });
+
+    expect(outcome.status).toBe("unhealthy");
+    expect(outcome.message).toBe("Execution timeout after 20ms");
+  });
+});
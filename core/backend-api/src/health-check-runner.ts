@@ -0,0 +1,249 @@
+import {
+  stripEphemeralFields,
+  type CollectorConfigEntry,
+} from "@checkstack/healthcheck-common";
+import { evaluateAssertions } from "./assertions";
+import type { BaseStrategyConfig } from "./base-strategy-config";
+import type { CollectorRegistry } from "./collector-registry";
+import type { ConnectedClient, HealthCheckStrategy } from "./health-check";
+import type { TransportClient } from "./transport-client";
+import type { Logger } from "./types";
+
+/**
+ * Outcome of a single health check execution, ready to be stored as a run.
+ */
+export interface HealthCheckRunOutcome {
+  status: "healthy" | "unhealthy";
+  latencyMs: number;
+  message: string;
+  metadata: Record<string, unknown>;
+}
+
+interface CollectorOutcome {
+  storageKey: string;
+  skipped: boolean;
+  success?: boolean;
+  error?: string;
+  collectorError?: string;
+  assertionFailed?: string;
+  result?: Record<string, unknown>;
+}
+
+/**
+ * Execute a health check: connect via the strategy, run all collectors in
+ * parallel and evaluate their assertions, all within the strategy timeout.
+ *
+ * Used by the backend's queue worker and by remote probe agents, so both
+ * produce identical results for the same configuration.
+ */
+export async function runHealthCheck(props: {
+  strategy: HealthCheckStrategy;
+  /** Qualified strategy ID, passed to collectors as the invoking plugin */
+  strategyId: string;
+  config: Record<string, unknown>;
+  collectors: CollectorConfigEntry[];
+  collectorRegistry: Pick<CollectorRegistry, "getCollector">;
+  logger: Logger;
+}): Promise<HealthCheckRunOutcome> {
+  const {
+    strategy,
+    strategyId,
+    config,
+    collectors,
+    collectorRegistry,
+    logger,
+  } = props;
+
+  // Extract timeout from strategy config for platform-level enforcement
+  const strategyConfig = config as unknown as BaseStrategyConfig;
+  const executionTimeout = strategyConfig.timeout ?? 60_000;
+
+  const start = performance.now();
+  let connectionTimeMs: number | undefined;
+  let connectedClient:
+    ConnectedClient<TransportClient<never, unknown>> | undefined;
+  const collectorResults: Record<string, unknown> = {};
+  let hasCollectorError = false;
+  let errorMessage: string | undefined;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    // Platform-level hard timeout wrapping the entire execution sequence
+    await Promise.race([
+      (async () => {
+        // 1. Establish connection
+        connectedClient = await strategy.createClient(strategyConfig);
+        connectionTimeMs = Math.round(performance.now() - start);
+
+        // 2. Execute collectors in parallel
+        const collectorPromises = collectors.map(
+          async (collectorEntry): Promise<CollectorOutcome> => {
+            const registered = collectorRegistry.getCollector(
+              collectorEntry.collectorId,
+            );
+            if (!registered) {
+              logger.warn(
+                `Collector ${collectorEntry.collectorId} not found, skipping`,
+              );
+              return { storageKey: collectorEntry.id, skipped: true };
+            }
+
+            const storageKey = collectorEntry.id;
+
+            try {
+              const collectorResult = await registered.collector.execute({
+                config: collectorEntry.config,
+                client: connectedClient!.client,
+                pluginId: strategyId,
+              });
+
+              // Check for collector-level error
+              let collectorError: string | undefined;
+              if (collectorResult.error) {
+                collectorError = collectorResult.error;
+              }
+
+              // Evaluate per-collector assertions
+              let assertionFailed: string | undefined;
+              if (
+                collectorEntry.assertions &&
+                collectorEntry.assertions.length > 0 &&
+                collectorResult.result
+              ) {
+                const failedAssertion = evaluateAssertions(
+                  collectorEntry.assertions,
+                  collectorResult.result as Record<string, unknown>,
+                );
+                if (failedAssertion) {
+                  assertionFailed = `${failedAssertion.field} ${
+                    failedAssertion.operator
+                  } ${failedAssertion.value ?? ""}`;
+                  logger.debug(
+                    `Collector ${storageKey} assertion failed: ${assertionFailed}`,
+                  );
+                }
+              }
+
+              // Strip ephemeral fields before storage
+              const strippedResult = stripEphemeralFields(
+                collectorResult.result as Record<string, unknown>,
+                registered.collector.result.schema,
+              );
+
+              return {
+                storageKey,
+                skipped: false,
+                success: true,
+                collectorError,
+                assertionFailed,
+                result: {
+                  _collectorId: collectorEntry.collectorId,
+                  _assertionFailed: assertionFailed,
+                  ...strippedResult,
+                },
+              };
+            } catch (error) {
+              const errorStr =
+                error instanceof Error ? error.message : String(error);
+              logger.debug(`Collector ${storageKey} failed: ${errorStr}`);
+              return {
+                storageKey,
+                skipped: false,
+                success: false,
+                error: errorStr,
+                result: {
+                  _collectorId: collectorEntry.collectorId,
+                  _assertionFailed: undefined,
+                  error: errorStr,
+                },
+              };
+            }
+          },
+        );
+
+        // Wait for all collectors to complete
+        const settledResults = await Promise.allSettled(collectorPromises);
+
+        // Process results from all collectors
+        for (const settled of settledResults) {
+          if (settled.status === "rejected") {
+            // This shouldn't happen since we catch errors above, but handle it
+            hasCollectorError = true;
+            if (!errorMessage) errorMessage = String(settled.reason);
+            continue;
+          }
+
+          const result = settled.value;
+          if (result.skipped) continue;
+
+          // Store the result
+          collectorResults[result.storageKey] = result.result;
+
+          // Track errors
+          if (
+            !result.success ||
+            result.collectorError ||
+            result.assertionFailed
+          ) {
+            hasCollectorError = true;
+            if (!errorMessage) {
+              errorMessage =
+                result.error ||
+                result.collectorError ||
+                (result.assertionFailed
+                  ? `Assertion failed: ${result.assertionFailed}`
+                  : undefined);
+            }
+          }
+        }
+      })(),
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+          () =>
+            reject(new Error(`Execution timeout after ${executionTimeout}ms`)),
+          executionTimeout,
+        );
+      }),
+    ]);
+  } catch (error) {
+    const caughtError = error instanceof Error ? error.message : String(error);
+
+    // Use a specific error message if available, otherwise use the caught error
+    const finalError = errorMessage || caughtError;
+
+    return {
+      status: "unhealthy",
+      latencyMs: Math.round(performance.now() - start),
+      message: finalError,
+      metadata: {
+        connected: !!connectedClient,
+        error: finalError,
+      },
+    };
+  } finally {
+    clearTimeout(timeoutId);
+    if (connectedClient) {
+      try {
+        connectedClient.close();
+      } catch (error) {
+        logger.warn(`Failed to close connection: ${error}`);
+      }
+    }
+  }
+
+  // Determine health status based on collector results
+  const totalLatencyMs = Math.round(performance.now() - start);
+
+  return {
+    status: hasCollectorError ? "unhealthy" : "healthy",
+    latencyMs: totalLatencyMs,
+    message: hasCollectorError
+      ? `Check failed: ${errorMessage}`
+      : `Completed in ${totalLatencyMs}ms`,
+    metadata: {
+      connected: true,
+      connectionTimeMs,
+      collectors: collectorResults,
+    },
+  };
+}
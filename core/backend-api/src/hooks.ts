@@ -1,4 +1,5 @@
 import type { AccessRule } from "@checkstack/common";
+import type { MutationAuditEvent } from "./audit";
 
 /**
  * Hook definition for type-safe event emission and subscription
@@ -110,6 +111,17 @@ export const coreHooks = {
   pluginInstalled: createHook<{
     pluginId: string;
   }>("core.plugin.installed"),
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Auditing
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Emitted by the RPC layer after every mutation called by a user,
+   * application or anonymous caller, whether it succeeded or not.
+   * Subscribe with work-queue mode to persist each event exactly once.
+   */
+  mutationAudited: createHook<MutationAuditEvent>("core.audit.mutation"),
 } as const;
 
 /**
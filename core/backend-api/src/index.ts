@@ -14,6 +14,7 @@ export * from "./config-versioning";
 export * from "./rpc";
 export * from "./test-utils";
 export * from "./hooks";
+export * from "./audit";
 export * from "./event-bus-types";
 export * from "./plugin-admin-contract";
 export * from "./notification-strategy";
@@ -27,3 +28,5 @@ export * from "./collector-strategy";
 export * from "./collector-registry";
 export * from "./incremental-aggregation";
 export * from "./aggregated-result";
+export * from "./health-check-runner";
+export * from "./script-sandbox";
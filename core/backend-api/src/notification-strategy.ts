@@ -41,6 +41,19 @@ export interface NotificationPayload {
     label: string;
     url: string;
   };
+  /**
+   * Secondary actions such as acknowledging or snoozing an alert.
+   * Strategies render these after the primary action.
+   */
+  actions?: {
+    label: string;
+    url: string;
+  }[];
+  /**
+   * Files attached to the notification, e.g. a generated report.
+   * Strategies that cannot deliver files ignore them.
+   */
+  attachments?: NotificationAttachment[];
   /**
    * Source type identifier for filtering and templates.
    * Examples: "password-reset", "healthcheck.alert", "maintenance.reminder"
@@ -48,6 +61,17 @@ export interface NotificationPayload {
   type: string;
 }
 
+/**
+ * A file attached to a notification.
+ */
+export interface NotificationAttachment {
+  filename: string;
+  /** MIME type, e.g. "application/pdf" */
+  contentType: string;
+  /** Base64-encoded file content */
+  content: string;
+}
+
 /**
  * Result of sending a notification.
  */
@@ -66,6 +90,21 @@ export interface NotificationDeliveryResult {
 // Send Context
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/**
+ * Organisation branding managed in the theme settings.
+ * Strategies rendering rich content (e.g. HTML emails) should use it unless
+ * their own layout config overrides it.
+ */
+export interface NotificationBranding {
+  productName: string;
+  /** Absolute logo URL */
+  logoUrl?: string;
+  /** Primary color of the light theme (hex) */
+  primaryColor?: string;
+  /** Accent color of the light theme (hex) */
+  accentColor?: string;
+}
+
 /**
  * Context passed to the strategy's send() method.
  */
@@ -74,7 +113,10 @@ export interface NotificationSendContext<
   TUserConfig = undefined,
   TLayoutConfig = undefined
 > {
-  /** Full user identity from auth system */
+  /**
+   * Full user identity from auth system.
+   * For emails to external addresses, `userId` is empty and `email` is the recipient.
+   */
   user: {
     userId: string;
     email?: string;
@@ -90,6 +132,8 @@ export interface NotificationSendContext<
   userConfig: TUserConfig | undefined;
   /** Admin-configured layout settings (if strategy defines layoutConfig) */
   layoutConfig: TLayoutConfig | undefined;
+  /** Organisation branding, undefined if it could not be loaded */
+  branding?: NotificationBranding;
   /** Logger for strategy to log errors and diagnostics */
   logger: Logger;
 }
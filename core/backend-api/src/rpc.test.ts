@@ -1,8 +1,10 @@
 import { describe, expect, it, mock, beforeEach, type Mock } from "bun:test";
-import { call, implement } from "@orpc/server";
+import { call, implement, ORPCError } from "@orpc/server";
 import { z } from "zod";
 import { autoAuthMiddleware, RpcContext } from "./rpc";
 import { createMockRpcContext } from "./test-utils";
+import { AUDIT_REDACTED } from "./audit";
+import { configString } from "./zod-config";
 import { access, accessPair, proc } from "@checkstack/common";
 
 // =============================================================================
@@ -114,6 +116,17 @@ const testContracts = {
     .input(z.object({ name: z.string() }))
     .output(z.object({ id: z.string() })),
 
+  // Mutation carrying an untyped plugin config
+  configUpdateEndpoint: proc({
+    userType: "authenticated",
+    operationType: "mutation",
+    access: [],
+  })
+    .input(z.object({ config: z.record(z.string(), z.unknown()) }))
+    .output(
+      z.object({ id: z.string(), config: z.record(z.string(), z.unknown()) }),
+    ),
+
   // Bulk record endpoint using instanceAccess OVERRIDE at contract level
   // This tests the pattern where bulk endpoints share the same access rule
   // as single endpoints but use recordKey instead of idParam
@@ -607,4 +620,149 @@ describe("autoAuthMiddleware", () => {
       expect(Object.keys(result.statuses)).toHaveLength(0);
     });
   });
+
+  // ---------------------------------------------------------------------------
+  // Auditing
+  // ---------------------------------------------------------------------------
+
+  describe("auditing", () => {
+    const mutation = (handler: () => { id: string }) =>
+      implement(testContracts.mutationEndpoint)
+        .$context<RpcContext>()
+        .use(autoAuthMiddleware)
+        .handler(handler);
+
+    const emittedEvents = () =>
+      (mockContext.emitHook as unknown as Mock<() => Promise<void>>).mock
+        .calls as unknown as [{ id: string }, Record<string, unknown>][];
+
+    it("should emit an audit event for successful mutations", async () => {
+      await call(
+        mutation(() => ({ id: "new-id" })),
+        { name: "db" },
+        {
+          context: {
+            ...mockContext,
+            user: { type: "user", id: "user-1", name: "Jane", accessRules: [] },
+          },
+        },
+      );
+
+      const [[hook, event]] = emittedEvents();
+      expect(hook.id).toBe("core.audit.mutation");
+      expect(event).toMatchObject({
+        actor: { type: "user", id: "user-1", name: "Jane" },
+        pluginId: "test-plugin",
+        input: { name: "db" },
+        outcome: "success",
+      });
+    });
+
+    it("should record the redacted result and the changes against the before-state", async () => {
+      const strategyConfig = z.object({
+        url: z.string(),
+        dsn: configString({ "x-secret": true }),
+      });
+      const procedure = implement(testContracts.configUpdateEndpoint)
+        .$context<RpcContext>()
+        .use(autoAuthMiddleware)
+        .handler(({ input, context }) => {
+          context.audit?.addSecretSchema(strategyConfig);
+          context.audit?.recordBefore({
+            id: "cfg-1",
+            config: { url: "https://old", dsn: "postgres://old" },
+          });
+          return { id: "cfg-1", config: input.config };
+        });
+
+      await call(
+        procedure,
+        { config: { url: "https://new", dsn: "postgres://new" } },
+        { context: mockContext },
+      );
+
+      const [[, event]] = emittedEvents();
+      expect(event).toMatchObject({
+        input: { config: { url: "https://new", dsn: AUDIT_REDACTED } },
+        result: {
+          id: "cfg-1",
+          config: { url: "https://new", dsn: AUDIT_REDACTED },
+        },
+        changes: [
+          { path: "config.url", before: "https://old", after: "https://new" },
+          {
+            path: "config.dsn",
+            before: AUDIT_REDACTED,
+            after: AUDIT_REDACTED,
+          },
+        ],
+      });
+    });
+
+    it("should not record changes without a before-state", async () => {
+      await call(
+        mutation(() => ({ id: "new-id" })),
+        { name: "db" },
+        { context: mockContext },
+      );
+
+      const [[, event]] = emittedEvents();
+      expect(event.result).toEqual({ id: "new-id" });
+      expect(event.changes).toBeUndefined();
+    });
+
+    it("should record failed mutations with their error code", async () => {
+      const procedure = mutation(() => {
+        throw new ORPCError("NOT_FOUND", { message: "System not found" });
+      });
+
+      await expect(
+        call(procedure, { name: "db" }, { context: mockContext }),
+      ).rejects.toThrow("System not found");
+
+      const [[, event]] = emittedEvents();
+      expect(event).toMatchObject({
+        outcome: "failure",
+        errorCode: "NOT_FOUND",
+        errorMessage: "System not found",
+      });
+    });
+
+    it("should not audit queries or service calls", async () => {
+      const query = implement(testContracts.authenticatedEndpoint)
+        .$context<RpcContext>()
+        .use(autoAuthMiddleware)
+        .handler(() => ({ message: "success" }));
+      await call(query, undefined, { context: mockContext });
+
+      await call(
+        mutation(() => ({ id: "new-id" })),
+        { name: "db" },
+        {
+          context: {
+            ...mockContext,
+            user: { type: "service", pluginId: "catalog" },
+          },
+        },
+      );
+
+      expect(emittedEvents()).toHaveLength(0);
+    });
+
+    it("should not fail the mutation when emitting fails", async () => {
+      const context = {
+        ...mockContext,
+        emitHook: mock(() => Promise.reject(new Error("queue down"))),
+      };
+
+      const result = await call(
+        mutation(() => ({ id: "new-id" })),
+        { name: "db" },
+        { context },
+      );
+
+      expect(result).toEqual({ id: "new-id" });
+      expect(context.logger.error).toHaveBeenCalled();
+    });
+  });
 });
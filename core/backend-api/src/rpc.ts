@@ -18,7 +18,16 @@ import {
   ServiceUser,
 } from "./types";
 import type { PluginMetadata } from "@checkstack/common";
-import type { Hook } from "./hooks";
+import { coreHooks, type Hook } from "./hooks";
+import { z } from "zod";
+import {
+  collectSecretKeys,
+  diffAuditValues,
+  sanitizeAuditInput,
+  toAuditActor,
+  type MutationAuditEvent,
+  type MutationAuditRecorder,
+} from "./audit";
 
 // =============================================================================
 // CONTEXT TYPES
@@ -47,6 +56,8 @@ export interface RpcContext {
   queueManager: QueueManager;
   /** Emit a hook event for cross-plugin communication */
   emitHook: EmitHookFn;
+  /** Adds details to the audit event, set while an audited mutation runs */
+  audit?: MutationAuditRecorder;
 }
 
 /** Context with authenticated real user */
@@ -73,26 +84,10 @@ export type { ProcedureMetadata } from "@checkstack/common";
 // =============================================================================
 
 /**
- * Unified authentication and authorization middleware.
- *
- * Automatically enforces based on contract metadata:
- * 1. User type (from meta.userType):
- *    - "anonymous": No authentication required, no access checks
- *    - "public": Anyone can attempt, access checked based on user type
- *    - "user": Only real users (frontend authenticated)
- *    - "service": Only services (backend-to-backend)
- *    - "authenticated": Either users or services, but must be authenticated (default)
- * 2. Access rules (from meta.access): unified access rules + resource-level access control
- *
- * Access Control Logic:
- * - Rules WITHOUT instanceAccess: require global access
- * - Rules WITH instanceAccess: S2S call to auth-backend decides based on:
- *   - Global access OR team grants (when resource is NOT teamOnly)
- *   - Team grants only (when resource IS teamOnly)
- *
- * Use this in backend routers: `implement(contract).$context<RpcContext>().use(autoAuthMiddleware)`
+ * Enforces user type and access rules from the contract metadata.
+ * Exported as part of {@link autoAuthMiddleware}.
  */
-export const autoAuthMiddleware = os.middleware(
+const accessMiddleware = os.middleware(
   async ({ next, context, procedure }, input: unknown) => {
     const meta = procedure["~orpc"]?.meta as ProcedureMetadata | undefined;
     const requiredUserType = meta?.userType || "authenticated";
@@ -438,6 +433,115 @@ export const autoAuthMiddleware = os.middleware(
   },
 );
 
+/**
+ * Emits an audit event for every mutation that is not a service call.
+ * Runs before the access checks so that denied attempts are recorded too.
+ */
+const auditMiddleware = os.middleware(
+  async ({ next, context, procedure, path }, input: unknown) => {
+    const meta = procedure["~orpc"]?.meta as ProcedureMetadata | undefined;
+    const actor = toAuditActor(context.user);
+    if (meta?.operationType !== "mutation" || !actor) {
+      return next({});
+    }
+
+    const { pluginId } = context.pluginMetadata;
+    const startedAt = Date.now();
+
+    // Secrets are redacted by the x-secret fields of the contract schemas and
+    // of the config schemas the handler adds
+    const secretKeys = new Set<string>();
+    for (const schema of [
+      procedure["~orpc"].inputSchema,
+      procedure["~orpc"].outputSchema,
+    ]) {
+      if (schema instanceof z.ZodType) collectSecretKeys(schema, secretKeys);
+    }
+    let before: { state: unknown } | undefined;
+    const audit: MutationAuditRecorder = {
+      recordBefore: (state) => {
+        before = { state };
+      },
+      addSecretSchema: (schema) => {
+        collectSecretKeys(schema, secretKeys);
+      },
+    };
+
+    const emit = async (
+      outcome: Pick<
+        MutationAuditEvent,
+        "outcome" | "errorCode" | "errorMessage" | "result" | "changes"
+      >,
+    ) => {
+      try {
+        await context.emitHook(coreHooks.mutationAudited, {
+          timestamp: new Date(startedAt).toISOString(),
+          actor,
+          pluginId,
+          procedure:
+            path[0] === pluginId
+              ? path.join(".")
+              : [pluginId, ...path].join("."),
+          accessRules: (meta.access ?? []).map((rule) =>
+            qualifyAccessRuleId(context.pluginMetadata, rule),
+          ),
+          input: sanitizeAuditInput(input, secretKeys),
+          durationMs: Date.now() - startedAt,
+          ...outcome,
+        });
+      } catch (error) {
+        // Auditing must never change the outcome of the mutation itself
+        context.logger.error("Failed to emit audit event", error);
+      }
+    };
+
+    try {
+      const result = await next({ context: { audit } });
+      await emit({
+        outcome: "success",
+        result: sanitizeAuditInput(result.output, secretKeys),
+        changes: before
+          ? diffAuditValues(before.state, result.output, secretKeys)
+          : undefined,
+      });
+      return result;
+    } catch (error) {
+      await emit({
+        outcome: "failure",
+        errorCode:
+          error instanceof ORPCError ? error.code : "INTERNAL_SERVER_ERROR",
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  },
+);
+
+/**
+ * Unified authentication and authorization middleware.
+ *
+ * Automatically enforces based on contract metadata:
+ * 1. User type (from meta.userType):
+ *    - "anonymous": No authentication required, no access checks
+ *    - "public": Anyone can attempt, access checked based on user type
+ *    - "user": Only real users (frontend authenticated)
+ *    - "service": Only services (backend-to-backend)
+ *    - "authenticated": Either users or services, but must be authenticated (default)
+ * 2. Access rules (from meta.access): unified access rules + resource-level access control
+ * 3. Auditing: every mutation by a user, application or anonymous caller is
+ *    emitted as `coreHooks.mutationAudited`, including rejected calls
+ *
+ * Access Control Logic:
+ * - Rules WITHOUT instanceAccess: require global access
+ * - Rules WITH instanceAccess: S2S call to auth-backend decides based on:
+ *   - Global access OR team grants (when resource is NOT teamOnly)
+ *   - Team grants only (when resource IS teamOnly)
+ *
+ * Use this in backend routers: `implement(contract).$context<RpcContext>().use(autoAuthMiddleware)`
+ */
+// eslint-disable-next-line unicorn/prefer-spread -- oRPC middleware concatenation, not Array#concat
+export const autoAuthMiddleware = auditMiddleware.concat(accessMiddleware);
+
 /**
  * Extract a nested value from an object using dot notation.
  * E.g., getNestedValue({ params: { id: "123" } }, "params.id") => "123"
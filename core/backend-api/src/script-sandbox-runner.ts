@@ -0,0 +1,199 @@
+/**
+ * Entry point of the script sandbox subprocess, see `runSandboxedScript()`.
+ *
+ * Reads `{ script, context, timeoutMs }` from stdin and evaluates the script
+ * in a fresh VM context without access to `process`, `require`, `Bun` or
+ * dynamic imports. The only capabilities are the bridges installed by the
+ * bootstrap below, which exchange nothing but strings with this realm, so
+ * scripts can never obtain a reference to a host object.
+ *
+ * Writes newline-delimited JSON messages to stdout:
+ * - `{ type: "log", level, message }` for every console call
+ * - `{ type: "result", value }` or `{ type: "result", error }` once at the end
+ */
+import vm from "node:vm";
+
+interface SandboxInput {
+  script: string;
+  context: Record<string, unknown>;
+  timeoutMs: number;
+}
+
+interface FetchRequest {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Runs inside the sandbox. Installs the script context, console, fetch and
+ * timers on top of the host bridge and returns a serializer that was captured
+ * before user code could replace `JSON.stringify`.
+ */
+const BOOTSTRAP = `(function (host, contextJson) {
+  "use strict";
+  const stringify = JSON.stringify;
+  const parse = JSON.parse;
+
+  const format = (args) =>
+    args
+      .map((arg) => {
+        if (typeof arg === "string") return arg;
+        try {
+          return typeof arg === "object" ? stringify(arg) : String(arg);
+        } catch {
+          return String(arg);
+        }
+      })
+      .join(" ");
+
+  globalThis.console = Object.freeze({
+    log: (...args) => host.log("log", format(args)),
+    info: (...args) => host.log("info", format(args)),
+    warn: (...args) => host.log("warn", format(args)),
+    error: (...args) => host.log("error", format(args)),
+    debug: (...args) => host.log("log", format(args)),
+  });
+
+  globalThis.setTimeout = (callback, ms, ...args) =>
+    host.setTimeout(() => callback(...args), Number(ms) || 0);
+  globalThis.clearTimeout = (id) => host.clearTimeout(Number(id));
+
+  globalThis.fetch = (input, init = {}) =>
+    new Promise((resolve, reject) => {
+      const headers =
+        init.headers === undefined ? undefined : Object.fromEntries(
+          typeof init.headers.entries === "function"
+            ? init.headers.entries()
+            : Object.entries(init.headers),
+        );
+      const request = stringify({
+        url: String(input),
+        method: init.method,
+        headers,
+        body: init.body === undefined ? undefined : String(init.body),
+      });
+
+      host.fetch(request).then((responseJson) => {
+        const response = parse(responseJson);
+        if (response.error !== undefined) {
+          reject(new TypeError(response.error));
+          return;
+        }
+        const responseHeaders = new Map(response.headers);
+        resolve(Object.freeze({
+          ok: response.status >= 200 && response.status < 300,
+          status: response.status,
+          statusText: response.statusText,
+          url: response.url,
+          headers: Object.freeze({
+            get: (name) => responseHeaders.get(String(name).toLowerCase()) ?? null,
+            has: (name) => responseHeaders.has(String(name).toLowerCase()),
+            entries: () => responseHeaders.entries(),
+          }),
+          text: async () => response.body,
+          json: async () => parse(response.body),
+        }));
+      });
+    });
+
+  globalThis.context = parse(contextJson);
+
+  return (value) => stringify(value);
+})`;
+
+function write(message: Record<string, unknown>): Promise<void> {
+  return new Promise((resolve) => {
+    process.stdout.write(`${JSON.stringify(message)}\n`, () => resolve());
+  });
+}
+
+function errorMessage(error: unknown): string {
+  if (typeof error === "object" && error !== null && "message" in error) {
+    return String(error.message);
+  }
+  return String(error);
+}
+
+/**
+ * Performs a request on behalf of the script. Always resolves, failures are
+ * returned as `{ error }` so no host error object crosses into the sandbox.
+ */
+async function hostFetch(requestJson: string): Promise<string> {
+  try {
+    const request = JSON.parse(requestJson) as FetchRequest;
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+    });
+    return JSON.stringify({
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url,
+      headers: Object.entries(response.headers.toJSON()),
+      body: await response.text(),
+    });
+  } catch (error) {
+    return JSON.stringify({ error: errorMessage(error) });
+  }
+}
+
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+let nextTimerId = 1;
+
+const host = Object.freeze({
+  log: (level: string, message: string) => {
+    void write({ type: "log", level, message: String(message) });
+  },
+  fetch: (requestJson: string) => hostFetch(String(requestJson)),
+  setTimeout: (callback: () => void, ms: number) => {
+    const id = nextTimerId++;
+    timers.set(
+      id,
+      setTimeout(() => {
+        timers.delete(id);
+        try {
+          callback();
+        } catch (error) {
+          // Uncaught errors in timers end the script, like in Node
+          void write({ type: "result", error: errorMessage(error) }).then(() =>
+            // eslint-disable-next-line unicorn/no-process-exit
+            process.exit(0),
+          );
+        }
+      }, ms),
+    );
+    return id;
+  },
+  clearTimeout: (id: number) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+  },
+});
+
+const input = JSON.parse(await Bun.stdin.text()) as SandboxInput;
+
+try {
+  // A null-prototype sandbox keeps host constructors out of reach
+  const sandbox = vm.createContext(Object.create(null));
+  const bootstrap = vm.runInContext(BOOTSTRAP, sandbox) as (
+    bridge: typeof host,
+    contextJson: string,
+  ) => (value: unknown) => string | undefined;
+  const serialize = bootstrap(host, JSON.stringify(input.context));
+
+  const result: unknown = await vm.runInContext(
+    `(async () => {\n${input.script}\n})()`,
+    sandbox,
+    { timeout: input.timeoutMs },
+  );
+  await write({ type: "result", value: serialize(result) });
+} catch (error) {
+  await write({ type: "result", error: errorMessage(error) });
+}
+
+// Pending timers of the script must not keep the process alive
+// eslint-disable-next-line unicorn/no-process-exit
+process.exit(0);
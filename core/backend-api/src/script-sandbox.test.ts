@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { runSandboxedScript } from "./script-sandbox";
+
+const run = (script: string, context?: Record<string, unknown>) =>
+  runSandboxedScript({ script, context, timeoutMs: 2000 });
+
+describe("runSandboxedScript", () => {
+  describe("execution", () => {
+    it("returns the script's value and exposes the context", async () => {
+      const result = await run("return { doubled: context.value * 2 };", {
+        value: 21,
+      });
+
+      expect(result.value).toEqual({ doubled: 42 });
+      expect(result.error).toBeUndefined();
+      expect(result.timedOut).toBe(false);
+    });
+
+    it("captures console output by level", async () => {
+      const result = await run(`
+        console.log("plain", { a: 1 });
+        console.warn("careful");
+      `);
+
+      expect(result.logs).toEqual([
+        { level: "log", message: 'plain {"a":1}' },
+        { level: "warn", message: "careful" },
+      ]);
+    });
+
+    it("supports timers", async () => {
+      const result = await run(`
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return "done";
+      `);
+
+      expect(result.value).toBe("done");
+    });
+
+    it("reports thrown errors", async () => {
+      const result = await run('throw new Error("boom");');
+
+      expect(result.error).toBe("boom");
+      expect(result.timedOut).toBe(false);
+    });
+  });
+
+  describe("isolation", () => {
+    it("hides process, require and Bun", async () => {
+      const result = await run(
+        "return [typeof process, typeof require, typeof Bun];",
+      );
+
+      expect(result.value).toEqual(["undefined", "undefined", "undefined"]);
+    });
+
+    it("blocks dynamic imports", async () => {
+      const result = await run('await import("node:fs");');
+
+      expect(result.error).toBeDefined();
+    });
+
+    it("does not leak host constructors", async () => {
+      const result = await run(
+        "return this.constructor.constructor('return typeof process')();",
+      );
+
+      expect(result.value).toBe("undefined");
+    });
+
+    it("kills synchronous endless loops", async () => {
+      const result = await runSandboxedScript({
+        script: "await Promise.resolve(); for (;;) {}",
+        timeoutMs: 1000,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.error).toContain("timed out");
+    });
+  });
+
+  describe("fetch", () => {
+    let server: ReturnType<typeof Bun.serve>;
+
+    beforeAll(() => {
+      server = Bun.serve({
+        port: 0,
+        fetch: async (req) =>
+          Response.json(
+            { method: req.method, body: await req.text() },
+            { headers: { "X-Test": "yes" } },
+          ),
+      });
+    });
+
+    afterAll(() => {
+      void server.stop(true);
+    });
+
+    it("performs requests and exposes the response", async () => {
+      const result = await run(
+        `
+        const response = await fetch(context.url, { method: "POST", body: "ping" });
+        return {
+          ok: response.ok,
+          header: response.headers.get("x-test"),
+          json: await response.json(),
+        };
+      `,
+        { url: server.url.href },
+      );
+
+      expect(result.value).toEqual({
+        ok: true,
+        header: "yes",
+        json: { method: "POST", body: "ping" },
+      });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { spawn } from "bun";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+
+/**
+ * A console call made by a sandboxed script.
+ */
+export interface ScriptSandboxLog {
+  level: "log" | "info" | "warn" | "error";
+  message: string;
+}
+
+/**
+ * Outcome of a sandboxed script execution.
+ */
+export interface ScriptSandboxResult {
+  /** The script's return value, round-tripped through JSON */
+  value: unknown;
+  logs: ScriptSandboxLog[];
+  /** Set if the script threw, timed out or was killed */
+  error?: string;
+  timedOut: boolean;
+}
+
+/**
+ * Default address space limit of a sandbox process.
+ */
+export const SCRIPT_SANDBOX_MEMORY_LIMIT_MB = 512;
+
+/**
+ * Logs beyond this count are dropped, so a logging loop cannot exhaust memory.
+ */
+const MAX_LOGS = 1000;
+
+const RUNNER_PATH = fileURLToPath(
+  new URL("script-sandbox-runner.ts", import.meta.url),
+);
+
+/**
+ * Build the command line for the sandbox process. On POSIX systems the
+ * process gets an address space and a CPU time limit via `ulimit`.
+ */
+function buildCommand(props: {
+  memoryLimitMb: number;
+  timeoutMs: number;
+}): string[] {
+  if (process.platform === "win32") {
+    return [process.execPath, RUNNER_PATH];
+  }
+  const memoryKb = props.memoryLimitMb * 1024;
+  const cpuSeconds = Math.ceil(props.timeoutMs / 1000) + 1;
+  return [
+    "/bin/sh",
+    "-c",
+    `ulimit -v ${memoryKb} 2>/dev/null; ulimit -t ${cpuSeconds} 2>/dev/null; exec "$0" "$1"`,
+    process.execPath,
+    RUNNER_PATH,
+  ];
+}
+
+function parseMessages(stdout: string): {
+  logs: ScriptSandboxLog[];
+  result?: { value?: string; error?: string };
+} {
+  const logs: ScriptSandboxLog[] = [];
+  let result: { value?: string; error?: string } | undefined;
+
+  for (const line of stdout.split("\n")) {
+    if (!line) continue;
+    try {
+      const message = JSON.parse(line) as Record<string, unknown>;
+      if (message.type === "log" && logs.length < MAX_LOGS) {
+        logs.push({
+          level: message.level as ScriptSandboxLog["level"],
+          message: String(message.message),
+        });
+      } else if (message.type === "result") {
+        result = {
+          value: message.value as string | undefined,
+          error: message.error as string | undefined,
+        };
+      }
+    } catch {
+      // Ignore partial lines of a killed process
+    }
+  }
+
+  return { logs, result };
+}
+
+/**
+ * Execute an untrusted TypeScript/JavaScript script in an isolated subprocess.
+ *
+ * The script body runs inside an async function, so it can `await` and
+ * `return` a JSON-serializable value. It can only use:
+ * - `context` - a JSON copy of the given context object
+ * - `fetch` - HTTP requests, responses offer `status`, `headers`, `text()` and `json()`
+ * - `console.log/info/warn/error` - captured as logs
+ * - `setTimeout`/`clearTimeout`
+ *
+ * The subprocess starts with an empty environment, has no access to
+ * `process`, the filesystem or modules, is limited in memory and CPU time,
+ * and is killed once the timeout elapses, even in a synchronous loop.
+ */
+export async function runSandboxedScript(props: {
+  script: string;
+  context?: Record<string, unknown>;
+  timeoutMs: number;
+  memoryLimitMb?: number;
+}): Promise<ScriptSandboxResult> {
+  const {
+    script,
+    context = {},
+    timeoutMs,
+    memoryLimitMb = SCRIPT_SANDBOX_MEMORY_LIMIT_MB,
+  } = props;
+
+  const proc = spawn({
+    cmd: buildCommand({ memoryLimitMb, timeoutMs }),
+    cwd: tmpdir(),
+    env: {},
+    stdin: "pipe",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    proc.kill("SIGKILL");
+  }, timeoutMs);
+
+  try {
+    proc.stdin.write(JSON.stringify({ script, context, timeoutMs }));
+    await proc.stdin.end();
+
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    const { logs, result } = parseMessages(stdout);
+
+    if (timedOut) {
+      return {
+        value: undefined,
+        logs,
+        error: "Script execution timed out",
+        timedOut: true,
+      };
+    }
+
+    if (!result) {
+      const reason = proc.signalCode
+        ? `was killed (${proc.signalCode}), probably exceeding its memory or CPU limit`
+        : `exited with code ${exitCode}`;
+      const details = stderr.trim().split("\n").at(-1);
+      return {
+        value: undefined,
+        logs,
+        error: `Script process ${reason}${details ? `: ${details}` : ""}`,
+        timedOut: false,
+      };
+    }
+
+    if (result.error !== undefined) {
+      return { value: undefined, logs, error: result.error, timedOut: false };
+    }
+
+    return {
+      value: result.value === undefined ? undefined : JSON.parse(result.value),
+      logs,
+      timedOut: false,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -66,6 +66,10 @@ export function createMockRpcContext(
       setActiveBackend: mock(),
       getInFlightJobCount: mock(),
       listAllRecurringJobs: mock(),
+      listAllJobs: mock(),
+      listAllDeadLetters: mock(),
+      requeueDeadLetter: mock(),
+      purgeDeadLetters: mock(),
       startPolling: mock(),
       shutdown: mock(),
     } as unknown as QueueManager,
@@ -27,6 +27,10 @@ import {
   pluginMetadata as apiDocsMetadata,
   apiDocsAccess,
 } from "@checkstack/api-docs-common";
+import {
+  STATUS_PAGE_API_PATH,
+  STATUS_PAGE_PATH,
+} from "@checkstack/catalog-common";
 
 import { cors } from "hono/cors";
 
@@ -60,6 +64,32 @@ app.use(
 );
 app.use("*", logger());
 
+// Public status pages on custom domains
+// Requests to the root of any host other than BASE_URL are resolved to the
+// catalog view published on that domain. Unknown hosts fall through.
+const baseHostname = new URL(corsOrigin).hostname;
+app.get("/", async (c, next) => {
+  const hostname = new URL(c.req.url).hostname.toLowerCase();
+  if (hostname === baseHostname || hostname === "localhost") {
+    return next();
+  }
+
+  const target = new URL(STATUS_PAGE_API_PATH, c.req.url);
+  target.searchParams.set("domain", hostname);
+  const response = await app.fetch(new Request(target, c.req.raw));
+  if (response.status === 404) {
+    return next();
+  }
+  return response;
+});
+
+// Public status pages by slug, rendered by the catalog plugin
+app.get(`${STATUS_PAGE_PATH}/:slug`, (c) => {
+  const slug = encodeURIComponent(c.req.param("slug"));
+  const target = new URL(`${STATUS_PAGE_API_PATH}/${slug}`, c.req.url);
+  return app.fetch(new Request(target, c.req.raw));
+});
+
 // Runtime config endpoint - returns BASE_URL for frontend
 app.get("/api/config", (c) => {
   const baseUrl = process.env.BASE_URL || "http://localhost:3000";
@@ -4,6 +4,9 @@ import type {
   SwitchResult,
   RecurringJobInfo,
   QueueStats,
+  QueuedJobInfo,
+  DeadLetterInfo,
+  DeadLetterFilter,
 } from "@checkstack/queue-api";
 import type { QueuePluginRegistryImpl } from "./queue-plugin-registry";
 import type { Logger, ConfigService } from "@checkstack/backend-api";
@@ -216,6 +219,7 @@ export class QueueManagerImpl implements QueueManager {
                   jobId: details.jobId,
                   priority: details.priority,
                   cronPattern: details.cronPattern,
+                  timezone: details.timezone,
                 });
               } else {
                 await proxy.scheduleRecurring(details.data as unknown, {
@@ -316,7 +320,10 @@ export class QueueManagerImpl implements QueueManager {
               // Extract schedule from details (XOR pattern - one must be defined)
               const schedule =
                 "cronPattern" in details
-                  ? { cronPattern: details.cronPattern }
+                  ? {
+                      cronPattern: details.cronPattern,
+                      timezone: details.timezone,
+                    }
                   : { intervalSeconds: details.intervalSeconds };
 
               jobs.push({
@@ -336,6 +343,65 @@ export class QueueManagerImpl implements QueueManager {
     return jobs;
   }
 
+  async listAllJobs(): Promise<QueuedJobInfo[]> {
+    const jobs: QueuedJobInfo[] = [];
+
+    for (const [queueName, proxy] of this.queueProxies.entries()) {
+      try {
+        const delegate = proxy.getDelegate();
+        if (delegate) {
+          for (const job of await delegate.listJobs()) {
+            jobs.push({ ...job, queueName });
+          }
+        }
+      } catch {
+        // Queue may not be initialized yet
+      }
+    }
+
+    return jobs;
+  }
+
+  async listAllDeadLetters(): Promise<DeadLetterInfo[]> {
+    const deadLetters: DeadLetterInfo[] = [];
+
+    for (const [queueName, proxy] of this.queueProxies.entries()) {
+      try {
+        const delegate = proxy.getDelegate();
+        if (delegate) {
+          for (const deadLetter of await delegate.listDeadLetters()) {
+            deadLetters.push({ ...deadLetter, queueName });
+          }
+        }
+      } catch {
+        // Queue may not be initialized yet
+      }
+    }
+
+    return deadLetters.toSorted(
+      (a, b) => b.failedAt.getTime() - a.failedAt.getTime(),
+    );
+  }
+
+  async requeueDeadLetter(queueName: string, id: string): Promise<boolean> {
+    const proxy = this.queueProxies.get(queueName);
+    if (!proxy) {
+      return false;
+    }
+    return proxy.requeueDeadLetter(id);
+  }
+
+  async purgeDeadLetters(
+    queueName: string,
+    filter?: DeadLetterFilter,
+  ): Promise<number> {
+    const proxy = this.queueProxies.get(queueName);
+    if (!proxy) {
+      return 0;
+    }
+    return proxy.purgeDeadLetters(filter);
+  }
+
   startPolling(intervalMs: number = 5000): void {
     if (this.pollingInterval) {
       return; // Already polling
@@ -5,6 +5,9 @@ import type {
   QueueStats,
   RecurringJobDetails,
   RecurringSchedule,
+  JobInfo,
+  DeadLetterJob,
+  DeadLetterFilter,
 } from "@checkstack/queue-api";
 import { rootLogger } from "../logger";
 
@@ -150,6 +153,26 @@ export class QueueProxy<T = unknown> implements Queue<T> {
     return delegate.getInFlightCount();
   }
 
+  async listJobs(): Promise<JobInfo<T>[]> {
+    const delegate = this.ensureDelegate();
+    return delegate.listJobs();
+  }
+
+  async listDeadLetters(): Promise<DeadLetterJob<T>[]> {
+    const delegate = this.ensureDelegate();
+    return delegate.listDeadLetters();
+  }
+
+  async requeueDeadLetter(id: string): Promise<boolean> {
+    const delegate = this.ensureDelegate();
+    return this.trackOperation(delegate.requeueDeadLetter(id));
+  }
+
+  async purgeDeadLetters(filter?: DeadLetterFilter): Promise<number> {
+    const delegate = this.ensureDelegate();
+    return this.trackOperation(delegate.purgeDeadLetters(filter));
+  }
+
   async testConnection(): Promise<void> {
     const delegate = this.ensureDelegate();
     return delegate.testConnection();
@@ -0,0 +1,10 @@
+CREATE TABLE "system_dependencies" (
+	"system_id" text NOT NULL,
+	"depends_on_system_id" text NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "system_dependencies_system_id_depends_on_system_id_pk" PRIMARY KEY("system_id","depends_on_system_id")
+);
+--> statement-breakpoint
+ALTER TABLE "system_dependencies" ADD CONSTRAINT "system_dependencies_system_id_systems_id_fk" FOREIGN KEY ("system_id") REFERENCES "systems"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_dependencies" ADD CONSTRAINT "system_dependencies_depends_on_system_id_systems_id_fk" FOREIGN KEY ("depends_on_system_id") REFERENCES "systems"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "views" ADD COLUMN "is_public" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "views" ADD COLUMN "slug" text;--> statement-breakpoint
+ALTER TABLE "views" ADD COLUMN "custom_domain" text;--> statement-breakpoint
+ALTER TABLE "views" ADD CONSTRAINT "views_slug_unique" UNIQUE("slug");--> statement-breakpoint
+ALTER TABLE "views" ADD CONSTRAINT "views_custom_domain_unique" UNIQUE("custom_domain");
\ No newline at end of file
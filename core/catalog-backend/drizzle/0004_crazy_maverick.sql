@@ -0,0 +1 @@
+ALTER TABLE "views" ADD COLUMN "sort_order" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -13,10 +13,16 @@ import {
 import { createCatalogRouter } from "./router";
 import { NotificationApi } from "@checkstack/notification-common";
 import { AuthApi } from "@checkstack/auth-common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
+import { IncidentApi } from "@checkstack/incident-common";
+import { MaintenanceApi } from "@checkstack/maintenance-common";
+import { ThemeApi } from "@checkstack/theme-common";
 import { authHooks } from "@checkstack/auth-backend";
 import { resolveRoute, type InferClient } from "@checkstack/common";
 import { registerSearchProvider } from "@checkstack/command-backend";
 import { EntityService } from "./services/entity-service";
+import { StatusPageService } from "./services/status-page-service";
+import { createStatusPageHandler } from "./status-page-handler";
 
 // Database schema is still needed for types in creating the router
 import * as schema from "./schema";
@@ -48,15 +54,37 @@ export default createBackendPlugin({
         const notificationClient = rpcClient.forPlugin(NotificationApi);
         const authClient = rpcClient.forPlugin(AuthApi);
 
+        // Public status pages aggregate data from other plugins lazily at request time
+        const entityService = new EntityService(typedDb);
+        const statusPageService = new StatusPageService({
+          entityService,
+          healthCheckClient: rpcClient.forPlugin(HealthCheckApi),
+          incidentClient: rpcClient.forPlugin(IncidentApi),
+          maintenanceClient: rpcClient.forPlugin(MaintenanceApi),
+          logger,
+        });
+
         // Register oRPC router with notification client and auth client
         const catalogRouter = createCatalogRouter({
           database: typedDb,
           notificationClient,
           authClient,
+          statusPageService,
           pluginId: pluginMetadata.pluginId,
         });
         rpc.registerRouter(catalogRouter, catalogContract);
 
+        // Server-rendered public status pages: /api/catalog/status-page/*
+        rpc.registerHttpHandler(
+          createStatusPageHandler({
+            entityService,
+            statusPageService,
+            themeClient: rpcClient.forPlugin(ThemeApi),
+            logger,
+          }),
+          "/status-page",
+        );
+
         // Register catalog systems as searchable in the command palette
         registerSearchProvider({
           pluginMetadata,
@@ -2,15 +2,19 @@ import { implement, ORPCError } from "@orpc/server";
 import { autoAuthMiddleware, type RpcContext } from "@checkstack/backend-api";
 import {
   catalogContract,
+  resolveViewLayout,
+  wouldCreateDependencyCycle,
   type SystemContact,
 } from "@checkstack/catalog-common";
 import { EntityService } from "./services/entity-service";
+import type { StatusPageService } from "./services/status-page-service";
 import type { SafeDatabase } from "@checkstack/backend-api";
 import * as schema from "./schema";
 import { NotificationApi } from "@checkstack/notification-common";
 import { AuthApi } from "@checkstack/auth-common";
 import type { InferClient } from "@checkstack/common";
 import { catalogHooks } from "./hooks";
+import { parseViewConfiguration, toView } from "./view-configuration";
 import { eq } from "drizzle-orm";
 
 /**
@@ -27,6 +31,7 @@ export interface CatalogRouterDeps {
   database: SafeDatabase<typeof schema>;
   notificationClient: InferClient<typeof NotificationApi>;
   authClient: InferClient<typeof AuthApi>;
+  statusPageService: StatusPageService;
   pluginId: string;
 }
 
@@ -34,6 +39,7 @@ export const createCatalogRouter = ({
   database,
   notificationClient,
   authClient,
+  statusPageService,
   pluginId,
 }: CatalogRouterDeps) => {
   const entityService = new EntityService(database);
@@ -135,7 +141,11 @@ export const createCatalogRouter = ({
     };
   });
 
-  const updateSystem = os.updateSystem.handler(async ({ input }) => {
+  const updateSystem = os.updateSystem.handler(async ({ input, context }) => {
+    // Let the audit log diff the change
+    const previous = await entityService.getSystem(input.id);
+    if (previous) context.audit?.recordBefore(previous);
+
     // Convert null to undefined and filter out fields
     const cleanData: Partial<{
       name: string;
@@ -237,14 +247,186 @@ export const createCatalogRouter = ({
     },
   );
 
-  const getViews = os.getViews.handler(async () => entityService.getViews());
+  // System Dependencies handlers
+  const getSystemDependencies = os.getSystemDependencies.handler(
+    async ({ input }) => {
+      const [upstreams, downstreams] = await Promise.all([
+        entityService.getUpstreamDependencies(input.systemId),
+        entityService.getDownstreamDependencies(input.systemId),
+      ]);
+      return { upstreams, downstreams };
+    },
+  );
+
+  const getDependencyGraph = os.getDependencyGraph.handler(async () => {
+    return { dependencies: await entityService.getDependencies() };
+  });
+
+  const addSystemDependency = os.addSystemDependency.handler(
+    async ({ input }) => {
+      const { systemId, dependsOnSystemId, description } = input;
+
+      if (systemId === dependsOnSystemId) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "A system cannot depend on itself",
+        });
+      }
+
+      const [system, upstream] = await Promise.all([
+        entityService.getSystem(systemId),
+        entityService.getSystem(dependsOnSystemId),
+      ]);
+      if (!system || !upstream) {
+        throw new ORPCError("NOT_FOUND", {
+          message: "System not found",
+        });
+      }
+
+      const edges = await entityService.getDependencies();
+      if (wouldCreateDependencyCycle({ edges, systemId, dependsOnSystemId })) {
+        throw new ORPCError("CONFLICT", {
+          message: `Adding this dependency would create a cycle: ${upstream.name} already depends on ${system.name}`,
+        });
+      }
+
+      return entityService.addDependency({
+        systemId,
+        dependsOnSystemId,
+        description,
+      });
+    },
+  );
+
+  const removeSystemDependency = os.removeSystemDependency.handler(
+    async ({ input }) => {
+      await entityService.removeDependency(input);
+      return { success: true };
+    },
+  );
+
+  const getViews = os.getViews.handler(async () => {
+    const views = await entityService.getViews();
+    return Promise.all(views.map((view) => toView(view)));
+  });
+
+  const getView = os.getView.handler(async ({ input }) => {
+    const view = await entityService.getView(input.viewId);
+    // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+    return view ? toView(view) : null;
+  });
 
   const createView = os.createView.handler(async ({ input }) => {
-    return entityService.createView({
+    const view = await entityService.createView({
       name: input.name,
-      type: "custom",
-      config: input.configuration as Record<string, unknown>,
+      description: input.description,
+      configuration: input.configuration,
     });
+    return toView(view);
+  });
+
+  const updateView = os.updateView.handler(async ({ input }) => {
+    const view = await entityService.updateView(input.id, input.data);
+    if (!view) {
+      throw new ORPCError("NOT_FOUND", {
+        message: "View not found",
+      });
+    }
+    statusPageService.invalidate(input.id);
+    return toView(view);
+  });
+
+  const deleteView = os.deleteView.handler(async ({ input }) => {
+    await entityService.deleteView(input);
+    statusPageService.invalidate(input);
+    return { success: true };
+  });
+
+  const reorderViews = os.reorderViews.handler(async ({ input }) => {
+    await entityService.reorderViews(input.viewIds);
+    return { success: true };
+  });
+
+  const updateViewPublishing = os.updateViewPublishing.handler(
+    async ({ input }) => {
+      const { id, isPublic, slug, customDomain } = input;
+
+      const view = await entityService.getView(id);
+      if (!view) {
+        throw new ORPCError("NOT_FOUND", {
+          message: "View not found",
+        });
+      }
+
+      if (isPublic && !slug) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "A slug is required to publish a view",
+        });
+      }
+
+      const views = await entityService.getViews();
+      const others = views.filter((v) => v.id !== id);
+      if (slug && others.some((v) => v.slug === slug)) {
+        throw new ORPCError("CONFLICT", {
+          message: `The slug "${slug}" is already used by another view`,
+        });
+      }
+      if (customDomain && others.some((v) => v.customDomain === customDomain)) {
+        throw new ORPCError("CONFLICT", {
+          message: `The domain "${customDomain}" is already used by another view`,
+        });
+      }
+
+      const updated = await entityService.updateViewPublishing(id, {
+        isPublic,
+        slug,
+        customDomain,
+      });
+      statusPageService.invalidate(id);
+      return toView(updated);
+    },
+  );
+
+  const getPublicStatusPage = os.getPublicStatusPage.handler(
+    async ({ input }) => {
+      const view = await entityService.getPublicViewBySlug(input.slug);
+      if (!view) {
+        throw new ORPCError("NOT_FOUND", {
+          message: "Status page not found",
+        });
+      }
+      return statusPageService.getStatusPage(view);
+    },
+  );
+
+  const getPublicSystemIds = os.getPublicSystemIds.handler(async () => {
+    return { systemIds: await statusPageService.getPublicSystemIds() };
+  });
+
+  const resolveSystems = os.resolveSystems.handler(async ({ input }) => {
+    const [systems, groups, views] = await Promise.all([
+      entityService.getSystems(),
+      entityService.getGroups(),
+      input.viewIds.length > 0 ? entityService.getViews() : [],
+    ]);
+
+    const systemIds = new Set(input.systemIds);
+    for (const group of groups) {
+      if (!input.groupIds.includes(group.id)) continue;
+      for (const systemId of group.systemIds) systemIds.add(systemId);
+    }
+    for (const view of views) {
+      if (!input.viewIds.includes(view.id)) continue;
+      const configuration = await parseViewConfiguration(view.configuration);
+      for (const section of resolveViewLayout({ configuration, groups })) {
+        for (const systemId of section.systemIds) systemIds.add(systemId);
+      }
+    }
+
+    return {
+      systems: systems
+        .filter((system) => systemIds.has(system.id))
+        .map((system) => ({ id: system.id, name: system.name })),
+    };
   });
 
   // System Contacts handlers
@@ -350,6 +532,7 @@ export const createCatalogRouter = ({
         body,
         importance,
         action,
+        actions,
         includeGroupSubscribers,
       } = input;
 
@@ -377,6 +560,7 @@ export const createCatalogRouter = ({
         body,
         importance: importance ?? "info",
         action,
+        actions,
       });
 
       return { notifiedCount: result.notifiedCount };
@@ -400,8 +584,20 @@ export const createCatalogRouter = ({
     deleteGroup,
     addSystemToGroup,
     removeSystemFromGroup,
+    getSystemDependencies,
+    getDependencyGraph,
+    addSystemDependency,
+    removeSystemDependency,
     getViews,
+    getView,
     createView,
+    updateView,
+    deleteView,
+    reorderViews,
+    updateViewPublishing,
+    getPublicStatusPage,
+    getPublicSystemIds,
+    resolveSystems,
     notifySystemSubscribers,
   });
 };
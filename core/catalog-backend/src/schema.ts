@@ -5,7 +5,21 @@ import {
   timestamp,
   json,
   primaryKey,
+  boolean,
+  integer,
 } from "drizzle-orm/pg-core";
+import type { VersionedRecord } from "@checkstack/backend-api";
+import type {
+  ViewConfiguration,
+  ViewConfigurationV1,
+} from "@checkstack/catalog-common";
+
+/**
+ * View configuration as stored in the database.
+ * Views created before configurations were versioned hold a bare list of group IDs.
+ */
+export type StoredViewConfiguration =
+  VersionedRecord<ViewConfiguration> | ViewConfigurationV1;
 
 // Enums
 export const contactTypeEnum = pgEnum("contact_type", ["user", "mailbox"]);
@@ -63,7 +77,37 @@ export const views = pgTable("views", {
   id: text("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
-  configuration: json("configuration").default([]).notNull(), // List of group_ids to show
+  configuration: json("configuration")
+    .$type<StoredViewConfiguration>()
+    .default([])
+    .notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  // Public status page: served unauthenticated via slug or custom domain
+  isPublic: boolean("is_public").default(false).notNull(),
+  slug: text("slug").unique(),
+  customDomain: text("custom_domain").unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
+
+/**
+ * Directed dependency edges between systems.
+ * `systemId` (downstream) depends on `dependsOnSystemId` (upstream).
+ */
+export const systemDependencies = pgTable(
+  "system_dependencies",
+  {
+    systemId: text("system_id")
+      .notNull()
+      .references(() => systems.id, { onDelete: "cascade" }),
+    dependsOnSystemId: text("depends_on_system_id")
+      .notNull()
+      .references(() => systems.id, { onDelete: "cascade" }),
+    // Optional note on why the dependency exists (e.g., "Session storage")
+    description: text("description"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    pk: primaryKey(t.systemId, t.dependsOnSystemId),
+  }),
+);
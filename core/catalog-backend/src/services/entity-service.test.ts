@@ -81,4 +81,32 @@ describe("EntityService", () => {
     await service.deleteSystem("test");
     expect(mockDb.delete).toHaveBeenCalledWith(schema.systems);
   });
+
+  it("should add system dependency", async () => {
+    const dependency = {
+      systemId: "api",
+      dependsOnSystemId: "db",
+      description: null,
+      createdAt: new Date(),
+    };
+    const onConflictDoUpdate = mock(() => ({
+      returning: mock(() => [dependency]),
+    }));
+    (mockDb.insert as any).mockReturnValue({
+      values: mock(() => ({ onConflictDoUpdate })),
+    });
+
+    const result = await service.addDependency({
+      systemId: "api",
+      dependsOnSystemId: "db",
+    });
+    expect(result).toEqual(dependency);
+    expect(mockDb.insert).toHaveBeenCalledWith(schema.systemDependencies);
+    expect(onConflictDoUpdate).toHaveBeenCalled();
+  });
+
+  it("should remove system dependency", async () => {
+    await service.removeDependency({ systemId: "api", dependsOnSystemId: "db" });
+    expect(mockDb.delete).toHaveBeenCalledWith(schema.systemDependencies);
+  });
 });
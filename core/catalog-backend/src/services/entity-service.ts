@@ -1,7 +1,9 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc } from "drizzle-orm";
 import * as schema from "../schema";
 import { SafeDatabase } from "@checkstack/backend-api";
+import type { ViewConfiguration } from "@checkstack/catalog-common";
 import { v4 as uuidv4 } from "uuid";
+import { viewConfiguration } from "../view-configuration";
 
 // Type aliases for entity creation
 type NewSystem = {
@@ -23,10 +25,22 @@ type NewGroup = {
   metadata?: Record<string, unknown>;
 };
 
+type NewDependency = {
+  systemId: string;
+  dependsOnSystemId: string;
+  description?: string;
+};
+
 type NewView = {
   name: string;
-  type: string;
-  config: Record<string, unknown>;
+  description?: string;
+  configuration: ViewConfiguration;
+};
+
+type ViewUpdate = {
+  name?: string;
+  description?: string | null;
+  configuration?: ViewConfiguration;
 };
 
 export class EntityService {
@@ -164,9 +178,61 @@ export class EntityService {
       );
   }
 
+  // System Dependencies
+  async getDependencies() {
+    return this.database.select().from(schema.systemDependencies);
+  }
+
+  async getUpstreamDependencies(systemId: string) {
+    return this.database
+      .select()
+      .from(schema.systemDependencies)
+      .where(eq(schema.systemDependencies.systemId, systemId));
+  }
+
+  async getDownstreamDependencies(systemId: string) {
+    return this.database
+      .select()
+      .from(schema.systemDependencies)
+      .where(eq(schema.systemDependencies.dependsOnSystemId, systemId));
+  }
+
+  async addDependency(data: NewDependency) {
+    const result = await this.database
+      .insert(schema.systemDependencies)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [
+          schema.systemDependencies.systemId,
+          schema.systemDependencies.dependsOnSystemId,
+        ],
+        set: { description: data.description },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async removeDependency(props: {
+    systemId: string;
+    dependsOnSystemId: string;
+  }) {
+    const { systemId, dependsOnSystemId } = props;
+    await this.database
+      .delete(schema.systemDependencies)
+      .where(
+        and(
+          eq(schema.systemDependencies.systemId, systemId),
+          eq(schema.systemDependencies.dependsOnSystemId, dependsOnSystemId),
+        ),
+      );
+  }
+
   // Views
   async getViews() {
-    return this.database.select().from(schema.views);
+    return this.database
+      .select()
+      .from(schema.views)
+      .orderBy(asc(schema.views.sortOrder), asc(schema.views.createdAt));
   }
 
   async getView(id: string) {
@@ -177,11 +243,95 @@ export class EntityService {
     return result[0];
   }
 
+  async getPublicViewBySlug(slug: string) {
+    const result = await this.database
+      .select()
+      .from(schema.views)
+      .where(and(eq(schema.views.slug, slug), eq(schema.views.isPublic, true)));
+    return result[0];
+  }
+
+  async getPublicViewByDomain(customDomain: string) {
+    const result = await this.database
+      .select()
+      .from(schema.views)
+      .where(
+        and(
+          eq(schema.views.customDomain, customDomain),
+          eq(schema.views.isPublic, true),
+        ),
+      );
+    return result[0];
+  }
+
+  async updateViewPublishing(
+    id: string,
+    data: {
+      isPublic: boolean;
+      slug: string | null;
+      customDomain: string | null;
+    },
+  ) {
+    const result = await this.database
+      .update(schema.views)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(schema.views.id, id))
+      .returning();
+    return result[0];
+  }
+
   async createView(data: NewView) {
+    // New views are appended to the end of the list
+    const existing = await this.database
+      .select({ id: schema.views.id })
+      .from(schema.views);
     const result = await this.database
       .insert(schema.views)
-      .values({ id: uuidv4(), ...data })
+      .values({
+        id: uuidv4(),
+        ...data,
+        configuration: viewConfiguration.create(data.configuration),
+        sortOrder: existing.length,
+      })
+      .returning();
+    return result[0];
+  }
+
+  async updateView(id: string, data: ViewUpdate) {
+    const { configuration, ...rest } = data;
+    const result = await this.database
+      .update(schema.views)
+      .set({
+        ...rest,
+        ...(configuration && {
+          configuration: viewConfiguration.create(configuration),
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.views.id, id))
       .returning();
     return result[0];
   }
+
+  async deleteView(id: string) {
+    await this.database.delete(schema.views).where(eq(schema.views.id, id));
+  }
+
+  /**
+   * Persist the given view order. Views not listed keep their relative order
+   * and are placed after the listed ones.
+   */
+  async reorderViews(viewIds: string[]) {
+    const views = await this.getViews();
+    const knownIds = new Set(views.map((v) => v.id));
+    const listed = viewIds.filter((id) => knownIds.has(id));
+    const rest = views.map((v) => v.id).filter((id) => !listed.includes(id));
+
+    for (const [sortOrder, id] of [...listed, ...rest].entries()) {
+      await this.database
+        .update(schema.views)
+        .set({ sortOrder })
+        .where(eq(schema.views.id, id));
+    }
+  }
 }
@@ -0,0 +1,209 @@
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import {
+  StatusPageService,
+  mergeUptimeSeries,
+  worstStatus,
+  type StatusPageServiceDeps,
+} from "./status-page-service";
+import type { EntityService } from "./entity-service";
+
+const day = (date: string, availability: number | null, totalRuns: number) => ({
+  date: new Date(date),
+  availability,
+  totalRuns,
+});
+
+describe("worstStatus", () => {
+  it("returns healthy for no statuses", () => {
+    expect(worstStatus([])).toBe("healthy");
+  });
+
+  it("prefers unhealthy over degraded over healthy", () => {
+    expect(worstStatus(["healthy", "degraded"])).toBe("degraded");
+    expect(worstStatus(["degraded", "unhealthy", "healthy"])).toBe("unhealthy");
+  });
+});
+
+describe("mergeUptimeSeries", () => {
+  it("weights availability by run count", () => {
+    const merged = mergeUptimeSeries([
+      [day("2026-01-01", 100, 30), day("2026-01-02", 50, 10)],
+      [day("2026-01-01", 0, 10), day("2026-01-02", null, 0)],
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].availability).toBe(75);
+    expect(merged[0].totalRuns).toBe(40);
+    expect(merged[1].availability).toBe(50);
+    expect(merged[1].totalRuns).toBe(10);
+  });
+
+  it("returns null availability for days without runs", () => {
+    const merged = mergeUptimeSeries([[day("2026-01-01", null, 0)]]);
+    expect(merged[0].availability).toBeNull();
+  });
+
+  it("returns an empty series without checks", () => {
+    expect(mergeUptimeSeries([])).toEqual([]);
+  });
+});
+
+describe("StatusPageService", () => {
+  const now = new Date("2026-01-02T12:00:00Z");
+
+  const view = {
+    id: "view-1",
+    name: "Public",
+    description: null,
+    // Unversioned configuration from before layouts were configurable
+    configuration: ["group-1"],
+    sortOrder: 0,
+    isPublic: true,
+    slug: "public",
+    customDomain: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const incident = (id: string, systemIds: string[], createdAt: Date) => ({
+    id,
+    title: `Incident ${id}`,
+    description: undefined,
+    status: "investigating",
+    severity: "major",
+    systemIds,
+    createdAt,
+    updatedAt: createdAt,
+    resolvedAt: undefined,
+  });
+
+  let deps: StatusPageServiceDeps;
+
+  beforeEach(() => {
+    deps = {
+      entityService: {
+        getGroups: mock(async () => [
+          { id: "group-1", name: "Core", systemIds: ["sys-1", "sys-2"] },
+          { id: "group-2", name: "Internal", systemIds: ["sys-3"] },
+        ]),
+        getSystems: mock(async () => [
+          { id: "sys-1", name: "API" },
+          { id: "sys-2", name: "Web" },
+          { id: "sys-3", name: "Billing" },
+        ]),
+      } as unknown as EntityService,
+      healthCheckClient: {
+        getBulkSystemHealthStatus: mock(async () => ({
+          statuses: {
+            "sys-1": {
+              status: "healthy",
+              checkStatuses: [{ configurationId: "check-1" }],
+            },
+            "sys-2": { status: "degraded", checkStatuses: [] },
+          },
+        })),
+        getAvailabilityStats: mock(async () => ({
+          dailyAvailability: [day("2026-01-01", 90, 10)],
+        })),
+      },
+      incidentClient: {
+        getBulkIncidentsForSystems: mock(async () => ({
+          incidents: {
+            "sys-1": [
+              incident("inc-1", ["sys-1", "sys-3"], new Date("2026-01-01")),
+              incident("inc-2", ["sys-1"], new Date("2026-01-02")),
+            ],
+            "sys-2": [
+              incident("inc-1", ["sys-1", "sys-3"], new Date("2026-01-01")),
+            ],
+          },
+        })),
+      },
+      maintenanceClient: {
+        getBulkMaintenancesForSystems: mock(async () => {
+          throw new Error("maintenance unavailable");
+        }),
+      },
+      logger: {
+        debug: mock(),
+        info: mock(),
+        warn: mock(),
+        error: mock(),
+      },
+    } as unknown as StatusPageServiceDeps;
+  });
+
+  it("only includes groups and systems configured on the view", async () => {
+    const service = new StatusPageService(deps);
+    const page = await service.getStatusPage(view);
+
+    expect(page.groups.map((g) => g.id)).toEqual(["group-1"]);
+    expect(page.groups[0].systems.map((s) => s.name)).toEqual(["API", "Web"]);
+    expect(page.groups[0].status).toBe("degraded");
+    expect(page.status).toBe("degraded");
+    expect(
+      deps.healthCheckClient.getBulkSystemHealthStatus,
+    ).toHaveBeenCalledWith({ systemIds: ["sys-1", "sys-2"] });
+  });
+
+  it("computes uptime from the system's checks", async () => {
+    const service = new StatusPageService(deps);
+    const page = await service.getStatusPage(view);
+
+    const [api, web] = page.groups[0].systems;
+    expect(api.uptime).toHaveLength(1);
+    expect(api.availability).toBe(90);
+    expect(web.uptime).toEqual([]);
+    expect(web.availability).toBeNull();
+  });
+
+  it("deduplicates incidents and hides systems outside the view", async () => {
+    const service = new StatusPageService(deps);
+    const page = await service.getStatusPage(view);
+
+    expect(page.incidents.map((i) => i.id)).toEqual(["inc-2", "inc-1"]);
+    expect(page.incidents[1].systemIds).toEqual(["sys-1"]);
+  });
+
+  it("degrades gracefully when a plugin is unavailable", async () => {
+    const service = new StatusPageService(deps);
+    const page = await service.getStatusPage(view);
+
+    expect(page.maintenances).toEqual([]);
+    expect(deps.logger.warn).toHaveBeenCalled();
+  });
+
+  it("caches pages until invalidated", async () => {
+    const service = new StatusPageService(deps);
+    await service.getStatusPage(view);
+    await service.getStatusPage(view);
+    expect(deps.entityService.getGroups).toHaveBeenCalledTimes(1);
+
+    service.invalidate(view.id);
+    await service.getStatusPage(view);
+    expect(deps.entityService.getGroups).toHaveBeenCalledTimes(2);
+  });
+
+  it("applies the view layout configuration", async () => {
+    const service = new StatusPageService(deps);
+    const page = await service.getStatusPage({
+      ...view,
+      configuration: {
+        version: 2,
+        data: {
+          groupIds: ["group-2", "group-1"],
+          collapsedGroupIds: ["group-2"],
+          hiddenSystemIds: ["sys-2"],
+          displayMode: "compact",
+        },
+      },
+    });
+
+    expect(page.view.displayMode).toBe("compact");
+    expect(page.groups.map((g) => [g.id, g.collapsed])).toEqual([
+      ["group-2", true],
+      ["group-1", false],
+    ]);
+    expect(page.groups[1].systems.map((s) => s.id)).toEqual(["sys-1"]);
+  });
+});
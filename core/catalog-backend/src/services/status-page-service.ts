@@ -0,0 +1,307 @@
+import type { InferClient } from "@checkstack/common";
+import type { Logger } from "@checkstack/backend-api";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
+import { IncidentApi } from "@checkstack/incident-common";
+import { MaintenanceApi } from "@checkstack/maintenance-common";
+import {
+  resolveViewLayout,
+  type StatusPage,
+  type StatusPageHealth,
+  type StatusPageIncident,
+  type StatusPageMaintenance,
+  type StatusPageSystem,
+  type StatusPageUptimeDay,
+} from "@checkstack/catalog-common";
+import { EntityService } from "./entity-service";
+import { parseViewConfiguration } from "../view-configuration";
+
+type View = NonNullable<Awaited<ReturnType<EntityService["getView"]>>>;
+
+/** How long a rendered status page is served from memory */
+const CACHE_TTL_MS = 60_000;
+
+const STATUS_SEVERITY: Record<StatusPageHealth, number> = {
+  healthy: 0,
+  degraded: 1,
+  unhealthy: 2,
+};
+
+/**
+ * Worst status wins (unhealthy > degraded > healthy).
+ */
+export function worstStatus(statuses: StatusPageHealth[]): StatusPageHealth {
+  let worst: StatusPageHealth = "healthy";
+  for (const status of statuses) {
+    if (STATUS_SEVERITY[status] > STATUS_SEVERITY[worst]) worst = status;
+  }
+  return worst;
+}
+
+/**
+ * Merge per-check daily availability into a single per-system series,
+ * weighting each check by its number of runs.
+ */
+export function mergeUptimeSeries(
+  series: StatusPageUptimeDay[][],
+): StatusPageUptimeDay[] {
+  const [first] = series;
+  if (!first) return [];
+
+  return first.map((day, index) => {
+    let totalRuns = 0;
+    let healthyRuns = 0;
+    for (const days of series) {
+      const entry = days[index];
+      if (!entry || entry.availability === null) continue;
+      totalRuns += entry.totalRuns;
+      healthyRuns += (entry.availability / 100) * entry.totalRuns;
+    }
+    return {
+      date: day.date,
+      // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+      availability: totalRuns > 0 ? (healthyRuns / totalRuns) * 100 : null,
+      totalRuns,
+    };
+  });
+}
+
+export interface StatusPageServiceDeps {
+  entityService: EntityService;
+  healthCheckClient: InferClient<typeof HealthCheckApi>;
+  incidentClient: InferClient<typeof IncidentApi>;
+  maintenanceClient: InferClient<typeof MaintenanceApi>;
+  logger: Logger;
+}
+
+/**
+ * Assembles public status pages from catalog views.
+ *
+ * Data from other plugins is fetched via service-to-service RPC so that
+ * anonymous visitors never call those APIs directly, and everything is
+ * filtered down to the systems that are part of the view.
+ */
+export class StatusPageService {
+  private cache = new Map<string, { expiresAt: number; page: StatusPage }>();
+
+  constructor(private deps: StatusPageServiceDeps) {}
+
+  async getStatusPage(view: View): Promise<StatusPage> {
+    const cached = this.cache.get(view.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.page;
+    }
+
+    const page = await this.buildStatusPage(view);
+    this.cache.set(view.id, { expiresAt: Date.now() + CACHE_TTL_MS, page });
+    return page;
+  }
+
+  /**
+   * Drop a cached page, e.g. after the view's publishing settings changed.
+   */
+  invalidate(viewId: string): void {
+    this.cache.delete(viewId);
+  }
+
+  /**
+   * IDs of all systems that are part of at least one public view.
+   */
+  async getPublicSystemIds(): Promise<string[]> {
+    const { entityService } = this.deps;
+
+    const views = await entityService.getViews();
+    const publicViews = views.filter((view) => view.isPublic);
+    if (publicViews.length === 0) return [];
+
+    const groups = await entityService.getGroups();
+    const systemIds = new Set<string>();
+    for (const view of publicViews) {
+      const configuration = await parseViewConfiguration(view.configuration);
+      for (const section of resolveViewLayout({ configuration, groups })) {
+        for (const systemId of section.systemIds) systemIds.add(systemId);
+      }
+    }
+    return [...systemIds];
+  }
+
+  private async buildStatusPage(view: View): Promise<StatusPage> {
+    const { entityService } = this.deps;
+
+    const configuration = await parseViewConfiguration(view.configuration);
+    const [allGroups, allSystems] = await Promise.all([
+      entityService.getGroups(),
+      entityService.getSystems(),
+    ]);
+
+    const sections = resolveViewLayout({ configuration, groups: allGroups });
+    const systemsById = new Map(allSystems.map((s) => [s.id, s]));
+    const systemIds = [
+      ...new Set(sections.flatMap((section) => section.systemIds)),
+    ].filter((id) => systemsById.has(id));
+    const visibleSystemIds = new Set(systemIds);
+
+    const [statuses, incidents, maintenances] = await Promise.all([
+      this.fetchHealthStatuses(systemIds),
+      this.fetchIncidents(systemIds),
+      this.fetchMaintenances(systemIds),
+    ]);
+
+    const pageSystems = new Map<string, StatusPageSystem>();
+    for (const systemId of systemIds) {
+      const health = statuses[systemId];
+      const uptime = await this.fetchUptime({
+        systemId,
+        configurationIds:
+          health?.checkStatuses.map((c) => c.configurationId) ?? [],
+      });
+      const totalRuns = uptime.reduce((sum, day) => sum + day.totalRuns, 0);
+      const healthyRuns = uptime.reduce(
+        (sum, day) => sum + ((day.availability ?? 0) / 100) * day.totalRuns,
+        0,
+      );
+
+      pageSystems.set(systemId, {
+        id: systemId,
+        name: systemsById.get(systemId)!.name,
+        status: health?.status ?? "healthy",
+        availability:
+          // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+          totalRuns > 0 ? (healthyRuns / totalRuns) * 100 : null,
+        uptime,
+      });
+    }
+
+    const pageGroups = sections.map((section) => {
+      const systems = section.systemIds
+        .map((id) => pageSystems.get(id))
+        .filter((s) => s !== undefined);
+      return {
+        id: section.groupId,
+        name: section.name,
+        status: worstStatus(systems.map((s) => s.status)),
+        collapsed: section.collapsed,
+        systems,
+      };
+    });
+
+    return {
+      view: {
+        id: view.id,
+        name: view.name,
+        description: view.description,
+        displayMode: configuration.displayMode,
+      },
+      status: worstStatus([...pageSystems.values()].map((s) => s.status)),
+      groups: pageGroups,
+      incidents: incidents
+        .map((i) => ({
+          ...i,
+          systemIds: i.systemIds.filter((id) => visibleSystemIds.has(id)),
+        }))
+        .toSorted((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+      maintenances: maintenances
+        .map((m) => ({
+          ...m,
+          systemIds: m.systemIds.filter((id) => visibleSystemIds.has(id)),
+        }))
+        .toSorted((a, b) => a.startAt.getTime() - b.startAt.getTime()),
+      generatedAt: new Date(),
+    };
+  }
+
+  private async fetchHealthStatuses(systemIds: string[]) {
+    try {
+      const { statuses } =
+        await this.deps.healthCheckClient.getBulkSystemHealthStatus({
+          systemIds,
+        });
+      return statuses;
+    } catch (error) {
+      this.deps.logger.warn("Failed to load health for status page:", error);
+      return {};
+    }
+  }
+
+  private async fetchIncidents(
+    systemIds: string[],
+  ): Promise<StatusPageIncident[]> {
+    try {
+      const { incidents } =
+        await this.deps.incidentClient.getBulkIncidentsForSystems({
+          systemIds,
+        });
+      // The same incident is returned for every affected system
+      const unique = new Map<string, StatusPageIncident>();
+      for (const incident of Object.values(incidents).flat()) {
+        unique.set(incident.id, {
+          id: incident.id,
+          title: incident.title,
+          description: incident.description,
+          status: incident.status,
+          severity: incident.severity,
+          systemIds: incident.systemIds,
+          createdAt: incident.createdAt,
+          updatedAt: incident.updatedAt,
+        });
+      }
+      return [...unique.values()];
+    } catch (error) {
+      this.deps.logger.warn("Failed to load incidents for status page:", error);
+      return [];
+    }
+  }
+
+  private async fetchMaintenances(
+    systemIds: string[],
+  ): Promise<StatusPageMaintenance[]> {
+    try {
+      const { maintenances } =
+        await this.deps.maintenanceClient.getBulkMaintenancesForSystems({
+          systemIds,
+        });
+      const unique = new Map<string, StatusPageMaintenance>();
+      for (const maintenance of Object.values(maintenances).flat()) {
+        unique.set(maintenance.id, {
+          id: maintenance.id,
+          title: maintenance.title,
+          description: maintenance.description,
+          status: maintenance.status,
+          systemIds: maintenance.systemIds,
+          startAt: maintenance.startAt,
+          endAt: maintenance.endAt,
+        });
+      }
+      return [...unique.values()];
+    } catch (error) {
+      this.deps.logger.warn(
+        "Failed to load maintenances for status page:",
+        error,
+      );
+      return [];
+    }
+  }
+
+  private async fetchUptime(props: {
+    systemId: string;
+    configurationIds: string[];
+  }): Promise<StatusPageUptimeDay[]> {
+    const { systemId, configurationIds } = props;
+    try {
+      const stats = await Promise.all(
+        configurationIds.map((configurationId) =>
+          this.deps.healthCheckClient.getAvailabilityStats({
+            systemId,
+            configurationId,
+          }),
+        ),
+      );
+      return mergeUptimeSeries(stats.map((s) => s.dailyAvailability));
+    } catch (error) {
+      this.deps.logger.warn(
+        `Failed to load uptime for system ${systemId}:`,
+        error,
+      );
+      return [];
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, mock } from "bun:test";
+import {
+  STATUS_PAGE_API_PATH,
+  type StatusPage,
+} from "@checkstack/catalog-common";
+import {
+  createStatusPageHandler,
+  parseStatusPageRequest,
+} from "./status-page-handler";
+import type { EntityService } from "./services/entity-service";
+import type { StatusPageService } from "./services/status-page-service";
+import type { Logger } from "@checkstack/backend-api";
+import type { Branding } from "@checkstack/theme-common";
+
+const BASE = `http://localhost:3000${STATUS_PAGE_API_PATH}`;
+
+describe("parseStatusPageRequest", () => {
+  it("reads the slug from the path", () => {
+    expect(parseStatusPageRequest(new URL(`${BASE}/acme`))).toEqual({
+      slug: "acme",
+    });
+    expect(parseStatusPageRequest(new URL(`${BASE}/acme/`))).toEqual({
+      slug: "acme",
+    });
+  });
+
+  it("reads the custom domain from the query", () => {
+    expect(
+      parseStatusPageRequest(new URL(`${BASE}?domain=Status.Example.com`)),
+    ).toEqual({ domain: "status.example.com" });
+  });
+
+  it("returns undefined without slug or domain", () => {
+    expect(parseStatusPageRequest(new URL(BASE))).toBeUndefined();
+  });
+});
+
+describe("createStatusPageHandler", () => {
+  const view = { id: "view-1", name: "Acme" };
+  const page: StatusPage = {
+    view: {
+      id: "view-1",
+      name: "<Acme>",
+      description: null,
+      displayMode: "list",
+    },
+    status: "healthy",
+    groups: [
+      {
+        id: "group-1",
+        name: "Core",
+        status: "healthy",
+        collapsed: false,
+        systems: [
+          {
+            id: "sys-1",
+            name: "API",
+            status: "healthy",
+            availability: 99.95,
+            uptime: [],
+          },
+        ],
+      },
+    ],
+    incidents: [],
+    maintenances: [],
+    generatedAt: new Date(),
+  };
+
+  const branding: Branding = {
+    productName: "Acme Corp",
+    logoUrl: "/api/theme/assets/logo?v=1",
+    faviconUrl: "/api/theme/assets/favicon?v=1",
+    light: { primary: "#ff0000" },
+    dark: {},
+    cssVariables: { "--radius": "4px" },
+  };
+
+  const createHandler = (
+    getBranding: () => Promise<Branding> = async () => branding,
+  ) => {
+    const entityService = {
+      getPublicViewBySlug: mock(async (slug: string) =>
+        slug === "acme" ? view : undefined,
+      ),
+      getPublicViewByDomain: mock(async (domain: string) =>
+        domain === "status.acme.com" ? view : undefined,
+      ),
+    };
+    const handler = createStatusPageHandler({
+      entityService: entityService as unknown as EntityService,
+      statusPageService: {
+        getStatusPage: mock(async () => page),
+      } as unknown as StatusPageService,
+      themeClient: { getBranding: mock(getBranding) } as never,
+      logger: { error: mock(), warn: mock() } as unknown as Logger,
+    });
+    return { handler, entityService };
+  };
+
+  it("renders a published view by slug", async () => {
+    const { handler } = createHandler();
+    const res = await handler(new Request(`${BASE}/acme`));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/html");
+    const html = await res.text();
+    expect(html).toContain("All Systems Operational");
+    expect(html).toContain("API");
+    expect(html).toContain("99.95%");
+  });
+
+  it("escapes user-provided content", async () => {
+    const { handler } = createHandler();
+    const html = await (await handler(new Request(`${BASE}/acme`))).text();
+
+    expect(html).toContain("&lt;Acme&gt;");
+    expect(html).not.toContain("<Acme>");
+  });
+
+  it("resolves custom domains", async () => {
+    const { handler, entityService } = createHandler();
+    const res = await handler(new Request(`${BASE}?domain=status.acme.com`));
+
+    expect(res.status).toBe(200);
+    expect(entityService.getPublicViewByDomain).toHaveBeenCalledWith(
+      "status.acme.com",
+    );
+  });
+
+  it("returns 404 for unknown or unpublished views", async () => {
+    const { handler } = createHandler();
+    const res = await handler(new Request(`${BASE}/unknown`));
+    expect(res.status).toBe(404);
+  });
+
+  it("renders the organisation branding", async () => {
+    const { handler } = createHandler();
+    const html = await (await handler(new Request(`${BASE}/acme`))).text();
+
+    expect(html).toContain(
+      '<img src="/api/theme/assets/logo?v=1" alt="Acme Corp">',
+    );
+    expect(html).toContain(
+      '<link rel="icon" href="/api/theme/assets/favicon?v=1">',
+    );
+    expect(html).toContain("--brand-primary: #ff0000;");
+    expect(html).toContain("--radius: 4px;");
+  });
+
+  it("renders unbranded when the branding cannot be loaded", async () => {
+    const { handler } = createHandler(async () => {
+      throw new Error("unavailable");
+    });
+    const res = await handler(new Request(`${BASE}/acme`));
+
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).not.toContain('class="brand"');
+    expect(html).toContain("--brand-primary: #3b82f6;");
+  });
+
+  it("rejects non-GET requests", async () => {
+    const { handler } = createHandler();
+    const res = await handler(new Request(`${BASE}/acme`, { method: "POST" }));
+    expect(res.status).toBe(405);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Logger } from "@checkstack/backend-api";
+import type { InferClient } from "@checkstack/common";
+import { STATUS_PAGE_API_PATH } from "@checkstack/catalog-common";
+import type { Branding, ThemeApi } from "@checkstack/theme-common";
+import type { EntityService } from "./services/entity-service";
+import type { StatusPageService } from "./services/status-page-service";
+import { renderStatusPageHtml } from "./status-page-html";
+
+/**
+ * Resolve which view a status page request targets.
+ *
+ * - `/api/catalog/status-page/<slug>` looks the view up by slug
+ * - `/api/catalog/status-page?domain=<host>` looks it up by custom domain
+ *   (used by the core backend when a request arrives on a custom domain)
+ */
+export function parseStatusPageRequest(
+  url: URL,
+): { slug: string } | { domain: string } | undefined {
+  const slug = url.pathname
+    .slice(STATUS_PAGE_API_PATH.length)
+    .replaceAll(/^\/+|\/+$/g, "");
+  if (slug) return { slug: decodeURIComponent(slug) };
+
+  const domain = url.searchParams.get("domain")?.toLowerCase();
+  if (domain) return { domain };
+
+  return undefined;
+}
+
+/**
+ * HTTP handler serving published views as server-rendered HTML.
+ * Unpublished or unknown views respond with 404 so their existence is not leaked.
+ * Pages carry the organisation branding, or render unbranded if it cannot be
+ * loaded.
+ */
+export function createStatusPageHandler({
+  entityService,
+  statusPageService,
+  themeClient,
+  logger,
+}: {
+  entityService: EntityService;
+  statusPageService: StatusPageService;
+  themeClient: InferClient<typeof ThemeApi>;
+  logger: Logger;
+}) {
+  const getBranding = async (): Promise<Branding | undefined> => {
+    try {
+      return await themeClient.getBranding();
+    } catch (error) {
+      logger.warn("Failed to load branding for status page:", error);
+      return undefined;
+    }
+  };
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const target = parseStatusPageRequest(new URL(req.url));
+    if (!target) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const view =
+      "slug" in target
+        ? await entityService.getPublicViewBySlug(target.slug)
+        : await entityService.getPublicViewByDomain(target.domain);
+    if (!view) {
+      return new Response("Status page not found", { status: 404 });
+    }
+
+    try {
+      const [page, branding] = await Promise.all([
+        statusPageService.getStatusPage(view),
+        getBranding(),
+      ]);
+      return new Response(renderStatusPageHtml(page, branding), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          "Cache-Control": "public, max-age=60",
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to render status page for view ${view.id}:`, error);
+      return new Response("Failed to render status page", { status: 500 });
+    }
+  };
+}
@@ -0,0 +1,287 @@
+import type {
+  StatusPage,
+  StatusPageHealth,
+  StatusPageSystem,
+  StatusPageUptimeDay,
+  ViewDisplayMode,
+} from "@checkstack/catalog-common";
+import type { Branding } from "@checkstack/theme-common";
+
+/**
+ * Server-side rendering of public status pages.
+ *
+ * The page is self-contained (inline styles, no scripts) so it can be served
+ * on custom domains without exposing the application frontend.
+ */
+
+const STATUS_LABELS: Record<StatusPageHealth, string> = {
+  healthy: "Operational",
+  degraded: "Degraded Performance",
+  unhealthy: "Major Outage",
+};
+
+const STATUS_HEADLINES: Record<StatusPageHealth, string> = {
+  healthy: "All Systems Operational",
+  degraded: "Some Systems Are Degraded",
+  unhealthy: "Major Outage",
+};
+
+const STATUS_COLORS: Record<StatusPageHealth, string> = {
+  healthy: "#16a34a",
+  degraded: "#f59e0b",
+  unhealthy: "#dc2626",
+};
+
+const NO_DATA_COLOR = "#d4d4d8";
+
+const DEFAULT_BRAND_COLOR = "#3b82f6";
+
+/**
+ * Simple HTML escaping for security.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  });
+}
+
+function formatAvailability(availability: number | null): string {
+  return availability === null ? "No data" : `${availability.toFixed(2)}%`;
+}
+
+/**
+ * Color thresholds match the availability badges in the dashboard:
+ * green >= 99.9%, amber >= 99%, red below.
+ */
+function uptimeColor(day: StatusPageUptimeDay): string {
+  if (day.availability === null) return NO_DATA_COLOR;
+  if (day.availability >= 99.9) return STATUS_COLORS.healthy;
+  if (day.availability >= 99) return STATUS_COLORS.degraded;
+  return STATUS_COLORS.unhealthy;
+}
+
+function renderUptimeBar(uptime: StatusPageUptimeDay[]): string {
+  if (uptime.length === 0) return "";
+
+  const bars = uptime
+    .map(
+      (day) =>
+        `<span class="bar" style="background:${uptimeColor(day)}" title="${escapeHtml(
+          `${formatDate(day.date)}: ${formatAvailability(day.availability)}`,
+        )}"></span>`,
+    )
+    .join("");
+
+  return `
+        <div class="uptime">${bars}</div>
+        <div class="uptime-legend">
+          <span>${uptime.length} days ago</span>
+          <span>Today</span>
+        </div>`;
+}
+
+function renderSystem(
+  system: StatusPageSystem,
+  displayMode: ViewDisplayMode,
+): string {
+  const header = `
+        <div class="row">
+          <span class="name">${escapeHtml(system.name)}</span>
+          <span class="status" style="color:${STATUS_COLORS[system.status]}">${STATUS_LABELS[system.status]}</span>
+        </div>`;
+
+  // Compact mode only shows the current status
+  if (displayMode === "compact") {
+    return `
+      <div class="system">${header}
+      </div>`;
+  }
+
+  return `
+      <div class="system">${header}
+        ${renderUptimeBar(system.uptime)}
+        <div class="muted">Uptime: ${formatAvailability(system.availability)}</div>
+      </div>`;
+}
+
+function renderIncidents(page: StatusPage): string {
+  if (page.incidents.length === 0) return "";
+
+  const items = page.incidents
+    .map(
+      (incident) => `
+      <div class="notice" style="border-color:${STATUS_COLORS.unhealthy}">
+        <div class="row">
+          <strong>${escapeHtml(incident.title)}</strong>
+          <span class="muted">${escapeHtml(incident.status)} · ${escapeHtml(incident.severity)}</span>
+        </div>
+        ${incident.description ? `<p>${escapeHtml(incident.description)}</p>` : ""}
+        <div class="muted">Last updated ${formatDateTime(incident.updatedAt)}</div>
+      </div>`,
+    )
+    .join("");
+
+  return `
+    <section>
+      <h2>Active Incidents</h2>
+      ${items}
+    </section>`;
+}
+
+function renderMaintenances(page: StatusPage): string {
+  if (page.maintenances.length === 0) return "";
+
+  const items = page.maintenances
+    .map(
+      (maintenance) => `
+      <div class="notice" style="border-color:var(--brand-primary)">
+        <div class="row">
+          <strong>${escapeHtml(maintenance.title)}</strong>
+          <span class="muted">${maintenance.status === "in_progress" ? "In progress" : "Scheduled"}</span>
+        </div>
+        ${maintenance.description ? `<p>${escapeHtml(maintenance.description)}</p>` : ""}
+        <div class="muted">${formatDateTime(maintenance.startAt)} – ${formatDateTime(maintenance.endAt)}</div>
+      </div>`,
+    )
+    .join("");
+
+  return `
+    <section>
+      <h2>Scheduled Maintenance</h2>
+      ${items}
+    </section>`;
+}
+
+/**
+ * CSS variables of the organisation branding. The page is always rendered in
+ * light mode. Names and values are validated when the branding is saved, so
+ * they cannot break out of the style element.
+ */
+function renderBrandingVariables(branding: Branding | undefined): string {
+  const variables = {
+    "--brand-primary": branding?.light.primary ?? DEFAULT_BRAND_COLOR,
+    ...branding?.cssVariables,
+  };
+  return Object.entries(variables)
+    .map(([name, value]) => `${name}: ${value};`)
+    .join(" ");
+}
+
+function renderBrandHeader(branding: Branding | undefined): string {
+  if (!branding) return "";
+
+  const logo = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.productName)}">`
+    : `<span>${escapeHtml(branding.productName)}</span>`;
+  return `
+    <header class="brand">${logo}</header>`;
+}
+
+/**
+ * Render a status page as a complete HTML document.
+ * Without branding, the page renders unbranded.
+ */
+export function renderStatusPageHtml(
+  page: StatusPage,
+  branding?: Branding,
+): string {
+  const { displayMode } = page.view;
+  const groups = page.groups
+    .map(
+      (group) => `
+    <details class="card"${group.collapsed ? "" : " open"}>
+      <summary class="row group-header">
+        <h2>${escapeHtml(group.name)}</h2>
+        <span class="status" style="color:${STATUS_COLORS[group.status]}">${STATUS_LABELS[group.status]}</span>
+      </summary>
+      <div class="systems ${displayMode}">
+        ${group.systems.map((system) => renderSystem(system, displayMode)).join("")}
+      </div>
+    </details>`,
+    )
+    .join("");
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="refresh" content="60">
+  <title>${escapeHtml(page.view.name)} Status</title>
+  ${branding?.faviconUrl ? `<link rel="icon" href="${escapeHtml(branding.faviconUrl)}">` : ""}
+  <style>
+    :root { ${renderBrandingVariables(branding)} }
+    body {
+      margin: 0;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      background: #f4f4f5;
+      color: #18181b;
+    }
+    main { max-width: 880px; margin: 0 auto; padding: 32px 16px; }
+    h1 { margin: 0 0 4px 0; font-size: 28px; }
+    h2 { margin: 0 0 12px 0; font-size: 18px; }
+    p { margin: 8px 0; }
+    section { margin-top: 24px; }
+    .card { background: #ffffff; border-radius: 8px; padding: 20px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+    .banner { margin-top: 24px; padding: 16px 20px; border-radius: 8px; color: #ffffff; font-size: 18px; font-weight: 600; }
+    .row { display: flex; justify-content: space-between; align-items: center; gap: 12px; }
+    details.card { margin-top: 24px; }
+    summary { cursor: pointer; list-style: none; }
+    summary::-webkit-details-marker { display: none; }
+    .group-header h2 { margin: 0; }
+    .systems { margin-top: 12px; }
+    .system { padding: 12px 0; border-top: 1px solid #e4e4e7; }
+    .systems.grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(260px, 1fr)); gap: 12px; }
+    .systems.grid .system { padding: 12px; border: 1px solid #e4e4e7; border-radius: 8px; }
+    .systems.compact .system { padding: 6px 0; }
+    .name { font-weight: 500; }
+    .status { font-size: 14px; font-weight: 600; }
+    .muted { color: #71717a; font-size: 13px; }
+    .uptime { display: flex; gap: 2px; margin-top: 8px; height: 28px; }
+    .bar { flex: 1; border-radius: 2px; }
+    .uptime-legend { display: flex; justify-content: space-between; color: #a1a1aa; font-size: 12px; margin: 4px 0; }
+    .notice { background: #ffffff; border-left: 4px solid; border-radius: 8px; padding: 16px 20px; margin-bottom: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+    footer { margin-top: 32px; text-align: center; }
+    .brand { margin-bottom: 24px; color: var(--brand-primary); font-size: 20px; font-weight: 700; }
+    .brand img { display: block; max-height: 40px; max-width: 240px; }
+  </style>
+</head>
+<body>
+  <main>${renderBrandHeader(branding)}
+    <h1>${escapeHtml(page.view.name)}</h1>
+    ${page.view.description ? `<p class="muted">${escapeHtml(page.view.description)}</p>` : ""}
+    <div class="banner" style="background:${STATUS_COLORS[page.status]}">${STATUS_HEADLINES[page.status]}</div>
+    ${renderIncidents(page)}
+    ${renderMaintenances(page)}
+    ${groups}
+    <footer class="muted">Last updated ${formatDateTime(page.generatedAt)}</footer>
+  </main>
+</body>
+</html>
+  `.trim();
+}
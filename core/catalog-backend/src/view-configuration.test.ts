@@ -0,0 +1,44 @@
+import { describe, it, expect } from "bun:test";
+import { VIEW_CONFIGURATION_VERSION } from "@checkstack/catalog-common";
+import {
+  parseViewConfiguration,
+  viewConfiguration,
+} from "./view-configuration";
+
+describe("view configuration", () => {
+  it("migrates unversioned group ID lists", async () => {
+    expect(await parseViewConfiguration(["g1", "g2"])).toEqual({
+      groupIds: ["g1", "g2"],
+      collapsedGroupIds: [],
+      hiddenSystemIds: [],
+      displayMode: "grid",
+    });
+  });
+
+  it("migrates version 1 records", async () => {
+    const config = await parseViewConfiguration({ version: 1, data: ["g1"] });
+    expect(config.groupIds).toEqual(["g1"]);
+    expect(config.displayMode).toBe("grid");
+  });
+
+  it("parses current records unchanged", async () => {
+    const record = viewConfiguration.create({
+      groupIds: ["g2", "g1"],
+      collapsedGroupIds: ["g1"],
+      hiddenSystemIds: ["s1"],
+      displayMode: "compact",
+    });
+
+    expect(record.version).toBe(VIEW_CONFIGURATION_VERSION);
+    expect(await parseViewConfiguration(record)).toEqual(record.data);
+  });
+
+  it("rejects invalid configurations", async () => {
+    await expect(
+      parseViewConfiguration({
+        version: VIEW_CONFIGURATION_VERSION,
+        data: { groupIds: "g1" },
+      }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,56 @@
+import { Versioned, type VersionedRecord } from "@checkstack/backend-api";
+import {
+  ViewConfigurationSchema,
+  VIEW_CONFIGURATION_VERSION,
+  type View,
+  type ViewConfiguration,
+  type ViewConfigurationV1,
+} from "@checkstack/catalog-common";
+import type * as schema from "./schema";
+
+/**
+ * Versioned handler for view configurations.
+ * Provides parsing, validation, and migration capabilities.
+ */
+export const viewConfiguration = new Versioned<ViewConfiguration>({
+  version: VIEW_CONFIGURATION_VERSION,
+  schema: ViewConfigurationSchema,
+  migrations: [
+    {
+      fromVersion: 1,
+      toVersion: 2,
+      description: "Wrap group IDs into a layout configuration",
+      migrate: (data: ViewConfigurationV1): ViewConfiguration => ({
+        groupIds: data,
+        collapsedGroupIds: [],
+        hiddenSystemIds: [],
+        displayMode: "grid",
+      }),
+    },
+  ],
+});
+
+/**
+ * Load a stored view configuration, migrating it to the current version.
+ * Unversioned group ID lists from before versioning are treated as version 1.
+ */
+export async function parseViewConfiguration(
+  stored: ViewConfigurationV1 | VersionedRecord<unknown>,
+): Promise<ViewConfiguration> {
+  const record: VersionedRecord<unknown> = Array.isArray(stored)
+    ? { version: 1, data: stored }
+    : stored;
+  return viewConfiguration.parse(record);
+}
+
+/**
+ * Map a view row to the API shape with a parsed configuration.
+ */
+export async function toView(
+  row: typeof schema.views.$inferSelect,
+): Promise<View> {
+  return {
+    ...row,
+    configuration: await parseViewConfiguration(row.configuration),
+  };
+}
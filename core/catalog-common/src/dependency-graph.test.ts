@@ -0,0 +1,104 @@
+import { describe, it, expect } from "bun:test";
+import {
+  collectUpstreamSystemIds,
+  collectDownstreamSystemIds,
+  wouldCreateDependencyCycle,
+  computeDependencyLayers,
+  type DependencyEdge,
+} from "./dependency-graph";
+
+// api -> auth -> db, api -> cache, worker -> db
+const edges: DependencyEdge[] = [
+  { systemId: "api", dependsOnSystemId: "auth" },
+  { systemId: "auth", dependsOnSystemId: "db" },
+  { systemId: "api", dependsOnSystemId: "cache" },
+  { systemId: "worker", dependsOnSystemId: "db" },
+];
+
+describe("dependency-graph", () => {
+  describe("collectUpstreamSystemIds", () => {
+    it("returns direct and transitive upstreams", () => {
+      const upstreams = collectUpstreamSystemIds({ edges, systemId: "api" });
+      expect(upstreams.toSorted()).toEqual(["auth", "cache", "db"]);
+    });
+
+    it("returns an empty list for systems without upstreams", () => {
+      expect(collectUpstreamSystemIds({ edges, systemId: "db" })).toEqual([]);
+    });
+
+    it("terminates on cyclic input", () => {
+      const cyclic: DependencyEdge[] = [
+        { systemId: "a", dependsOnSystemId: "b" },
+        { systemId: "b", dependsOnSystemId: "a" },
+      ];
+      expect(
+        collectUpstreamSystemIds({ edges: cyclic, systemId: "a" }),
+      ).toEqual(["b"]);
+    });
+  });
+
+  describe("collectDownstreamSystemIds", () => {
+    it("returns direct and transitive downstreams", () => {
+      const downstreams = collectDownstreamSystemIds({
+        edges,
+        systemId: "db",
+      });
+      expect(downstreams.toSorted()).toEqual(["api", "auth", "worker"]);
+    });
+  });
+
+  describe("wouldCreateDependencyCycle", () => {
+    it("rejects self-dependencies", () => {
+      expect(
+        wouldCreateDependencyCycle({
+          edges,
+          systemId: "api",
+          dependsOnSystemId: "api",
+        }),
+      ).toBe(true);
+    });
+
+    it("detects transitive cycles", () => {
+      expect(
+        wouldCreateDependencyCycle({
+          edges,
+          systemId: "db",
+          dependsOnSystemId: "api",
+        }),
+      ).toBe(true);
+    });
+
+    it("allows edges that keep the graph acyclic", () => {
+      expect(
+        wouldCreateDependencyCycle({
+          edges,
+          systemId: "worker",
+          dependsOnSystemId: "cache",
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("computeDependencyLayers", () => {
+    it("places systems one layer below their deepest upstream", () => {
+      const layers = computeDependencyLayers({
+        systemIds: ["api", "auth", "db", "cache", "worker", "standalone"],
+        edges,
+      });
+
+      expect(layers).toEqual([
+        ["db", "cache", "standalone"],
+        ["auth", "worker"],
+        ["api"],
+      ]);
+    });
+
+    it("ignores edges to unknown systems", () => {
+      const layers = computeDependencyLayers({
+        systemIds: ["api"],
+        edges,
+      });
+      expect(layers).toEqual([["api"]]);
+    });
+  });
+});
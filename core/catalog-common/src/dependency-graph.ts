@@ -0,0 +1,143 @@
+/**
+ * Pure helpers for working with the system dependency graph.
+ *
+ * An edge `{ systemId, dependsOnSystemId }` means that `systemId` (downstream)
+ * relies on `dependsOnSystemId` (upstream). Shared between the catalog backend
+ * (cycle detection), the healthcheck backend (upstream-aware status) and the
+ * catalog frontend (graph layout).
+ */
+
+export interface DependencyEdge {
+  systemId: string;
+  dependsOnSystemId: string;
+}
+
+function buildAdjacency(props: {
+  edges: DependencyEdge[];
+  direction: "upstream" | "downstream";
+}): Map<string, string[]> {
+  const { edges, direction } = props;
+  const adjacency = new Map<string, string[]>();
+
+  for (const edge of edges) {
+    const from =
+      direction === "upstream" ? edge.systemId : edge.dependsOnSystemId;
+    const to =
+      direction === "upstream" ? edge.dependsOnSystemId : edge.systemId;
+    const existing = adjacency.get(from) ?? [];
+    existing.push(to);
+    adjacency.set(from, existing);
+  }
+
+  return adjacency;
+}
+
+function traverse(props: {
+  adjacency: Map<string, string[]>;
+  start: string;
+}): string[] {
+  const { adjacency, start } = props;
+  const visited = new Set<string>();
+  const queue = [...(adjacency.get(start) ?? [])];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === start || visited.has(current)) continue;
+    visited.add(current);
+    queue.push(...(adjacency.get(current) ?? []));
+  }
+
+  return [...visited];
+}
+
+/**
+ * Collect all systems the given system depends on, directly or transitively.
+ */
+export function collectUpstreamSystemIds(props: {
+  edges: DependencyEdge[];
+  systemId: string;
+}): string[] {
+  const { edges, systemId } = props;
+  return traverse({
+    adjacency: buildAdjacency({ edges, direction: "upstream" }),
+    start: systemId,
+  });
+}
+
+/**
+ * Collect all systems that depend on the given system, directly or transitively.
+ */
+export function collectDownstreamSystemIds(props: {
+  edges: DependencyEdge[];
+  systemId: string;
+}): string[] {
+  const { edges, systemId } = props;
+  return traverse({
+    adjacency: buildAdjacency({ edges, direction: "downstream" }),
+    start: systemId,
+  });
+}
+
+/**
+ * Check whether adding `systemId -> dependsOnSystemId` would introduce a cycle.
+ * This is the case when the new upstream already (transitively) depends on
+ * the downstream system, or when a system would depend on itself.
+ */
+export function wouldCreateDependencyCycle(props: {
+  edges: DependencyEdge[];
+  systemId: string;
+  dependsOnSystemId: string;
+}): boolean {
+  const { edges, systemId, dependsOnSystemId } = props;
+  if (systemId === dependsOnSystemId) return true;
+
+  return collectUpstreamSystemIds({
+    edges,
+    systemId: dependsOnSystemId,
+  }).includes(systemId);
+}
+
+/**
+ * Arrange systems into layers for rendering the dependency graph.
+ * Layer 0 contains systems without upstreams; every other system is placed
+ * one layer below its deepest upstream. Systems are expected to form an
+ * acyclic graph - edges that would loop are ignored.
+ */
+export function computeDependencyLayers(props: {
+  systemIds: string[];
+  edges: DependencyEdge[];
+}): string[][] {
+  const { systemIds, edges } = props;
+  const known = new Set(systemIds);
+  const upstreams = buildAdjacency({
+    edges: edges.filter(
+      (e) => known.has(e.systemId) && known.has(e.dependsOnSystemId),
+    ),
+    direction: "upstream",
+  });
+
+  const depths = new Map<string, number>();
+  const resolveDepth = (id: string, path: Set<string>): number => {
+    const cached = depths.get(id);
+    if (cached !== undefined) return cached;
+
+    path.add(id);
+    let depth = 0;
+    for (const upstream of upstreams.get(id) ?? []) {
+      if (path.has(upstream)) continue;
+      depth = Math.max(depth, resolveDepth(upstream, path) + 1);
+    }
+    path.delete(id);
+
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const layers: string[][] = [];
+  for (const id of systemIds) {
+    const depth = resolveDepth(id, new Set());
+    layers[depth] = [...(layers[depth] ?? []), id];
+  }
+
+  return layers.filter((layer) => layer !== undefined);
+}
@@ -1,6 +1,9 @@
 export { catalogAccess, catalogAccessRules } from "./access";
 export * from "./rpc-contract";
 export * from "./types";
+export * from "./dependency-graph";
+export * from "./status-page";
+export * from "./view-configuration";
 export * from "./slots";
 export * from "./plugin-metadata";
 export { catalogRoutes } from "./routes";
@@ -7,4 +7,6 @@ export const catalogRoutes = createRoutes("catalog", {
   home: "/",
   config: "/config",
   systemDetail: "/system/:systemId",
+  dependencies: "/dependencies",
+  view: "/views/:viewId",
 });
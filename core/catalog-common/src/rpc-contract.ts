@@ -7,7 +7,14 @@ import {
   ViewSchema,
   SystemContactSchema,
   ContactTypeSchema,
+  SystemDependencySchema,
 } from "./types";
+import {
+  StatusPageSchema,
+  StatusPageSlugSchema,
+  StatusPageDomainSchema,
+} from "./status-page";
+import { ViewConfigurationSchema } from "./view-configuration";
 import { catalogAccess } from "./access";
 
 // Input schemas that match the service layer expectations
@@ -42,7 +49,23 @@ const UpdateGroupInputSchema = z.object({
 const CreateViewInputSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
-  configuration: z.unknown(),
+  configuration: ViewConfigurationSchema,
+});
+
+const UpdateViewInputSchema = z.object({
+  id: z.string(),
+  data: z.object({
+    name: z.string().optional(),
+    description: z.string().nullable().optional(),
+    configuration: ViewConfigurationSchema.optional(),
+  }),
+});
+
+const UpdateViewPublishingInputSchema = z.object({
+  id: z.string(),
+  isPublic: z.boolean(),
+  slug: StatusPageSlugSchema.nullable(),
+  customDomain: StatusPageDomainSchema.nullable(),
 });
 
 // Catalog RPC Contract using oRPC's contract-first pattern
@@ -206,6 +229,71 @@ export const catalogContract = {
     )
     .output(z.object({ success: z.boolean() })),
 
+  // ==========================================================================
+  // SYSTEM DEPENDENCIES (upstream/downstream graph)
+  // ==========================================================================
+
+  /**
+   * Get the direct upstreams (systems this system depends on) and
+   * downstreams (systems depending on this system) of a system.
+   */
+  getSystemDependencies: proc({
+    operationType: "query",
+    userType: "public",
+    access: [catalogAccess.system.read],
+    instanceAccess: { idParam: "systemId" },
+  })
+    .input(z.object({ systemId: z.string() }))
+    .output(
+      z.object({
+        upstreams: z.array(SystemDependencySchema),
+        downstreams: z.array(SystemDependencySchema),
+      }),
+    ),
+
+  /**
+   * Get all dependency edges of the catalog, e.g. for rendering the graph
+   * or resolving transitive upstreams.
+   */
+  getDependencyGraph: proc({
+    operationType: "query",
+    userType: "public",
+    access: [catalogAccess.system.read],
+  }).output(z.object({ dependencies: z.array(SystemDependencySchema) })),
+
+  /**
+   * Declare that a system depends on an upstream system.
+   * Rejected if the dependency would introduce a cycle.
+   */
+  addSystemDependency: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [catalogAccess.system.manage],
+    instanceAccess: { idParam: "systemId" },
+  })
+    .input(
+      z.object({
+        systemId: z.string().describe("The downstream system"),
+        dependsOnSystemId: z.string().describe("The upstream system"),
+        description: z.string().optional(),
+      }),
+    )
+    .output(SystemDependencySchema),
+
+  removeSystemDependency: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [catalogAccess.system.manage],
+    instanceAccess: { idParam: "systemId" },
+  })
+    .input(
+      z.object({
+        systemId: z.string(),
+        dependsOnSystemId: z.string(),
+      }),
+    )
+    .output(z.object({ success: z.boolean() })),
+
   // ==========================================================================
   // VIEW MANAGEMENT (userType: "user")
   // ==========================================================================
@@ -216,6 +304,14 @@ export const catalogContract = {
     access: [catalogAccess.view.read],
   }).output(z.array(ViewSchema)),
 
+  getView: proc({
+    operationType: "query",
+    userType: "user",
+    access: [catalogAccess.view.read],
+  })
+    .input(z.object({ viewId: z.string() }))
+    .output(ViewSchema.nullable()),
+
   createView: proc({
     operationType: "mutation",
     userType: "user",
@@ -224,10 +320,98 @@ export const catalogContract = {
     .input(CreateViewInputSchema)
     .output(ViewSchema),
 
+  updateView: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [catalogAccess.view.manage],
+  })
+    .input(UpdateViewInputSchema)
+    .output(ViewSchema),
+
+  deleteView: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [catalogAccess.view.manage],
+  })
+    .input(z.string())
+    .output(z.object({ success: z.boolean() })),
+
+  /**
+   * Persist the order of views. Views missing from `viewIds` keep their
+   * relative order after the listed ones.
+   */
+  reorderViews: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [catalogAccess.view.manage],
+  })
+    .input(z.object({ viewIds: z.array(z.string()) }))
+    .output(z.object({ success: z.boolean() })),
+
+  /**
+   * Publish or unpublish a view as a public status page.
+   * A public view requires a slug; slugs and custom domains are unique.
+   */
+  updateViewPublishing: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [catalogAccess.view.manage],
+  })
+    .input(UpdateViewPublishingInputSchema)
+    .output(ViewSchema),
+
+  // ==========================================================================
+  // PUBLIC STATUS PAGES (userType: "anonymous" - no authentication required)
+  // ==========================================================================
+
+  /**
+   * Get the read-only status page of a public view.
+   * Only systems that are part of the view are exposed.
+   */
+  getPublicStatusPage: proc({
+    operationType: "query",
+    userType: "anonymous",
+    access: [],
+  })
+    .input(z.object({ slug: z.string() }))
+    .output(StatusPageSchema),
+
   // ==========================================================================
   // SERVICE INTERFACE (userType: "service" - backend-to-backend only)
   // ==========================================================================
 
+  /**
+   * IDs of all systems that are part of at least one public view.
+   * Used by other plugins to decide which data may be served anonymously.
+   */
+  getPublicSystemIds: proc({
+    operationType: "query",
+    userType: "service",
+    access: [],
+  }).output(z.object({ systemIds: z.array(z.string()) })),
+
+  /**
+   * Resolve systems, groups and views to the distinct systems they contain.
+   * Unknown IDs are ignored. Used by other plugins to report on a scope.
+   */
+  resolveSystems: proc({
+    operationType: "query",
+    userType: "service",
+    access: [],
+  })
+    .input(
+      z.object({
+        systemIds: z.array(z.string()).default([]),
+        groupIds: z.array(z.string()).default([]),
+        viewIds: z.array(z.string()).default([]),
+      }),
+    )
+    .output(
+      z.object({
+        systems: z.array(z.object({ id: z.string(), name: z.string() })),
+      }),
+    ),
+
   /**
    * Notify all users subscribed to a system (and optionally its groups).
    * This is used by other plugins (e.g., maintenance) to send notifications
@@ -256,6 +440,10 @@ export const catalogContract = {
             url: z.string(),
           })
           .optional(),
+        actions: z
+          .array(z.object({ label: z.string(), url: z.string() }))
+          .optional()
+          .describe("Secondary actions, e.g. acknowledging an alert"),
         includeGroupSubscribers: z
           .boolean()
           .optional()
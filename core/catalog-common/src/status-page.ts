@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { pluginMetadata } from "./plugin-metadata";
+import { ViewDisplayModeSchema } from "./view-configuration";
+
+/**
+ * Public status pages.
+ *
+ * A catalog View can be published as a read-only, unauthenticated status page.
+ * The page is reachable via its slug (`/status/:slug`) or via a custom domain
+ * that resolves to the view through the request's Host header.
+ */
+
+/** Path under which status pages are served on the main domain */
+export const STATUS_PAGE_PATH = "/status";
+
+/** Path of the catalog HTTP handler rendering status pages */
+export const STATUS_PAGE_API_PATH = `/api/${pluginMetadata.pluginId}/status-page`;
+
+/** URL-safe slug, e.g. "acme-public" */
+export const StatusPageSlugSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    "Slug may only contain lowercase letters, numbers and single dashes",
+  );
+
+/** Hostname without protocol, port or path, e.g. "status.example.com" */
+export const StatusPageDomainSchema = z
+  .string()
+  .max(253)
+  .regex(
+    /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/,
+    "Custom domain must be a lowercase hostname like status.example.com",
+  );
+
+export const StatusPageHealthSchema = z.enum([
+  "healthy",
+  "degraded",
+  "unhealthy",
+]);
+export type StatusPageHealth = z.infer<typeof StatusPageHealthSchema>;
+
+export const StatusPageUptimeDaySchema = z.object({
+  date: z.date(),
+  availability: z.number().nullable(),
+  totalRuns: z.number(),
+});
+export type StatusPageUptimeDay = z.infer<typeof StatusPageUptimeDaySchema>;
+
+export const StatusPageSystemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: StatusPageHealthSchema,
+  /** Availability across the whole uptime window, null without runs */
+  availability: z.number().nullable(),
+  uptime: z.array(StatusPageUptimeDaySchema),
+});
+export type StatusPageSystem = z.infer<typeof StatusPageSystemSchema>;
+
+export const StatusPageGroupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: StatusPageHealthSchema,
+  /** Rendered collapsed until expanded by the visitor */
+  collapsed: z.boolean(),
+  systems: z.array(StatusPageSystemSchema),
+});
+export type StatusPageGroup = z.infer<typeof StatusPageGroupSchema>;
+
+// Incidents and maintenances are reduced to what is safe to show publicly.
+// `systemIds` only contains systems that are part of the view.
+export const StatusPageIncidentSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  status: z.string(),
+  severity: z.string(),
+  systemIds: z.array(z.string()),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type StatusPageIncident = z.infer<typeof StatusPageIncidentSchema>;
+
+export const StatusPageMaintenanceSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  status: z.string(),
+  systemIds: z.array(z.string()),
+  startAt: z.date(),
+  endAt: z.date(),
+});
+export type StatusPageMaintenance = z.infer<typeof StatusPageMaintenanceSchema>;
+
+export const StatusPageSchema = z.object({
+  view: z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    displayMode: ViewDisplayModeSchema,
+  }),
+  status: StatusPageHealthSchema,
+  groups: z.array(StatusPageGroupSchema),
+  incidents: z.array(StatusPageIncidentSchema),
+  maintenances: z.array(StatusPageMaintenanceSchema),
+  generatedAt: z.date(),
+});
+export type StatusPage = z.infer<typeof StatusPageSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ViewConfigurationSchema } from "./view-configuration";
 
 // Domain type schemas for catalog entities
 // These match the database output types exactly
@@ -60,8 +61,23 @@ export const ViewSchema = z.object({
   id: z.string(),
   name: z.string(),
   description: z.string().nullable(),
-  configuration: z.unknown(),
+  configuration: ViewConfigurationSchema,
+  /** Position of the view in view lists, ascending */
+  sortOrder: z.number(),
+  // Public status page settings
+  isPublic: z.boolean(),
+  slug: z.string().nullable(),
+  customDomain: z.string().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 export type View = z.infer<typeof ViewSchema>;
+
+// System dependencies: systemId (downstream) depends on dependsOnSystemId (upstream)
+export const SystemDependencySchema = z.object({
+  systemId: z.string(),
+  dependsOnSystemId: z.string(),
+  description: z.string().nullable(),
+  createdAt: z.date(),
+});
+export type SystemDependency = z.infer<typeof SystemDependencySchema>;
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "bun:test";
+import {
+  ViewConfigurationSchema,
+  resolveViewLayout,
+  type ViewConfiguration,
+} from "./view-configuration";
+
+const groups = [
+  { id: "g1", name: "Core", systemIds: ["s1", "s2"] },
+  { id: "g2", name: "Edge", systemIds: ["s3"] },
+  { id: "g3", name: "Internal", systemIds: ["s4"] },
+];
+
+const config = (overrides: Partial<ViewConfiguration>): ViewConfiguration => ({
+  groupIds: [],
+  collapsedGroupIds: [],
+  hiddenSystemIds: [],
+  displayMode: "grid",
+  ...overrides,
+});
+
+describe("ViewConfigurationSchema", () => {
+  it("applies defaults for optional settings", () => {
+    expect(ViewConfigurationSchema.parse({ groupIds: ["g1"] })).toEqual({
+      groupIds: ["g1"],
+      collapsedGroupIds: [],
+      hiddenSystemIds: [],
+      displayMode: "grid",
+    });
+  });
+
+  it("rejects unknown display modes", () => {
+    expect(
+      ViewConfigurationSchema.safeParse({ groupIds: [], displayMode: "tiles" })
+        .success,
+    ).toBe(false);
+  });
+});
+
+describe("resolveViewLayout", () => {
+  it("keeps the configured group order", () => {
+    const layout = resolveViewLayout({
+      configuration: config({ groupIds: ["g2", "g1"] }),
+      groups,
+    });
+    expect(layout.map((s) => s.groupId)).toEqual(["g2", "g1"]);
+  });
+
+  it("skips groups that no longer exist", () => {
+    const layout = resolveViewLayout({
+      configuration: config({ groupIds: ["deleted", "g3"] }),
+      groups,
+    });
+    expect(layout.map((s) => s.groupId)).toEqual(["g3"]);
+  });
+
+  it("removes hidden systems and marks collapsed groups", () => {
+    const [core] = resolveViewLayout({
+      configuration: config({
+        groupIds: ["g1"],
+        collapsedGroupIds: ["g1"],
+        hiddenSystemIds: ["s2"],
+      }),
+      groups,
+    });
+    expect(core).toEqual({
+      groupId: "g1",
+      name: "Core",
+      collapsed: true,
+      systemIds: ["s1"],
+    });
+  });
+});
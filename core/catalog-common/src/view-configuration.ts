@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+/**
+ * Layout configuration of catalog views.
+ *
+ * The configuration is stored as a versioned record, the backend migrates
+ * older versions when loading a view. Keep old schemas for the migrations.
+ */
+
+/** Version 1: plain list of group IDs */
+export const ViewConfigurationV1Schema = z.array(z.string());
+export type ViewConfigurationV1 = z.infer<typeof ViewConfigurationV1Schema>;
+
+export const ViewDisplayModeSchema = z.enum(["grid", "list", "compact"]);
+export type ViewDisplayMode = z.infer<typeof ViewDisplayModeSchema>;
+
+/** Version 2: ordered groups, collapsed sections, hidden systems, display mode */
+export const ViewConfigurationSchema = z.object({
+  groupIds: z
+    .array(z.string())
+    .describe("Groups shown on the view, in display order"),
+  collapsedGroupIds: z
+    .array(z.string())
+    .default([])
+    .describe("Groups that are collapsed by default"),
+  hiddenSystemIds: z
+    .array(z.string())
+    .default([])
+    .describe("Systems hidden from the view even though their group is shown"),
+  displayMode: ViewDisplayModeSchema.default("grid"),
+});
+export type ViewConfiguration = z.infer<typeof ViewConfigurationSchema>;
+
+export const VIEW_CONFIGURATION_VERSION = 2;
+
+export const DEFAULT_VIEW_CONFIGURATION: ViewConfiguration = {
+  groupIds: [],
+  collapsedGroupIds: [],
+  hiddenSystemIds: [],
+  displayMode: "grid",
+};
+
+export interface ViewLayoutSection {
+  groupId: string;
+  name: string;
+  collapsed: boolean;
+  /** Visible systems of the group, in group order */
+  systemIds: string[];
+}
+
+/**
+ * Resolve a view configuration against the current groups.
+ * Groups that no longer exist are skipped and hidden systems are removed.
+ */
+export function resolveViewLayout({
+  configuration,
+  groups,
+}: {
+  configuration: ViewConfiguration;
+  groups: { id: string; name: string; systemIds: string[] }[];
+}): ViewLayoutSection[] {
+  const groupsById = new Map(groups.map((g) => [g.id, g]));
+  const collapsed = new Set(configuration.collapsedGroupIds);
+  const hidden = new Set(configuration.hiddenSystemIds);
+
+  return configuration.groupIds
+    .map((id) => groupsById.get(id))
+    .filter((group) => group !== undefined)
+    .map((group) => ({
+      groupId: group.id,
+      name: group.name,
+      collapsed: collapsed.has(group.id),
+      systemIds: group.systemIds.filter((id) => !hidden.has(id)),
+    }));
+}
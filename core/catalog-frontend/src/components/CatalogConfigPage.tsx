@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useSearchParams } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import {
   useApi,
   accessApiRef,
@@ -10,7 +10,9 @@ import { System, CatalogApi } from "../api";
 import {
   CatalogSystemActionsSlot,
   catalogAccess,
+  catalogRoutes,
 } from "@checkstack/catalog-common";
+import { resolveRoute } from "@checkstack/common";
 import {
   PageLayout,
   Card,
@@ -25,9 +27,10 @@ import {
   ConfirmationModal,
   useToast,
 } from "@checkstack/ui";
-import { Plus, Trash2, LayoutGrid, Server, Edit } from "lucide-react";
+import { Plus, Trash2, LayoutGrid, Server, Edit, Network } from "lucide-react";
 import { SystemEditor } from "./SystemEditor";
 import { GroupEditor } from "./GroupEditor";
+import { ViewsCard } from "./ViewsCard";
 
 export const CatalogConfigPage = () => {
   const catalogClient = usePluginClient(CatalogApi);
@@ -272,6 +275,14 @@ export const CatalogConfigPage = () => {
       icon={Server}
       loading={loading || accessLoading}
       allowed={canManage}
+      actions={
+        <Link to={resolveRoute(catalogRoutes.routes.dependencies)}>
+          <Button variant="outline" size="sm">
+            <Network className="w-4 h-4 mr-2" />
+            Dependency Graph
+          </Button>
+        </Link>
+      }
     >
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Systems Management */}
@@ -481,6 +492,8 @@ export const CatalogConfigPage = () => {
         </Card>
       )}
 
+      <ViewsCard groups={groups} systems={systems} />
+
       {/* Dialogs */}
       <SystemEditor
         open={isSystemEditorOpen}
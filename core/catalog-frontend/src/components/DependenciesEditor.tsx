@@ -0,0 +1,196 @@
+import React, { useState } from "react";
+import {
+  Button,
+  Input,
+  Label,
+  useToast,
+  LoadingSpinner,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@checkstack/ui";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { ArrowUpRight, Trash2, Plus } from "lucide-react";
+
+interface DependenciesEditorProps {
+  systemId: string;
+}
+
+/**
+ * Manages the upstream systems the given system depends on.
+ * Cycles are rejected by the backend and surfaced as a toast.
+ */
+export const DependenciesEditor: React.FC<DependenciesEditorProps> = ({
+  systemId,
+}) => {
+  const catalogClient = usePluginClient(CatalogApi);
+  const toast = useToast();
+
+  const [selectedSystemId, setSelectedSystemId] = useState("");
+  const [description, setDescription] = useState("");
+
+  const { data: systemsData } = catalogClient.getSystems.useQuery({});
+
+  const {
+    data: dependencies,
+    isLoading: dependenciesLoading,
+    refetch: refetchDependencies,
+  } = catalogClient.getSystemDependencies.useQuery({ systemId });
+
+  const addDependencyMutation = catalogClient.addSystemDependency.useMutation({
+    onSuccess: () => {
+      toast.success("Dependency added");
+      setSelectedSystemId("");
+      setDescription("");
+      void refetchDependencies();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add dependency",
+      );
+    },
+  });
+
+  const removeDependencyMutation =
+    catalogClient.removeSystemDependency.useMutation({
+      onSuccess: () => {
+        toast.success("Dependency removed");
+        void refetchDependencies();
+      },
+      onError: (error) => {
+        toast.error(
+          error instanceof Error
+            ? error.message
+            : "Failed to remove dependency",
+        );
+      },
+    });
+
+  const handleAddDependency = () => {
+    if (!selectedSystemId) {
+      toast.error("Please select a system");
+      return;
+    }
+
+    addDependencyMutation.mutate({
+      systemId,
+      dependsOnSystemId: selectedSystemId,
+      description: description.trim() || undefined,
+    });
+  };
+
+  const systems = systemsData?.systems ?? [];
+  const upstreams = dependencies?.upstreams ?? [];
+  const systemName = (id: string) =>
+    systems.find((s) => s.id === id)?.name ?? id;
+
+  // Exclude the system itself and systems it already depends on
+  const existingUpstreamIds = new Set(
+    upstreams.map((d) => d.dependsOnSystemId),
+  );
+  const availableSystems = systems.filter(
+    (s) => s.id !== systemId && !existingUpstreamIds.has(s.id),
+  );
+
+  if (dependenciesLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Label>Depends On</Label>
+
+      {upstreams.length > 0 ? (
+        <div className="border rounded-lg divide-y">
+          {upstreams.map((dependency) => (
+            <div
+              key={dependency.dependsOnSystemId}
+              className="flex items-center justify-between p-3"
+            >
+              <div className="flex items-center gap-2">
+                <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <span className="text-sm">
+                    {systemName(dependency.dependsOnSystemId)}
+                  </span>
+                  {dependency.description && (
+                    <span className="text-xs text-muted-foreground ml-2">
+                      ({dependency.description})
+                    </span>
+                  )}
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  removeDependencyMutation.mutate({
+                    systemId,
+                    dependsOnSystemId: dependency.dependsOnSystemId,
+                  })
+                }
+                disabled={removeDependencyMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This system does not depend on other systems
+        </p>
+      )}
+
+      <div className="border rounded-lg p-4 space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="dependency-select">Upstream System</Label>
+          <Select value={selectedSystemId} onValueChange={setSelectedSystemId}>
+            <SelectTrigger id="dependency-select">
+              <SelectValue placeholder="Select a system" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableSystems.length === 0 ? (
+                <SelectItem value="_none" disabled>
+                  No available systems
+                </SelectItem>
+              ) : (
+                availableSystems.map((system) => (
+                  <SelectItem key={system.id} value={system.id}>
+                    {system.name}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="dependency-description">Description (optional)</Label>
+          <Input
+            id="dependency-description"
+            placeholder="e.g., Stores user sessions"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <Button
+          type="button"
+          onClick={handleAddDependency}
+          disabled={!selectedSystemId || addDependencyMutation.isPending}
+          size="sm"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Dependency
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useMemo } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { usePluginClient, ExtensionSlot } from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import {
+  CatalogApi,
+  SystemStateBadgesSlot,
+  catalogRoutes,
+  computeDependencyLayers,
+} from "@checkstack/catalog-common";
+import {
+  Card,
+  CardContent,
+  PageLayout,
+  EmptyState,
+  BackLink,
+} from "@checkstack/ui";
+import { Network } from "lucide-react";
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 64;
+const COLUMN_GAP = 32;
+const LAYER_GAP = 80;
+const PADDING = 16;
+
+/**
+ * Renders the system dependency graph as layers.
+ * Systems without upstreams are placed at the top; every system sits below
+ * the systems it depends on, so outages propagate downwards.
+ */
+export const DependencyGraphPage: React.FC = () => {
+  const navigate = useNavigate();
+  const catalogClient = usePluginClient(CatalogApi);
+
+  const { data: systemsData, isLoading: systemsLoading } =
+    catalogClient.getSystems.useQuery({});
+  const { data: graphData, isLoading: graphLoading } =
+    catalogClient.getDependencyGraph.useQuery({});
+
+  const systems = useMemo(() => systemsData?.systems ?? [], [systemsData]);
+  const dependencies = useMemo(
+    () => graphData?.dependencies ?? [],
+    [graphData],
+  );
+
+  // Only systems that take part in at least one dependency are drawn
+  const layout = useMemo(() => {
+    const connectedIds = new Set(
+      dependencies.flatMap((d) => [d.systemId, d.dependsOnSystemId]),
+    );
+    const systemIds = systems
+      .filter((s) => connectedIds.has(s.id))
+      .map((s) => s.id);
+    const layers = computeDependencyLayers({
+      systemIds,
+      edges: dependencies,
+    });
+
+    const positions = new Map<string, { x: number; y: number }>();
+    for (const [layerIndex, layer] of layers.entries()) {
+      for (const [index, id] of layer.entries()) {
+        positions.set(id, {
+          x: PADDING + index * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + layerIndex * (NODE_HEIGHT + LAYER_GAP),
+        });
+      }
+    }
+
+    const widestLayer = Math.max(0, ...layers.map((l) => l.length));
+    return {
+      positions,
+      width:
+        PADDING * 2 +
+        widestLayer * NODE_WIDTH +
+        Math.max(0, widestLayer - 1) * COLUMN_GAP,
+      height:
+        PADDING * 2 +
+        layers.length * NODE_HEIGHT +
+        Math.max(0, layers.length - 1) * LAYER_GAP,
+    };
+  }, [systems, dependencies]);
+
+  return (
+    <PageLayout
+      title="Dependency Graph"
+      subtitle="How systems depend on each other"
+      icon={Network}
+      loading={systemsLoading || graphLoading}
+      actions={
+        <BackLink onClick={() => navigate("/")}>Back to Dashboard</BackLink>
+      }
+      maxWidth="full"
+    >
+      {layout.positions.size === 0 ? (
+        <EmptyState
+          title="No dependencies defined yet."
+          description="Upstream systems can be added when editing a system in the catalog settings."
+          icon={<Network className="h-10 w-10" />}
+        />
+      ) : (
+        <Card>
+          <CardContent className="p-4 overflow-auto">
+            <div
+              className="relative"
+              style={{ width: layout.width, height: layout.height }}
+            >
+              <svg
+                className="absolute inset-0 text-border"
+                width={layout.width}
+                height={layout.height}
+              >
+                <defs>
+                  <marker
+                    id="dependency-arrow"
+                    viewBox="0 0 10 10"
+                    refX="10"
+                    refY="5"
+                    markerWidth="8"
+                    markerHeight="8"
+                    orient="auto-start-reverse"
+                  >
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+                  </marker>
+                </defs>
+                {dependencies.map((dependency) => {
+                  const from = layout.positions.get(
+                    dependency.dependsOnSystemId,
+                  );
+                  const to = layout.positions.get(dependency.systemId);
+                  if (!from || !to) return;
+
+                  // Edges point from the upstream down to the dependent system
+                  const x1 = from.x + NODE_WIDTH / 2;
+                  const y1 = from.y + NODE_HEIGHT;
+                  const x2 = to.x + NODE_WIDTH / 2;
+                  const y2 = to.y;
+                  const midY = (y1 + y2) / 2;
+                  return (
+                    <path
+                      key={`${dependency.systemId}-${dependency.dependsOnSystemId}`}
+                      d={`M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}`}
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth={2}
+                      markerEnd="url(#dependency-arrow)"
+                    >
+                      {dependency.description && (
+                        <title>{dependency.description}</title>
+                      )}
+                    </path>
+                  );
+                })}
+              </svg>
+
+              {systems
+                .filter((system) => layout.positions.has(system.id))
+                .map((system) => {
+                  const position = layout.positions.get(system.id)!;
+                  return (
+                    <Link
+                      key={system.id}
+                      to={resolveRoute(catalogRoutes.routes.systemDetail, {
+                        systemId: system.id,
+                      })}
+                      className="absolute flex flex-col justify-center gap-1 rounded-lg border border-border bg-card px-3 shadow-sm hover:border-primary transition-colors"
+                      style={{
+                        left: position.x,
+                        top: position.y,
+                        width: NODE_WIDTH,
+                        height: NODE_HEIGHT,
+                      }}
+                    >
+                      <span className="truncate text-sm font-medium text-foreground">
+                        {system.name}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        <ExtensionSlot
+                          slot={SystemStateBadgesSlot}
+                          context={{ system }}
+                        />
+                      </div>
+                    </Link>
+                  );
+                })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </PageLayout>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from "react";
+import {
+  StatusPageDomainSchema,
+  StatusPageSlugSchema,
+} from "@checkstack/catalog-common";
+import {
+  Button,
+  Input,
+  Label,
+  Toggle,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  useToast,
+} from "@checkstack/ui";
+import type { View } from "../api";
+
+export interface StatusPageFormData {
+  isPublic: boolean;
+  slug?: string;
+  customDomain?: string;
+}
+
+interface StatusPageEditorProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: StatusPageFormData) => Promise<void>;
+  /** View whose publishing settings are edited */
+  view?: View;
+}
+
+/**
+ * Turn a view name into a slug suggestion, e.g. "Acme Public" -> "acme-public".
+ */
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replaceAll(/[^a-z0-9]+/g, "-")
+    .replaceAll(/^-+|-+$/g, "")
+    .slice(0, 64);
+
+export const StatusPageEditor: React.FC<StatusPageEditorProps> = ({
+  open,
+  onClose,
+  onSave,
+  view,
+}) => {
+  const [isPublic, setIsPublic] = useState(true);
+  const [slug, setSlug] = useState("");
+  const [customDomain, setCustomDomain] = useState("");
+  const [loading, setLoading] = useState(false);
+  const toast = useToast();
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setIsPublic(view ? view.isPublic : true);
+      setSlug(view?.slug ?? slugify(view?.name ?? ""));
+      setCustomDomain(view?.customDomain ?? "");
+    }
+  }, [open, view]);
+
+  const slugError =
+    slug && !StatusPageSlugSchema.safeParse(slug).success
+      ? "Use lowercase letters, numbers and single dashes"
+      : undefined;
+  const domainError =
+    customDomain && !StatusPageDomainSchema.safeParse(customDomain).success
+      ? "Use a lowercase hostname like status.example.com"
+      : undefined;
+  const isValid = (!isPublic || !!slug) && !slugError && !domainError;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setLoading(true);
+    try {
+      await onSave({
+        isPublic,
+        slug: slug || undefined,
+        customDomain: customDomain || undefined,
+      });
+      onClose();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to save status page";
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent size="default">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Status Page Settings</DialogTitle>
+            <DialogDescription>
+              Published status pages are visible to anyone without signing in.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="flex items-center justify-between">
+              <Label>Published</Label>
+              <Toggle
+                checked={isPublic}
+                onCheckedChange={setIsPublic}
+                aria-label="Published"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="status-page-slug">Slug</Label>
+              <Input
+                id="status-page-slug"
+                placeholder="e.g. acme"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value.trim())}
+              />
+              <p className="text-xs text-muted-foreground">
+                {slugError ?? `Served at /status/${slug || "<slug>"}`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="status-page-domain">Custom Domain</Label>
+              <Input
+                id="status-page-domain"
+                placeholder="e.g. status.example.com"
+                value={customDomain}
+                onChange={(e) => setCustomDomain(e.target.value.trim())}
+              />
+              <p className="text-xs text-muted-foreground">
+                {domainError ??
+                  "Optional. Point the domain's DNS at this instance to serve the page on its root."}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !isValid}>
+              {loading ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
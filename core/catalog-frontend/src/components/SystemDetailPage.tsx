@@ -1,16 +1,18 @@
 import React, { useEffect, useState, useCallback } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { Link, useParams, useNavigate } from "react-router-dom";
 import {
   usePluginClient,
   ExtensionSlot,
   useApi,
 } from "@checkstack/frontend-api";
-import { Group, CatalogApi } from "../api";
+import { Group, CatalogApi, System } from "../api";
 import {
   SystemDetailsSlot,
   SystemDetailsTopSlot,
   SystemStateBadgesSlot,
+  catalogRoutes,
 } from "@checkstack/catalog-common";
+import { resolveRoute } from "@checkstack/common";
 import { NotificationApi } from "@checkstack/notification-common";
 import {
   Card,
@@ -32,6 +34,7 @@ import {
   Calendar,
   Mail,
   User,
+  Network,
 } from "lucide-react";
 
 const CATALOG_PLUGIN_ID = "catalog";
@@ -71,6 +74,13 @@ export const SystemDetailPage: React.FC = () => {
     { enabled: !!systemId },
   );
 
+  // Fetch direct upstream and downstream dependencies
+  const { data: dependenciesData } =
+    catalogClient.getSystemDependencies.useQuery(
+      { systemId: systemId ?? "" },
+      { enabled: !!systemId },
+    );
+
   // Find the system from the fetched data
   const system = systemsData?.systems.find((s) => s.id === systemId);
   const loading = systemsLoading || groupsLoading;
@@ -185,6 +195,44 @@ export const SystemDetailPage: React.FC = () => {
     return;
   }
 
+  const findSystem = (id: string) =>
+    systemsData?.systems.find((s) => s.id === id);
+  const upstreamSystems = (dependenciesData?.upstreams ?? [])
+    .map((d) => findSystem(d.dependsOnSystemId))
+    .filter((s): s is System => s !== undefined);
+  const downstreamSystems = (dependenciesData?.downstreams ?? [])
+    .map((d) => findSystem(d.systemId))
+    .filter((s): s is System => s !== undefined);
+
+  const renderDependencyList = (systems: System[], emptyText: string) =>
+    systems.length === 0 ? (
+      <p className="text-muted-foreground text-sm">{emptyText}</p>
+    ) : (
+      <div className="space-y-2">
+        {systems.map((dependency) => (
+          <div
+            key={dependency.id}
+            className="flex items-center justify-between gap-2 text-sm"
+          >
+            <Link
+              to={resolveRoute(catalogRoutes.routes.systemDetail, {
+                systemId: dependency.id,
+              })}
+              className="text-primary hover:underline"
+            >
+              {dependency.name}
+            </Link>
+            <div className="flex items-center gap-1">
+              <ExtensionSlot
+                slot={SystemStateBadgesSlot}
+                context={{ system: dependency }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+
   return (
     <PageLayout
       title={system.name}
@@ -304,6 +352,46 @@ export const SystemDetailPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Dependencies Card */}
+      <Card className="border-border shadow-sm">
+        <CardHeader className="border-b border-border bg-muted/30">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Network className="h-5 w-5 text-muted-foreground" />
+              <CardTitle className="text-lg font-semibold">
+                Dependencies
+              </CardTitle>
+            </div>
+            <Link
+              to={resolveRoute(catalogRoutes.routes.dependencies)}
+              className="text-sm text-primary hover:underline"
+            >
+              View Graph
+            </Link>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-muted-foreground">
+              Depends On
+            </label>
+            {renderDependencyList(
+              upstreamSystems,
+              "This system does not depend on other systems",
+            )}
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-muted-foreground">
+              Used By
+            </label>
+            {renderDependencyList(
+              downstreamSystems,
+              "No other systems depend on this system",
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Groups Card */}
       <Card className="border-border shadow-sm">
         <CardHeader className="border-b border-border bg-muted/30">
@@ -13,6 +13,7 @@ import {
 } from "@checkstack/ui";
 import { TeamAccessEditor } from "@checkstack/auth-frontend";
 import { ContactsEditor } from "./ContactsEditor";
+import { DependenciesEditor } from "./DependenciesEditor";
 
 interface SystemEditorProps {
   open: boolean;
@@ -104,6 +105,11 @@ export const SystemEditor: React.FC<SystemEditorProps> = ({
             {/* Contacts Editor - only shown for existing systems */}
             {initialData?.id && <ContactsEditor systemId={initialData.id} />}
 
+            {/* Dependencies Editor - only shown for existing systems */}
+            {initialData?.id && (
+              <DependenciesEditor systemId={initialData.id} />
+            )}
+
             {/* Team Access Editor - only shown for existing systems */}
             {initialData?.id && (
               <TeamAccessEditor
@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  DEFAULT_VIEW_CONFIGURATION,
+  type ViewConfiguration,
+  type ViewDisplayMode,
+} from "@checkstack/catalog-common";
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  useToast,
+} from "@checkstack/ui";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { CatalogApi, type Group, type System, type View } from "../api";
+
+const DISPLAY_MODES: { value: ViewDisplayMode; label: string }[] = [
+  { value: "grid", label: "Grid" },
+  { value: "list", label: "List" },
+  { value: "compact", label: "Compact" },
+];
+
+interface ViewEditorProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  groups: Group[];
+  systems: System[];
+  /** View to edit; omit to create a new one */
+  view?: View;
+}
+
+/**
+ * Create or edit a view: which groups are shown in which order, collapsed
+ * sections, hidden systems and the display mode.
+ */
+export const ViewEditor: React.FC<ViewEditorProps> = ({
+  open,
+  onClose,
+  onSaved,
+  groups,
+  systems,
+  view,
+}) => {
+  const catalogClient = usePluginClient(CatalogApi);
+  const toast = useToast();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [configuration, setConfiguration] = useState<ViewConfiguration>(
+    DEFAULT_VIEW_CONFIGURATION,
+  );
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(view?.name ?? "");
+      setDescription(view?.description ?? "");
+      setConfiguration(view?.configuration ?? DEFAULT_VIEW_CONFIGURATION);
+    }
+  }, [open, view]);
+
+  const createViewMutation = catalogClient.createView.useMutation();
+  const updateViewMutation = catalogClient.updateView.useMutation();
+  const saving = createViewMutation.isPending || updateViewMutation.isPending;
+
+  const systemsById = new Map(systems.map((s) => [s.id, s]));
+  const includedGroups = configuration.groupIds
+    .map((id) => groups.find((g) => g.id === id))
+    .filter((g): g is Group => !!g);
+  const otherGroups = groups.filter(
+    (g) => !configuration.groupIds.includes(g.id),
+  );
+
+  const toggleListEntry = (
+    key: "groupIds" | "collapsedGroupIds" | "hiddenSystemIds",
+    id: string,
+    enabled: boolean,
+  ) => {
+    setConfiguration((prev) => ({
+      ...prev,
+      [key]: enabled
+        ? [...prev[key], id]
+        : prev[key].filter((existing) => existing !== id),
+    }));
+  };
+
+  const moveGroup = (index: number, offset: -1 | 1) => {
+    setConfiguration((prev) => {
+      const groupIds = [...prev.groupIds];
+      const target = index + offset;
+      if (target < 0 || target >= groupIds.length) return prev;
+      [groupIds[index], groupIds[target]] = [groupIds[target], groupIds[index]];
+      return { ...prev, groupIds };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    // Drop groups that were deleted in the meantime
+    const groupIds = includedGroups.map((g) => g.id);
+    const data = {
+      name: name.trim(),
+      configuration: {
+        ...configuration,
+        groupIds,
+        collapsedGroupIds: configuration.collapsedGroupIds.filter((id) =>
+          groupIds.includes(id),
+        ),
+      },
+    };
+
+    try {
+      await (view
+        ? updateViewMutation.mutateAsync({
+            id: view.id,
+            // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+            data: { ...data, description: description.trim() || null },
+          })
+        : createViewMutation.mutateAsync({
+            ...data,
+            description: description.trim() || undefined,
+          }));
+      toast.success(view ? "View updated" : "View created");
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save view",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent size="lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{view ? "Edit View" : "Create View"}</DialogTitle>
+            <DialogDescription className="sr-only">
+              Choose the groups shown on this view and how they are laid out
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="view-name">Name</Label>
+                <Input
+                  id="view-name"
+                  placeholder="e.g. NOC Wall"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Display Mode</Label>
+                <Select
+                  value={configuration.displayMode}
+                  onValueChange={(value) =>
+                    setConfiguration((prev) => ({
+                      ...prev,
+                      displayMode: value as ViewDisplayMode,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DISPLAY_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="view-description">Description</Label>
+              <Input
+                id="view-description"
+                placeholder="Optional"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Groups</Label>
+              <div className="space-y-2 max-h-96 overflow-y-auto rounded-md border border-border p-3">
+                {groups.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No groups created yet.
+                  </p>
+                )}
+
+                {includedGroups.map((group, index) => (
+                  <div
+                    key={group.id}
+                    className="rounded-md border border-border bg-muted/30 p-2 space-y-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked
+                        onCheckedChange={() =>
+                          toggleListEntry("groupIds", group.id, false)
+                        }
+                      />
+                      <span className="flex-1 text-sm font-medium text-foreground">
+                        {group.name}
+                      </span>
+                      <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Checkbox
+                          checked={configuration.collapsedGroupIds.includes(
+                            group.id,
+                          )}
+                          onCheckedChange={(checked) =>
+                            toggleListEntry(
+                              "collapsedGroupIds",
+                              group.id,
+                              checked,
+                            )
+                          }
+                        />
+                        Collapsed
+                      </label>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={index === 0}
+                        onClick={() => moveGroup(index, -1)}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={index === includedGroups.length - 1}
+                        onClick={() => moveGroup(index, 1)}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    {group.systemIds.length > 0 && (
+                      <div className="pl-6 flex flex-wrap gap-x-4 gap-y-1">
+                        {group.systemIds
+                          .map((id) => systemsById.get(id))
+                          .filter((s): s is System => !!s)
+                          .map((system) => (
+                            <label
+                              key={system.id}
+                              className="flex items-center gap-1 text-xs text-foreground"
+                            >
+                              <Checkbox
+                                checked={
+                                  !configuration.hiddenSystemIds.includes(
+                                    system.id,
+                                  )
+                                }
+                                onCheckedChange={(visible) =>
+                                  toggleListEntry(
+                                    "hiddenSystemIds",
+                                    system.id,
+                                    !visible,
+                                  )
+                                }
+                              />
+                              {system.name}
+                            </label>
+                          ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {otherGroups.map((group) => (
+                  <div key={group.id} className="flex items-center gap-2 p-2">
+                    <Checkbox
+                      checked={false}
+                      onCheckedChange={() =>
+                        toggleListEntry("groupIds", group.id, true)
+                      }
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      {group.name}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Unchecked systems are hidden from this view.
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : view ? "Save Changes" : "Create View"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  ExtensionSlot,
+  accessApiRef,
+  useApi,
+  usePluginClient,
+} from "@checkstack/frontend-api";
+import {
+  SystemStateBadgesSlot,
+  catalogAccess,
+  catalogRoutes,
+  resolveViewLayout,
+  type ViewDisplayMode,
+} from "@checkstack/catalog-common";
+import { resolveRoute } from "@checkstack/common";
+import {
+  BackLink,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  PageLayout,
+} from "@checkstack/ui";
+import { ChevronDown, ChevronRight, Edit, LayoutDashboard } from "lucide-react";
+import { CatalogApi, type System } from "../api";
+import { ViewEditor } from "./ViewEditor";
+
+const SYSTEM_CONTAINER_CLASSES: Record<ViewDisplayMode, string> = {
+  grid: "grid gap-3 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3",
+  list: "flex flex-col gap-2",
+  compact: "flex flex-wrap gap-2",
+};
+
+const SYSTEM_ITEM_CLASSES: Record<ViewDisplayMode, string> = {
+  grid: "flex items-center gap-3 rounded-lg border border-border bg-card px-4 py-3",
+  list: "flex items-center gap-3 rounded-md border border-border bg-card px-3 py-2",
+  compact:
+    "flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1",
+};
+
+/**
+ * Renders a saved view using its layout configuration.
+ * Meant to be left open, e.g. on wall-mounted NOC screens.
+ */
+export const ViewPage: React.FC = () => {
+  const { viewId } = useParams<{ viewId: string }>();
+  const navigate = useNavigate();
+  const catalogClient = usePluginClient(CatalogApi);
+  const accessApi = useApi(accessApiRef);
+  const { allowed: canManage } = accessApi.useAccess(catalogAccess.view.manage);
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const {
+    data: view,
+    isLoading: viewLoading,
+    refetch: refetchView,
+  } = catalogClient.getView.useQuery({ viewId: viewId ?? "" });
+  const { data: entities, isLoading: entitiesLoading } =
+    catalogClient.getEntities.useQuery({});
+
+  // Start from the configured collapsed sections whenever the view changes
+  useEffect(() => {
+    if (view) {
+      setCollapsed(new Set(view.configuration.collapsedGroupIds));
+    }
+  }, [view]);
+
+  const systemsById = useMemo(
+    () => new Map((entities?.systems ?? []).map((s) => [s.id, s])),
+    [entities],
+  );
+  const sections = useMemo(
+    () =>
+      view
+        ? resolveViewLayout({
+            configuration: view.configuration,
+            groups: entities?.groups ?? [],
+          })
+        : [],
+    [view, entities],
+  );
+
+  const toggleSection = (groupId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
+  const displayMode = view?.configuration.displayMode ?? "grid";
+
+  return (
+    <PageLayout
+      title={view?.name ?? "View"}
+      subtitle={view?.description ?? undefined}
+      icon={LayoutDashboard}
+      loading={viewLoading || entitiesLoading}
+      actions={
+        <div className="flex items-center gap-2">
+          {canManage && view && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditorOpen(true)}
+            >
+              <Edit className="w-4 h-4 mr-2" />
+              Edit View
+            </Button>
+          )}
+          <BackLink onClick={() => navigate("/")}>Back to Dashboard</BackLink>
+        </div>
+      }
+      maxWidth="full"
+    >
+      {view === null && <EmptyState title="View not found." />}
+
+      {view && sections.length === 0 && (
+        <EmptyState
+          title="This view has no groups."
+          description="Edit the view to choose which groups to show."
+          icon={<LayoutDashboard className="h-10 w-10" />}
+        />
+      )}
+
+      <div className="space-y-4">
+        {sections.map((section) => {
+          const isCollapsed = collapsed.has(section.groupId);
+          const systems = section.systemIds
+            .map((id) => systemsById.get(id))
+            .filter((s): s is System => !!s);
+
+          return (
+            <Card key={section.groupId} className="border-border shadow-sm">
+              <CardHeader
+                className="cursor-pointer border-b border-border bg-muted/30"
+                onClick={() => toggleSection(section.groupId)}
+              >
+                <div className="flex items-center gap-2">
+                  {isCollapsed ? (
+                    <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                  ) : (
+                    <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                  )}
+                  <CardTitle className="text-lg font-semibold text-foreground">
+                    {section.name}
+                  </CardTitle>
+                  <span className="ml-auto text-sm text-muted-foreground">
+                    {systems.length}{" "}
+                    {systems.length === 1 ? "system" : "systems"}
+                  </span>
+                </div>
+              </CardHeader>
+              {!isCollapsed && (
+                <CardContent className="p-4">
+                  {systems.length === 0 ? (
+                    <p className="py-4 text-center text-sm text-muted-foreground">
+                      No systems to show
+                    </p>
+                  ) : (
+                    <div className={SYSTEM_CONTAINER_CLASSES[displayMode]}>
+                      {systems.map((system) => (
+                        <Link
+                          key={system.id}
+                          to={resolveRoute(catalogRoutes.routes.systemDetail, {
+                            systemId: system.id,
+                          })}
+                          className={`${SYSTEM_ITEM_CLASSES[displayMode]} hover:border-primary transition-colors`}
+                        >
+                          <span className="text-sm font-medium text-foreground truncate">
+                            {system.name}
+                          </span>
+                          <div className="flex items-center gap-2 flex-wrap flex-1 justify-end">
+                            <ExtensionSlot
+                              slot={SystemStateBadgesSlot}
+                              context={{ system }}
+                            />
+                          </div>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+
+      {view && (
+        <ViewEditor
+          open={isEditorOpen}
+          onClose={() => setIsEditorOpen(false)}
+          onSaved={() => void refetchView()}
+          groups={entities?.groups ?? []}
+          systems={entities?.systems ?? []}
+          view={view}
+        />
+      )}
+    </PageLayout>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { STATUS_PAGE_PATH, catalogRoutes } from "@checkstack/catalog-common";
+import { resolveRoute } from "@checkstack/common";
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  ConfirmationModal,
+  EmptyState,
+  useToast,
+} from "@checkstack/ui";
+import {
+  ArrowDown,
+  ArrowUp,
+  Edit,
+  ExternalLink,
+  Globe,
+  LayoutDashboard,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { CatalogApi, type Group, type System, type View } from "../api";
+import { StatusPageEditor, type StatusPageFormData } from "./StatusPageEditor";
+import { ViewEditor } from "./ViewEditor";
+
+interface ViewsCardProps {
+  groups: Group[];
+  systems: System[];
+}
+
+/**
+ * Manage saved views: layout, order, deletion and public status pages.
+ */
+export const ViewsCard: React.FC<ViewsCardProps> = ({ groups, systems }) => {
+  const catalogClient = usePluginClient(CatalogApi);
+  const toast = useToast();
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingView, setEditingView] = useState<View | undefined>();
+  const [publishingView, setPublishingView] = useState<View | undefined>();
+  const [deletingView, setDeletingView] = useState<View | undefined>();
+
+  const { data: views = [], refetch: refetchViews } =
+    catalogClient.getViews.useQuery({});
+
+  const updateViewPublishingMutation =
+    catalogClient.updateViewPublishing.useMutation();
+
+  const reorderViewsMutation = catalogClient.reorderViews.useMutation({
+    onSuccess: () => {
+      void refetchViews();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to reorder views",
+      );
+    },
+  });
+
+  const deleteViewMutation = catalogClient.deleteView.useMutation({
+    onSuccess: () => {
+      toast.success("View deleted successfully");
+      setDeletingView(undefined);
+      void refetchViews();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete view",
+      );
+    },
+  });
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const viewIds = views.map((v) => v.id);
+    const target = index + offset;
+    [viewIds[index], viewIds[target]] = [viewIds[target], viewIds[index]];
+    reorderViewsMutation.mutate({ viewIds });
+  };
+
+  const handlePublish = async (data: StatusPageFormData) => {
+    if (!publishingView) return;
+
+    await updateViewPublishingMutation.mutateAsync({
+      id: publishingView.id,
+      isPublic: data.isPublic,
+      // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+      slug: data.slug ?? null,
+      // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+      customDomain: data.customDomain ?? null,
+    });
+
+    toast.success("Status page settings saved");
+    void refetchViews();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardHeaderRow>
+          <CardTitle className="flex items-center gap-2">
+            <LayoutDashboard className="w-5 h-5 text-muted-foreground" />
+            Views
+          </CardTitle>
+          <Button size="sm" onClick={() => setIsEditorOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add View
+          </Button>
+        </CardHeaderRow>
+      </CardHeader>
+      <CardContent>
+        {views.length === 0 ? (
+          <EmptyState
+            title="No views yet."
+            description="Views show a selection of groups, e.g. on a NOC screen or as a public status page."
+          />
+        ) : (
+          <div className="space-y-2">
+            {views.map((view, index) => (
+              <div
+                key={view.id}
+                className="flex items-center justify-between p-3 bg-muted/30 rounded-lg border border-border"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Link
+                      to={resolveRoute(catalogRoutes.routes.view, {
+                        viewId: view.id,
+                      })}
+                      className="font-medium text-foreground hover:underline"
+                    >
+                      {view.name}
+                    </Link>
+                    <Badge variant="outline">
+                      {view.configuration.displayMode}
+                    </Badge>
+                    {view.isPublic && <Badge variant="success">Public</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {[
+                      view.isPublic &&
+                        view.slug &&
+                        `${STATUS_PAGE_PATH}/${view.slug}`,
+                      view.isPublic && view.customDomain,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ") ||
+                      `${view.configuration.groupIds.length} groups`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    disabled={index === 0 || reorderViewsMutation.isPending}
+                    onClick={() => handleMove(index, -1)}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    disabled={
+                      index === views.length - 1 ||
+                      reorderViewsMutation.isPending
+                    }
+                    onClick={() => handleMove(index, 1)}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  {view.isPublic && view.slug && (
+                    <a
+                      href={`${STATUS_PAGE_PATH}/${view.slug}`}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <ExternalLink className="w-4 h-4" />
+                      </Button>
+                    </a>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPublishingView(view)}
+                  >
+                    <Globe className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => {
+                      setEditingView(view);
+                      setIsEditorOpen(true);
+                    }}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-8 w-8 p-0"
+                    onClick={() => setDeletingView(view)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ViewEditor
+        open={isEditorOpen}
+        onClose={() => {
+          setIsEditorOpen(false);
+          setEditingView(undefined);
+        }}
+        onSaved={() => void refetchViews()}
+        groups={groups}
+        systems={systems}
+        view={editingView}
+      />
+
+      <StatusPageEditor
+        open={!!publishingView}
+        onClose={() => setPublishingView(undefined)}
+        onSave={handlePublish}
+        view={publishingView}
+      />
+
+      <ConfirmationModal
+        isOpen={!!deletingView}
+        onClose={() => setDeletingView(undefined)}
+        onConfirm={() => {
+          if (deletingView) deleteViewMutation.mutate(deletingView.id);
+        }}
+        title="Delete View"
+        message={`Are you sure you want to delete "${deletingView?.name}"? Its public status page will stop working.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </Card>
+  );
+};
@@ -13,6 +13,8 @@ import { CatalogPage } from "./components/CatalogPage";
 import { CatalogConfigPage } from "./components/CatalogConfigPage";
 import { CatalogUserMenuItems } from "./components/UserMenuItems";
 import { SystemDetailPage } from "./components/SystemDetailPage";
+import { DependencyGraphPage } from "./components/DependencyGraphPage";
+import { ViewPage } from "./components/ViewPage";
 
 export const catalogPlugin = createFrontendPlugin({
   metadata: pluginMetadata,
@@ -32,6 +34,15 @@ export const catalogPlugin = createFrontendPlugin({
       route: catalogRoutes.routes.systemDetail,
       element: <SystemDetailPage />,
     },
+    {
+      route: catalogRoutes.routes.dependencies,
+      element: <DependencyGraphPage />,
+    },
+    {
+      route: catalogRoutes.routes.view,
+      element: <ViewPage />,
+      accessRule: catalogAccess.view.read,
+    },
   ],
   extensions: [
     createSlotExtension(UserMenuItemsSlot, {
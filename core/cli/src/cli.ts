@@ -0,0 +1,12 @@
+#!/usr/bin/env bun
+import { createClients } from "./client";
+import { runCli } from "./run";
+
+const exitCode = await runCli(process.argv.slice(2), {
+  env: process.env,
+  createClients,
+  print: (text) => console.log(text),
+  printError: (text) => console.error(text),
+  now: () => new Date(),
+});
+process.exit(exitCode);
@@ -0,0 +1,37 @@
+import { createORPCClient } from "@orpc/client";
+import { RPCLink } from "@orpc/client/fetch";
+import type { ClientDefinition, InferClient } from "@checkstack/common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
+import { IncidentApi } from "@checkstack/incident-common";
+import { MaintenanceApi } from "@checkstack/maintenance-common";
+import type { CliConfig } from "./config";
+
+export interface CheckstackClients {
+  catalog: InferClient<typeof CatalogApi>;
+  healthCheck: InferClient<typeof HealthCheckApi>;
+  incident: InferClient<typeof IncidentApi>;
+  maintenance: InferClient<typeof MaintenanceApi>;
+}
+
+/**
+ * Create typed clients for the plugins the CLI talks to, authenticated with
+ * an application API key.
+ */
+export function createClients(config: CliConfig): CheckstackClients {
+  const link = new RPCLink({
+    url: `${config.url}/api`,
+    headers: { Authorization: `Bearer ${config.apiKey}` },
+  });
+  const root = createORPCClient(link) as Record<string, unknown>;
+
+  const forPlugin = <T extends ClientDefinition>(api: T) =>
+    root[api.pluginId] as InferClient<T>;
+
+  return {
+    catalog: forPlugin(CatalogApi),
+    healthCheck: forPlugin(HealthCheckApi),
+    incident: forPlugin(IncidentApi),
+    maintenance: forPlugin(MaintenanceApi),
+  };
+}
@@ -0,0 +1,143 @@
+import type { ParseArgsConfig } from "node:util";
+import type { CheckstackClients } from "./client";
+import type { OutputFormat } from "./output";
+
+/** Exit codes of the CLI */
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+/** A system is at or above the status given with --fail-on */
+export const EXIT_UNHEALTHY = 2;
+
+export interface CommandContext {
+  clients: CheckstackClients;
+  output: OutputFormat;
+  /** Write to stdout */
+  print: (text: string) => void;
+  now: () => Date;
+}
+
+export type CommandOptions = NonNullable<ParseArgsConfig["options"]>;
+
+export interface CommandInput {
+  /** Positional arguments after the command name */
+  positionals: string[];
+  values: Record<string, string | boolean | string[] | undefined>;
+}
+
+export interface Command {
+  /** Command name, e.g. "systems list" */
+  name: string;
+  /** Arguments and options shown in the help, e.g. "<system> [--limit <n>]" */
+  usage?: string;
+  description: string;
+  options?: CommandOptions;
+  /** @returns The exit code */
+  run: (ctx: CommandContext, input: CommandInput) => Promise<number>;
+}
+
+export function getString(
+  input: CommandInput,
+  name: string,
+): string | undefined {
+  const value = input.values[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+export function getRequiredString(input: CommandInput, name: string): string {
+  const value = getString(input, name);
+  if (!value) {
+    throw new Error(`Missing required option --${name}`);
+  }
+  return value;
+}
+
+export function getList(input: CommandInput, name: string): string[] {
+  const value = input.values[name];
+  return Array.isArray(value) ? value : [];
+}
+
+export function getFlag(input: CommandInput, name: string): boolean {
+  return input.values[name] === true;
+}
+
+export function getPositional(
+  input: CommandInput,
+  index: number,
+  name: string,
+): string {
+  const value = input.positionals[index];
+  if (!value) {
+    throw new Error(`Missing argument <${name}>`);
+  }
+  return value;
+}
+
+export function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError(`Invalid date for --${name}: ${value}`);
+  }
+  return date;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** Parse durations like "90s", "30m", "2h" or "1d" to milliseconds */
+export function parseDuration(value: string, name: string): number {
+  const match = /^(\d+)([smhd])$/.exec(value);
+  if (!match || Number(match[1]) === 0) {
+    throw new TypeError(
+      `Invalid duration for --${name}: ${value} (expected e.g. 30m, 2h)`,
+    );
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Find an entity by ID, or by name if the name is unique.
+ */
+export function findByIdOrName<T extends { id: string; name: string }>(
+  items: T[],
+  ref: string,
+  label: string,
+): T {
+  const byId = items.find((item) => item.id === ref);
+  if (byId) return byId;
+
+  const byName = items.filter((item) => item.name === ref);
+  if (byName.length === 1) return byName[0];
+  throw new Error(
+    byName.length === 0
+      ? `Unknown ${label} "${ref}"`
+      : `Several ${label}s are named "${ref}", use the ID instead`,
+  );
+}
+
+export async function getAllSystems(clients: CheckstackClients) {
+  const { systems } = await clients.catalog.getSystems();
+  return systems;
+}
+
+export async function resolveSystems(
+  clients: CheckstackClients,
+  refs: string[],
+) {
+  const systems = await getAllSystems(clients);
+  return refs.map((ref) => findByIdOrName(systems, ref, "system"));
+}
+
+export function parseChoice<T extends string>(
+  value: string,
+  choices: readonly T[],
+  name: string,
+): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`--${name} must be one of: ${choices.join(", ")}`);
+  }
+  return value as T;
+}
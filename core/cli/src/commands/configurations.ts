@@ -0,0 +1,115 @@
+import type { CheckstackClients } from "../client";
+import {
+  EXIT_OK,
+  findByIdOrName,
+  getPositional,
+  resolveSystems,
+  type Command,
+} from "../command";
+import { formatJson, formatTable } from "../output";
+
+async function resolveConfiguration(clients: CheckstackClients, ref: string) {
+  const { configurations } = await clients.healthCheck.getConfigurations();
+  return findByIdOrName(configurations, ref, "configuration");
+}
+
+const listConfigurations: Command = {
+  name: "configurations list",
+  description: "List health check configurations",
+  run: async ({ clients, output, print }) => {
+    const { configurations } = await clients.healthCheck.getConfigurations();
+    print(
+      output === "json"
+        ? formatJson(configurations)
+        : formatTable(configurations, [
+            { header: "ID", value: (config) => config.id },
+            { header: "NAME", value: (config) => config.name },
+            { header: "STRATEGY", value: (config) => config.strategyId },
+            {
+              header: "SCHEDULE",
+              value: (config) =>
+                config.schedule?.type === "cron"
+                  ? `${config.schedule.cronPattern} (${config.schedule.timezone})`
+                  : config.schedule?.type === "activeHours"
+                    ? `active hours (${config.schedule.timezone})`
+                    : `${config.intervalSeconds}s`,
+            },
+            {
+              header: "PAUSED",
+              value: (config) => (config.paused ? "yes" : "no"),
+            },
+          ]),
+    );
+    return EXIT_OK;
+  },
+};
+
+const pauseConfiguration: Command = {
+  name: "configurations pause",
+  usage: "<configuration>",
+  description: "Pause a health check configuration for all systems",
+  run: async ({ clients, print }, input) => {
+    const config = await resolveConfiguration(
+      clients,
+      getPositional(input, 0, "configuration"),
+    );
+    await clients.healthCheck.pauseConfiguration(config.id);
+    print(`Paused ${config.name}`);
+    return EXIT_OK;
+  },
+};
+
+const resumeConfiguration: Command = {
+  name: "configurations resume",
+  usage: "<configuration>",
+  description: "Resume a paused health check configuration",
+  run: async ({ clients, print }, input) => {
+    const config = await resolveConfiguration(
+      clients,
+      getPositional(input, 0, "configuration"),
+    );
+    await clients.healthCheck.resumeConfiguration(config.id);
+    print(`Resumed ${config.name}`);
+    return EXIT_OK;
+  },
+};
+
+const runCheck: Command = {
+  name: "checks run",
+  usage: "<system> <configuration>",
+  description: "Run a health check of a system now",
+  run: async ({ clients, output, print }, input) => {
+    const [system] = await resolveSystems(clients, [
+      getPositional(input, 0, "system"),
+    ]);
+    const { checks } = await clients.healthCheck.getSystemHealthOverview({
+      systemId: system.id,
+    });
+    const check = findByIdOrName(
+      checks.map((c) => ({
+        id: c.configurationId,
+        name: c.configurationName,
+      })),
+      getPositional(input, 1, "configuration"),
+      "health check",
+    );
+
+    const { jobId } = await clients.healthCheck.triggerHealthCheck({
+      systemId: system.id,
+      configurationId: check.id,
+    });
+    print(
+      output === "json"
+        ? formatJson({ jobId })
+        : `Triggered ${check.name} for ${system.name} (job ${jobId})`,
+    );
+    return EXIT_OK;
+  },
+};
+
+export const configurationCommands = [
+  listConfigurations,
+  pauseConfiguration,
+  resumeConfiguration,
+  runCheck,
+];
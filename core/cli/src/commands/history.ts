@@ -0,0 +1,93 @@
+import type { HealthCheckRunPublic } from "@checkstack/healthcheck-common";
+import {
+  EXIT_OK,
+  findByIdOrName,
+  getPositional,
+  getString,
+  parseChoice,
+  parseDate,
+  resolveSystems,
+  type Command,
+} from "../command";
+import { formatCsv, formatJson, type Column } from "../output";
+
+const HISTORY_PAGE_SIZE = 500;
+const DEFAULT_HISTORY_LIMIT = 10_000;
+
+const exportHistory: Command = {
+  name: "history export",
+  usage:
+    "<system> [--configuration <configuration>] [--from <date>] [--to <date>] [--limit <n>] [--format <csv|json>]",
+  description:
+    "Export the health check runs of a system, oldest first, as CSV (default) or JSON",
+  options: {
+    configuration: { type: "string" },
+    from: { type: "string" },
+    to: { type: "string" },
+    limit: { type: "string" },
+    format: { type: "string", default: "csv" },
+  },
+  run: async ({ clients, print }, input) => {
+    const format = parseChoice(
+      getString(input, "format") ?? "csv",
+      ["csv", "json"],
+      "format",
+    );
+    const limit = Number(getString(input, "limit") ?? DEFAULT_HISTORY_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("--limit must be a positive integer");
+    }
+    const from = getString(input, "from");
+    const to = getString(input, "to");
+
+    const [system] = await resolveSystems(clients, [
+      getPositional(input, 0, "system"),
+    ]);
+    const { checks } = await clients.healthCheck.getSystemHealthOverview({
+      systemId: system.id,
+    });
+    const configurations = checks.map((check) => ({
+      id: check.configurationId,
+      name: check.configurationName,
+    }));
+    const configurationRef = getString(input, "configuration");
+    const configuration = configurationRef
+      ? findByIdOrName(configurations, configurationRef, "health check")
+      : undefined;
+
+    const runs: HealthCheckRunPublic[] = [];
+    while (runs.length < limit) {
+      const page = await clients.healthCheck.getHistory({
+        systemId: system.id,
+        configurationId: configuration?.id,
+        startDate: from ? parseDate(from, "from") : undefined,
+        endDate: to ? parseDate(to, "to") : undefined,
+        limit: Math.min(HISTORY_PAGE_SIZE, limit - runs.length),
+        offset: runs.length,
+        sortOrder: "asc",
+      });
+      runs.push(...page.runs);
+      if (page.runs.length === 0 || runs.length >= page.total) break;
+    }
+
+    const names = new Map(configurations.map((c) => [c.id, c.name]));
+    const rows = runs.map((run) => ({
+      ...run,
+      systemName: system.name,
+      configurationName: names.get(run.configurationId) ?? run.configurationId,
+    }));
+
+    const columns: Column<(typeof rows)[number]>[] = [
+      { header: "timestamp", value: (row) => row.timestamp },
+      { header: "system", value: (row) => row.systemName },
+      { header: "configuration", value: (row) => row.configurationName },
+      { header: "region", value: (row) => row.region },
+      { header: "status", value: (row) => row.status },
+      { header: "latency_ms", value: (row) => row.latencyMs },
+    ];
+    print(format === "json" ? formatJson(rows) : formatCsv(rows, columns));
+    return EXIT_OK;
+  },
+};
+
+export const historyCommands = [exportHistory];
@@ -0,0 +1,113 @@
+import {
+  IncidentSeverityEnum,
+  type IncidentWithSystems,
+} from "@checkstack/incident-common";
+import {
+  EXIT_OK,
+  getFlag,
+  getList,
+  getPositional,
+  getRequiredString,
+  getString,
+  parseChoice,
+  resolveSystems,
+  type Command,
+  type CommandContext,
+} from "../command";
+import { formatJson, formatTable } from "../output";
+
+function printIncidents(
+  { output, print }: CommandContext,
+  incidents: IncidentWithSystems[],
+) {
+  print(
+    output === "json"
+      ? formatJson(incidents)
+      : formatTable(incidents, [
+          { header: "ID", value: (incident) => incident.id },
+          { header: "TITLE", value: (incident) => incident.title },
+          { header: "SEVERITY", value: (incident) => incident.severity },
+          { header: "STATUS", value: (incident) => incident.status },
+          { header: "CREATED", value: (incident) => incident.createdAt },
+        ]),
+  );
+}
+
+const listIncidents: Command = {
+  name: "incidents list",
+  usage: "[--system <system>] [--all]",
+  description: "List open incidents, including resolved ones with --all",
+  options: {
+    system: { type: "string" },
+    all: { type: "boolean" },
+  },
+  run: async (ctx, input) => {
+    const systemRef = getString(input, "system");
+    const [system] = systemRef
+      ? await resolveSystems(ctx.clients, [systemRef])
+      : [];
+    const { incidents } = await ctx.clients.incident.listIncidents({
+      systemId: system?.id,
+      includeResolved: getFlag(input, "all"),
+    });
+    printIncidents(ctx, incidents);
+    return EXIT_OK;
+  },
+};
+
+const createIncident: Command = {
+  name: "incidents create",
+  usage:
+    "--title <title> --severity <minor|major|critical> --system <system>... [--description <text>] [--message <text>] [--suppress-notifications]",
+  description: "Create an incident for one or more systems",
+  options: {
+    title: { type: "string" },
+    severity: { type: "string" },
+    system: { type: "string", multiple: true },
+    description: { type: "string" },
+    message: { type: "string" },
+    "suppress-notifications": { type: "boolean" },
+  },
+  run: async (ctx, input) => {
+    const severity = parseChoice(
+      getRequiredString(input, "severity"),
+      IncidentSeverityEnum.options,
+      "severity",
+    );
+    const systems = await resolveSystems(ctx.clients, getList(input, "system"));
+
+    const incident = await ctx.clients.incident.createIncident({
+      title: getRequiredString(input, "title"),
+      description: getString(input, "description"),
+      severity,
+      suppressNotifications: getFlag(input, "suppress-notifications"),
+      systemIds: systems.map((system) => system.id),
+      initialMessage: getString(input, "message"),
+    });
+    printIncidents(ctx, [incident]);
+    return EXIT_OK;
+  },
+};
+
+const resolveIncident: Command = {
+  name: "incidents resolve",
+  usage: "<incident-id> [--message <text>]",
+  description: "Resolve an incident",
+  options: {
+    message: { type: "string" },
+  },
+  run: async (ctx, input) => {
+    const incident = await ctx.clients.incident.resolveIncident({
+      id: getPositional(input, 0, "incident-id"),
+      message: getString(input, "message"),
+    });
+    printIncidents(ctx, [incident]);
+    return EXIT_OK;
+  },
+};
+
+export const incidentCommands = [
+  listIncidents,
+  createIncident,
+  resolveIncident,
+];
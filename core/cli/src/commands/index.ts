@@ -0,0 +1,14 @@
+import type { Command } from "../command";
+import { systemCommands } from "./systems";
+import { incidentCommands } from "./incidents";
+import { maintenanceCommands } from "./maintenances";
+import { configurationCommands } from "./configurations";
+import { historyCommands } from "./history";
+
+export const commands: Command[] = [
+  ...systemCommands,
+  ...incidentCommands,
+  ...maintenanceCommands,
+  ...configurationCommands,
+  ...historyCommands,
+];
@@ -0,0 +1,128 @@
+import {
+  MaintenanceStatusEnum,
+  type MaintenanceWithSystems,
+} from "@checkstack/maintenance-common";
+import {
+  EXIT_OK,
+  getFlag,
+  getList,
+  getPositional,
+  getRequiredString,
+  getString,
+  parseChoice,
+  parseDate,
+  parseDuration,
+  resolveSystems,
+  type Command,
+  type CommandContext,
+} from "../command";
+import { formatJson, formatTable } from "../output";
+
+function printMaintenances(
+  { output, print }: CommandContext,
+  maintenances: MaintenanceWithSystems[],
+) {
+  print(
+    output === "json"
+      ? formatJson(maintenances)
+      : formatTable(maintenances, [
+          { header: "ID", value: (maintenance) => maintenance.id },
+          { header: "TITLE", value: (maintenance) => maintenance.title },
+          { header: "STATUS", value: (maintenance) => maintenance.status },
+          { header: "START", value: (maintenance) => maintenance.startAt },
+          { header: "END", value: (maintenance) => maintenance.endAt },
+        ]),
+  );
+}
+
+const listMaintenances: Command = {
+  name: "maintenances list",
+  usage: "[--system <system>] [--status <status>]",
+  description: "List maintenances",
+  options: {
+    system: { type: "string" },
+    status: { type: "string" },
+  },
+  run: async (ctx, input) => {
+    const systemRef = getString(input, "system");
+    const [system] = systemRef
+      ? await resolveSystems(ctx.clients, [systemRef])
+      : [];
+    const status = getString(input, "status");
+    const { maintenances } = await ctx.clients.maintenance.listMaintenances({
+      systemId: system?.id,
+      status: status
+        ? parseChoice(status, MaintenanceStatusEnum.options, "status")
+        : undefined,
+    });
+    printMaintenances(ctx, maintenances);
+    return EXIT_OK;
+  },
+};
+
+const openMaintenance: Command = {
+  name: "maintenances open",
+  usage:
+    "--title <title> --system <system>... [--start <date>] [--duration <30m|2h|...> | --end <date>] [--description <text>] [--suppress-notifications]",
+  description:
+    "Open a maintenance, starting now unless --start is given and lasting one hour unless --duration or --end is given",
+  options: {
+    title: { type: "string" },
+    system: { type: "string", multiple: true },
+    start: { type: "string" },
+    end: { type: "string" },
+    duration: { type: "string" },
+    description: { type: "string" },
+    "suppress-notifications": { type: "boolean" },
+  },
+  run: async (ctx, input) => {
+    const start = getString(input, "start");
+    const end = getString(input, "end");
+    const duration = getString(input, "duration");
+    if (end && duration) {
+      throw new Error("Use either --end or --duration");
+    }
+
+    const startAt = start ? parseDate(start, "start") : ctx.now();
+    const endAt = end
+      ? parseDate(end, "end")
+      : new Date(
+          startAt.getTime() + parseDuration(duration ?? "1h", "duration"),
+        );
+    const systems = await resolveSystems(ctx.clients, getList(input, "system"));
+
+    const maintenance = await ctx.clients.maintenance.createMaintenance({
+      title: getRequiredString(input, "title"),
+      description: getString(input, "description"),
+      suppressNotifications: getFlag(input, "suppress-notifications"),
+      startAt,
+      endAt,
+      systemIds: systems.map((system) => system.id),
+    });
+    printMaintenances(ctx, [maintenance]);
+    return EXIT_OK;
+  },
+};
+
+const closeMaintenance: Command = {
+  name: "maintenances close",
+  usage: "<maintenance-id> [--message <text>]",
+  description: "Close a maintenance early",
+  options: {
+    message: { type: "string" },
+  },
+  run: async (ctx, input) => {
+    const maintenance = await ctx.clients.maintenance.closeMaintenance({
+      id: getPositional(input, 0, "maintenance-id"),
+      message: getString(input, "message"),
+    });
+    printMaintenances(ctx, [maintenance]);
+    return EXIT_OK;
+  },
+};
+
+export const maintenanceCommands = [
+  listMaintenances,
+  openMaintenance,
+  closeMaintenance,
+];
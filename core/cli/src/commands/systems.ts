@@ -0,0 +1,145 @@
+import type { System } from "@checkstack/catalog-common";
+import type { HealthCheckStatus } from "@checkstack/healthcheck-common";
+import {
+  EXIT_OK,
+  EXIT_UNHEALTHY,
+  getAllSystems,
+  getPositional,
+  getString,
+  parseChoice,
+  resolveSystems,
+  type Command,
+} from "../command";
+import { formatJson, formatTable } from "../output";
+
+const STATUS_RANK: Record<HealthCheckStatus, number> = {
+  healthy: 0,
+  degraded: 1,
+  unhealthy: 2,
+};
+
+const listSystems: Command = {
+  name: "systems list",
+  description: "List all systems with their health status",
+  run: async ({ clients, output, print }) => {
+    const systems = await getAllSystems(clients);
+    const { statuses } = await clients.healthCheck.getBulkSystemHealthStatus({
+      systemIds: systems.map((system) => system.id),
+    });
+
+    const rows = systems.map((system) => ({
+      id: system.id,
+      name: system.name,
+      description: system.description ?? undefined,
+      status: statuses[system.id]?.status,
+    }));
+
+    print(
+      output === "json"
+        ? formatJson(rows)
+        : formatTable(rows, [
+            { header: "ID", value: (row) => row.id },
+            { header: "NAME", value: (row) => row.name },
+            { header: "STATUS", value: (row) => row.status },
+          ]),
+    );
+    return EXIT_OK;
+  },
+};
+
+const getSystem: Command = {
+  name: "systems get",
+  usage: "<system>",
+  description: "Show a system with the status of its health checks",
+  run: async ({ clients, output, print }, input) => {
+    const [system] = await resolveSystems(clients, [
+      getPositional(input, 0, "system"),
+    ]);
+    const health = await clients.healthCheck.getSystemHealthStatus({
+      systemId: system.id,
+    });
+
+    if (output === "json") {
+      print(formatJson({ ...system, health }));
+      return EXIT_OK;
+    }
+
+    print(
+      [
+        `ID:          ${system.id}`,
+        `Name:        ${system.name}`,
+        `Description: ${system.description ?? ""}`,
+        `Status:      ${health.status}${
+          health.degradedByUpstream ? " (degraded by upstream)" : ""
+        }`,
+        "",
+        formatTable(health.checkStatuses, [
+          {
+            header: "CONFIGURATION",
+            value: (check) => check.configurationName,
+          },
+          { header: "STATUS", value: (check) => check.status },
+          { header: "LAST RUN", value: (check) => check.lastRunAt },
+        ]),
+      ].join("\n"),
+    );
+    return EXIT_OK;
+  },
+};
+
+const systemsStatus: Command = {
+  name: "systems status",
+  usage: "[system...] [--fail-on <degraded|unhealthy>]",
+  description:
+    "Show the health status of systems, all if none are given. Exits with 2 if a system is at or above the --fail-on status (default unhealthy)",
+  options: {
+    "fail-on": { type: "string", default: "unhealthy" },
+  },
+  run: async ({ clients, output, print }, input) => {
+    const failOn = parseChoice(
+      getString(input, "fail-on") ?? "unhealthy",
+      ["degraded", "unhealthy"],
+      "fail-on",
+    );
+
+    const systems: System[] =
+      input.positionals.length > 0
+        ? await resolveSystems(clients, input.positionals)
+        : await getAllSystems(clients);
+    const { statuses } = await clients.healthCheck.getBulkSystemHealthStatus({
+      systemIds: systems.map((system) => system.id),
+    });
+
+    const rows = systems.map((system) => {
+      const health = statuses[system.id];
+      return {
+        id: system.id,
+        name: system.name,
+        status: health?.status,
+        ownStatus: health?.ownStatus,
+        degradedByUpstream: health?.degradedByUpstream ?? false,
+      };
+    });
+
+    print(
+      output === "json"
+        ? formatJson(rows)
+        : formatTable(rows, [
+            { header: "NAME", value: (row) => row.name },
+            { header: "STATUS", value: (row) => row.status },
+            { header: "OWN STATUS", value: (row) => row.ownStatus },
+            {
+              header: "UPSTREAM",
+              value: (row) => (row.degradedByUpstream ? "impacted" : ""),
+            },
+          ]),
+    );
+
+    const failing = rows.some(
+      (row) => row.status && STATUS_RANK[row.status] >= STATUS_RANK[failOn],
+    );
+    return failing ? EXIT_UNHEALTHY : EXIT_OK;
+  },
+};
+
+export const systemCommands = [listSystems, getSystem, systemsStatus];
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "bun:test";
+import { loadCliConfig } from "./config";
+
+const env = {
+  CHECKSTACK_URL: "https://status.example.com/",
+  CHECKSTACK_API_KEY: "ck_app_secret",
+};
+
+describe("loadCliConfig", () => {
+  it("should read the environment", () => {
+    expect(loadCliConfig(env)).toEqual({
+      url: "https://status.example.com",
+      apiKey: "ck_app_secret",
+    });
+  });
+
+  it("should prefer flags over the environment", () => {
+    const config = loadCliConfig(env, { url: "https://other.example.com" });
+
+    expect(config.url).toBe("https://other.example.com");
+    expect(config.apiKey).toBe("ck_app_secret");
+  });
+
+  it("should reject invalid configuration", () => {
+    expect(() => loadCliConfig({})).toThrow("Invalid CLI configuration: url");
+    expect(() => loadCliConfig({ ...env, CHECKSTACK_API_KEY: "abc" })).toThrow(
+      "Expected an application API key",
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+const cliConfigSchema = z.object({
+  /** Base URL of the Checkstack backend, e.g. https://status.example.com */
+  url: z.url().transform((url) => url.replace(/\/+$/, "")),
+  /** Application API key (ck_<applicationId>_<secret>) */
+  apiKey: z.string().startsWith("ck_", "Expected an application API key"),
+});
+
+export type CliConfig = z.infer<typeof cliConfigSchema>;
+
+/**
+ * Read the connection settings from the command-line flags, falling back to
+ * environment variables.
+ */
+export function loadCliConfig(
+  env: Record<string, string | undefined>,
+  flags: { url?: string; apiKey?: string } = {},
+): CliConfig {
+  const result = cliConfigSchema.safeParse({
+    url: flags.url ?? env.CHECKSTACK_URL,
+    apiKey: flags.apiKey ?? env.CHECKSTACK_API_KEY,
+  });
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid CLI configuration: ${issues}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,6 @@
+export * from "./client";
+export * from "./command";
+export * from "./commands";
+export * from "./config";
+export * from "./output";
+export * from "./run";
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "bun:test";
+import { formatCsv, formatTable, type Column } from "./output";
+
+interface Row {
+  name: string;
+  latency?: number;
+}
+
+const columns: Column<Row>[] = [
+  { header: "NAME", value: (row) => row.name },
+  { header: "LATENCY", value: (row) => row.latency },
+];
+
+describe("formatTable", () => {
+  it("should pad columns to the widest cell", () => {
+    expect(
+      formatTable(
+        [{ name: "API", latency: 120 }, { name: "Database" }],
+        columns,
+      ),
+    ).toBe(["NAME      LATENCY", "API       120", "Database"].join("\n"));
+  });
+});
+
+describe("formatCsv", () => {
+  it("should quote values with separators and quotes", () => {
+    expect(
+      formatCsv(
+        [{ name: 'API, "public"', latency: 120 }, { name: "Database" }],
+        columns,
+      ),
+    ).toBe(["NAME,LATENCY", '"API, ""public""",120', "Database,"].join("\n"));
+  });
+});
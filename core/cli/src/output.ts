@@ -0,0 +1,58 @@
+export const OUTPUT_FORMATS = ["table", "json"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | Date | undefined;
+}
+
+function formatCell(value: ReturnType<Column<unknown>["value"]>): string {
+  if (value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * Render rows as a plain-text table with padded columns.
+ */
+export function formatTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = [
+    columns.map((column) => column.header),
+    ...rows.map((row) =>
+      columns.map((column) => formatCell(column.value(row))),
+    ),
+  ];
+  const widths = columns.map((_, index) =>
+    Math.max(...cells.map((line) => line[index].length)),
+  );
+  return cells
+    .map((line) =>
+      line
+        .map((cell, index) => cell.padEnd(widths[index]))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/**
+ * Render rows as CSV (RFC 4180) with a header line.
+ */
+export function formatCsv<T>(rows: T[], columns: Column<T>[]): string {
+  return [
+    columns.map((column) => escapeCsv(column.header)),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsv(formatCell(column.value(row)))),
+    ),
+  ]
+    .map((line) => line.join(","))
+    .join("\n");
+}
+
+export function formatJson(value: unknown): string {
+  return JSON.stringify(value, undefined, 2);
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { CheckstackClients } from "./client";
+import { EXIT_ERROR, EXIT_OK, EXIT_UNHEALTHY } from "./command";
+import { runCli } from "./run";
+
+const now = new Date("2026-03-02T10:00:00Z");
+
+const systems = [
+  { id: "s1", name: "API", description: null },
+  { id: "s2", name: "Database", description: null },
+];
+
+const health = (status: "healthy" | "degraded" | "unhealthy") => ({
+  status,
+  ownStatus: status,
+  impactedByUpstreams: [],
+  degradedByUpstream: false,
+  evaluatedAt: now,
+  checkStatuses: [],
+});
+
+const createClients = () => ({
+  catalog: {
+    getSystems: mock(async () => ({ systems })),
+  },
+  healthCheck: {
+    getBulkSystemHealthStatus: mock(async () => ({
+      statuses: { s1: health("healthy"), s2: health("degraded") },
+    })),
+    getSystemHealthOverview: mock(async () => ({
+      systemId: "s1",
+      checks: [{ configurationId: "c1", configurationName: "API HTTP" }],
+    })),
+    getHistory: mock(async (input: { offset: number; limit: number }) => ({
+      runs: Array.from(
+        { length: Math.min(input.limit, 3 - input.offset) },
+        (_, index) => ({
+          id: `r${input.offset + index}`,
+          configurationId: "c1",
+          systemId: "s1",
+          status: "healthy",
+          timestamp: new Date(now.getTime() + (input.offset + index) * 60_000),
+          latencyMs: 42,
+          region: "local",
+        }),
+      ),
+      total: 3,
+    })),
+  },
+  incident: {
+    createIncident: mock(async (input: Record<string, unknown>) => ({
+      id: "i1",
+      status: "investigating",
+      createdAt: now,
+      updatedAt: now,
+      ...input,
+    })),
+  },
+  maintenance: {
+    createMaintenance: mock(async (input: Record<string, unknown>) => ({
+      id: "m1",
+      status: "in_progress",
+      createdAt: now,
+      updatedAt: now,
+      ...input,
+    })),
+  },
+});
+
+const setup = () => {
+  const clients = createClients();
+  const output: string[] = [];
+  const errors: string[] = [];
+  const run = (...argv: string[]) =>
+    runCli(argv, {
+      env: {
+        CHECKSTACK_URL: "https://status.example.com",
+        CHECKSTACK_API_KEY: "ck_app_secret",
+      },
+      createClients: () => clients as unknown as CheckstackClients,
+      print: (text) => output.push(text),
+      printError: (text) => errors.push(text),
+      now: () => now,
+    });
+  return { clients, output, errors, run };
+};
+
+describe("runCli", () => {
+  it("should fail the status command when a system reaches --fail-on", async () => {
+    const { output, run } = setup();
+
+    expect(await run("systems", "status")).toBe(EXIT_OK);
+    expect(await run("systems", "status", "--fail-on", "degraded")).toBe(
+      EXIT_UNHEALTHY,
+    );
+    expect(output[0]).toContain("Database  degraded");
+  });
+
+  it("should only check the given systems", async () => {
+    const { clients, run } = setup();
+
+    expect(await run("systems", "status", "API", "--fail-on", "degraded")).toBe(
+      EXIT_OK,
+    );
+    expect(clients.healthCheck.getBulkSystemHealthStatus).toHaveBeenCalledWith({
+      systemIds: ["s1"],
+    });
+  });
+
+  it("should resolve systems by name when creating incidents", async () => {
+    const { clients, output, run } = setup();
+
+    const exitCode = await run(
+      "incidents",
+      "create",
+      "--title",
+      "API down",
+      "--severity",
+      "major",
+      "--system",
+      "API",
+      "--system",
+      "s2",
+      "-o",
+      "json",
+    );
+
+    expect(exitCode).toBe(EXIT_OK);
+    expect(clients.incident.createIncident).toHaveBeenCalledWith({
+      title: "API down",
+      description: undefined,
+      severity: "major",
+      suppressNotifications: false,
+      systemIds: ["s1", "s2"],
+      initialMessage: undefined,
+    });
+    expect(JSON.parse(output[0])[0].id).toBe("i1");
+  });
+
+  it("should open maintenances for a duration", async () => {
+    const { clients, run } = setup();
+
+    await run(
+      "maintenances",
+      "open",
+      "--title",
+      "Deploy",
+      "--system",
+      "API",
+      "--duration",
+      "30m",
+    );
+
+    expect(clients.maintenance.createMaintenance).toHaveBeenCalledWith(
+      expect.objectContaining({
+        startAt: now,
+        endAt: new Date("2026-03-02T10:30:00Z"),
+        systemIds: ["s1"],
+      }),
+    );
+  });
+
+  it("should export all pages of the history as CSV", async () => {
+    const { clients, output, run } = setup();
+
+    expect(await run("history", "export", "API", "--limit", "2")).toBe(EXIT_OK);
+    expect(output[0].split("\n")).toEqual([
+      "timestamp,system,configuration,region,status,latency_ms",
+      "2026-03-02T10:00:00.000Z,API,API HTTP,local,healthy,42",
+      "2026-03-02T10:01:00.000Z,API,API HTTP,local,healthy,42",
+    ]);
+
+    await run("history", "export", "API", "--format", "json");
+    expect(JSON.parse(output[1])).toHaveLength(3);
+    expect(clients.healthCheck.getHistory).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report errors and unknown commands", async () => {
+    const { errors, run } = setup();
+
+    expect(
+      await run("incidents", "create", "--title", "x", "--severity", "huge"),
+    ).toBe(EXIT_ERROR);
+    expect(errors[0]).toBe("--severity must be one of: minor, major, critical");
+
+    expect(await run("systems", "delete")).toBe(EXIT_ERROR);
+    expect(errors[1]).toStartWith("Unknown command: systems delete");
+  });
+});
@@ -0,0 +1,117 @@
+import { parseArgs } from "node:util";
+import type { CheckstackClients } from "./client";
+import { loadCliConfig, type CliConfig } from "./config";
+import {
+  EXIT_ERROR,
+  EXIT_OK,
+  parseChoice,
+  type Command,
+  type CommandInput,
+  type CommandOptions,
+} from "./command";
+import { commands } from "./commands";
+import { OUTPUT_FORMATS } from "./output";
+
+const GLOBAL_OPTIONS = {
+  url: { type: "string" },
+  "api-key": { type: "string" },
+  output: { type: "string", short: "o", default: "table" },
+  help: { type: "boolean", short: "h" },
+} satisfies CommandOptions;
+
+const GLOBAL_USAGE = `Global options:
+  --url <url>          Checkstack URL (default: $CHECKSTACK_URL)
+  --api-key <key>      Application API key (default: $CHECKSTACK_API_KEY)
+  -o, --output <fmt>   Output format: table or json (default: table)
+  -h, --help           Show help`;
+
+export interface CliDeps {
+  env: Record<string, string | undefined>;
+  createClients: (config: CliConfig) => CheckstackClients;
+  print: (text: string) => void;
+  printError: (text: string) => void;
+  now: () => Date;
+}
+
+function formatUsage(command: Command): string {
+  return `checkstack ${command.name}${command.usage ? ` ${command.usage}` : ""}`;
+}
+
+export function formatHelp(): string {
+  const width = Math.max(...commands.map((command) => command.name.length));
+  return [
+    "Usage: checkstack <command> [options]",
+    "",
+    "Commands:",
+    ...commands.map(
+      (command) => `  ${command.name.padEnd(width)}  ${command.description}`,
+    ),
+    "",
+    GLOBAL_USAGE,
+    "",
+    "Run checkstack <command> --help for the options of a command.",
+  ].join("\n");
+}
+
+function formatCommandHelp(command: Command): string {
+  return [
+    `Usage: ${formatUsage(command)}`,
+    "",
+    command.description,
+    "",
+    GLOBAL_USAGE,
+  ].join("\n");
+}
+
+/**
+ * Run the command given by the arguments (without the executable).
+ * @returns The exit code
+ */
+export async function runCli(argv: string[], deps: CliDeps): Promise<number> {
+  const name = argv.slice(0, 2).join(" ");
+  const command = commands.find((c) => c.name === name);
+
+  if (!command) {
+    if (argv.length === 0 || argv[0] === "--help" || argv[0] === "-h") {
+      deps.print(formatHelp());
+      return argv.length === 0 ? EXIT_ERROR : EXIT_OK;
+    }
+    deps.printError(`Unknown command: ${name}\n\n${formatHelp()}`);
+    return EXIT_ERROR;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv.slice(2),
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+      strict: true,
+    });
+    const input: CommandInput = { values, positionals };
+
+    if (values.help) {
+      deps.print(formatCommandHelp(command));
+      return EXIT_OK;
+    }
+
+    const output = parseChoice(String(values.output), OUTPUT_FORMATS, "output");
+    const config = loadCliConfig(deps.env, {
+      url: typeof values.url === "string" ? values.url : undefined,
+      apiKey:
+        typeof values["api-key"] === "string" ? values["api-key"] : undefined,
+    });
+
+    return await command.run(
+      {
+        clients: deps.createClients(config),
+        output,
+        print: deps.print,
+        now: deps.now,
+      },
+      input,
+    );
+  } catch (error) {
+    deps.printError(error instanceof Error ? error.message : String(error));
+    return EXIT_ERROR;
+  }
+}
@@ -35,6 +35,7 @@ import {
   LoadingSpinner,
   ToastProvider,
   AmbientBackground,
+  useTheme,
 } from "@checkstack/ui";
 import { SignalProvider } from "@checkstack/signal-frontend";
 import { usePluginLifecycle } from "./hooks/usePluginLifecycle";
@@ -116,6 +117,23 @@ const RouteGuard: React.FC<{
   return <>{children}</>;
 };
 
+/**
+ * Organisation logo and product name, synchronized by the theme plugin.
+ */
+function BrandLogo() {
+  const { branding } = useTheme();
+  const productName = branding?.productName ?? "Checkstack";
+
+  return (
+    <div className="flex items-center gap-2">
+      {branding?.logoUrl && (
+        <img src={branding.logoUrl} alt="" className="h-8 w-auto" />
+      )}
+      <h1 className="text-xl font-bold text-primary">{productName}</h1>
+    </div>
+  );
+}
+
 /**
  * Inner component that handles plugin lifecycle and reactive routing.
  * Must be inside SignalProvider to receive plugin signals.
@@ -135,7 +153,7 @@ function AppContent() {
             {/* Left: Logo and main navigation */}
             <div className="flex items-center gap-8 flex-shrink-0">
               <Link to="/">
-                <h1 className="text-xl font-bold text-primary">Checkstack</h1>
+                <BrandLogo />
               </Link>
               <nav className="hidden md:flex gap-1">
                 <ExtensionSlot slot={NavbarLeftSlot} />
@@ -22,6 +22,8 @@ export default defineConfig(() => {
           ws: true, // Enable WebSocket proxy
         },
         "/assets": backendUrl,
+        // Public status pages are rendered by the backend
+        "^/status/": backendUrl,
       },
     },
     // ============================================================
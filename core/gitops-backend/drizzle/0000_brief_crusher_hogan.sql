@@ -0,0 +1,10 @@
+CREATE TYPE "sync_status" AS ENUM('applied', 'unchanged', 'failed');--> statement-breakpoint
+CREATE TABLE "sync_runs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"status" "sync_status" NOT NULL,
+	"files" jsonb NOT NULL,
+	"changes" jsonb NOT NULL,
+	"error" text,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp NOT NULL
+);
@@ -0,0 +1,661 @@
+import type { InferClient } from "@checkstack/common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import {
+  DEFAULT_STATE_THRESHOLDS,
+  HealthCheckApi,
+} from "@checkstack/healthcheck-common";
+import { IntegrationApi } from "@checkstack/integration-common";
+import { MaintenanceApi } from "@checkstack/maintenance-common";
+import {
+  CONFIG_DOCUMENT_VERSION,
+  type ConfigApplyResult,
+  type ConfigDocument,
+  type ConfigPlan,
+} from "@checkstack/gitops-common";
+import {
+  reconcile,
+  toConfigChange,
+  toConfigPlan,
+  type CurrentState,
+  type PlannedOperation,
+  type ReconcilePlan,
+} from "./reconcile";
+import {
+  replaceSecrets,
+  resolveSecrets,
+  toSecretName,
+  type ConfigJsonSchema,
+  type ConfigSchemas,
+} from "./secrets";
+
+type Env = Record<string, string | undefined>;
+
+export interface ConfigManagerDeps {
+  catalogClient: InferClient<typeof CatalogApi>;
+  healthCheckClient: InferClient<typeof HealthCheckApi>;
+  maintenanceClient: InferClient<typeof MaintenanceApi>;
+  integrationClient: InferClient<typeof IntegrationApi>;
+}
+
+/** Subscriptions are listed in pages of at most 100 */
+const SUBSCRIPTION_PAGE_SIZE = 100;
+
+/** Name to ID lookups, extended while entities are created */
+interface ApplyContext {
+  systemIds: Map<string, string>;
+  configurationIds: Map<string, string>;
+}
+
+function lookup(ids: Map<string, string>, label: string, name: string) {
+  const id = ids.get(name);
+  if (!id) throw new Error(`Unknown ${label} "${name}"`);
+  return id;
+}
+
+function toNames(ids: string[], names: Map<string, string>): string[] {
+  return ids.flatMap((id) => {
+    const name = names.get(id);
+    return name === undefined ? [] : [name];
+  });
+}
+
+function isSystemUpsert(operation: PlannedOperation): boolean {
+  return operation.kind === "system" && operation.action !== "delete";
+}
+
+/**
+ * Exports the configuration of the catalog, health check, maintenance and
+ * integration plugins as a document and reconciles them with documents.
+ * All changes go through the plugins' own RPC procedures.
+ */
+export class ConfigManager {
+  constructor(private deps: ConfigManagerDeps) {}
+
+  /**
+   * Current configuration of all plugins, with IDs and plain secrets.
+   */
+  async loadState(): Promise<CurrentState> {
+    const { catalogClient, healthCheckClient, maintenanceClient } = this.deps;
+
+    const [
+      { systems },
+      groups,
+      { dependencies },
+      { configurations },
+      { series },
+      subscriptions,
+    ] = await Promise.all([
+      catalogClient.getSystems(),
+      catalogClient.getGroups(),
+      catalogClient.getDependencyGraph(),
+      healthCheckClient.getConfigurations(),
+      maintenanceClient.listSeries(),
+      this.listSubscriptions(),
+    ]);
+
+    const systemNames = new Map(systems.map((s) => [s.id, s.name]));
+
+    const assignments: CurrentState["assignments"] = [];
+    for (const system of systems) {
+      const associations = await healthCheckClient.getSystemAssociations({
+        systemId: system.id,
+      });
+      for (const association of associations) {
+        const { retentionConfig } = await healthCheckClient.getRetentionConfig({
+          systemId: system.id,
+          configurationId: association.configurationId,
+        });
+        assignments.push({
+          id: {
+            systemId: system.id,
+            configurationId: association.configurationId,
+          },
+          doc: {
+            system: system.name,
+            configuration: association.configurationName,
+            enabled: association.enabled,
+            thresholds: association.stateThresholds,
+            retention: retentionConfig ?? undefined,
+          },
+        });
+      }
+    }
+
+    return {
+      systems: systems.map((system) => ({
+        id: system.id,
+        doc: {
+          name: system.name,
+          description: system.description ?? undefined,
+          metadata: system.metadata ?? undefined,
+          dependsOn: toNames(
+            dependencies
+              .filter((d) => d.systemId === system.id)
+              .map((d) => d.dependsOnSystemId),
+            systemNames,
+          ),
+        },
+      })),
+      groups: groups.map((group) => ({
+        id: group.id,
+        doc: {
+          name: group.name,
+          metadata: group.metadata ?? undefined,
+          systems: toNames(group.systemIds, systemNames),
+        },
+      })),
+      configurations: configurations.map((configuration) => ({
+        id: configuration.id,
+        doc: {
+          name: configuration.name,
+          strategy: configuration.strategyId,
+          intervalSeconds: configuration.intervalSeconds,
+          config: configuration.config,
+          collectors: configuration.collectors,
+          regions: configuration.regions,
+          schedule: configuration.schedule,
+        },
+      })),
+      assignments,
+      series: series.map((s) => ({
+        id: s.id,
+        doc: {
+          title: s.title,
+          description: s.description,
+          suppressNotifications: s.suppressNotifications,
+          rrule: s.rrule,
+          timezone: s.timezone,
+          dtstart: s.dtstart,
+          durationMinutes: s.durationMinutes,
+          exceptions: s.exceptions,
+          systems: toNames(s.systemIds, systemNames),
+        },
+      })),
+      subscriptions: subscriptions.map((subscription) => ({
+        id: subscription.id,
+        doc: {
+          name: subscription.name,
+          description: subscription.description,
+          provider: subscription.providerId,
+          config: subscription.providerConfig,
+          event: subscription.eventId,
+          systems: subscription.systemFilter
+            ? toNames(subscription.systemFilter, systemNames)
+            : undefined,
+          enabled: subscription.enabled,
+        },
+      })),
+    };
+  }
+
+  private async listSubscriptions() {
+    const { integrationClient } = this.deps;
+    const subscriptions = [];
+    for (let page = 1; ; page++) {
+      const result = await integrationClient.listSubscriptions({
+        page,
+        pageSize: SUBSCRIPTION_PAGE_SIZE,
+      });
+      subscriptions.push(...result.subscriptions);
+      if (
+        result.subscriptions.length < SUBSCRIPTION_PAGE_SIZE ||
+        subscriptions.length >= result.total
+      ) {
+        return subscriptions;
+      }
+    }
+  }
+
+  /**
+   * Config schemas of all strategies and providers, and of the collectors of
+   * the given configurations.
+   */
+  private async loadConfigSchemas(
+    configurations: { strategy: string; collectors?: unknown[] }[],
+  ): Promise<ConfigSchemas> {
+    const { healthCheckClient, integrationClient } = this.deps;
+
+    const [strategies, providers] = await Promise.all([
+      healthCheckClient.getStrategies(),
+      integrationClient.listProviders(),
+    ]);
+
+    const collectors = new Map<string, ConfigJsonSchema>();
+    const usedStrategies = new Set(
+      configurations.filter((c) => c.collectors?.length).map((c) => c.strategy),
+    );
+    for (const strategyId of usedStrategies) {
+      for (const collector of await healthCheckClient.getCollectors({
+        strategyId,
+      })) {
+        collectors.set(collector.id, collector.configSchema);
+      }
+    }
+
+    return {
+      strategies: new Map(strategies.map((s) => [s.id, s.configSchema])),
+      collectors,
+      providers: new Map(providers.map((p) => [p.qualifiedId, p.configSchema])),
+    };
+  }
+
+  /**
+   * The complete current configuration as a document.
+   * Secret fields are replaced by references named after their entity.
+   */
+  async exportDocument(): Promise<ConfigDocument> {
+    const state = await this.loadState();
+    const {
+      strategies: strategySchemas,
+      collectors: collectorSchemas,
+      providers: providerSchemas,
+    } = await this.loadConfigSchemas(state.configurations.map((c) => c.doc));
+
+    return {
+      version: CONFIG_DOCUMENT_VERSION,
+      catalog: {
+        systems: state.systems.map((s) => s.doc),
+        groups: state.groups.map((g) => g.doc),
+      },
+      healthcheck: {
+        configurations: state.configurations.map(({ doc }) => {
+          const prefix = toSecretName("healthcheck", doc.name);
+          return {
+            ...doc,
+            config: replaceSecrets(
+              doc.config,
+              strategySchemas.get(doc.strategy),
+              prefix,
+            ),
+            collectors: doc.collectors?.map((entry) => ({
+              ...entry,
+              config: replaceSecrets(
+                entry.config,
+                collectorSchemas.get(entry.collectorId),
+                toSecretName(prefix, entry.collectorId.split(".").at(-1) ?? ""),
+              ),
+            })),
+          };
+        }),
+        assignments: state.assignments.map((a) => a.doc),
+      },
+      maintenance: {
+        series: state.series.map((s) => s.doc),
+      },
+      integration: {
+        subscriptions: state.subscriptions.map(({ doc }) => ({
+          ...doc,
+          config: replaceSecrets(
+            doc.config,
+            providerSchemas.get(doc.provider),
+            toSecretName("integration", doc.name),
+          ),
+        })),
+      },
+    };
+  }
+
+  private async reconcileWith(
+    document: ConfigDocument,
+    env: Env,
+  ): Promise<ReconcilePlan & { state: CurrentState }> {
+    const { document: resolved, errors } = resolveSecrets(
+      document,
+      await this.loadConfigSchemas(document.healthcheck?.configurations ?? []),
+      env,
+    );
+    const state = await this.loadState();
+    const plan = reconcile(state, resolved);
+    return { ...plan, errors: [...errors, ...plan.errors], state };
+  }
+
+  /**
+   * Dry run: the changes applying the document would make.
+   */
+  async plan(
+    document: ConfigDocument,
+    env: Env = process.env,
+  ): Promise<ConfigPlan> {
+    return toConfigPlan(await this.reconcileWith(document, env));
+  }
+
+  /**
+   * Reconcile the configuration with the document.
+   * Stops at the first failing change, earlier changes stay applied.
+   */
+  async apply(
+    document: ConfigDocument,
+    env: Env = process.env,
+  ): Promise<ConfigApplyResult> {
+    const { operations, errors, state } = await this.reconcileWith(
+      document,
+      env,
+    );
+    if (errors.length > 0) {
+      return { applied: [], error: errors.join("; ") };
+    }
+
+    const context: ApplyContext = {
+      systemIds: new Map(state.systems.map((s) => [s.doc.name, s.id])),
+      configurationIds: new Map(
+        state.configurations.map((c) => [c.doc.name, c.id]),
+      ),
+    };
+
+    const applied: ConfigApplyResult["applied"] = [];
+    let current: PlannedOperation | undefined;
+    try {
+      // Systems first, so dependencies can point to systems created later
+      const systemUpserts = operations.filter((op) => isSystemUpsert(op));
+      for (const operation of systemUpserts) {
+        current = operation;
+        await this.execute(operation, context);
+        applied.push(toConfigChange(operation));
+      }
+      for (const operation of systemUpserts) {
+        current = operation;
+        if (operation.kind === "system") {
+          await this.syncDependencies(operation, context);
+        }
+      }
+
+      for (const operation of operations.filter((op) => !isSystemUpsert(op))) {
+        current = operation;
+        await this.execute(operation, context);
+        applied.push(toConfigChange(operation));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        applied,
+        error: current
+          ? `Failed to ${current.action} ${current.kind} "${current.key}": ${message}`
+          : message,
+      };
+    }
+
+    return { applied };
+  }
+
+  private async execute(operation: PlannedOperation, context: ApplyContext) {
+    switch (operation.kind) {
+      case "system": {
+        return this.executeSystem(operation, context);
+      }
+      case "group": {
+        return this.executeGroup(operation, context);
+      }
+      case "healthCheckConfiguration": {
+        return this.executeConfiguration(operation, context);
+      }
+      case "healthCheckAssignment": {
+        return this.executeAssignment(operation, context);
+      }
+      case "maintenanceSeries": {
+        return this.executeSeries(operation, context);
+      }
+      case "integrationSubscription": {
+        return this.executeSubscription(operation, context);
+      }
+    }
+  }
+
+  private async executeSystem(
+    operation: Extract<PlannedOperation, { kind: "system" }>,
+    context: ApplyContext,
+  ) {
+    const { catalogClient } = this.deps;
+    const { current, desired } = operation;
+
+    if (!desired) {
+      if (current) await catalogClient.deleteSystem(current.id);
+      return;
+    }
+    if (current) {
+      await catalogClient.updateSystem({
+        id: current.id,
+        data: {
+          name: desired.name,
+          // eslint-disable-next-line unicorn/no-null -- null clears the field
+          description: desired.description ?? null,
+          // eslint-disable-next-line unicorn/no-null -- null clears the field
+          metadata: desired.metadata ?? null,
+        },
+      });
+      return;
+    }
+    const created = await catalogClient.createSystem({
+      name: desired.name,
+      description: desired.description,
+      metadata: desired.metadata,
+    });
+    context.systemIds.set(desired.name, created.id);
+  }
+
+  private async syncDependencies(
+    operation: Extract<PlannedOperation, { kind: "system" }>,
+    context: ApplyContext,
+  ) {
+    const { catalogClient } = this.deps;
+    const { current, desired } = operation;
+    if (!desired) return;
+
+    const systemId = lookup(context.systemIds, "system", desired.name);
+    const before = new Set(current?.doc.dependsOn);
+    const after = new Set(desired.dependsOn);
+
+    for (const name of after) {
+      if (before.has(name)) continue;
+      await catalogClient.addSystemDependency({
+        systemId,
+        dependsOnSystemId: lookup(context.systemIds, "system", name),
+      });
+    }
+    for (const name of before) {
+      if (after.has(name)) continue;
+      await catalogClient.removeSystemDependency({
+        systemId,
+        dependsOnSystemId: lookup(context.systemIds, "system", name),
+      });
+    }
+  }
+
+  private async executeGroup(
+    operation: Extract<PlannedOperation, { kind: "group" }>,
+    context: ApplyContext,
+  ) {
+    const { catalogClient } = this.deps;
+    const { current, desired } = operation;
+
+    if (!desired) {
+      if (current) await catalogClient.deleteGroup(current.id);
+      return;
+    }
+
+    let groupId: string;
+    if (current) {
+      groupId = current.id;
+      await catalogClient.updateGroup({
+        id: groupId,
+        data: {
+          name: desired.name,
+          // eslint-disable-next-line unicorn/no-null -- null clears the field
+          metadata: desired.metadata ?? null,
+        },
+      });
+    } else {
+      const created = await catalogClient.createGroup({
+        name: desired.name,
+        metadata: desired.metadata,
+      });
+      groupId = created.id;
+    }
+
+    const before = new Set(current?.doc.systems);
+    const after = new Set(desired.systems);
+    for (const name of after) {
+      if (before.has(name)) continue;
+      await catalogClient.addSystemToGroup({
+        groupId,
+        systemId: lookup(context.systemIds, "system", name),
+      });
+    }
+    for (const name of before) {
+      if (after.has(name)) continue;
+      await catalogClient.removeSystemFromGroup({
+        groupId,
+        systemId: lookup(context.systemIds, "system", name),
+      });
+    }
+  }
+
+  private async executeConfiguration(
+    operation: Extract<PlannedOperation, { kind: "healthCheckConfiguration" }>,
+    context: ApplyContext,
+  ) {
+    const { healthCheckClient } = this.deps;
+    const { current, desired } = operation;
+
+    if (!desired) {
+      if (current) await healthCheckClient.deleteConfiguration(current.id);
+      return;
+    }
+
+    const body = {
+      name: desired.name,
+      strategyId: desired.strategy,
+      config: desired.config,
+      intervalSeconds: desired.intervalSeconds,
+      collectors: desired.collectors ?? [],
+      regions: desired.regions ?? [],
+      // Null clears a schedule removed from the document
+      // eslint-disable-next-line unicorn/no-null
+      schedule: desired.schedule ?? null,
+    };
+    if (current) {
+      await healthCheckClient.updateConfiguration({ id: current.id, body });
+      return;
+    }
+    const created = await healthCheckClient.createConfiguration(body);
+    context.configurationIds.set(desired.name, created.id);
+  }
+
+  private async executeAssignment(
+    operation: Extract<PlannedOperation, { kind: "healthCheckAssignment" }>,
+    context: ApplyContext,
+  ) {
+    const { healthCheckClient } = this.deps;
+    const { current, desired } = operation;
+
+    if (!desired) {
+      if (current) {
+        await healthCheckClient.disassociateSystem({
+          systemId: current.id.systemId,
+          configId: current.id.configurationId,
+        });
+      }
+      return;
+    }
+
+    const systemId = lookup(context.systemIds, "system", desired.system);
+    const configurationId = lookup(
+      context.configurationIds,
+      "health check configuration",
+      desired.configuration,
+    );
+    await healthCheckClient.associateSystem({
+      systemId,
+      body: {
+        configurationId,
+        enabled: desired.enabled,
+        // Explicit defaults replace custom thresholds of the assignment
+        stateThresholds: desired.thresholds ?? DEFAULT_STATE_THRESHOLDS,
+      },
+    });
+    await healthCheckClient.updateRetentionConfig({
+      systemId,
+      configurationId,
+      // eslint-disable-next-line unicorn/no-null -- null restores the defaults
+      retentionConfig: desired.retention ?? null,
+    });
+  }
+
+  private async executeSeries(
+    operation: Extract<PlannedOperation, { kind: "maintenanceSeries" }>,
+    context: ApplyContext,
+  ) {
+    const { maintenanceClient } = this.deps;
+    const { current, desired } = operation;
+
+    if (!desired) {
+      if (current) await maintenanceClient.deleteSeries({ id: current.id });
+      return;
+    }
+
+    const { systems, ...series } = desired;
+    const systemIds = systems.map((name) =>
+      lookup(context.systemIds, "system", name),
+    );
+    if (current) {
+      await maintenanceClient.updateSeries({
+        ...series,
+        id: current.id,
+        // eslint-disable-next-line unicorn/no-null -- null clears the field
+        description: series.description ?? null,
+        systemIds,
+      });
+      return;
+    }
+    await maintenanceClient.createSeries({ ...series, systemIds });
+  }
+
+  private async executeSubscription(
+    operation: Extract<PlannedOperation, { kind: "integrationSubscription" }>,
+    context: ApplyContext,
+  ) {
+    const { integrationClient } = this.deps;
+    const { current, desired } = operation;
+
+    if (!desired) {
+      if (current) {
+        await integrationClient.deleteSubscription({ id: current.id });
+      }
+      return;
+    }
+
+    const systemFilter = desired.systems?.map((name) =>
+      lookup(context.systemIds, "system", name),
+    );
+    // The provider of a subscription cannot be changed, it is recreated
+    if (current && current.doc.provider !== desired.provider) {
+      await integrationClient.deleteSubscription({ id: current.id });
+    } else if (current) {
+      await integrationClient.updateSubscription({
+        id: current.id,
+        updates: {
+          name: desired.name,
+          description: desired.description ?? "",
+          providerConfig: desired.config,
+          eventId: desired.event,
+          systemFilter: systemFilter ?? [],
+          enabled: desired.enabled,
+        },
+      });
+      return;
+    }
+    const created = await integrationClient.createSubscription({
+      name: desired.name,
+      description: desired.description,
+      providerId: desired.provider,
+      providerConfig: desired.config,
+      eventId: desired.event,
+      systemFilter,
+    });
+    if (!desired.enabled) {
+      await integrationClient.toggleSubscription({
+        id: created.id,
+        enabled: false,
+      });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "bun:test";
+import {
+  mergeConfigDocuments,
+  parseConfigDocument,
+  serializeConfigDocument,
+} from "./document";
+
+describe("parseConfigDocument", () => {
+  it("parses YAML and applies defaults", () => {
+    const document = parseConfigDocument(`
+version: 1
+catalog:
+  groups:
+    - name: Production
+healthcheck:
+  assignments:
+    - system: API
+      configuration: API HTTP
+`);
+
+    expect(document.catalog?.groups).toEqual([
+      { name: "Production", systems: [] },
+    ]);
+    expect(document.catalog?.systems).toBeUndefined();
+    expect(document.healthcheck?.assignments?.[0].enabled).toBe(true);
+  });
+
+  it("parses JSON", () => {
+    const document = parseConfigDocument(
+      JSON.stringify({ version: 1, catalog: { systems: [{ name: "API" }] } }),
+    );
+
+    expect(document.catalog?.systems).toEqual([{ name: "API" }]);
+  });
+
+  it("reports the path of invalid fields", () => {
+    expect(() =>
+      parseConfigDocument("version: 1\ncatalog:\n  systems:\n    - name: ''\n"),
+    ).toThrow("catalog.systems.0.name");
+  });
+
+  it("rejects unknown versions", () => {
+    expect(() => parseConfigDocument("version: 2\n")).toThrow("version");
+  });
+
+  it("round-trips through YAML", () => {
+    const document = parseConfigDocument(`
+version: 1
+integration:
+  subscriptions:
+    - name: "Ops: Webhook"
+      provider: integration-webhook.webhook
+      event: healthcheck.system.degraded
+      config:
+        url: https://example.com/hook
+        token:
+          $secret: CHECKSTACK_SECRET_INTEGRATION_OPS_WEBHOOK_TOKEN
+`);
+
+    expect(
+      parseConfigDocument(serializeConfigDocument(document, "yaml")),
+    ).toEqual(document);
+  });
+});
+
+describe("mergeConfigDocuments", () => {
+  it("concatenates lists and keeps lists that only one file manages", () => {
+    const merged = mergeConfigDocuments([
+      {
+        version: 1,
+        catalog: { systems: [{ name: "API" }] },
+      },
+      {
+        version: 1,
+        catalog: {
+          systems: [{ name: "Database" }],
+          groups: [{ name: "Production", systems: ["API"] }],
+        },
+        maintenance: { series: [] },
+      },
+    ]);
+
+    expect(merged.catalog?.systems?.map((s) => s.name)).toEqual([
+      "API",
+      "Database",
+    ]);
+    expect(merged.catalog?.groups).toHaveLength(1);
+    expect(merged.maintenance?.series).toEqual([]);
+    expect(merged.healthcheck).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  CONFIG_DOCUMENT_VERSION,
+  ConfigDocumentSchema,
+  type ConfigDocument,
+  type ConfigFormat,
+} from "@checkstack/gitops-common";
+
+/**
+ * Parse and validate a YAML or JSON configuration document.
+ * JSON is valid YAML, so both go through the YAML parser.
+ */
+export function parseConfigDocument(content: string): ConfigDocument {
+  let raw: unknown;
+  try {
+    raw = Bun.YAML.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid configuration document: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = ConfigDocumentSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid configuration document: ${issues}`);
+  }
+  return result.data;
+}
+
+export function serializeConfigDocument(
+  document: ConfigDocument,
+  format: ConfigFormat,
+): string {
+  return format === "json"
+    ? `${JSON.stringify(document, undefined, 2)}\n`
+    : Bun.YAML.stringify(document, undefined, 2);
+}
+
+function concatLists<T>(
+  a: T[] | undefined,
+  b: T[] | undefined,
+): T[] | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return [...a, ...b];
+}
+
+/**
+ * Combine the documents of several files into one.
+ * A list is managed if any of the files contains it.
+ */
+export function mergeConfigDocuments(
+  documents: ConfigDocument[],
+): ConfigDocument {
+  const merged: ConfigDocument = { version: CONFIG_DOCUMENT_VERSION };
+
+  for (const document of documents) {
+    if (document.catalog) {
+      merged.catalog = {
+        systems: concatLists(merged.catalog?.systems, document.catalog.systems),
+        groups: concatLists(merged.catalog?.groups, document.catalog.groups),
+      };
+    }
+    if (document.healthcheck) {
+      merged.healthcheck = {
+        configurations: concatLists(
+          merged.healthcheck?.configurations,
+          document.healthcheck.configurations,
+        ),
+        assignments: concatLists(
+          merged.healthcheck?.assignments,
+          document.healthcheck.assignments,
+        ),
+      };
+    }
+    if (document.maintenance) {
+      merged.maintenance = {
+        series: concatLists(
+          merged.maintenance?.series,
+          document.maintenance.series,
+        ),
+      };
+    }
+    if (document.integration) {
+      merged.integration = {
+        subscriptions: concatLists(
+          merged.integration?.subscriptions,
+          document.integration.subscriptions,
+        ),
+      };
+    }
+  }
+
+  return merged;
+}
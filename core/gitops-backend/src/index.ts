@@ -0,0 +1,75 @@
+import {
+  createBackendPlugin,
+  coreServices,
+  type Logger,
+  type RpcClient,
+  type SafeDatabase,
+} from "@checkstack/backend-api";
+import {
+  gitopsAccessRules,
+  gitopsContract,
+  pluginMetadata,
+} from "@checkstack/gitops-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
+import { IntegrationApi } from "@checkstack/integration-common";
+import { MaintenanceApi } from "@checkstack/maintenance-common";
+import * as schema from "./schema";
+import { ConfigManager } from "./config-manager";
+import { SyncRunService } from "./service";
+import { createRouter } from "./router";
+import { getSyncSettings, setupConfigSyncJob, type SyncDeps } from "./sync";
+
+const createSyncDeps = (
+  database: SafeDatabase<typeof schema>,
+  rpcClient: RpcClient,
+  logger: Logger,
+): SyncDeps => ({
+  configManager: new ConfigManager({
+    catalogClient: rpcClient.forPlugin(CatalogApi),
+    healthCheckClient: rpcClient.forPlugin(HealthCheckApi),
+    maintenanceClient: rpcClient.forPlugin(MaintenanceApi),
+    integrationClient: rpcClient.forPlugin(IntegrationApi),
+  }),
+  syncRunService: new SyncRunService(database),
+  settings: getSyncSettings(),
+  logger,
+});
+
+export default createBackendPlugin({
+  metadata: pluginMetadata,
+  register(env) {
+    env.registerAccessRules(gitopsAccessRules);
+
+    env.registerInit({
+      schema,
+      deps: {
+        logger: coreServices.logger,
+        rpc: coreServices.rpc,
+        rpcClient: coreServices.rpcClient,
+        queueManager: coreServices.queueManager,
+      },
+      init: async ({ database, logger, rpc, rpcClient }) => {
+        logger.debug("🗂️ Initializing GitOps Backend...");
+
+        rpc.registerRouter(
+          createRouter(createSyncDeps(database, rpcClient, logger)),
+          gitopsContract,
+        );
+
+        logger.debug("✅ GitOps Backend initialized.");
+      },
+      afterPluginsReady: async ({
+        database,
+        logger,
+        rpcClient,
+        queueManager,
+      }) => {
+        await setupConfigSyncJob({
+          ...createSyncDeps(database, rpcClient, logger),
+          queueManager,
+        });
+      },
+    });
+  },
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "bun:test";
+import { DEFAULT_STATE_THRESHOLDS } from "@checkstack/healthcheck-common";
+import type { ConfigDocument } from "@checkstack/gitops-common";
+import { reconcile, toConfigPlan, type CurrentState } from "./reconcile";
+
+const emptyState = (): CurrentState => ({
+  systems: [],
+  groups: [],
+  configurations: [],
+  assignments: [],
+  series: [],
+  subscriptions: [],
+});
+
+const httpCheck = {
+  name: "API HTTP",
+  strategy: "healthcheck-http.http",
+  intervalSeconds: 60,
+  config: { url: "https://api.example.com" },
+};
+
+describe("reconcile", () => {
+  it("creates, updates and deletes entities of managed lists", () => {
+    const state = emptyState();
+    state.systems = [
+      { id: "s1", doc: { name: "API", description: "Old" } },
+      { id: "s2", doc: { name: "Legacy" } },
+    ];
+
+    const plan = toConfigPlan(
+      reconcile(state, {
+        version: 1,
+        catalog: {
+          systems: [
+            { name: "API", description: "Public API" },
+            { name: "Database" },
+          ],
+        },
+      }),
+    );
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.changes).toEqual([
+      { kind: "system", action: "update", key: "API", fields: ["description"] },
+      { kind: "system", action: "create", key: "Database" },
+      { kind: "system", action: "delete", key: "Legacy" },
+    ]);
+  });
+
+  it("leaves lists that are not in the document alone", () => {
+    const state = emptyState();
+    state.systems = [{ id: "s1", doc: { name: "API" } }];
+    state.groups = [{ id: "g1", doc: { name: "Production", systems: [] } }];
+
+    const plan = reconcile(state, {
+      version: 1,
+      catalog: { groups: [{ name: "Production", systems: [] }] },
+    });
+
+    expect(plan.operations).toEqual([]);
+  });
+
+  it("treats equivalent values as unchanged", () => {
+    const state = emptyState();
+    state.systems = [
+      { id: "s1", doc: { name: "API", metadata: {}, dependsOn: ["B", "A"] } },
+      { id: "s2", doc: { name: "A", dependsOn: [] } },
+      { id: "s3", doc: { name: "B" } },
+    ];
+    state.configurations = [
+      { id: "c1", doc: { ...httpCheck, collectors: [], regions: [] } },
+    ];
+    state.assignments = [
+      {
+        id: { systemId: "s1", configurationId: "c1" },
+        doc: {
+          system: "API",
+          configuration: "API HTTP",
+          enabled: true,
+          thresholds: DEFAULT_STATE_THRESHOLDS,
+        },
+      },
+    ];
+
+    const plan = reconcile(state, {
+      version: 1,
+      catalog: {
+        systems: [
+          { name: "API", dependsOn: ["A", "B"] },
+          { name: "A" },
+          { name: "B" },
+        ],
+      },
+      healthcheck: {
+        configurations: [httpCheck],
+        assignments: [
+          { system: "API", configuration: "API HTTP", enabled: true },
+        ],
+      },
+    });
+
+    expect(plan.operations).toEqual([]);
+  });
+
+  it("creates before deleting, deleting dependents first", () => {
+    const state = emptyState();
+    state.systems = [{ id: "s1", doc: { name: "Old" } }];
+    state.configurations = [{ id: "c1", doc: httpCheck }];
+    state.assignments = [
+      {
+        id: { systemId: "s1", configurationId: "c1" },
+        doc: { system: "Old", configuration: "API HTTP", enabled: true },
+      },
+    ];
+
+    const plan = toConfigPlan(
+      reconcile(state, {
+        version: 1,
+        catalog: { systems: [{ name: "New" }] },
+        healthcheck: {
+          configurations: [httpCheck],
+          assignments: [
+            { system: "New", configuration: "API HTTP", enabled: true },
+          ],
+        },
+      }),
+    );
+
+    expect(plan.changes.map((c) => `${c.action} ${c.key}`)).toEqual([
+      "create New",
+      "create New / API HTTP",
+      "delete Old / API HTTP",
+      "delete Old",
+    ]);
+  });
+
+  it("reports unknown references against the desired names", () => {
+    const state = emptyState();
+    state.systems = [{ id: "s1", doc: { name: "Legacy" } }];
+
+    const document: ConfigDocument = {
+      version: 1,
+      catalog: {
+        systems: [{ name: "API" }],
+        groups: [{ name: "Production", systems: ["API", "Legacy"] }],
+      },
+      healthcheck: {
+        assignments: [
+          { system: "API", configuration: "Missing", enabled: true },
+        ],
+      },
+    };
+
+    expect(reconcile(state, document).errors).toEqual([
+      'Group "Production" references unknown system "Legacy"',
+      'Assignment "API / Missing" references unknown health check configuration "Missing"',
+    ]);
+  });
+
+  it("reports duplicate names", () => {
+    const state = emptyState();
+    state.groups = [
+      { id: "g1", doc: { name: "Production", systems: [] } },
+      { id: "g2", doc: { name: "Production", systems: [] } },
+    ];
+
+    const { errors } = reconcile(state, {
+      version: 1,
+      catalog: { systems: [{ name: "API" }, { name: "API" }], groups: [] },
+    });
+
+    expect(errors).toEqual([
+      'The document contains several systems "API"',
+      'Several existing groups are named "Production", rename them before applying',
+    ]);
+  });
+});
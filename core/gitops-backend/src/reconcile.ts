@@ -0,0 +1,399 @@
+import {
+  DEFAULT_RETENTION_CONFIG,
+  DEFAULT_STATE_THRESHOLDS,
+} from "@checkstack/healthcheck-common";
+import type {
+  ConfigChange,
+  ConfigChangeAction,
+  ConfigDocument,
+  ConfigPlan,
+  GroupDocument,
+  HealthCheckAssignmentDocument,
+  HealthCheckConfigurationDocument,
+  IntegrationSubscriptionDocument,
+  MaintenanceSeriesDocument,
+  SystemDocument,
+} from "@checkstack/gitops-common";
+
+/**
+ * An existing entity in its document form, with the ID it has on this
+ * instance.
+ */
+export interface CurrentEntity<T, Id = string> {
+  id: Id;
+  doc: T;
+}
+
+export interface AssignmentId {
+  systemId: string;
+  configurationId: string;
+}
+
+/**
+ * Current configuration of the instance, collected from the plugins.
+ * Secrets are contained as plain values.
+ */
+export interface CurrentState {
+  systems: CurrentEntity<SystemDocument>[];
+  groups: CurrentEntity<GroupDocument>[];
+  configurations: CurrentEntity<HealthCheckConfigurationDocument>[];
+  assignments: CurrentEntity<HealthCheckAssignmentDocument, AssignmentId>[];
+  series: CurrentEntity<MaintenanceSeriesDocument>[];
+  subscriptions: CurrentEntity<IntegrationSubscriptionDocument>[];
+}
+
+interface Operation<K extends ConfigChange["kind"], T, Id = string> {
+  kind: K;
+  action: ConfigChangeAction;
+  key: string;
+  fields?: string[];
+  current?: CurrentEntity<T, Id>;
+  desired?: T;
+}
+
+export type PlannedOperation =
+  | Operation<"system", SystemDocument>
+  | Operation<"group", GroupDocument>
+  | Operation<"healthCheckConfiguration", HealthCheckConfigurationDocument>
+  | Operation<
+      "healthCheckAssignment",
+      HealthCheckAssignmentDocument,
+      AssignmentId
+    >
+  | Operation<"maintenanceSeries", MaintenanceSeriesDocument>
+  | Operation<"integrationSubscription", IntegrationSubscriptionDocument>;
+
+export interface ReconcilePlan {
+  /** Creates and updates first, then deletes in reverse dependency order */
+  operations: PlannedOperation[];
+  errors: string[];
+}
+
+export function getAssignmentKey(doc: {
+  system: string;
+  configuration: string;
+}): string {
+  return `${doc.system} / ${doc.configuration}`;
+}
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map((item) => sortKeys(item));
+  if (typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .toSorted()
+        .map((key) => [key, sortKeys(record[key])]),
+    );
+  }
+  return value;
+}
+
+/** JSON with sorted keys, so equal documents have equal strings */
+function canonical(value: unknown): string {
+  return JSON.stringify(sortKeys(value)) ?? "undefined";
+}
+
+function emptyToUndefined<T>(value: T[] | undefined): T[] | undefined {
+  return value && value.length > 0 ? value : undefined;
+}
+
+function sortedNames(names: string[] | undefined): string[] | undefined {
+  return emptyToUndefined(names)?.toSorted();
+}
+
+function emptyRecordToUndefined(
+  value: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  return value && Object.keys(value).length > 0 ? value : undefined;
+}
+
+// Values the plugins treat the same, e.g. an empty and a missing description
+const normalizers = {
+  system: (doc: SystemDocument) => ({
+    ...doc,
+    description: doc.description || undefined,
+    metadata: emptyRecordToUndefined(doc.metadata),
+    dependsOn: sortedNames(doc.dependsOn),
+  }),
+  group: (doc: GroupDocument) => ({
+    ...doc,
+    metadata: emptyRecordToUndefined(doc.metadata),
+    systems: sortedNames(doc.systems),
+  }),
+  healthCheckConfiguration: (doc: HealthCheckConfigurationDocument) => ({
+    ...doc,
+    collectors: emptyToUndefined(doc.collectors),
+    regions: emptyToUndefined(doc.regions),
+  }),
+  healthCheckAssignment: (doc: HealthCheckAssignmentDocument) => ({
+    ...doc,
+    thresholds: doc.thresholds ?? DEFAULT_STATE_THRESHOLDS,
+    retention: doc.retention ?? DEFAULT_RETENTION_CONFIG,
+  }),
+  maintenanceSeries: (doc: MaintenanceSeriesDocument) => ({
+    ...doc,
+    description: doc.description || undefined,
+    exceptions: doc.exceptions.toSorted(),
+    systems: doc.systems.toSorted(),
+  }),
+  integrationSubscription: (doc: IntegrationSubscriptionDocument) => ({
+    ...doc,
+    description: doc.description || undefined,
+    systems: sortedNames(doc.systems),
+  }),
+};
+
+/** Top-level fields whose normalized values differ */
+function getChangedFields(
+  current: Record<string, unknown>,
+  desired: Record<string, unknown>,
+): string[] {
+  const keys = new Set([...Object.keys(current), ...Object.keys(desired)]);
+  return [...keys].filter(
+    (key) => canonical(current[key]) !== canonical(desired[key]),
+  );
+}
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+function findDuplicates(keys: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const key of keys) {
+    if (seen.has(key)) duplicates.add(key);
+    seen.add(key);
+  }
+  return [...duplicates];
+}
+
+/**
+ * Match current and desired entities by key.
+ * Without a desired list the kind is not managed and nothing changes.
+ */
+function planKind<K extends keyof typeof normalizers, T, Id>(props: {
+  kind: K;
+  label: string;
+  current: CurrentEntity<T, Id>[];
+  desired: T[] | undefined;
+  getKey: (doc: T) => string;
+  normalize: (doc: T) => Record<string, unknown>;
+  errors: string[];
+}): Operation<K, T, Id>[] {
+  const { kind, label, current, desired, getKey, normalize, errors } = props;
+  if (!desired) return [];
+
+  for (const key of findDuplicates(desired.map((doc) => getKey(doc)))) {
+    errors.push(`The document contains several ${label} "${key}"`);
+  }
+  const ambiguous = new Set(
+    findDuplicates(current.map((entity) => getKey(entity.doc))),
+  );
+  for (const key of ambiguous) {
+    errors.push(
+      `Several existing ${label} are named "${key}", rename them before applying`,
+    );
+  }
+
+  const currentByKey = new Map(
+    current.map((entity) => [getKey(entity.doc), entity]),
+  );
+  const desiredKeys = new Set(desired.map((doc) => getKey(doc)));
+
+  const operations: Operation<K, T, Id>[] = [];
+  for (const doc of desired) {
+    const key = getKey(doc);
+    const existing = currentByKey.get(key);
+    if (!existing) {
+      operations.push({ kind, action: "create", key, desired: doc });
+      continue;
+    }
+    const fields = getChangedFields(normalize(existing.doc), normalize(doc));
+    if (fields.length > 0) {
+      operations.push({
+        kind,
+        action: "update",
+        key,
+        fields,
+        current: existing,
+        desired: doc,
+      });
+    }
+  }
+  for (const entity of current) {
+    const key = getKey(entity.doc);
+    if (!desiredKeys.has(key)) {
+      operations.push({ kind, action: "delete", key, current: entity });
+    }
+  }
+  return operations;
+}
+
+/** Report references to names that will not exist after applying */
+function checkReferences(props: {
+  label: string;
+  available: Set<string>;
+  references: Array<{ owner: string; names: string[] | undefined }>;
+  errors: string[];
+}) {
+  const { label, available, references, errors } = props;
+  for (const { owner, names } of references) {
+    for (const name of names ?? []) {
+      if (!available.has(name)) {
+        errors.push(`${owner} references unknown ${label} "${name}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Compute the operations that reconcile the current state with a document.
+ */
+export function reconcile(
+  current: CurrentState,
+  desired: ConfigDocument,
+): ReconcilePlan {
+  const errors: string[] = [];
+
+  const systems = planKind({
+    kind: "system",
+    label: "systems",
+    current: current.systems,
+    desired: desired.catalog?.systems,
+    getKey: (doc) => doc.name,
+    normalize: normalizers.system,
+    errors,
+  });
+  const groups = planKind({
+    kind: "group",
+    label: "groups",
+    current: current.groups,
+    desired: desired.catalog?.groups,
+    getKey: (doc) => doc.name,
+    normalize: normalizers.group,
+    errors,
+  });
+  const configurations = planKind({
+    kind: "healthCheckConfiguration",
+    label: "health check configurations",
+    current: current.configurations,
+    desired: desired.healthcheck?.configurations,
+    getKey: (doc) => doc.name,
+    normalize: normalizers.healthCheckConfiguration,
+    errors,
+  });
+  const assignments = planKind({
+    kind: "healthCheckAssignment",
+    label: "health check assignments",
+    current: current.assignments,
+    desired: desired.healthcheck?.assignments,
+    getKey: getAssignmentKey,
+    normalize: normalizers.healthCheckAssignment,
+    errors,
+  });
+  const series = planKind({
+    kind: "maintenanceSeries",
+    label: "maintenance series",
+    current: current.series,
+    desired: desired.maintenance?.series,
+    getKey: (doc) => doc.title,
+    normalize: normalizers.maintenanceSeries,
+    errors,
+  });
+  const subscriptions = planKind({
+    kind: "integrationSubscription",
+    label: "integration subscriptions",
+    current: current.subscriptions,
+    desired: desired.integration?.subscriptions,
+    getKey: (doc) => doc.name,
+    normalize: normalizers.integrationSubscription,
+    errors,
+  });
+
+  // Names that exist once the document is applied
+  const systemNames = new Set(
+    (desired.catalog?.systems ?? current.systems.map((s) => s.doc)).map(
+      (doc) => doc.name,
+    ),
+  );
+  const configurationNames = new Set(
+    (
+      desired.healthcheck?.configurations ??
+      current.configurations.map((c) => c.doc)
+    ).map((doc) => doc.name),
+  );
+
+  checkReferences({
+    label: "system",
+    available: systemNames,
+    references: [
+      ...(desired.catalog?.systems ?? []).map((doc) => ({
+        owner: `System "${doc.name}"`,
+        names: doc.dependsOn,
+      })),
+      ...(desired.catalog?.groups ?? []).map((doc) => ({
+        owner: `Group "${doc.name}"`,
+        names: doc.systems,
+      })),
+      ...(desired.healthcheck?.assignments ?? []).map((doc) => ({
+        owner: `Assignment "${getAssignmentKey(doc)}"`,
+        names: [doc.system],
+      })),
+      ...(desired.maintenance?.series ?? []).map((doc) => ({
+        owner: `Maintenance series "${doc.title}"`,
+        names: doc.systems,
+      })),
+      ...(desired.integration?.subscriptions ?? []).map((doc) => ({
+        owner: `Subscription "${doc.name}"`,
+        names: doc.systems,
+      })),
+    ],
+    errors,
+  });
+  checkReferences({
+    label: "health check configuration",
+    available: configurationNames,
+    references: (desired.healthcheck?.assignments ?? []).map((doc) => ({
+      owner: `Assignment "${getAssignmentKey(doc)}"`,
+      names: [doc.configuration],
+    })),
+    errors,
+  });
+
+  const ordered: PlannedOperation[] = [
+    ...systems,
+    ...groups,
+    ...configurations,
+    ...assignments,
+    ...series,
+    ...subscriptions,
+  ];
+
+  return {
+    operations: [
+      ...ordered.filter((operation) => operation.action !== "delete"),
+      ...ordered
+        .toReversed()
+        .filter((operation) => operation.action === "delete"),
+    ],
+    errors,
+  };
+}
+
+export function toConfigChange(operation: PlannedOperation): ConfigChange {
+  const { kind, action, key, fields } = operation;
+  return fields ? { kind, action, key, fields } : { kind, action, key };
+}
+
+export function toConfigPlan(plan: ReconcilePlan): ConfigPlan {
+  return {
+    changes: plan.operations.map((operation) => toConfigChange(operation)),
+    errors: plan.errors,
+  };
+}
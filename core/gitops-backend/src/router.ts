@@ -0,0 +1,64 @@
+import { implement, ORPCError } from "@orpc/server";
+import { gitopsContract, type ConfigDocument } from "@checkstack/gitops-common";
+import { autoAuthMiddleware, type RpcContext } from "@checkstack/backend-api";
+import { parseConfigDocument, serializeConfigDocument } from "./document";
+import { runConfigSync, type SyncDeps } from "./sync";
+
+function parseContent(content: string): ConfigDocument {
+  try {
+    return parseConfigDocument(content);
+  } catch (error) {
+    throw new ORPCError("BAD_REQUEST", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export function createRouter(deps: SyncDeps) {
+  const { configManager, syncRunService, settings } = deps;
+
+  const os = implement(gitopsContract)
+    .$context<RpcContext>()
+    .use(autoAuthMiddleware);
+
+  return os.router({
+    // =========================================================================
+    // IMPORT & EXPORT
+    // =========================================================================
+
+    exportConfig: os.exportConfig.handler(async ({ input }) => {
+      const document = await configManager.exportDocument();
+      return { content: serializeConfigDocument(document, input.format) };
+    }),
+
+    planConfig: os.planConfig.handler(async ({ input }) => {
+      return configManager.plan(parseContent(input.content));
+    }),
+
+    applyConfig: os.applyConfig.handler(async ({ input }) => {
+      return configManager.apply(parseContent(input.content));
+    }),
+
+    // =========================================================================
+    // DIRECTORY SYNC
+    // =========================================================================
+
+    getSyncInfo: os.getSyncInfo.handler(async () => {
+      return {
+        enabled: !!settings.directory,
+        directory: settings.directory,
+        intervalSeconds: settings.intervalSeconds,
+        runs: await syncRunService.listRuns(),
+      };
+    }),
+
+    runSync: os.runSync.handler(async () => {
+      if (!settings.directory) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "No sync directory configured (CHECKSTACK_CONFIG_DIR)",
+        });
+      }
+      return runConfigSync(deps);
+    }),
+  });
+}
@@ -0,0 +1,24 @@
+import { pgTable, pgEnum, text, timestamp, jsonb } from "drizzle-orm/pg-core";
+import type { ConfigChange } from "@checkstack/gitops-common";
+
+/**
+ * Sync run status enum
+ */
+export const syncStatusEnum = pgEnum("sync_status", [
+  "applied",
+  "unchanged",
+  "failed",
+]);
+
+/**
+ * Runs of the directory sync, only the most recent ones are kept
+ */
+export const syncRuns = pgTable("sync_runs", {
+  id: text("id").primaryKey(),
+  status: syncStatusEnum("status").notNull(),
+  files: jsonb("files").notNull().$type<string[]>(),
+  changes: jsonb("changes").notNull().$type<ConfigChange[]>(),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").notNull(),
+});
@@ -0,0 +1,267 @@
+import { describe, expect, it } from "bun:test";
+import type { ConfigDocument } from "@checkstack/gitops-common";
+import {
+  replaceSecrets,
+  resolveSecrets,
+  toSecretName,
+  type ConfigSchemas,
+} from "./secrets";
+
+const schema = {
+  type: "object",
+  properties: {
+    host: { type: "string" },
+    password: { type: "string", "x-secret": true },
+    auth: {
+      type: "object",
+      properties: { token: { type: "string", "x-secret": true } },
+    },
+    headers: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          value: { type: "string", "x-secret": true },
+        },
+      },
+    },
+  },
+};
+
+describe("toSecretName", () => {
+  it("builds environment variable names", () => {
+    expect(toSecretName("healthcheck", "API (HTTP)", "password")).toBe(
+      "HEALTHCHECK_API_HTTP_PASSWORD",
+    );
+  });
+});
+
+describe("replaceSecrets", () => {
+  it("replaces secret fields, including nested ones", () => {
+    const result = replaceSecrets(
+      {
+        host: "db",
+        password: "hunter2",
+        auth: { token: "abc" },
+        headers: [{ name: "X-Key", value: "xyz" }],
+      },
+      schema,
+      "HEALTHCHECK_DB",
+    );
+
+    expect(result).toEqual({
+      host: "db",
+      password: { $secret: "CHECKSTACK_SECRET_HEALTHCHECK_DB_PASSWORD" },
+      auth: {
+        token: { $secret: "CHECKSTACK_SECRET_HEALTHCHECK_DB_AUTH_TOKEN" },
+      },
+      headers: [
+        {
+          name: "X-Key",
+          value: {
+            $secret: "CHECKSTACK_SECRET_HEALTHCHECK_DB_HEADERS_0_VALUE",
+          },
+        },
+      ],
+    });
+  });
+
+  it("keeps empty secrets", () => {
+    expect(replaceSecrets({ password: "" }, schema, "X")).toEqual({
+      password: "",
+    });
+  });
+
+  it("finds secrets in union variants", () => {
+    const union = {
+      anyOf: [
+        { type: "object", properties: { key: { "x-secret": true } } },
+        { type: "object", properties: { user: { type: "string" } } },
+      ],
+    };
+
+    expect(replaceSecrets({ key: "k", user: "u" }, union, "X")).toEqual({
+      key: { $secret: "CHECKSTACK_SECRET_X_KEY" },
+      user: "u",
+    });
+  });
+});
+
+describe("resolveSecrets", () => {
+  const schemas: ConfigSchemas = {
+    strategies: new Map([["healthcheck-postgres.postgres", schema]]),
+    collectors: new Map(),
+    providers: new Map([
+      [
+        "integration-webhook.webhook",
+        {
+          type: "object",
+          properties: {
+            url: { type: "string" },
+            authHeaderValue: { type: "string", "x-secret": true },
+          },
+        },
+      ],
+    ]),
+  };
+
+  const createDocument = (
+    config: Record<string, unknown>,
+    metadata?: Record<string, unknown>,
+  ): ConfigDocument => ({
+    version: 1,
+    catalog: { systems: [{ name: "DB", metadata }] },
+    healthcheck: {
+      configurations: [
+        {
+          name: "DB",
+          strategy: "healthcheck-postgres.postgres",
+          intervalSeconds: 60,
+          config,
+        },
+      ],
+    },
+  });
+
+  it("resolves references at secret fields from the environment", () => {
+    const { document, errors } = resolveSecrets(
+      createDocument({
+        host: "db",
+        password: { $secret: "CHECKSTACK_SECRET_DB_PASSWORD" },
+        headers: [
+          { name: "X-Key", value: { $secret: "CHECKSTACK_SECRET_DB_KEY" } },
+        ],
+      }),
+      schemas,
+      {
+        CHECKSTACK_SECRET_DB_PASSWORD: "hunter2",
+        CHECKSTACK_SECRET_DB_KEY: "xyz",
+      },
+    );
+
+    expect(errors).toEqual([]);
+    expect(document.healthcheck?.configurations?.[0].config).toEqual({
+      host: "db",
+      password: "hunter2",
+      headers: [{ name: "X-Key", value: "xyz" }],
+    });
+  });
+
+  it("resolves references in provider configs", () => {
+    const { document, errors } = resolveSecrets(
+      {
+        version: 1,
+        integration: {
+          subscriptions: [
+            {
+              name: "Ops",
+              provider: "integration-webhook.webhook",
+              event: "incident.created",
+              enabled: true,
+              config: {
+                url: "https://ops.example.com",
+                authHeaderValue: { $secret: "CHECKSTACK_SECRET_OPS_TOKEN" },
+              },
+            },
+          ],
+        },
+      },
+      schemas,
+      { CHECKSTACK_SECRET_OPS_TOKEN: "abc" },
+    );
+
+    expect(errors).toEqual([]);
+    expect(document.integration?.subscriptions?.[0].config).toEqual({
+      url: "https://ops.example.com",
+      authHeaderValue: "abc",
+    });
+  });
+
+  it("rejects references outside of secret fields", () => {
+    const env = { CHECKSTACK_SECRET_DB: "postgres://u:p@db" };
+    const { document, errors } = resolveSecrets(
+      createDocument(
+        { host: { $secret: "CHECKSTACK_SECRET_DB" } },
+        { dsn: { $secret: "CHECKSTACK_SECRET_DB" } },
+      ),
+      schemas,
+      env,
+    );
+
+    expect(errors).toEqual([
+      'Secret "CHECKSTACK_SECRET_DB" at catalog.systems[0].metadata.dsn is not allowed, secrets can only be referenced in secret fields',
+      'Secret "CHECKSTACK_SECRET_DB" at healthcheck.configurations[0].config.host is not allowed, secrets can only be referenced in secret fields',
+    ]);
+    expect(document.catalog?.systems?.[0].metadata).toEqual({
+      dsn: { $secret: "CHECKSTACK_SECRET_DB" },
+    });
+  });
+
+  it("rejects secrets of unknown strategies", () => {
+    const { errors } = resolveSecrets(
+      {
+        version: 1,
+        healthcheck: {
+          configurations: [
+            {
+              name: "X",
+              strategy: "unknown.strategy",
+              intervalSeconds: 60,
+              config: { password: { $secret: "CHECKSTACK_SECRET_X" } },
+            },
+          ],
+        },
+      },
+      schemas,
+      { CHECKSTACK_SECRET_X: "x" },
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("is not allowed");
+  });
+
+  it("rejects variables without the secret prefix", () => {
+    const { document, errors } = resolveSecrets(
+      createDocument({ password: { $secret: "DATABASE_URL" } }),
+      schemas,
+      { DATABASE_URL: "postgres://u:p@db" },
+    );
+
+    expect(errors).toEqual([
+      'Secret "DATABASE_URL" at healthcheck.configurations[0].config.password must start with CHECKSTACK_SECRET_',
+    ]);
+    expect(document.healthcheck?.configurations?.[0].config).toEqual({
+      password: { $secret: "DATABASE_URL" },
+    });
+  });
+
+  it("reports missing variables once and leaves the reference", () => {
+    const reference = { $secret: "CHECKSTACK_SECRET_TOKEN" };
+    const { document, errors } = resolveSecrets(
+      createDocument({ password: reference, auth: { token: reference } }),
+      schemas,
+      {},
+    );
+
+    expect(errors).toEqual([
+      'Secret "CHECKSTACK_SECRET_TOKEN" is not set in the environment',
+    ]);
+    expect(document.healthcheck?.configurations?.[0].config).toEqual({
+      password: reference,
+      auth: { token: reference },
+    });
+  });
+
+  it("ignores objects with other keys", () => {
+    const config = { password: { $secret: "A", other: true } };
+
+    const { document, errors } = resolveSecrets(
+      createDocument(config),
+      schemas,
+      { A: "a" },
+    );
+    expect(errors).toEqual([]);
+    expect(document.healthcheck?.configurations?.[0].config).toEqual(config);
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  SecretReferenceSchema,
+  type ConfigDocument,
+  type SecretReference,
+} from "@checkstack/gitops-common";
+
+/** JSON Schema of a plugin configuration, with `x-secret` annotations */
+export type ConfigJsonSchema = Record<string, unknown>;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Secret references must name variables with this prefix, so a document can
+ * never read the backend's own settings such as `DATABASE_URL`.
+ */
+export const SECRET_NAME_PREFIX = "CHECKSTACK_SECRET_";
+
+/** Config schemas of the plugins, by fully-qualified ID */
+export interface ConfigSchemas {
+  strategies: Map<string, ConfigJsonSchema>;
+  collectors: Map<string, ConfigJsonSchema>;
+  providers: Map<string, ConfigJsonSchema>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Environment variable name for a secret, e.g.
+ * `HEALTHCHECK_API_HTTP_PASSWORD` for the password of the "API HTTP" check.
+ * References use it with `SECRET_NAME_PREFIX`.
+ */
+export function toSecretName(...parts: string[]): string {
+  return parts
+    .join("_")
+    .toUpperCase()
+    .replaceAll(/[^A-Z0-9]+/g, "_")
+    .replaceAll(/^_+|_+$/g, "");
+}
+
+/** Properties of an object schema, including all union variants */
+function getProperties(schema: ConfigJsonSchema): Record<string, unknown> {
+  const properties: Record<string, unknown> = isRecord(schema.properties)
+    ? { ...schema.properties }
+    : {};
+  for (const key of ["anyOf", "oneOf", "allOf"]) {
+    const variants = schema[key];
+    if (!Array.isArray(variants)) continue;
+    for (const variant of variants) {
+      if (isRecord(variant)) Object.assign(properties, getProperties(variant));
+    }
+  }
+  return properties;
+}
+
+/**
+ * Replace all non-empty secret values of a configuration with references.
+ * Secret fields are the ones annotated with `x-secret` in the schema.
+ */
+export function replaceSecrets(
+  value: Record<string, unknown>,
+  schema: ConfigJsonSchema | undefined,
+  prefix: string,
+): Record<string, unknown> {
+  if (!schema) return value;
+  const properties = getProperties(schema);
+
+  const result: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const fieldSchema = properties[key];
+    if (!isRecord(fieldSchema)) {
+      result[key] = fieldValue;
+      continue;
+    }
+
+    const name = toSecretName(prefix, key);
+    if (fieldSchema["x-secret"] === true) {
+      result[key] =
+        typeof fieldValue === "string" && fieldValue !== ""
+          ? ({
+              $secret: `${SECRET_NAME_PREFIX}${name}`,
+            } satisfies SecretReference)
+          : fieldValue;
+    } else if (isRecord(fieldValue)) {
+      result[key] = replaceSecrets(fieldValue, fieldSchema, name);
+    } else if (Array.isArray(fieldValue) && isRecord(fieldSchema.items)) {
+      const itemSchema = fieldSchema.items;
+      result[key] = fieldValue.map((item, index) =>
+        isRecord(item)
+          ? replaceSecrets(item, itemSchema, toSecretName(name, String(index)))
+          : item,
+      );
+    } else {
+      result[key] = fieldValue;
+    }
+  }
+  return result;
+}
+
+/**
+ * Schema of a document's plugin configs. The lists of configurations and
+ * subscriptions use `prefixItems`, as each entry has its own plugin schema.
+ */
+function toDocumentSchema(
+  document: ConfigDocument,
+  schemas: ConfigSchemas,
+): ConfigJsonSchema {
+  // Unknown plugins have no secret fields
+  const configSchema = (schema: ConfigJsonSchema | undefined) => ({
+    properties: { config: schema ?? {} },
+  });
+  return {
+    properties: {
+      healthcheck: {
+        properties: {
+          configurations: {
+            prefixItems: (document.healthcheck?.configurations ?? []).map(
+              (configuration) => ({
+                properties: {
+                  config: schemas.strategies.get(configuration.strategy) ?? {},
+                  collectors: {
+                    prefixItems: (configuration.collectors ?? []).map((entry) =>
+                      configSchema(schemas.collectors.get(entry.collectorId)),
+                    ),
+                  },
+                },
+              }),
+            ),
+          },
+        },
+      },
+      integration: {
+        properties: {
+          subscriptions: {
+            prefixItems: (document.integration?.subscriptions ?? []).map(
+              (subscription) =>
+                configSchema(schemas.providers.get(subscription.provider)),
+            ),
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Replace secret references with the values of their environment variables.
+ * References are only resolved at the `x-secret` fields of the strategy,
+ * collector and provider schemas, and only for variables starting with
+ * `SECRET_NAME_PREFIX`. All other references are reported and left in place,
+ * as are references to missing variables.
+ */
+export function resolveSecrets(
+  document: ConfigDocument,
+  schemas: ConfigSchemas,
+  env: Env,
+): { document: ConfigDocument; errors: string[] } {
+  const errors: string[] = [];
+
+  const resolve = (
+    current: unknown,
+    schema: ConfigJsonSchema | undefined,
+    path: string,
+  ): unknown => {
+    const reference = SecretReferenceSchema.strict().safeParse(current);
+    if (reference.success) {
+      const name = reference.data.$secret;
+      if (schema?.["x-secret"] !== true) {
+        errors.push(
+          `Secret "${name}" at ${path} is not allowed, secrets can only be referenced in secret fields`,
+        );
+        return current;
+      }
+      if (!name.startsWith(SECRET_NAME_PREFIX)) {
+        errors.push(
+          `Secret "${name}" at ${path} must start with ${SECRET_NAME_PREFIX}`,
+        );
+        return current;
+      }
+      const secret = env[name];
+      if (secret === undefined) {
+        errors.push(`Secret "${name}" is not set in the environment`);
+        return current;
+      }
+      return secret;
+    }
+    if (Array.isArray(current)) {
+      return current.map((item, index) => {
+        const itemSchema = Array.isArray(schema?.prefixItems)
+          ? schema.prefixItems[index]
+          : schema?.items;
+        return resolve(
+          item,
+          isRecord(itemSchema) ? itemSchema : undefined,
+          `${path}[${index}]`,
+        );
+      });
+    }
+    if (isRecord(current)) {
+      const properties = schema ? getProperties(schema) : {};
+      return Object.fromEntries(
+        Object.entries(current).map(([key, item]) => {
+          const fieldSchema = properties[key];
+          return [
+            key,
+            resolve(
+              item,
+              isRecord(fieldSchema) ? fieldSchema : undefined,
+              path ? `${path}.${key}` : key,
+            ),
+          ];
+        }),
+      );
+    }
+    return current;
+  };
+
+  return {
+    document: resolve(
+      document,
+      toDocumentSchema(document, schemas),
+      "",
+    ) as ConfigDocument,
+    errors: [...new Set(errors)],
+  };
+}
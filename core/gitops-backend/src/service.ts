@@ -0,0 +1,54 @@
+import { desc, inArray } from "drizzle-orm";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import type { ConfigSyncRun } from "@checkstack/gitops-common";
+import * as schema from "./schema";
+import { syncRuns } from "./schema";
+
+type Db = SafeDatabase<typeof schema>;
+
+/** Number of sync runs kept for the status page */
+export const SYNC_RUN_HISTORY = 20;
+
+const toSyncRun = (row: typeof syncRuns.$inferSelect): ConfigSyncRun => ({
+  ...row,
+  error: row.error ?? undefined,
+});
+
+export class SyncRunService {
+  constructor(private db: Db) {}
+
+  async listRuns(limit = SYNC_RUN_HISTORY): Promise<ConfigSyncRun[]> {
+    const rows = await this.db
+      .select()
+      .from(syncRuns)
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(limit);
+    return rows.map((row) => toSyncRun(row));
+  }
+
+  /**
+   * Store a run and drop runs beyond the history limit.
+   */
+  async recordRun(run: Omit<ConfigSyncRun, "id">): Promise<ConfigSyncRun> {
+    const [row] = await this.db
+      .insert(syncRuns)
+      .values({ ...run, id: crypto.randomUUID() })
+      .returning();
+
+    const expired = await this.db
+      .select({ id: syncRuns.id })
+      .from(syncRuns)
+      .orderBy(desc(syncRuns.startedAt))
+      .offset(SYNC_RUN_HISTORY);
+    if (expired.length > 0) {
+      await this.db.delete(syncRuns).where(
+        inArray(
+          syncRuns.id,
+          expired.map((r) => r.id),
+        ),
+      );
+    }
+
+    return toSyncRun(row);
+  }
+}
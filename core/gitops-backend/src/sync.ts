@@ -0,0 +1,174 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { Logger } from "@checkstack/backend-api";
+import type { QueueManager } from "@checkstack/queue-api";
+import type { ConfigDocument, ConfigSyncRun } from "@checkstack/gitops-common";
+import type { ConfigManager } from "./config-manager";
+import type { SyncRunService } from "./service";
+import { mergeConfigDocuments, parseConfigDocument } from "./document";
+
+const SYNC_QUEUE = "gitops-sync";
+const SYNC_JOB_ID = "gitops-directory-sync";
+const WORKER_GROUP = "gitops-sync-worker";
+
+const DEFAULT_SYNC_INTERVAL_SECONDS = 300;
+
+const DOCUMENT_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+
+export interface SyncSettings {
+  /** Directory the documents are read from, sync is disabled without */
+  directory?: string;
+  intervalSeconds: number;
+}
+
+export interface SyncDeps {
+  configManager: ConfigManager;
+  syncRunService: SyncRunService;
+  settings: SyncSettings;
+  logger: Logger;
+}
+
+export function getSyncSettings(
+  env: Record<string, string | undefined> = process.env,
+): SyncSettings {
+  const interval = Number(env.CHECKSTACK_CONFIG_SYNC_INTERVAL_SECONDS);
+  return {
+    directory: env.CHECKSTACK_CONFIG_DIR || undefined,
+    intervalSeconds:
+      Number.isInteger(interval) && interval > 0
+        ? interval
+        : DEFAULT_SYNC_INTERVAL_SECONDS,
+  };
+}
+
+/**
+ * Read all YAML and JSON documents of a directory and its subdirectories,
+ * merged into one document. Files are read in alphabetical order.
+ */
+export async function readConfigDirectory(
+  directory: string,
+): Promise<{ files: string[]; document: ConfigDocument }> {
+  const entries = await readdir(directory, {
+    recursive: true,
+    withFileTypes: true,
+  });
+  const files = entries
+    .filter(
+      (entry) =>
+        entry.isFile() &&
+        DOCUMENT_EXTENSIONS.has(path.extname(entry.name).toLowerCase()),
+    )
+    .map((entry) =>
+      path.relative(directory, path.join(entry.parentPath, entry.name)),
+    )
+    .toSorted();
+
+  const documents: ConfigDocument[] = [];
+  for (const file of files) {
+    const content = await readFile(path.join(directory, file), "utf8");
+    try {
+      documents.push(parseConfigDocument(content));
+    } catch (error) {
+      throw new Error(
+        `${file}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return { files, document: mergeConfigDocuments(documents) };
+}
+
+/**
+ * Reconcile the configuration with the sync directory and record the run.
+ */
+export async function runConfigSync(deps: SyncDeps): Promise<ConfigSyncRun> {
+  const { configManager, syncRunService, settings, logger } = deps;
+  const startedAt = new Date();
+
+  const record = (
+    run: Omit<ConfigSyncRun, "id" | "startedAt" | "finishedAt">,
+  ) => syncRunService.recordRun({ ...run, startedAt, finishedAt: new Date() });
+
+  if (!settings.directory) {
+    return record({
+      status: "failed",
+      files: [],
+      changes: [],
+      error: "No sync directory configured (CHECKSTACK_CONFIG_DIR)",
+    });
+  }
+
+  let files: string[] = [];
+  try {
+    const read = await readConfigDirectory(settings.directory);
+    files = read.files;
+
+    const plan = await configManager.plan(read.document);
+    if (plan.errors.length > 0) {
+      return record({
+        status: "failed",
+        files,
+        changes: [],
+        error: plan.errors.join("; "),
+      });
+    }
+    if (plan.changes.length === 0) {
+      return record({ status: "unchanged", files, changes: [] });
+    }
+
+    const result = await configManager.apply(read.document);
+    if (result.error) {
+      logger.warn(`Config sync failed: ${result.error}`);
+    } else {
+      logger.info(`Config sync applied ${result.applied.length} changes`);
+    }
+    return record({
+      status: result.error ? "failed" : "applied",
+      files,
+      changes: result.applied,
+      error: result.error,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Config sync failed: ${message}`);
+    return record({ status: "failed", files, changes: [], error: message });
+  }
+}
+
+/**
+ * Registers the recurring directory sync if a sync directory is configured.
+ */
+export async function setupConfigSyncJob(
+  deps: SyncDeps & { queueManager: QueueManager },
+): Promise<void> {
+  const { queueManager, settings, logger } = deps;
+
+  if (!settings.directory) {
+    logger.debug("Config sync disabled, CHECKSTACK_CONFIG_DIR is not set");
+    return;
+  }
+
+  const queue = queueManager.getQueue<Record<string, never>>(SYNC_QUEUE);
+
+  await queue.consume(
+    async () => {
+      await runConfigSync(deps);
+    },
+    {
+      consumerGroup: WORKER_GROUP,
+      maxRetries: 0, // The next run picks up anything missed
+    },
+  );
+
+  await queue.scheduleRecurring(
+    {},
+    {
+      jobId: SYNC_JOB_ID,
+      intervalSeconds: settings.intervalSeconds,
+    },
+  );
+
+  logger.debug(
+    `Config sync from ${settings.directory} registered (runs every ${settings.intervalSeconds}s)`,
+  );
+}
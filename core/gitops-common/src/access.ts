@@ -0,0 +1,28 @@
+import { accessPair } from "@checkstack/common";
+
+/**
+ * Access rules for the GitOps plugin.
+ */
+export const gitopsAccess = {
+  /**
+   * Declarative configuration documents. Reading exports the configuration
+   * of all covered plugins, managing applies documents to them.
+   */
+  config: accessPair("config", {
+    read: {
+      description: "Export the configuration and view the sync status",
+    },
+    manage: {
+      description:
+        "Apply configuration documents, replacing the configuration they cover",
+    },
+  }),
+};
+
+/**
+ * All access rules for registration with the plugin system.
+ */
+export const gitopsAccessRules = [
+  gitopsAccess.config.read,
+  gitopsAccess.config.manage,
+];
@@ -0,0 +1,5 @@
+export * from "./schemas";
+export * from "./access";
+export { gitopsContract, GitOpsApi, type GitOpsContract } from "./rpc-contract";
+export * from "./plugin-metadata";
+export { gitopsRoutes } from "./routes";
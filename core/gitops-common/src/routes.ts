@@ -0,0 +1,8 @@
+import { createRoutes } from "@checkstack/common";
+
+/**
+ * Route definitions for the GitOps plugin.
+ */
+export const gitopsRoutes = createRoutes("gitops", {
+  home: "/",
+});
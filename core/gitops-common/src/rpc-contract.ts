@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { createClientDefinition, proc } from "@checkstack/common";
+import { gitopsAccess } from "./access";
+import { pluginMetadata } from "./plugin-metadata";
+import {
+  ConfigApplyResultSchema,
+  ConfigFormatEnum,
+  ConfigPlanSchema,
+  ConfigSyncInfoSchema,
+  ConfigSyncRunSchema,
+} from "./schemas";
+
+/** A YAML or JSON configuration document */
+const ConfigContentInputSchema = z.object({
+  content: z.string().min(1),
+});
+
+export const gitopsContract = {
+  // ==========================================================================
+  // IMPORT & EXPORT
+  // ==========================================================================
+
+  /** Current configuration as a document, secrets replaced by references */
+  exportConfig: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [gitopsAccess.config.read],
+  })
+    .input(z.object({ format: ConfigFormatEnum.default("yaml") }))
+    .output(z.object({ content: z.string() })),
+
+  /** Dry run: changes applying the document would make */
+  planConfig: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [gitopsAccess.config.manage],
+  })
+    .input(ConfigContentInputSchema)
+    .output(ConfigPlanSchema),
+
+  /** Reconcile the configuration with the document */
+  applyConfig: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [gitopsAccess.config.manage],
+  })
+    .input(ConfigContentInputSchema)
+    .output(ConfigApplyResultSchema),
+
+  // ==========================================================================
+  // DIRECTORY SYNC
+  // ==========================================================================
+
+  getSyncInfo: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [gitopsAccess.config.read],
+  }).output(ConfigSyncInfoSchema),
+
+  /** Sync from the configured directory right away */
+  runSync: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [gitopsAccess.config.manage],
+  }).output(ConfigSyncRunSchema),
+};
+
+// Export contract type
+export type GitOpsContract = typeof gitopsContract;
+
+// Export client definition for type-safe forPlugin usage
+// Use: const client = rpcApi.forPlugin(GitOpsApi);
+export const GitOpsApi = createClientDefinition(gitopsContract, pluginMetadata);
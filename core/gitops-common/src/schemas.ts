@@ -0,0 +1,214 @@
+import { z } from "zod";
+import {
+  CollectorConfigEntrySchema,
+  HealthCheckScheduleSchema,
+  RegionSchema,
+  RetentionConfigSchema,
+  StateThresholdsSchema,
+} from "@checkstack/healthcheck-common";
+import { CreateMaintenanceSeriesInputSchema } from "@checkstack/maintenance-common";
+
+// =============================================================================
+// CONFIGURATION DOCUMENT
+// =============================================================================
+
+/** Current version of the configuration document format */
+export const CONFIG_DOCUMENT_VERSION = 1;
+
+/**
+ * Reference to a secret in place of a secret configuration value.
+ * Resolved from the environment variable of the same name when applied.
+ * Only allowed at secret fields, the name must start with `CHECKSTACK_SECRET_`.
+ */
+export const SecretReferenceSchema = z.object({
+  $secret: z.string().min(1),
+});
+export type SecretReference = z.infer<typeof SecretReferenceSchema>;
+
+/**
+ * Entities are identified by name, so documents can be applied to any
+ * instance. References between entities use names as well.
+ */
+export const SystemDocumentSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  /** Names of the upstream systems this system depends on */
+  dependsOn: z.array(z.string()).optional(),
+});
+export type SystemDocument = z.infer<typeof SystemDocumentSchema>;
+
+export const GroupDocumentSchema = z.object({
+  name: z.string().min(1),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  /** Names of the member systems */
+  systems: z.array(z.string()).default([]),
+});
+export type GroupDocument = z.infer<typeof GroupDocumentSchema>;
+
+export const HealthCheckConfigurationDocumentSchema = z.object({
+  name: z.string().min(1),
+  /** Fully-qualified strategy ID */
+  strategy: z.string().min(1),
+  intervalSeconds: z.number().min(1),
+  config: z.record(z.string(), z.unknown()),
+  collectors: z.array(CollectorConfigEntrySchema).optional(),
+  regions: z.array(RegionSchema).optional(),
+  /** Cron or active hours schedule replacing intervalSeconds */
+  schedule: HealthCheckScheduleSchema.optional(),
+});
+export type HealthCheckConfigurationDocument = z.infer<
+  typeof HealthCheckConfigurationDocumentSchema
+>;
+
+/** Assignment of a health check configuration to a system */
+export const HealthCheckAssignmentDocumentSchema = z.object({
+  system: z.string().min(1),
+  configuration: z.string().min(1),
+  enabled: z.boolean().default(true),
+  /** Default thresholds when omitted */
+  thresholds: StateThresholdsSchema.optional(),
+  /** Default retention when omitted */
+  retention: RetentionConfigSchema.optional(),
+});
+export type HealthCheckAssignmentDocument = z.infer<
+  typeof HealthCheckAssignmentDocumentSchema
+>;
+
+/** Recurring maintenance, identified by title */
+export const MaintenanceSeriesDocumentSchema =
+  CreateMaintenanceSeriesInputSchema.omit({ systemIds: true }).extend({
+    systems: z.array(z.string()).min(1, "At least one system is required"),
+  });
+export type MaintenanceSeriesDocument = z.infer<
+  typeof MaintenanceSeriesDocumentSchema
+>;
+
+export const IntegrationSubscriptionDocumentSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  /** Fully-qualified provider ID */
+  provider: z.string().min(1),
+  config: z.record(z.string(), z.unknown()),
+  /** Fully-qualified event ID */
+  event: z.string().min(1),
+  /** Names of the systems to filter events by */
+  systems: z.array(z.string()).optional(),
+  enabled: z.boolean().default(true),
+});
+export type IntegrationSubscriptionDocument = z.infer<
+  typeof IntegrationSubscriptionDocumentSchema
+>;
+
+/**
+ * Declarative configuration of an instance.
+ * Every list that is present is managed by the document: applying it creates,
+ * updates and deletes entities until they match. Lists that are left out are
+ * not touched.
+ */
+export const ConfigDocumentSchema = z.object({
+  version: z.literal(CONFIG_DOCUMENT_VERSION),
+  catalog: z
+    .object({
+      systems: z.array(SystemDocumentSchema).optional(),
+      groups: z.array(GroupDocumentSchema).optional(),
+    })
+    .optional(),
+  healthcheck: z
+    .object({
+      configurations: z
+        .array(HealthCheckConfigurationDocumentSchema)
+        .optional(),
+      assignments: z.array(HealthCheckAssignmentDocumentSchema).optional(),
+    })
+    .optional(),
+  maintenance: z
+    .object({
+      series: z.array(MaintenanceSeriesDocumentSchema).optional(),
+    })
+    .optional(),
+  integration: z
+    .object({
+      subscriptions: z.array(IntegrationSubscriptionDocumentSchema).optional(),
+    })
+    .optional(),
+});
+export type ConfigDocument = z.infer<typeof ConfigDocumentSchema>;
+
+export const ConfigFormatEnum = z.enum(["yaml", "json"]);
+export type ConfigFormat = z.infer<typeof ConfigFormatEnum>;
+
+// =============================================================================
+// PLAN & APPLY
+// =============================================================================
+
+export const ConfigResourceKindEnum = z.enum([
+  "system",
+  "group",
+  "healthCheckConfiguration",
+  "healthCheckAssignment",
+  "maintenanceSeries",
+  "integrationSubscription",
+]);
+export type ConfigResourceKind = z.infer<typeof ConfigResourceKindEnum>;
+
+export const ConfigChangeActionEnum = z.enum(["create", "update", "delete"]);
+export type ConfigChangeAction = z.infer<typeof ConfigChangeActionEnum>;
+
+export const ConfigChangeSchema = z.object({
+  kind: ConfigResourceKindEnum,
+  action: ConfigChangeActionEnum,
+  /** Name of the entity, "system / configuration" for assignments */
+  key: z.string(),
+  /** Top-level fields that differ, only set for updates */
+  fields: z.array(z.string()).optional(),
+});
+export type ConfigChange = z.infer<typeof ConfigChangeSchema>;
+
+/**
+ * Changes needed to reconcile the instance with a document.
+ * A plan with errors cannot be applied.
+ */
+export const ConfigPlanSchema = z.object({
+  changes: z.array(ConfigChangeSchema),
+  /** Unknown references, duplicate names and missing secrets */
+  errors: z.array(z.string()),
+});
+export type ConfigPlan = z.infer<typeof ConfigPlanSchema>;
+
+export const ConfigApplyResultSchema = z.object({
+  /** Changes applied, in order */
+  applied: z.array(ConfigChangeSchema),
+  /** Set when a change failed. Changes after it were not applied */
+  error: z.string().optional(),
+});
+export type ConfigApplyResult = z.infer<typeof ConfigApplyResultSchema>;
+
+// =============================================================================
+// DIRECTORY SYNC
+// =============================================================================
+
+export const ConfigSyncStatusEnum = z.enum(["applied", "unchanged", "failed"]);
+export type ConfigSyncStatus = z.infer<typeof ConfigSyncStatusEnum>;
+
+export const ConfigSyncRunSchema = z.object({
+  id: z.string(),
+  status: ConfigSyncStatusEnum,
+  /** Files the document was read from, relative to the sync directory */
+  files: z.array(z.string()),
+  changes: z.array(ConfigChangeSchema),
+  error: z.string().optional(),
+  startedAt: z.coerce.date(),
+  finishedAt: z.coerce.date(),
+});
+export type ConfigSyncRun = z.infer<typeof ConfigSyncRunSchema>;
+
+export const ConfigSyncInfoSchema = z.object({
+  /** Whether a sync directory is configured */
+  enabled: z.boolean(),
+  directory: z.string().optional(),
+  intervalSeconds: z.number(),
+  /** Most recent runs, newest first */
+  runs: z.array(ConfigSyncRunSchema),
+});
+export type ConfigSyncInfo = z.infer<typeof ConfigSyncInfoSchema>;
@@ -0,0 +1,68 @@
+import React from "react";
+import type {
+  ConfigChange,
+  ConfigChangeAction,
+  ConfigResourceKind,
+} from "@checkstack/gitops-common";
+import {
+  Badge,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+} from "@checkstack/ui";
+
+const KIND_LABELS: Record<ConfigResourceKind, string> = {
+  system: "System",
+  group: "Group",
+  healthCheckConfiguration: "Health Check",
+  healthCheckAssignment: "Assignment",
+  maintenanceSeries: "Recurring Maintenance",
+  integrationSubscription: "Subscription",
+};
+
+const ACTION_VARIANTS: Record<
+  ConfigChangeAction,
+  "success" | "info" | "destructive"
+> = {
+  create: "success",
+  update: "info",
+  delete: "destructive",
+};
+
+interface Props {
+  changes: ConfigChange[];
+}
+
+export const ConfigChangesTable: React.FC<Props> = ({ changes }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead className="w-28">Action</TableHead>
+        <TableHead>Type</TableHead>
+        <TableHead>Name</TableHead>
+        <TableHead>Changed Fields</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {changes.map((change) => (
+        <TableRow key={`${change.kind}:${change.action}:${change.key}`}>
+          <TableCell>
+            <Badge variant={ACTION_VARIANTS[change.action]}>
+              {change.action}
+            </Badge>
+          </TableCell>
+          <TableCell className="text-sm text-muted-foreground">
+            {KIND_LABELS[change.kind]}
+          </TableCell>
+          <TableCell className="font-medium">{change.key}</TableCell>
+          <TableCell className="text-sm text-muted-foreground">
+            {change.fields?.join(", ") ?? "—"}
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
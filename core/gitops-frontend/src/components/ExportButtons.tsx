@@ -0,0 +1,70 @@
+import React from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { GitOpsApi, type ConfigFormat } from "@checkstack/gitops-common";
+import { Button, useToast } from "@checkstack/ui";
+import { Download } from "lucide-react";
+
+const CONTENT_TYPES: Record<ConfigFormat, string> = {
+  yaml: "application/yaml",
+  json: "application/json",
+};
+
+const saveFile = (content: string, format: ConfigFormat) => {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: CONTENT_TYPES[format] }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `checkstack.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ExportButtons: React.FC = () => {
+  const gitopsClient = usePluginClient(GitOpsApi);
+  const toast = useToast();
+
+  // Only fetched on demand when downloading
+  const yaml = gitopsClient.exportConfig.useQuery(
+    { format: "yaml" },
+    { enabled: false },
+  );
+  const json = gitopsClient.exportConfig.useQuery(
+    { format: "json" },
+    { enabled: false },
+  );
+
+  const handleExport = async (format: ConfigFormat) => {
+    const { data, error } = await (format === "yaml" ? yaml : json).refetch();
+    if (!data) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to export configuration",
+      );
+      return;
+    }
+    saveFile(data.content, format);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        onClick={() => void handleExport("yaml")}
+        disabled={yaml.isFetching}
+      >
+        <Download className="h-4 w-4 mr-2" />
+        YAML
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() => void handleExport("json")}
+        disabled={json.isFetching}
+      >
+        <Download className="h-4 w-4 mr-2" />
+        JSON
+      </Button>
+    </div>
+  );
+};
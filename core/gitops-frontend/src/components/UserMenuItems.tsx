@@ -0,0 +1,30 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { FileCode } from "lucide-react";
+import type { UserMenuItemsContext } from "@checkstack/frontend-api";
+import { DropdownMenuItem } from "@checkstack/ui";
+import { resolveRoute } from "@checkstack/common";
+import {
+  gitopsRoutes,
+  gitopsAccess,
+  pluginMetadata,
+} from "@checkstack/gitops-common";
+
+export const GitOpsUserMenuItems = ({
+  accessRules: userPerms,
+}: UserMenuItemsContext) => {
+  const qualifiedId = `${pluginMetadata.pluginId}.${gitopsAccess.config.read.id}`;
+  const canRead = userPerms.includes("*") || userPerms.includes(qualifiedId);
+
+  if (!canRead) {
+    return <React.Fragment />;
+  }
+
+  return (
+    <Link to={resolveRoute(gitopsRoutes.routes.home)}>
+      <DropdownMenuItem icon={<FileCode className="h-4 w-4" />}>
+        Configuration as Code
+      </DropdownMenuItem>
+    </Link>
+  );
+};
@@ -0,0 +1,30 @@
+import {
+  UserMenuItemsSlot,
+  createSlotExtension,
+  createFrontendPlugin,
+} from "@checkstack/frontend-api";
+import {
+  gitopsRoutes,
+  gitopsAccess,
+  pluginMetadata,
+} from "@checkstack/gitops-common";
+import { ConfigAsCodePage } from "./pages/ConfigAsCodePage";
+import { GitOpsUserMenuItems } from "./components/UserMenuItems";
+
+export const gitopsPlugin = createFrontendPlugin({
+  metadata: pluginMetadata,
+  routes: [
+    {
+      route: gitopsRoutes.routes.home,
+      element: <ConfigAsCodePage />,
+      title: "Configuration as Code",
+      accessRule: gitopsAccess.config.read,
+    },
+  ],
+  extensions: [
+    createSlotExtension(UserMenuItemsSlot, {
+      id: "gitops.user-menu.items",
+      component: GitOpsUserMenuItems,
+    }),
+  ],
+});
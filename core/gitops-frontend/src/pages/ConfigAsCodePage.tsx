@@ -0,0 +1,329 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import {
+  usePluginClient,
+  accessApiRef,
+  useApi,
+  wrapInSuspense,
+} from "@checkstack/frontend-api";
+import {
+  GitOpsApi,
+  gitopsAccess,
+  type ConfigPlan,
+  type ConfigSyncStatus,
+} from "@checkstack/gitops-common";
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+  Badge,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  LoadingSpinner,
+  EmptyState,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Textarea,
+  useToast,
+  ConfirmationModal,
+  PageLayout,
+} from "@checkstack/ui";
+import { FileCode, ListChecks, RefreshCw, Upload } from "lucide-react";
+import { ConfigChangesTable } from "../components/ConfigChangesTable";
+import { ExportButtons } from "../components/ExportButtons";
+
+const STATUS_VARIANTS: Record<
+  ConfigSyncStatus,
+  "success" | "secondary" | "destructive"
+> = {
+  applied: "success",
+  unchanged: "secondary",
+  failed: "destructive",
+};
+
+const ConfigAsCodePageContent: React.FC = () => {
+  const gitopsClient = usePluginClient(GitOpsApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const { allowed: canRead, loading: accessLoading } = accessApi.useAccess(
+    gitopsAccess.config.read,
+  );
+  const { allowed: canManage } = accessApi.useAccess(
+    gitopsAccess.config.manage,
+  );
+
+  const [content, setContent] = useState("");
+  const [plan, setPlan] = useState<ConfigPlan | undefined>();
+  const [confirmApply, setConfirmApply] = useState(false);
+
+  const {
+    data: syncInfo,
+    isLoading: syncLoading,
+    refetch: refetchSyncInfo,
+  } = gitopsClient.getSyncInfo.useQuery(undefined, { enabled: canRead });
+
+  // Only fetched on demand when planning
+  const planQuery = gitopsClient.planConfig.useQuery(
+    { content },
+    { enabled: false },
+  );
+
+  const applyMutation = gitopsClient.applyConfig.useMutation({
+    onSuccess: (result) => {
+      setConfirmApply(false);
+      setPlan(undefined);
+      if (result.error) {
+        toast.error(
+          `Applied ${result.applied.length} change(s), then failed: ${result.error}`,
+        );
+        return;
+      }
+      toast.success(`Applied ${result.applied.length} change(s)`);
+    },
+    onError: (error) => {
+      setConfirmApply(false);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to apply document",
+      );
+    },
+  });
+
+  const runSyncMutation = gitopsClient.runSync.useMutation({
+    onSuccess: (run) => {
+      if (run.status === "failed") {
+        toast.error(`Sync failed: ${run.error ?? "Unknown error"}`);
+      } else {
+        toast.success(
+          run.status === "applied"
+            ? `Sync applied ${run.changes.length} change(s)`
+            : "Configuration is up to date",
+        );
+      }
+      void refetchSyncInfo();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to sync");
+    },
+  });
+
+  const handleContentChange = (value: string) => {
+    setContent(value);
+    setPlan(undefined);
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      handleContentChange(await file.text());
+    }
+  };
+
+  const handlePlan = async () => {
+    const { data, error } = await planQuery.refetch();
+    if (!data) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to plan document",
+      );
+      return;
+    }
+    setPlan(data);
+  };
+
+  const runs = syncInfo?.runs ?? [];
+
+  return (
+    <PageLayout
+      title="Configuration as Code"
+      subtitle="Export, review and apply the instance configuration as YAML or JSON"
+      icon={FileCode}
+      loading={accessLoading}
+      allowed={canRead}
+      actions={<ExportButtons />}
+    >
+      <div className="space-y-6">
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Import</CardTitle>
+              <CardDescription>
+                Lists in the document are fully managed: entities missing from a
+                list are deleted. Lists that are left out stay untouched.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={content}
+                onChange={(e) => handleContentChange(e.target.value)}
+                placeholder="version: 1"
+                className="font-mono min-h-[240px]"
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Load File
+                    <input
+                      type="file"
+                      accept=".yaml,.yml,.json"
+                      className="hidden"
+                      onChange={(e) => void handleFileChange(e)}
+                    />
+                  </label>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => void handlePlan()}
+                  disabled={!content.trim() || planQuery.isFetching}
+                >
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  Plan
+                </Button>
+                <Button
+                  onClick={() => setConfirmApply(true)}
+                  disabled={
+                    !plan ||
+                    plan.errors.length > 0 ||
+                    plan.changes.length === 0 ||
+                    applyMutation.isPending
+                  }
+                >
+                  Apply
+                </Button>
+              </div>
+
+              {plan && plan.errors.length > 0 && (
+                <Alert variant="error">
+                  <div>
+                    <AlertTitle>The document cannot be applied</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {plan.errors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </div>
+                </Alert>
+              )}
+              {plan &&
+                plan.errors.length === 0 &&
+                plan.changes.length === 0 && (
+                  <Alert variant="success">
+                    The configuration already matches the document.
+                  </Alert>
+                )}
+              {plan && plan.changes.length > 0 && (
+                <ConfigChangesTable changes={plan.changes} />
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Directory Sync</CardTitle>
+                <CardDescription>
+                  {syncInfo?.enabled
+                    ? `Applies the documents in ${syncInfo.directory} every ${syncInfo.intervalSeconds}s`
+                    : "Set CHECKSTACK_CONFIG_DIR to apply the documents of a directory periodically"}
+                </CardDescription>
+              </div>
+              {canManage && syncInfo?.enabled && (
+                <Button
+                  variant="outline"
+                  onClick={() => runSyncMutation.mutate({})}
+                  disabled={runSyncMutation.isPending}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Sync Now
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {syncLoading ? (
+              <div className="p-12 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : runs.length === 0 ? (
+              <EmptyState
+                title="No sync runs"
+                description="Runs of the directory sync are listed here."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Files</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {format(run.startedAt, "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[run.status]}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell
+                        className="text-sm text-muted-foreground"
+                        title={run.files.join("\n")}
+                      >
+                        {run.files.length}
+                      </TableCell>
+                      <TableCell
+                        className="text-sm text-muted-foreground"
+                        title={run.changes
+                          .map((change) => `${change.action} ${change.key}`)
+                          .join("\n")}
+                      >
+                        {run.changes.length}
+                      </TableCell>
+                      <TableCell className="text-sm text-destructive max-w-md truncate">
+                        {run.error}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ConfirmationModal
+        isOpen={confirmApply}
+        onClose={() => setConfirmApply(false)}
+        title="Apply Configuration"
+        message={`Apply ${plan?.changes.length ?? 0} change(s)? Deleted entities cannot be restored.`}
+        confirmText="Apply"
+        variant="warning"
+        isLoading={applyMutation.isPending}
+        onConfirm={() => applyMutation.mutate({ content })}
+      />
+    </PageLayout>
+  );
+};
+
+export const ConfigAsCodePage = wrapInSuspense(ConfigAsCodePageContent);
@@ -0,0 +1,21 @@
+CREATE TABLE "probe_agent_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"configuration_id" uuid NOT NULL,
+	"system_id" text NOT NULL,
+	"region" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"claimed_at" timestamp,
+	"claimed_by" text
+);
+--> statement-breakpoint
+CREATE TABLE "probe_agents" (
+	"application_id" text NOT NULL,
+	"name" text NOT NULL,
+	"region" text NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "probe_agents_application_id_region_pk" PRIMARY KEY("application_id","region")
+);
+--> statement-breakpoint
+ALTER TABLE "health_check_configurations" ADD COLUMN "regions" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "health_check_runs" ADD COLUMN "region" text DEFAULT 'local' NOT NULL;--> statement-breakpoint
+ALTER TABLE "probe_agent_jobs" ADD CONSTRAINT "probe_agent_jobs_configuration_id_health_check_configurations_id_fk" FOREIGN KEY ("configuration_id") REFERENCES "health_check_configurations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "system_alert_states" (
+	"system_id" text PRIMARY KEY NOT NULL,
+	"acknowledged_by" text,
+	"acknowledged_by_name" text,
+	"acknowledged_at" timestamp,
+	"snoozed_until" timestamp,
+	"snoozed_by" text,
+	"snoozed_by_name" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,17 @@
+CREATE TYPE "slo_scope_type" AS ENUM('system', 'group');--> statement-breakpoint
+CREATE TYPE "slo_type" AS ENUM('availability', 'latency');--> statement-breakpoint
+CREATE TABLE "slos" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"scope_type" "slo_scope_type" NOT NULL,
+	"scope_id" text NOT NULL,
+	"type" "slo_type" NOT NULL,
+	"target" double precision NOT NULL,
+	"window_days" integer NOT NULL,
+	"latency_threshold_ms" integer,
+	"include_maintenance" boolean DEFAULT false NOT NULL,
+	"alert_severity" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
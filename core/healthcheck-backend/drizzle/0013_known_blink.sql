@@ -0,0 +1,11 @@
+CREATE TABLE "health_check_baselines" (
+	"configuration_id" uuid NOT NULL,
+	"system_id" text NOT NULL,
+	"metric" text NOT NULL,
+	"label" text NOT NULL,
+	"slots" jsonb NOT NULL,
+	"computed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "health_check_baselines_configuration_id_system_id_metric_pk" PRIMARY KEY("configuration_id","system_id","metric")
+);
+--> statement-breakpoint
+ALTER TABLE "health_check_baselines" ADD CONSTRAINT "health_check_baselines_configuration_id_health_check_configurations_id_fk" FOREIGN KEY ("configuration_id") REFERENCES "health_check_configurations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "health_check_configurations" ADD COLUMN "schedule" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "system_alert_states" ADD COLUMN "outage_suppressed_by_upstream" boolean DEFAULT false NOT NULL;
\ No newline at end of file
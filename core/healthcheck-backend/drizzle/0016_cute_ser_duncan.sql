@@ -0,0 +1,5 @@
+CREATE TABLE "probe_agent_regions" (
+	"application_id" text NOT NULL,
+	"region" text NOT NULL,
+	CONSTRAINT "probe_agent_regions_application_id_region_pk" PRIMARY KEY("application_id","region")
+);
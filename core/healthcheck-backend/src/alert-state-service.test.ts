@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { getAlertSuppression } from "./alert-state-service";
+
+const now = new Date("2026-01-15T12:00:00Z");
+const minutesFromNow = (minutes: number) =>
+  new Date(now.getTime() + minutes * 60 * 1000);
+
+describe("getAlertSuppression", () => {
+  it("does not suppress without alert state", () => {
+    expect(
+      getAlertSuppression(undefined, { newStatus: "unhealthy", now }),
+    ).toBeUndefined();
+  });
+
+  it("suppresses alerts of an acknowledged system", () => {
+    const state = { acknowledgedAt: minutesFromNow(-5) };
+
+    expect(getAlertSuppression(state, { newStatus: "unhealthy", now })).toBe(
+      "acknowledged",
+    );
+    expect(getAlertSuppression(state, { newStatus: "degraded", now })).toBe(
+      "acknowledged",
+    );
+  });
+
+  it("suppresses alerts while snoozed", () => {
+    expect(
+      getAlertSuppression(
+        { snoozedUntil: minutesFromNow(30) },
+        { newStatus: "degraded", now },
+      ),
+    ).toBe("snoozed");
+  });
+
+  it("ignores expired snoozes", () => {
+    expect(
+      getAlertSuppression(
+        { snoozedUntil: minutesFromNow(-1) },
+        { newStatus: "unhealthy", now },
+      ),
+    ).toBeUndefined();
+  });
+
+  it("never suppresses recoveries", () => {
+    expect(
+      getAlertSuppression(
+        {
+          acknowledgedAt: minutesFromNow(-5),
+          snoozedUntil: minutesFromNow(30),
+        },
+        { newStatus: "healthy", now },
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+/* eslint-disable unicorn/no-null -- drizzle clears nullable columns with null */
+import type {
+  HealthCheckStatus,
+  SystemAlertState,
+} from "@checkstack/healthcheck-common";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import { eq } from "drizzle-orm";
+import { systemAlertStates } from "./schema";
+import * as schema from "./schema";
+
+type Db = SafeDatabase<typeof schema>;
+type AlertStateRow = typeof systemAlertStates.$inferSelect;
+
+/**
+ * Why a state change notification is not sent, if at all.
+ */
+export type AlertSuppression = "acknowledged" | "snoozed";
+
+/**
+ * Determine whether an acknowledgement or snooze suppresses the notification
+ * for a state change. Recoveries are never suppressed, so subscribers always
+ * learn that the system is healthy again.
+ */
+export function getAlertSuppression(
+  state: Pick<SystemAlertState, "acknowledgedAt" | "snoozedUntil"> | undefined,
+  props: { newStatus: HealthCheckStatus; now: Date },
+): AlertSuppression | undefined {
+  const { newStatus, now } = props;
+  if (!state || newStatus === "healthy") return undefined;
+  if (state.snoozedUntil && state.snoozedUntil > now) return "snoozed";
+  if (state.acknowledgedAt) return "acknowledged";
+  return undefined;
+}
+
+function toAlertState(row: AlertStateRow): SystemAlertState {
+  return {
+    systemId: row.systemId,
+    acknowledgedBy: row.acknowledgedBy ?? undefined,
+    acknowledgedByName: row.acknowledgedByName ?? undefined,
+    acknowledgedAt: row.acknowledgedAt ?? undefined,
+    snoozedUntil: row.snoozedUntil ?? undefined,
+    snoozedBy: row.snoozedBy ?? undefined,
+    snoozedByName: row.snoozedByName ?? undefined,
+  };
+}
+
+/**
+ * Acknowledgement and snooze state of health alerts.
+ *
+ * Acknowledging an alert records who took ownership and suppresses further
+ * alerts for the system until it recovers. Snoozing suppresses alerts for a
+ * fixed duration.
+ */
+export class AlertStateService {
+  constructor(private db: Db) {}
+
+  /**
+   * Get the alert state of a system. Expired snoozes are omitted, and
+   * undefined is returned if neither an acknowledgement nor a snooze is active.
+   */
+  async getState(systemId: string): Promise<SystemAlertState | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(systemAlertStates)
+      .where(eq(systemAlertStates.systemId, systemId));
+    if (!row) return undefined;
+
+    const state = toAlertState(row);
+    if (state.snoozedUntil && state.snoozedUntil <= new Date()) {
+      state.snoozedUntil = undefined;
+      state.snoozedBy = undefined;
+      state.snoozedByName = undefined;
+    }
+    return state.acknowledgedAt || state.snoozedUntil ? state : undefined;
+  }
+
+  async acknowledge(props: {
+    systemId: string;
+    userId: string;
+    userName?: string;
+  }): Promise<SystemAlertState> {
+    const { systemId, userId, userName } = props;
+    const now = new Date();
+    const values = {
+      acknowledgedBy: userId,
+      acknowledgedByName: userName ?? null,
+      acknowledgedAt: now,
+      updatedAt: now,
+    };
+
+    const [row] = await this.db
+      .insert(systemAlertStates)
+      .values({ systemId, ...values })
+      .onConflictDoUpdate({ target: systemAlertStates.systemId, set: values })
+      .returning();
+    return toAlertState(row);
+  }
+
+  async snooze(props: {
+    systemId: string;
+    minutes: number;
+    userId: string;
+    userName?: string;
+  }): Promise<SystemAlertState> {
+    const { systemId, minutes, userId, userName } = props;
+    const now = new Date();
+    const values = {
+      snoozedUntil: new Date(now.getTime() + minutes * 60 * 1000),
+      snoozedBy: userId,
+      snoozedByName: userName ?? null,
+      updatedAt: now,
+    };
+
+    const [row] = await this.db
+      .insert(systemAlertStates)
+      .values({ systemId, ...values })
+      .onConflictDoUpdate({ target: systemAlertStates.systemId, set: values })
+      .returning();
+    return toAlertState(row);
+  }
+
+  /**
+   * Remove the acknowledgement, e.g. once the system recovered.
+   * An active snooze is kept.
+   */
+  async clearAcknowledgement(systemId: string): Promise<void> {
+    await this.db
+      .update(systemAlertStates)
+      .set({
+        acknowledgedBy: null,
+        acknowledgedByName: null,
+        acknowledgedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(systemAlertStates.systemId, systemId));
+  }
+
+  /**
+   * Remove both the acknowledgement and the snooze.
+   */
+  async clear(systemId: string): Promise<void> {
+    await this.db
+      .update(systemAlertStates)
+      .set({
+        acknowledgedBy: null,
+        acknowledgedByName: null,
+        acknowledgedAt: null,
+        snoozedUntil: null,
+        snoozedBy: null,
+        snoozedByName: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(systemAlertStates.systemId, systemId));
+  }
+
+  /**
+   * Whether the alert of the current outage was skipped because an upstream
+   * system caused it.
+   */
+  async isOutageSuppressedByUpstream(systemId: string): Promise<boolean> {
+    const [row] = await this.db
+      .select({
+        suppressed: systemAlertStates.outageSuppressedByUpstream,
+      })
+      .from(systemAlertStates)
+      .where(eq(systemAlertStates.systemId, systemId));
+    return row?.suppressed ?? false;
+  }
+
+  async setOutageSuppressedByUpstream(
+    systemId: string,
+    suppressed: boolean,
+  ): Promise<void> {
+    const values = {
+      outageSuppressedByUpstream: suppressed,
+      updatedAt: new Date(),
+    };
+    await this.db
+      .insert(systemAlertStates)
+      .values({ systemId, ...values })
+      .onConflictDoUpdate({ target: systemAlertStates.systemId, set: values });
+  }
+}
@@ -0,0 +1,59 @@
+import type { Logger } from "@checkstack/backend-api";
+import type { QueueManager } from "@checkstack/queue-api";
+import type { AnomalyService } from "./anomaly-service";
+
+const ANOMALY_BASELINE_QUEUE = "health-check-anomaly-baselines";
+
+/** Baselines are learned from hourly aggregates, so refresh them hourly */
+const ANOMALY_BASELINE_INTERVAL_SECONDS = 60 * 60;
+
+interface AnomalyBaselineJobPayload {
+  trigger: "scheduled";
+}
+
+interface AnomalyBaselineJobDeps {
+  anomalyService: AnomalyService;
+  logger: Logger;
+}
+
+/**
+ * Registers the recurring job that learns anomaly detection baselines.
+ */
+export async function setupAnomalyBaselineJob(
+  deps: AnomalyBaselineJobDeps & { queueManager: QueueManager },
+) {
+  const { queueManager, logger } = deps;
+
+  const queue = queueManager.getQueue<AnomalyBaselineJobPayload>(
+    ANOMALY_BASELINE_QUEUE,
+  );
+
+  await queue.consume(
+    async () => {
+      await runAnomalyBaselineJob(deps);
+    },
+    { consumerGroup: "anomaly-baseline-worker" },
+  );
+
+  await queue.scheduleRecurring(
+    { trigger: "scheduled" },
+    {
+      jobId: "health-check-anomaly-baselines",
+      intervalSeconds: ANOMALY_BASELINE_INTERVAL_SECONDS,
+    },
+  );
+
+  logger.debug("Anomaly baseline job scheduled");
+}
+
+export async function runAnomalyBaselineJob({
+  anomalyService,
+  logger,
+}: AnomalyBaselineJobDeps) {
+  try {
+    const count = await anomalyService.refreshBaselines();
+    logger.debug(`Refreshed anomaly baselines of ${count} health checks`);
+  } catch (error) {
+    logger.error("Failed to refresh anomaly baselines", { error });
+  }
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "bun:test";
+import {
+  computeBaselineSlots,
+  detectAnomalies,
+  extractMetricValues,
+  getBaselineBand,
+  getHourOfWeek,
+  type MetricSample,
+} from "./anomaly-baseline";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Monday, 00:00 UTC
+const WEEK_START = new Date("2025-03-03T00:00:00Z").getTime();
+
+/** Hourly samples over four weeks, busy hours 9-17 are slower */
+function seasonalSamples(): MetricSample[] {
+  const samples: MetricSample[] = [];
+  for (let hour = 0; hour < 4 * 168; hour++) {
+    const timestamp = new Date(WEEK_START + hour * HOUR_MS);
+    const busy = timestamp.getUTCHours() >= 9 && timestamp.getUTCHours() < 17;
+    samples.push({ timestamp, value: (busy ? 200 : 80) + (hour % 3) });
+  }
+  return samples;
+}
+
+describe("getHourOfWeek", () => {
+  it("starts the week on Monday", () => {
+    expect(getHourOfWeek(new Date("2025-03-03T00:30:00Z"))).toBe(0);
+    expect(getHourOfWeek(new Date("2025-03-04T05:00:00Z"))).toBe(29);
+    expect(getHourOfWeek(new Date("2025-03-09T23:59:00Z"))).toBe(167);
+  });
+});
+
+describe("computeBaselineSlots", () => {
+  it("learns a baseline per hour of the week", () => {
+    const slots = computeBaselineSlots(seasonalSamples());
+
+    expect(slots).toHaveLength(168);
+    // Tuesday 12:00 is busy, Tuesday 03:00 is not
+    expect(slots[24 + 12].median).toBeGreaterThanOrEqual(200);
+    expect(slots[24 + 3].median).toBeLessThan(90);
+    expect(slots[24 + 12].sampleCount).toBe(12);
+  });
+
+  it("falls back to the same hour of any day without enough weeks", () => {
+    // Only three days of history
+    const samples = seasonalSamples().slice(0, 72);
+
+    const slots = computeBaselineSlots(samples);
+    const saturdayNoon = slots.find((s) => s.hourOfWeek === 5 * 24 + 12);
+
+    expect(saturdayNoon?.median).toBeGreaterThanOrEqual(200);
+    expect(saturdayNoon?.sampleCount).toBe(9);
+  });
+
+  it("leaves out hours without enough history", () => {
+    const samples = seasonalSamples().slice(0, 1);
+
+    expect(computeBaselineSlots(samples)).toEqual([]);
+  });
+});
+
+describe("getBaselineBand", () => {
+  it("widens the band for lower sensitivities", () => {
+    const slot = { hourOfWeek: 0, median: 100, mad: 10, sampleCount: 12 };
+
+    const high = getBaselineBand(slot, "high");
+    const low = getBaselineBand(slot, "low");
+
+    expect(high.expected).toBe(100);
+    expect(high.upper - high.expected).toBeCloseTo(3 * 1.4826 * 10);
+    expect(low.upper).toBeGreaterThan(high.upper);
+    expect(low.lower).toBeLessThan(high.lower);
+  });
+
+  it("keeps a minimum band for very stable metrics", () => {
+    const band = getBaselineBand(
+      { hourOfWeek: 0, median: 80, mad: 0, sampleCount: 12 },
+      "high",
+    );
+
+    expect(band.lower).toBe(72);
+    expect(band.upper).toBe(88);
+  });
+});
+
+describe("extractMetricValues", () => {
+  it("reads the latency and averaged collector fields", () => {
+    const values = extractMetricValues({
+      avgLatencyMs: 120,
+      aggregatedResult: {
+        collectors: {
+          "uuid-1": {
+            _collectorId: "hardware.cpu",
+            avgUsagePercent: { _type: "average", _sum: 90, _count: 2, avg: 45 },
+            maxUsagePercent: { _type: "max", value: 60 },
+            avgLoadAvg1m: { _type: "average", _sum: 0, _count: 0, avg: 0 },
+          },
+        },
+      },
+    });
+
+    expect(values).toEqual([
+      { metric: "latencyMs", value: 120 },
+      {
+        metric: "uuid-1.avgUsagePercent",
+        value: 45,
+        collector: { collectorId: "hardware.cpu", field: "avgUsagePercent" },
+      },
+    ]);
+  });
+});
+
+describe("detectAnomalies", () => {
+  const band = { hourOfWeek: 0, expected: 100, lower: 80, upper: 120 };
+
+  it("flags latency above the band only", () => {
+    const baselines = [{ metric: "latencyMs", label: "Latency", band }];
+
+    expect(
+      detectAnomalies({
+        observed: [{ metric: "latencyMs", value: 600 }],
+        baselines,
+      }),
+    ).toEqual([
+      {
+        metric: "latencyMs",
+        label: "Latency",
+        observed: 600,
+        expected: 100,
+        lower: 80,
+        upper: 120,
+      },
+    ]);
+    expect(
+      detectAnomalies({
+        observed: [{ metric: "latencyMs", value: 20 }],
+        baselines,
+      }),
+    ).toEqual([]);
+  });
+
+  it("flags collector metrics in both directions", () => {
+    const anomalies = detectAnomalies({
+      observed: [
+        { metric: "a.avgRequests", value: 10 },
+        { metric: "b.avgRequests", value: 100 },
+      ],
+      baselines: [
+        { metric: "a.avgRequests", label: "A", band },
+        { metric: "b.avgRequests", label: "B", band },
+        { metric: "c.avgRequests", label: "C", band },
+      ],
+    });
+
+    expect(anomalies.map((a) => a.metric)).toEqual(["a.avgRequests"]);
+  });
+});
@@ -0,0 +1,224 @@
+import type {
+  AnomalyBaselineSlot,
+  AnomalySensitivity,
+  DetectedAnomaly,
+} from "@checkstack/healthcheck-common";
+import { LATENCY_METRIC } from "@checkstack/healthcheck-common";
+
+const HOURS_PER_WEEK = 168;
+const HOURS_PER_DAY = 24;
+
+/** Minimum number of hourly samples before an hour of the week has a baseline */
+export const MIN_BASELINE_SAMPLES = 6;
+
+/** Scales the MAD to the standard deviation of normally distributed values */
+const MAD_SCALE = 1.4826;
+
+/** Half-width of the expected band in scaled MADs */
+const SENSITIVITY_FACTORS: Record<AnomalySensitivity, number> = {
+  low: 6,
+  medium: 4,
+  high: 3,
+};
+
+/**
+ * Bands are at least ±10% of the expected value, otherwise very stable
+ * metrics would flag every bit of noise.
+ */
+const MIN_RELATIVE_BAND = 0.1;
+
+/**
+ * Learned statistics of a metric for one hour of the week.
+ */
+export interface BaselineSlot {
+  /** Monday 00:00-00:59 UTC = 0 */
+  hourOfWeek: number;
+  median: number;
+  /** Median absolute deviation from the median */
+  mad: number;
+  sampleCount: number;
+}
+
+/**
+ * A metric value of an hourly aggregate.
+ */
+export interface MetricSample {
+  timestamp: Date;
+  value: number;
+}
+
+/**
+ * A metric found in an aggregate or in recent runs.
+ */
+export interface MetricValue {
+  metric: string;
+  value: number;
+  /** Collector ID and field, undefined for the latency */
+  collector?: { collectorId: string; field: string };
+}
+
+export function getHourOfWeek(date: Date): number {
+  // getUTCDay() starts the week on Sunday
+  const dayOfWeek = (date.getUTCDay() + 6) % 7;
+  return dayOfWeek * HOURS_PER_DAY + date.getUTCHours();
+}
+
+function median(values: number[]): number {
+  const sorted = values.toSorted((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/** The hour and its direct neighbours, wrapping around the period */
+function getNeighbourHours(hour: number, period: number): number[] {
+  return [hour - 1, hour, hour + 1].map((h) => (h + period) % period);
+}
+
+/**
+ * Learn a seasonal baseline from hourly samples.
+ * Each hour of the week uses the samples of the same hour ±1 in previous
+ * weeks. Hours without enough history fall back to the same hour ±1 of any
+ * day, and are left out if that isn't enough either.
+ */
+export function computeBaselineSlots(samples: MetricSample[]): BaselineSlot[] {
+  const byHourOfWeek: number[][] = Array.from(
+    { length: HOURS_PER_WEEK },
+    () => [],
+  );
+  for (const sample of samples) {
+    byHourOfWeek[getHourOfWeek(sample.timestamp)].push(sample.value);
+  }
+
+  const collect = (hours: number[]) =>
+    hours.flatMap((hour) => byHourOfWeek[hour]);
+
+  const slots: BaselineSlot[] = [];
+  for (let hour = 0; hour < HOURS_PER_WEEK; hour++) {
+    let values = collect(getNeighbourHours(hour, HOURS_PER_WEEK));
+
+    if (values.length < MIN_BASELINE_SAMPLES) {
+      const hoursOfDay = new Set(
+        getNeighbourHours(hour % HOURS_PER_DAY, HOURS_PER_DAY),
+      );
+      values = collect(
+        Array.from({ length: HOURS_PER_WEEK }, (_, h) => h).filter((h) =>
+          hoursOfDay.has(h % HOURS_PER_DAY),
+        ),
+      );
+    }
+
+    if (values.length < MIN_BASELINE_SAMPLES) continue;
+
+    const center = median(values);
+    slots.push({
+      hourOfWeek: hour,
+      median: center,
+      mad: median(values.map((value) => Math.abs(value - center))),
+      sampleCount: values.length,
+    });
+  }
+
+  return slots;
+}
+
+/**
+ * Expected band of a baseline slot for a sensitivity.
+ */
+export function getBaselineBand(
+  slot: BaselineSlot,
+  sensitivity: AnomalySensitivity,
+): AnomalyBaselineSlot {
+  const halfWidth = Math.max(
+    SENSITIVITY_FACTORS[sensitivity] * MAD_SCALE * slot.mad,
+    MIN_RELATIVE_BAND * Math.abs(slot.median),
+  );
+  return {
+    hourOfWeek: slot.hourOfWeek,
+    expected: slot.median,
+    lower: slot.median - halfWidth,
+    upper: slot.median + halfWidth,
+  };
+}
+
+function isAverageState(
+  value: unknown,
+): value is { _type: "average"; _count: number; avg: number } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { _type?: unknown })._type === "average" &&
+    typeof (value as { avg?: unknown }).avg === "number"
+  );
+}
+
+/**
+ * Extract the metrics that can be learned from an aggregate: the average
+ * latency and all averaged collector fields.
+ */
+export function extractMetricValues(source: {
+  avgLatencyMs?: number;
+  aggregatedResult?: Record<string, unknown>;
+}): MetricValue[] {
+  const values: MetricValue[] = [];
+
+  if (source.avgLatencyMs !== undefined) {
+    values.push({ metric: LATENCY_METRIC, value: source.avgLatencyMs });
+  }
+
+  const collectors = source.aggregatedResult?.collectors as
+    Record<string, Record<string, unknown>> | undefined;
+  for (const [uuid, data] of Object.entries(collectors ?? {})) {
+    const collectorId = data._collectorId;
+    if (typeof collectorId !== "string") continue;
+
+    for (const [field, state] of Object.entries(data)) {
+      // Averages without values have a count of 0
+      if (!isAverageState(state) || state._count === 0) continue;
+      values.push({
+        metric: `${uuid}.${field}`,
+        value: state.avg,
+        collector: { collectorId, field },
+      });
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Compare observed metrics against their bands.
+ * Latency is only flagged when it is higher than expected, collector
+ * metrics in both directions.
+ */
+export function detectAnomalies(props: {
+  observed: MetricValue[];
+  baselines: Array<{
+    metric: string;
+    label: string;
+    band: AnomalyBaselineSlot;
+  }>;
+}): DetectedAnomaly[] {
+  const { observed, baselines } = props;
+
+  const anomalies: DetectedAnomaly[] = [];
+  for (const { metric, label, band } of baselines) {
+    const value = observed.find((o) => o.metric === metric)?.value;
+    if (value === undefined) continue;
+
+    const tooHigh = value > band.upper;
+    const tooLow = metric !== LATENCY_METRIC && value < band.lower;
+    if (!tooHigh && !tooLow) continue;
+
+    anomalies.push({
+      metric,
+      label,
+      observed: value,
+      expected: band.expected,
+      lower: band.lower,
+      upper: band.upper,
+    });
+  }
+  return anomalies;
+}
@@ -0,0 +1,365 @@
+import { and, desc, eq, gte, inArray, lt, notInArray } from "drizzle-orm";
+import type { CollectorRegistry, SafeDatabase } from "@checkstack/backend-api";
+import {
+  LATENCY_METRIC,
+  type AnomalyBaseline,
+  type AnomalyDetection,
+  type AnomalyMetric,
+  type DetectedAnomaly,
+  type StateThresholds,
+} from "@checkstack/healthcheck-common";
+import * as schema from "./schema";
+import {
+  healthCheckAggregates,
+  healthCheckBaselines,
+  healthCheckRuns,
+  systemHealthChecks,
+} from "./schema";
+import {
+  computeBaselineSlots,
+  detectAnomalies,
+  extractMetricValues,
+  getBaselineBand,
+  getHourOfWeek,
+  type MetricSample,
+  type MetricValue,
+} from "./anomaly-baseline";
+import { aggregateCollectorData } from "./aggregation-utils";
+import { getHourBucketStart } from "./realtime-aggregation";
+import { stateThresholds } from "./state-thresholds-migrations";
+
+type Db = SafeDatabase<typeof schema>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Four weeks give every hour of the week four samples of its own */
+const BASELINE_LOOKBACK_MS = 28 * 24 * HOUR_MS;
+
+/** Aggregates searched for metrics that can be watched */
+const METRIC_DISCOVERY_MS = 24 * HOUR_MS;
+
+/**
+ * Learns seasonal baselines from hourly aggregates and compares recent runs
+ * against them.
+ */
+export class AnomalyService {
+  constructor(
+    private db: Db,
+    private collectorRegistry: CollectorRegistry,
+  ) {}
+
+  /**
+   * Recompute the baselines of all assignments with anomaly detection and
+   * drop baselines that are no longer watched.
+   */
+  async refreshBaselines(now = new Date()): Promise<number> {
+    const assignments = await this.db
+      .select({
+        systemId: systemHealthChecks.systemId,
+        configurationId: systemHealthChecks.configurationId,
+        stateThresholds: systemHealthChecks.stateThresholds,
+      })
+      .from(systemHealthChecks)
+      .where(eq(systemHealthChecks.enabled, true));
+
+    const watched = new Set<string>();
+    for (const assignment of assignments) {
+      const anomaly = await this.parseAnomalyDetection(
+        assignment.stateThresholds,
+      );
+      if (!anomaly) continue;
+
+      watched.add(`${assignment.configurationId}:${assignment.systemId}`);
+      await this.refreshAssignmentBaselines({ ...assignment, anomaly, now });
+    }
+
+    const stored = await this.db
+      .selectDistinct({
+        configurationId: healthCheckBaselines.configurationId,
+        systemId: healthCheckBaselines.systemId,
+      })
+      .from(healthCheckBaselines);
+    for (const { configurationId, systemId } of stored) {
+      if (watched.has(`${configurationId}:${systemId}`)) continue;
+      await this.db
+        .delete(healthCheckBaselines)
+        .where(
+          and(
+            eq(healthCheckBaselines.configurationId, configurationId),
+            eq(healthCheckBaselines.systemId, systemId),
+          ),
+        );
+    }
+
+    return watched.size;
+  }
+
+  private async refreshAssignmentBaselines(props: {
+    systemId: string;
+    configurationId: string;
+    anomaly: AnomalyDetection;
+    now: Date;
+  }) {
+    const { systemId, configurationId, anomaly, now } = props;
+
+    // The current hour is still filling up and would skew the baseline
+    const aggregates = await this.db
+      .select({
+        bucketStart: healthCheckAggregates.bucketStart,
+        avgLatencyMs: healthCheckAggregates.avgLatencyMs,
+        aggregatedResult: healthCheckAggregates.aggregatedResult,
+      })
+      .from(healthCheckAggregates)
+      .where(
+        and(
+          eq(healthCheckAggregates.configurationId, configurationId),
+          eq(healthCheckAggregates.systemId, systemId),
+          eq(healthCheckAggregates.bucketSize, "hourly"),
+          gte(
+            healthCheckAggregates.bucketStart,
+            new Date(now.getTime() - BASELINE_LOOKBACK_MS),
+          ),
+          lt(healthCheckAggregates.bucketStart, getHourBucketStart(now)),
+        ),
+      );
+
+    const samples = new Map<
+      string,
+      { value: MetricValue; samples: MetricSample[] }
+    >();
+    for (const aggregate of aggregates) {
+      const values = extractMetricValues({
+        avgLatencyMs: aggregate.avgLatencyMs ?? undefined,
+        aggregatedResult: aggregate.aggregatedResult ?? undefined,
+      });
+      for (const value of values) {
+        if (!anomaly.metrics.includes(value.metric)) continue;
+        const entry = samples.get(value.metric) ?? { value, samples: [] };
+        entry.samples.push({
+          timestamp: aggregate.bucketStart,
+          value: value.value,
+        });
+        samples.set(value.metric, entry);
+      }
+    }
+
+    for (const [metric, entry] of samples) {
+      const slots = computeBaselineSlots(entry.samples);
+      const label = this.getMetricLabel(entry.value);
+      await this.db
+        .insert(healthCheckBaselines)
+        .values({ configurationId, systemId, metric, label, slots })
+        .onConflictDoUpdate({
+          target: [
+            healthCheckBaselines.configurationId,
+            healthCheckBaselines.systemId,
+            healthCheckBaselines.metric,
+          ],
+          set: { label, slots, computedAt: now },
+        });
+    }
+
+    // Metrics that are no longer watched or no longer reported
+    await this.db
+      .delete(healthCheckBaselines)
+      .where(
+        and(
+          eq(healthCheckBaselines.configurationId, configurationId),
+          eq(healthCheckBaselines.systemId, systemId),
+          notInArray(healthCheckBaselines.metric, [...samples.keys()]),
+        ),
+      );
+  }
+
+  /**
+   * Compare the average of the most recent runs against the baseline of the
+   * hour of the week the newest run belongs to.
+   */
+  async detectAnomalies(props: {
+    systemId: string;
+    configurationId: string;
+    anomaly: AnomalyDetection;
+  }): Promise<DetectedAnomaly[]> {
+    const { systemId, configurationId, anomaly } = props;
+
+    const baselines = await this.db
+      .select()
+      .from(healthCheckBaselines)
+      .where(
+        and(
+          eq(healthCheckBaselines.configurationId, configurationId),
+          eq(healthCheckBaselines.systemId, systemId),
+          inArray(healthCheckBaselines.metric, anomaly.metrics),
+        ),
+      );
+    if (baselines.length === 0) return [];
+
+    const runs = await this.db
+      .select({
+        status: healthCheckRuns.status,
+        latencyMs: healthCheckRuns.latencyMs,
+        result: healthCheckRuns.result,
+        timestamp: healthCheckRuns.timestamp,
+      })
+      .from(healthCheckRuns)
+      .where(
+        and(
+          eq(healthCheckRuns.configurationId, configurationId),
+          eq(healthCheckRuns.systemId, systemId),
+        ),
+      )
+      .orderBy(desc(healthCheckRuns.timestamp))
+      .limit(anomaly.windowSize);
+    if (runs.length < anomaly.windowSize) return [];
+
+    const latencies = runs
+      .map((run) => run.latencyMs)
+      .filter((latency): latency is number => latency !== null);
+    let latencySum = 0;
+    for (const latency of latencies) latencySum += latency;
+
+    const observed = extractMetricValues({
+      avgLatencyMs:
+        latencies.length > 0 ? latencySum / latencies.length : undefined,
+      aggregatedResult: {
+        collectors: aggregateCollectorData(
+          runs.map((run) => ({
+            status: run.status,
+            latencyMs: run.latencyMs ?? undefined,
+            metadata: (
+              run.result as { metadata?: Record<string, unknown> } | null
+            )?.metadata,
+          })),
+          this.collectorRegistry,
+        ),
+      },
+    });
+
+    const hourOfWeek = getHourOfWeek(runs[0].timestamp);
+    return detectAnomalies({
+      observed,
+      baselines: baselines.flatMap((baseline) => {
+        const slot = baseline.slots.find((s) => s.hourOfWeek === hourOfWeek);
+        return slot
+          ? [
+              {
+                metric: baseline.metric,
+                label: baseline.label,
+                band: getBaselineBand(slot, anomaly.sensitivity),
+              },
+            ]
+          : [];
+      }),
+    });
+  }
+
+  /**
+   * Metrics of recent aggregates that can be watched, latency first.
+   */
+  async getAnomalyMetrics(props: {
+    systemId: string;
+    configurationId: string;
+  }): Promise<AnomalyMetric[]> {
+    const { systemId, configurationId } = props;
+
+    const aggregates = await this.db
+      .select({ aggregatedResult: healthCheckAggregates.aggregatedResult })
+      .from(healthCheckAggregates)
+      .where(
+        and(
+          eq(healthCheckAggregates.configurationId, configurationId),
+          eq(healthCheckAggregates.systemId, systemId),
+          eq(healthCheckAggregates.bucketSize, "hourly"),
+          gte(
+            healthCheckAggregates.bucketStart,
+            new Date(Date.now() - METRIC_DISCOVERY_MS),
+          ),
+        ),
+      );
+
+    const metrics = new Map<string, AnomalyMetric>([
+      [LATENCY_METRIC, { metric: LATENCY_METRIC, label: "Latency" }],
+    ]);
+    for (const aggregate of aggregates) {
+      const values = extractMetricValues({
+        aggregatedResult: aggregate.aggregatedResult ?? undefined,
+      });
+      for (const value of values) {
+        if (metrics.has(value.metric)) continue;
+        metrics.set(value.metric, {
+          metric: value.metric,
+          label: this.getMetricLabel(value),
+        });
+      }
+    }
+    return [...metrics.values()];
+  }
+
+  /**
+   * Learned baseline of a metric with the bands of the configured sensitivity.
+   */
+  async getBaseline(props: {
+    systemId: string;
+    configurationId: string;
+    metric: string;
+  }): Promise<AnomalyBaseline | undefined> {
+    const { systemId, configurationId, metric } = props;
+
+    const [assignment] = await this.db
+      .select({ stateThresholds: systemHealthChecks.stateThresholds })
+      .from(systemHealthChecks)
+      .where(
+        and(
+          eq(systemHealthChecks.systemId, systemId),
+          eq(systemHealthChecks.configurationId, configurationId),
+        ),
+      );
+    const anomaly = await this.parseAnomalyDetection(
+      assignment?.stateThresholds,
+    );
+    if (!anomaly?.metrics.includes(metric)) return undefined;
+
+    const [baseline] = await this.db
+      .select()
+      .from(healthCheckBaselines)
+      .where(
+        and(
+          eq(healthCheckBaselines.configurationId, configurationId),
+          eq(healthCheckBaselines.systemId, systemId),
+          eq(healthCheckBaselines.metric, metric),
+        ),
+      );
+    if (!baseline) return undefined;
+
+    return {
+      metric,
+      label: baseline.label,
+      sensitivity: anomaly.sensitivity,
+      computedAt: baseline.computedAt,
+      slots: baseline.slots.map((slot) =>
+        getBaselineBand(slot, anomaly.sensitivity),
+      ),
+    };
+  }
+
+  private async parseAnomalyDetection(
+    stored: (typeof systemHealthChecks.$inferSelect)["stateThresholds"],
+  ): Promise<AnomalyDetection | undefined> {
+    if (!stored) return undefined;
+    const thresholds: StateThresholds = await stateThresholds.parse(stored);
+    return thresholds.anomaly;
+  }
+
+  private getMetricLabel(value: MetricValue): string {
+    if (!value.collector) return "Latency";
+
+    const { collectorId, field } = value.collector;
+    const registered = this.collectorRegistry.getCollector(collectorId);
+    if (!registered) return field;
+
+    const { collector } = registered;
+    const fieldLabel =
+      collector.aggregatedResult.fields[field]?.meta["x-chart-label"] ?? field;
+    return `${collector.displayName}: ${fieldLabel}`;
+  }
+}
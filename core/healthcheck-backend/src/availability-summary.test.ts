@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test";
+import { TDigest } from "tdigest";
+import {
+  summarizeAvailability,
+  type SummaryAggregateBucket,
+} from "./availability-summary";
+import { serializeTDigest } from "./realtime-aggregation";
+
+function bucket(
+  overrides: Partial<SummaryAggregateBucket> = {},
+): SummaryAggregateBucket {
+  return {
+    systemId: "sys-1",
+    runCount: 10,
+    healthyCount: 10,
+    degradedCount: 0,
+    unhealthyCount: 0,
+    avgLatencyMs: null,
+    tdigestState: null,
+    ...overrides,
+  };
+}
+
+function digestOf(latencies: number[]): number[] {
+  const digest = new TDigest();
+  for (const latency of latencies) digest.push(latency);
+  digest.compress();
+  return serializeTDigest(digest);
+}
+
+describe("summarizeAvailability", () => {
+  it("returns an empty summary without buckets", () => {
+    const summary = summarizeAvailability("sys-1", []);
+
+    expect(summary.totalRuns).toBe(0);
+    expect(summary.availability).toBeUndefined();
+    expect(summary.p95LatencyMs).toBeUndefined();
+  });
+
+  it("sums run counts over all buckets", () => {
+    const summary = summarizeAvailability("sys-1", [
+      bucket({ runCount: 10, healthyCount: 10 }),
+      bucket({
+        runCount: 10,
+        healthyCount: 6,
+        degradedCount: 3,
+        unhealthyCount: 1,
+      }),
+    ]);
+
+    expect(summary.totalRuns).toBe(20);
+    expect(summary.healthyRuns).toBe(16);
+    expect(summary.degradedRuns).toBe(3);
+    expect(summary.unhealthyRuns).toBe(1);
+    expect(summary.availability).toBe(80);
+  });
+
+  it("merges t-digests for percentiles", () => {
+    const fast = Array.from({ length: 90 }, () => 100);
+    const slow = Array.from({ length: 10 }, () => 1000);
+    const summary = summarizeAvailability("sys-1", [
+      bucket({
+        runCount: 90,
+        healthyCount: 90,
+        avgLatencyMs: 100,
+        tdigestState: digestOf(fast),
+      }),
+      bucket({
+        runCount: 10,
+        healthyCount: 10,
+        avgLatencyMs: 1000,
+        tdigestState: digestOf(slow),
+      }),
+    ]);
+
+    expect(summary.avgLatencyMs).toBe(190);
+    expect(summary.p50LatencyMs).toBeLessThan(200);
+    expect(summary.p99LatencyMs).toBeGreaterThan(900);
+  });
+
+  it("falls back to the average latency of buckets without a digest", () => {
+    const summary = summarizeAvailability("sys-1", [
+      bucket({ runCount: 24, healthyCount: 24, avgLatencyMs: 250 }),
+    ]);
+
+    expect(summary.avgLatencyMs).toBe(250);
+    expect(summary.p95LatencyMs).toBe(250);
+  });
+});
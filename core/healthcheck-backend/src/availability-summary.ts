@@ -0,0 +1,68 @@
+import type { SystemAvailabilitySummary } from "@checkstack/healthcheck-common";
+import { TDigest } from "tdigest";
+import { deserializeTDigest } from "./realtime-aggregation";
+
+export interface SummaryAggregateBucket {
+  systemId: string;
+  runCount: number;
+  healthyCount: number;
+  degradedCount: number;
+  unhealthyCount: number;
+  avgLatencyMs: number | null;
+  tdigestState: number[] | null;
+}
+
+/**
+ * Combine the aggregates of a system into its availability summary.
+ * Percentiles come from the merged t-digests. Buckets without a digest
+ * contribute their average latency, weighted by their run count.
+ */
+export function summarizeAvailability(
+  systemId: string,
+  buckets: SummaryAggregateBucket[],
+): SystemAvailabilitySummary {
+  let totalRuns = 0;
+  let healthyRuns = 0;
+  let degradedRuns = 0;
+  let unhealthyRuns = 0;
+  let latencyWeight = 0;
+  let latencyWeightedSum = 0;
+  const digest = new TDigest();
+
+  for (const bucket of buckets) {
+    totalRuns += bucket.runCount;
+    healthyRuns += bucket.healthyCount;
+    degradedRuns += bucket.degradedCount;
+    unhealthyRuns += bucket.unhealthyCount;
+
+    if (bucket.avgLatencyMs === null) continue;
+    latencyWeight += bucket.runCount;
+    latencyWeightedSum += bucket.avgLatencyMs * bucket.runCount;
+
+    if (bucket.tdigestState && bucket.tdigestState.length > 0) {
+      digest.push_centroid(deserializeTDigest(bucket.tdigestState).toArray());
+    } else if (bucket.runCount > 0) {
+      digest.push_centroid([{ mean: bucket.avgLatencyMs, n: bucket.runCount }]);
+    }
+  }
+
+  const hasLatency = digest.size() > 0;
+  const percentile = (p: number) =>
+    hasLatency ? Math.round(digest.percentile(p)) : undefined;
+
+  return {
+    systemId,
+    totalRuns,
+    healthyRuns,
+    degradedRuns,
+    unhealthyRuns,
+    availability: totalRuns > 0 ? (healthyRuns / totalRuns) * 100 : undefined,
+    avgLatencyMs:
+      latencyWeight > 0
+        ? Math.round(latencyWeightedSum / latencyWeight)
+        : undefined,
+    p50LatencyMs: percentile(0.5),
+    p95LatencyMs: percentile(0.95),
+    p99LatencyMs: percentile(0.99),
+  };
+}
@@ -214,6 +214,54 @@ describe("HealthCheckService.getAvailabilityStats", () => {
     });
   });
 
+  describe("daily availability", () => {
+    it("returns 90 UTC day buckets with the current day last", async () => {
+      const result = await service.getAvailabilityStats({
+        systemId: "sys-1",
+        configurationId: "config-1",
+      });
+
+      expect(result.dailyAvailability).toHaveLength(90);
+      const lastDay = result.dailyAvailability.at(-1)!;
+      expect(lastDay.date.toISOString().slice(0, 10)).toBe(
+        new Date().toISOString().slice(0, 10),
+      );
+      expect(lastDay.availability).toBeNull();
+      expect(lastDay.totalRuns).toBe(0);
+    });
+
+    it("sums hourly and daily aggregates into their day", async () => {
+      const today = new Date();
+      today.setUTCHours(0, 30, 0, 0);
+      mockHourlyAggregates = [
+        { bucketStart: today, runCount: 10, healthyCount: 9 },
+        {
+          bucketStart: new Date(today.getTime() + 60 * 60 * 1000),
+          runCount: 10,
+          healthyCount: 10,
+        },
+      ];
+      mockDailyAggregates = [
+        { bucketStart: subDays(today, 60), runCount: 100, healthyCount: 50 },
+        // Outside the 90 day window
+        { bucketStart: subDays(today, 120), runCount: 100, healthyCount: 0 },
+      ];
+
+      const result = await service.getAvailabilityStats({
+        systemId: "sys-1",
+        configurationId: "config-1",
+      });
+
+      const lastDay = result.dailyAvailability.at(-1)!;
+      expect(lastDay.totalRuns).toBe(20);
+      expect(lastDay.availability).toBe(95);
+      expect(result.dailyAvailability.at(-61)!.availability).toBe(50);
+      expect(
+        result.dailyAvailability.reduce((sum, day) => sum + day.totalRuns, 0),
+      ).toBe(120);
+    });
+  });
+
   describe("real-time incremental aggregation behavior", () => {
     it("uses hourly aggregates directly without raw run queries", async () => {
       mockHourlyAggregates = [
@@ -13,4 +13,9 @@ describe("Health Check Hooks", () => {
       "healthcheck.system.healthy"
     );
   });
+
+  it("should have SLO burn-rate hooks with correct IDs", () => {
+    expect(healthCheckHooks.sloBurning.id).toBe("healthcheck.slo.burning");
+    expect(healthCheckHooks.sloRecovered.id).toBe("healthcheck.slo.recovered");
+  });
 });
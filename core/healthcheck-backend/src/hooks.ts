@@ -32,4 +32,36 @@ export const healthCheckHooks = {
     totalChecks: number;
     timestamp: string;
   }>("healthcheck.system.healthy"),
+
+  /**
+   * Emitted when an SLO starts burning its error budget too fast, or when an
+   * alert escalates from "ticket" to "page".
+   * Both the long and the short window exceed the burn-rate threshold.
+   */
+  sloBurning: createHook<{
+    sloId: string;
+    sloName: string;
+    scopeType: string;
+    scopeId: string;
+    severity: string;
+    burnRate: number;
+    threshold: number;
+    longWindowMinutes: number;
+    shortWindowMinutes: number;
+    errorBudgetRemaining?: number;
+    timestamp: string;
+  }>("healthcheck.slo.burning"),
+
+  /**
+   * Emitted when no burn-rate alert of an SLO fires anymore.
+   */
+  sloRecovered: createHook<{
+    sloId: string;
+    sloName: string;
+    scopeType: string;
+    scopeId: string;
+    previousSeverity: string;
+    errorBudgetRemaining?: number;
+    timestamp: string;
+  }>("healthcheck.slo.recovered"),
 } as const;
@@ -1,8 +1,14 @@
 import {
   setupHealthCheckWorker,
   bootstrapHealthChecks,
+  recordHealthCheckRun,
+  type RecordHealthCheckRunDeps,
 } from "./queue-executor";
 import { setupRetentionJob } from "./retention-job";
+import { setupSloAlertJob } from "./slo-alert-job";
+import { SloService } from "./slo-service";
+import { setupAnomalyBaselineJob } from "./anomaly-baseline-job";
+import { AnomalyService } from "./anomaly-service";
 import * as schema from "./schema";
 import {
   healthCheckAccessRules,
@@ -25,6 +31,7 @@ import { catalogHooks } from "@checkstack/catalog-backend";
 import { CatalogApi } from "@checkstack/catalog-common";
 import { MaintenanceApi } from "@checkstack/maintenance-common";
 import { IncidentApi } from "@checkstack/incident-common";
+import { OncallApi } from "@checkstack/oncall-common";
 import { healthCheckHooks } from "./hooks";
 import { registerSearchProvider } from "@checkstack/command-backend";
 import { resolveRoute } from "@checkstack/common";
@@ -52,6 +59,30 @@ const systemHealthyPayloadSchema = z.object({
   timestamp: z.string(),
 });
 
+const sloBurningPayloadSchema = z.object({
+  sloId: z.string(),
+  sloName: z.string(),
+  scopeType: z.string(),
+  scopeId: z.string(),
+  severity: z.string(),
+  burnRate: z.number(),
+  threshold: z.number(),
+  longWindowMinutes: z.number(),
+  shortWindowMinutes: z.number(),
+  errorBudgetRemaining: z.number().optional(),
+  timestamp: z.string(),
+});
+
+const sloRecoveredPayloadSchema = z.object({
+  sloId: z.string(),
+  sloName: z.string(),
+  scopeType: z.string(),
+  scopeId: z.string(),
+  previousSeverity: z.string(),
+  errorBudgetRemaining: z.number().optional(),
+  timestamp: z.string(),
+});
+
 // Store emitHook reference for use during Phase 2 init
 let storedEmitHook: EmitHookFn | undefined;
 
@@ -88,6 +119,29 @@ export default createBackendPlugin({
       pluginMetadata,
     );
 
+    integrationEvents.registerEvent(
+      {
+        hook: healthCheckHooks.sloBurning,
+        displayName: "SLO Error Budget Burning",
+        description:
+          "Fired when an SLO consumes its error budget too fast in both a long and a short window",
+        category: "Health",
+        payloadSchema: sloBurningPayloadSchema,
+      },
+      pluginMetadata,
+    );
+
+    integrationEvents.registerEvent(
+      {
+        hook: healthCheckHooks.sloRecovered,
+        displayName: "SLO Burn Rate Recovered",
+        description: "Fired when no burn-rate alert of an SLO fires anymore",
+        category: "Health",
+        payloadSchema: sloRecoveredPayloadSchema,
+      },
+      pluginMetadata,
+    );
+
     env.registerInit({
       schema,
       deps: {
@@ -112,7 +166,7 @@ export default createBackendPlugin({
       }) => {
         logger.debug("🏥 Initializing Health Check Backend...");
 
-        // Create catalog client for notification delegation
+        // Create catalog client for notification delegation and dependency lookups
         const catalogClient = rpcClient.forPlugin(CatalogApi);
 
         // Create maintenance client for notification suppression checks
@@ -121,19 +175,25 @@ export default createBackendPlugin({
         // Create incident client for notification suppression checks
         const incidentClient = rpcClient.forPlugin(IncidentApi);
 
-        // Setup queue-based health check worker
-        await setupHealthCheckWorker({
+        // Create on-call client for escalating state changes
+        const oncallClient = rpcClient.forPlugin(OncallApi);
+
+        // Shared by the queue worker and results submitted by probe agents
+        const runDeps: RecordHealthCheckRunDeps = {
           db: database,
           registry: healthCheckRegistry,
           collectorRegistry,
           logger,
-          queueManager,
           signalService,
           catalogClient,
           maintenanceClient,
           incidentClient,
+          oncallClient,
           getEmitHook: () => storedEmitHook,
-        });
+        };
+
+        // Setup queue-based health check worker
+        await setupHealthCheckWorker({ ...runDeps, queueManager });
 
         // Setup retention job for tiered storage (daily aggregation)
         await setupRetentionJob({
@@ -142,10 +202,33 @@ export default createBackendPlugin({
           queueManager,
         });
 
+        // SLOs exclude planned maintenance and emit burn-rate alerts
+        const sloService = new SloService(
+          database,
+          catalogClient,
+          maintenanceClient,
+        );
+        await setupSloAlertJob({
+          sloService,
+          logger,
+          queueManager,
+          getEmitHook: () => storedEmitHook,
+        });
+
+        // Anomaly detection compares runs against baselines learned hourly
+        await setupAnomalyBaselineJob({
+          anomalyService: new AnomalyService(database, collectorRegistry),
+          logger,
+          queueManager,
+        });
+
         const healthCheckRouter = createHealthCheckRouter(
           database as SafeDatabase<typeof schema>,
           healthCheckRegistry,
           collectorRegistry,
+          catalogClient,
+          (run) => recordHealthCheckRun({ ...runDeps, ...run }),
+          sloService,
         );
         rpc.registerRouter(healthCheckRouter, healthCheckContract);
 
@@ -185,6 +268,7 @@ export default createBackendPlugin({
         emitHook,
         healthCheckRegistry,
         collectorRegistry,
+        rpcClient,
       }) => {
         // Store emitHook for the queue worker (Closure-based Hook Getter pattern)
         storedEmitHook = emitHook;
@@ -201,6 +285,11 @@ export default createBackendPlugin({
           healthCheckRegistry,
           collectorRegistry,
         );
+        const sloService = new SloService(
+          database,
+          rpcClient.forPlugin(CatalogApi),
+          rpcClient.forPlugin(MaintenanceApi),
+        );
         onHook(
           catalogHooks.systemDeleted,
           async (payload) => {
@@ -208,10 +297,19 @@ export default createBackendPlugin({
               `Cleaning up health check associations for deleted system: ${payload.systemId}`,
             );
             await service.removeAllSystemAssociations(payload.systemId);
+            await sloService.deleteSlosForScope("system", payload.systemId);
           },
           { mode: "work-queue", workerGroup: "system-cleanup" },
         );
 
+        onHook(
+          catalogHooks.groupDeleted,
+          async (payload) => {
+            await sloService.deleteSlosForScope("group", payload.groupId);
+          },
+          { mode: "work-queue", workerGroup: "slo-group-cleanup" },
+        );
+
         logger.debug("✅ Health Check Backend afterPluginsReady complete.");
       },
     });
@@ -0,0 +1,239 @@
+import type {
+  ProbeAgent,
+  ProbeAgentJob,
+  ProbeAgentRegions,
+} from "@checkstack/healthcheck-common";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import { and, asc, eq, inArray, isNull, lt, notInArray, or } from "drizzle-orm";
+import {
+  healthCheckConfigurations,
+  probeAgentJobs,
+  probeAgentRegions,
+  probeAgents,
+} from "./schema";
+import * as schema from "./schema";
+
+type Db = SafeDatabase<typeof schema>;
+
+/**
+ * Claimed jobs without a result after this long are handed out again,
+ * e.g. when an agent crashed mid-execution.
+ */
+export const PROBE_AGENT_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Job queue and heartbeat tracking for remote probe agents.
+ *
+ * The queue worker enqueues one job per remote region on every scheduled run.
+ * Agents poll for jobs of their region and submit results, which removes the job.
+ * Admins assign the regions an agent application may serve.
+ */
+export class ProbeAgentService {
+  constructor(private db: Db) {}
+
+  /**
+   * Enqueue jobs for the given remote regions.
+   * Pending jobs for the same check and region are replaced, so a region
+   * without a running agent never accumulates more than one job.
+   */
+  async enqueueJobs(props: {
+    configurationId: string;
+    systemId: string;
+    regions: string[];
+  }): Promise<void> {
+    const { configurationId, systemId, regions } = props;
+    if (regions.length === 0) return;
+
+    await this.db
+      .delete(probeAgentJobs)
+      .where(
+        and(
+          eq(probeAgentJobs.configurationId, configurationId),
+          eq(probeAgentJobs.systemId, systemId),
+          inArray(probeAgentJobs.region, regions),
+          this.isClaimable(),
+        ),
+      );
+
+    await this.db
+      .insert(probeAgentJobs)
+      .values(regions.map((region) => ({ configurationId, systemId, region })));
+  }
+
+  /**
+   * Claim up to `limit` pending jobs for a region and record the agent's heartbeat.
+   */
+  async claimJobs(props: {
+    applicationId: string;
+    name: string;
+    region: string;
+    limit: number;
+  }): Promise<ProbeAgentJob[]> {
+    const { applicationId, name, region, limit } = props;
+    const now = new Date();
+
+    await this.db
+      .insert(probeAgents)
+      .values({ applicationId, name, region, lastSeenAt: now })
+      .onConflictDoUpdate({
+        target: [probeAgents.applicationId, probeAgents.region],
+        set: { name, lastSeenAt: now },
+      });
+
+    const candidates = await this.db
+      .select({
+        jobId: probeAgentJobs.id,
+        configurationId: probeAgentJobs.configurationId,
+        systemId: probeAgentJobs.systemId,
+        strategyId: healthCheckConfigurations.strategyId,
+        config: healthCheckConfigurations.config,
+        collectors: healthCheckConfigurations.collectors,
+      })
+      .from(probeAgentJobs)
+      .innerJoin(
+        healthCheckConfigurations,
+        eq(probeAgentJobs.configurationId, healthCheckConfigurations.id),
+      )
+      .where(and(eq(probeAgentJobs.region, region), this.isClaimable()))
+      .orderBy(asc(probeAgentJobs.createdAt))
+      .limit(limit);
+
+    if (candidates.length === 0) return [];
+
+    // Conditional update so concurrent agents of the same region
+    // never claim the same job twice
+    const claimed = await this.db
+      .update(probeAgentJobs)
+      .set({ claimedAt: now, claimedBy: applicationId })
+      .where(
+        and(
+          inArray(
+            probeAgentJobs.id,
+            candidates.map((c) => c.jobId),
+          ),
+          this.isClaimable(),
+        ),
+      )
+      .returning({ id: probeAgentJobs.id });
+
+    const claimedIds = new Set(claimed.map((c) => c.id));
+    return candidates
+      .filter((c) => claimedIds.has(c.jobId))
+      .map((c) => ({ ...c, collectors: c.collectors ?? [] }));
+  }
+
+  /**
+   * Remove a job once its result was submitted.
+   * Returns undefined if the job does not exist, was claimed by another agent
+   * or belongs to a region outside of `regions`.
+   */
+  async completeJob(props: {
+    jobId: string;
+    applicationId: string;
+    regions: string[];
+  }): Promise<
+    | {
+        configurationId: string;
+        systemId: string;
+        region: string;
+      }
+    | undefined
+  > {
+    const [job] = await this.db
+      .delete(probeAgentJobs)
+      .where(
+        and(
+          eq(probeAgentJobs.id, props.jobId),
+          eq(probeAgentJobs.claimedBy, props.applicationId),
+          inArray(probeAgentJobs.region, props.regions),
+        ),
+      )
+      .returning({
+        configurationId: probeAgentJobs.configurationId,
+        systemId: probeAgentJobs.systemId,
+        region: probeAgentJobs.region,
+      });
+    return job;
+  }
+
+  async getAgents(): Promise<ProbeAgent[]> {
+    return this.db
+      .select()
+      .from(probeAgents)
+      .orderBy(asc(probeAgents.region), asc(probeAgents.name));
+  }
+
+  /** Regions an application is assigned to */
+  async getAssignedRegions(applicationId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ region: probeAgentRegions.region })
+      .from(probeAgentRegions)
+      .where(eq(probeAgentRegions.applicationId, applicationId))
+      .orderBy(asc(probeAgentRegions.region));
+    return rows.map((row) => row.region);
+  }
+
+  /** Region assignments of all applications */
+  async getRegionAssignments(): Promise<ProbeAgentRegions[]> {
+    const rows = await this.db
+      .select()
+      .from(probeAgentRegions)
+      .orderBy(asc(probeAgentRegions.region));
+
+    const assignments = new Map<string, string[]>();
+    for (const { applicationId, region } of rows) {
+      assignments.set(applicationId, [
+        ...(assignments.get(applicationId) ?? []),
+        region,
+      ]);
+    }
+    return [...assignments].map(([applicationId, regions]) => ({
+      applicationId,
+      regions,
+    }));
+  }
+
+  /**
+   * Replace the regions of an application.
+   * Heartbeats of regions it no longer serves are removed.
+   */
+  async setAssignedRegions({
+    applicationId,
+    regions,
+  }: ProbeAgentRegions): Promise<ProbeAgentRegions> {
+    const unique = [...new Set(regions)].toSorted();
+
+    await this.db
+      .delete(probeAgentRegions)
+      .where(eq(probeAgentRegions.applicationId, applicationId));
+    if (unique.length > 0) {
+      await this.db
+        .insert(probeAgentRegions)
+        .values(unique.map((region) => ({ applicationId, region })));
+    }
+
+    await this.db
+      .delete(probeAgents)
+      .where(
+        and(
+          eq(probeAgents.applicationId, applicationId),
+          unique.length > 0
+            ? notInArray(probeAgents.region, unique)
+            : undefined,
+        ),
+      );
+
+    return { applicationId, regions: unique };
+  }
+
+  /** Unclaimed jobs, or claims that timed out */
+  private isClaimable() {
+    return or(
+      isNull(probeAgentJobs.claimedAt),
+      lt(
+        probeAgentJobs.claimedAt,
+        new Date(Date.now() - PROBE_AGENT_CLAIM_TIMEOUT_MS),
+      ),
+    );
+  }
+}
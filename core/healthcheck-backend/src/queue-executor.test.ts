@@ -3,6 +3,7 @@ import {
   setupHealthCheckWorker,
   scheduleHealthCheck,
   bootstrapHealthChecks,
+  notifyStateChange,
   type HealthCheckJobPayload,
 } from "./queue-executor";
 import {
@@ -61,6 +62,8 @@ const createMockCollectorRegistry = () => ({
 // Helper to create mock catalog client for notification delegation
 const createMockCatalogClient = () => ({
   notifySystemSubscribers: mock(async () => ({ notifiedCount: 0 })),
+  // Used for upstream-aware health evaluation
+  getDependencyGraph: mock(async () => ({ dependencies: [] })),
   // Other methods not used in queue-executor
   getEntities: mock(async () => ({ systems: [], groups: [] })),
   getSystems: mock(async () => ({ systems: [] })),
@@ -111,6 +114,29 @@ const createMockIncidentClient = () => ({
   deleteIncident: mock(async () => ({ success: true })),
 });
 
+// Helper to create mock on-call client for escalations
+const createMockOncallClient = () => ({
+  triggerEscalations: mock(async () => ({ escalationIds: [] })),
+  resolveEscalations: mock(async () => ({ resolvedCount: 0 })),
+});
+
+// Helper to create mock alert state service without acknowledgements
+const createMockAlertStateService = () => {
+  let outageSuppressed = false;
+  return {
+    getState: mock(async () => undefined),
+    clearAcknowledgement: mock(async () => {}),
+    isOutageSuppressedByUpstream: mock(async () => outageSuppressed),
+    setOutageSuppressedByUpstream: mock(
+      async (_systemId: string, suppressed: boolean) => {
+        outageSuppressed = suppressed;
+      },
+    ),
+  };
+};
+
+type NotifyStateChangeProps = Parameters<typeof notifyStateChange>[0];
+
 describe("Queue-Based Health Check Executor", () => {
   describe("scheduleHealthCheck", () => {
     it("should enqueue a health check with delay and deterministic jobId", async () => {
@@ -165,6 +191,7 @@ describe("Queue-Based Health Check Executor", () => {
       const mockCatalogClient = createMockCatalogClient();
       const mockMaintenanceClient = createMockMaintenanceClient();
       const mockIncidentClient = createMockIncidentClient();
+      const mockOncallClient = createMockOncallClient();
 
       await setupHealthCheckWorker({
         db: mockDb as unknown as Parameters<
@@ -187,6 +214,9 @@ describe("Queue-Based Health Check Executor", () => {
         incidentClient: mockIncidentClient as unknown as Parameters<
           typeof setupHealthCheckWorker
         >[0]["incidentClient"],
+        oncallClient: mockOncallClient as unknown as Parameters<
+          typeof setupHealthCheckWorker
+        >[0]["oncallClient"],
         getEmitHook: () => undefined,
       });
 
@@ -297,6 +327,7 @@ describe("Queue-Based Health Check Executor", () => {
       const mockCatalogClient = createMockCatalogClient();
       const mockMaintenanceClient = createMockMaintenanceClient();
       const mockIncidentClient = createMockIncidentClient();
+      const mockOncallClient = createMockOncallClient();
       const mockSignalService = createMockSignalService();
 
       // Mock the database to return a paused configuration
@@ -304,16 +335,7 @@ describe("Queue-Based Health Check Executor", () => {
       (mockDb.select as any) = mock(() => {
         selectCallCount++;
         if (selectCallCount === 1) {
-          // First call: get previous system health status
-          return {
-            from: mock(() => ({
-              innerJoin: mock(() => ({
-                where: mock(() => Promise.resolve([])),
-              })),
-            })),
-          };
-        } else if (selectCallCount === 2) {
-          // Second call: fetch configuration (return paused config)
+          // First call: fetch configuration (return paused config)
           return {
             from: mock(() => ({
               innerJoin: mock(() => ({
@@ -380,6 +402,9 @@ describe("Queue-Based Health Check Executor", () => {
         incidentClient: mockIncidentClient as unknown as Parameters<
           typeof setupHealthCheckWorker
         >[0]["incidentClient"],
+        oncallClient: mockOncallClient as unknown as Parameters<
+          typeof setupHealthCheckWorker
+        >[0]["oncallClient"],
         getEmitHook: () => undefined,
       });
 
@@ -399,4 +424,118 @@ describe("Queue-Based Health Check Executor", () => {
       expect(mockSignalService.getRecordedSignals()).toHaveLength(0);
     });
   });
+
+  describe("notifyStateChange", () => {
+    const createProps = ({
+      incidentSuppression = true,
+    }: { incidentSuppression?: boolean } = {}) => {
+      const catalogClient = createMockCatalogClient();
+      const incidentClient = createMockIncidentClient();
+      const oncallClient = createMockOncallClient();
+      const alertStateService = createMockAlertStateService();
+      // An incident with notification suppression is open for the system
+      incidentClient.hasActiveIncidentWithSuppression = mock(async () => ({
+        suppressed: incidentSuppression,
+      }));
+
+      const props: Omit<
+        NotifyStateChangeProps,
+        "previousStatus" | "newStatus"
+      > = {
+        systemId: "system-1",
+        impactedByUpstreams: [],
+        catalogClient:
+          catalogClient as unknown as NotifyStateChangeProps["catalogClient"],
+        maintenanceClient:
+          createMockMaintenanceClient() as unknown as NotifyStateChangeProps["maintenanceClient"],
+        incidentClient:
+          incidentClient as unknown as NotifyStateChangeProps["incidentClient"],
+        oncallClient:
+          oncallClient as unknown as NotifyStateChangeProps["oncallClient"],
+        alertStateService:
+          alertStateService as unknown as NotifyStateChangeProps["alertStateService"],
+        logger: createMockLogger(),
+      };
+      return { props, catalogClient, oncallClient };
+    };
+
+    it("resolves escalations on recovery while an incident suppresses notifications", async () => {
+      const { props, catalogClient, oncallClient } = createProps();
+
+      await notifyStateChange({
+        ...props,
+        previousStatus: "unhealthy",
+        newStatus: "healthy",
+      });
+
+      expect(oncallClient.resolveEscalations).toHaveBeenCalledWith({
+        systemId: "system-1",
+      });
+      expect(catalogClient.notifySystemSubscribers).not.toHaveBeenCalled();
+    });
+
+    it("does not trigger escalations while an incident suppresses notifications", async () => {
+      const { props, catalogClient, oncallClient } = createProps();
+
+      await notifyStateChange({
+        ...props,
+        previousStatus: "healthy",
+        newStatus: "unhealthy",
+      });
+
+      expect(oncallClient.triggerEscalations).not.toHaveBeenCalled();
+      expect(oncallClient.resolveEscalations).not.toHaveBeenCalled();
+      expect(catalogClient.notifySystemSubscribers).not.toHaveBeenCalled();
+    });
+
+    it("skips outage and recovery caused by an upstream outage", async () => {
+      const { props, catalogClient } = createProps({
+        incidentSuppression: false,
+      });
+
+      await notifyStateChange({
+        ...props,
+        previousStatus: "healthy",
+        newStatus: "degraded",
+        impactedByUpstreams: ["upstream-1"],
+      });
+      await notifyStateChange({
+        ...props,
+        previousStatus: "degraded",
+        newStatus: "healthy",
+      });
+
+      expect(catalogClient.notifySystemSubscribers).not.toHaveBeenCalled();
+    });
+
+    it("sends the recovery of an own outage while the upstream is still down", async () => {
+      const { props, catalogClient } = createProps({
+        incidentSuppression: false,
+      });
+
+      // The system fails on its own, then its upstream fails as well
+      await notifyStateChange({
+        ...props,
+        previousStatus: "healthy",
+        newStatus: "degraded",
+      });
+      await notifyStateChange({
+        ...props,
+        previousStatus: "degraded",
+        newStatus: "unhealthy",
+        impactedByUpstreams: ["upstream-1"],
+      });
+      await notifyStateChange({
+        ...props,
+        previousStatus: "unhealthy",
+        newStatus: "healthy",
+        impactedByUpstreams: ["upstream-1"],
+      });
+
+      expect(catalogClient.notifySystemSubscribers).toHaveBeenCalledTimes(2);
+      expect(catalogClient.notifySystemSubscribers).toHaveBeenLastCalledWith(
+        expect.objectContaining({ title: "System health restored" }),
+      );
+    });
+  });
 });
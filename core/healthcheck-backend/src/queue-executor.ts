@@ -3,11 +3,8 @@ import {
   Logger,
   type EmitHookFn,
   type CollectorRegistry,
-  evaluateAssertions,
   type SafeDatabase,
-  type BaseStrategyConfig,
-  type ConnectedClient,
-  type TransportClient,
+  runHealthCheck,
 } from "@checkstack/backend-api";
 import { QueueManager } from "@checkstack/queue-api";
 import {
@@ -21,20 +18,32 @@ import { type SignalService } from "@checkstack/signal-common";
 import {
   HEALTH_CHECK_RUN_COMPLETED,
   type HealthCheckStatus,
-  stripEphemeralFields,
+  healthcheckRoutes,
+  LOCAL_REGION,
+  resolveRegions,
+  type HealthCheckSchedule,
 } from "@checkstack/healthcheck-common";
 import { CatalogApi, catalogRoutes } from "@checkstack/catalog-common";
 import { MaintenanceApi } from "@checkstack/maintenance-common";
 import { IncidentApi } from "@checkstack/incident-common";
+import { OncallApi } from "@checkstack/oncall-common";
 import { resolveRoute, type InferClient } from "@checkstack/common";
 import { HealthCheckService } from "./service";
 import { healthCheckHooks } from "./hooks";
 import { incrementHourlyAggregate } from "./realtime-aggregation";
+import { ProbeAgentService } from "./probe-agent-service";
+import { AlertStateService, getAlertSuppression } from "./alert-state-service";
+import {
+  getRecurringSchedule,
+  getSkipReason,
+  getTickSeconds,
+} from "./schedule";
 
 type Db = SafeDatabase<typeof schema>;
 type CatalogClient = InferClient<typeof CatalogApi>;
 type MaintenanceClient = InferClient<typeof MaintenanceApi>;
 type IncidentClient = InferClient<typeof IncidentApi>;
+type OncallClient = InferClient<typeof OncallApi>;
 
 /**
  * Payload for health check queue jobs
@@ -42,6 +51,8 @@ type IncidentClient = InferClient<typeof IncidentApi>;
 export interface HealthCheckJobPayload {
   configId: string;
   systemId: string;
+  /** Manually triggered runs bypass the schedule's active hours */
+  manual?: boolean;
 }
 
 /**
@@ -59,6 +70,7 @@ const WORKER_GROUP = "health-check-executor";
  * @param queueManager - Queue manager service
  * @param payload - Health check job payload
  * @param intervalSeconds - Interval between executions
+ * @param schedule - Optional cron or active hours schedule replacing the interval
  * @param startDelay - Optional delay before first execution (for delta-based scheduling)
  * @param logger - Optional logger
  */
@@ -66,6 +78,7 @@ export async function scheduleHealthCheck(props: {
   queueManager: QueueManager;
   payload: HealthCheckJobPayload;
   intervalSeconds: number;
+  schedule?: HealthCheckSchedule | null;
   startDelay?: number;
   logger?: Logger;
 }): Promise<string> {
@@ -73,6 +86,7 @@ export async function scheduleHealthCheck(props: {
     queueManager,
     payload,
     intervalSeconds,
+    schedule,
     startDelay = 0,
     logger,
   } = props;
@@ -82,38 +96,53 @@ export async function scheduleHealthCheck(props: {
 
   const jobId = `healthcheck:${payload.configId}:${payload.systemId}`;
 
+  const recurringSchedule = getRecurringSchedule(intervalSeconds, schedule);
+
   logger?.debug(
-    `Scheduling recurring health check ${jobId} with interval ${intervalSeconds}s, startDelay ${startDelay}s`,
+    recurringSchedule.cronPattern
+      ? `Scheduling recurring health check ${jobId} with cron "${recurringSchedule.cronPattern}" (${recurringSchedule.timezone})`
+      : `Scheduling recurring health check ${jobId} with interval ${recurringSchedule.intervalSeconds}s, startDelay ${startDelay}s`,
   );
 
   return queue.scheduleRecurring(payload, {
     jobId,
-    intervalSeconds,
+    ...recurringSchedule,
     startDelay,
     priority: 0,
   });
 }
 
 /**
- * Notify system subscribers about a health state change.
- * Skips notification if the system has active maintenance or incident with suppression enabled.
+ * Notify system subscribers about a health state change and trigger or
+ * resolve on-call escalations.
+ * Skips notification if the system has active maintenance or incident with suppression enabled,
+ * if the change is caused by a known upstream outage, or if the alert was acknowledged or snoozed.
+ * Acknowledgements are cleared and escalations resolved once the system
+ * recovers, regardless of notification suppression.
  */
-async function notifyStateChange(props: {
+export async function notifyStateChange(props: {
   systemId: string;
   previousStatus: HealthCheckStatus;
   newStatus: HealthCheckStatus;
+  /** Unhealthy upstream systems at the time of the new evaluation */
+  impactedByUpstreams: string[];
   catalogClient: CatalogClient;
   maintenanceClient: MaintenanceClient;
   incidentClient: IncidentClient;
+  oncallClient: OncallClient;
+  alertStateService: AlertStateService;
   logger: Logger;
 }): Promise<void> {
   const {
     systemId,
     previousStatus,
     newStatus,
+    impactedByUpstreams,
     catalogClient,
     maintenanceClient,
     incidentClient,
+    oncallClient,
+    alertStateService,
     logger,
   } = props;
 
@@ -122,6 +151,71 @@ async function notifyStateChange(props: {
     return;
   }
 
+  // An acknowledgement only lasts until the system recovers
+  if (newStatus === "healthy") {
+    try {
+      await alertStateService.clearAcknowledgement(systemId);
+    } catch (error) {
+      logger.warn(
+        `Failed to clear alert acknowledgement for ${systemId}:`,
+        error,
+      );
+    }
+
+    // Suppression only silences new alerts, running escalations must stop
+    // paging once the system recovers
+    try {
+      const { resolvedCount } = await oncallClient.resolveEscalations({
+        systemId,
+      });
+      logger.debug(
+        `Resolved ${resolvedCount} escalations for system ${systemId}`,
+      );
+    } catch (error) {
+      logger.warn(
+        `Failed to resolve on-call escalations for system ${systemId}:`,
+        error,
+      );
+    }
+  }
+
+  // Subscribers of the upstream system are already notified about the outage.
+  // Recoveries are only skipped if the matching outage alert was skipped,
+  // a system can fail on its own before its upstream does.
+  let outageSuppressed = false;
+  try {
+    outageSuppressed =
+      await alertStateService.isOutageSuppressedByUpstream(systemId);
+  } catch (error) {
+    logger.warn(`Failed to read upstream suppression for ${systemId}:`, error);
+  }
+  const causedByUpstream =
+    newStatus === "healthy" ? outageSuppressed : impactedByUpstreams.length > 0;
+  // Once an alert for the outage was sent, its recovery is sent too
+  const suppressOutage =
+    newStatus !== "healthy" &&
+    causedByUpstream &&
+    (previousStatus === "healthy" || outageSuppressed);
+  if (suppressOutage !== outageSuppressed) {
+    try {
+      await alertStateService.setOutageSuppressedByUpstream(
+        systemId,
+        suppressOutage,
+      );
+    } catch (error) {
+      logger.warn(
+        `Failed to store upstream suppression for ${systemId}:`,
+        error,
+      );
+    }
+  }
+  if (causedByUpstream) {
+    logger.debug(
+      `Skipping notification for ${systemId}: caused by upstream outage`,
+    );
+    return;
+  }
+
   // Check if notifications should be suppressed due to active maintenance
   try {
     const { suppressed } =
@@ -158,6 +252,25 @@ async function notifyStateChange(props: {
     );
   }
 
+  // Check if the alert was acknowledged or snoozed by a user
+  try {
+    const suppression = getAlertSuppression(
+      await alertStateService.getState(systemId),
+      { newStatus, now: new Date() },
+    );
+    if (suppression) {
+      logger.debug(
+        `Skipping notification for ${systemId}: alert is ${suppression}`,
+      );
+      return;
+    }
+  } catch (error) {
+    logger.warn(
+      `Failed to check alert state for ${systemId}, proceeding with notification:`,
+      error,
+    );
+  }
+
   const isRecovery = newStatus === "healthy" && previousStatus !== "healthy";
   const isDegraded = newStatus === "degraded";
   const isUnhealthy = newStatus === "unhealthy";
@@ -188,6 +301,15 @@ async function notifyStateChange(props: {
   const systemDetailPath = resolveRoute(catalogRoutes.routes.systemDetail, {
     systemId,
   });
+  const alertPath = resolveRoute(healthcheckRoutes.routes.alert, { systemId });
+
+  // Let recipients take ownership of the alert or silence it for a while
+  const alertActions = isRecovery
+    ? undefined
+    : [
+        { label: "Acknowledge", url: `${alertPath}?action=acknowledge` },
+        { label: "Snooze 1h", url: `${alertPath}?action=snooze&minutes=60` },
+      ];
 
   try {
     await catalogClient.notifySystemSubscribers({
@@ -196,6 +318,7 @@ async function notifyStateChange(props: {
       body,
       importance,
       action: { label: "View System", url: systemDetailPath },
+      actions: alertActions,
       includeGroupSubscribers: true,
     });
     logger.debug(
@@ -208,13 +331,34 @@ async function notifyStateChange(props: {
       error,
     );
   }
+
+  // Page on-call responders according to the system's escalation policies.
+  // Recoveries already resolved them above.
+  if (isRecovery) {
+    return;
+  }
+  try {
+    const { escalationIds } = await oncallClient.triggerEscalations({
+      systemId,
+      title,
+      body,
+      importance,
+    });
+    logger.debug(
+      `Triggered ${escalationIds.length} escalations for system ${systemId}`,
+    );
+  } catch (error) {
+    logger.warn(
+      `Failed to trigger on-call escalations for system ${systemId}:`,
+      error,
+    );
+  }
 }
 
 /**
- * Execute a health check job
+ * Dependencies for storing a health check run and reacting to state changes.
  */
-async function executeHealthCheckJob(props: {
-  payload: HealthCheckJobPayload;
+export interface RecordHealthCheckRunDeps {
   db: Db;
   registry: HealthCheckRegistry;
   collectorRegistry: CollectorRegistry;
@@ -223,10 +367,33 @@ async function executeHealthCheckJob(props: {
   catalogClient: CatalogClient;
   maintenanceClient: MaintenanceClient;
   incidentClient: IncidentClient;
+  oncallClient: OncallClient;
   getEmitHook: () => EmitHookFn | undefined;
-}): Promise<void> {
+}
+
+/**
+ * A single health check run to be stored.
+ */
+export interface HealthCheckRunRecord {
+  configurationId: string;
+  systemId: string;
+  region: string;
+  status: HealthCheckStatus;
+  latencyMs?: number;
+  result: Record<string, unknown>;
+}
+
+/**
+ * Store a health check run, update aggregates and broadcast it.
+ * If the system's aggregated state changed, subscribers are notified and
+ * integration hooks are emitted.
+ *
+ * Used for local executions and for results submitted by remote probe agents.
+ */
+export async function recordHealthCheckRun(
+  props: RecordHealthCheckRunDeps & HealthCheckRunRecord,
+): Promise<void> {
   const {
-    payload,
     db,
     registry,
     collectorRegistry,
@@ -235,27 +402,164 @@ async function executeHealthCheckJob(props: {
     catalogClient,
     maintenanceClient,
     incidentClient,
+    oncallClient,
     getEmitHook,
+    configurationId,
+    systemId,
+    region,
+    status,
+    latencyMs,
+    result,
   } = props;
-  const { configId, systemId } = payload;
 
   // Create service for aggregated state evaluation
-  const service = new HealthCheckService(db, registry, collectorRegistry);
+  const service = new HealthCheckService(
+    db,
+    registry,
+    collectorRegistry,
+    catalogClient,
+  );
 
   // Capture aggregated state BEFORE this run for comparison
   const previousState = await service.getSystemHealthStatus(systemId);
   const previousStatus = previousState.status;
 
+  await db.insert(healthCheckRuns).values({
+    configurationId,
+    systemId,
+    status,
+    latencyMs,
+    result,
+    region,
+  });
+
+  // Trigger incremental hourly aggregation
+  await incrementHourlyAggregate({
+    db,
+    systemId,
+    configurationId,
+    status,
+    latencyMs,
+    runTimestamp: new Date(),
+    result,
+    collectorRegistry,
+  });
+
+  logger.debug(
+    `Ran health check ${configurationId} for system ${systemId} in region ${region}: ${status}`,
+  );
+
+  // Try to fetch names for the enriched signal (best-effort)
+  let systemName = systemId;
+  let configurationName = configurationId;
+  try {
+    const system = await catalogClient.getSystem({ systemId });
+    if (system) {
+      systemName = system.name;
+    }
+    const [config] = await db
+      .select({ name: healthCheckConfigurations.name })
+      .from(healthCheckConfigurations)
+      .where(eq(healthCheckConfigurations.id, configurationId));
+    if (config) {
+      configurationName = config.name;
+    }
+  } catch {
+    // Use IDs as fallback
+    logger.debug(`Could not fetch names for ${systemId}, using IDs`);
+  }
+
+  // Broadcast enriched signal for realtime frontend updates (e.g., terminal feed)
+  await signalService.broadcast(HEALTH_CHECK_RUN_COMPLETED, {
+    systemId,
+    systemName,
+    configurationId,
+    configurationName,
+    status,
+    latencyMs,
+  });
+
+  // Check if aggregated state changed and notify subscribers
+  const newState = await service.getSystemHealthStatus(systemId);
+  if (newState.status === previousStatus) {
+    return;
+  }
+
+  await notifyStateChange({
+    systemId,
+    previousStatus,
+    newStatus: newState.status,
+    impactedByUpstreams: newState.impactedByUpstreams.map(
+      (upstream) => upstream.systemId,
+    ),
+    catalogClient,
+    maintenanceClient,
+    incidentClient,
+    oncallClient,
+    alertStateService: new AlertStateService(db),
+    logger,
+  });
+
+  // Emit integration hooks for external integrations
+  const emitHook = getEmitHook();
+  if (!emitHook) {
+    return;
+  }
+
+  if (newState.status === "healthy" && previousStatus !== "healthy") {
+    // Recovery: system became healthy
+    await emitHook(healthCheckHooks.systemHealthy, {
+      systemId,
+      previousStatus,
+      healthyChecks: newState.checkStatuses.filter(
+        (c) => c.status === "healthy",
+      ).length,
+      totalChecks: newState.checkStatuses.length,
+      timestamp: new Date().toISOString(),
+    });
+    logger.debug(
+      `Emitted systemHealthy hook: ${previousStatus} → ${newState.status}`,
+    );
+  } else if (previousStatus === "healthy" && newState.status !== "healthy") {
+    // Degradation: system went from healthy to unhealthy/degraded
+    await emitHook(healthCheckHooks.systemDegraded, {
+      systemId,
+      previousStatus,
+      newStatus: newState.status,
+      healthyChecks: newState.checkStatuses.filter(
+        (c) => c.status === "healthy",
+      ).length,
+      totalChecks: newState.checkStatuses.length,
+      timestamp: new Date().toISOString(),
+    });
+    logger.debug(
+      `Emitted systemDegraded hook: ${previousStatus} → ${newState.status}`,
+    );
+  }
+}
+
+/**
+ * Execute a health check job.
+ * Remote regions are handed to probe agents, the local region runs in-process.
+ */
+async function executeHealthCheckJob(
+  props: RecordHealthCheckRunDeps & {
+    payload: HealthCheckJobPayload;
+  },
+): Promise<void> {
+  const { payload, db, registry, collectorRegistry, logger } = props;
+  const { configId, systemId } = payload;
+
   try {
-    // Fetch configuration (including name for signals)
     const [configRow] = await db
       .select({
         configId: healthCheckConfigurations.id,
-        configName: healthCheckConfigurations.name,
         strategyId: healthCheckConfigurations.strategyId,
         config: healthCheckConfigurations.config,
         collectors: healthCheckConfigurations.collectors,
+        regions: healthCheckConfigurations.regions,
         interval: healthCheckConfigurations.intervalSeconds,
+        schedule: healthCheckConfigurations.schedule,
         enabled: systemHealthChecks.enabled,
         paused: healthCheckConfigurations.paused,
       })
@@ -288,357 +592,76 @@ async function executeHealthCheckJob(props: {
       return;
     }
 
-    // Fetch system name for signal payload
-    let systemName = systemId;
-    try {
-      const system = await catalogClient.getSystem({ systemId });
-      if (system) {
-        systemName = system.name;
+    // Active hours skip runs that are not due, without recording a run
+    if (configRow.schedule?.type === "activeHours" && !payload.manual) {
+      const [lastRun] = await db
+        .select({ timestamp: max(healthCheckRuns.timestamp) })
+        .from(healthCheckRuns)
+        .where(
+          and(
+            eq(healthCheckRuns.configurationId, configId),
+            eq(healthCheckRuns.systemId, systemId),
+          ),
+        );
+      const skipReason = getSkipReason({
+        intervalSeconds: configRow.interval,
+        schedule: configRow.schedule,
+        lastRunAt: lastRun?.timestamp ?? undefined,
+        now: new Date(),
+      });
+      if (skipReason) {
+        logger.debug(
+          `Skipping health check ${configId} for system ${systemId}: ${skipReason}`,
+        );
+        return;
       }
-    } catch {
-      // Fall back to systemId if catalog lookup fails
-      logger.debug(`Could not fetch system name for ${systemId}, using ID`);
     }
 
-    const strategy = registry.getStrategy(configRow.strategyId);
-    if (!strategy) {
-      logger.warn(
-        `Strategy ${configRow.strategyId} not found for config ${configId}`,
-      );
-      return;
-    }
-
-    // Extract timeout from strategy config for platform-level enforcement
-    const strategyConfig = configRow.config as unknown as BaseStrategyConfig;
-    const executionTimeout = strategyConfig.timeout ?? 60_000;
-
-    // Execute health check using createClient pattern with unified hard timeout
-    const start = performance.now();
-    let connectionTimeMs: number | undefined;
-    let connectedClient:
-      | ConnectedClient<TransportClient<never, unknown>>
-      | undefined;
-    const collectors = configRow.collectors ?? [];
-    const collectorResults: Record<string, unknown> = {};
-    let hasCollectorError = false;
-    let errorMessage: string | undefined;
-
-    try {
-      // Platform-level hard timeout wrapping the entire execution sequence
-      await Promise.race([
-        (async () => {
-          // 1. Establish connection
-          connectedClient = await strategy.createClient(strategyConfig);
-          connectionTimeMs = Math.round(performance.now() - start);
-
-          // 2. Execute collectors in parallel
-          const collectorPromises = collectors.map(async (collectorEntry) => {
-            const registered = collectorRegistry.getCollector(
-              collectorEntry.collectorId,
-            );
-            if (!registered) {
-              logger.warn(
-                `Collector ${collectorEntry.collectorId} not found, skipping`,
-              );
-              return { storageKey: collectorEntry.id, skipped: true };
-            }
-
-            const storageKey = collectorEntry.id;
-
-            try {
-              const collectorResult = await registered.collector.execute({
-                config: collectorEntry.config,
-                client: connectedClient!.client,
-                pluginId: configRow.strategyId,
-              });
-
-              // Check for collector-level error
-              let collectorError: string | undefined;
-              if (collectorResult.error) {
-                collectorError = collectorResult.error;
-              }
-
-              // Evaluate per-collector assertions
-              let assertionFailed: string | undefined;
-              if (
-                collectorEntry.assertions &&
-                collectorEntry.assertions.length > 0 &&
-                collectorResult.result
-              ) {
-                const failedAssertion = evaluateAssertions(
-                  collectorEntry.assertions,
-                  collectorResult.result as Record<string, unknown>,
-                );
-                if (failedAssertion) {
-                  assertionFailed = `${failedAssertion.field} ${
-                    failedAssertion.operator
-                  } ${failedAssertion.value ?? ""}`;
-                  logger.debug(
-                    `Collector ${storageKey} assertion failed: ${assertionFailed}`,
-                  );
-                }
-              }
-
-              // Strip ephemeral fields before storage
-              const strippedResult = stripEphemeralFields(
-                collectorResult.result as Record<string, unknown>,
-                registered.collector.result.schema,
-              );
-
-              return {
-                storageKey,
-                skipped: false,
-                success: true,
-                collectorError,
-                assertionFailed,
-                result: {
-                  _collectorId: collectorEntry.collectorId,
-                  _assertionFailed: assertionFailed,
-                  ...strippedResult,
-                },
-              };
-            } catch (error) {
-              const errorStr =
-                error instanceof Error ? error.message : String(error);
-              logger.debug(`Collector ${storageKey} failed: ${errorStr}`);
-              return {
-                storageKey,
-                skipped: false,
-                success: false,
-                error: errorStr,
-                result: {
-                  _collectorId: collectorEntry.collectorId,
-                  _assertionFailed: undefined,
-                  error: errorStr,
-                },
-              };
-            }
-          });
-
-          // Wait for all collectors to complete
-          const settledResults = await Promise.allSettled(collectorPromises);
-
-          // Process results from all collectors
-          for (const settled of settledResults) {
-            if (settled.status === "rejected") {
-              // This shouldn't happen since we catch errors above, but handle it
-              hasCollectorError = true;
-              if (!errorMessage) errorMessage = String(settled.reason);
-              continue;
-            }
-
-            const result = settled.value;
-            if (result.skipped) continue;
-
-            // Store the result
-            collectorResults[result.storageKey] = result.result;
-
-            // Track errors
-            if (
-              !result.success ||
-              result.collectorError ||
-              result.assertionFailed
-            ) {
-              hasCollectorError = true;
-              if (!errorMessage) {
-                errorMessage =
-                  result.error ||
-                  result.collectorError ||
-                  (result.assertionFailed
-                    ? `Assertion failed: ${result.assertionFailed}`
-                    : undefined);
-              }
-            }
-          }
-        })(),
-        new Promise<never>((_, reject) =>
-          setTimeout(
-            () =>
-              reject(
-                new Error(`Execution timeout after ${executionTimeout}ms`),
-              ),
-            executionTimeout,
-          ),
-        ),
-      ]);
-    } catch (error) {
-      const latencyMs = Math.round(performance.now() - start);
-      const caughtError =
-        error instanceof Error ? error.message : String(error);
-
-      // Use a specific error message if available, otherwise use the caught error
-      const finalError = errorMessage || caughtError;
-
-      const result = {
-        status: "unhealthy" as const,
-        latencyMs,
-        message: finalError,
-        metadata: {
-          connected: !!connectedClient,
-          error: finalError,
-        },
-      };
-
-      await db.insert(healthCheckRuns).values({
+    // Hand remote regions to probe agents
+    const regions = resolveRegions(configRow.regions);
+    const remoteRegions = regions.filter((region) => region !== LOCAL_REGION);
+    if (remoteRegions.length > 0) {
+      await new ProbeAgentService(db).enqueueJobs({
         configurationId: configId,
         systemId,
-        status: result.status,
-        latencyMs: result.latencyMs,
-        result: { ...result } as Record<string, unknown>,
-      });
-
-      await incrementHourlyAggregate({
-        db,
-        systemId,
-        configurationId: configId,
-        status: result.status,
-        latencyMs: result.latencyMs,
-        runTimestamp: new Date(),
-        result: { ...result } as Record<string, unknown>,
-        collectorRegistry,
+        regions: remoteRegions,
       });
-
       logger.debug(
-        `Health check ${configId} for system ${systemId} failed: ${finalError}`,
+        `Enqueued health check ${configId} for system ${systemId} in regions ${remoteRegions.join(", ")}`,
       );
-
-      await signalService.broadcast(HEALTH_CHECK_RUN_COMPLETED, {
-        systemId,
-        systemName,
-        configurationId: configId,
-        configurationName: configRow.configName,
-        status: result.status,
-        latencyMs: result.latencyMs,
-      });
-
-      const newState = await service.getSystemHealthStatus(systemId);
-      if (newState.status !== previousStatus) {
-        await notifyStateChange({
-          systemId,
-          previousStatus,
-          newStatus: newState.status,
-          catalogClient,
-          maintenanceClient,
-          incidentClient,
-          logger,
-        });
-      }
-
+    }
+    if (!regions.includes(LOCAL_REGION)) {
       return;
-    } finally {
-      if (connectedClient) {
-        try {
-          connectedClient.close();
-        } catch (error) {
-          logger.warn(`Failed to close connection: ${error}`);
-        }
-      }
     }
 
-    // Determine health status based on collector results
-    const status = hasCollectorError ? "unhealthy" : "healthy";
-    const totalLatencyMs = Math.round(performance.now() - start);
-
-    const result = {
-      status: status as "healthy" | "unhealthy",
-      latencyMs: totalLatencyMs,
-      message: hasCollectorError
-        ? `Check failed: ${errorMessage}`
-        : `Completed in ${totalLatencyMs}ms`,
-      metadata: {
-        connected: true,
-        connectionTimeMs,
-        collectors: collectorResults,
-      },
-    };
-
-    // Store result (spread to convert structured type to plain record for jsonb)
-    await db.insert(healthCheckRuns).values({
-      configurationId: configId,
-      systemId,
-      status: result.status,
-      latencyMs: result.latencyMs,
-      result: { ...result } as Record<string, unknown>,
-    });
+    const strategy = registry.getStrategy(configRow.strategyId);
+    if (!strategy) {
+      logger.warn(
+        `Strategy ${configRow.strategyId} not found for config ${configId}`,
+      );
+      return;
+    }
 
-    // Trigger incremental hourly aggregation
-    await incrementHourlyAggregate({
-      db,
-      systemId,
-      configurationId: configId,
-      status: result.status,
-      latencyMs: result.latencyMs,
-      runTimestamp: new Date(),
-      result: { ...result } as Record<string, unknown>,
+    const result = await runHealthCheck({
+      strategy,
+      strategyId: configRow.strategyId,
+      config: configRow.config,
+      collectors: configRow.collectors ?? [],
       collectorRegistry,
+      logger,
     });
 
-    logger.debug(
-      `Ran health check ${configId} for system ${systemId}: ${result.status}`,
-    );
-
-    // Broadcast enriched signal for realtime frontend updates (e.g., terminal feed)
-    await signalService.broadcast(HEALTH_CHECK_RUN_COMPLETED, {
-      systemId,
-      systemName,
+    // Spread to convert structured type to plain record for jsonb
+    await recordHealthCheckRun({
+      ...props,
       configurationId: configId,
-      configurationName: configRow.configName,
+      systemId,
+      region: LOCAL_REGION,
       status: result.status,
       latencyMs: result.latencyMs,
+      result: { ...result },
     });
 
-    // Check if aggregated state changed and notify subscribers
-    const newState = await service.getSystemHealthStatus(systemId);
-    if (newState.status !== previousStatus) {
-      await notifyStateChange({
-        systemId,
-        previousStatus,
-        newStatus: newState.status,
-        catalogClient,
-        maintenanceClient,
-        incidentClient,
-        logger,
-      });
-
-      // Emit integration hooks for external integrations
-      const emitHook = getEmitHook();
-      if (emitHook) {
-        if (newState.status === "healthy" && previousStatus !== "healthy") {
-          // Recovery: system became healthy
-          await emitHook(healthCheckHooks.systemHealthy, {
-            systemId,
-            previousStatus,
-            healthyChecks: newState.checkStatuses.filter(
-              (c) => c.status === "healthy",
-            ).length,
-            totalChecks: newState.checkStatuses.length,
-            timestamp: new Date().toISOString(),
-          });
-          logger.debug(
-            `Emitted systemHealthy hook: ${previousStatus} → ${newState.status}`,
-          );
-        } else if (
-          previousStatus === "healthy" &&
-          newState.status !== "healthy"
-        ) {
-          // Degradation: system went from healthy to unhealthy/degraded
-          await emitHook(healthCheckHooks.systemDegraded, {
-            systemId,
-            previousStatus,
-            newStatus: newState.status,
-            healthyChecks: newState.checkStatuses.filter(
-              (c) => c.status === "healthy",
-            ).length,
-            totalChecks: newState.checkStatuses.length,
-            timestamp: new Date().toISOString(),
-          });
-          logger.debug(
-            `Emitted systemDegraded hook: ${previousStatus} → ${newState.status}`,
-          );
-        }
-      }
-    }
-
     // Note: No manual rescheduling needed - recurring job handles it automatically
   } catch (error) {
     logger.error(
@@ -647,106 +670,14 @@ async function executeHealthCheckJob(props: {
     );
 
     // Store failure (no latencyMs for failures)
-    await db.insert(healthCheckRuns).values({
+    await recordHealthCheckRun({
+      ...props,
       configurationId: configId,
       systemId,
+      region: LOCAL_REGION,
       status: "unhealthy",
-      result: { error: String(error) } as Record<string, unknown>,
-    });
-
-    // Trigger incremental hourly aggregation
-    await incrementHourlyAggregate({
-      db,
-      systemId,
-      configurationId: configId,
-      status: "unhealthy",
-      latencyMs: undefined,
-      runTimestamp: new Date(),
-      // No collector data for error cases
-      collectorRegistry,
-    });
-
-    // Try to fetch names for the enriched signal (best-effort)
-    let systemName = systemId;
-    let configName = configId;
-    try {
-      const system = await catalogClient.getSystem({ systemId });
-      if (system) {
-        systemName = system.name;
-      }
-      const [config] = await db
-        .select({ name: healthCheckConfigurations.name })
-        .from(healthCheckConfigurations)
-        .where(eq(healthCheckConfigurations.id, configId));
-      if (config) {
-        configName = config.name;
-      }
-    } catch {
-      // Use IDs as fallback
-    }
-
-    // Broadcast enriched failure signal for realtime frontend updates
-    await signalService.broadcast(HEALTH_CHECK_RUN_COMPLETED, {
-      systemId,
-      systemName,
-      configurationId: configId,
-      configurationName: configName,
-      status: "unhealthy",
+      result: { error: String(error) },
     });
-
-    // Check if aggregated state changed and notify subscribers
-    const newState = await service.getSystemHealthStatus(systemId);
-    if (newState.status !== previousStatus) {
-      await notifyStateChange({
-        systemId,
-        previousStatus,
-        newStatus: newState.status,
-        catalogClient,
-        maintenanceClient,
-        incidentClient,
-        logger,
-      });
-
-      // Emit integration hooks for external integrations
-      const emitHook = getEmitHook();
-      if (emitHook) {
-        if (newState.status === "healthy" && previousStatus !== "healthy") {
-          // Recovery: system became healthy
-          await emitHook(healthCheckHooks.systemHealthy, {
-            systemId,
-            previousStatus,
-            healthyChecks: newState.checkStatuses.filter(
-              (c) => c.status === "healthy",
-            ).length,
-            totalChecks: newState.checkStatuses.length,
-            timestamp: new Date().toISOString(),
-          });
-          logger.debug(
-            `Emitted systemHealthy hook: ${previousStatus} → ${newState.status}`,
-          );
-        } else if (
-          previousStatus === "healthy" &&
-          newState.status !== "healthy"
-        ) {
-          // Degradation: system went from healthy to unhealthy/degraded
-          await emitHook(healthCheckHooks.systemDegraded, {
-            systemId,
-            previousStatus,
-            newStatus: newState.status,
-            healthyChecks: newState.checkStatuses.filter(
-              (c) => c.status === "healthy",
-            ).length,
-            totalChecks: newState.checkStatuses.length,
-            timestamp: new Date().toISOString(),
-          });
-          logger.debug(
-            `Emitted systemDegraded hook: ${previousStatus} → ${newState.status}`,
-          );
-        }
-      }
-    }
-
-    // Note: No manual rescheduling needed - recurring job handles it automatically
   }
 }
 
@@ -760,6 +691,7 @@ export async function setupHealthCheckWorker(props: {
   catalogClient: CatalogClient;
   maintenanceClient: MaintenanceClient;
   incidentClient: IncidentClient;
+  oncallClient: OncallClient;
   getEmitHook: () => EmitHookFn | undefined;
 }): Promise<void> {
   const {
@@ -772,6 +704,7 @@ export async function setupHealthCheckWorker(props: {
     catalogClient,
     maintenanceClient,
     incidentClient,
+    oncallClient,
     getEmitHook,
   } = props;
 
@@ -791,6 +724,7 @@ export async function setupHealthCheckWorker(props: {
         catalogClient,
         maintenanceClient,
         incidentClient,
+        oncallClient,
         getEmitHook,
       });
     },
@@ -803,6 +737,18 @@ export async function setupHealthCheckWorker(props: {
   logger.debug("🎯 Health Check Worker subscribed to queue");
 }
 
+/**
+ * Enqueue a single run of a health check, independent of its recurring job
+ */
+export async function triggerHealthCheck(props: {
+  queueManager: QueueManager;
+  payload: HealthCheckJobPayload;
+}): Promise<string> {
+  const queue =
+    props.queueManager.getQueue<HealthCheckJobPayload>(HEALTH_CHECK_QUEUE);
+  return queue.enqueue({ ...props.payload, manual: true });
+}
+
 /**
  * Bootstrap health checks by enqueueing all enabled checks
  */
@@ -819,6 +765,7 @@ export async function bootstrapHealthChecks(props: {
       systemId: systemHealthChecks.systemId,
       configId: healthCheckConfigurations.id,
       interval: healthCheckConfigurations.intervalSeconds,
+      schedule: healthCheckConfigurations.schedule,
     })
     .from(systemHealthChecks)
     .innerJoin(
@@ -854,25 +801,27 @@ export async function bootstrapHealthChecks(props: {
     const lastRunKey = `${check.systemId}:${check.configId}`;
     const lastRun = lastRunMap.get(lastRunKey);
 
-    // Calculate delay for first run based on time since last run
+    // Calculate delay for first run based on time since last run,
+    // cron schedules run at their own times
+    const interval = getTickSeconds(check.interval, check.schedule);
     let startDelay = 0;
-    if (lastRun) {
+    if (lastRun && check.schedule?.type !== "cron") {
       const elapsedSeconds = Math.floor(
         (Date.now() - lastRun.getTime()) / 1000,
       );
-      if (elapsedSeconds < check.interval) {
+      if (elapsedSeconds < interval) {
         // Not overdue yet - schedule with remaining time
-        startDelay = check.interval - elapsedSeconds;
+        startDelay = interval - elapsedSeconds;
       }
       // Otherwise it's overdue - run immediately (startDelay = 0)
       logger.debug(
         `Health check ${check.configId}:${
           check.systemId
         } - lastRun: ${lastRun.toISOString()}, elapsed: ${elapsedSeconds}s, interval: ${
-          check.interval
+          interval
         }s, startDelay: ${startDelay}s`,
       );
-    } else {
+    } else if (!lastRun) {
       logger.debug(
         `Health check ${check.configId}:${check.systemId} - no lastRun found, running immediately`,
       );
@@ -885,6 +834,7 @@ export async function bootstrapHealthChecks(props: {
         systemId: check.systemId,
       },
       intervalSeconds: check.interval,
+      schedule: check.schedule,
       startDelay,
       logger,
     });
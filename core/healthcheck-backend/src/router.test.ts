@@ -154,4 +154,96 @@ describe("HealthCheck Router", () => {
     );
     expect(result).toHaveLength(0);
   });
+
+  it("claimAgentJobs rejects users that are not applications", async () => {
+    const context = createMockRpcContext({
+      user: mockUser,
+    });
+
+    await expect(
+      call(router.claimAgentJobs, { region: "eu-west" }, { context }),
+    ).rejects.toThrow("Probe agents must authenticate with an application");
+  });
+
+  it("claimAgentJobs rejects regions the application is not assigned to", async () => {
+    const assignmentDb = {
+      select: mock(() => ({
+        from: mock(() => ({
+          where: mock(() => ({
+            orderBy: mock(() => Promise.resolve([{ region: "eu-west" }])),
+          })),
+        })),
+      })),
+      insert: mock(),
+    };
+    const agentRouter = createHealthCheckRouter(
+      assignmentDb as never,
+      mockRegistry,
+      mockCollectorRegistry as never,
+    );
+    const context = createMockRpcContext({
+      user: {
+        type: "application",
+        id: "app-1",
+        name: "Agent EU",
+        accessRules: ["*"],
+      },
+    });
+
+    await expect(
+      call(agentRouter.claimAgentJobs, { region: "us-east" }, { context }),
+    ).rejects.toThrow("Application is not assigned to region us-east");
+    // No heartbeat is recorded for the foreign region
+    expect(assignmentDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("submitAgentResult rejects jobs claimed by another agent", async () => {
+    const deleteDb = {
+      select: mock(() => ({
+        from: mock(() => ({
+          where: mock(() => ({
+            orderBy: mock(() => Promise.resolve([{ region: "eu-west" }])),
+          })),
+        })),
+      })),
+      delete: mock(() => ({
+        where: mock(() => ({
+          returning: mock(() => Promise.resolve([])),
+        })),
+      })),
+    };
+    const recordRun = mock(() => Promise.resolve());
+    const agentRouter = createHealthCheckRouter(
+      deleteDb as never,
+      mockRegistry,
+      mockCollectorRegistry as never,
+      undefined,
+      recordRun,
+    );
+    const context = createMockRpcContext({
+      user: {
+        type: "application",
+        id: "app-1",
+        name: "Agent EU",
+        accessRules: ["*"],
+      },
+    });
+
+    await expect(
+      call(
+        agentRouter.submitAgentResult,
+        { jobId: "job-1", result: { status: "healthy" } },
+        { context },
+      ),
+    ).rejects.toThrow("Job not found or claimed by another agent");
+    expect(recordRun).not.toHaveBeenCalled();
+  });
+
+  it("getAlertState rejects anonymous callers", async () => {
+    const context = createMockRpcContext({ user: undefined });
+
+    await expect(
+      call(router.getAlertState, { systemId: "system-1" }, { context }),
+    ).rejects.toThrow("Authentication required");
+  });
 });
@@ -6,11 +6,42 @@ import {
   type HealthCheckRegistry,
   type SafeDatabase,
   type CollectorRegistry,
+  type ApplicationUser,
+  type RealUser,
 } from "@checkstack/backend-api";
 import { healthCheckContract } from "@checkstack/healthcheck-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import type { InferClient } from "@checkstack/common";
 import { HealthCheckService } from "./service";
 import * as schema from "./schema";
 import { toJsonSchemaWithChartMeta } from "./schema-utils";
+import { ProbeAgentService } from "./probe-agent-service";
+import { AlertStateService } from "./alert-state-service";
+import { AnomalyService } from "./anomaly-service";
+import type { HealthCheckRunRecord } from "./queue-executor";
+import type { SloService } from "./slo-service";
+
+/**
+ * Probe agents are identified by the application they authenticate with.
+ */
+function requireApplication(user: RpcContext["user"]): ApplicationUser {
+  if (user?.type !== "application") {
+    throw new ORPCError("FORBIDDEN", {
+      message: "Probe agents must authenticate with an application API key",
+    });
+  }
+  return user;
+}
+
+/**
+ * Alerts are acknowledged and snoozed on behalf of a user.
+ */
+function requireUser(user: RpcContext["user"]): RealUser {
+  if (user?.type !== "user") {
+    throw new ORPCError("UNAUTHORIZED");
+  }
+  return user;
+}
 
 /**
  * Creates the healthcheck router using contract-based implementation.
@@ -22,9 +53,29 @@ export const createHealthCheckRouter = (
   database: SafeDatabase<typeof schema>,
   registry: HealthCheckRegistry,
   collectorRegistry: CollectorRegistry,
+  catalogClient?: InferClient<typeof CatalogApi>,
+  recordRun?: (run: HealthCheckRunRecord) => Promise<void>,
+  sloService?: SloService,
 ) => {
   // Create service instance once - shared across all handlers
-  const service = new HealthCheckService(database, registry, collectorRegistry);
+  const service = new HealthCheckService(
+    database,
+    registry,
+    collectorRegistry,
+    catalogClient,
+  );
+  const probeAgentService = new ProbeAgentService(database);
+  const alertStateService = new AlertStateService(database);
+  const anomalyService = new AnomalyService(database, collectorRegistry);
+
+  const requireSloService = (): SloService => {
+    if (!sloService) {
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "SLOs are not available",
+      });
+    }
+    return sloService;
+  };
 
   // Create contract implementer with context type AND auto auth middleware
   const os = implement(healthCheckContract)
@@ -91,15 +142,56 @@ export const createHealthCheckRouter = (
       return service.createConfiguration(input);
     }),
 
-    updateConfiguration: os.updateConfiguration.handler(async ({ input }) => {
-      const config = await service.updateConfiguration(input.id, input.body);
-      if (!config) {
-        throw new ORPCError("NOT_FOUND", {
-          message: "Configuration not found",
-        });
-      }
-      return config;
-    }),
+    updateConfiguration: os.updateConfiguration.handler(
+      async ({ input, context }) => {
+        // Let the audit log diff the change and redact the config secrets
+        const previous = await service.getConfiguration(input.id);
+        if (previous) {
+          context.audit?.recordBefore(previous);
+          const strategy = context.healthCheckRegistry.getStrategy(
+            input.body.strategyId ?? previous.strategyId,
+          );
+          if (strategy) context.audit?.addSecretSchema(strategy.config.schema);
+          for (const entry of [
+            ...(previous.collectors ?? []),
+            ...(input.body.collectors ?? []),
+          ]) {
+            const registered = context.collectorRegistry.getCollector(
+              entry.collectorId,
+            );
+            if (registered) {
+              context.audit?.addSecretSchema(
+                registered.collector.config.schema,
+              );
+            }
+          }
+        }
+
+        const config = await service.updateConfiguration(input.id, input.body);
+        if (!config) {
+          throw new ORPCError("NOT_FOUND", {
+            message: "Configuration not found",
+          });
+        }
+
+        // Reschedule enabled systems so interval and schedule changes apply
+        if (
+          input.body.intervalSeconds !== undefined ||
+          input.body.schedule !== undefined
+        ) {
+          const { scheduleHealthCheck } = await import("./queue-executor");
+          for (const systemId of await service.getEnabledSystemIds(config.id)) {
+            await scheduleHealthCheck({
+              queueManager: context.queueManager,
+              payload: { configId: config.id, systemId },
+              intervalSeconds: config.intervalSeconds,
+              schedule: config.schedule,
+            });
+          }
+        }
+        return config;
+      },
+    ),
 
     deleteConfiguration: os.deleteConfiguration.handler(async ({ input }) => {
       await service.deleteConfiguration(input);
@@ -147,6 +239,7 @@ export const createHealthCheckRouter = (
               systemId: input.systemId,
             },
             intervalSeconds: config.intervalSeconds,
+            schedule: config.schedule,
           });
         }
       }
@@ -156,6 +249,32 @@ export const createHealthCheckRouter = (
       await service.disassociateSystem(input.systemId, input.configId);
     }),
 
+    triggerHealthCheck: os.triggerHealthCheck.handler(
+      async ({ input, context }) => {
+        const associations = await service.getSystemAssociations(
+          input.systemId,
+        );
+        const association = associations.find(
+          (a) => a.configurationId === input.configurationId,
+        );
+        if (!association?.enabled) {
+          throw new ORPCError("NOT_FOUND", {
+            message: "No enabled health check for this system",
+          });
+        }
+
+        const { triggerHealthCheck } = await import("./queue-executor");
+        const jobId = await triggerHealthCheck({
+          queueManager: context.queueManager,
+          payload: {
+            configId: input.configurationId,
+            systemId: input.systemId,
+          },
+        });
+        return { jobId };
+      },
+    ),
+
     getRetentionConfig: os.getRetentionConfig.handler(async ({ input }) => {
       return service.getRetentionConfig(input.systemId, input.configurationId);
     }),
@@ -170,6 +289,10 @@ export const createHealthCheckRouter = (
       },
     ),
 
+    getAnomalyMetrics: os.getAnomalyMetrics.handler(async ({ input }) => {
+      return anomalyService.getAnomalyMetrics(input);
+    }),
+
     getHistory: os.getHistory.handler(async ({ input }) => {
       return service.getHistory(input);
     }),
@@ -195,6 +318,10 @@ export const createHealthCheckRouter = (
         });
       },
     ),
+    getAnomalyBaseline: os.getAnomalyBaseline.handler(async ({ input }) => {
+      return anomalyService.getBaseline(input);
+    }),
+
     getSystemHealthStatus: os.getSystemHealthStatus.handler(
       async ({ input }) => {
         return service.getSystemHealthStatus(input.systemId);
@@ -203,18 +330,10 @@ export const createHealthCheckRouter = (
 
     getBulkSystemHealthStatus: os.getBulkSystemHealthStatus.handler(
       async ({ input }) => {
-        const statuses: Record<
-          string,
-          Awaited<ReturnType<typeof service.getSystemHealthStatus>>
-        > = {};
-
-        // Fetch health status for each system in parallel
-        await Promise.all(
-          input.systemIds.map(async (systemId) => {
-            statuses[systemId] = await service.getSystemHealthStatus(systemId);
-          }),
+        // Evaluated together so the dependency graph and shared upstreams are only loaded once
+        const statuses = await service.getBulkSystemHealthStatus(
+          input.systemIds,
         );
-
         return { statuses };
       },
     ),
@@ -228,6 +347,153 @@ export const createHealthCheckRouter = (
     getAvailabilityStats: os.getAvailabilityStats.handler(async ({ input }) => {
       return service.getAvailabilityStats(input);
     }),
+
+    getStatusTransitions: os.getStatusTransitions.handler(async ({ input }) => {
+      return service.getStatusTransitions(input);
+    }),
+
+    getAvailabilitySummary: os.getAvailabilitySummary.handler(
+      async ({ input }) => {
+        return service.getAvailabilitySummary(input);
+      },
+    ),
+
+    getAlertState: os.getAlertState.handler(async ({ input }) => {
+      const state = await alertStateService.getState(input.systemId);
+      // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+      return state ?? null;
+    }),
+
+    acknowledgeAlert: os.acknowledgeAlert.handler(
+      async ({ input, context }) => {
+        const user = requireUser(context.user);
+        const { status } = await service.getSystemHealthStatus(input.systemId);
+        if (status === "healthy") {
+          throw new ORPCError("CONFLICT", {
+            message: "The system is healthy, there is no alert to acknowledge",
+          });
+        }
+        return alertStateService.acknowledge({
+          systemId: input.systemId,
+          userId: user.id,
+          userName: user.name ?? user.email,
+        });
+      },
+    ),
+
+    snoozeAlert: os.snoozeAlert.handler(async ({ input, context }) => {
+      const user = requireUser(context.user);
+      return alertStateService.snooze({
+        systemId: input.systemId,
+        minutes: input.minutes,
+        userId: user.id,
+        userName: user.name ?? user.email,
+      });
+    }),
+
+    clearAlertState: os.clearAlertState.handler(async ({ input }) => {
+      await alertStateService.clear(input.systemId);
+      return { success: true };
+    }),
+
+    getSlos: os.getSlos.handler(async ({ input }) => {
+      const slos = requireSloService();
+      const list = input?.systemId
+        ? await slos.getSlosForSystem(input.systemId)
+        : await slos.listSlos();
+      return Promise.all(list.map((slo) => slos.getSloWithStatus(slo)));
+    }),
+
+    createSlo: os.createSlo.handler(async ({ input }) => {
+      return requireSloService().createSlo(input);
+    }),
+
+    updateSlo: os.updateSlo.handler(async ({ input }) => {
+      const slos = requireSloService();
+      const existing = await slos.getSlo(input.id);
+      if (!existing) {
+        throw new ORPCError("NOT_FOUND", { message: "SLO not found" });
+      }
+      const merged = { ...existing, ...input };
+      if (merged.type === "latency" && merged.latencyThresholdMs === undefined) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "Latency SLOs require a latency threshold",
+        });
+      }
+      const updated = await slos.updateSlo(input);
+      if (!updated) {
+        throw new ORPCError("NOT_FOUND", { message: "SLO not found" });
+      }
+      return updated;
+    }),
+
+    deleteSlo: os.deleteSlo.handler(async ({ input }) => {
+      const success = await requireSloService().deleteSlo(input.id);
+      return { success };
+    }),
+
+    getSlaReport: os.getSlaReport.handler(async ({ input }) => {
+      return requireSloService().getSlaReport(input.systemId, input.month);
+    }),
+
+    getProbeAgents: os.getProbeAgents.handler(async () => {
+      return probeAgentService.getAgents();
+    }),
+
+    getProbeAgentRegions: os.getProbeAgentRegions.handler(async () => {
+      return probeAgentService.getRegionAssignments();
+    }),
+
+    setProbeAgentRegions: os.setProbeAgentRegions.handler(async ({ input }) => {
+      return probeAgentService.setAssignedRegions(input);
+    }),
+
+    claimAgentJobs: os.claimAgentJobs.handler(async ({ input, context }) => {
+      const agent = requireApplication(context.user);
+      // The region comes from the agent, it may only serve assigned regions
+      const regions = await probeAgentService.getAssignedRegions(agent.id);
+      if (!regions.includes(input.region)) {
+        throw new ORPCError("FORBIDDEN", {
+          message: `Application is not assigned to region ${input.region}`,
+        });
+      }
+      return probeAgentService.claimJobs({
+        applicationId: agent.id,
+        name: agent.name,
+        region: input.region,
+        limit: input.limit,
+      });
+    }),
+
+    submitAgentResult: os.submitAgentResult.handler(
+      async ({ input, context }) => {
+        const agent = requireApplication(context.user);
+        const job = await probeAgentService.completeJob({
+          jobId: input.jobId,
+          applicationId: agent.id,
+          regions: await probeAgentService.getAssignedRegions(agent.id),
+        });
+        if (!job) {
+          throw new ORPCError("NOT_FOUND", {
+            message: "Job not found or claimed by another agent",
+          });
+        }
+        if (!recordRun) {
+          throw new ORPCError("INTERNAL_SERVER_ERROR", {
+            message: "Agent results cannot be recorded",
+          });
+        }
+
+        const { status, latencyMs } = input.result;
+        await recordRun({
+          ...job,
+          status,
+          latencyMs,
+          result: { ...input.result },
+        });
+        return { success: true };
+      },
+    ),
   });
 };
 
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "bun:test";
+import type { HealthCheckSchedule } from "@checkstack/healthcheck-common";
+import {
+  getActiveIntervalSeconds,
+  getLocalTime,
+  getRecurringSchedule,
+  getScheduleError,
+  getSkipReason,
+  isInWindow,
+} from "./schedule";
+
+// Every 30s on weekdays 09:00-17:00 Berlin time, every 5m otherwise
+const businessHours: Extract<HealthCheckSchedule, { type: "activeHours" }> = {
+  type: "activeHours",
+  timezone: "Europe/Berlin",
+  windows: [
+    {
+      days: [1, 2, 3, 4, 5],
+      start: "09:00",
+      end: "17:00",
+      intervalSeconds: 30,
+    },
+  ],
+  outsideIntervalSeconds: 300,
+};
+
+// Monday 2026-10-19, Berlin is UTC+2
+const mondayNoon = new Date("2026-10-19T10:00:00Z");
+const mondayNight = new Date("2026-10-19T22:00:00Z");
+
+describe("getLocalTime", () => {
+  it("returns weekday and minutes in the timezone", () => {
+    expect(getLocalTime(mondayNoon, "Europe/Berlin")).toEqual({
+      day: 1,
+      minutes: 12 * 60,
+    });
+    // Already Tuesday in Tokyo
+    expect(getLocalTime(mondayNight, "Asia/Tokyo")).toEqual({
+      day: 2,
+      minutes: 7 * 60,
+    });
+  });
+});
+
+describe("isInWindow", () => {
+  const nightShift = {
+    days: [5],
+    start: "22:00",
+    end: "06:00",
+    intervalSeconds: 60,
+  };
+
+  it("matches windows on the same day", () => {
+    const window = businessHours.windows[0];
+    expect(isInWindow(window, { day: 1, minutes: 9 * 60 })).toBe(true);
+    expect(isInWindow(window, { day: 1, minutes: 17 * 60 })).toBe(false);
+    expect(isInWindow(window, { day: 0, minutes: 12 * 60 })).toBe(false);
+  });
+
+  it("continues windows spanning midnight on the next day", () => {
+    expect(isInWindow(nightShift, { day: 5, minutes: 23 * 60 })).toBe(true);
+    expect(isInWindow(nightShift, { day: 6, minutes: 5 * 60 })).toBe(true);
+    expect(isInWindow(nightShift, { day: 6, minutes: 23 * 60 })).toBe(false);
+    expect(isInWindow(nightShift, { day: 5, minutes: 5 * 60 })).toBe(false);
+  });
+
+  it("covers the whole day when start equals end", () => {
+    const window = { ...nightShift, start: "00:00", end: "00:00" };
+    expect(isInWindow(window, { day: 5, minutes: 0 })).toBe(true);
+    expect(isInWindow(window, { day: 4, minutes: 0 })).toBe(false);
+  });
+});
+
+describe("getActiveIntervalSeconds", () => {
+  it("uses the window interval inside and the outside interval otherwise", () => {
+    expect(getActiveIntervalSeconds(businessHours, mondayNoon)).toBe(30);
+    expect(getActiveIntervalSeconds(businessHours, mondayNight)).toBe(300);
+  });
+
+  it("returns undefined outside windows without an outside interval", () => {
+    const schedule = { ...businessHours, outsideIntervalSeconds: undefined };
+    expect(getActiveIntervalSeconds(schedule, mondayNight)).toBeUndefined();
+  });
+});
+
+describe("getRecurringSchedule", () => {
+  it("uses the configured interval without a schedule", () => {
+    expect(getRecurringSchedule(60, undefined)).toEqual({
+      intervalSeconds: 60,
+    });
+  });
+
+  it("passes cron patterns with their timezone", () => {
+    expect(
+      getRecurringSchedule(60, {
+        type: "cron",
+        cronPattern: "0 6 * * *",
+        timezone: "Europe/Berlin",
+      }),
+    ).toEqual({ cronPattern: "0 6 * * *", timezone: "Europe/Berlin" });
+  });
+
+  it("ticks active hours at the shortest interval", () => {
+    expect(getRecurringSchedule(60, businessHours)).toEqual({
+      intervalSeconds: 30,
+    });
+  });
+});
+
+describe("getScheduleError", () => {
+  it("accepts valid cron patterns", () => {
+    expect(
+      getScheduleError({
+        type: "cron",
+        cronPattern: "*/15 8-18 * * 1-5",
+        timezone: "UTC",
+      }),
+    ).toBeUndefined();
+  });
+
+  it("rejects invalid cron patterns", () => {
+    expect(
+      getScheduleError({
+        type: "cron",
+        cronPattern: "every monday",
+        timezone: "UTC",
+      }),
+    ).toContain("Invalid cron pattern");
+  });
+});
+
+describe("getSkipReason", () => {
+  const secondsBefore = (date: Date, seconds: number) =>
+    new Date(date.getTime() - seconds * 1000);
+
+  it("never skips interval and cron schedules", () => {
+    expect(
+      getSkipReason({
+        intervalSeconds: 60,
+        schedule: undefined,
+        lastRunAt: secondsBefore(mondayNoon, 1),
+        now: mondayNoon,
+      }),
+    ).toBeUndefined();
+  });
+
+  it("skips outside active hours without an outside interval", () => {
+    expect(
+      getSkipReason({
+        intervalSeconds: 60,
+        schedule: { ...businessHours, outsideIntervalSeconds: undefined },
+        lastRunAt: undefined,
+        now: mondayNight,
+      }),
+    ).toBe("outside active hours");
+  });
+
+  it("runs once the applicable interval has passed", () => {
+    const props = {
+      intervalSeconds: 60,
+      schedule: businessHours,
+      now: mondayNight,
+    };
+    expect(
+      getSkipReason({ ...props, lastRunAt: secondsBefore(mondayNight, 30) }),
+    ).toBeDefined();
+    // Tolerates runs arriving slightly early
+    expect(
+      getSkipReason({ ...props, lastRunAt: secondsBefore(mondayNight, 290) }),
+    ).toBeUndefined();
+    expect(getSkipReason({ ...props, lastRunAt: undefined })).toBeUndefined();
+  });
+
+  it("runs every tick inside the window", () => {
+    expect(
+      getSkipReason({
+        intervalSeconds: 60,
+        schedule: businessHours,
+        lastRunAt: secondsBefore(mondayNoon, 29),
+        now: mondayNoon,
+      }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+import parser from "cron-parser";
+import type { RecurringSchedule } from "@checkstack/queue-api";
+import type {
+  ActiveHoursWindow,
+  HealthCheckSchedule,
+} from "@checkstack/healthcheck-common";
+
+type ActiveHoursSchedule = Extract<
+  HealthCheckSchedule,
+  { type: "activeHours" }
+>;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Minutes since midnight of a "HH:mm" time */
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Day of the week (0 is Sunday) and minutes since midnight in a timezone */
+export function getLocalTime(
+  date: Date,
+  timeZone: string,
+): { day: number; minutes: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: WEEKDAYS.indexOf(get("weekday")),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/**
+ * Whether a local time falls into the window. Windows spanning midnight
+ * continue on the following day, equal start and end cover the whole day.
+ */
+export function isInWindow(
+  window: ActiveHoursWindow,
+  local: { day: number; minutes: number },
+): boolean {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  const previousDay = (local.day + 6) % 7;
+
+  if (start === end) {
+    return window.days.includes(local.day);
+  }
+  if (start < end) {
+    return (
+      window.days.includes(local.day) &&
+      local.minutes >= start &&
+      local.minutes < end
+    );
+  }
+  return (
+    (window.days.includes(local.day) && local.minutes >= start) ||
+    (window.days.includes(previousDay) && local.minutes < end)
+  );
+}
+
+/**
+ * Validation error of a schedule, undefined if it is valid.
+ * Cron patterns can only be parsed on the backend.
+ */
+export function getScheduleError(
+  schedule: HealthCheckSchedule | null | undefined,
+): string | undefined {
+  if (schedule?.type !== "cron") {
+    return undefined;
+  }
+  try {
+    parser.parseExpression(schedule.cronPattern, { tz: schedule.timezone });
+    return undefined;
+  } catch (error) {
+    return `Invalid cron pattern "${schedule.cronPattern}": ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+  }
+}
+
+/**
+ * Interval that applies at the given instant, undefined if runs are skipped.
+ * The first matching window wins.
+ */
+export function getActiveIntervalSeconds(
+  schedule: ActiveHoursSchedule,
+  now: Date,
+): number | undefined {
+  const local = getLocalTime(now, schedule.timezone);
+  const window = schedule.windows.find((w) => isInWindow(w, local));
+  return window ? window.intervalSeconds : schedule.outsideIntervalSeconds;
+}
+
+/**
+ * Interval of the recurring job. Active hours schedules tick at their
+ * shortest interval, each run then decides whether it is due.
+ */
+export function getTickSeconds(
+  intervalSeconds: number,
+  schedule: HealthCheckSchedule | null | undefined,
+): number {
+  if (schedule?.type !== "activeHours") {
+    return intervalSeconds;
+  }
+  const intervals = schedule.windows.map((w) => w.intervalSeconds);
+  if (schedule.outsideIntervalSeconds) {
+    intervals.push(schedule.outsideIntervalSeconds);
+  }
+  return Math.min(...intervals);
+}
+
+/**
+ * Recurring job schedule of a configuration.
+ */
+export function getRecurringSchedule(
+  intervalSeconds: number,
+  schedule: HealthCheckSchedule | null | undefined,
+): RecurringSchedule {
+  if (schedule?.type === "cron") {
+    return { cronPattern: schedule.cronPattern, timezone: schedule.timezone };
+  }
+  return { intervalSeconds: getTickSeconds(intervalSeconds, schedule) };
+}
+
+/**
+ * Reason to skip a scheduled run, undefined if the run is due.
+ * Only active hours schedules skip runs: outside all windows without an
+ * outside interval, or while the applicable interval has not passed since
+ * the last run. Half a tick of tolerance absorbs queue jitter.
+ */
+export function getSkipReason(props: {
+  intervalSeconds: number;
+  schedule: HealthCheckSchedule | null | undefined;
+  lastRunAt: Date | undefined;
+  now: Date;
+}): string | undefined {
+  const { intervalSeconds, schedule, lastRunAt, now } = props;
+  if (schedule?.type !== "activeHours") {
+    return undefined;
+  }
+
+  const activeInterval = getActiveIntervalSeconds(schedule, now);
+  if (activeInterval === undefined) {
+    return "outside active hours";
+  }
+  if (!lastRunAt) {
+    return undefined;
+  }
+
+  const tick = getTickSeconds(intervalSeconds, schedule);
+  const elapsedSeconds = (now.getTime() - lastRunAt.getTime()) / 1000;
+  if (elapsedSeconds < activeInterval - tick / 2) {
+    return `next run due ${activeInterval}s after the last run`;
+  }
+  return undefined;
+}
@@ -9,12 +9,15 @@ import {
   timestamp,
   primaryKey,
   uniqueIndex,
+  doublePrecision,
 } from "drizzle-orm/pg-core";
 import type {
   StateThresholds,
   CollectorConfigEntry,
+  HealthCheckSchedule,
 } from "@checkstack/healthcheck-common";
 import type { VersionedRecord } from "@checkstack/backend-api";
+import type { BaselineSlot } from "./anomaly-baseline";
 
 /**
  * Type alias for versioned state thresholds stored in the database.
@@ -47,6 +50,16 @@ export const healthCheckConfigurations = pgTable(
     isTemplate: boolean("is_template").default(false),
     /** Whether this configuration is paused (execution skipped for all systems) */
     paused: boolean("paused").default(false).notNull(),
+    /**
+     * Regions this check runs from. Empty means the backend's own "local"
+     * region only. Other regions are executed by remote probe agents.
+     */
+    regions: jsonb("regions").$type<string[]>().default([]).notNull(),
+    /**
+     * Cron or active hours schedule. Null means the check runs every
+     * intervalSeconds.
+     */
+    schedule: jsonb("schedule").$type<HealthCheckSchedule>(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -108,9 +121,133 @@ export const healthCheckRuns = pgTable("health_check_runs", {
   /** Execution duration in milliseconds */
   latencyMs: integer("latency_ms"),
   result: jsonb("result").$type<Record<string, unknown>>(),
+  /** Region the run was executed from ("local" for the backend itself) */
+  region: text("region").default("local").notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+/**
+ * Pending executions for remote probe agents.
+ * The queue worker enqueues one job per remote region on every scheduled run;
+ * agents claim them by region and delete them when submitting the result.
+ */
+export const probeAgentJobs = pgTable("probe_agent_jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  configurationId: uuid("configuration_id")
+    .notNull()
+    .references(() => healthCheckConfigurations.id, { onDelete: "cascade" }),
+  systemId: text("system_id").notNull(),
+  region: text("region").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  /** Set when an agent picks up the job */
+  claimedAt: timestamp("claimed_at"),
+  /** Application ID of the agent that claimed the job */
+  claimedBy: text("claimed_by"),
+});
+
+/**
+ * Last-seen heartbeat per agent and region, updated on every poll.
+ */
+export const probeAgents = pgTable(
+  "probe_agents",
+  {
+    /** Application ID the agent authenticates with */
+    applicationId: text("application_id").notNull(),
+    name: text("name").notNull(),
+    region: text("region").notNull(),
+    lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.applicationId, t.region] }),
+  }),
+);
+
+/**
+ * Regions an application may serve as probe agent, assigned by admins.
+ * Agents can only claim jobs of their assigned regions.
+ */
+export const probeAgentRegions = pgTable(
+  "probe_agent_regions",
+  {
+    applicationId: text("application_id").notNull(),
+    region: text("region").notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.applicationId, t.region] }),
+  }),
+);
+
+/**
+ * Acknowledgement and snooze state per system.
+ * The acknowledgement is cleared when the system recovers.
+ * Also tracks whether the current outage alert was skipped, so the matching
+ * recovery is skipped as well.
+ */
+export const systemAlertStates = pgTable("system_alert_states", {
+  systemId: text("system_id").primaryKey(),
+  acknowledgedBy: text("acknowledged_by"),
+  acknowledgedByName: text("acknowledged_by_name"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  snoozedUntil: timestamp("snoozed_until"),
+  snoozedBy: text("snoozed_by"),
+  snoozedByName: text("snoozed_by_name"),
+  /** The outage alert was skipped as caused by an upstream outage */
+  outageSuppressedByUpstream: boolean("outage_suppressed_by_upstream")
+    .default(false)
+    .notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const sloTypeEnum = pgEnum("slo_type", ["availability", "latency"]);
+
+export const sloScopeTypeEnum = pgEnum("slo_scope_type", ["system", "group"]);
+
+/**
+ * Service level objectives over a rolling window.
+ * `alertSeverity` holds the currently firing burn-rate alert, so hooks are
+ * only emitted when it changes.
+ */
+export const slos = pgTable("slos", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  description: text("description"),
+  scopeType: sloScopeTypeEnum("scope_type").notNull(),
+  /** System or group ID, depending on scopeType */
+  scopeId: text("scope_id").notNull(),
+  type: sloTypeEnum("type").notNull(),
+  /** Objective in percent, e.g. 99.9 */
+  target: doublePrecision("target").notNull(),
+  windowDays: integer("window_days").notNull(),
+  latencyThresholdMs: integer("latency_threshold_ms"),
+  includeMaintenance: boolean("include_maintenance").default(false).notNull(),
+  alertSeverity: text("alert_severity").$type<"page" | "ticket">(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Learned seasonal baselines for anomaly detection, one row per metric of a
+ * system's health check. Recomputed from hourly aggregates by a recurring job.
+ */
+export const healthCheckBaselines = pgTable(
+  "health_check_baselines",
+  {
+    configurationId: uuid("configuration_id")
+      .notNull()
+      .references(() => healthCheckConfigurations.id, { onDelete: "cascade" }),
+    systemId: text("system_id").notNull(),
+    /** "latencyMs" or "<collector uuid>.<field>" */
+    metric: text("metric").notNull(),
+    label: text("label").notNull(),
+    /** Statistics per hour of the week, hours without enough history are missing */
+    slots: jsonb("slots").$type<BaselineSlot[]>().notNull(),
+    computedAt: timestamp("computed_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.configurationId, t.systemId, t.metric] }),
+  }),
+);
+
 /**
  * Bucket size enum for aggregated data.
  */
@@ -0,0 +1,144 @@
+import { describe, it, expect, mock } from "bun:test";
+import type { HealthCheckStatus } from "@checkstack/healthcheck-common";
+import type { DependencyEdge } from "@checkstack/catalog-common";
+import { HealthCheckService } from "./service";
+
+/**
+ * Tests for upstream-aware health propagation.
+ * Each system has a single check; runs are served in evaluation order
+ * (requested system first, then its upstreams).
+ */
+describe("HealthCheckService - upstream propagation", () => {
+  function createMockDb(runStatuses: HealthCheckStatus[]) {
+    const queue = [...runStatuses];
+
+    const nextRuns = () => {
+      const status = queue.shift() ?? "healthy";
+      return Promise.resolve(
+        Array.from({ length: 5 }, (_, i) => ({
+          status,
+          timestamp: new Date(Date.now() - i * 60_000),
+        })),
+      );
+    };
+
+    return {
+      select: mock(() => ({
+        from: mock(() => ({
+          innerJoin: mock(() => ({
+            where: mock(() =>
+              Promise.resolve([
+                {
+                  configurationId: "config-1",
+                  stateThresholds: null,
+                  configName: "HTTP",
+                  intervalSeconds: 60,
+                  regions: [],
+                  enabled: true,
+                },
+              ]),
+            ),
+          })),
+          where: mock(() => ({
+            orderBy: mock(() => ({ limit: mock(nextRuns) })),
+          })),
+        })),
+      })),
+    };
+  }
+
+  function createService(props: {
+    runStatuses: HealthCheckStatus[];
+    dependencies?: DependencyEdge[];
+    getDependencyGraph?: () => Promise<{ dependencies: DependencyEdge[] }>;
+  }) {
+    const { runStatuses, dependencies = [] } = props;
+    const catalogClient = {
+      getDependencyGraph:
+        props.getDependencyGraph ?? mock(async () => ({ dependencies })),
+    };
+    return new HealthCheckService(
+      createMockDb(runStatuses) as never,
+      {} as never,
+      {} as never,
+      catalogClient as never,
+    );
+  }
+
+  it("reports degraded when own checks pass but an upstream is down", async () => {
+    const service = createService({
+      runStatuses: ["healthy", "unhealthy"],
+      dependencies: [{ systemId: "api", dependsOnSystemId: "db" }],
+    });
+
+    const result = await service.getSystemHealthStatus("api");
+
+    expect(result.status).toBe("degraded");
+    expect(result.ownStatus).toBe("healthy");
+    expect(result.degradedByUpstream).toBe(true);
+    expect(result.impactedByUpstreams).toEqual([
+      { systemId: "db", status: "unhealthy" },
+    ]);
+  });
+
+  it("keeps the own status when the system itself is failing", async () => {
+    const service = createService({
+      runStatuses: ["unhealthy", "unhealthy"],
+      dependencies: [{ systemId: "api", dependsOnSystemId: "db" }],
+    });
+
+    const result = await service.getSystemHealthStatus("api");
+
+    expect(result.status).toBe("unhealthy");
+    expect(result.degradedByUpstream).toBe(false);
+    expect(result.impactedByUpstreams).toHaveLength(1);
+  });
+
+  it("reports healthy when all upstreams are healthy", async () => {
+    const service = createService({
+      runStatuses: ["healthy", "healthy"],
+      dependencies: [{ systemId: "api", dependsOnSystemId: "db" }],
+    });
+
+    const result = await service.getSystemHealthStatus("api");
+
+    expect(result.status).toBe("healthy");
+    expect(result.impactedByUpstreams).toEqual([]);
+  });
+
+  it("falls back to own status when the dependency graph is unavailable", async () => {
+    const service = createService({
+      runStatuses: ["healthy"],
+      getDependencyGraph: mock(async () => {
+        throw new Error("catalog unavailable");
+      }),
+    });
+
+    const result = await service.getSystemHealthStatus("api");
+
+    expect(result.status).toBe("healthy");
+    expect(result.impactedByUpstreams).toEqual([]);
+  });
+
+  it("evaluates shared upstreams only once in bulk requests", async () => {
+    const service = createService({
+      // api, db (shared upstream), worker
+      runStatuses: ["healthy", "unhealthy", "healthy"],
+      dependencies: [
+        { systemId: "api", dependsOnSystemId: "db" },
+        { systemId: "worker", dependsOnSystemId: "db" },
+      ],
+    });
+
+    const statuses = await service.getBulkSystemHealthStatus([
+      "api",
+      "worker",
+      "db",
+    ]);
+
+    expect(statuses["api"].status).toBe("degraded");
+    expect(statuses["worker"].status).toBe("degraded");
+    expect(statuses["db"].status).toBe("unhealthy");
+    expect(statuses["db"].degradedByUpstream).toBe(false);
+  });
+});
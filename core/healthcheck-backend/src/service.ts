@@ -5,6 +5,8 @@ import {
   StateThresholds,
   HealthCheckStatus,
   RetentionConfig,
+  DetectedAnomaly,
+  HealthCheckSchedule,
 } from "@checkstack/healthcheck-common";
 import {
   healthCheckConfigurations,
@@ -15,10 +17,27 @@ import {
   DEFAULT_RETENTION_CONFIG,
 } from "./schema";
 import * as schema from "./schema";
-import { eq, and, InferSelectModel, desc, gte, lte, lt } from "drizzle-orm";
+import {
+  eq,
+  and,
+  InferSelectModel,
+  desc,
+  gte,
+  lte,
+  lt,
+  inArray,
+} from "drizzle-orm";
 import { ORPCError } from "@orpc/server";
-import { evaluateHealthStatus } from "./state-evaluator";
+import {
+  evaluateHealthStatus,
+  evaluateRegionStatuses,
+  selectCurrentRuns,
+} from "./state-evaluator";
 import { stateThresholds } from "./state-thresholds-migrations";
+import { computeStatusTransitions } from "./status-transitions";
+import { summarizeAvailability } from "./availability-summary";
+import { AnomalyService } from "./anomaly-service";
+import { getScheduleError } from "./schedule";
 import type {
   HealthCheckRegistry,
   SafeDatabase,
@@ -33,9 +52,16 @@ import {
   calculateLatencyStats,
   type NormalizedBucket,
 } from "./aggregation-utils";
+import {
+  CatalogApi,
+  collectUpstreamSystemIds,
+  type DependencyEdge,
+} from "@checkstack/catalog-common";
+import type { InferClient } from "@checkstack/common";
 
 // Drizzle type helper - uses SafeDatabase to prevent relational query API usage
 type Db = SafeDatabase<typeof schema>;
+type CatalogClient = InferClient<typeof CatalogApi>;
 
 interface SystemCheckStatus {
   configurationId: string;
@@ -43,10 +69,34 @@ interface SystemCheckStatus {
   status: HealthCheckStatus;
   runsConsidered: number;
   lastRunAt?: Date;
+  regionStatuses?: Record<string, HealthCheckStatus>;
+  anomalies?: DetectedAnomaly[];
+}
+
+interface DailyAvailability {
+  date: Date;
+  availability: number | null;
+  totalRuns: number;
+}
+
+/** Number of days covered by the per-day availability breakdown */
+const DAILY_AVAILABILITY_DAYS = 90;
+
+interface OwnHealthStatus {
+  status: HealthCheckStatus;
+  checkStatuses: SystemCheckStatus[];
+}
+
+interface UpstreamImpact {
+  systemId: string;
+  status: HealthCheckStatus;
 }
 
 interface SystemHealthStatusResponse {
   status: HealthCheckStatus;
+  ownStatus: HealthCheckStatus;
+  impactedByUpstreams: UpstreamImpact[];
+  degradedByUpstream: boolean;
   evaluatedAt: Date;
   checkStatuses: SystemCheckStatus[];
 }
@@ -56,11 +106,13 @@ export class HealthCheckService {
     private db: Db,
     private registry: HealthCheckRegistry,
     private collectorRegistry: CollectorRegistry,
+    private catalogClient?: CatalogClient,
   ) {}
 
   async createConfiguration(
     data: CreateHealthCheckConfiguration,
   ): Promise<HealthCheckConfiguration> {
+    this.assertValidSchedule(data.schedule);
     const [config] = await this.db
       .insert(healthCheckConfigurations)
       .values({
@@ -69,6 +121,8 @@ export class HealthCheckService {
         config: data.config,
         collectors: data.collectors ?? undefined,
         intervalSeconds: data.intervalSeconds,
+        regions: data.regions ?? [],
+        schedule: data.schedule ?? undefined,
         isTemplate: false, // Defaulting for now
       })
       .returning();
@@ -89,6 +143,7 @@ export class HealthCheckService {
     id: string,
     data: UpdateHealthCheckConfiguration,
   ): Promise<HealthCheckConfiguration | undefined> {
+    this.assertValidSchedule(data.schedule);
     const [config] = await this.db
       .update(healthCheckConfigurations)
       .set({
@@ -100,6 +155,22 @@ export class HealthCheckService {
     return config ? this.mapConfig(config) : undefined;
   }
 
+  /**
+   * IDs of systems the configuration is enabled for.
+   */
+  async getEnabledSystemIds(configurationId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ systemId: systemHealthChecks.systemId })
+      .from(systemHealthChecks)
+      .where(
+        and(
+          eq(systemHealthChecks.configurationId, configurationId),
+          eq(systemHealthChecks.enabled, true),
+        ),
+      );
+    return rows.map((row) => row.systemId);
+  }
+
   async deleteConfiguration(id: string): Promise<void> {
     await this.db
       .delete(healthCheckConfigurations)
@@ -299,16 +370,116 @@ export class HealthCheckService {
   /**
    * Get the evaluated health status for a system based on configured thresholds.
    * Aggregates status from all health check configurations for this system.
+   * A system whose own checks pass is reported as degraded while any of its
+   * upstream dependencies is unhealthy.
    */
   async getSystemHealthStatus(
     systemId: string,
   ): Promise<SystemHealthStatusResponse> {
+    const edges = await this.getDependencyEdges();
+    return this.evaluateSystemHealth({ systemId, edges, cache: new Map() });
+  }
+
+  /**
+   * Get the evaluated health status for multiple systems.
+   * Loads the dependency graph once and evaluates each system only once,
+   * even if it is an upstream of several requested systems.
+   */
+  async getBulkSystemHealthStatus(
+    systemIds: string[],
+  ): Promise<Record<string, SystemHealthStatusResponse>> {
+    const edges = await this.getDependencyEdges();
+    const cache = new Map<string, Promise<OwnHealthStatus>>();
+    const statuses: Record<string, SystemHealthStatusResponse> = {};
+
+    for (const systemId of systemIds) {
+      statuses[systemId] = await this.evaluateSystemHealth({
+        systemId,
+        edges,
+        cache,
+      });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Fetch the system dependency graph from the catalog.
+   * Upstream propagation is best-effort - without the graph, systems are
+   * evaluated on their own checks only.
+   */
+  private async getDependencyEdges(): Promise<DependencyEdge[]> {
+    if (!this.catalogClient) return [];
+
+    try {
+      const { dependencies } = await this.catalogClient.getDependencyGraph();
+      return dependencies;
+    } catch {
+      return [];
+    }
+  }
+
+  private async evaluateSystemHealth(props: {
+    systemId: string;
+    edges: DependencyEdge[];
+    cache: Map<string, Promise<OwnHealthStatus>>;
+  }): Promise<SystemHealthStatusResponse> {
+    const { systemId, edges, cache } = props;
+
+    const own = await this.getCachedOwnHealthStatus({ systemId, cache });
+
+    const impactedByUpstreams: UpstreamImpact[] = [];
+    for (const upstreamId of collectUpstreamSystemIds({ edges, systemId })) {
+      const upstream = await this.getCachedOwnHealthStatus({
+        systemId: upstreamId,
+        cache,
+      });
+      if (upstream.status === "unhealthy") {
+        impactedByUpstreams.push({
+          systemId: upstreamId,
+          status: upstream.status,
+        });
+      }
+    }
+
+    const degradedByUpstream =
+      own.status === "healthy" && impactedByUpstreams.length > 0;
+
+    return {
+      status: degradedByUpstream ? "degraded" : own.status,
+      ownStatus: own.status,
+      impactedByUpstreams,
+      degradedByUpstream,
+      evaluatedAt: new Date(),
+      checkStatuses: own.checkStatuses,
+    };
+  }
+
+  private getCachedOwnHealthStatus(props: {
+    systemId: string;
+    cache: Map<string, Promise<OwnHealthStatus>>;
+  }): Promise<OwnHealthStatus> {
+    const { systemId, cache } = props;
+    let pending = cache.get(systemId);
+    if (!pending) {
+      pending = this.getOwnHealthStatus(systemId);
+      cache.set(systemId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Evaluate a system's status from its own health checks, ignoring upstreams.
+   */
+  private async getOwnHealthStatus(systemId: string): Promise<OwnHealthStatus> {
     // Get all associations for this system with their thresholds and config names
     const associations = await this.db
       .select({
         configurationId: systemHealthChecks.configurationId,
         stateThresholds: systemHealthChecks.stateThresholds,
         configName: healthCheckConfigurations.name,
+        intervalSeconds: healthCheckConfigurations.intervalSeconds,
+        regions: healthCheckConfigurations.regions,
         enabled: systemHealthChecks.enabled,
       })
       .from(systemHealthChecks)
@@ -325,11 +496,7 @@ export class HealthCheckService {
 
     if (associations.length === 0) {
       // No health checks configured - default healthy
-      return {
-        status: "healthy",
-        evaluatedAt: new Date(),
-        checkStatuses: [],
-      };
+      return { status: "healthy", checkStatuses: [] };
     }
 
     // For each association, get recent runs and evaluate status
@@ -337,10 +504,11 @@ export class HealthCheckService {
     const maxWindowSize = 100; // Max configurable window size
 
     for (const assoc of associations) {
-      const runs = await this.db
+      const recentRuns = await this.db
         .select({
           status: healthCheckRuns.status,
           timestamp: healthCheckRuns.timestamp,
+          region: healthCheckRuns.region,
         })
         .from(healthCheckRuns)
         .where(
@@ -352,13 +520,40 @@ export class HealthCheckService {
         .orderBy(desc(healthCheckRuns.timestamp))
         .limit(maxWindowSize);
 
+      // Removed or silent regions must not keep voting
+      const runs = selectCurrentRuns({
+        runs: recentRuns,
+        regions: assoc.regions,
+        intervalSeconds: assoc.intervalSeconds,
+      });
+
       // Extract and migrate thresholds from versioned config
       let thresholds: StateThresholds | undefined;
       if (assoc.stateThresholds) {
         thresholds = await stateThresholds.parse(assoc.stateThresholds);
       }
 
-      const status = evaluateHealthStatus({ runs, thresholds });
+      let status = evaluateHealthStatus({ runs, thresholds });
+
+      // Only expose per-region statuses for checks running in several regions
+      const regionStatuses = evaluateRegionStatuses({ runs, thresholds });
+      const isMultiRegion = Object.keys(regionStatuses).length > 1;
+
+      // Deviations from the learned baseline degrade an otherwise healthy check
+      let anomalies: DetectedAnomaly[] | undefined;
+      if (thresholds?.anomaly) {
+        anomalies = await new AnomalyService(
+          this.db,
+          this.collectorRegistry,
+        ).detectAnomalies({
+          systemId,
+          configurationId: assoc.configurationId,
+          anomaly: thresholds.anomaly,
+        });
+        if (status === "healthy" && anomalies.length > 0) {
+          status = "degraded";
+        }
+      }
 
       checkStatuses.push({
         configurationId: assoc.configurationId,
@@ -366,6 +561,8 @@ export class HealthCheckService {
         status,
         runsConsidered: runs.length,
         lastRunAt: runs[0]?.timestamp,
+        regionStatuses: isMultiRegion ? regionStatuses : undefined,
+        anomalies,
       });
     }
 
@@ -382,11 +579,7 @@ export class HealthCheckService {
       }
     }
 
-    return {
-      status: aggregateStatus,
-      evaluatedAt: new Date(),
-      checkStatuses,
-    };
+    return { status: aggregateStatus, checkStatuses };
   }
 
   /**
@@ -401,6 +594,7 @@ export class HealthCheckService {
         configName: healthCheckConfigurations.name,
         strategyId: healthCheckConfigurations.strategyId,
         intervalSeconds: healthCheckConfigurations.intervalSeconds,
+        regions: healthCheckConfigurations.regions,
         enabled: systemHealthChecks.enabled,
         stateThresholds: systemHealthChecks.stateThresholds,
       })
@@ -421,6 +615,7 @@ export class HealthCheckService {
           id: healthCheckRuns.id,
           status: healthCheckRuns.status,
           timestamp: healthCheckRuns.timestamp,
+          region: healthCheckRuns.region,
         })
         .from(healthCheckRuns)
         .where(
@@ -443,7 +638,11 @@ export class HealthCheckService {
 
       // Evaluate current status (runs are in DESC order - newest first - as evaluateHealthStatus expects)
       const status = evaluateHealthStatus({
-        runs,
+        runs: selectCurrentRuns({
+          runs,
+          regions: assoc.regions,
+          intervalSeconds: assoc.intervalSeconds,
+        }),
         thresholds,
       });
 
@@ -521,6 +720,7 @@ export class HealthCheckService {
         configurationId: run.configurationId,
         systemId: run.systemId,
         status: run.status,
+        region: run.region,
         timestamp: run.timestamp,
         latencyMs: run.latencyMs ?? undefined,
       })),
@@ -528,6 +728,129 @@ export class HealthCheckService {
     };
   }
 
+  /**
+   * Get availability and latency of the given systems within a window,
+   * combined over all of their checks. Hourly and daily aggregates never
+   * overlap, so both can be summed up.
+   */
+  async getAvailabilitySummary(props: {
+    systemIds: string[];
+    startDate: Date;
+    endDate: Date;
+  }) {
+    const { systemIds, startDate, endDate } = props;
+    if (systemIds.length === 0) return [];
+
+    const buckets = await this.db
+      .select({
+        systemId: healthCheckAggregates.systemId,
+        runCount: healthCheckAggregates.runCount,
+        healthyCount: healthCheckAggregates.healthyCount,
+        degradedCount: healthCheckAggregates.degradedCount,
+        unhealthyCount: healthCheckAggregates.unhealthyCount,
+        avgLatencyMs: healthCheckAggregates.avgLatencyMs,
+        tdigestState: healthCheckAggregates.tdigestState,
+      })
+      .from(healthCheckAggregates)
+      .where(
+        and(
+          inArray(healthCheckAggregates.systemId, systemIds),
+          gte(healthCheckAggregates.bucketStart, startDate),
+          lt(healthCheckAggregates.bucketStart, endDate),
+        ),
+      );
+
+    return systemIds.map((systemId) =>
+      summarizeAvailability(
+        systemId,
+        buckets.filter((bucket) => bucket.systemId === systemId),
+      ),
+    );
+  }
+
+  /**
+   * Get the status changes of all checks of the given systems within a window.
+   * The last run of each check up to a day before the window defines its
+   * initial status. Based on raw runs, so limited to the raw retention period.
+   */
+  async getStatusTransitions(props: {
+    systemIds: string[];
+    startDate: Date;
+    endDate: Date;
+  }) {
+    const { systemIds, startDate, endDate } = props;
+    if (systemIds.length === 0) return [];
+
+    const runColumns = {
+      systemId: healthCheckRuns.systemId,
+      configurationId: healthCheckRuns.configurationId,
+      region: healthCheckRuns.region,
+      status: healthCheckRuns.status,
+      timestamp: healthCheckRuns.timestamp,
+    };
+
+    const runs = await this.db
+      .select(runColumns)
+      .from(healthCheckRuns)
+      .where(
+        and(
+          inArray(healthCheckRuns.systemId, systemIds),
+          gte(healthCheckRuns.timestamp, startDate),
+          lte(healthCheckRuns.timestamp, endDate),
+        ),
+      )
+      .orderBy(healthCheckRuns.timestamp);
+
+    const baselines = await this.db
+      .selectDistinctOn(
+        [
+          healthCheckRuns.systemId,
+          healthCheckRuns.configurationId,
+          healthCheckRuns.region,
+        ],
+        runColumns,
+      )
+      .from(healthCheckRuns)
+      .where(
+        and(
+          inArray(healthCheckRuns.systemId, systemIds),
+          gte(
+            healthCheckRuns.timestamp,
+            new Date(startDate.getTime() - 24 * 60 * 60 * 1000),
+          ),
+          lt(healthCheckRuns.timestamp, startDate),
+        ),
+      )
+      .orderBy(
+        healthCheckRuns.systemId,
+        healthCheckRuns.configurationId,
+        healthCheckRuns.region,
+        desc(healthCheckRuns.timestamp),
+      );
+
+    const transitions = computeStatusTransitions({ runs, baselines });
+    if (transitions.length === 0) return [];
+
+    const configurations = await this.db
+      .select({
+        id: healthCheckConfigurations.id,
+        name: healthCheckConfigurations.name,
+      })
+      .from(healthCheckConfigurations)
+      .where(
+        inArray(healthCheckConfigurations.id, [
+          ...new Set(transitions.map((t) => t.configurationId)),
+        ]),
+      );
+    const names = new Map(configurations.map((c) => [c.id, c.name]));
+
+    return transitions.map((transition) => ({
+      ...transition,
+      configurationName:
+        names.get(transition.configurationId) ?? transition.configurationId,
+    }));
+  }
+
   /**
    * Get detailed health check run history with full result data.
    * Restricted to users with manage access.
@@ -581,6 +904,7 @@ export class HealthCheckService {
         systemId: run.systemId,
         status: run.status,
         result: run.result ?? {},
+        region: run.region,
         timestamp: run.timestamp,
         latencyMs: run.latencyMs ?? undefined,
       })),
@@ -609,6 +933,7 @@ export class HealthCheckService {
       systemId: r.systemId,
       status: r.status,
       result: r.result ?? {},
+      region: r.region,
       timestamp: r.timestamp,
       latencyMs: r.latencyMs ?? undefined,
     };
@@ -943,6 +1268,7 @@ export class HealthCheckService {
     availability365Days: number | null;
     totalRuns31Days: number;
     totalRuns365Days: number;
+    dailyAvailability: DailyAvailability[];
   }> {
     const { systemId, configurationId } = props;
     const now = new Date();
@@ -999,6 +1325,36 @@ export class HealthCheckService {
         ),
       );
 
+    // Per-day buckets (UTC) for the uptime bar, oldest first
+    const dayMs = 24 * 60 * 60 * 1000;
+    const todayStart = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+    );
+    const dailyStart = todayStart - (DAILY_AVAILABILITY_DAYS - 1) * dayMs;
+    const dailyBuckets = Array.from(
+      { length: DAILY_AVAILABILITY_DAYS },
+      (_, i) => ({
+        date: new Date(dailyStart + i * dayMs),
+        totalRuns: 0,
+        healthyRuns: 0,
+      }),
+    );
+    const addToDailyBucket = (agg: {
+      bucketStart: Date;
+      runCount: number;
+      healthyCount: number;
+    }) => {
+      const index = Math.floor(
+        (agg.bucketStart.getTime() - dailyStart) / dayMs,
+      );
+      const bucket = dailyBuckets[index];
+      if (!bucket) return;
+      bucket.totalRuns += agg.runCount;
+      bucket.healthyRuns += agg.healthyCount;
+    };
+
     // Aggregate counts
     let totalRuns31Days = 0;
     let healthyRuns31Days = 0;
@@ -1007,6 +1363,7 @@ export class HealthCheckService {
 
     // Process hourly aggregates (fresh data within hourlyRetentionDays)
     for (const agg of hourlyAggregates) {
+      addToDailyBucket(agg);
       totalRuns365Days += agg.runCount;
       healthyRuns365Days += agg.healthyCount;
 
@@ -1018,6 +1375,7 @@ export class HealthCheckService {
 
     // Process daily aggregates (older data beyond hourly retention)
     for (const agg of dailyAggregates) {
+      addToDailyBucket(agg);
       totalRuns365Days += agg.runCount;
       healthyRuns365Days += agg.healthyCount;
 
@@ -1037,11 +1395,22 @@ export class HealthCheckService {
         : // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
           null;
 
+    const dailyAvailability = dailyBuckets.map((bucket) => ({
+      date: bucket.date,
+      availability:
+        bucket.totalRuns > 0
+          ? (bucket.healthyRuns / bucket.totalRuns) * 100
+          : // eslint-disable-next-line unicorn/no-null -- RPC contract uses nullable()
+            null,
+      totalRuns: bucket.totalRuns,
+    }));
+
     return {
       availability31Days,
       availability365Days,
       totalRuns31Days,
       totalRuns365Days,
+      dailyAvailability,
     };
   }
 
@@ -1055,6 +1424,15 @@ export class HealthCheckService {
     return new Date(rangeStart.getTime() + bucketIndex * intervalMs);
   }
 
+  private assertValidSchedule(
+    schedule: HealthCheckSchedule | null | undefined,
+  ): void {
+    const error = getScheduleError(schedule);
+    if (error) {
+      throw new ORPCError("BAD_REQUEST", { message: error });
+    }
+  }
+
   private mapConfig(
     row: InferSelectModel<typeof healthCheckConfigurations>,
   ): HealthCheckConfiguration {
@@ -1065,6 +1443,8 @@ export class HealthCheckService {
       config: row.config,
       collectors: row.collectors ?? undefined,
       intervalSeconds: row.intervalSeconds,
+      regions: row.regions,
+      schedule: row.schedule ?? undefined,
       paused: row.paused,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
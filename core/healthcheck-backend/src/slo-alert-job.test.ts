@@ -0,0 +1,96 @@
+import { describe, it, expect, mock } from "bun:test";
+import type { EmitHookFn, Logger } from "@checkstack/backend-api";
+import type { Slo, SloBurnRate } from "@checkstack/healthcheck-common";
+import { healthCheckHooks } from "./hooks";
+import { runSloAlertJob } from "./slo-alert-job";
+import type { SloService } from "./slo-service";
+
+const slo = (alertSeverity?: Slo["alertSeverity"]): Slo => ({
+  id: "slo-1",
+  name: "API availability",
+  scopeType: "system",
+  scopeId: "sys-1",
+  type: "availability",
+  target: 99.9,
+  windowDays: 30,
+  includeMaintenance: false,
+  alertSeverity,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const fastBurn = (firing: boolean): SloBurnRate => ({
+  severity: "page",
+  longWindowMinutes: 60,
+  shortWindowMinutes: 5,
+  threshold: 14.4,
+  longBurnRate: firing ? 20 : 0,
+  shortBurnRate: firing ? 30 : 0,
+  firing,
+});
+
+const setup = (current: Slo, firing: boolean) => {
+  const sloService = {
+    listSlos: mock(async () => [current]),
+    getSloWithStatus: mock(async (s: Slo) => ({
+      slo: s,
+      status: {
+        sloId: s.id,
+        totalEvents: 1000,
+        badEvents: 10,
+        errorBudget: 1,
+        errorBudgetRemaining: -9,
+        burnRates: [fastBurn(firing)],
+        evaluatedAt: new Date(),
+      },
+    })),
+    setAlertSeverity: mock(async () => {}),
+  };
+  const emitHook = mock(async () => {});
+  const run = () =>
+    runSloAlertJob({
+      sloService: sloService as unknown as SloService,
+      logger: { error: mock() } as unknown as Logger,
+      getEmitHook: () => emitHook as unknown as EmitHookFn,
+    });
+  return { sloService, emitHook, run };
+};
+
+describe("runSloAlertJob", () => {
+  it("emits a burning hook when an alert starts firing", async () => {
+    const { sloService, emitHook, run } = setup(slo(), true);
+    await run();
+
+    expect(sloService.setAlertSeverity).toHaveBeenCalledWith("slo-1", "page");
+    expect(emitHook).toHaveBeenCalledWith(
+      healthCheckHooks.sloBurning,
+      expect.objectContaining({
+        sloId: "slo-1",
+        severity: "page",
+        burnRate: 20,
+      }),
+    );
+  });
+
+  it("does not repeat an alert that is already firing", async () => {
+    const { sloService, emitHook, run } = setup(slo("page"), true);
+    await run();
+
+    expect(sloService.setAlertSeverity).not.toHaveBeenCalled();
+    expect(emitHook).not.toHaveBeenCalled();
+  });
+
+  it("emits a recovered hook when the alert stops firing", async () => {
+    const { sloService, emitHook, run } = setup(slo("page"), false);
+    await run();
+
+    expect(sloService.setAlertSeverity).toHaveBeenCalledWith(
+      "slo-1",
+      undefined,
+    );
+    expect(emitHook).toHaveBeenCalledWith(
+      healthCheckHooks.sloRecovered,
+      expect.objectContaining({ sloId: "slo-1", previousSeverity: "page" }),
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import type { EmitHookFn, Logger } from "@checkstack/backend-api";
+import type { QueueManager } from "@checkstack/queue-api";
+import { healthCheckHooks } from "./hooks";
+import { getAlertSeverity } from "./slo-evaluator";
+import type { SloService } from "./slo-service";
+
+const SLO_ALERT_QUEUE = "health-check-slo-alerts";
+
+/** Burn rates use 5 minute short windows, so evaluate at the same pace */
+const SLO_ALERT_INTERVAL_SECONDS = 5 * 60;
+
+interface SloAlertJobPayload {
+  trigger: "scheduled";
+}
+
+interface SloAlertJobDeps {
+  sloService: SloService;
+  logger: Logger;
+  getEmitHook: () => EmitHookFn | undefined;
+}
+
+/**
+ * Registers the recurring job that evaluates SLO burn rates and emits
+ * alert hooks.
+ */
+export async function setupSloAlertJob(
+  deps: SloAlertJobDeps & { queueManager: QueueManager },
+) {
+  const { queueManager, logger } = deps;
+
+  const queue = queueManager.getQueue<SloAlertJobPayload>(SLO_ALERT_QUEUE);
+
+  await queue.consume(
+    async () => {
+      await runSloAlertJob(deps);
+    },
+    { consumerGroup: "slo-alert-worker" },
+  );
+
+  await queue.scheduleRecurring(
+    { trigger: "scheduled" },
+    {
+      jobId: "health-check-slo-alerts",
+      intervalSeconds: SLO_ALERT_INTERVAL_SECONDS,
+    },
+  );
+
+  logger.debug("SLO burn-rate alert job scheduled");
+}
+
+/**
+ * Evaluate all SLOs and emit a hook whenever the firing severity changes.
+ * The severity is stored on the SLO so alerts are not repeated.
+ */
+export async function runSloAlertJob({
+  sloService,
+  logger,
+  getEmitHook,
+}: SloAlertJobDeps) {
+  const emitHook = getEmitHook();
+  if (!emitHook) return;
+
+  const allSlos = await sloService.listSlos();
+
+  for (const slo of allSlos) {
+    try {
+      const { status } = await sloService.getSloWithStatus(slo);
+      const severity = getAlertSeverity(status.burnRates);
+      if (severity === slo.alertSeverity) continue;
+
+      await sloService.setAlertSeverity(slo.id, severity);
+
+      const timestamp = new Date().toISOString();
+      if (severity) {
+        // Report the fastest firing rule of the new severity
+        const rate = status.burnRates
+          .filter((r) => r.firing && r.severity === severity)
+          .toSorted((a, b) => (b.longBurnRate ?? 0) - (a.longBurnRate ?? 0))[0];
+        await emitHook(healthCheckHooks.sloBurning, {
+          sloId: slo.id,
+          sloName: slo.name,
+          scopeType: slo.scopeType,
+          scopeId: slo.scopeId,
+          severity,
+          burnRate: rate.longBurnRate ?? 0,
+          threshold: rate.threshold,
+          longWindowMinutes: rate.longWindowMinutes,
+          shortWindowMinutes: rate.shortWindowMinutes,
+          errorBudgetRemaining: status.errorBudgetRemaining,
+          timestamp,
+        });
+      } else if (slo.alertSeverity) {
+        await emitHook(healthCheckHooks.sloRecovered, {
+          sloId: slo.id,
+          sloName: slo.name,
+          scopeType: slo.scopeType,
+          scopeId: slo.scopeId,
+          previousSeverity: slo.alertSeverity,
+          errorBudgetRemaining: status.errorBudgetRemaining,
+          timestamp,
+        });
+      }
+    } catch (error) {
+      logger.error(`Failed to evaluate burn rates of SLO ${slo.id}`, {
+        error,
+      });
+    }
+  }
+}
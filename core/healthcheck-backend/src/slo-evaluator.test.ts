@@ -0,0 +1,280 @@
+import { describe, it, expect } from "bun:test";
+import type { Slo } from "@checkstack/healthcheck-common";
+import {
+  buildSlaReportEntry,
+  computeBurnRates,
+  countRunEvents,
+  evaluateSlo,
+  getAlertSeverity,
+  getMaintenanceMinutes,
+  type SloAggregateBucket,
+  type SloRun,
+} from "./slo-evaluator";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2026-03-31T12:00:00Z");
+
+const slo = (overrides: Partial<Slo> = {}): Slo => ({
+  id: "slo-1",
+  name: "API availability",
+  scopeType: "system",
+  scopeId: "sys-1",
+  type: "availability",
+  target: 99,
+  windowDays: 30,
+  includeMaintenance: false,
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+const bucket = (
+  hoursAgo: number,
+  runCount: number,
+  healthyCount: number,
+): SloAggregateBucket => ({
+  systemId: "sys-1",
+  bucketStart: new Date(now.getTime() - hoursAgo * HOUR_MS),
+  bucketSize: "hourly",
+  runCount,
+  healthyCount,
+  minLatencyMs: null,
+  maxLatencyMs: null,
+  p95LatencyMs: null,
+  tdigestState: null,
+});
+
+/** One run per minute over the last `minutes`, `badMinutes` of them failing */
+const runs = (minutes: number, badMinutes: number): SloRun[] =>
+  Array.from({ length: minutes }, (_, i) => ({
+    systemId: "sys-1",
+    timestamp: new Date(now.getTime() - i * 60 * 1000),
+    status: i < badMinutes ? "unhealthy" : "healthy",
+    latencyMs: 100,
+  }));
+
+describe("countRunEvents", () => {
+  it("counts slow runs for latency SLOs and ignores runs without latency", () => {
+    const counts = countRunEvents(
+      slo({ type: "latency", latencyThresholdMs: 300 }),
+      [
+        {
+          systemId: "sys-1",
+          timestamp: now,
+          status: "healthy",
+          latencyMs: 200,
+        },
+        {
+          systemId: "sys-1",
+          timestamp: now,
+          status: "healthy",
+          latencyMs: 400,
+        },
+        {
+          systemId: "sys-1",
+          timestamp: now,
+          status: "unhealthy",
+          latencyMs: null,
+        },
+      ],
+    );
+
+    expect(counts).toEqual({ totalEvents: 2, badEvents: 1 });
+  });
+});
+
+describe("evaluateSlo", () => {
+  it("computes attainment and remaining error budget", () => {
+    const status = evaluateSlo({
+      slo: slo(),
+      buckets: [bucket(2, 1000, 995), bucket(1, 1000, 1000)],
+      runs: [],
+      maintenanceWindows: new Map(),
+      now,
+    });
+
+    expect(status.attainment).toBeCloseTo(99.75);
+    expect(status.errorBudget).toBeCloseTo(20);
+    expect(status.errorBudgetRemaining).toBeCloseTo(0.75);
+  });
+
+  it("excludes buckets overlapping maintenance unless it counts", () => {
+    const maintenanceWindows = new Map([
+      [
+        "sys-1",
+        [
+          {
+            start: new Date(now.getTime() - 2 * HOUR_MS),
+            end: new Date(now.getTime() - 1.5 * HOUR_MS),
+          },
+        ],
+      ],
+    ]);
+    const buckets = [bucket(2, 100, 0), bucket(1, 100, 100)];
+
+    expect(
+      evaluateSlo({ slo: slo(), buckets, runs: [], maintenanceWindows, now })
+        .attainment,
+    ).toBe(100);
+    expect(
+      evaluateSlo({
+        slo: slo({ includeMaintenance: true }),
+        buckets,
+        runs: [],
+        maintenanceWindows,
+        now,
+      }).attainment,
+    ).toBe(50);
+  });
+
+  it("excludes whole buckets that partially overlap maintenance", () => {
+    // Ten minutes of maintenance in the middle of a day
+    const maintenanceWindows = new Map([
+      [
+        "sys-1",
+        [
+          {
+            start: new Date("2026-03-20T10:00:00Z"),
+            end: new Date("2026-03-20T10:10:00Z"),
+          },
+        ],
+      ],
+    ]);
+    const buckets: SloAggregateBucket[] = [
+      {
+        ...bucket(0, 1440, 1430),
+        bucketStart: new Date("2026-03-20T00:00:00Z"),
+        bucketSize: "daily",
+      },
+      {
+        ...bucket(0, 1440, 1440),
+        bucketStart: new Date("2026-03-21T00:00:00Z"),
+        bucketSize: "daily",
+      },
+    ];
+
+    const status = evaluateSlo({
+      slo: slo(),
+      buckets,
+      runs: [],
+      maintenanceWindows,
+      now,
+    });
+    expect(status.totalEvents).toBe(1440);
+    expect(status.badEvents).toBe(0);
+  });
+
+  it("keeps buckets that end when maintenance starts", () => {
+    const maintenanceWindows = new Map([
+      ["sys-1", [{ start: now, end: new Date(now.getTime() + HOUR_MS) }]],
+    ]);
+
+    expect(
+      evaluateSlo({
+        slo: slo(),
+        buckets: [bucket(1, 100, 90)],
+        runs: [],
+        maintenanceWindows,
+        now,
+      }).totalEvents,
+    ).toBe(100);
+  });
+
+  it("reports no attainment without data", () => {
+    const status = evaluateSlo({
+      slo: slo(),
+      buckets: [],
+      runs: [],
+      maintenanceWindows: new Map(),
+      now,
+    });
+
+    expect(status.attainment).toBeUndefined();
+    expect(status.errorBudgetRemaining).toBeUndefined();
+  });
+});
+
+describe("computeBurnRates", () => {
+  it("pages when both windows burn faster than the threshold", () => {
+    // 20% errors in the last hour burn a 99% budget 20 times too fast
+    const burnRates = computeBurnRates({ slo: slo(), runs: runs(60, 12), now });
+
+    const fast = burnRates[0];
+    expect(fast.threshold).toBeCloseTo(14.4);
+    expect(fast.longBurnRate).toBeCloseTo(20);
+    expect(fast.shortBurnRate).toBeCloseTo(100);
+    expect(fast.firing).toBe(true);
+    expect(getAlertSeverity(burnRates)).toBe("page");
+  });
+
+  it("downgrades to a ticket once the short windows recovered", () => {
+    // Failing 30 to 60 minutes ago, healthy since
+    const recovered = runs(60, 60).map((run, i) =>
+      i < 30 ? { ...run, status: "healthy" as const } : run,
+    );
+    const burnRates = computeBurnRates({ slo: slo(), runs: recovered, now });
+
+    expect(burnRates.map((r) => r.firing)).toEqual([false, false, true]);
+    expect(getAlertSeverity(burnRates)).toBe("ticket");
+  });
+
+  it("skips rules with windows longer than the SLO window", () => {
+    const burnRates = computeBurnRates({
+      slo: slo({ windowDays: 1 }),
+      runs: [],
+      now,
+    });
+
+    expect(burnRates.map((r) => r.longWindowMinutes)).toEqual([60, 360]);
+  });
+});
+
+describe("getMaintenanceMinutes", () => {
+  it("counts overlapping windows once and clips them to the period", () => {
+    const minutes = getMaintenanceMinutes(
+      [
+        {
+          start: new Date("2026-02-28T23:00:00Z"),
+          end: new Date("2026-03-01T01:00:00Z"),
+        },
+        {
+          start: new Date("2026-03-01T00:30:00Z"),
+          end: new Date("2026-03-01T02:00:00Z"),
+        },
+      ],
+      {
+        start: new Date("2026-03-01T00:00:00Z"),
+        end: new Date("2026-04-01T00:00:00Z"),
+      },
+    );
+
+    expect(minutes).toBe(120);
+  });
+});
+
+describe("buildSlaReportEntry", () => {
+  it("breaks the month down by day", () => {
+    const period = {
+      start: new Date("2026-02-01T00:00:00Z"),
+      end: new Date("2026-03-01T00:00:00Z"),
+    };
+    const entry = buildSlaReportEntry({
+      slo: slo(),
+      buckets: [
+        { ...bucket(0, 100, 100), bucketStart: new Date("2026-02-01T05:00Z") },
+        { ...bucket(0, 100, 90), bucketStart: new Date("2026-02-02T05:00Z") },
+        // Outside of the period
+        { ...bucket(0, 100, 0), bucketStart: new Date("2026-03-01T05:00Z") },
+      ],
+      maintenanceWindows: new Map(),
+      period,
+    });
+
+    expect(entry.daily).toHaveLength(28);
+    expect(entry.daily[0].attainment).toBe(100);
+    expect(entry.daily[1].attainment).toBe(90);
+    expect(entry.daily[2].attainment).toBeUndefined();
+    expect(entry.attainment).toBe(95);
+    expect(entry.met).toBe(false);
+  });
+});
@@ -0,0 +1,423 @@
+import type {
+  Slo,
+  SloAlertSeverity,
+  SloBurnRate,
+  SloStatus,
+  SlaReportEntry,
+} from "@checkstack/healthcheck-common";
+import { deserializeTDigest } from "./realtime-aggregation";
+import type { BucketSize, HealthCheckStatus } from "./schema";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Fields of an SLO that determine how events are counted */
+export type SloDefinition = Pick<
+  Slo,
+  "type" | "target" | "windowDays" | "latencyThresholdMs" | "includeMaintenance"
+>;
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+/** Planned maintenance per system ID */
+export type MaintenanceWindows = Map<string, TimeRange[]>;
+
+export interface SloAggregateBucket {
+  systemId: string;
+  bucketStart: Date;
+  bucketSize: BucketSize;
+  runCount: number;
+  healthyCount: number;
+  minLatencyMs: number | null;
+  maxLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  tdigestState: number[] | null;
+}
+
+export interface SloRun {
+  systemId: string;
+  timestamp: Date;
+  status: HealthCheckStatus;
+  latencyMs: number | null;
+}
+
+export interface SloEventCounts {
+  totalEvents: number;
+  badEvents: number;
+}
+
+/**
+ * Multi-window burn-rate rules. An alert fires when both windows consume the
+ * given share of the error budget faster than the SLO window allows.
+ * For a 30 day window these are the well-known burn rates 14.4, 6 and 1.
+ */
+export const BURN_RATE_RULES: {
+  severity: SloAlertSeverity;
+  longWindowMinutes: number;
+  shortWindowMinutes: number;
+  budgetShare: number;
+}[] = [
+  {
+    severity: "page",
+    longWindowMinutes: 60,
+    shortWindowMinutes: 5,
+    budgetShare: 0.02,
+  },
+  {
+    severity: "page",
+    longWindowMinutes: 6 * 60,
+    shortWindowMinutes: 30,
+    budgetShare: 0.05,
+  },
+  {
+    severity: "ticket",
+    longWindowMinutes: 3 * 24 * 60,
+    shortWindowMinutes: 6 * 60,
+    budgetShare: 0.1,
+  },
+];
+
+/** How far back raw runs are needed to evaluate all burn-rate rules */
+export const BURN_RATE_LOOKBACK_MS =
+  Math.max(...BURN_RATE_RULES.map((r) => r.longWindowMinutes)) * MINUTE_MS;
+
+function getBucketEnd(bucket: SloAggregateBucket): Date {
+  return new Date(
+    bucket.bucketStart.getTime() +
+      (bucket.bucketSize === "hourly" ? HOUR_MS : DAY_MS),
+  );
+}
+
+/**
+ * Whether a time range of a system is excluded from an SLO because it
+ * overlaps planned maintenance. Ranges are half-open, a maintenance starting
+ * at the end of a bucket does not exclude it. A range with `start === end`
+ * is a single run.
+ *
+ * Aggregates do not know when their runs happened, so a bucket is excluded
+ * as a whole, even if maintenance only covers a part of it. For daily
+ * buckets this also drops the runs of the day outside the maintenance.
+ */
+export function isExcludedByMaintenance(
+  slo: SloDefinition,
+  { systemId, start, end }: TimeRange & { systemId: string },
+  maintenanceWindows: MaintenanceWindows,
+): boolean {
+  if (slo.includeMaintenance) return false;
+  return (maintenanceWindows.get(systemId) ?? []).some(
+    (window) =>
+      window.end > start && (window.start < end || window.start <= start),
+  );
+}
+
+/**
+ * Estimate how many runs of a bucket were slower than the threshold.
+ * Hourly buckets carry a t-digest of their latencies. Daily buckets only have
+ * min, max and p95, so at least 5% of their runs count as slow if the p95
+ * exceeds the threshold.
+ */
+function estimateSlowRuns(
+  bucket: SloAggregateBucket,
+  thresholdMs: number,
+): number {
+  if (bucket.tdigestState && bucket.tdigestState.length > 0) {
+    const digest = deserializeTDigest(bucket.tdigestState);
+    return bucket.runCount * (1 - digest.p_rank(thresholdMs));
+  }
+  if (bucket.maxLatencyMs !== null && bucket.maxLatencyMs <= thresholdMs) {
+    return 0;
+  }
+  if (bucket.minLatencyMs !== null && bucket.minLatencyMs > thresholdMs) {
+    return bucket.runCount;
+  }
+  if (bucket.p95LatencyMs !== null && bucket.p95LatencyMs > thresholdMs) {
+    return bucket.runCount * 0.05;
+  }
+  return 0;
+}
+
+/**
+ * Count good and bad events of an aggregate bucket.
+ * Degraded runs count against availability, like in the availability stats.
+ */
+export function countBucketEvents(
+  slo: SloDefinition,
+  bucket: SloAggregateBucket,
+): SloEventCounts {
+  if (slo.type === "latency") {
+    return {
+      totalEvents: bucket.runCount,
+      badEvents: estimateSlowRuns(bucket, slo.latencyThresholdMs ?? 0),
+    };
+  }
+  return {
+    totalEvents: bucket.runCount,
+    badEvents: bucket.runCount - bucket.healthyCount,
+  };
+}
+
+/**
+ * Count good and bad events of raw runs. Runs without a latency are ignored
+ * by latency SLOs.
+ */
+export function countRunEvents(
+  slo: SloDefinition,
+  runs: SloRun[],
+): SloEventCounts {
+  if (slo.type === "latency") {
+    const measured = runs.filter((run) => run.latencyMs !== null);
+    return {
+      totalEvents: measured.length,
+      badEvents: measured.filter(
+        (run) => (run.latencyMs ?? 0) > (slo.latencyThresholdMs ?? 0),
+      ).length,
+    };
+  }
+  return {
+    totalEvents: runs.length,
+    badEvents: runs.filter((run) => run.status !== "healthy").length,
+  };
+}
+
+function sumEvents(counts: SloEventCounts[]): SloEventCounts {
+  const sum = { totalEvents: 0, badEvents: 0 };
+  for (const c of counts) {
+    sum.totalEvents += c.totalEvents;
+    sum.badEvents += c.badEvents;
+  }
+  return sum;
+}
+
+function getAttainment({
+  totalEvents,
+  badEvents,
+}: SloEventCounts): number | undefined {
+  return totalEvents > 0
+    ? ((totalEvents - badEvents) / totalEvents) * 100
+    : undefined;
+}
+
+/**
+ * Burn rate of a window: how many times faster than allowed the error budget
+ * is consumed. 1 means the budget lasts exactly for the SLO window.
+ */
+function getBurnRate(
+  slo: SloDefinition,
+  counts: SloEventCounts,
+): number | undefined {
+  if (counts.totalEvents === 0) return undefined;
+  const errorRate = counts.badEvents / counts.totalEvents;
+  return errorRate / (1 - slo.target / 100);
+}
+
+/**
+ * Evaluate the burn-rate rules that fit into the SLO window against raw runs.
+ */
+export function computeBurnRates({
+  slo,
+  runs,
+  now,
+}: {
+  slo: SloDefinition;
+  runs: SloRun[];
+  now: Date;
+}): SloBurnRate[] {
+  const windowMinutes = slo.windowDays * 24 * 60;
+  const eventsSince = (minutes: number) =>
+    countRunEvents(
+      slo,
+      runs.filter(
+        (run) => run.timestamp.getTime() > now.getTime() - minutes * MINUTE_MS,
+      ),
+    );
+
+  return BURN_RATE_RULES.filter(
+    (rule) => rule.longWindowMinutes < windowMinutes,
+  ).map((rule) => {
+    const threshold =
+      (rule.budgetShare * windowMinutes) / rule.longWindowMinutes;
+    const longBurnRate = getBurnRate(slo, eventsSince(rule.longWindowMinutes));
+    const shortBurnRate = getBurnRate(
+      slo,
+      eventsSince(rule.shortWindowMinutes),
+    );
+    return {
+      severity: rule.severity,
+      longWindowMinutes: rule.longWindowMinutes,
+      shortWindowMinutes: rule.shortWindowMinutes,
+      threshold,
+      longBurnRate,
+      shortBurnRate,
+      firing:
+        longBurnRate !== undefined &&
+        shortBurnRate !== undefined &&
+        longBurnRate >= threshold &&
+        shortBurnRate >= threshold,
+    };
+  });
+}
+
+/**
+ * Highest severity of the firing burn-rate rules.
+ */
+export function getAlertSeverity(
+  burnRates: SloBurnRate[],
+): SloAlertSeverity | undefined {
+  const firing = burnRates.filter((rate) => rate.firing);
+  if (firing.some((rate) => rate.severity === "page")) return "page";
+  if (firing.length > 0) return "ticket";
+  return undefined;
+}
+
+/**
+ * Compute the attainment and error budget of an SLO over its rolling window
+ * from aggregate buckets, and its burn rates from raw runs.
+ * Runs during planned maintenance are excluded, buckets overlapping it
+ * entirely (see `isExcludedByMaintenance`).
+ */
+export function evaluateSlo({
+  slo,
+  buckets,
+  runs,
+  maintenanceWindows,
+  now,
+}: {
+  slo: SloDefinition & { id: string };
+  buckets: SloAggregateBucket[];
+  runs: SloRun[];
+  maintenanceWindows: MaintenanceWindows;
+  now: Date;
+}): SloStatus {
+  const windowStart = now.getTime() - slo.windowDays * DAY_MS;
+
+  const counts = sumEvents(
+    buckets
+      .filter(
+        (bucket) =>
+          bucket.bucketStart.getTime() >= windowStart &&
+          !isExcludedByMaintenance(
+            slo,
+            {
+              systemId: bucket.systemId,
+              start: bucket.bucketStart,
+              end: getBucketEnd(bucket),
+            },
+            maintenanceWindows,
+          ),
+      )
+      .map((bucket) => countBucketEvents(slo, bucket)),
+  );
+
+  const countedRuns = runs.filter(
+    (run) =>
+      !isExcludedByMaintenance(
+        slo,
+        { systemId: run.systemId, start: run.timestamp, end: run.timestamp },
+        maintenanceWindows,
+      ),
+  );
+
+  const errorBudget = counts.totalEvents * (1 - slo.target / 100);
+
+  return {
+    sloId: slo.id,
+    attainment: getAttainment(counts),
+    totalEvents: counts.totalEvents,
+    badEvents: counts.badEvents,
+    errorBudget,
+    errorBudgetRemaining:
+      errorBudget > 0 ? 1 - counts.badEvents / errorBudget : undefined,
+    burnRates: computeBurnRates({ slo, runs: countedRuns, now }),
+    evaluatedAt: now,
+  };
+}
+
+/**
+ * Minutes covered by maintenance windows within a period.
+ * Overlapping windows are only counted once.
+ */
+export function getMaintenanceMinutes(
+  windows: TimeRange[],
+  period: TimeRange,
+): number {
+  const clipped = windows
+    .map((w) => ({
+      start: Math.max(w.start.getTime(), period.start.getTime()),
+      end: Math.min(w.end.getTime(), period.end.getTime()),
+    }))
+    .filter((w) => w.end > w.start)
+    .toSorted((a, b) => a.start - b.start);
+
+  let total = 0;
+  let coveredUntil = Number.NEGATIVE_INFINITY;
+  for (const w of clipped) {
+    const start = Math.max(w.start, coveredUntil);
+    if (w.end > start) total += w.end - start;
+    coveredUntil = Math.max(coveredUntil, w.end);
+  }
+  return total / MINUTE_MS;
+}
+
+/**
+ * Attainment of an SLO within a reporting period, with a per-day breakdown.
+ */
+export function buildSlaReportEntry({
+  slo,
+  buckets,
+  maintenanceWindows,
+  period,
+}: {
+  slo: Slo;
+  buckets: SloAggregateBucket[];
+  maintenanceWindows: MaintenanceWindows;
+  period: TimeRange;
+}): SlaReportEntry {
+  const dayCount = Math.round(
+    (period.end.getTime() - period.start.getTime()) / DAY_MS,
+  );
+  const days = Array.from({ length: dayCount }, (): SloEventCounts[] => []);
+
+  for (const bucket of buckets) {
+    const index = Math.floor(
+      (bucket.bucketStart.getTime() - period.start.getTime()) / DAY_MS,
+    );
+    if (index < 0 || index >= dayCount) continue;
+
+    const excluded = isExcludedByMaintenance(
+      slo,
+      {
+        systemId: bucket.systemId,
+        start: bucket.bucketStart,
+        end: getBucketEnd(bucket),
+      },
+      maintenanceWindows,
+    );
+    if (!excluded) days[index].push(countBucketEvents(slo, bucket));
+  }
+
+  const daily = days.map((dayCounts) => sumEvents(dayCounts));
+  const counts = sumEvents(daily);
+  const attainment = getAttainment(counts);
+
+  return {
+    sloId: slo.id,
+    name: slo.name,
+    type: slo.type,
+    target: slo.target,
+    latencyThresholdMs: slo.latencyThresholdMs,
+    includeMaintenance: slo.includeMaintenance,
+    attainment,
+    met: attainment === undefined ? undefined : attainment >= slo.target,
+    totalEvents: counts.totalEvents,
+    badEvents: counts.badEvents,
+    daily: daily.map((dayCounts, i) => ({
+      date: new Date(period.start.getTime() + i * DAY_MS),
+      attainment: getAttainment(dayCounts),
+      totalEvents: dayCounts.totalEvents,
+    })),
+  };
+}
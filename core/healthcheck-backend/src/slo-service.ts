@@ -0,0 +1,267 @@
+import { and, eq, gte, inArray, lt, or } from "drizzle-orm";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import type { InferClient } from "@checkstack/common";
+import type { CatalogApi } from "@checkstack/catalog-common";
+import type { MaintenanceApi } from "@checkstack/maintenance-common";
+import type {
+  CreateSlo,
+  Slo,
+  SloAlertSeverity,
+  SloWithStatus,
+  SlaReport,
+  UpdateSlo,
+} from "@checkstack/healthcheck-common";
+import * as schema from "./schema";
+import { healthCheckAggregates, healthCheckRuns, slos } from "./schema";
+import {
+  BURN_RATE_LOOKBACK_MS,
+  buildSlaReportEntry,
+  evaluateSlo,
+  getMaintenanceMinutes,
+  type MaintenanceWindows,
+  type SloAggregateBucket,
+  type SloRun,
+  type TimeRange,
+} from "./slo-evaluator";
+
+type Db = SafeDatabase<typeof schema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toSlo(row: typeof slos.$inferSelect): Slo {
+  return {
+    ...row,
+    description: row.description ?? undefined,
+    latencyThresholdMs: row.latencyThresholdMs ?? undefined,
+    alertSeverity: row.alertSeverity ?? undefined,
+  };
+}
+
+/**
+ * Service level objectives computed from health check aggregates and runs.
+ */
+export class SloService {
+  constructor(
+    private db: Db,
+    private catalogClient: InferClient<typeof CatalogApi>,
+    private maintenanceClient: InferClient<typeof MaintenanceApi>,
+  ) {}
+
+  async listSlos(): Promise<Slo[]> {
+    const rows = await this.db.select().from(slos).orderBy(slos.name);
+    return rows.map((row) => toSlo(row));
+  }
+
+  async getSlo(id: string): Promise<Slo | undefined> {
+    const [row] = await this.db.select().from(slos).where(eq(slos.id, id));
+    return row ? toSlo(row) : undefined;
+  }
+
+  /**
+   * SLOs covering a system, directly or through one of its groups.
+   */
+  async getSlosForSystem(systemId: string): Promise<Slo[]> {
+    const groups = await this.catalogClient.getGroups();
+    const groupIds = groups
+      .filter((group) => group.systemIds.includes(systemId))
+      .map((group) => group.id);
+
+    const rows = await this.db
+      .select()
+      .from(slos)
+      .where(
+        or(
+          and(eq(slos.scopeType, "system"), eq(slos.scopeId, systemId)),
+          groupIds.length > 0
+            ? and(eq(slos.scopeType, "group"), inArray(slos.scopeId, groupIds))
+            : undefined,
+        ),
+      )
+      .orderBy(slos.name);
+    return rows.map((row) => toSlo(row));
+  }
+
+  async createSlo(input: CreateSlo): Promise<Slo> {
+    const [row] = await this.db.insert(slos).values(input).returning();
+    return toSlo(row);
+  }
+
+  async updateSlo({ id, ...updates }: UpdateSlo): Promise<Slo | undefined> {
+    const [row] = await this.db
+      .update(slos)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(slos.id, id))
+      .returning();
+    return row ? toSlo(row) : undefined;
+  }
+
+  async deleteSlo(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(slos)
+      .where(eq(slos.id, id))
+      .returning({ id: slos.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Delete the SLOs of a deleted system or group.
+   */
+  async deleteSlosForScope(
+    scopeType: Slo["scopeType"],
+    scopeId: string,
+  ): Promise<void> {
+    await this.db
+      .delete(slos)
+      .where(and(eq(slos.scopeType, scopeType), eq(slos.scopeId, scopeId)));
+  }
+
+  async setAlertSeverity(
+    id: string,
+    severity: SloAlertSeverity | undefined,
+  ): Promise<void> {
+    await this.db
+      .update(slos)
+      // eslint-disable-next-line unicorn/no-null -- clears the column
+      .set({ alertSeverity: severity ?? null })
+      .where(eq(slos.id, id));
+  }
+
+  /**
+   * Current attainment, error budget and burn rates of an SLO.
+   */
+  async getSloWithStatus(slo: Slo, now = new Date()): Promise<SloWithStatus> {
+    const systemIds = await this.resolveSystemIds(slo);
+    const windowStart = new Date(now.getTime() - slo.windowDays * DAY_MS);
+    const runsStart = new Date(now.getTime() - BURN_RATE_LOOKBACK_MS);
+
+    const [buckets, runs, maintenanceWindows] = await Promise.all([
+      this.getBuckets(systemIds, { start: windowStart, end: now }),
+      this.getRuns(systemIds, { start: runsStart, end: now }),
+      slo.includeMaintenance
+        ? new Map()
+        : this.getMaintenanceWindows(systemIds, {
+            start: new Date(
+              Math.min(windowStart.getTime(), runsStart.getTime()),
+            ),
+            end: now,
+          }),
+    ]);
+
+    return {
+      slo,
+      status: evaluateSlo({ slo, buckets, runs, maintenanceWindows, now }),
+    };
+  }
+
+  /**
+   * Attainment of all SLOs covering a system within a calendar month (UTC).
+   * Group SLOs are evaluated against this system's checks only.
+   */
+  async getSlaReport(systemId: string, month: string): Promise<SlaReport> {
+    const [year, monthIndex] = month.split("-").map(Number);
+    const period = {
+      start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+      end: new Date(Date.UTC(year, monthIndex, 1)),
+    };
+
+    const [systemSlos, buckets, maintenanceWindows] = await Promise.all([
+      this.getSlosForSystem(systemId),
+      this.getBuckets([systemId], period),
+      this.getMaintenanceWindows([systemId], period),
+    ]);
+
+    return {
+      systemId,
+      month,
+      periodStart: period.start,
+      periodEnd: period.end,
+      maintenanceMinutes: getMaintenanceMinutes(
+        maintenanceWindows.get(systemId) ?? [],
+        period,
+      ),
+      entries: systemSlos.map((slo) =>
+        buildSlaReportEntry({ slo, buckets, maintenanceWindows, period }),
+      ),
+    };
+  }
+
+  private async resolveSystemIds(slo: Slo): Promise<string[]> {
+    if (slo.scopeType === "system") return [slo.scopeId];
+
+    const groups = await this.catalogClient.getGroups();
+    return groups.find((group) => group.id === slo.scopeId)?.systemIds ?? [];
+  }
+
+  private async getBuckets(
+    systemIds: string[],
+    range: TimeRange,
+  ): Promise<SloAggregateBucket[]> {
+    if (systemIds.length === 0) return [];
+
+    return this.db
+      .select({
+        systemId: healthCheckAggregates.systemId,
+        bucketStart: healthCheckAggregates.bucketStart,
+        bucketSize: healthCheckAggregates.bucketSize,
+        runCount: healthCheckAggregates.runCount,
+        healthyCount: healthCheckAggregates.healthyCount,
+        minLatencyMs: healthCheckAggregates.minLatencyMs,
+        maxLatencyMs: healthCheckAggregates.maxLatencyMs,
+        p95LatencyMs: healthCheckAggregates.p95LatencyMs,
+        tdigestState: healthCheckAggregates.tdigestState,
+      })
+      .from(healthCheckAggregates)
+      .where(
+        and(
+          inArray(healthCheckAggregates.systemId, systemIds),
+          gte(healthCheckAggregates.bucketStart, range.start),
+          lt(healthCheckAggregates.bucketStart, range.end),
+        ),
+      );
+  }
+
+  private async getRuns(
+    systemIds: string[],
+    range: TimeRange,
+  ): Promise<SloRun[]> {
+    if (systemIds.length === 0) return [];
+
+    return this.db
+      .select({
+        systemId: healthCheckRuns.systemId,
+        timestamp: healthCheckRuns.timestamp,
+        status: healthCheckRuns.status,
+        latencyMs: healthCheckRuns.latencyMs,
+      })
+      .from(healthCheckRuns)
+      .where(
+        and(
+          inArray(healthCheckRuns.systemId, systemIds),
+          gte(healthCheckRuns.timestamp, range.start),
+          lt(healthCheckRuns.timestamp, range.end),
+        ),
+      );
+  }
+
+  private async getMaintenanceWindows(
+    systemIds: string[],
+    range: TimeRange,
+  ): Promise<MaintenanceWindows> {
+    const windows: MaintenanceWindows = new Map();
+    if (systemIds.length === 0) return windows;
+
+    const maintenances = await this.maintenanceClient.getMaintenanceWindows({
+      systemIds,
+      startDate: range.start,
+      endDate: range.end,
+    });
+    for (const maintenance of maintenances) {
+      for (const systemId of maintenance.systemIds) {
+        const existing = windows.get(systemId) ?? [];
+        existing.push({ start: maintenance.startAt, end: maintenance.endAt });
+        windows.set(systemId, existing);
+      }
+    }
+    return windows;
+  }
+}
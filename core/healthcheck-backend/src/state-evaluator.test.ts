@@ -1,5 +1,9 @@
 import { describe, expect, test } from "bun:test";
-import { evaluateHealthStatus } from "./state-evaluator";
+import {
+  evaluateHealthStatus,
+  evaluateRegionStatuses,
+  selectCurrentRuns,
+} from "./state-evaluator";
 import type {
   HealthCheckStatus,
   ConsecutiveThresholds,
@@ -234,4 +238,188 @@ describe("evaluateHealthStatus", () => {
       );
     });
   });
+
+  describe("region quorum", () => {
+    const thresholds: ConsecutiveThresholds = {
+      mode: "consecutive",
+      healthy: { minSuccessCount: 1 },
+      degraded: { minFailureCount: 1 },
+      unhealthy: { minFailureCount: 2 },
+      quorum: { minFailingRegions: 2 },
+    };
+
+    // Interleaved runs of three regions, newest first
+    function createRegionRuns(
+      regionStatuses: Record<string, HealthCheckStatus>
+    ) {
+      const now = Date.now();
+      return [0, 1].flatMap((round) =>
+        Object.entries(regionStatuses).map(([region, status], i) => ({
+          status,
+          region,
+          timestamp: new Date(now - round * 60000 - i * 1000),
+        }))
+      );
+    }
+
+    test("stays healthy when fewer regions than the quorum fail", () => {
+      const runs = createRegionRuns({
+        local: "unhealthy",
+        "eu-west": "healthy",
+        "us-east": "healthy",
+      });
+      expect(evaluateHealthStatus({ runs, thresholds })).toBe("healthy");
+    });
+
+    test("returns unhealthy when the quorum of regions fails", () => {
+      const runs = createRegionRuns({
+        local: "unhealthy",
+        "eu-west": "unhealthy",
+        "us-east": "healthy",
+      });
+      expect(evaluateHealthStatus({ runs, thresholds })).toBe("unhealthy");
+    });
+
+    test("returns degraded when the quorum is reached by degraded regions", () => {
+      const runs = createRegionRuns({
+        local: "unhealthy",
+        "eu-west": "degraded",
+        "us-east": "healthy",
+      });
+      // With a single round of runs, failing regions only reach degraded
+      expect(evaluateHealthStatus({ runs: runs.slice(0, 3), thresholds })).toBe(
+        "degraded"
+      );
+    });
+
+    test("ignores the quorum for single-region checks", () => {
+      const runs = createRuns(["unhealthy", "unhealthy"]);
+      expect(evaluateHealthStatus({ runs, thresholds })).toBe("unhealthy");
+    });
+
+    test("evaluates each region separately", () => {
+      const runs = createRegionRuns({
+        local: "unhealthy",
+        "eu-west": "healthy",
+      });
+      expect(evaluateRegionStatuses({ runs, thresholds })).toEqual({
+        local: "unhealthy",
+        "eu-west": "healthy",
+      });
+    });
+
+    test("treats runs without region as local", () => {
+      const runs = createRuns(["healthy"]);
+      expect(evaluateRegionStatuses({ runs, thresholds })).toEqual({
+        local: "healthy",
+      });
+    });
+  });
+});
+
+describe("selectCurrentRuns", () => {
+  const thresholds: ConsecutiveThresholds = {
+    mode: "consecutive",
+    healthy: { minSuccessCount: 1 },
+    degraded: { minFailureCount: 1 },
+    unhealthy: { minFailureCount: 1 },
+    quorum: { minFailingRegions: 2 },
+  };
+
+  // One run per minute and region, newest first
+  function createRuns(
+    regionStatuses: Record<string, HealthCheckStatus[]>,
+    offsetMinutes: Record<string, number> = {}
+  ) {
+    const now = Date.now();
+    return Object.entries(regionStatuses)
+      .flatMap(([region, statuses]) =>
+        statuses.map((status, i) => ({
+          status,
+          region,
+          timestamp: new Date(
+            now - ((offsetMinutes[region] ?? 0) + i) * 60000
+          ),
+        }))
+      )
+      .toSorted((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  test("drops runs of regions removed from the configuration", () => {
+    const runs = createRuns({
+      local: ["degraded"],
+      "eu-west": ["unhealthy"],
+      "us-east": ["healthy"],
+    });
+    const current = selectCurrentRuns({
+      runs,
+      regions: ["local", "us-east"],
+      intervalSeconds: 60,
+    });
+    expect(current.map((run) => run.region).toSorted()).toEqual([
+      "local",
+      "us-east",
+    ]);
+    expect(evaluateHealthStatus({ runs: current, thresholds })).toBe(
+      "healthy"
+    );
+  });
+
+  test("drops regions that stopped reporting", () => {
+    // The eu-west agent went offline ten intervals ago while unhealthy
+    const runs = createRuns(
+      {
+        local: ["unhealthy", "healthy"],
+        "eu-west": ["unhealthy"],
+        "us-east": ["healthy", "healthy"],
+      },
+      { "eu-west": 10 }
+    );
+    expect(evaluateHealthStatus({ runs, thresholds })).toBe("unhealthy");
+
+    const current = selectCurrentRuns({
+      runs,
+      regions: ["local", "eu-west", "us-east"],
+      intervalSeconds: 60,
+    });
+    expect(current.some((run) => run.region === "eu-west")).toBe(false);
+    expect(evaluateHealthStatus({ runs: current, thresholds })).toBe(
+      "healthy"
+    );
+  });
+
+  test("keeps regions reporting within the freshness bound", () => {
+    const runs = createRuns(
+      { local: ["healthy"], "eu-west": ["unhealthy"] },
+      { "eu-west": 2 }
+    );
+    expect(
+      selectCurrentRuns({
+        runs,
+        regions: ["local", "eu-west"],
+        intervalSeconds: 60,
+      })
+    ).toHaveLength(2);
+  });
+
+  test("keeps the last runs when all regions stopped reporting", () => {
+    const runs = createRuns(
+      { local: ["unhealthy"], "eu-west": ["unhealthy"] },
+      { local: 60, "eu-west": 60 }
+    );
+    expect(
+      selectCurrentRuns({
+        runs,
+        regions: ["local", "eu-west"],
+        intervalSeconds: 60,
+      })
+    ).toHaveLength(2);
+  });
+
+  test("treats runs without region as local", () => {
+    const runs = [{ status: "healthy" as const, timestamp: new Date() }];
+    expect(
+      selectCurrentRuns({ runs, regions: [], intervalSeconds: 60 })
+    ).toEqual(runs);
+  });
 });
@@ -4,11 +4,57 @@ import type {
   WindowThresholds,
   HealthCheckStatus,
 } from "@checkstack/healthcheck-common";
-import { DEFAULT_STATE_THRESHOLDS } from "@checkstack/healthcheck-common";
+import {
+  DEFAULT_STATE_THRESHOLDS,
+  LOCAL_REGION,
+  resolveRegions,
+} from "@checkstack/healthcheck-common";
 
 interface RunForEvaluation {
   status: HealthCheckStatus;
   timestamp: Date;
+  /** Region the run was executed from, runs without region count as "local" */
+  region?: string;
+}
+
+/**
+ * A region whose newest run is this many intervals behind the newest run of
+ * the check no longer counts, e.g. because its agent went offline.
+ */
+export const STALE_REGION_INTERVALS = 3;
+
+/**
+ * Keeps only runs of regions the check currently reports from.
+ * Drops runs of regions removed from the configuration and of regions that
+ * stopped reporting while others keep running.
+ *
+ * @param runs - Recent health check runs, sorted by timestamp descending (newest first)
+ * @param regions - The configuration's regions, empty means the backend only
+ * @param intervalSeconds - The configuration's check interval
+ */
+export function selectCurrentRuns<T extends RunForEvaluation>(props: {
+  runs: T[];
+  regions: string[];
+  intervalSeconds: number;
+}): T[] {
+  const configured = new Set(resolveRegions(props.regions));
+  const runs = props.runs.filter((run) =>
+    configured.has(run.region ?? LOCAL_REGION),
+  );
+
+  const newestByRegion = new Map<string, number>();
+  for (const run of runs) {
+    const region = run.region ?? LOCAL_REGION;
+    const time = run.timestamp.getTime();
+    newestByRegion.set(region, Math.max(newestByRegion.get(region) ?? 0, time));
+  }
+
+  // Relative to the newest run, so paused or off-schedule checks keep their state
+  const newest = Math.max(...newestByRegion.values());
+  const cutoff = newest - STALE_REGION_INTERVALS * props.intervalSeconds * 1000;
+  return runs.filter(
+    (run) => (newestByRegion.get(run.region ?? LOCAL_REGION) ?? 0) >= cutoff,
+  );
 }
 
 /**
@@ -29,6 +75,55 @@ export function evaluateHealthStatus(props: {
     return "healthy";
   }
 
+  if (thresholds.quorum) {
+    const regionStatuses = evaluateRegionStatuses({ runs, thresholds });
+    const statuses = Object.values(regionStatuses);
+    // Quorum only applies once a check actually runs in several regions
+    if (statuses.length > 1) {
+      const { minFailingRegions } = thresholds.quorum;
+      const unhealthy = statuses.filter((s) => s === "unhealthy").length;
+      const failing = statuses.filter((s) => s !== "healthy").length;
+      if (unhealthy >= minFailingRegions) return "unhealthy";
+      if (failing >= minFailingRegions) return "degraded";
+      return "healthy";
+    }
+  }
+
+  return evaluateRuns({ runs, thresholds });
+}
+
+/**
+ * Evaluates each region's runs separately with the same thresholds.
+ * Used for quorum evaluation and to show per-region status.
+ *
+ * @param runs - Recent health check runs, sorted by timestamp descending (newest first)
+ */
+export function evaluateRegionStatuses(props: {
+  runs: RunForEvaluation[];
+  thresholds?: StateThresholds;
+}): Record<string, HealthCheckStatus> {
+  const { runs, thresholds = DEFAULT_STATE_THRESHOLDS } = props;
+
+  const runsByRegion = new Map<string, RunForEvaluation[]>();
+  for (const run of runs) {
+    const region = run.region ?? LOCAL_REGION;
+    const regionRuns = runsByRegion.get(region) ?? [];
+    regionRuns.push(run);
+    runsByRegion.set(region, regionRuns);
+  }
+
+  const statuses: Record<string, HealthCheckStatus> = {};
+  for (const [region, regionRuns] of runsByRegion) {
+    statuses[region] = evaluateRuns({ runs: regionRuns, thresholds });
+  }
+  return statuses;
+}
+
+function evaluateRuns(props: {
+  runs: RunForEvaluation[];
+  thresholds: StateThresholds;
+}): HealthCheckStatus {
+  const { runs, thresholds } = props;
   return thresholds.mode === "consecutive"
     ? evaluateConsecutive({ runs, thresholds })
     : evaluateWindow({ runs, thresholds });
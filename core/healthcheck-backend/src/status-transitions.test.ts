@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import { computeStatusTransitions, type StatusRun } from "./status-transitions";
+
+const run = (
+  status: StatusRun["status"],
+  minute: number,
+  overrides: Partial<StatusRun> = {},
+): StatusRun => ({
+  systemId: "sys-1",
+  configurationId: "cfg-1",
+  region: "local",
+  status,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+  ...overrides,
+});
+
+describe("computeStatusTransitions", () => {
+  it("reports changes relative to the baseline", () => {
+    const transitions = computeStatusTransitions({
+      baselines: [run("healthy", 0)],
+      runs: [
+        run("healthy", 1),
+        run("unhealthy", 2),
+        run("unhealthy", 3),
+        run("healthy", 4),
+      ],
+    });
+
+    expect(
+      transitions.map((t) => [t.fromStatus, t.toStatus, t.timestamp]),
+    ).toEqual([
+      ["healthy", "unhealthy", run("unhealthy", 2).timestamp],
+      ["unhealthy", "healthy", run("healthy", 4).timestamp],
+    ]);
+  });
+
+  it("only reports an unhealthy first run without a baseline", () => {
+    const transitions = computeStatusTransitions({
+      baselines: [],
+      runs: [
+        run("healthy", 1),
+        run("degraded", 2, { configurationId: "cfg-2" }),
+      ],
+    });
+
+    expect(transitions).toHaveLength(1);
+    expect(transitions[0]).toMatchObject({
+      configurationId: "cfg-2",
+      fromStatus: undefined,
+      toStatus: "degraded",
+    });
+  });
+
+  it("tracks regions independently", () => {
+    const transitions = computeStatusTransitions({
+      baselines: [run("healthy", 0), run("healthy", 0, { region: "eu" })],
+      runs: [
+        run("unhealthy", 1, { region: "eu" }),
+        run("healthy", 2),
+        run("unhealthy", 3, { region: "eu" }),
+      ],
+    });
+
+    expect(transitions).toHaveLength(1);
+    expect(transitions[0]).toMatchObject({
+      region: "eu",
+      toStatus: "unhealthy",
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import type { HealthCheckStatus } from "@checkstack/healthcheck-common";
+
+/**
+ * A health check run reduced to the fields relevant for status transitions.
+ */
+export interface StatusRun {
+  systemId: string;
+  configurationId: string;
+  region: string;
+  status: HealthCheckStatus;
+  timestamp: Date;
+}
+
+export interface StatusTransition {
+  systemId: string;
+  configurationId: string;
+  region: string;
+  fromStatus?: HealthCheckStatus;
+  toStatus: HealthCheckStatus;
+  timestamp: Date;
+}
+
+const runKey = (run: Omit<StatusRun, "status" | "timestamp">) =>
+  `${run.systemId}:${run.configurationId}:${run.region}`;
+
+/**
+ * Compute status transitions from chronologically sorted runs.
+ *
+ * Runs are tracked per system, check and region, since regions report
+ * independently. `baselines` are the last runs before the window and define
+ * the initial status; without one, the first run of a check only counts as a
+ * transition if it is not healthy.
+ */
+export function computeStatusTransitions(props: {
+  runs: StatusRun[];
+  baselines: StatusRun[];
+}): StatusTransition[] {
+  const { runs, baselines } = props;
+  const lastStatus = new Map<string, HealthCheckStatus>(
+    baselines.map((run) => [runKey(run), run.status]),
+  );
+
+  const transitions: StatusTransition[] = [];
+  for (const run of runs) {
+    const key = runKey(run);
+    const previous = lastStatus.get(key);
+    lastStatus.set(key, run.status);
+
+    if (previous === run.status) continue;
+    if (previous === undefined && run.status === "healthy") continue;
+
+    transitions.push({
+      systemId: run.systemId,
+      configurationId: run.configurationId,
+      region: run.region,
+      fromStatus: previous,
+      toStatus: run.status,
+      timestamp: run.timestamp,
+    });
+  }
+
+  return transitions;
+}
@@ -35,6 +35,40 @@ export const healthCheckAccess = {
     "read",
     "View Detailed Health Check Run Data (Warning: This may expose sensitive data, depending on the health check strategy)",
   ),
+
+  /**
+   * Access for acknowledging and snoozing health alerts of a system.
+   */
+  alert: access(
+    "healthcheck.alert",
+    "manage",
+    "Acknowledge and Snooze Health Alerts",
+    {
+      idParam: "systemId",
+      isDefault: true,
+    },
+  ),
+
+  /**
+   * Access for service level objectives, error budgets and SLA reports.
+   */
+  slo: accessPair("healthcheck.slo", {
+    read: {
+      description: "View SLOs, Error Budgets and SLA Reports",
+      isDefault: true,
+    },
+    manage: { description: "Manage SLOs" },
+  }),
+
+  /**
+   * Access for remote probe agents to claim jobs and push results.
+   * Grant it to the application that an agent authenticates with.
+   */
+  agent: access(
+    "healthcheck.agent",
+    "manage",
+    "Execute Health Checks as a Remote Probe Agent (Warning: Agents receive full health check configurations)",
+  ),
 };
 
 /**
@@ -45,4 +79,8 @@ export const healthCheckAccessRules = [
   healthCheckAccess.configuration.read,
   healthCheckAccess.configuration.manage,
   healthCheckAccess.details,
+  healthCheckAccess.alert,
+  healthCheckAccess.slo.read,
+  healthCheckAccess.slo.manage,
+  healthCheckAccess.agent,
 ];
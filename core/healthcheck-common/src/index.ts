@@ -15,7 +15,7 @@ export interface HealthCheckStrategyDto {
   configSchema: Record<string, unknown>;
 }
 
-import type { CollectorConfigEntry } from "./schemas";
+import type { CollectorConfigEntry, HealthCheckSchedule } from "./schemas";
 
 /**
  * Represents a Health Check Configuration (the check definition/template).
@@ -28,6 +28,10 @@ export interface HealthCheckConfiguration {
   config: Record<string, unknown>;
   intervalSeconds: number;
   collectors?: CollectorConfigEntry[];
+  /** Regions the check runs in, empty for the backend's local region only */
+  regions: string[];
+  /** Replaces the fixed interval if set */
+  schedule?: HealthCheckSchedule;
   paused: boolean;
   createdAt: Date;
   updatedAt: Date;
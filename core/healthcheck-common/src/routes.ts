@@ -8,4 +8,7 @@ export const healthcheckRoutes = createRoutes("healthcheck", {
   history: "/history",
   historyDetail: "/history/:systemId/:configurationId",
   historyRun: "/history/:systemId/:configurationId/:runId",
+  alert: "/alerts/:systemId",
+  slos: "/slos",
+  slaReport: "/slos/report/:systemId",
 });
@@ -16,6 +16,24 @@ import {
   RetentionConfigSchema,
   AggregatedBucketBaseSchema,
   AggregatedBucketSchema,
+  ProbeAgentJobSchema,
+  ProbeAgentSchema,
+  ProbeAgentRegionsSchema,
+  RegionSchema,
+  SubmitProbeAgentResultSchema,
+  SystemAlertStateSchema,
+  HealthCheckStatusTransitionSchema,
+  SystemAvailabilitySummarySchema,
+  SloSchema,
+  CreateSloSchema,
+  UpdateSloSchema,
+  SloWithStatusSchema,
+  SlaReportSchema,
+  SlaReportMonthSchema,
+  AnomalyBaselineSchema,
+  AnomalyMetricSchema,
+  DetectedAnomalySchema,
+  LATENCY_METRIC,
 } from "./schemas";
 
 // --- Response Schemas for Evaluated Status ---
@@ -26,10 +44,26 @@ const SystemCheckStatusSchema = z.object({
   status: HealthCheckStatusSchema,
   runsConsidered: z.number(),
   lastRunAt: z.date().optional(),
+  /** Per-region status, only set when a region quorum is configured */
+  regionStatuses: z.record(z.string(), HealthCheckStatusSchema).optional(),
+  /** Watched metrics outside their baseline, only set with anomaly detection */
+  anomalies: z.array(DetectedAnomalySchema).optional(),
+});
+
+const UpstreamImpactSchema = z.object({
+  systemId: z.string(),
+  status: HealthCheckStatusSchema,
 });
 
 const SystemHealthStatusResponseSchema = z.object({
+  /** Effective status, including degradation caused by upstream outages */
   status: HealthCheckStatusSchema,
+  /** Status derived from this system's own health checks only */
+  ownStatus: HealthCheckStatusSchema,
+  /** Upstream systems (direct or transitive) that are currently unhealthy */
+  impactedByUpstreams: z.array(UpstreamImpactSchema),
+  /** True if the own checks pass and the system is only degraded by an upstream */
+  degradedByUpstream: z.boolean(),
   evaluatedAt: z.date(),
   checkStatuses: z.array(SystemCheckStatusSchema),
 });
@@ -170,6 +204,23 @@ export const healthCheckContract = {
     )
     .output(z.void()),
 
+  /**
+   * Run an enabled health check of a system now, in addition to its schedule.
+   * Runs of paused configurations are skipped.
+   */
+  triggerHealthCheck: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [healthCheckAccess.configuration.manage],
+  })
+    .input(
+      z.object({
+        systemId: z.string(),
+        configurationId: z.string(),
+      }),
+    )
+    .output(z.object({ jobId: z.string() })),
+
   // ==========================================================================
   // RETENTION CONFIGURATION (userType: "authenticated" with manage access)
   // ==========================================================================
@@ -205,6 +256,23 @@ export const healthCheckContract = {
     )
     .output(z.void()),
 
+  /**
+   * Metrics of an assignment that can be watched for anomalies: the latency
+   * and averaged collector fields found in recent aggregates.
+   */
+  getAnomalyMetrics: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [healthCheckAccess.configuration.read],
+  })
+    .input(
+      z.object({
+        systemId: z.string(),
+        configurationId: z.string(),
+      }),
+    )
+    .output(z.array(AnomalyMetricSchema)),
+
   // ==========================================================================
   // HISTORY & STATUS (userType: "public" with read access)
   // ==========================================================================
@@ -313,6 +381,24 @@ export const healthCheckContract = {
       }),
     ),
 
+  /**
+   * Learned baseline of a metric, undefined without anomaly detection or
+   * before enough history was collected.
+   */
+  getAnomalyBaseline: proc({
+    operationType: "query",
+    userType: "public",
+    access: [healthCheckAccess.status],
+  })
+    .input(
+      z.object({
+        systemId: z.string(),
+        configurationId: z.string(),
+        metric: z.string().default(LATENCY_METRIC),
+      }),
+    )
+    .output(AnomalyBaselineSchema.optional()),
+
   getSystemHealthStatus: proc({
     operationType: "query",
     userType: "public",
@@ -381,8 +467,193 @@ export const healthCheckContract = {
         availability365Days: z.number().nullable(),
         totalRuns31Days: z.number(),
         totalRuns365Days: z.number(),
+        /** Per-day availability for the last 90 days (UTC), oldest first */
+        dailyAvailability: z.array(
+          z.object({
+            date: z.date(),
+            availability: z.number().nullable(),
+            totalRuns: z.number(),
+          }),
+        ),
       }),
     ),
+
+  /**
+   * Status changes of all health checks of the given systems within a time
+   * window, based on the raw runs. Used for incident postmortem timelines.
+   */
+  getStatusTransitions: proc({
+    operationType: "query",
+    userType: "service",
+    access: [healthCheckAccess.status],
+  })
+    .input(
+      z.object({
+        systemIds: z.array(z.string()),
+        startDate: z.date(),
+        endDate: z.date(),
+      }),
+    )
+    .output(z.array(HealthCheckStatusTransitionSchema)),
+
+  /**
+   * Availability and latency percentiles of the given systems within a time
+   * window, combined over all of their health checks. Based on aggregates.
+   */
+  getAvailabilitySummary: proc({
+    operationType: "query",
+    userType: "service",
+    access: [healthCheckAccess.status],
+  })
+    .input(
+      z.object({
+        systemIds: z.array(z.string()),
+        startDate: z.date(),
+        endDate: z.date(),
+      }),
+    )
+    .output(z.array(SystemAvailabilitySummarySchema)),
+
+  // ==========================================================================
+  // ALERT ACKNOWLEDGEMENT (userType: "user" with alert access)
+  // ==========================================================================
+
+  // Authenticated only, the state names who acknowledged or snoozed the alert
+  getAlertState: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [healthCheckAccess.status],
+  })
+    .input(z.object({ systemId: z.string() }))
+    .output(SystemAlertStateSchema.nullable()),
+
+  acknowledgeAlert: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [healthCheckAccess.alert],
+  })
+    .input(z.object({ systemId: z.string() }))
+    .output(SystemAlertStateSchema),
+
+  snoozeAlert: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [healthCheckAccess.alert],
+  })
+    .input(
+      z.object({
+        systemId: z.string(),
+        /** Snooze duration in minutes (max. 7 days) */
+        minutes: z
+          .number()
+          .int()
+          .min(1)
+          .max(7 * 24 * 60),
+      }),
+    )
+    .output(SystemAlertStateSchema),
+
+  clearAlertState: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [healthCheckAccess.alert],
+  })
+    .input(z.object({ systemId: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  // ==========================================================================
+  // SERVICE LEVEL OBJECTIVES (userType: "authenticated" with slo access)
+  // ==========================================================================
+
+  /** SLOs with their current error budget, optionally covering one system */
+  getSlos: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [healthCheckAccess.slo.read],
+  })
+    .input(z.object({ systemId: z.string().optional() }).optional())
+    .output(z.array(SloWithStatusSchema)),
+
+  createSlo: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [healthCheckAccess.slo.manage],
+  })
+    .input(CreateSloSchema)
+    .output(SloSchema),
+
+  updateSlo: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [healthCheckAccess.slo.manage],
+  })
+    .input(UpdateSloSchema)
+    .output(SloSchema),
+
+  deleteSlo: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [healthCheckAccess.slo.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  /** Attainment of all SLOs covering a system within a calendar month */
+  getSlaReport: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [healthCheckAccess.slo.read],
+  })
+    .input(z.object({ systemId: z.string(), month: SlaReportMonthSchema }))
+    .output(SlaReportSchema),
+
+  // ==========================================================================
+  // PROBE AGENTS (userType: "authenticated", agents use application API keys)
+  // ==========================================================================
+
+  getProbeAgents: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [healthCheckAccess.configuration.read],
+  }).output(z.array(ProbeAgentSchema)),
+
+  /** Region assignments of all applications with at least one region */
+  getProbeAgentRegions: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [healthCheckAccess.configuration.read],
+  }).output(z.array(ProbeAgentRegionsSchema)),
+
+  /** Replace the regions an application may claim jobs for */
+  setProbeAgentRegions: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [healthCheckAccess.configuration.manage],
+  })
+    .input(ProbeAgentRegionsSchema)
+    .output(ProbeAgentRegionsSchema),
+
+  /** Claim jobs of a region the calling application is assigned to */
+  claimAgentJobs: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [healthCheckAccess.agent],
+  })
+    .input(
+      z.object({
+        region: RegionSchema,
+        limit: z.number().int().min(1).max(100).default(10),
+      }),
+    )
+    .output(z.array(ProbeAgentJobSchema)),
+
+  submitAgentResult: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [healthCheckAccess.agent],
+  })
+    .input(SubmitProbeAgentResultSchema)
+    .output(z.object({ success: z.boolean() })),
 };
 // Export contract type
 export type HealthCheckContract = typeof healthCheckContract;
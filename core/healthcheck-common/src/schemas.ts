@@ -73,6 +73,89 @@ export const CollectorConfigEntrySchema = z.object({
 
 export type CollectorConfigEntry = z.infer<typeof CollectorConfigEntrySchema>;
 
+// --- Regions ---
+
+/**
+ * Region of runs executed by the backend itself.
+ * Remote probe agents run checks in their own regions.
+ */
+export const LOCAL_REGION = "local";
+
+/**
+ * Region names are lowercase slugs, e.g. "eu-west" or "office-berlin".
+ */
+export const RegionSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/);
+
+/**
+ * Regions a configuration runs in. No regions means the backend only.
+ */
+export function resolveRegions(regions: string[] | undefined): string[] {
+  return regions && regions.length > 0 ? regions : [LOCAL_REGION];
+}
+
+// --- Schedule Schemas ---
+
+// Local time of day, "HH:mm"
+const TimeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a time as HH:mm");
+
+// IANA timezone, e.g. "Europe/Berlin"
+const TimeZoneSchema = z.string().refine(
+  (timeZone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Unknown timezone" },
+);
+
+/**
+ * Recurring window in which a check runs at its own interval.
+ * Windows may span midnight, e.g. 22:00 to 06:00. The part after midnight
+ * belongs to the day the window starts on.
+ */
+export const ActiveHoursWindowSchema = z.object({
+  /** Days of the week the window starts on, 0 is Sunday */
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  start: TimeOfDaySchema,
+  end: TimeOfDaySchema,
+  /** Seconds between runs inside the window */
+  intervalSeconds: z.number().int().min(1),
+});
+
+export type ActiveHoursWindow = z.infer<typeof ActiveHoursWindowSchema>;
+
+/**
+ * Schedule replacing the fixed interval of a configuration.
+ * - `cron`: runs at the times of a cron expression
+ * - `activeHours`: runs at the interval of the window the current local time
+ *   falls into, and at `outsideIntervalSeconds` otherwise. Without an outside
+ *   interval, runs outside all windows are skipped.
+ */
+export const HealthCheckScheduleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("cron"),
+    cronPattern: z.string().min(1),
+    timezone: TimeZoneSchema.default("UTC"),
+  }),
+  z.object({
+    type: z.literal("activeHours"),
+    timezone: TimeZoneSchema.default("UTC"),
+    windows: z.array(ActiveHoursWindowSchema).min(1),
+    outsideIntervalSeconds: z.number().int().min(1).optional(),
+  }),
+]);
+
+export type HealthCheckSchedule = z.infer<typeof HealthCheckScheduleSchema>;
+
 export const HealthCheckConfigurationSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -81,6 +164,10 @@ export const HealthCheckConfigurationSchema = z.object({
   intervalSeconds: z.number(),
   /** Optional collector configurations */
   collectors: z.array(CollectorConfigEntrySchema).optional(),
+  /** Regions the check runs in (empty: backend only) */
+  regions: z.array(z.string()),
+  /** Cron or active hours schedule, runs every intervalSeconds if not set */
+  schedule: HealthCheckScheduleSchema.optional(),
   /** Whether this configuration is paused (execution skipped for all systems) */
   paused: z.boolean(),
   createdAt: z.date(),
@@ -98,6 +185,10 @@ export const CreateHealthCheckConfigurationSchema = z.object({
   intervalSeconds: z.number().min(1),
   /** Optional collector configurations */
   collectors: z.array(CollectorConfigEntrySchema).optional(),
+  /** Regions the check runs in. Include "local" to also run on the backend */
+  regions: z.array(RegionSchema).optional(),
+  /** Cron or active hours schedule, null clears it on update */
+  schedule: HealthCheckScheduleSchema.nullish(),
 });
 
 export type CreateHealthCheckConfiguration = z.infer<
@@ -124,6 +215,41 @@ export type HealthCheckStatus = z.infer<typeof HealthCheckStatusSchema>;
 
 // --- State Threshold Schemas ---
 
+/**
+ * Quorum across regions. Each region is evaluated on its own runs, and the
+ * check only fails if enough regions fail at the same time.
+ * Failures in fewer regions are treated as local network issues.
+ */
+export const RegionQuorumSchema = z.object({
+  /** Minimum number of failing regions for the check to fail */
+  minFailingRegions: z.number().int().min(1).default(2),
+});
+
+export type RegionQuorum = z.infer<typeof RegionQuorumSchema>;
+
+/** Metric key of the run latency. Collector metrics use "<collector uuid>.<field>". */
+export const LATENCY_METRIC = "latencyMs";
+
+/** How far a metric may deviate from its baseline before it is flagged */
+export const AnomalySensitivitySchema = z.enum(["low", "medium", "high"]);
+
+export type AnomalySensitivity = z.infer<typeof AnomalySensitivitySchema>;
+
+/**
+ * Anomaly detection against learned baselines. The average of the most
+ * recent runs is compared to the baseline of the same hour of the week, and
+ * a check that is otherwise healthy becomes degraded when it leaves the band.
+ */
+export const AnomalyDetectionSchema = z.object({
+  sensitivity: AnomalySensitivitySchema.default("medium"),
+  /** Metrics to watch, the run latency and averaged collector fields */
+  metrics: z.array(z.string()).min(1).default([LATENCY_METRIC]),
+  /** Number of recent runs averaged and compared against the baseline */
+  windowSize: z.number().int().min(1).max(100).default(5),
+});
+
+export type AnomalyDetection = z.infer<typeof AnomalyDetectionSchema>;
+
 /**
  * Consecutive mode: evaluates based on sequential identical results.
  * Good for stable systems where transient failures are rare.
@@ -142,6 +268,10 @@ export const ConsecutiveThresholdsSchema = z.object({
   unhealthy: z.object({
     minFailureCount: z.number().int().min(1).default(5),
   }),
+  /** Optional quorum for checks running in multiple regions */
+  quorum: RegionQuorumSchema.optional(),
+  /** Optional anomaly detection against learned baselines */
+  anomaly: AnomalyDetectionSchema.optional(),
 });
 
 export type ConsecutiveThresholds = z.infer<typeof ConsecutiveThresholdsSchema>;
@@ -162,6 +292,10 @@ export const WindowThresholdsSchema = z.object({
   unhealthy: z.object({
     minFailureCount: z.number().int().min(1).default(7),
   }),
+  /** Optional quorum for checks running in multiple regions */
+  quorum: RegionQuorumSchema.optional(),
+  /** Optional anomaly detection against learned baselines */
+  anomaly: AnomalyDetectionSchema.optional(),
 });
 
 export type WindowThresholds = z.infer<typeof WindowThresholdsSchema>;
@@ -208,6 +342,8 @@ export const HealthCheckRunSchema = z.object({
   result: z.record(z.string(), z.unknown()),
   timestamp: z.date(),
   latencyMs: z.number().optional(),
+  /** Region the run was executed in */
+  region: z.string(),
 });
 
 export type HealthCheckRun = z.infer<typeof HealthCheckRunSchema>;
@@ -244,10 +380,130 @@ export const HealthCheckRunPublicSchema = z.object({
   status: HealthCheckStatusSchema,
   timestamp: z.date(),
   latencyMs: z.number().optional(),
+  /** Region the run was executed in */
+  region: z.string(),
 });
 
 export type HealthCheckRunPublic = z.infer<typeof HealthCheckRunPublicSchema>;
 
+// --- Probe Agents ---
+
+/**
+ * A health check job handed to a remote probe agent.
+ * Contains everything needed to execute the check without database access.
+ */
+export const ProbeAgentJobSchema = z.object({
+  jobId: z.string(),
+  configurationId: z.string(),
+  systemId: z.string(),
+  strategyId: z.string(),
+  config: z.record(z.string(), z.unknown()),
+  collectors: z.array(CollectorConfigEntrySchema),
+});
+
+export type ProbeAgentJob = z.infer<typeof ProbeAgentJobSchema>;
+
+/**
+ * Result of a job, pushed back by the agent that claimed it.
+ */
+export const SubmitProbeAgentResultSchema = z.object({
+  jobId: z.string(),
+  result: StoredHealthCheckResultSchema,
+});
+
+export type SubmitProbeAgentResult = z.infer<
+  typeof SubmitProbeAgentResultSchema
+>;
+
+/**
+ * A remote probe agent, identified by its application and region.
+ */
+export const ProbeAgentSchema = z.object({
+  /** ID of the application the agent authenticates with */
+  applicationId: z.string(),
+  name: z.string(),
+  region: z.string(),
+  lastSeenAt: z.date(),
+});
+
+export type ProbeAgent = z.infer<typeof ProbeAgentSchema>;
+
+/**
+ * Regions an application may serve as probe agent.
+ * `local` is the backend itself and cannot be assigned.
+ */
+export const ProbeAgentRegionsSchema = z.object({
+  applicationId: z.string(),
+  regions: z.array(
+    RegionSchema.refine((region) => region !== LOCAL_REGION, {
+      message: `"${LOCAL_REGION}" is the backend itself`,
+    }),
+  ),
+});
+
+export type ProbeAgentRegions = z.infer<typeof ProbeAgentRegionsSchema>;
+
+// --- Alert Acknowledgement ---
+
+/**
+ * Acknowledgement and snooze state of a system's health alerts.
+ * An acknowledgement lasts until the system recovers, a snooze until it expires.
+ */
+export const SystemAlertStateSchema = z.object({
+  systemId: z.string(),
+  /** User who took ownership of the alert */
+  acknowledgedBy: z.string().optional(),
+  acknowledgedByName: z.string().optional(),
+  acknowledgedAt: z.date().optional(),
+  /** Alerts are not sent until this time */
+  snoozedUntil: z.date().optional(),
+  snoozedBy: z.string().optional(),
+  snoozedByName: z.string().optional(),
+});
+
+export type SystemAlertState = z.infer<typeof SystemAlertStateSchema>;
+
+/**
+ * Status change between two consecutive runs of a health check,
+ * e.g. for incident timelines.
+ */
+export const HealthCheckStatusTransitionSchema = z.object({
+  systemId: z.string(),
+  configurationId: z.string(),
+  configurationName: z.string(),
+  region: z.string(),
+  /** Status of the previous run, undefined for the first known run */
+  fromStatus: HealthCheckStatusSchema.optional(),
+  toStatus: HealthCheckStatusSchema,
+  timestamp: z.date(),
+});
+
+export type HealthCheckStatusTransition = z.infer<
+  typeof HealthCheckStatusTransitionSchema
+>;
+
+/**
+ * Availability and latency of a system's health checks within a period,
+ * computed from the aggregates. Used for availability reports.
+ */
+export const SystemAvailabilitySummarySchema = z.object({
+  systemId: z.string(),
+  totalRuns: z.number(),
+  healthyRuns: z.number(),
+  degradedRuns: z.number(),
+  unhealthyRuns: z.number(),
+  /** Percentage of healthy runs, undefined without runs */
+  availability: z.number().optional(),
+  avgLatencyMs: z.number().optional(),
+  p50LatencyMs: z.number().optional(),
+  p95LatencyMs: z.number().optional(),
+  p99LatencyMs: z.number().optional(),
+});
+
+export type SystemAvailabilitySummary = z.infer<
+  typeof SystemAvailabilitySummarySchema
+>;
+
 // --- Retention Configuration ---
 
 /**
@@ -308,3 +564,200 @@ export const AggregatedBucketSchema = AggregatedBucketBaseSchema.extend({
 });
 
 export type AggregatedBucket = z.infer<typeof AggregatedBucketSchema>;
+
+// --- Service Level Objectives ---
+
+/**
+ * What an SLO measures:
+ * - `availability`: share of healthy runs
+ * - `latency`: share of runs faster than `latencyThresholdMs`
+ *   (e.g. "p95 latency < 300ms" is a target of 95 with a threshold of 300)
+ */
+export const SloTypeSchema = z.enum(["availability", "latency"]);
+export type SloType = z.infer<typeof SloTypeSchema>;
+
+/** Whether an SLO covers a single system or all systems of a group */
+export const SloScopeTypeSchema = z.enum(["system", "group"]);
+export type SloScopeType = z.infer<typeof SloScopeTypeSchema>;
+
+/**
+ * Severity of a burn-rate alert. `page` means the error budget is consumed
+ * within hours, `ticket` within days.
+ */
+export const SloAlertSeveritySchema = z.enum(["page", "ticket"]);
+export type SloAlertSeverity = z.infer<typeof SloAlertSeveritySchema>;
+
+const SloFieldsSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  scopeType: SloScopeTypeSchema,
+  /** System or group ID, depending on `scopeType` */
+  scopeId: z.string().min(1),
+  type: SloTypeSchema,
+  /** Objective in percent, e.g. 99.9 */
+  target: z.number().gt(0).lt(100),
+  /** Length of the rolling window in days */
+  windowDays: z.number().int().min(1).max(365),
+  /** Required for latency SLOs */
+  latencyThresholdMs: z.number().int().min(1).optional(),
+  /** Whether runs during planned maintenance count towards the SLO */
+  includeMaintenance: z.boolean(),
+});
+
+export const SloSchema = SloFieldsSchema.extend({
+  id: z.string(),
+  /** Severity of the currently firing burn-rate alert */
+  alertSeverity: SloAlertSeveritySchema.optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Slo = z.infer<typeof SloSchema>;
+
+export const CreateSloSchema = SloFieldsSchema.extend({
+  includeMaintenance: z.boolean().default(false),
+}).refine(
+  (slo) => slo.type !== "latency" || slo.latencyThresholdMs !== undefined,
+  {
+    message: "Latency SLOs require a latency threshold",
+    path: ["latencyThresholdMs"],
+  },
+);
+
+export type CreateSlo = z.infer<typeof CreateSloSchema>;
+
+export const UpdateSloSchema = SloFieldsSchema.partial().extend({
+  id: z.string(),
+});
+
+export type UpdateSlo = z.infer<typeof UpdateSloSchema>;
+
+/**
+ * Burn rate over a pair of windows. An alert fires when both the long and the
+ * short window burn faster than the threshold.
+ */
+export const SloBurnRateSchema = z.object({
+  severity: SloAlertSeveritySchema,
+  longWindowMinutes: z.number(),
+  shortWindowMinutes: z.number(),
+  /** Burn rate that consumes the alert's share of the budget in time */
+  threshold: z.number(),
+  longBurnRate: z.number().optional(),
+  shortBurnRate: z.number().optional(),
+  firing: z.boolean(),
+});
+
+export type SloBurnRate = z.infer<typeof SloBurnRateSchema>;
+
+/**
+ * Current attainment and error budget of an SLO over its rolling window.
+ */
+export const SloStatusSchema = z.object({
+  sloId: z.string(),
+  /** Share of good events in percent, undefined without data */
+  attainment: z.number().optional(),
+  totalEvents: z.number(),
+  badEvents: z.number(),
+  /** Bad events the objective allows within the window */
+  errorBudget: z.number(),
+  /** Remaining share of the error budget (1 = untouched, < 0 = exhausted) */
+  errorBudgetRemaining: z.number().optional(),
+  burnRates: z.array(SloBurnRateSchema),
+  evaluatedAt: z.date(),
+});
+
+export type SloStatus = z.infer<typeof SloStatusSchema>;
+
+export const SloWithStatusSchema = z.object({
+  slo: SloSchema,
+  status: SloStatusSchema,
+});
+
+export type SloWithStatus = z.infer<typeof SloWithStatusSchema>;
+
+/** Calendar month in `YYYY-MM` format */
+export const SlaReportMonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected a month like 2026-01");
+
+/**
+ * Attainment of one SLO for one system within a calendar month (UTC).
+ */
+export const SlaReportEntrySchema = z.object({
+  sloId: z.string(),
+  name: z.string(),
+  type: SloTypeSchema,
+  target: z.number(),
+  latencyThresholdMs: z.number().optional(),
+  includeMaintenance: z.boolean(),
+  attainment: z.number().optional(),
+  /** Undefined without data */
+  met: z.boolean().optional(),
+  totalEvents: z.number(),
+  badEvents: z.number(),
+  /** Per-day attainment (UTC), oldest first */
+  daily: z.array(
+    z.object({
+      date: z.date(),
+      attainment: z.number().optional(),
+      totalEvents: z.number(),
+    }),
+  ),
+});
+
+export type SlaReportEntry = z.infer<typeof SlaReportEntrySchema>;
+
+export const SlaReportSchema = z.object({
+  systemId: z.string(),
+  month: SlaReportMonthSchema,
+  periodStart: z.date(),
+  periodEnd: z.date(),
+  /** Minutes of planned maintenance within the month */
+  maintenanceMinutes: z.number(),
+  entries: z.array(SlaReportEntrySchema),
+});
+
+export type SlaReport = z.infer<typeof SlaReportSchema>;
+
+// --- Anomaly Detection ---
+
+/** Expected band of a metric for one hour of the week (Monday 00:00 UTC = 0) */
+export const AnomalyBaselineSlotSchema = z.object({
+  hourOfWeek: z.number().int().min(0).max(167),
+  expected: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+});
+
+export type AnomalyBaselineSlot = z.infer<typeof AnomalyBaselineSlotSchema>;
+
+export const AnomalyBaselineSchema = z.object({
+  metric: z.string(),
+  label: z.string(),
+  sensitivity: AnomalySensitivitySchema,
+  computedAt: z.date(),
+  /** Only hours with enough history have a slot */
+  slots: z.array(AnomalyBaselineSlotSchema),
+});
+
+export type AnomalyBaseline = z.infer<typeof AnomalyBaselineSchema>;
+
+/** Metric that can be watched for anomalies */
+export const AnomalyMetricSchema = z.object({
+  metric: z.string(),
+  label: z.string(),
+});
+
+export type AnomalyMetric = z.infer<typeof AnomalyMetricSchema>;
+
+/** A watched metric outside its expected band */
+export const DetectedAnomalySchema = z.object({
+  metric: z.string(),
+  label: z.string(),
+  observed: z.number(),
+  expected: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+});
+
+export type DetectedAnomaly = z.infer<typeof DetectedAnomalySchema>;
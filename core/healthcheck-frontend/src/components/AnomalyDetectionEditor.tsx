@@ -0,0 +1,135 @@
+import React from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  HealthCheckApi,
+  LATENCY_METRIC,
+  type AnomalyDetection,
+  type AnomalySensitivity,
+} from "@checkstack/healthcheck-common";
+import {
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Tooltip,
+} from "@checkstack/ui";
+
+const DEFAULT_ANOMALY_DETECTION: AnomalyDetection = {
+  sensitivity: "medium",
+  metrics: [LATENCY_METRIC],
+  windowSize: 5,
+};
+
+interface Props {
+  systemId: string;
+  configurationId: string;
+  value?: AnomalyDetection;
+  onChange: (value: AnomalyDetection | undefined) => void;
+}
+
+/**
+ * Threshold editor section for anomaly detection against learned baselines.
+ */
+export const AnomalyDetectionEditor: React.FC<Props> = ({
+  systemId,
+  configurationId,
+  value,
+  onChange,
+}) => {
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+
+  const { data: metrics = [] } = healthCheckClient.getAnomalyMetrics.useQuery(
+    { systemId, configurationId },
+    { enabled: !!value },
+  );
+
+  const toggleMetric = (metric: string) => {
+    if (!value) return;
+    const selected = value.metrics.includes(metric)
+      ? value.metrics.filter((m) => m !== metric)
+      : [...value.metrics, metric];
+    // At least one metric has to be watched
+    if (selected.length === 0) return;
+    onChange({ ...value, metrics: selected });
+  };
+
+  return (
+    <div className="p-3 rounded-lg border bg-muted/30 space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          checked={!!value}
+          onCheckedChange={(checked) =>
+            onChange(checked ? DEFAULT_ANOMALY_DETECTION : undefined)
+          }
+        />
+        <span className="text-sm font-medium">Anomaly Detection</span>
+        <Tooltip content="Learns the usual values of each hour of the week from the last four weeks. When the average of the most recent runs leaves the expected band, an otherwise healthy check becomes degraded" />
+      </div>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1">
+              <Label className="text-xs">Sensitivity</Label>
+              <Select
+                value={value.sensitivity}
+                onValueChange={(sensitivity: AnomalySensitivity) =>
+                  onChange({ ...value, sensitivity })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low (wide band)</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High (narrow band)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Recent Runs Compared</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={value.windowSize}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    windowSize: Number.parseInt(e.target.value) || 1,
+                  })
+                }
+                className="h-8"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-1">
+            <Label className="text-xs">Watched Metrics</Label>
+            <div className="max-h-36 overflow-y-auto border rounded-md p-2 space-y-1 bg-background">
+              {metrics.map((metric) => (
+                <div
+                  key={metric.metric}
+                  className="flex items-center space-x-2 p-1 rounded hover:bg-accent cursor-pointer"
+                  onClick={() => toggleMetric(metric.metric)}
+                >
+                  <Checkbox checked={value.metrics.includes(metric.metric)} />
+                  <span className="text-sm">{metric.label}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Latency is only flagged when it is higher than expected, collector
+              metrics in both directions. Baselines are refreshed hourly.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from "react";
+import { cn } from "@checkstack/ui";
+
+interface Props {
+  /** Remaining share of the error budget, undefined without data */
+  remaining?: number;
+  className?: string;
+}
+
+/**
+ * Horizontal bar showing how much of an SLO's error budget is left.
+ */
+export const ErrorBudgetBar: React.FC<Props> = ({ remaining, className }) => {
+  if (remaining === undefined) {
+    return <span className="text-sm text-muted-foreground">No data</span>;
+  }
+
+  const percent = Math.max(0, Math.min(1, remaining)) * 100;
+  const color =
+    remaining <= 0
+      ? "bg-destructive"
+      : remaining < 0.25
+        ? "bg-warning"
+        : "bg-success";
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <div className="h-2 w-24 rounded-full bg-muted overflow-hidden">
+        <div className={cn("h-full", color)} style={{ width: `${percent}%` }} />
+      </div>
+      <span
+        className={cn(
+          "text-sm tabular-nums",
+          remaining <= 0 ? "text-destructive" : "text-muted-foreground",
+        )}
+      >
+        {remaining <= 0 ? "Exhausted" : `${Math.round(remaining * 100)}%`}
+      </span>
+    </div>
+  );
+};
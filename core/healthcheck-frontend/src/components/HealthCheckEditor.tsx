@@ -4,6 +4,7 @@ import {
   HealthCheckStrategyDto,
   CreateHealthCheckConfiguration,
   CollectorConfigEntry,
+  HealthCheckSchedule,
 } from "@checkstack/healthcheck-common";
 import {
   Button,
@@ -20,6 +21,7 @@ import {
 } from "@checkstack/ui";
 import { useCollectors } from "../hooks/useCollectors";
 import { CollectorList } from "./CollectorList";
+import { ScheduleEditor } from "./ScheduleEditor";
 import { TeamAccessEditor } from "@checkstack/auth-frontend";
 
 interface HealthCheckEditorProps {
@@ -48,6 +50,12 @@ export const HealthCheckEditor: React.FC<HealthCheckEditorProps> = ({
   const [collectors, setCollectors] = useState<CollectorConfigEntry[]>(
     initialData?.collectors || [],
   );
+  const [regions, setRegions] = useState(
+    initialData?.regions?.join(", ") || "",
+  );
+  const [schedule, setSchedule] = useState<HealthCheckSchedule | undefined>(
+    initialData?.schedule,
+  );
 
   const toast = useToast();
   const [loading, setLoading] = useState(false);
@@ -65,6 +73,8 @@ export const HealthCheckEditor: React.FC<HealthCheckEditorProps> = ({
       setInterval(initialData?.intervalSeconds?.toString() || "60");
       setConfig((initialData?.config as Record<string, unknown>) || {});
       setCollectors(initialData?.collectors || []);
+      setRegions(initialData?.regions?.join(", ") || "");
+      setSchedule(initialData?.schedule);
     }
   }, [open, initialData]);
 
@@ -85,6 +95,13 @@ export const HealthCheckEditor: React.FC<HealthCheckEditorProps> = ({
         intervalSeconds: Number.parseInt(interval, 10),
         config,
         collectors, // Always send the array, even if empty, to allow clearing
+        regions: regions
+          .split(",")
+          .map((region) => region.trim())
+          .filter(Boolean),
+        // Null clears a previously configured schedule
+        // eslint-disable-next-line unicorn/no-null
+        schedule: schedule ?? null,
       });
     } catch (error) {
       const message =
@@ -122,24 +139,45 @@ export const HealthCheckEditor: React.FC<HealthCheckEditorProps> = ({
               />
             </div>
 
+            <ScheduleEditor
+              schedule={schedule}
+              onChange={setSchedule}
+              intervalInput={
+                <div className="space-y-2">
+                  <Label htmlFor="interval">Interval (seconds)</Label>
+                  <Input
+                    id="interval"
+                    type="number"
+                    min="1"
+                    value={interval}
+                    onChange={(e) => setInterval(e.target.value)}
+                    required
+                  />
+                  {Number.parseInt(interval, 10) < 60 && (
+                    <p className="text-sm text-amber-600 dark:text-amber-400">
+                      ⚠️ Sub-minute intervals generate large amounts of data and
+                      may impact chart loading performance. Consider using
+                      intervals of 60 seconds or more or drastically reduce the
+                      retention period for raw data.
+                    </p>
+                  )}
+                </div>
+              }
+            />
+
             <div className="space-y-2">
-              <Label htmlFor="interval">Interval (seconds)</Label>
+              <Label htmlFor="regions">Regions</Label>
               <Input
-                id="interval"
-                type="number"
-                min="1"
-                value={interval}
-                onChange={(e) => setInterval(e.target.value)}
-                required
+                id="regions"
+                placeholder="local, eu-west, us-east"
+                value={regions}
+                onChange={(e) => setRegions(e.target.value)}
               />
-              {Number.parseInt(interval, 10) < 60 && (
-                <p className="text-sm text-amber-600 dark:text-amber-400">
-                  ⚠️ Sub-minute intervals generate large amounts of data and may
-                  impact chart loading performance. Consider using intervals of
-                  60 seconds or more or drastically reduce the retention period
-                  for raw data.
-                </p>
-              )}
+              <p className="text-sm text-muted-foreground">
+                Comma-separated regions to run this check from. Leave empty to
+                run on the backend only (&quot;local&quot;). Other regions are
+                executed by probe agents.
+              </p>
             </div>
 
             <PluginConfigForm
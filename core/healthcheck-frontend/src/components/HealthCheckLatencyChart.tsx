@@ -8,7 +8,10 @@ import {
   ReferenceLine,
 } from "recharts";
 import { format } from "date-fns";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
 import type { HealthCheckDiagramSlotContext } from "../slots";
+import { getBucketBand } from "../utils/anomaly-band";
 
 interface HealthCheckLatencyChartProps {
   context: HealthCheckDiagramSlotContext;
@@ -19,11 +22,19 @@ interface HealthCheckLatencyChartProps {
 /**
  * Area chart showing health check latency over time.
  * Uses aggregated bucket data with average latency per bucket.
+ * When anomaly detection watches the latency, the expected band is shown
+ * behind the latency.
  * Uses HSL CSS variables for theming consistency.
  */
 export const HealthCheckLatencyChart: React.FC<
   HealthCheckLatencyChartProps
 > = ({ context, height = 200, showAverage = true }) => {
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const { data: baseline } = healthCheckClient.getAnomalyBaseline.useQuery({
+    systemId: context.systemId,
+    configurationId: context.configurationId,
+  });
+
   const buckets = context.buckets.filter((b) => b.avgLatencyMs !== undefined);
 
   if (buckets.length === 0) {
@@ -37,13 +48,20 @@ export const HealthCheckLatencyChart: React.FC<
     );
   }
 
-  const chartData = buckets.map((d) => ({
-    timestamp: new Date(d.bucketStart).getTime(),
-    bucketEndTimestamp: new Date(d.bucketEnd).getTime(),
-    latencyMs: d.avgLatencyMs!,
-    minLatencyMs: d.minLatencyMs,
-    maxLatencyMs: d.maxLatencyMs,
-  }));
+  const chartData = buckets.map((d) => {
+    const band = baseline
+      ? getBucketBand(baseline, new Date(d.bucketStart), new Date(d.bucketEnd))
+      : undefined;
+    return {
+      timestamp: new Date(d.bucketStart).getTime(),
+      bucketEndTimestamp: new Date(d.bucketEnd).getTime(),
+      latencyMs: d.avgLatencyMs!,
+      minLatencyMs: d.minLatencyMs,
+      maxLatencyMs: d.maxLatencyMs,
+      expectedMs: band?.expected,
+      band: band ? [Math.max(0, band.lower), band.upper] : undefined,
+    };
+  });
 
   const avgLatency =
     chartData.length > 0
@@ -105,6 +123,11 @@ export const HealthCheckLatencyChart: React.FC<
                   {startTime} - {endTime}
                 </p>
                 <p className="font-medium">{data.latencyMs}ms (avg)</p>
+                {data.expectedMs !== undefined && (
+                  <p className="text-muted-foreground">
+                    Expected: {data.expectedMs.toFixed(0)}ms
+                  </p>
+                )}
               </div>
             );
           }}
@@ -122,6 +145,16 @@ export const HealthCheckLatencyChart: React.FC<
             }}
           />
         )}
+        {baseline && (
+          <Area
+            type="monotone"
+            dataKey="band"
+            stroke="none"
+            fill="hsl(var(--muted-foreground))"
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+        )}
         <Area
           type="monotone"
           dataKey="latencyMs"
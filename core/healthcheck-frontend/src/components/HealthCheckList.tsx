@@ -25,6 +25,20 @@ interface HealthCheckListProps {
   canManage?: boolean;
 }
 
+const formatSchedule = (config: HealthCheckConfiguration) => {
+  switch (config.schedule?.type) {
+    case "cron": {
+      return `${config.schedule.cronPattern} (${config.schedule.timezone})`;
+    }
+    case "activeHours": {
+      return `Active hours (${config.schedule.timezone})`;
+    }
+    default: {
+      return `Every ${config.intervalSeconds}s`;
+    }
+  }
+};
+
 export const HealthCheckList: React.FC<HealthCheckListProps> = ({
   configurations,
   strategies,
@@ -45,7 +59,7 @@ export const HealthCheckList: React.FC<HealthCheckListProps> = ({
           <TableRow>
             <TableHead>Name</TableHead>
             <TableHead>Strategy</TableHead>
-            <TableHead>Interval (s)</TableHead>
+            <TableHead>Schedule</TableHead>
             <TableHead>Status</TableHead>
             <TableHead className="text-right">Actions</TableHead>
           </TableRow>
@@ -65,7 +79,7 @@ export const HealthCheckList: React.FC<HealthCheckListProps> = ({
               >
                 <TableCell className="font-medium">{config.name}</TableCell>
                 <TableCell>{getStrategyName(config.strategyId)}</TableCell>
-                <TableCell>{config.intervalSeconds}</TableCell>
+                <TableCell>{formatSchedule(config)}</TableCell>
                 <TableCell>
                   {config.paused ? (
                     <Badge variant="secondary">Paused</Badge>
@@ -1,6 +1,6 @@
 import React from "react";
 import { Link } from "react-router-dom";
-import { Activity } from "lucide-react";
+import { Activity, Target } from "lucide-react";
 import type { UserMenuItemsContext } from "@checkstack/frontend-api";
 import { DropdownMenuItem } from "@checkstack/ui";
 import { resolveRoute } from "@checkstack/common";
@@ -15,16 +15,30 @@ export const HealthCheckMenuItems = ({
 }: UserMenuItemsContext) => {
   const qualifiedId = `${pluginMetadata.pluginId}.${healthCheckAccess.configuration.read.id}`;
   const canRead = userPerms.includes("*") || userPerms.includes(qualifiedId);
+  const sloQualifiedId = `${pluginMetadata.pluginId}.${healthCheckAccess.slo.read.id}`;
+  const canReadSlos =
+    userPerms.includes("*") || userPerms.includes(sloQualifiedId);
 
-  if (!canRead) {
+  if (!canRead && !canReadSlos) {
     return <React.Fragment />;
   }
 
   return (
-    <Link to={resolveRoute(healthcheckRoutes.routes.config)}>
-      <DropdownMenuItem icon={<Activity className="w-4 h-4" />}>
-        Health Checks
-      </DropdownMenuItem>
-    </Link>
+    <>
+      {canRead && (
+        <Link to={resolveRoute(healthcheckRoutes.routes.config)}>
+          <DropdownMenuItem icon={<Activity className="w-4 h-4" />}>
+            Health Checks
+          </DropdownMenuItem>
+        </Link>
+      )}
+      {canReadSlos && (
+        <Link to={resolveRoute(healthcheckRoutes.routes.slos)}>
+          <DropdownMenuItem icon={<Target className="w-4 h-4" />}>
+            SLOs
+          </DropdownMenuItem>
+        </Link>
+      )}
+    </>
   );
 };
@@ -21,6 +21,8 @@ export interface HealthCheckRunDetailed {
   systemId: string;
   status: "healthy" | "unhealthy" | "degraded";
   result: Record<string, unknown>;
+  /** Region the run was executed from */
+  region?: string;
   timestamp: Date;
 }
 
@@ -92,6 +94,7 @@ export const HealthCheckRunsTable: React.FC<HealthCheckRunsTableProps> = ({
                   <TableHead>Configuration ID</TableHead>
                 </>
               )}
+              <TableHead>Region</TableHead>
               <TableHead>Timestamp</TableHead>
               {showFilterColumns && <TableHead className="w-16"></TableHead>}
             </TableRow>
@@ -116,6 +119,9 @@ export const HealthCheckRunsTable: React.FC<HealthCheckRunsTableProps> = ({
                     </TableCell>
                   </>
                 )}
+                <TableCell className="font-mono text-xs">
+                  {run.region ?? "local"}
+                </TableCell>
                 <TableCell className="text-sm text-muted-foreground">
                   <span title={format(new Date(run.timestamp), "PPpp")}>
                     {formatDistanceToNow(new Date(run.timestamp), {
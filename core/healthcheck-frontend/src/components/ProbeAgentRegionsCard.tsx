@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import {
+  usePluginClient,
+  accessApiRef,
+  useApi,
+} from "@checkstack/frontend-api";
+import { AuthApi, authAccess } from "@checkstack/auth-common";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  useToast,
+} from "@checkstack/ui";
+import { Radio } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { HealthCheckApi } from "../api";
+
+const parseRegions = (value: string): string[] =>
+  value
+    .split(",")
+    .map((region) => region.trim())
+    .filter(Boolean);
+
+/**
+ * Assign the regions applications may serve as probe agents.
+ * Agents can only claim jobs of their assigned regions.
+ */
+export const ProbeAgentRegionsCard: React.FC = () => {
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const authClient = usePluginClient(AuthApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const { allowed: canReadApplications } = accessApi.useAccess(
+    authAccess.applications,
+  );
+
+  const { data: applications = [] } = authClient.getApplications.useQuery(
+    undefined,
+    { enabled: canReadApplications },
+  );
+  const { data: assignments, refetch } =
+    healthCheckClient.getProbeAgentRegions.useQuery();
+  const { data: agents = [] } = healthCheckClient.getProbeAgents.useQuery();
+
+  // Comma-separated regions per application ID
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (assignments) {
+      setDrafts(
+        Object.fromEntries(
+          assignments.map((a) => [a.applicationId, a.regions.join(", ")]),
+        ),
+      );
+    }
+  }, [assignments]);
+
+  const saveMutation = healthCheckClient.setProbeAgentRegions.useMutation({
+    onSuccess: () => {
+      toast.success("Probe agent regions saved");
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save regions",
+      );
+    },
+  });
+
+  if (!canReadApplications) {
+    return <></>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radio className="h-5 w-5" />
+          Probe Agents
+        </CardTitle>
+        <CardDescription>
+          Regions each application may run checks for as probe agent. Agents are
+          rejected for all other regions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {applications.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Create an application to run a probe agent.
+          </p>
+        )}
+        {applications.map((application) => {
+          const lastSeen = agents
+            .filter((agent) => agent.applicationId === application.id)
+            .map((agent) => agent.lastSeenAt.getTime());
+          return (
+            <div key={application.id} className="flex items-center gap-2">
+              <div className="w-48 shrink-0">
+                <div className="text-sm font-medium">{application.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {lastSeen.length > 0
+                    ? `Last poll ${formatDistanceToNow(Math.max(...lastSeen), { addSuffix: true })}`
+                    : "Never polled"}
+                </div>
+              </div>
+              <Input
+                value={drafts[application.id] ?? ""}
+                onChange={(e) =>
+                  setDrafts((current) => ({
+                    ...current,
+                    [application.id]: e.target.value,
+                  }))
+                }
+                placeholder="eu-west, us-east"
+                aria-label={`Regions of ${application.name}`}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={saveMutation.isPending}
+                onClick={() =>
+                  saveMutation.mutate({
+                    applicationId: application.id,
+                    regions: parseRegions(drafts[application.id] ?? ""),
+                  })
+                }
+              >
+                Save
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,271 @@
+import React from "react";
+import type {
+  ActiveHoursWindow,
+  HealthCheckSchedule,
+} from "@checkstack/healthcheck-common";
+import {
+  Button,
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@checkstack/ui";
+import { Plus, Trash2 } from "lucide-react";
+
+type ScheduleType = "interval" | HealthCheckSchedule["type"];
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const DEFAULT_WINDOW: ActiveHoursWindow = {
+  days: [1, 2, 3, 4, 5],
+  start: "09:00",
+  end: "17:00",
+  intervalSeconds: 30,
+};
+
+const createSchedule = (
+  type: ScheduleType,
+): HealthCheckSchedule | undefined => {
+  switch (type) {
+    case "cron": {
+      return {
+        type: "cron",
+        cronPattern: "0 * * * *",
+        timezone: browserTimeZone,
+      };
+    }
+    case "activeHours": {
+      return {
+        type: "activeHours",
+        timezone: browserTimeZone,
+        windows: [DEFAULT_WINDOW],
+        outsideIntervalSeconds: 300,
+      };
+    }
+    default: {
+      return undefined;
+    }
+  }
+};
+
+interface ScheduleEditorProps {
+  schedule: HealthCheckSchedule | undefined;
+  onChange: (schedule: HealthCheckSchedule | undefined) => void;
+  /** Rendered for the fixed interval schedule */
+  intervalInput: React.ReactNode;
+}
+
+/**
+ * Picks between a fixed interval, a cron expression and active hours
+ * windows with their own intervals.
+ */
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({
+  schedule,
+  onChange,
+  intervalInput,
+}) => {
+  const updateWindow = (index: number, changes: Partial<ActiveHoursWindow>) => {
+    if (schedule?.type !== "activeHours") return;
+    onChange({
+      ...schedule,
+      windows: schedule.windows.map((w, i) =>
+        i === index ? { ...w, ...changes } : w,
+      ),
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    if (schedule?.type !== "activeHours") return;
+    const { days } = schedule.windows[index];
+    updateWindow(index, {
+      days: days.includes(day)
+        ? days.filter((d) => d !== day)
+        : [...days, day].toSorted((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Schedule</Label>
+        <Select
+          value={schedule?.type ?? "interval"}
+          onValueChange={(value) =>
+            onChange(createSchedule(value as ScheduleType))
+          }
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="interval">Fixed interval</SelectItem>
+            <SelectItem value="cron">Cron expression</SelectItem>
+            <SelectItem value="activeHours">Active hours</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!schedule && intervalInput}
+
+      {schedule && (
+        <div className="space-y-2">
+          <Label htmlFor="schedule-timezone">Timezone</Label>
+          <Input
+            id="schedule-timezone"
+            value={schedule.timezone}
+            onChange={(e) =>
+              onChange({ ...schedule, timezone: e.target.value })
+            }
+            placeholder="Europe/Berlin"
+            className="max-w-xs"
+            required
+          />
+        </div>
+      )}
+
+      {schedule?.type === "cron" && (
+        <div className="space-y-2">
+          <Label htmlFor="schedule-cron">Cron expression</Label>
+          <Input
+            id="schedule-cron"
+            value={schedule.cronPattern}
+            onChange={(e) =>
+              onChange({ ...schedule, cronPattern: e.target.value })
+            }
+            placeholder="*/15 8-18 * * 1-5"
+            className="font-mono max-w-xs"
+            required
+          />
+          <p className="text-sm text-muted-foreground">
+            Runs at the times of the expression (minute, hour, day of month,
+            month, day of week) in the timezone above.
+          </p>
+        </div>
+      )}
+
+      {schedule?.type === "activeHours" && (
+        <div className="space-y-3">
+          {schedule.windows.map((window, index) => (
+            <div
+              key={index}
+              className="flex flex-wrap items-center gap-3 rounded-md border p-3"
+            >
+              <div className="flex items-center gap-2">
+                {DAYS.map((label, day) => {
+                  const id = `window-${index}-day-${day}`;
+                  return (
+                    <div key={label} className="flex items-center gap-1">
+                      <Checkbox
+                        id={id}
+                        checked={window.days.includes(day)}
+                        onCheckedChange={() => toggleDay(index, day)}
+                      />
+                      <Label htmlFor={id} className="text-xs">
+                        {label}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) =>
+                    updateWindow(index, { start: e.target.value })
+                  }
+                  className="w-28"
+                  aria-label="Window start"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  className="w-28"
+                  aria-label="Window end"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">every</span>
+                <Input
+                  type="number"
+                  min="1"
+                  value={window.intervalSeconds}
+                  onChange={(e) =>
+                    updateWindow(index, {
+                      intervalSeconds: Number.parseInt(e.target.value, 10),
+                    })
+                  }
+                  className="w-24"
+                  aria-label="Interval inside the window"
+                  required
+                />
+                <span className="text-sm text-muted-foreground">s</span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={schedule.windows.length === 1}
+                onClick={() =>
+                  onChange({
+                    ...schedule,
+                    windows: schedule.windows.filter((_, i) => i !== index),
+                  })
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...schedule,
+                windows: [...schedule.windows, DEFAULT_WINDOW],
+              })
+            }
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add window
+          </Button>
+          <div className="space-y-2">
+            <Label htmlFor="schedule-outside-interval">
+              Interval outside windows (seconds)
+            </Label>
+            <Input
+              id="schedule-outside-interval"
+              type="number"
+              min="1"
+              value={schedule.outsideIntervalSeconds ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...schedule,
+                  outsideIntervalSeconds: e.target.value
+                    ? Number.parseInt(e.target.value, 10)
+                    : undefined,
+                })
+              }
+              placeholder="Skip runs"
+              className="max-w-xs"
+            />
+            <p className="text-sm text-muted-foreground">
+              Leave empty to skip runs outside all windows. Skipped runs are not
+              recorded and do not count as failures.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  HealthCheckApi,
+  type Slo,
+  type SloScopeType,
+  type SloType,
+} from "@checkstack/healthcheck-common";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  Button,
+  Input,
+  Label,
+  Textarea,
+  Checkbox,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  useToast,
+} from "@checkstack/ui";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  slo?: Slo;
+  systems: { id: string; name: string }[];
+  groups: { id: string; name: string }[];
+  onSave: () => void;
+}
+
+export const SloEditor: React.FC<Props> = ({
+  open,
+  onOpenChange,
+  slo,
+  systems,
+  groups,
+  onSave,
+}) => {
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const toast = useToast();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [scopeType, setScopeType] = useState<SloScopeType>("system");
+  const [scopeId, setScopeId] = useState("");
+  const [type, setType] = useState<SloType>("availability");
+  const [target, setTarget] = useState("99.9");
+  const [windowDays, setWindowDays] = useState("30");
+  const [latencyThresholdMs, setLatencyThresholdMs] = useState("300");
+  const [includeMaintenance, setIncludeMaintenance] = useState(false);
+
+  const createMutation = healthCheckClient.createSlo.useMutation({
+    onSuccess: () => {
+      toast.success("SLO created");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  const updateMutation = healthCheckClient.updateSlo.useMutation({
+    onSuccess: () => {
+      toast.success("SLO updated");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  // Reset form when the SLO changes
+  useEffect(() => {
+    setName(slo?.name ?? "");
+    setDescription(slo?.description ?? "");
+    setScopeType(slo?.scopeType ?? "system");
+    setScopeId(slo?.scopeId ?? "");
+    setType(slo?.type ?? "availability");
+    setTarget(String(slo?.target ?? 99.9));
+    setWindowDays(String(slo?.windowDays ?? 30));
+    setLatencyThresholdMs(String(slo?.latencyThresholdMs ?? 300));
+    setIncludeMaintenance(slo?.includeMaintenance ?? false);
+  }, [slo, open]);
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (!scopeId) {
+      toast.error(`Select a ${scopeType}`);
+      return;
+    }
+    const targetValue = Number(target);
+    if (!(targetValue > 0 && targetValue < 100)) {
+      toast.error("Target must be between 0 and 100");
+      return;
+    }
+
+    const input = {
+      name,
+      description: description || undefined,
+      scopeType,
+      scopeId,
+      type,
+      target: targetValue,
+      windowDays: Number(windowDays),
+      latencyThresholdMs:
+        type === "latency" ? Number(latencyThresholdMs) : undefined,
+      includeMaintenance,
+    };
+    if (slo) {
+      updateMutation.mutate({ id: slo.id, ...input });
+    } else {
+      createMutation.mutate(input);
+    }
+  };
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+  const scopeOptions = scopeType === "system" ? systems : groups;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader>
+          <DialogTitle>{slo ? "Edit SLO" : "Create SLO"}</DialogTitle>
+          <DialogDescription className="sr-only">
+            Define a service level objective for a system or group
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="slo-name">Name</Label>
+            <Input
+              id="slo-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="API availability"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="slo-description">Description</Label>
+            <Textarea
+              id="slo-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Applies To</Label>
+              <Select
+                value={scopeType}
+                onValueChange={(v) => {
+                  setScopeType(v as SloScopeType);
+                  setScopeId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="system">System</SelectItem>
+                  <SelectItem value="group">Group</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>{scopeType === "system" ? "System" : "Group"}</Label>
+              <Select value={scopeId} onValueChange={setScopeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select a ${scopeType}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {scopeOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Objective</Label>
+              <Select value={type} onValueChange={(v) => setType(v as SloType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="availability">Availability</SelectItem>
+                  <SelectItem value="latency">Latency</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Rolling Window</Label>
+              <Select value={windowDays} onValueChange={setWindowDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">7 days</SelectItem>
+                  <SelectItem value="28">28 days</SelectItem>
+                  <SelectItem value="30">30 days</SelectItem>
+                  <SelectItem value="90">90 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="slo-target">Target (%)</Label>
+              <Input
+                id="slo-target"
+                type="number"
+                step="0.01"
+                min={0}
+                max={100}
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+              />
+            </div>
+            {type === "latency" && (
+              <div className="grid gap-2">
+                <Label htmlFor="slo-latency">Latency Threshold (ms)</Label>
+                <Input
+                  id="slo-latency"
+                  type="number"
+                  min={1}
+                  value={latencyThresholdMs}
+                  onChange={(e) => setLatencyThresholdMs(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {type === "latency"
+              ? `${target}% of runs must be faster than ${latencyThresholdMs}ms, e.g. a target of 95 means "p95 latency < ${latencyThresholdMs}ms".`
+              : `${target}% of runs must be healthy. Degraded runs count as failures.`}
+          </p>
+
+          <div className="border rounded-md p-4 bg-muted/30">
+            <div
+              className="flex items-center gap-3 cursor-pointer"
+              onClick={() => setIncludeMaintenance(!includeMaintenance)}
+            >
+              <Checkbox
+                id="slo-include-maintenance"
+                checked={includeMaintenance}
+              />
+              <div className="flex-1">
+                <Label
+                  htmlFor="slo-include-maintenance"
+                  className="cursor-pointer font-medium"
+                >
+                  Count planned maintenance
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  By default, runs during planned maintenance do not consume the
+                  error budget.
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? "Saving..." : slo ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useState } from "react";
+import {
+  usePluginClient,
+  useApi,
+  accessApiRef,
+  type SlotContext,
+} from "@checkstack/frontend-api";
+import { authApiRef } from "@checkstack/auth-frontend/api";
+import { useSignal } from "@checkstack/signal-frontend";
+import { SystemDetailsTopSlot } from "@checkstack/catalog-common";
+import {
+  HEALTH_CHECK_RUN_COMPLETED,
+  healthCheckAccess,
+} from "@checkstack/healthcheck-common";
+import {
+  Card,
+  CardContent,
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  useToast,
+} from "@checkstack/ui";
+import { BellOff, BellRing, TrendingUp, UserCheck } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { HealthCheckApi } from "../api";
+import { DEFAULT_SNOOZE_MINUTES, SNOOZE_OPTIONS } from "../utils/alert-snooze";
+
+type Props = SlotContext<typeof SystemDetailsTopSlot>;
+
+function formatMetricValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+/**
+ * Panel shown on system detail pages while a system is alerting or its
+ * alerts are acknowledged or snoozed.
+ * Allows taking ownership of the alert and silencing it for a while.
+ */
+export const SystemAlertPanel: React.FC<Props> = ({ system }) => {
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+  const [snoozeMinutes, setSnoozeMinutes] = useState(DEFAULT_SNOOZE_MINUTES);
+
+  const authApi = useApi(authApiRef);
+  const { data: session } = authApi.useSession();
+
+  const { allowed: canManage } = accessApi.useAccess(healthCheckAccess.alert);
+
+  const { data: health, refetch: refetchHealth } =
+    healthCheckClient.getSystemHealthStatus.useQuery(
+      { systemId: system.id },
+      { staleTime: 30_000 },
+    );
+
+  const { data: alertState, refetch: refetchAlertState } =
+    healthCheckClient.getAlertState.useQuery(
+      { systemId: system.id },
+      { enabled: !!session },
+    );
+
+  // An acknowledgement is cleared when the system recovers
+  useSignal(HEALTH_CHECK_RUN_COMPLETED, ({ systemId }) => {
+    if (systemId === system.id) {
+      void refetchHealth();
+      void refetchAlertState();
+    }
+  });
+
+  const onMutationError = (error: unknown) => {
+    toast.error(
+      error instanceof Error ? error.message : "Failed to update alert",
+    );
+  };
+
+  const acknowledgeMutation = healthCheckClient.acknowledgeAlert.useMutation({
+    onSuccess: () => {
+      toast.success("Alert acknowledged");
+      void refetchAlertState();
+    },
+    onError: onMutationError,
+  });
+
+  const snoozeMutation = healthCheckClient.snoozeAlert.useMutation({
+    onSuccess: () => {
+      toast.success("Alerts snoozed");
+      void refetchAlertState();
+    },
+    onError: onMutationError,
+  });
+
+  const clearMutation = healthCheckClient.clearAlertState.useMutation({
+    onSuccess: () => {
+      toast.success("Alerts resumed");
+      void refetchAlertState();
+    },
+    onError: onMutationError,
+  });
+
+  // Alert ownership is only shown to signed-in users
+  const isAlerting = !!health && health.status !== "healthy";
+  if (!session || (!isAlerting && !alertState)) {
+    return <></>;
+  }
+
+  const anomalies = (health?.checkStatuses ?? []).flatMap((check) =>
+    (check.anomalies ?? []).map((anomaly) => ({
+      ...anomaly,
+      configurationName: check.configurationName,
+    })),
+  );
+
+  const isPending =
+    acknowledgeMutation.isPending ||
+    snoozeMutation.isPending ||
+    clearMutation.isPending;
+
+  return (
+    <Card
+      className={
+        alertState
+          ? "border-info/30 bg-info/5"
+          : "border-warning/30 bg-warning/5"
+      }
+    >
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-col gap-1 text-sm">
+          {alertState?.acknowledgedAt && (
+            <div className="flex items-center gap-2">
+              <UserCheck className="h-4 w-4 text-info" />
+              <span>
+                Acknowledged by{" "}
+                <span className="font-medium">
+                  {alertState.acknowledgedByName ?? alertState.acknowledgedBy}
+                </span>{" "}
+                {formatDistanceToNow(new Date(alertState.acknowledgedAt), {
+                  addSuffix: true,
+                })}
+                . Alerts are paused until the system recovers.
+              </span>
+            </div>
+          )}
+          {alertState?.snoozedUntil && (
+            <div className="flex items-center gap-2">
+              <BellOff className="h-4 w-4 text-info" />
+              <span>
+                Snoozed until{" "}
+                {format(new Date(alertState.snoozedUntil), "MMM d, HH:mm")}
+                {alertState.snoozedByName && ` by ${alertState.snoozedByName}`}.
+              </span>
+            </div>
+          )}
+          {!alertState && (
+            <div className="flex items-center gap-2">
+              <BellRing className="h-4 w-4 text-warning" />
+              <span>
+                This system is alerting and nobody has acknowledged it yet.
+              </span>
+            </div>
+          )}
+          {anomalies.map((anomaly) => (
+            <div
+              key={`${anomaly.configurationName}:${anomaly.metric}`}
+              className="flex items-center gap-2"
+            >
+              <TrendingUp className="h-4 w-4 text-warning" />
+              <span>
+                <span className="font-medium">{anomaly.configurationName}</span>
+                : {anomaly.label} is {formatMetricValue(anomaly.observed)},
+                expected {formatMetricValue(anomaly.lower)} to{" "}
+                {formatMetricValue(anomaly.upper)}.
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <div className="flex flex-wrap items-center gap-2">
+            {isAlerting && !alertState?.acknowledgedAt && (
+              <Button
+                size="sm"
+                onClick={() =>
+                  acknowledgeMutation.mutate({ systemId: system.id })
+                }
+                disabled={isPending}
+              >
+                <UserCheck className="h-4 w-4 mr-1" />
+                Acknowledge
+              </Button>
+            )}
+            <Select
+              value={String(snoozeMinutes)}
+              onValueChange={(v) => setSnoozeMinutes(Number(v))}
+            >
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SNOOZE_OPTIONS.map((option) => (
+                  <SelectItem
+                    key={option.minutes}
+                    value={String(option.minutes)}
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                snoozeMutation.mutate({
+                  systemId: system.id,
+                  minutes: snoozeMinutes,
+                })
+              }
+              disabled={isPending}
+            >
+              <BellOff className="h-4 w-4 mr-1" />
+              Snooze
+            </Button>
+            {alertState && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => clearMutation.mutate({ systemId: system.id })}
+                disabled={isPending}
+              >
+                <BellRing className="h-4 w-4 mr-1" />
+                Resume Alerts
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -26,6 +26,7 @@ export const SystemHealthBadge: React.FC<Props> = ({ system }) => {
   // Try to get data from provider first
   const providerData = badgeData?.getSystemBadgeData(system?.id ?? "");
   const providerStatus = providerData?.health?.status;
+  const providerDegradedByUpstream = providerData?.health?.degradedByUpstream;
 
   // Query for health status if not using provider
   // When badgeData exists (inside provider), this query is disabled
@@ -49,7 +50,16 @@ export const SystemHealthBadge: React.FC<Props> = ({ system }) => {
 
   // Use provider data if available, otherwise use local state
   const status = providerStatus ?? localStatus;
+  const degradedByUpstream =
+    providerDegradedByUpstream ?? healthData?.degradedByUpstream;
 
   if (!status) return <></>;
+  if (degradedByUpstream) {
+    return (
+      <span title="Degraded because an upstream dependency is down">
+        <HealthBadge status={status} />
+      </span>
+    );
+  }
   return <HealthBadge status={status} />;
 };
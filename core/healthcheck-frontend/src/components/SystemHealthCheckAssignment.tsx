@@ -37,6 +37,7 @@ import {
 } from "@checkstack/healthcheck-common";
 import { resolveRoute } from "@checkstack/common";
 import { DEFAULT_RETENTION_CONFIG } from "@checkstack/healthcheck-common";
+import { AnomalyDetectionEditor } from "./AnomalyDetectionEditor";
 
 type SelectedPanel = { configId: string; panel: "thresholds" | "retention" };
 
@@ -309,6 +310,8 @@ export const SystemHealthCheckAssignment: React.FC<Props> = ({
                   healthy: { minSuccessCount: 1 },
                   degraded: { minFailureCount: 2 },
                   unhealthy: { minFailureCount: 5 },
+                  quorum: thresholds.quorum,
+                  anomaly: thresholds.anomaly,
                 });
               } else {
                 handleThresholdChange(assoc.configurationId, {
@@ -316,6 +319,8 @@ export const SystemHealthCheckAssignment: React.FC<Props> = ({
                   windowSize: 10,
                   degraded: { minFailureCount: 3 },
                   unhealthy: { minFailureCount: 7 },
+                  quorum: thresholds.quorum,
+                  anomaly: thresholds.anomaly,
                 });
               }
             }}
@@ -534,6 +539,59 @@ export const SystemHealthCheckAssignment: React.FC<Props> = ({
           </div>
         )}
 
+        {/* Region Quorum */}
+        <div className="p-3 rounded-lg border bg-muted/30">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={!!thresholds.quorum}
+                onCheckedChange={(checked) =>
+                  handleThresholdChange(assoc.configurationId, {
+                    ...thresholds,
+                    quorum: checked ? { minFailingRegions: 2 } : undefined,
+                  })
+                }
+              />
+              <span className="text-sm font-medium">Region Quorum</span>
+              <Tooltip content="For checks running in multiple regions: each region is evaluated with the thresholds above, and the check only fails when this many regions fail" />
+            </div>
+            {thresholds.quorum && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">≥</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={thresholds.quorum.minFailingRegions}
+                  onChange={(e) =>
+                    handleThresholdChange(assoc.configurationId, {
+                      ...thresholds,
+                      quorum: {
+                        minFailingRegions:
+                          Number.parseInt(e.target.value) || 1,
+                      },
+                    })
+                  }
+                  className="h-8 w-16 text-center"
+                />
+                <span className="text-xs text-muted-foreground">regions</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Anomaly Detection */}
+        <AnomalyDetectionEditor
+          systemId={systemId}
+          configurationId={assoc.configurationId}
+          value={thresholds.anomaly}
+          onChange={(anomaly) =>
+            handleThresholdChange(assoc.configurationId, {
+              ...thresholds,
+              anomaly,
+            })
+          }
+        />
+
         {/* Action Buttons */}
         <div className="flex justify-end gap-2 pt-2 border-t">
           <Button
@@ -0,0 +1,102 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import {
+  usePluginClient,
+  useApi,
+  accessApiRef,
+  type SlotContext,
+} from "@checkstack/frontend-api";
+import { SystemDetailsSlot } from "@checkstack/catalog-common";
+import { resolveRoute } from "@checkstack/common";
+import {
+  healthCheckAccess,
+  healthcheckRoutes,
+} from "@checkstack/healthcheck-common";
+import {
+  Badge,
+  Card,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  CardContent,
+} from "@checkstack/ui";
+import { FileText, Target } from "lucide-react";
+import { HealthCheckApi } from "../api";
+import { ErrorBudgetBar } from "./ErrorBudgetBar";
+import { formatAttainment, formatSloObjective } from "../utils/slo-format";
+
+type Props = SlotContext<typeof SystemDetailsSlot>;
+
+/**
+ * Error budgets of the SLOs covering a system, shown on its detail page.
+ */
+export const SystemSloPanel: React.FC<Props> = ({ system }) => {
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const accessApi = useApi(accessApiRef);
+
+  const { allowed: canRead } = accessApi.useAccess(healthCheckAccess.slo.read);
+
+  const { data: slos = [] } = healthCheckClient.getSlos.useQuery(
+    { systemId: system.id },
+    { enabled: canRead, staleTime: 60_000 },
+  );
+
+  if (!canRead || slos.length === 0) return;
+
+  return (
+    <Card>
+      <CardHeader className="border-b border-border">
+        <CardHeaderRow>
+          <div className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Service Level Objectives</CardTitle>
+          </div>
+          <Link
+            to={resolveRoute(healthcheckRoutes.routes.slaReport, {
+              systemId: system.id,
+            })}
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <FileText className="h-4 w-4" />
+            SLA Report
+          </Link>
+        </CardHeaderRow>
+      </CardHeader>
+      <CardContent className="p-0 divide-y divide-border">
+        {slos.map(({ slo, status }) => (
+          <div
+            key={slo.id}
+            className="flex flex-wrap items-center justify-between gap-4 p-4"
+          >
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{slo.name}</span>
+                {slo.scopeType === "group" && (
+                  <Badge variant="outline">Group</Badge>
+                )}
+                {slo.alertSeverity && (
+                  <Badge
+                    variant={
+                      slo.alertSeverity === "page" ? "destructive" : "warning"
+                    }
+                  >
+                    Burning
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {formatSloObjective(slo, slo.windowDays)}
+              </p>
+            </div>
+            <div className="flex items-center gap-6">
+              <span className="text-sm tabular-nums">
+                {formatAttainment(status.attainment)}
+              </span>
+              <ErrorBudgetBar remaining={status.errorBudgetRemaining} />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -6,15 +6,21 @@ import {
 import { HealthCheckConfigPage } from "./pages/HealthCheckConfigPage";
 import { HealthCheckHistoryPage } from "./pages/HealthCheckHistoryPage";
 import { HealthCheckHistoryDetailPage } from "./pages/HealthCheckHistoryDetailPage";
+import { AlertActionPage } from "./pages/AlertActionPage";
+import { SloPage } from "./pages/SloPage";
+import { SlaReportPage } from "./pages/SlaReportPage";
 import { HealthCheckMenuItems } from "./components/HealthCheckMenuItems";
 import { HealthCheckSystemOverview } from "./components/HealthCheckSystemOverview";
 import { SystemHealthCheckAssignment } from "./components/SystemHealthCheckAssignment";
 import { SystemHealthBadge } from "./components/SystemHealthBadge";
+import { SystemAlertPanel } from "./components/SystemAlertPanel";
+import { SystemSloPanel } from "./components/SystemSloPanel";
 import { healthCheckAccess } from "@checkstack/healthcheck-common";
 import { autoChartExtension } from "./auto-charts";
 
 import {
   SystemDetailsSlot,
+  SystemDetailsTopSlot,
   CatalogSystemActionsSlot,
   SystemStateBadgesSlot,
 } from "@checkstack/catalog-common";
@@ -61,6 +67,24 @@ export default createFrontendPlugin({
       title: "Health Check Run",
       accessRule: healthCheckAccess.details,
     },
+    {
+      route: healthcheckRoutes.routes.alert,
+      element: <AlertActionPage />,
+      title: "Health Alert",
+      accessRule: healthCheckAccess.alert,
+    },
+    {
+      route: healthcheckRoutes.routes.slos,
+      element: <SloPage />,
+      title: "Service Level Objectives",
+      accessRule: healthCheckAccess.slo.read,
+    },
+    {
+      route: healthcheckRoutes.routes.slaReport,
+      element: <SlaReportPage />,
+      title: "SLA Report",
+      accessRule: healthCheckAccess.slo.read,
+    },
   ],
   // No APIs needed - components use usePluginClient() directly
   apis: [],
@@ -73,10 +97,18 @@ export default createFrontendPlugin({
       id: "healthcheck.system-health-badge",
       component: SystemHealthBadge,
     }),
+    createSlotExtension(SystemDetailsTopSlot, {
+      id: "healthcheck.system-details-top.alert",
+      component: SystemAlertPanel,
+    }),
     createSlotExtension(SystemDetailsSlot, {
       id: "healthcheck.system-details.overview",
       component: HealthCheckSystemOverview,
     }),
+    createSlotExtension(SystemDetailsSlot, {
+      id: "healthcheck.system-details.slos",
+      component: SystemSloPanel,
+    }),
     createSlotExtension(CatalogSystemActionsSlot, {
       id: "healthcheck.catalog.system-actions",
       component: SystemHealthCheckAssignment,
@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { usePluginClient, wrapInSuspense } from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import { CatalogApi, catalogRoutes } from "@checkstack/catalog-common";
+import {
+  PageLayout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  LoadingSpinner,
+  EmptyState,
+  BackLink,
+  HealthBadge,
+  useToast,
+} from "@checkstack/ui";
+import { BellOff, BellRing, UserCheck } from "lucide-react";
+import { format } from "date-fns";
+import { HealthCheckApi } from "../api";
+import { DEFAULT_SNOOZE_MINUTES, SNOOZE_OPTIONS } from "../utils/alert-snooze";
+
+/**
+ * Landing page for the "Acknowledge" and "Snooze" links in alert notifications.
+ * The action is only executed after confirmation, so link previews of chat
+ * and mail clients don't acknowledge alerts on their own.
+ */
+const AlertActionPageContent: React.FC = () => {
+  const { systemId = "" } = useParams<{ systemId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const catalogClient = usePluginClient(CatalogApi);
+  const toast = useToast();
+
+  const requestedMinutes = Number(searchParams.get("minutes"));
+  const [snoozeMinutes, setSnoozeMinutes] = useState(
+    SNOOZE_OPTIONS.some((o) => o.minutes === requestedMinutes)
+      ? requestedMinutes
+      : DEFAULT_SNOOZE_MINUTES,
+  );
+  const isSnooze = searchParams.get("action") === "snooze";
+
+  const { data: system, isLoading: systemLoading } =
+    catalogClient.getSystem.useQuery({ systemId }, { enabled: !!systemId });
+
+  const { data: health } = healthCheckClient.getSystemHealthStatus.useQuery(
+    { systemId },
+    { enabled: !!systemId },
+  );
+
+  const { data: alertState, refetch } =
+    healthCheckClient.getAlertState.useQuery(
+      { systemId },
+      { enabled: !!systemId },
+    );
+
+  const goToSystem = () =>
+    navigate(resolveRoute(catalogRoutes.routes.systemDetail, { systemId }));
+
+  const onMutationError = (error: unknown) => {
+    toast.error(
+      error instanceof Error ? error.message : "Failed to update alert",
+    );
+  };
+
+  const acknowledgeMutation = healthCheckClient.acknowledgeAlert.useMutation({
+    onSuccess: () => {
+      toast.success("Alert acknowledged");
+      goToSystem();
+    },
+    onError: (error) => {
+      onMutationError(error);
+      void refetch();
+    },
+  });
+
+  const snoozeMutation = healthCheckClient.snoozeAlert.useMutation({
+    onSuccess: () => {
+      toast.success("Alerts snoozed");
+      goToSystem();
+    },
+    onError: onMutationError,
+  });
+
+  if (systemLoading) {
+    return (
+      <div className="p-12 flex justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!system) {
+    return (
+      <EmptyState
+        title="System not found"
+        description="The system of this alert could not be found."
+      />
+    );
+  }
+
+  const isHealthy = health?.status === "healthy";
+
+  return (
+    <PageLayout
+      title={isSnooze ? "Snooze Alerts" : "Acknowledge Alert"}
+      subtitle={system.name}
+      icon={isSnooze ? BellOff : UserCheck}
+      loading={false}
+      allowed={true}
+      actions={<BackLink onClick={goToSystem}>Back to System</BackLink>}
+    >
+      <Card>
+        <CardHeader className="border-b border-border">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <BellRing className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>{system.name}</CardTitle>
+            </div>
+            {health && <HealthBadge status={health.status} />}
+          </div>
+        </CardHeader>
+        <CardContent className="p-6 space-y-4">
+          {alertState?.acknowledgedAt && (
+            <p className="text-sm text-muted-foreground">
+              Already acknowledged by{" "}
+              {alertState.acknowledgedByName ?? alertState.acknowledgedBy} on{" "}
+              {format(new Date(alertState.acknowledgedAt), "MMM d, HH:mm")}.
+            </p>
+          )}
+          {alertState?.snoozedUntil && (
+            <p className="text-sm text-muted-foreground">
+              Alerts are snoozed until{" "}
+              {format(new Date(alertState.snoozedUntil), "MMM d, HH:mm")}.
+            </p>
+          )}
+
+          {isSnooze ? (
+            <>
+              <p className="text-sm">
+                No alerts will be sent for this system while it is snoozed.
+              </p>
+              <div className="grid gap-2 max-w-xs">
+                <Label>Snooze for</Label>
+                <Select
+                  value={String(snoozeMinutes)}
+                  onValueChange={(v) => setSnoozeMinutes(Number(v))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SNOOZE_OPTIONS.map((option) => (
+                      <SelectItem
+                        key={option.minutes}
+                        value={String(option.minutes)}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() =>
+                  snoozeMutation.mutate({ systemId, minutes: snoozeMinutes })
+                }
+                disabled={snoozeMutation.isPending}
+              >
+                <BellOff className="h-4 w-4 mr-2" />
+                Snooze Alerts
+              </Button>
+            </>
+          ) : isHealthy ? (
+            <p className="text-sm">
+              The system has recovered, there is nothing to acknowledge.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm">
+                Acknowledging takes ownership of this alert. No further alerts
+                are sent for this system until it recovers.
+              </p>
+              <Button
+                onClick={() => acknowledgeMutation.mutate({ systemId })}
+                disabled={acknowledgeMutation.isPending}
+              >
+                <UserCheck className="h-4 w-4 mr-2" />
+                Acknowledge Alert
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </PageLayout>
+  );
+};
+
+export const AlertActionPage = wrapInSuspense(AlertActionPageContent);
@@ -15,6 +15,7 @@ import {
 } from "@checkstack/healthcheck-common";
 import { HealthCheckList } from "../components/HealthCheckList";
 import { HealthCheckEditor } from "../components/HealthCheckEditor";
+import { ProbeAgentRegionsCard } from "../components/ProbeAgentRegionsCard";
 import {
   Button,
   ConfirmationModal,
@@ -183,6 +184,8 @@ const HealthCheckConfigPageContent = () => {
         canManage={canManage}
       />
 
+      {canManage && <ProbeAgentRegionsCard />}
+
       <HealthCheckEditor
         open={isEditorOpen}
         strategies={strategies}
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import { useParams } from "react-router-dom";
+import {
+  usePluginClient,
+  accessApiRef,
+  useApi,
+  wrapInSuspense,
+} from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import {
+  HealthCheckApi,
+  healthCheckAccess,
+  healthcheckRoutes,
+} from "@checkstack/healthcheck-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import {
+  Badge,
+  Card,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  CardContent,
+  Button,
+  Input,
+  LoadingSpinner,
+  EmptyState,
+  PageLayout,
+  BackLink,
+  cn,
+} from "@checkstack/ui";
+import { Download, FileText } from "lucide-react";
+import { format, subMonths } from "date-fns";
+import { buildSlaReportCsv } from "../utils/sla-report-csv";
+import { formatAttainment, formatSloObjective } from "../utils/slo-format";
+
+const SlaReportPageContent: React.FC = () => {
+  const { systemId = "" } = useParams<{ systemId: string }>();
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const catalogClient = usePluginClient(CatalogApi);
+  const accessApi = useApi(accessApiRef);
+
+  const { allowed: canRead, loading: accessLoading } = accessApi.useAccess(
+    healthCheckAccess.slo.read,
+  );
+
+  // Default to the last complete month
+  const [month, setMonth] = useState(
+    format(subMonths(new Date(), 1), "yyyy-MM"),
+  );
+
+  const { data: system } = catalogClient.getSystem.useQuery({ systemId });
+  const { data: report, isLoading } = healthCheckClient.getSlaReport.useQuery(
+    { systemId, month },
+    { enabled: canRead && !!systemId && /^\d{4}-\d{2}$/.test(month) },
+  );
+
+  const systemName = system?.name ?? systemId;
+
+  const handleExport = () => {
+    if (!report) return;
+    const url = URL.createObjectURL(
+      new Blob([buildSlaReportCsv(report, systemName)], { type: "text/csv" }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `sla-${systemName}-${month}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <PageLayout
+      title={`SLA Report: ${systemName}`}
+      subtitle="Monthly attainment of all SLOs covering this system (UTC)"
+      icon={FileText}
+      loading={accessLoading}
+      allowed={canRead}
+      actions={
+        <div className="flex items-center gap-2">
+          <BackLink to={resolveRoute(healthcheckRoutes.routes.slos)}>
+            Back to SLOs
+          </BackLink>
+          <Input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="w-40"
+          />
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={!report || report.entries.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      }
+    >
+      {isLoading ? (
+        <div className="p-12 flex justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : !report || report.entries.length === 0 ? (
+        <EmptyState
+          title="No SLOs"
+          description="No SLO covers this system, neither directly nor through a group."
+        />
+      ) : (
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            {Math.round(report.maintenanceMinutes)} minutes of planned
+            maintenance in {format(new Date(report.periodStart), "MMMM yyyy")}.
+          </p>
+          {report.entries.map((entry) => (
+            <Card key={entry.sloId}>
+              <CardHeader className="border-b border-border">
+                <CardHeaderRow>
+                  <div>
+                    <CardTitle>{entry.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {formatSloObjective(entry)}
+                      {entry.includeMaintenance
+                        ? ", including maintenance"
+                        : ", excluding maintenance"}
+                    </p>
+                  </div>
+                  {entry.met === undefined ? (
+                    <Badge variant="secondary">No data</Badge>
+                  ) : entry.met ? (
+                    <Badge variant="success">Met</Badge>
+                  ) : (
+                    <Badge variant="destructive">Missed</Badge>
+                  )}
+                </CardHeaderRow>
+              </CardHeader>
+              <CardContent className="p-6 space-y-4">
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <h4 className="font-medium text-muted-foreground mb-1">
+                      Attainment
+                    </h4>
+                    <span className="text-lg tabular-nums">
+                      {formatAttainment(entry.attainment)}
+                    </span>
+                  </div>
+                  <div>
+                    <h4 className="font-medium text-muted-foreground mb-1">
+                      Runs
+                    </h4>
+                    <span className="text-lg tabular-nums">
+                      {entry.totalEvents}
+                    </span>
+                  </div>
+                  <div>
+                    <h4 className="font-medium text-muted-foreground mb-1">
+                      Failed Runs
+                    </h4>
+                    <span className="text-lg tabular-nums">
+                      {Math.round(entry.badEvents)}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex gap-1">
+                  {entry.daily.map((day) => (
+                    <div
+                      key={new Date(day.date).toISOString()}
+                      title={`${format(new Date(day.date), "MMM d")}: ${formatAttainment(day.attainment)}`}
+                      className={cn(
+                        "h-8 flex-1 rounded-sm",
+                        day.attainment === undefined
+                          ? "bg-muted"
+                          : day.attainment >= entry.target
+                            ? "bg-success"
+                            : "bg-destructive",
+                      )}
+                    />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export const SlaReportPage = wrapInSuspense(SlaReportPageContent);
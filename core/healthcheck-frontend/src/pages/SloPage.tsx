@@ -0,0 +1,260 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  usePluginClient,
+  accessApiRef,
+  useApi,
+  wrapInSuspense,
+} from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import {
+  HealthCheckApi,
+  healthCheckAccess,
+  healthcheckRoutes,
+  type Slo,
+} from "@checkstack/healthcheck-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import {
+  Badge,
+  Card,
+  CardContent,
+  Button,
+  LoadingSpinner,
+  EmptyState,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  useToast,
+  ConfirmationModal,
+  PageLayout,
+} from "@checkstack/ui";
+import { Edit2, FileText, Plus, Target, Trash2 } from "lucide-react";
+import { SloEditor } from "../components/SloEditor";
+import { ErrorBudgetBar } from "../components/ErrorBudgetBar";
+import {
+  formatAttainment,
+  formatSloObjective,
+  getMaxBurnRate,
+} from "../utils/slo-format";
+
+const SloPageContent: React.FC = () => {
+  const healthCheckClient = usePluginClient(HealthCheckApi);
+  const catalogClient = usePluginClient(CatalogApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const { allowed: canRead, loading: accessLoading } = accessApi.useAccess(
+    healthCheckAccess.slo.read,
+  );
+  const { allowed: canManage } = accessApi.useAccess(
+    healthCheckAccess.slo.manage,
+  );
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSlo, setEditingSlo] = useState<Slo | undefined>();
+  const [deleteId, setDeleteId] = useState<string | undefined>();
+
+  const {
+    data: slos = [],
+    isLoading,
+    refetch,
+  } = healthCheckClient.getSlos.useQuery(undefined, { enabled: canRead });
+
+  const { data: systemsData } = catalogClient.getSystems.useQuery({});
+  const { data: groups = [] } = catalogClient.getGroups.useQuery({});
+  const systems = systemsData?.systems ?? [];
+
+  const deleteMutation = healthCheckClient.deleteSlo.useMutation({
+    onSuccess: () => {
+      toast.success("SLO deleted");
+      void refetch();
+      setDeleteId(undefined);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+      setDeleteId(undefined);
+    },
+  });
+
+  const getScopeName = (slo: Slo): string =>
+    slo.scopeType === "system"
+      ? (systems.find((s) => s.id === slo.scopeId)?.name ?? slo.scopeId)
+      : `Group: ${groups.find((g) => g.id === slo.scopeId)?.name ?? slo.scopeId}`;
+
+  const handleSave = () => {
+    setEditorOpen(false);
+    void refetch();
+  };
+
+  return (
+    <PageLayout
+      title="Service Level Objectives"
+      subtitle="Objectives, error budgets and burn-rate alerts"
+      icon={Target}
+      loading={accessLoading}
+      allowed={canRead}
+      actions={
+        canManage ? (
+          <Button
+            onClick={() => {
+              setEditingSlo(undefined);
+              setEditorOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create SLO
+          </Button>
+        ) : undefined
+      }
+    >
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-12 flex justify-center">
+              <LoadingSpinner />
+            </div>
+          ) : slos.length === 0 ? (
+            <EmptyState
+              title="No SLOs"
+              description="Create an SLO to track error budgets of a system or group."
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Objective</TableHead>
+                  <TableHead>Attainment</TableHead>
+                  <TableHead>Error Budget</TableHead>
+                  <TableHead>Burn Rate</TableHead>
+                  <TableHead className="w-36">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {slos.map(({ slo, status }) => {
+                  const burnRate = getMaxBurnRate(status);
+                  return (
+                    <TableRow key={slo.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{slo.name}</span>
+                          {slo.alertSeverity && (
+                            <Badge
+                              variant={
+                                slo.alertSeverity === "page"
+                                  ? "destructive"
+                                  : "warning"
+                              }
+                            >
+                              {slo.alertSeverity === "page"
+                                ? "Burning fast"
+                                : "Burning"}
+                            </Badge>
+                          )}
+                        </div>
+                        {slo.description && (
+                          <p className="text-sm text-muted-foreground truncate max-w-xs">
+                            {slo.description}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {getScopeName(slo)}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatSloObjective(slo, slo.windowDays)}
+                        {slo.includeMaintenance && (
+                          <p className="text-xs">Including maintenance</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="tabular-nums">
+                        {formatAttainment(status.attainment)}
+                      </TableCell>
+                      <TableCell>
+                        <ErrorBudgetBar
+                          remaining={status.errorBudgetRemaining}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm tabular-nums text-muted-foreground">
+                        {burnRate === undefined
+                          ? "—"
+                          : `${burnRate.toFixed(1)}×`}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {slo.scopeType === "system" && (
+                            <Link
+                              to={resolveRoute(
+                                healthcheckRoutes.routes.slaReport,
+                                { systemId: slo.scopeId },
+                              )}
+                            >
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="SLA report"
+                              >
+                                <FileText className="h-4 w-4" />
+                              </Button>
+                            </Link>
+                          )}
+                          {canManage && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setEditingSlo(slo);
+                                  setEditorOpen(true);
+                                }}
+                              >
+                                <Edit2 className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setDeleteId(slo.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <SloEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        slo={editingSlo}
+        systems={systems}
+        groups={groups}
+        onSave={handleSave}
+      />
+
+      <ConfirmationModal
+        isOpen={!!deleteId}
+        onClose={() => setDeleteId(undefined)}
+        title="Delete SLO"
+        message="Are you sure you want to delete this SLO?"
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={() => deleteId && deleteMutation.mutate({ id: deleteId })}
+        isLoading={deleteMutation.isPending}
+      />
+    </PageLayout>
+  );
+};
+
+export const SloPage = wrapInSuspense(SloPageContent);
@@ -0,0 +1,11 @@
+/**
+ * Durations offered when snoozing health alerts.
+ */
+export const SNOOZE_OPTIONS = [
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 4 * 60, label: "4 hours" },
+  { minutes: 24 * 60, label: "24 hours" },
+] as const;
+
+export const DEFAULT_SNOOZE_MINUTES = 60;
@@ -0,0 +1,54 @@
+import type { AnomalyBaseline } from "@checkstack/healthcheck-common";
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOURS_PER_WEEK = 168;
+
+export interface ExpectedBand {
+  expected: number;
+  lower: number;
+  upper: number;
+}
+
+/** Monday 00:00-00:59 UTC = 0, same as the backend */
+function getHourOfWeek(date: Date): number {
+  const dayOfWeek = (date.getUTCDay() + 6) % 7;
+  return dayOfWeek * 24 + date.getUTCHours();
+}
+
+/**
+ * Expected band for a chart bucket, averaged over the hours of the week the
+ * bucket covers. Undefined when none of these hours has a baseline yet.
+ */
+export function getBucketBand(
+  baseline: AnomalyBaseline,
+  bucketStart: Date,
+  bucketEnd: Date,
+): ExpectedBand | undefined {
+  const slots = new Map(baseline.slots.map((slot) => [slot.hourOfWeek, slot]));
+
+  let expected = 0;
+  let lower = 0;
+  let upper = 0;
+  let count = 0;
+
+  // A week covers every hour once, longer buckets would only repeat them
+  const end = Math.min(
+    bucketEnd.getTime(),
+    bucketStart.getTime() + HOURS_PER_WEEK * HOUR_MS,
+  );
+  for (let time = bucketStart.getTime(); time < end; time += HOUR_MS) {
+    const slot = slots.get(getHourOfWeek(new Date(time)));
+    if (!slot) continue;
+    expected += slot.expected;
+    lower += slot.lower;
+    upper += slot.upper;
+    count++;
+  }
+
+  if (count === 0) return undefined;
+  return {
+    expected: expected / count,
+    lower: lower / count,
+    upper: upper / count,
+  };
+}
@@ -0,0 +1,61 @@
+import type { SlaReport } from "@checkstack/healthcheck-common";
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+function formatNumber(value: number | undefined): string {
+  return value === undefined ? "" : String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * CSV with one row per SLO and day, followed by a total row per SLO.
+ */
+export function buildSlaReportCsv(
+  report: SlaReport,
+  systemName: string,
+): string {
+  const rows: string[][] = [
+    [
+      "system",
+      "slo",
+      "objective",
+      "target",
+      "date",
+      "attainment",
+      "met",
+      "runs",
+    ],
+  ];
+
+  for (const entry of report.entries) {
+    const base = [
+      systemName,
+      entry.name,
+      entry.type === "latency"
+        ? `latency < ${entry.latencyThresholdMs}ms`
+        : "availability",
+      String(entry.target),
+    ];
+    for (const day of entry.daily) {
+      rows.push([
+        ...base,
+        day.date.toISOString().slice(0, 10),
+        formatNumber(day.attainment),
+        day.attainment === undefined
+          ? ""
+          : String(day.attainment >= entry.target),
+        String(day.totalEvents),
+      ]);
+    }
+    rows.push([
+      ...base,
+      report.month,
+      formatNumber(entry.attainment),
+      entry.met === undefined ? "" : String(entry.met),
+      String(entry.totalEvents),
+    ]);
+  }
+
+  return rows.map((row) => row.map((v) => escapeCsv(v)).join(",")).join("\n");
+}
@@ -0,0 +1,28 @@
+import type { Slo, SloStatus } from "@checkstack/healthcheck-common";
+
+/**
+ * Human-readable objective, e.g. "99.9% healthy over 30 days".
+ */
+export function formatSloObjective(
+  slo: Pick<Slo, "type" | "target" | "latencyThresholdMs">,
+  windowDays?: number,
+): string {
+  const objective =
+    slo.type === "latency"
+      ? `${slo.target}% faster than ${slo.latencyThresholdMs}ms`
+      : `${slo.target}% healthy`;
+  return windowDays ? `${objective} over ${windowDays} days` : objective;
+}
+
+/** Attainment with enough decimals to compare against targets like 99.95 */
+export function formatAttainment(attainment: number | undefined): string {
+  return attainment === undefined ? "—" : `${attainment.toFixed(3)}%`;
+}
+
+/** Highest burn rate of the long windows, for display */
+export function getMaxBurnRate(status: SloStatus): number | undefined {
+  const rates = status.burnRates
+    .map((rate) => rate.longBurnRate)
+    .filter((rate): rate is number => rate !== undefined);
+  return rates.length > 0 ? Math.max(...rates) : undefined;
+}
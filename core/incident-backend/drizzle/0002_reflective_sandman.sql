@@ -0,0 +1,27 @@
+CREATE TYPE "root_cause_category" AS ENUM('deployment', 'configuration', 'code', 'infrastructure', 'third_party', 'capacity', 'human_error', 'security', 'other');--> statement-breakpoint
+CREATE TABLE "incident_postmortems" (
+	"incident_id" text PRIMARY KEY NOT NULL,
+	"summary" text NOT NULL,
+	"root_cause_category" "root_cause_category" NOT NULL,
+	"impact_started_at" timestamp NOT NULL,
+	"impact_ended_at" timestamp NOT NULL,
+	"detected_at" timestamp,
+	"mitigated_at" timestamp,
+	"health_transitions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" text
+);
+--> statement-breakpoint
+CREATE TABLE "postmortem_action_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"incident_id" text NOT NULL,
+	"title" text NOT NULL,
+	"owner_id" text,
+	"due_date" timestamp,
+	"completed" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "incident_postmortems" ADD CONSTRAINT "incident_postmortems_incident_id_incidents_id_fk" FOREIGN KEY ("incident_id") REFERENCES "incidents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "postmortem_action_items" ADD CONSTRAINT "postmortem_action_items_incident_id_incident_postmortems_incident_id_fk" FOREIGN KEY ("incident_id") REFERENCES "incident_postmortems"("incident_id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
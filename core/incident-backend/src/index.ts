@@ -11,9 +11,11 @@ import {
 import { createBackendPlugin, coreServices } from "@checkstack/backend-api";
 import { integrationEventExtensionPoint } from "@checkstack/integration-backend";
 import { IncidentService } from "./service";
+import { PostmortemService } from "./postmortem-service";
 import { createRouter } from "./router";
 import { CatalogApi } from "@checkstack/catalog-common";
 import { AuthApi } from "@checkstack/auth-common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
 import { catalogHooks } from "@checkstack/catalog-backend";
 import { registerSearchProvider } from "@checkstack/command-backend";
 import { resolveRoute } from "@checkstack/common";
@@ -112,15 +114,18 @@ export default createBackendPlugin({
 
         const catalogClient = rpcClient.forPlugin(CatalogApi);
         const authClient = rpcClient.forPlugin(AuthApi);
+        const healthCheckClient = rpcClient.forPlugin(HealthCheckApi);
 
-        const service = new IncidentService(
-          database as SafeDatabase<typeof schema>,
-        );
+        const typedDb = database as SafeDatabase<typeof schema>;
+        const service = new IncidentService(typedDb);
+        const postmortemService = new PostmortemService(typedDb);
         const router = createRouter(
           service,
+          postmortemService,
           signalService,
           catalogClient,
           authClient,
+          healthCheckClient,
           logger,
         );
         rpc.registerRouter(router, incidentContract);
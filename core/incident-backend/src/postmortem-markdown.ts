@@ -0,0 +1,90 @@
+import {
+  ROOT_CAUSE_CATEGORY_LABELS,
+  formatPostmortemDuration,
+  type IncidentWithSystems,
+  type PostmortemDetail,
+} from "@checkstack/incident-common";
+
+const formatTimestamp = (date: Date) =>
+  `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * File name of an exported postmortem, e.g.
+ * "postmortem-2026-01-01-database-outage.md".
+ */
+export function getPostmortemFilename(props: {
+  incident: Pick<IncidentWithSystems, "title">;
+  postmortem: Pick<PostmortemDetail, "impactStartedAt">;
+}): string {
+  const slug = props.incident.title
+    .toLowerCase()
+    .replaceAll(/[^a-z0-9]+/g, "-")
+    .replaceAll(/^-|-$/g, "")
+    .slice(0, 60);
+  return `postmortem-${formatDate(props.postmortem.impactStartedAt)}${slug ? `-${slug}` : ""}.md`;
+}
+
+/**
+ * Render a postmortem as a standalone markdown document.
+ */
+export function renderPostmortemMarkdown(props: {
+  incident: IncidentWithSystems;
+  postmortem: PostmortemDetail;
+  systemNames: Map<string, string>;
+}): string {
+  const { incident, postmortem, systemNames } = props;
+  const { metrics } = postmortem;
+
+  const affectedSystems = incident.systemIds
+    .map((id) => systemNames.get(id) ?? id)
+    .join(", ");
+
+  const lines = [
+    `# Postmortem: ${incident.title}`,
+    "",
+    "| | |",
+    "| --- | --- |",
+    `| Severity | ${incident.severity} |`,
+    `| Root cause | ${ROOT_CAUSE_CATEGORY_LABELS[postmortem.rootCauseCategory]} |`,
+    `| Affected systems | ${affectedSystems || "-"} |`,
+    `| Impact | ${formatTimestamp(postmortem.impactStartedAt)} – ${formatTimestamp(postmortem.impactEndedAt)} (${formatPostmortemDuration(metrics.impactDurationMs)}) |`,
+    `| Time to detect | ${metrics.timeToDetectMs === undefined ? "-" : formatPostmortemDuration(metrics.timeToDetectMs)} |`,
+    `| Time to mitigate | ${metrics.timeToMitigateMs === undefined ? "-" : formatPostmortemDuration(metrics.timeToMitigateMs)} |`,
+    "",
+    "## Summary",
+    "",
+    postmortem.summary.trim(),
+    "",
+    "## Action Items",
+    "",
+  ];
+
+  if (postmortem.actionItems.length === 0) {
+    lines.push("_No action items._");
+  }
+  for (const item of postmortem.actionItems) {
+    const details = [
+      item.ownerName || item.ownerId
+        ? `Owner: ${item.ownerName ?? item.ownerId}`
+        : undefined,
+      item.dueDate ? `Due: ${formatDate(item.dueDate)}` : undefined,
+    ].filter(Boolean);
+    lines.push(
+      `- [${item.completed ? "x" : " "}] ${item.title}${details.length > 0 ? ` (${details.join(", ")})` : ""}`,
+    );
+  }
+
+  lines.push("", "## Timeline", "");
+  for (const entry of postmortem.timeline) {
+    const description = entry.description
+      ? ` — ${entry.description.replaceAll("\n", " ")}`
+      : "";
+    lines.push(
+      `- **${formatTimestamp(entry.timestamp)}** ${entry.title}${description}`,
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,181 @@
+import { eq, asc } from "drizzle-orm";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import * as schema from "./schema";
+import {
+  incidentPostmortems,
+  postmortemActionItems,
+  type StoredHealthTransition,
+} from "./schema";
+import type {
+  Postmortem,
+  PostmortemActionItem,
+  SavePostmortemInput,
+  CreateActionItemInput,
+  UpdateActionItemInput,
+} from "@checkstack/incident-common";
+
+type Db = SafeDatabase<typeof schema>;
+
+/**
+ * Postmortem as stored, including the captured health check transitions.
+ */
+export interface StoredPostmortem {
+  postmortem: Postmortem;
+  actionItems: PostmortemActionItem[];
+  healthTransitions: StoredHealthTransition[];
+}
+
+function mapActionItem(
+  row: typeof postmortemActionItems.$inferSelect,
+): PostmortemActionItem {
+  return {
+    ...row,
+    ownerId: row.ownerId ?? undefined,
+    dueDate: row.dueDate ?? undefined,
+  };
+}
+
+export class PostmortemService {
+  constructor(private db: Db) {}
+
+  /**
+   * Get the postmortem of an incident with its action items
+   */
+  async getPostmortem(
+    incidentId: string,
+  ): Promise<StoredPostmortem | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(incidentPostmortems)
+      .where(eq(incidentPostmortems.incidentId, incidentId));
+
+    if (!row) return undefined;
+
+    const actionItems = await this.db
+      .select()
+      .from(postmortemActionItems)
+      .where(eq(postmortemActionItems.incidentId, incidentId))
+      .orderBy(asc(postmortemActionItems.createdAt));
+
+    const { healthTransitions, ...postmortem } = row;
+    return {
+      postmortem: {
+        ...postmortem,
+        detectedAt: postmortem.detectedAt ?? undefined,
+        mitigatedAt: postmortem.mitigatedAt ?? undefined,
+        updatedBy: postmortem.updatedBy ?? undefined,
+      },
+      actionItems: actionItems.map((item) => mapActionItem(item)),
+      healthTransitions,
+    };
+  }
+
+  /**
+   * Create or update the postmortem of an incident.
+   * Health transitions are only replaced if provided.
+   */
+  async savePostmortem(
+    input: SavePostmortemInput,
+    options: { userId?: string; healthTransitions?: StoredHealthTransition[] },
+  ): Promise<void> {
+    const values = {
+      summary: input.summary,
+      rootCauseCategory: input.rootCauseCategory,
+      impactStartedAt: input.impactStartedAt,
+      impactEndedAt: input.impactEndedAt,
+      // Explicit nulls clear timestamps that were removed in the editor
+      // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+      detectedAt: input.detectedAt ?? null,
+      // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+      mitigatedAt: input.mitigatedAt ?? null,
+      updatedBy: options.userId,
+      updatedAt: new Date(),
+      ...(options.healthTransitions
+        ? { healthTransitions: options.healthTransitions }
+        : {}),
+    };
+
+    await this.db
+      .insert(incidentPostmortems)
+      .values({ incidentId: input.incidentId, ...values })
+      .onConflictDoUpdate({
+        target: incidentPostmortems.incidentId,
+        set: values,
+      });
+  }
+
+  /**
+   * Delete the postmortem of an incident.
+   * Cascade delete removes its action items.
+   */
+  async deletePostmortem(incidentId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(incidentPostmortems)
+      .where(eq(incidentPostmortems.incidentId, incidentId))
+      .returning({ incidentId: incidentPostmortems.incidentId });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Add an action item to an existing postmortem
+   */
+  async addActionItem(
+    input: CreateActionItemInput,
+  ): Promise<PostmortemActionItem> {
+    const [row] = await this.db
+      .insert(postmortemActionItems)
+      .values({
+        id: crypto.randomUUID(),
+        incidentId: input.incidentId,
+        title: input.title,
+        ownerId: input.ownerId,
+        dueDate: input.dueDate,
+      })
+      .returning();
+
+    return mapActionItem(row);
+  }
+
+  /**
+   * Update an action item
+   */
+  async updateActionItem(
+    input: UpdateActionItemInput,
+  ): Promise<PostmortemActionItem | undefined> {
+    const updateData: Partial<typeof postmortemActionItems.$inferInsert> = {};
+    if (input.title !== undefined) updateData.title = input.title;
+    if (input.ownerId !== undefined) updateData.ownerId = input.ownerId;
+    if (input.dueDate !== undefined) updateData.dueDate = input.dueDate;
+    if (input.completed !== undefined) updateData.completed = input.completed;
+
+    if (Object.keys(updateData).length === 0) {
+      const [existing] = await this.db
+        .select()
+        .from(postmortemActionItems)
+        .where(eq(postmortemActionItems.id, input.id));
+      return existing ? mapActionItem(existing) : undefined;
+    }
+
+    const [row] = await this.db
+      .update(postmortemActionItems)
+      .set(updateData)
+      .where(eq(postmortemActionItems.id, input.id))
+      .returning();
+
+    return row ? mapActionItem(row) : undefined;
+  }
+
+  /**
+   * Delete an action item.
+   * Returns the incident ID of the deleted item, if it existed.
+   */
+  async deleteActionItem(id: string): Promise<string | undefined> {
+    const [deleted] = await this.db
+      .delete(postmortemActionItems)
+      .where(eq(postmortemActionItems.id, id))
+      .returning({ incidentId: postmortemActionItems.incidentId });
+
+    return deleted?.incidentId;
+  }
+}
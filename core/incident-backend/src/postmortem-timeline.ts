@@ -0,0 +1,67 @@
+import type {
+  IncidentUpdate,
+  Postmortem,
+  PostmortemTimelineEntry,
+} from "@checkstack/incident-common";
+import type { StoredHealthTransition } from "./schema";
+
+/**
+ * Margin around the impact window in which health check transitions are
+ * captured, so that early warning signs and the recovery are included.
+ */
+export const TIMELINE_MARGIN_MS = 30 * 60 * 1000;
+
+/**
+ * Build the postmortem timeline by merging the recorded milestones, the
+ * incident updates and the health check transitions of the affected systems.
+ */
+export function buildPostmortemTimeline(props: {
+  postmortem: Pick<
+    Postmortem,
+    "impactStartedAt" | "impactEndedAt" | "detectedAt" | "mitigatedAt"
+  >;
+  updates: IncidentUpdate[];
+  healthTransitions: StoredHealthTransition[];
+  systemNames: Map<string, string>;
+}): PostmortemTimelineEntry[] {
+  const { postmortem, updates, healthTransitions, systemNames } = props;
+
+  const milestones: PostmortemTimelineEntry[] = [
+    { timestamp: postmortem.impactStartedAt, title: "Impact started" },
+    { timestamp: postmortem.detectedAt, title: "Incident detected" },
+    { timestamp: postmortem.mitigatedAt, title: "Impact mitigated" },
+    { timestamp: postmortem.impactEndedAt, title: "Impact ended" },
+  ]
+    .filter(
+      (milestone): milestone is { timestamp: Date; title: string } =>
+        milestone.timestamp !== undefined,
+    )
+    .map((milestone) => ({ ...milestone, type: "milestone" }));
+
+  const updateEntries = updates.map((update): PostmortemTimelineEntry => ({
+    timestamp: update.createdAt,
+    type: "incident_update",
+    title: update.statusChange
+      ? `Status changed to ${update.statusChange}`
+      : "Status update",
+    description: update.message,
+  }));
+
+  const transitionEntries = healthTransitions.map(
+    (transition): PostmortemTimelineEntry => {
+      const systemName =
+        systemNames.get(transition.systemId) ?? transition.systemId;
+      return {
+        timestamp: new Date(transition.timestamp),
+        type: "health_transition",
+        title: `${systemName}: ${transition.configurationName} ${transition.fromStatus ?? "unknown"} → ${transition.toStatus}`,
+        description: `Region: ${transition.region}`,
+        systemId: transition.systemId,
+      };
+    },
+  );
+
+  return [...milestones, ...updateEntries, ...transitionEntries].toSorted(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "bun:test";
+import {
+  computePostmortemMetrics,
+  type IncidentWithSystems,
+  type PostmortemDetail,
+} from "@checkstack/incident-common";
+import { buildPostmortemTimeline } from "./postmortem-timeline";
+import {
+  getPostmortemFilename,
+  renderPostmortemMarkdown,
+} from "./postmortem-markdown";
+
+const at = (hour: number, minute = 0) =>
+  new Date(Date.UTC(2026, 0, 1, hour, minute));
+
+const window = {
+  impactStartedAt: at(10),
+  impactEndedAt: at(11),
+  detectedAt: at(10, 10),
+  mitigatedAt: at(10, 40),
+};
+
+const systemNames = new Map([["sys-1", "Checkout API"]]);
+
+describe("buildPostmortemTimeline", () => {
+  it("merges milestones, updates and health transitions by time", () => {
+    const timeline = buildPostmortemTimeline({
+      postmortem: window,
+      updates: [
+        {
+          id: "u-1",
+          incidentId: "inc-1",
+          message: "Rolling back the release",
+          statusChange: "fixing",
+          createdAt: at(10, 20),
+        },
+      ],
+      healthTransitions: [
+        {
+          systemId: "sys-1",
+          configurationName: "HTTP",
+          region: "eu",
+          fromStatus: "healthy",
+          toStatus: "unhealthy",
+          timestamp: at(10, 2).toISOString(),
+        },
+      ],
+      systemNames,
+    });
+
+    expect(timeline.map((entry) => [entry.type, entry.title])).toEqual([
+      ["milestone", "Impact started"],
+      ["health_transition", "Checkout API: HTTP healthy → unhealthy"],
+      ["milestone", "Incident detected"],
+      ["incident_update", "Status changed to fixing"],
+      ["milestone", "Impact mitigated"],
+      ["milestone", "Impact ended"],
+    ]);
+    expect(timeline[1].systemId).toBe("sys-1");
+  });
+
+  it("omits milestones that were not recorded", () => {
+    const timeline = buildPostmortemTimeline({
+      postmortem: {
+        impactStartedAt: window.impactStartedAt,
+        impactEndedAt: window.impactEndedAt,
+      },
+      updates: [],
+      healthTransitions: [],
+      systemNames,
+    });
+
+    expect(timeline.map((entry) => entry.title)).toEqual([
+      "Impact started",
+      "Impact ended",
+    ]);
+  });
+});
+
+describe("renderPostmortemMarkdown", () => {
+  const incident: IncidentWithSystems = {
+    id: "inc-1",
+    title: "Checkout outage!",
+    status: "resolved",
+    severity: "critical",
+    suppressNotifications: false,
+    systemIds: ["sys-1"],
+    createdAt: at(10),
+    updatedAt: at(11),
+  };
+
+  const postmortem: PostmortemDetail = {
+    incidentId: "inc-1",
+    summary: "A bad **deployment** broke checkout.",
+    rootCauseCategory: "deployment",
+    ...window,
+    createdAt: at(12),
+    updatedAt: at(12),
+    actionItems: [
+      {
+        id: "a-1",
+        incidentId: "inc-1",
+        title: "Add canary stage",
+        ownerId: "user-1",
+        ownerName: "Alex",
+        dueDate: at(0),
+        completed: false,
+        createdAt: at(12),
+      },
+      {
+        id: "a-2",
+        incidentId: "inc-1",
+        title: "Document rollback",
+        completed: true,
+        createdAt: at(12),
+      },
+    ],
+    metrics: computePostmortemMetrics(window),
+    timeline: [
+      { timestamp: at(10), type: "milestone", title: "Impact started" },
+    ],
+  };
+
+  it("renders metrics, action items and timeline", () => {
+    const markdown = renderPostmortemMarkdown({
+      incident,
+      postmortem,
+      systemNames,
+    });
+
+    expect(markdown).toContain("# Postmortem: Checkout outage!");
+    expect(markdown).toContain("| Root cause | Deployment |");
+    expect(markdown).toContain("| Affected systems | Checkout API |");
+    expect(markdown).toContain("| Time to detect | 10m |");
+    expect(markdown).toContain("| Time to mitigate | 40m |");
+    expect(markdown).toContain("A bad **deployment** broke checkout.");
+    expect(markdown).toContain(
+      "- [ ] Add canary stage (Owner: Alex, Due: 2026-01-01)",
+    );
+    expect(markdown).toContain("- [x] Document rollback");
+    expect(markdown).toContain("- **2026-01-01 10:00 UTC** Impact started");
+  });
+
+  it("derives the file name from the impact date and title", () => {
+    expect(getPostmortemFilename({ incident, postmortem })).toBe(
+      "postmortem-2026-01-01-checkout-outage.md",
+    );
+  });
+});
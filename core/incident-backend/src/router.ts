@@ -2,6 +2,7 @@ import { implement, ORPCError } from "@orpc/server";
 import {
   incidentContract,
   INCIDENT_UPDATED,
+  computePostmortemMetrics,
 } from "@checkstack/incident-common";
 import {
   autoAuthMiddleware,
@@ -10,31 +11,47 @@ import {
 } from "@checkstack/backend-api";
 import type { SignalService } from "@checkstack/signal-common";
 import type { IncidentService } from "./service";
+import type { PostmortemService } from "./postmortem-service";
 import { CatalogApi } from "@checkstack/catalog-common";
 import { AuthApi } from "@checkstack/auth-common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
 import type { InferClient } from "@checkstack/common";
 import { incidentHooks } from "./hooks";
 import { notifyAffectedSystems } from "./notifications";
-import type { IncidentUpdate } from "@checkstack/incident-common";
+import {
+  buildPostmortemTimeline,
+  TIMELINE_MARGIN_MS,
+} from "./postmortem-timeline";
+import {
+  getPostmortemFilename,
+  renderPostmortemMarkdown,
+} from "./postmortem-markdown";
+import type { StoredHealthTransition } from "./schema";
+import type {
+  IncidentDetail,
+  IncidentUpdate,
+  PostmortemActionItem,
+  PostmortemDetail,
+  SavePostmortemInput,
+} from "@checkstack/incident-common";
 
 export function createRouter(
   service: IncidentService,
+  postmortemService: PostmortemService,
   signalService: SignalService,
   catalogClient: InferClient<typeof CatalogApi>,
   authClient: InferClient<typeof AuthApi>,
+  healthCheckClient: InferClient<typeof HealthCheckApi>,
   logger: Logger,
 ) {
   /**
-   * Resolve user IDs to profile names for a list of updates.
-   * Falls back to "Unknown User" if the user cannot be found.
+   * Resolve user IDs to profile names.
+   * Users that cannot be found are omitted from the map.
    */
-  async function resolveUserNames(
-    updates: IncidentUpdate[],
-  ): Promise<IncidentUpdate[]> {
-    const userIds = [
-      ...new Set(updates.map((u) => u.createdBy).filter(Boolean)),
-    ];
-    if (userIds.length === 0) return updates;
+  async function resolveUserNameMap(
+    ids: (string | undefined)[],
+  ): Promise<Map<string, string>> {
+    const userIds = [...new Set(ids.filter(Boolean))];
 
     const userMap = new Map<string, string>();
     await Promise.all(
@@ -49,6 +66,19 @@ export function createRouter(
         }
       }),
     );
+    return userMap;
+  }
+
+  /**
+   * Resolve user IDs to profile names for a list of updates.
+   * Falls back to "Unknown User" if the user cannot be found.
+   */
+  async function resolveUserNames(
+    updates: IncidentUpdate[],
+  ): Promise<IncidentUpdate[]> {
+    if (!updates.some((u) => u.createdBy)) return updates;
+
+    const userMap = await resolveUserNameMap(updates.map((u) => u.createdBy));
 
     return updates.map((update) => ({
       ...update,
@@ -58,6 +88,105 @@ export function createRouter(
     }));
   }
 
+  /**
+   * Map system IDs to names for postmortem timelines and exports.
+   */
+  async function getSystemNames(): Promise<Map<string, string>> {
+    try {
+      const { systems } = await catalogClient.getSystems();
+      return new Map(systems.map((system) => [system.id, system.name]));
+    } catch (error) {
+      logger.warn("Failed to load system names for postmortem", error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Capture the health check transitions of the affected systems around the
+   * impact window. Returns undefined if the health check plugin is
+   * unavailable, which keeps a previously captured snapshot.
+   */
+  async function captureHealthTransitions(
+    incident: IncidentDetail,
+    input: SavePostmortemInput,
+  ): Promise<StoredHealthTransition[] | undefined> {
+    try {
+      const transitions = await healthCheckClient.getStatusTransitions({
+        systemIds: incident.systemIds,
+        startDate: new Date(
+          input.impactStartedAt.getTime() - TIMELINE_MARGIN_MS,
+        ),
+        endDate: new Date(input.impactEndedAt.getTime() + TIMELINE_MARGIN_MS),
+      });
+      return transitions.map((transition) => ({
+        systemId: transition.systemId,
+        configurationName: transition.configurationName,
+        region: transition.region,
+        fromStatus: transition.fromStatus,
+        toStatus: transition.toStatus,
+        timestamp: transition.timestamp.toISOString(),
+      }));
+    } catch (error) {
+      logger.warn(
+        `Failed to capture health check transitions for incident ${incident.id}`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  async function withOwnerName(
+    item: PostmortemActionItem,
+  ): Promise<PostmortemActionItem> {
+    const userNames = await resolveUserNameMap([item.ownerId]);
+    return {
+      ...item,
+      ownerName: item.ownerId ? userNames.get(item.ownerId) : undefined,
+    };
+  }
+
+  async function getPostmortemDetail(
+    incident: IncidentDetail,
+    systemNames: Map<string, string>,
+  ): Promise<PostmortemDetail | undefined> {
+    const stored = await postmortemService.getPostmortem(incident.id);
+    if (!stored) return undefined;
+
+    const { postmortem, actionItems, healthTransitions } = stored;
+    const userNames = await resolveUserNameMap([
+      postmortem.updatedBy,
+      ...actionItems.map((item) => item.ownerId),
+    ]);
+
+    return {
+      ...postmortem,
+      updatedByName: postmortem.updatedBy
+        ? userNames.get(postmortem.updatedBy)
+        : undefined,
+      actionItems: actionItems.map((item) => ({
+        ...item,
+        ownerName: item.ownerId ? userNames.get(item.ownerId) : undefined,
+      })),
+      metrics: computePostmortemMetrics(postmortem),
+      timeline: buildPostmortemTimeline({
+        postmortem,
+        updates: incident.updates,
+        healthTransitions,
+        systemNames,
+      }),
+    };
+  }
+
+  async function broadcastPostmortemChange(incidentId: string) {
+    const incident = await service.getIncident(incidentId);
+    if (!incident) return;
+    await signalService.broadcast(INCIDENT_UPDATED, {
+      incidentId,
+      systemIds: incident.systemIds,
+      action: "updated",
+    });
+  }
+
   const os = implement(incidentContract)
     .$context<RpcContext>()
     .use(autoAuthMiddleware);
@@ -303,6 +432,115 @@ export function createRouter(
       return { success };
     }),
 
+    getPostmortem: os.getPostmortem.handler(async ({ input }) => {
+      const incident = await service.getIncident(input.incidentId);
+      const postmortem = incident
+        ? await getPostmortemDetail(incident, await getSystemNames())
+        : undefined;
+      // eslint-disable-next-line unicorn/no-null -- oRPC contract requires null for missing values
+      return postmortem ?? null;
+    }),
+
+    savePostmortem: os.savePostmortem.handler(async ({ input, context }) => {
+      const incident = await service.getIncident(input.incidentId);
+      if (!incident) {
+        throw new ORPCError("NOT_FOUND", { message: "Incident not found" });
+      }
+      if (incident.status !== "resolved") {
+        throw new ORPCError("CONFLICT", {
+          message: "Postmortems can only be written for resolved incidents",
+        });
+      }
+
+      // Capture health transitions on creation and when the window moves
+      const existing = await postmortemService.getPostmortem(incident.id);
+      const windowChanged =
+        !existing ||
+        existing.postmortem.impactStartedAt.getTime() !==
+          input.impactStartedAt.getTime() ||
+        existing.postmortem.impactEndedAt.getTime() !==
+          input.impactEndedAt.getTime();
+      const healthTransitions = windowChanged
+        ? await captureHealthTransitions(incident, input)
+        : undefined;
+
+      const userId =
+        context.user && "id" in context.user ? context.user.id : undefined;
+      await postmortemService.savePostmortem(input, {
+        userId,
+        healthTransitions,
+      });
+
+      await signalService.broadcast(INCIDENT_UPDATED, {
+        incidentId: incident.id,
+        systemIds: incident.systemIds,
+        action: "updated",
+      });
+
+      return (await getPostmortemDetail(incident, await getSystemNames()))!;
+    }),
+
+    deletePostmortem: os.deletePostmortem.handler(async ({ input }) => {
+      const success = await postmortemService.deletePostmortem(
+        input.incidentId,
+      );
+      if (success) {
+        await broadcastPostmortemChange(input.incidentId);
+      }
+      return { success };
+    }),
+
+    addActionItem: os.addActionItem.handler(async ({ input }) => {
+      const postmortem = await postmortemService.getPostmortem(
+        input.incidentId,
+      );
+      if (!postmortem) {
+        throw new ORPCError("NOT_FOUND", { message: "Postmortem not found" });
+      }
+
+      const item = await postmortemService.addActionItem(input);
+      await broadcastPostmortemChange(input.incidentId);
+      return withOwnerName(item);
+    }),
+
+    updateActionItem: os.updateActionItem.handler(async ({ input }) => {
+      const item = await postmortemService.updateActionItem(input);
+      if (!item) {
+        throw new ORPCError("NOT_FOUND", { message: "Action item not found" });
+      }
+
+      await broadcastPostmortemChange(item.incidentId);
+      return withOwnerName(item);
+    }),
+
+    deleteActionItem: os.deleteActionItem.handler(async ({ input }) => {
+      const incidentId = await postmortemService.deleteActionItem(input.id);
+      if (incidentId) {
+        await broadcastPostmortemChange(incidentId);
+      }
+      return { success: incidentId !== undefined };
+    }),
+
+    exportPostmortem: os.exportPostmortem.handler(async ({ input }) => {
+      const incident = await service.getIncident(input.incidentId);
+      const systemNames = await getSystemNames();
+      const postmortem = incident
+        ? await getPostmortemDetail(incident, systemNames)
+        : undefined;
+      if (!incident || !postmortem) {
+        throw new ORPCError("NOT_FOUND", { message: "Postmortem not found" });
+      }
+
+      return {
+        filename: getPostmortemFilename({ incident, postmortem }),
+        markdown: renderPostmortemMarkdown({
+          incident,
+          postmortem,
+          systemNames,
+        }),
+      };
+    }),
+
     hasActiveIncidentWithSuppression:
       os.hasActiveIncidentWithSuppression.handler(async ({ input }) => {
         const suppressed = await service.hasActiveIncidentWithSuppression(
@@ -310,5 +548,9 @@ export function createRouter(
         );
         return { suppressed };
       }),
+
+    getIncidentsInPeriod: os.getIncidentsInPeriod.handler(async ({ input }) => {
+      return service.getIncidentsInPeriod(input);
+    }),
   });
 }
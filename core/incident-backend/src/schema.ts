@@ -5,7 +5,9 @@ import {
   timestamp,
   primaryKey,
   boolean,
+  jsonb,
 } from "drizzle-orm/pg-core";
+import type { HealthCheckStatus } from "@checkstack/healthcheck-common";
 
 /**
  * Incident status enum
@@ -72,3 +74,68 @@ export const incidentUpdates = pgTable("incident_updates", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   createdBy: text("created_by"),
 });
+
+/**
+ * Root cause category enum for postmortems
+ */
+export const rootCauseCategoryEnum = pgEnum("root_cause_category", [
+  "deployment",
+  "configuration",
+  "code",
+  "infrastructure",
+  "third_party",
+  "capacity",
+  "human_error",
+  "security",
+  "other",
+]);
+
+/**
+ * Health check status transition captured for a postmortem timeline.
+ * Snapshotted because raw health check runs are only retained briefly.
+ */
+export interface StoredHealthTransition {
+  systemId: string;
+  configurationName: string;
+  region: string;
+  fromStatus?: HealthCheckStatus;
+  toStatus: HealthCheckStatus;
+  timestamp: string;
+}
+
+/**
+ * Postmortems - at most one per incident
+ */
+export const incidentPostmortems = pgTable("incident_postmortems", {
+  incidentId: text("incident_id")
+    .primaryKey()
+    .references(() => incidents.id, { onDelete: "cascade" }),
+  summary: text("summary").notNull(),
+  rootCauseCategory: rootCauseCategoryEnum("root_cause_category").notNull(),
+  impactStartedAt: timestamp("impact_started_at").notNull(),
+  impactEndedAt: timestamp("impact_ended_at").notNull(),
+  detectedAt: timestamp("detected_at"),
+  mitigatedAt: timestamp("mitigated_at"),
+  healthTransitions: jsonb("health_transitions")
+    .$type<StoredHealthTransition[]>()
+    .notNull()
+    .default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  updatedBy: text("updated_by"),
+});
+
+/**
+ * Action items of postmortems
+ */
+export const postmortemActionItems = pgTable("postmortem_action_items", {
+  id: text("id").primaryKey(),
+  incidentId: text("incident_id")
+    .notNull()
+    .references(() => incidentPostmortems.incidentId, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  ownerId: text("owner_id"),
+  dueDate: timestamp("due_date"),
+  completed: boolean("completed").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -1,9 +1,10 @@
-import { eq, and, inArray, ne } from "drizzle-orm";
+import { eq, and, inArray, ne, lt, desc } from "drizzle-orm";
 import type { SafeDatabase } from "@checkstack/backend-api";
 import * as schema from "./schema";
 import { incidents, incidentSystems, incidentUpdates } from "./schema";
 import type {
   IncidentWithSystems,
+  IncidentWithResolution,
   IncidentDetail,
   IncidentUpdate,
   CreateIncidentInput,
@@ -361,4 +362,70 @@ export class IncidentService {
 
     return !!match;
   }
+
+  /**
+   * Get incidents of the given systems that were open within a time window.
+   * The resolution time is taken from the last update that resolved the incident.
+   */
+  async getIncidentsInPeriod(props: {
+    systemIds: string[];
+    startDate: Date;
+    endDate: Date;
+  }): Promise<IncidentWithResolution[]> {
+    const { systemIds, startDate, endDate } = props;
+    if (systemIds.length === 0) return [];
+
+    const rows = await this.db
+      .selectDistinct({ incident: incidents })
+      .from(incidents)
+      .innerJoin(incidentSystems, eq(incidentSystems.incidentId, incidents.id))
+      .where(
+        and(
+          inArray(incidentSystems.systemId, systemIds),
+          lt(incidents.createdAt, endDate),
+        ),
+      );
+    if (rows.length === 0) return [];
+
+    const ids = rows.map((r) => r.incident.id);
+    const systemRows = await this.db
+      .select()
+      .from(incidentSystems)
+      .where(inArray(incidentSystems.incidentId, ids));
+    const resolutions = await this.db
+      .selectDistinctOn([incidentUpdates.incidentId], {
+        incidentId: incidentUpdates.incidentId,
+        createdAt: incidentUpdates.createdAt,
+      })
+      .from(incidentUpdates)
+      .where(
+        and(
+          inArray(incidentUpdates.incidentId, ids),
+          eq(incidentUpdates.statusChange, "resolved"),
+        ),
+      )
+      .orderBy(incidentUpdates.incidentId, desc(incidentUpdates.createdAt));
+    const resolvedAtById = new Map(
+      resolutions.map((r) => [r.incidentId, r.createdAt]),
+    );
+
+    const result: IncidentWithResolution[] = [];
+    for (const { incident } of rows) {
+      const resolvedAt =
+        incident.status === "resolved"
+          ? (resolvedAtById.get(incident.id) ?? incident.updatedAt)
+          : undefined;
+      if (resolvedAt && resolvedAt <= startDate) continue;
+
+      result.push({
+        ...incident,
+        description: incident.description ?? undefined,
+        systemIds: systemRows
+          .filter((s) => s.incidentId === incident.id)
+          .map((s) => s.systemId),
+        resolvedAt,
+      });
+    }
+    return result;
+  }
 }
@@ -9,21 +9,46 @@ export {
   IncidentSeverityEnum,
   IncidentSchema,
   IncidentWithSystemsSchema,
+  IncidentWithResolutionSchema,
   IncidentUpdateSchema,
   IncidentDetailSchema,
   CreateIncidentInputSchema,
   UpdateIncidentInputSchema,
   AddIncidentUpdateInputSchema,
+  RootCauseCategoryEnum,
+  PostmortemActionItemSchema,
+  PostmortemTimelineEntrySchema,
+  PostmortemMetricsSchema,
+  PostmortemSchema,
+  PostmortemDetailSchema,
+  SavePostmortemInputSchema,
+  CreateActionItemInputSchema,
+  UpdateActionItemInputSchema,
   type IncidentStatus,
   type IncidentSeverity,
   type Incident,
   type IncidentWithSystems,
+  type IncidentWithResolution,
   type IncidentUpdate,
   type IncidentDetail,
   type CreateIncidentInput,
   type UpdateIncidentInput,
   type AddIncidentUpdateInput,
+  type RootCauseCategory,
+  type PostmortemActionItem,
+  type PostmortemTimelineEntry,
+  type PostmortemMetrics,
+  type Postmortem,
+  type PostmortemDetail,
+  type SavePostmortemInput,
+  type CreateActionItemInput,
+  type UpdateActionItemInput,
 } from "./schemas";
+export {
+  ROOT_CAUSE_CATEGORY_LABELS,
+  computePostmortemMetrics,
+  formatPostmortemDuration,
+} from "./postmortem";
 export { IncidentDetailsSlot, IncidentStatusSlot } from "./slots";
 export * from "./plugin-metadata";
 export { incidentRoutes } from "./routes";
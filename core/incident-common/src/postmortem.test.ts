@@ -0,0 +1,44 @@
+import { describe, it, expect } from "bun:test";
+import {
+  computePostmortemMetrics,
+  formatPostmortemDuration,
+} from "./postmortem";
+
+const at = (hour: number, minute = 0) =>
+  new Date(Date.UTC(2026, 0, 1, hour, minute));
+
+describe("computePostmortemMetrics", () => {
+  it("measures detection and mitigation from the start of the impact", () => {
+    expect(
+      computePostmortemMetrics({
+        impactStartedAt: at(10),
+        impactEndedAt: at(12),
+        detectedAt: at(10, 5),
+        mitigatedAt: at(11, 30),
+      }),
+    ).toEqual({
+      impactDurationMs: 2 * 60 * 60_000,
+      timeToDetectMs: 5 * 60_000,
+      timeToMitigateMs: 90 * 60_000,
+    });
+  });
+
+  it("omits metrics without timestamps", () => {
+    const metrics = computePostmortemMetrics({
+      impactStartedAt: at(10),
+      impactEndedAt: at(10, 45),
+    });
+
+    expect(metrics.impactDurationMs).toBe(45 * 60_000);
+    expect(metrics.timeToDetectMs).toBeUndefined();
+    expect(metrics.timeToMitigateMs).toBeUndefined();
+  });
+});
+
+describe("formatPostmortemDuration", () => {
+  it("formats days, hours and minutes", () => {
+    expect(formatPostmortemDuration(90 * 60_000)).toBe("1h 30m");
+    expect(formatPostmortemDuration(25 * 60 * 60_000)).toBe("1d 1h");
+    expect(formatPostmortemDuration(20_000)).toBe("< 1m");
+  });
+});
@@ -0,0 +1,63 @@
+import type {
+  Postmortem,
+  PostmortemMetrics,
+  RootCauseCategory,
+} from "./schemas";
+
+/**
+ * Display labels of the root cause categories.
+ */
+export const ROOT_CAUSE_CATEGORY_LABELS: Record<RootCauseCategory, string> = {
+  deployment: "Deployment",
+  configuration: "Configuration",
+  code: "Code Defect",
+  infrastructure: "Infrastructure",
+  third_party: "Third-Party Provider",
+  capacity: "Capacity",
+  human_error: "Human Error",
+  security: "Security",
+  other: "Other",
+};
+
+/**
+ * Compute impact duration, time to detect (MTTD) and time to mitigate (MTTR)
+ * of a postmortem. Detection and mitigation are measured from the start of
+ * the impact and are omitted if the respective timestamp is not recorded.
+ */
+export function computePostmortemMetrics(
+  postmortem: Pick<
+    Postmortem,
+    "impactStartedAt" | "impactEndedAt" | "detectedAt" | "mitigatedAt"
+  >,
+): PostmortemMetrics {
+  const start = postmortem.impactStartedAt.getTime();
+  return {
+    impactDurationMs: postmortem.impactEndedAt.getTime() - start,
+    timeToDetectMs: postmortem.detectedAt
+      ? postmortem.detectedAt.getTime() - start
+      : undefined,
+    timeToMitigateMs: postmortem.mitigatedAt
+      ? postmortem.mitigatedAt.getTime() - start
+      : undefined,
+  };
+}
+
+/**
+ * Format a duration in milliseconds as a compact string, e.g. "1h 5m".
+ */
+export function formatPostmortemDuration(durationMs: number): string {
+  const totalMinutes = Math.max(0, Math.round(durationMs / 60_000));
+  if (totalMinutes === 0) return "< 1m";
+
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  return [
+    days > 0 ? `${days}d` : undefined,
+    hours > 0 ? `${hours}h` : undefined,
+    minutes > 0 ? `${minutes}m` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -4,12 +4,18 @@ import { incidentAccess } from "./access";
 import { pluginMetadata } from "./plugin-metadata";
 import {
   IncidentWithSystemsSchema,
+  IncidentWithResolutionSchema,
   IncidentDetailSchema,
   IncidentUpdateSchema,
   CreateIncidentInputSchema,
   UpdateIncidentInputSchema,
   AddIncidentUpdateInputSchema,
   IncidentStatusEnum,
+  PostmortemDetailSchema,
+  PostmortemActionItemSchema,
+  SavePostmortemInputSchema,
+  CreateActionItemInputSchema,
+  UpdateActionItemInputSchema,
 } from "./schemas";
 
 export const incidentContract = {
@@ -109,6 +115,72 @@ export const incidentContract = {
     .input(z.object({ id: z.string() }))
     .output(z.object({ success: z.boolean() })),
 
+  /**
+   * Get the postmortem of an incident with action items and timeline.
+   * Postmortems are internal, unlike incidents they are never public.
+   */
+  getPostmortem: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [incidentAccess.incident.read],
+  })
+    .input(z.object({ incidentId: z.string() }))
+    .output(PostmortemDetailSchema.nullable()),
+
+  /** Create or update the postmortem of a resolved incident */
+  savePostmortem: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [incidentAccess.incident.manage],
+  })
+    .input(SavePostmortemInputSchema)
+    .output(PostmortemDetailSchema),
+
+  /** Delete the postmortem of an incident including its action items */
+  deletePostmortem: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [incidentAccess.incident.manage],
+  })
+    .input(z.object({ incidentId: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  /** Add an action item to a postmortem */
+  addActionItem: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [incidentAccess.incident.manage],
+  })
+    .input(CreateActionItemInputSchema)
+    .output(PostmortemActionItemSchema),
+
+  /** Update an action item (e.g., reassign or mark as completed) */
+  updateActionItem: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [incidentAccess.incident.manage],
+  })
+    .input(UpdateActionItemInputSchema)
+    .output(PostmortemActionItemSchema),
+
+  /** Delete an action item */
+  deleteActionItem: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [incidentAccess.incident.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  /** Export the postmortem of an incident as a markdown document */
+  exportPostmortem: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [incidentAccess.incident.read],
+  })
+    .input(z.object({ incidentId: z.string() }))
+    .output(z.object({ filename: z.string(), markdown: z.string() })),
+
   /**
    * Check if a system has an active incident with notification suppression enabled.
    * Used by the health check system to suppress notifications during acknowledged incidents.
@@ -120,6 +192,24 @@ export const incidentContract = {
   })
     .input(z.object({ systemId: z.string() }))
     .output(z.object({ suppressed: z.boolean() })),
+
+  /**
+   * Incidents affecting any of the given systems that were open at some point
+   * within a time window. Used for availability reports.
+   */
+  getIncidentsInPeriod: proc({
+    operationType: "query",
+    userType: "service",
+    access: [incidentAccess.incident.read],
+  })
+    .input(
+      z.object({
+        systemIds: z.array(z.string()),
+        startDate: z.date(),
+        endDate: z.date(),
+      }),
+    )
+    .output(z.array(IncidentWithResolutionSchema)),
 };
 
 // Export contract type
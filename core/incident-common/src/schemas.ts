@@ -43,6 +43,16 @@ export const IncidentWithSystemsSchema = IncidentSchema.extend({
 });
 export type IncidentWithSystems = z.infer<typeof IncidentWithSystemsSchema>;
 
+/**
+ * Incident with the time it was last resolved, used for reports
+ */
+export const IncidentWithResolutionSchema = IncidentWithSystemsSchema.extend({
+  resolvedAt: z.date().optional(),
+});
+export type IncidentWithResolution = z.infer<
+  typeof IncidentWithResolutionSchema
+>;
+
 /**
  * Incident update schema - status updates posted to an incident
  */
@@ -97,3 +107,136 @@ export const AddIncidentUpdateInputSchema = z.object({
 export type AddIncidentUpdateInput = z.infer<
   typeof AddIncidentUpdateInputSchema
 >;
+
+// =============================================================================
+// POSTMORTEMS
+// =============================================================================
+
+/**
+ * Root cause categories of a postmortem.
+ */
+export const RootCauseCategoryEnum = z.enum([
+  "deployment",
+  "configuration",
+  "code",
+  "infrastructure",
+  "third_party",
+  "capacity",
+  "human_error",
+  "security",
+  "other",
+]);
+export type RootCauseCategory = z.infer<typeof RootCauseCategoryEnum>;
+
+/**
+ * Follow-up task of a postmortem.
+ */
+export const PostmortemActionItemSchema = z.object({
+  id: z.string(),
+  incidentId: z.string(),
+  title: z.string(),
+  ownerId: z.string().optional(),
+  ownerName: z.string().optional(),
+  dueDate: z.date().optional(),
+  completed: z.boolean(),
+  createdAt: z.date(),
+});
+export type PostmortemActionItem = z.infer<typeof PostmortemActionItemSchema>;
+
+/**
+ * Entry of the postmortem timeline.
+ * Merges incident updates, health check status transitions of the affected
+ * systems and the milestones recorded in the postmortem.
+ */
+export const PostmortemTimelineEntrySchema = z.object({
+  timestamp: z.date(),
+  type: z.enum(["milestone", "incident_update", "health_transition"]),
+  title: z.string(),
+  description: z.string().optional(),
+  systemId: z.string().optional(),
+});
+export type PostmortemTimelineEntry = z.infer<
+  typeof PostmortemTimelineEntrySchema
+>;
+
+/**
+ * Durations derived from the postmortem timestamps, in milliseconds.
+ */
+export const PostmortemMetricsSchema = z.object({
+  impactDurationMs: z.number(),
+  timeToDetectMs: z.number().optional(),
+  timeToMitigateMs: z.number().optional(),
+});
+export type PostmortemMetrics = z.infer<typeof PostmortemMetricsSchema>;
+
+export const PostmortemSchema = z.object({
+  incidentId: z.string(),
+  summary: z.string(),
+  rootCauseCategory: RootCauseCategoryEnum,
+  impactStartedAt: z.date(),
+  impactEndedAt: z.date(),
+  detectedAt: z.date().optional(),
+  mitigatedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  updatedBy: z.string().optional(),
+  updatedByName: z.string().optional(),
+});
+export type Postmortem = z.infer<typeof PostmortemSchema>;
+
+/**
+ * Postmortem with action items, metrics and the generated timeline
+ */
+export const PostmortemDetailSchema = PostmortemSchema.extend({
+  actionItems: z.array(PostmortemActionItemSchema),
+  metrics: PostmortemMetricsSchema,
+  timeline: z.array(PostmortemTimelineEntrySchema),
+});
+export type PostmortemDetail = z.infer<typeof PostmortemDetailSchema>;
+
+export const SavePostmortemInputSchema = z
+  .object({
+    incidentId: z.string(),
+    summary: z.string().min(1, "Summary is required"),
+    rootCauseCategory: RootCauseCategoryEnum,
+    impactStartedAt: z.date(),
+    impactEndedAt: z.date(),
+    detectedAt: z.date().optional(),
+    mitigatedAt: z.date().optional(),
+  })
+  .refine((input) => input.impactEndedAt >= input.impactStartedAt, {
+    message: "Impact cannot end before it started",
+    path: ["impactEndedAt"],
+  })
+  .refine(
+    (input) => !input.detectedAt || input.detectedAt >= input.impactStartedAt,
+    {
+      message: "Detection cannot precede the start of the impact",
+      path: ["detectedAt"],
+    },
+  )
+  .refine(
+    (input) => !input.mitigatedAt || input.mitigatedAt >= input.impactStartedAt,
+    {
+      message: "Mitigation cannot precede the start of the impact",
+      path: ["mitigatedAt"],
+    },
+  );
+export type SavePostmortemInput = z.infer<typeof SavePostmortemInputSchema>;
+
+export const CreateActionItemInputSchema = z.object({
+  incidentId: z.string(),
+  title: z.string().min(1, "Title is required"),
+  ownerId: z.string().optional(),
+  dueDate: z.date().optional(),
+});
+export type CreateActionItemInput = z.infer<typeof CreateActionItemInputSchema>;
+
+export const UpdateActionItemInputSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1).optional(),
+  ownerId: z.string().nullable().optional(),
+  dueDate: z.date().nullable().optional(),
+  completed: z.boolean().optional(),
+});
+export type UpdateActionItemInput = z.infer<typeof UpdateActionItemInputSchema>;
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { IncidentApi } from "../api";
+import type { PostmortemActionItem } from "@checkstack/incident-common";
+import {
+  Button,
+  Input,
+  Checkbox,
+  DateTimePicker,
+  useToast,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@checkstack/ui";
+import { Plus, Trash2, User, CalendarClock } from "lucide-react";
+import { format, isPast } from "date-fns";
+
+export interface UserOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Props {
+  incidentId: string;
+  actionItems: PostmortemActionItem[];
+  /** Users that can be assigned as owners */
+  users: UserOption[];
+  canManage: boolean;
+  onChange: () => void;
+}
+
+const UNASSIGNED = "unassigned";
+
+/**
+ * Checklist of postmortem action items with owners and due dates.
+ */
+export const PostmortemActionItems: React.FC<Props> = ({
+  incidentId,
+  actionItems,
+  users,
+  canManage,
+  onChange,
+}) => {
+  const incidentClient = usePluginClient(IncidentApi);
+  const toast = useToast();
+
+  const [title, setTitle] = useState("");
+  const [ownerId, setOwnerId] = useState(UNASSIGNED);
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+
+  const onError = (error: unknown) => {
+    toast.error(
+      error instanceof Error ? error.message : "Failed to update action item",
+    );
+  };
+
+  const addMutation = incidentClient.addActionItem.useMutation({
+    onSuccess: () => {
+      setTitle("");
+      setOwnerId(UNASSIGNED);
+      setDueDate(undefined);
+      onChange();
+    },
+    onError,
+  });
+
+  const updateMutation = incidentClient.updateActionItem.useMutation({
+    onSuccess: () => onChange(),
+    onError,
+  });
+
+  const deleteMutation = incidentClient.deleteActionItem.useMutation({
+    onSuccess: () => onChange(),
+    onError,
+  });
+
+  const handleAdd = () => {
+    if (!title.trim()) {
+      toast.error("Action item title is required");
+      return;
+    }
+    addMutation.mutate({
+      incidentId,
+      title: title.trim(),
+      ownerId: ownerId === UNASSIGNED ? undefined : ownerId,
+      dueDate,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {actionItems.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No action items yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {actionItems.map((item) => {
+            const overdue =
+              !item.completed && item.dueDate && isPast(new Date(item.dueDate));
+            return (
+              <li
+                key={item.id}
+                className="flex items-start gap-3 rounded-md border border-border p-3"
+              >
+                <Checkbox
+                  checked={item.completed}
+                  disabled={!canManage || updateMutation.isPending}
+                  onCheckedChange={(completed) =>
+                    updateMutation.mutate({ id: item.id, completed })
+                  }
+                />
+                <div className="flex-1 min-w-0">
+                  <p
+                    className={
+                      item.completed
+                        ? "text-muted-foreground line-through"
+                        : "text-foreground"
+                    }
+                  >
+                    {item.title}
+                  </p>
+                  <div className="flex flex-wrap gap-3 mt-1 text-xs text-muted-foreground">
+                    {item.ownerId && (
+                      <span className="flex items-center gap-1">
+                        <User className="h-3 w-3" />
+                        {item.ownerName ?? item.ownerId}
+                      </span>
+                    )}
+                    {item.dueDate && (
+                      <span
+                        className={`flex items-center gap-1 ${overdue ? "text-destructive" : ""}`}
+                      >
+                        <CalendarClock className="h-3 w-3" />
+                        Due {format(new Date(item.dueDate), "PP")}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate({ id: item.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canManage && (
+        <div className="grid gap-2 md:grid-cols-[1fr_200px_auto_auto] items-center">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Add an action item"
+          />
+          <Select value={ownerId} onValueChange={setOwnerId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Owner" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name} ({user.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DateTimePicker value={dueDate} onChange={setDueDate} />
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={addMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
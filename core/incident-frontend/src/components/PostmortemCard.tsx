@@ -0,0 +1,291 @@
+import React, { useState } from "react";
+import {
+  usePluginClient,
+  accessApiRef,
+  useApi,
+} from "@checkstack/frontend-api";
+import { useSignal } from "@checkstack/signal-frontend";
+import { AuthApi, authAccess } from "@checkstack/auth-common";
+import { IncidentApi } from "../api";
+import {
+  INCIDENT_UPDATED,
+  ROOT_CAUSE_CATEGORY_LABELS,
+  formatPostmortemDuration,
+  type IncidentDetail,
+  type PostmortemTimelineEntry,
+} from "@checkstack/incident-common";
+import {
+  Card,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  CardContent,
+  Button,
+  Badge,
+  LoadingSpinner,
+  MarkdownBlock,
+  useToast,
+} from "@checkstack/ui";
+import {
+  FileText,
+  Download,
+  Edit,
+  Trash2,
+  Flag,
+  MessageSquare,
+  Activity,
+} from "lucide-react";
+import { format } from "date-fns";
+import { PostmortemEditor } from "./PostmortemEditor";
+import { PostmortemActionItems } from "./PostmortemActionItems";
+
+interface Props {
+  incident: IncidentDetail;
+  canManage: boolean;
+}
+
+const timelineIcons: Record<PostmortemTimelineEntry["type"], React.ReactNode> =
+  {
+    milestone: <Flag className="h-4 w-4 text-primary" />,
+    incident_update: (
+      <MessageSquare className="h-4 w-4 text-muted-foreground" />
+    ),
+    health_transition: <Activity className="h-4 w-4 text-warning" />,
+  };
+
+const Metric: React.FC<{ label: string; durationMs?: number }> = ({
+  label,
+  durationMs,
+}) => (
+  <div>
+    <h4 className="text-sm font-medium text-muted-foreground mb-1">{label}</h4>
+    <p className="text-lg font-semibold text-foreground">
+      {durationMs === undefined ? "—" : formatPostmortemDuration(durationMs)}
+    </p>
+  </div>
+);
+
+/**
+ * Postmortem of a resolved incident with metrics, action items and the
+ * merged timeline of incident updates and health check transitions.
+ */
+export const PostmortemCard: React.FC<Props> = ({ incident, canManage }) => {
+  const incidentClient = usePluginClient(IncidentApi);
+  const authClient = usePluginClient(AuthApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  const { allowed: canReadUsers } = accessApi.useAccess(authAccess.users.read);
+
+  const {
+    data: postmortem,
+    isLoading,
+    refetch,
+  } = incidentClient.getPostmortem.useQuery({ incidentId: incident.id });
+
+  const { data: users = [] } = authClient.getUsers.useQuery(
+    {},
+    { enabled: canReadUsers && canManage },
+  );
+
+  // Only fetched on demand when exporting
+  const { refetch: fetchExport, isFetching: exporting } =
+    incidentClient.exportPostmortem.useQuery(
+      { incidentId: incident.id },
+      { enabled: false },
+    );
+
+  useSignal(INCIDENT_UPDATED, ({ incidentId }) => {
+    if (incidentId === incident.id) {
+      void refetch();
+    }
+  });
+
+  const deleteMutation = incidentClient.deletePostmortem.useMutation({
+    onSuccess: () => {
+      toast.success("Postmortem deleted");
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete postmortem",
+      );
+    },
+  });
+
+  const handleExport = async () => {
+    const { data, error } = await fetchExport();
+    if (!data) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export postmortem",
+      );
+      return;
+    }
+
+    const url = URL.createObjectURL(
+      new Blob([data.markdown], { type: "text/markdown" }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = data.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isResolved = incident.status === "resolved";
+
+  // Postmortems are written once an incident is resolved
+  if (!postmortem && !isResolved) return;
+
+  return (
+    <Card>
+      <CardHeader className="border-b border-border">
+        <CardHeaderRow>
+          <div className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Postmortem</CardTitle>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {postmortem && (
+              <>
+                <Badge variant="outline">
+                  {ROOT_CAUSE_CATEGORY_LABELS[postmortem.rootCauseCategory]}
+                </Badge>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void handleExport()}
+                  disabled={exporting}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Export Markdown
+                </Button>
+              </>
+            )}
+            {canManage && isResolved && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditorOpen(true)}
+              >
+                <Edit className="h-4 w-4 mr-1" />
+                {postmortem ? "Edit" : "Write Postmortem"}
+              </Button>
+            )}
+            {canManage && postmortem && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  deleteMutation.mutate({ incidentId: incident.id })
+                }
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </CardHeaderRow>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {isLoading && (
+          <div className="flex justify-center">
+            <LoadingSpinner />
+          </div>
+        )}
+
+        {!isLoading && !postmortem && (
+          <p className="text-sm text-muted-foreground">
+            No postmortem has been written for this incident yet.
+          </p>
+        )}
+
+        {postmortem && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Metric
+                label="Impact Duration"
+                durationMs={postmortem.metrics.impactDurationMs}
+              />
+              <Metric
+                label="Time to Detect"
+                durationMs={postmortem.metrics.timeToDetectMs}
+              />
+              <Metric
+                label="Time to Mitigate"
+                durationMs={postmortem.metrics.timeToMitigateMs}
+              />
+              <div>
+                <h4 className="text-sm font-medium text-muted-foreground mb-1">
+                  Impact Window
+                </h4>
+                <p className="text-sm text-foreground">
+                  {format(new Date(postmortem.impactStartedAt), "PPp")} –{" "}
+                  {format(new Date(postmortem.impactEndedAt), "PPp")}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                Summary
+              </h4>
+              <MarkdownBlock size="sm">{postmortem.summary}</MarkdownBlock>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                Action Items
+              </h4>
+              <PostmortemActionItems
+                incidentId={incident.id}
+                actionItems={postmortem.actionItems}
+                users={users}
+                canManage={canManage}
+                onChange={() => void refetch()}
+              />
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground mb-2">
+                Timeline
+              </h4>
+              <ol className="space-y-3 border-l border-border pl-4">
+                {postmortem.timeline.map((entry, index) => (
+                  <li
+                    key={`${entry.type}-${index}`}
+                    className="flex items-start gap-3"
+                  >
+                    <div className="mt-0.5">{timelineIcons[entry.type]}</div>
+                    <div className="min-w-0">
+                      <p className="text-sm text-foreground">{entry.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(entry.timestamp), "PPpp")}
+                        {entry.description && ` · ${entry.description}`}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Last updated {format(new Date(postmortem.updatedAt), "PPp")}
+              {postmortem.updatedByName && ` by ${postmortem.updatedByName}`}
+            </p>
+          </>
+        )}
+      </CardContent>
+
+      <PostmortemEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        incident={incident}
+        postmortem={postmortem ?? undefined}
+        onSave={() => void refetch()}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { IncidentApi } from "../api";
+import {
+  RootCauseCategoryEnum,
+  ROOT_CAUSE_CATEGORY_LABELS,
+  type IncidentDetail,
+  type PostmortemDetail,
+  type RootCauseCategory,
+} from "@checkstack/incident-common";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  Button,
+  Label,
+  Textarea,
+  DateTimePicker,
+  useToast,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@checkstack/ui";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  incident: IncidentDetail;
+  postmortem?: PostmortemDetail;
+  onSave: () => void;
+}
+
+/**
+ * Time the incident was resolved, based on its latest resolving update.
+ */
+const getResolvedAt = (incident: IncidentDetail): Date => {
+  const resolvedUpdates = incident.updates
+    .filter((u) => u.statusChange === "resolved")
+    .map((u) => new Date(u.createdAt).getTime());
+  return resolvedUpdates.length > 0
+    ? new Date(Math.max(...resolvedUpdates))
+    : new Date(incident.updatedAt);
+};
+
+export const PostmortemEditor: React.FC<Props> = ({
+  open,
+  onOpenChange,
+  incident,
+  postmortem,
+  onSave,
+}) => {
+  const incidentClient = usePluginClient(IncidentApi);
+  const toast = useToast();
+
+  const [summary, setSummary] = useState("");
+  const [rootCauseCategory, setRootCauseCategory] =
+    useState<RootCauseCategory>("other");
+  const [impactStartedAt, setImpactStartedAt] = useState<Date | undefined>();
+  const [impactEndedAt, setImpactEndedAt] = useState<Date | undefined>();
+  const [detectedAt, setDetectedAt] = useState<Date | undefined>();
+  const [mitigatedAt, setMitigatedAt] = useState<Date | undefined>();
+
+  // Initialize from the existing postmortem or prefill from the incident
+  useEffect(() => {
+    if (!open) return;
+    if (postmortem) {
+      setSummary(postmortem.summary);
+      setRootCauseCategory(postmortem.rootCauseCategory);
+      setImpactStartedAt(new Date(postmortem.impactStartedAt));
+      setImpactEndedAt(new Date(postmortem.impactEndedAt));
+      setDetectedAt(
+        postmortem.detectedAt ? new Date(postmortem.detectedAt) : undefined,
+      );
+      setMitigatedAt(
+        postmortem.mitigatedAt ? new Date(postmortem.mitigatedAt) : undefined,
+      );
+    } else {
+      setSummary("");
+      setRootCauseCategory("other");
+      setImpactStartedAt(new Date(incident.createdAt));
+      setImpactEndedAt(getResolvedAt(incident));
+      setDetectedAt(new Date(incident.createdAt));
+      setMitigatedAt(undefined);
+    }
+  }, [open, postmortem, incident]);
+
+  const saveMutation = incidentClient.savePostmortem.useMutation({
+    onSuccess: () => {
+      toast.success(postmortem ? "Postmortem updated" : "Postmortem created");
+      onSave();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save postmortem",
+      );
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!summary.trim()) {
+      toast.error("Summary is required");
+      return;
+    }
+    if (!impactStartedAt || !impactEndedAt) {
+      toast.error("Impact start and end are required");
+      return;
+    }
+    if (impactEndedAt < impactStartedAt) {
+      toast.error("Impact cannot end before it started");
+      return;
+    }
+
+    saveMutation.mutate({
+      incidentId: incident.id,
+      summary,
+      rootCauseCategory,
+      impactStartedAt,
+      impactEndedAt,
+      detectedAt,
+      mitigatedAt,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="xl">
+        <DialogHeader>
+          <DialogTitle>
+            {postmortem ? "Edit Postmortem" : "Write Postmortem"}
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Document the root cause, impact and follow-ups of this incident
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="postmortem-summary">Summary</Label>
+            <Textarea
+              id="postmortem-summary"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="What happened, why it happened and how it was fixed. Markdown is supported."
+              rows={8}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Root Cause</Label>
+            <Select
+              value={rootCauseCategory}
+              onValueChange={(v) =>
+                setRootCauseCategory(v as RootCauseCategory)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select root cause" />
+              </SelectTrigger>
+              <SelectContent>
+                {RootCauseCategoryEnum.options.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {ROOT_CAUSE_CATEGORY_LABELS[category]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Impact Started</Label>
+              <DateTimePicker
+                value={impactStartedAt}
+                onChange={setImpactStartedAt}
+                maxDate={impactEndedAt}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Impact Ended</Label>
+              <DateTimePicker
+                value={impactEndedAt}
+                onChange={setImpactEndedAt}
+                minDate={impactStartedAt}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Detected</Label>
+              <DateTimePicker
+                value={detectedAt}
+                onChange={setDetectedAt}
+                minDate={impactStartedAt}
+              />
+              <p className="text-xs text-muted-foreground">
+                Used to compute the time to detect (MTTD)
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label>Mitigated</Label>
+              <DateTimePicker
+                value={mitigatedAt}
+                onChange={setMitigatedAt}
+                minDate={impactStartedAt}
+              />
+              <p className="text-xs text-muted-foreground">
+                Used to compute the time to mitigate (MTTR)
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
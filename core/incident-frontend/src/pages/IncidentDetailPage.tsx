@@ -7,6 +7,7 @@ import {
   wrapInSuspense,
 } from "@checkstack/frontend-api";
 import { useSignal } from "@checkstack/signal-frontend";
+import { authApiRef } from "@checkstack/auth-frontend/api";
 import { resolveRoute } from "@checkstack/common";
 import { IncidentApi } from "../api";
 import {
@@ -40,6 +41,7 @@ import {
 } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 import { IncidentUpdateForm } from "../components/IncidentUpdateForm";
+import { PostmortemCard } from "../components/PostmortemCard";
 import {
   getIncidentStatusBadge,
   getIncidentSeverityBadge,
@@ -52,8 +54,11 @@ const IncidentDetailPageContent: React.FC = () => {
   const incidentClient = usePluginClient(IncidentApi);
   const catalogClient = usePluginClient(CatalogApi);
   const accessApi = useApi(accessApiRef);
+  const authApi = useApi(authApiRef);
   const toast = useToast();
 
+  const { data: session } = authApi.useSession();
+
   const { allowed: canManage } = accessApi.useAccess(
     incidentAccess.incident.manage,
   );
@@ -275,6 +280,11 @@ const IncidentDetailPageContent: React.FC = () => {
             />
           </CardContent>
         </Card>
+
+        {/* Postmortem, internal and only shown to signed-in users */}
+        {session && (
+          <PostmortemCard incident={incident} canManage={canManage} />
+        )}
       </div>
     </PageLayout>
   );
@@ -0,0 +1,2 @@
+ALTER TABLE "delivery_logs" ADD COLUMN "correlation_key" text;--> statement-breakpoint
+ALTER TABLE "delivery_logs" ADD COLUMN "resolved" boolean DEFAULT false NOT NULL;
\ No newline at end of file
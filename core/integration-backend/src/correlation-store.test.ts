@@ -0,0 +1,101 @@
+import { describe, it, expect, mock } from "bun:test";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import { createCorrelationStore } from "./correlation-store";
+import type * as schema from "./schema";
+
+/**
+ * Unit tests for the correlation store.
+ *
+ * Tests cover:
+ * - Outbound lookups scoped to the subscription
+ * - Inbound lookups scoped to the connection, so equal issue keys of two
+ *   connections never resolve to each other's incidents
+ */
+
+const dialect = new PgDialect();
+
+/**
+ * Mock database that records the WHERE clause of each select and returns the
+ * given rows.
+ */
+function createRecordingDb(rows: Record<string, unknown>[]) {
+  const conditions: SQL[] = [];
+  const where = mock((condition: SQL) => {
+    conditions.push(condition);
+    return {
+      orderBy: () => ({ limit: () => Promise.resolve(rows) }),
+    };
+  });
+  const db = {
+    select: () => ({
+      from: () => ({ where, innerJoin: () => ({ where }) }),
+    }),
+  } as unknown as SafeDatabase<typeof schema>;
+
+  return {
+    db,
+    renderConditions: () =>
+      conditions.map((condition) => dialect.sqlToQuery(condition)),
+  };
+}
+
+describe("createCorrelationStore", () => {
+  it("finds open items of the subscription only", async () => {
+    const { db, renderConditions } = createRecordingDb([
+      { externalId: "OPS-1", resolved: false },
+    ]);
+    const store = createCorrelationStore(db);
+
+    const externalId = await store.findOpenExternalId({
+      subscriptionId: "sub-2",
+      correlationKey: "incident:inc-1",
+    });
+
+    expect(externalId).toBe("OPS-1");
+    const [query] = renderConditions();
+    expect(query.sql).toContain('"delivery_logs"."subscription_id" = $1');
+    expect(query.params).toContain("sub-2");
+  });
+
+  it("does not continue resolved items", async () => {
+    const { db } = createRecordingDb([{ externalId: "OPS-1", resolved: true }]);
+    const store = createCorrelationStore(db);
+
+    expect(
+      await store.findOpenExternalId({
+        subscriptionId: "sub-1",
+        correlationKey: "incident:inc-1",
+      }),
+    ).toBeUndefined();
+  });
+
+  it("resolves issue keys within the webhook's connection only", async () => {
+    const { db, renderConditions } = createRecordingDb([
+      { correlationKey: "incident:inc-1" },
+    ]);
+    const store = createCorrelationStore(db);
+
+    // Both connections track an issue OPS-1 in their own Jira
+    await store.findCorrelationKey({
+      providerId: "integration-jira.jira",
+      connectionId: "conn-a",
+      externalId: "OPS-1",
+    });
+    await store.findCorrelationKey({
+      providerId: "integration-jira.jira",
+      connectionId: "conn-b",
+      externalId: "OPS-1",
+    });
+
+    const [first, second] = renderConditions();
+    expect(first.sql).toContain(
+      `"webhook_subscriptions"."provider_config" ->> 'connectionId'`,
+    );
+    expect(first.params).toContain("conn-a");
+    expect(first.params).not.toContain("conn-b");
+    expect(second.params).toContain("conn-b");
+    expect(second.params).not.toContain("conn-a");
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Correlation of integration deliveries.
+ *
+ * Events that belong to the same incident or system share a correlation key,
+ * which is stored with every delivery log. Providers use it to continue the
+ * external item of an earlier delivery (e.g., comment on an existing Jira
+ * issue) instead of creating a new one for every event.
+ */
+import type { SafeDatabase } from "@checkstack/backend-api";
+import { and, desc, eq, isNotNull, sql } from "drizzle-orm";
+import * as schema from "./schema";
+
+/**
+ * Derive the correlation key of an event payload.
+ * Incident events are correlated by incident, health events by system.
+ */
+export function getCorrelationKey(
+  payload: Record<string, unknown>,
+): string | undefined {
+  const { incidentId, systemId } = payload;
+  if (typeof incidentId === "string" && incidentId) {
+    return `incident:${incidentId}`;
+  }
+  if (typeof systemId === "string" && systemId) {
+    return `system:${systemId}`;
+  }
+  return undefined;
+}
+
+/**
+ * Extract the incident ID from a correlation key, if it is an incident key.
+ */
+export function getIncidentIdFromCorrelationKey(
+  correlationKey: string,
+): string | undefined {
+  return correlationKey.startsWith("incident:")
+    ? correlationKey.slice("incident:".length)
+    : undefined;
+}
+
+export interface CorrelationStore {
+  /**
+   * External ID of the latest successful delivery of a subscription for the
+   * correlation key, unless that delivery resolved the external item.
+   * Scoped to the subscription, so subscriptions never continue items of
+   * another subscription or connection.
+   */
+  findOpenExternalId(params: {
+    subscriptionId: string;
+    correlationKey: string;
+  }): Promise<string | undefined>;
+
+  /**
+   * Correlation key of the latest successful delivery of a provider that
+   * created or continued the given external item through the connection.
+   * External IDs are only unique per connection, e.g. Jira issue keys.
+   */
+  findCorrelationKey(params: {
+    providerId: string;
+    connectionId: string;
+    externalId: string;
+  }): Promise<string | undefined>;
+}
+
+/**
+ * Create a correlation store backed by the delivery logs.
+ */
+export function createCorrelationStore(
+  db: SafeDatabase<typeof schema>,
+): CorrelationStore {
+  return {
+    async findOpenExternalId({ subscriptionId, correlationKey }) {
+      const [latest] = await db
+        .select({
+          externalId: schema.deliveryLogs.externalId,
+          resolved: schema.deliveryLogs.resolved,
+        })
+        .from(schema.deliveryLogs)
+        .where(
+          and(
+            eq(schema.deliveryLogs.subscriptionId, subscriptionId),
+            eq(schema.deliveryLogs.correlationKey, correlationKey),
+            eq(schema.deliveryLogs.status, "success"),
+            isNotNull(schema.deliveryLogs.externalId),
+          ),
+        )
+        .orderBy(desc(schema.deliveryLogs.createdAt))
+        .limit(1);
+
+      return latest && !latest.resolved
+        ? (latest.externalId ?? undefined)
+        : undefined;
+    },
+
+    async findCorrelationKey({ providerId, connectionId, externalId }) {
+      const [latest] = await db
+        .select({ correlationKey: schema.deliveryLogs.correlationKey })
+        .from(schema.deliveryLogs)
+        .innerJoin(
+          schema.webhookSubscriptions,
+          eq(
+            schema.deliveryLogs.subscriptionId,
+            schema.webhookSubscriptions.id,
+          ),
+        )
+        .where(
+          and(
+            eq(schema.webhookSubscriptions.providerId, providerId),
+            // Connection-based providers store their connection in the config
+            eq(
+              sql`${schema.webhookSubscriptions.providerConfig} ->> 'connectionId'`,
+              connectionId,
+            ),
+            eq(schema.deliveryLogs.externalId, externalId),
+            eq(schema.deliveryLogs.status, "success"),
+            isNotNull(schema.deliveryLogs.correlationKey),
+          ),
+        )
+        .orderBy(desc(schema.deliveryLogs.createdAt))
+        .limit(1);
+
+      return latest?.correlationKey ?? undefined;
+    },
+  };
+}
@@ -6,6 +6,10 @@ import { eq, sql } from "drizzle-orm";
 
 import type { IntegrationProviderRegistry } from "./provider-registry";
 import type { ConnectionStore } from "./connection-store";
+import {
+  getCorrelationKey,
+  type CorrelationStore,
+} from "./correlation-store";
 import * as schema from "./schema";
 import { INTEGRATION_DELIVERY_COMPLETED } from "@checkstack/integration-common";
 
@@ -58,6 +62,7 @@ interface DeliveryCoordinatorDeps {
   db: SafeDatabase<typeof schema>;
   providerRegistry: IntegrationProviderRegistry;
   connectionStore: ConnectionStore;
+  correlationStore: CorrelationStore;
   queueManager: QueueManager;
   signalService: SignalService;
   logger: Logger;
@@ -73,6 +78,7 @@ export function createDeliveryCoordinator(
     db,
     providerRegistry,
     connectionStore,
+    correlationStore,
     queueManager,
     signalService,
     logger,
@@ -150,6 +156,18 @@ export function createDeliveryCoordinator(
       .where(eq(schema.deliveryLogs.id, job.logId));
 
     try {
+      // Look up the subscription's open item of the same incident or system
+      const correlationKey = getCorrelationKey(job.payload);
+      const correlation = correlationKey
+        ? {
+            key: correlationKey,
+            externalId: await correlationStore.findOpenExternalId({
+              subscriptionId: job.subscriptionId,
+              correlationKey,
+            }),
+          }
+        : undefined;
+
       // Call the provider's deliver method
       const result = await provider.deliver({
         event: {
@@ -166,6 +184,7 @@ export function createDeliveryCoordinator(
         logger: logger,
         getConnectionWithCredentials:
           connectionStore.getConnectionWithCredentials.bind(connectionStore),
+        correlation,
       });
 
       if (result.success) {
@@ -175,6 +194,7 @@ export function createDeliveryCoordinator(
           .set({
             status: "success",
             externalId: result.externalId,
+            resolved: result.resolved ?? false,
             errorMessage: undefined,
             nextRetryAt: undefined,
           })
@@ -292,6 +312,7 @@ export function createDeliveryCoordinator(
           subscriptionId: subscription.id,
           eventType: eventId,
           eventPayload: payload,
+          correlationKey: getCorrelationKey(payload),
           status: "pending",
           attempts: 0,
         });
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { z } from "zod";
+import { Versioned, type Logger } from "@checkstack/backend-api";
+import {
+  createIntegrationProviderRegistry,
+  type IntegrationProviderRegistry,
+} from "./provider-registry";
+import type { ConnectionStore } from "./connection-store";
+import type { CorrelationStore } from "./correlation-store";
+import type { InboundWebhookParams } from "./provider-types";
+import { createInboundWebhookHandler } from "./inbound-webhook";
+import { getCorrelationKey } from "./correlation-store";
+
+/**
+ * Unit tests for the inbound webhook handler and correlation keys.
+ *
+ * Tests cover:
+ * - Dispatching to the provider with the connection config
+ * - Correlation lookups scoped to the provider and connection
+ * - Rejecting unknown providers and foreign connections
+ * - Deriving correlation keys from event payloads
+ */
+
+const mockLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+} as unknown as Logger;
+
+const testPluginMetadata = {
+  pluginId: "test-plugin",
+  displayName: "Test Plugin",
+} as const;
+
+const BASE_URL = "http://localhost/api/integration/inbound";
+
+describe("createInboundWebhookHandler", () => {
+  let registry: IntegrationProviderRegistry;
+  let received: InboundWebhookParams | undefined;
+  let handler: (req: Request) => Promise<Response>;
+  const findCorrelationKey = mock(
+    async (_params: {
+      providerId: string;
+      connectionId: string;
+      externalId: string;
+    }) => "incident:inc-1",
+  );
+
+  beforeEach(() => {
+    received = undefined;
+    findCorrelationKey.mockClear();
+    registry = createIntegrationProviderRegistry();
+
+    registry.register(
+      {
+        id: "tracker",
+        displayName: "Tracker",
+        config: new Versioned({ version: 1, schema: z.object({}) }),
+        deliver: async () => ({ success: true }),
+        handleInboundWebhook: async (params) => {
+          received = params;
+          const correlationKey = await params.findCorrelationKey("TRK-1");
+          return Response.json({ correlationKey });
+        },
+      },
+      testPluginMetadata,
+    );
+    registry.register(
+      {
+        id: "plain",
+        displayName: "Plain",
+        config: new Versioned({ version: 1, schema: z.object({}) }),
+        deliver: async () => ({ success: true }),
+      },
+      testPluginMetadata,
+    );
+
+    const connections: Record<string, Record<string, unknown>> = {
+      "conn-1": { secret: "s3cret" },
+      "conn-3": { secret: "other" },
+    };
+    const connectionStore = {
+      getConnectionWithCredentials: async (connectionId: string) =>
+        connections[connectionId]
+          ? {
+              id: connectionId,
+              providerId: "test-plugin.tracker",
+              name: "Tracker",
+              config: connections[connectionId],
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            }
+          : undefined,
+    } as unknown as ConnectionStore;
+
+    const correlationStore = {
+      findOpenExternalId: async () => undefined,
+      findCorrelationKey,
+    } satisfies CorrelationStore;
+
+    handler = createInboundWebhookHandler({
+      providerRegistry: registry,
+      connectionStore,
+      correlationStore,
+      logger: mockLogger,
+    });
+  });
+
+  it("dispatches to the provider with the connection config", async () => {
+    const response = await handler(
+      new Request(`${BASE_URL}/test-plugin.tracker/conn-1`, {
+        method: "POST",
+        body: '{"hello":"world"}',
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ correlationKey: "incident:inc-1" });
+    expect(received?.connectionId).toBe("conn-1");
+    expect(received?.connection).toEqual({ secret: "s3cret" });
+    expect(received?.body).toBe('{"hello":"world"}');
+    expect(findCorrelationKey).toHaveBeenCalledWith({
+      providerId: "test-plugin.tracker",
+      connectionId: "conn-1",
+      externalId: "TRK-1",
+    });
+  });
+
+  it("scopes correlation lookups to the connection of the URL", async () => {
+    await handler(
+      new Request(`${BASE_URL}/test-plugin.tracker/conn-3`, {
+        method: "POST",
+      }),
+    );
+
+    expect(received?.connection).toEqual({ secret: "other" });
+    expect(findCorrelationKey).toHaveBeenCalledWith({
+      providerId: "test-plugin.tracker",
+      connectionId: "conn-3",
+      externalId: "TRK-1",
+    });
+  });
+
+  it("rejects providers without inbound webhook support", async () => {
+    const response = await handler(
+      new Request(`${BASE_URL}/test-plugin.plain/conn-1`, { method: "POST" }),
+    );
+
+    expect(response.status).toBe(404);
+    expect(received).toBeUndefined();
+  });
+
+  it("rejects unknown connections", async () => {
+    const response = await handler(
+      new Request(`${BASE_URL}/test-plugin.tracker/conn-2`, { method: "POST" }),
+    );
+
+    expect(response.status).toBe(404);
+    expect(received).toBeUndefined();
+  });
+
+  it("rejects non-POST requests", async () => {
+    const response = await handler(
+      new Request(`${BASE_URL}/test-plugin.tracker/conn-1`),
+    );
+
+    expect(response.status).toBe(405);
+  });
+});
+
+describe("getCorrelationKey", () => {
+  it("correlates incident events by incident", () => {
+    expect(
+      getCorrelationKey({ incidentId: "inc-1", systemIds: ["sys-1"] }),
+    ).toBe("incident:inc-1");
+  });
+
+  it("correlates health events by system", () => {
+    expect(
+      getCorrelationKey({ systemId: "sys-1", newStatus: "degraded" }),
+    ).toBe("system:sys-1");
+  });
+
+  it("returns undefined for unrelated events", () => {
+    expect(getCorrelationKey({ maintenanceId: "m-1" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import type { Logger } from "@checkstack/backend-api";
+import type { IntegrationProviderRegistry } from "./provider-registry";
+import type { ConnectionStore } from "./connection-store";
+import type { CorrelationStore } from "./correlation-store";
+
+/**
+ * Path of the inbound webhook handler within the integration plugin namespace.
+ */
+export const INBOUND_WEBHOOK_PATH = "/inbound";
+
+interface InboundWebhookHandlerDeps {
+  providerRegistry: IntegrationProviderRegistry;
+  connectionStore: ConnectionStore;
+  correlationStore: CorrelationStore;
+  logger: Logger;
+}
+
+function notFound(message: string): Response {
+  return Response.json({ error: message }, { status: 404 });
+}
+
+/**
+ * Create the HTTP handler for inbound webhooks of external systems.
+ *
+ * Requests to /api/integration/inbound/{qualifiedProviderId}/{connectionId}
+ * are dispatched to the provider's handleInboundWebhook() together with the
+ * connection's configuration, which lets providers authenticate the request.
+ */
+export function createInboundWebhookHandler(
+  deps: InboundWebhookHandlerDeps,
+): (req: Request) => Promise<Response> {
+  const { providerRegistry, connectionStore, correlationStore, logger } = deps;
+
+  return async (req: Request) => {
+    if (req.method !== "POST") {
+      return Response.json({ error: "Method not allowed" }, { status: 405 });
+    }
+
+    const { pathname } = new URL(req.url);
+    const [providerId, connectionId] = pathname
+      .slice(
+        pathname.indexOf(INBOUND_WEBHOOK_PATH) + INBOUND_WEBHOOK_PATH.length,
+      )
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+
+    if (!providerId || !connectionId) {
+      return notFound("Expected /inbound/{providerId}/{connectionId}");
+    }
+
+    const provider = providerRegistry.getProvider(providerId);
+    if (!provider?.handleInboundWebhook) {
+      return notFound(`Provider does not accept webhooks: ${providerId}`);
+    }
+
+    const connection =
+      await connectionStore.getConnectionWithCredentials(connectionId);
+    if (!connection || connection.providerId !== providerId) {
+      return notFound(`Connection not found: ${connectionId}`);
+    }
+
+    try {
+      return await provider.handleInboundWebhook({
+        request: req,
+        body: await req.text(),
+        connectionId,
+        connection: connection.config,
+        findCorrelationKey: (externalId) =>
+          correlationStore.findCorrelationKey({
+            providerId,
+            connectionId,
+            externalId,
+          }),
+        logger,
+      });
+    } catch (error) {
+      logger.error(`Inbound webhook for ${providerId} failed`, error);
+      return Response.json(
+        { error: "Failed to process webhook" },
+        { status: 500 },
+      );
+    }
+  };
+}
@@ -32,6 +32,11 @@ import {
   createConnectionStore,
   type ConnectionStore,
 } from "./connection-store";
+import { createCorrelationStore } from "./correlation-store";
+import {
+  createInboundWebhookHandler,
+  INBOUND_WEBHOOK_PATH,
+} from "./inbound-webhook";
 import { subscribeToRegisteredEvents } from "./hook-subscriber";
 import { createIntegrationRouter } from "./router";
 import { registerSearchProvider } from "@checkstack/command-backend";
@@ -165,11 +170,15 @@ export default createBackendPlugin({
         // Publish connection store for provider plugins to inject
         env.registerService(connectionStoreRef, connectionStore);
 
+        // Correlates deliveries of the same incident or system
+        const correlationStore = createCorrelationStore(db);
+
         // Create delivery coordinator
         const deliveryCoordinator = createDeliveryCoordinator({
           db,
           providerRegistry,
           connectionStore,
+          correlationStore,
           queueManager,
           signalService,
           logger,
@@ -210,6 +219,17 @@ export default createBackendPlugin({
         });
         rpc.registerRouter(router, integrationContract);
 
+        // Inbound webhooks of external systems: /api/integration/inbound/*
+        rpc.registerHttpHandler(
+          createInboundWebhookHandler({
+            providerRegistry,
+            connectionStore,
+            correlationStore,
+            logger,
+          }),
+          INBOUND_WEBHOOK_PATH
+        );
+
         // Register command palette commands
         registerSearchProvider({
           pluginMetadata,
@@ -300,7 +320,14 @@ export type {
   ProviderDocumentation,
   ConnectionOption,
   GetConnectionOptionsParams,
+  InboundWebhookParams,
   IntegrationProvider,
   RegisteredIntegrationProvider,
   RegisteredIntegrationEvent,
 } from "./provider-types";
+
+// Re-export correlation helpers for providers handling inbound webhooks
+export {
+  getCorrelationKey,
+  getIncidentIdFromCorrelationKey,
+} from "./correlation-store";
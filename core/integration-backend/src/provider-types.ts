@@ -75,6 +75,20 @@ export interface IntegrationDeliveryContext<TConfig = unknown> {
   getConnectionWithCredentials?: (
     connectionId: string
   ) => Promise<{ config: Record<string, unknown> } | undefined>;
+  /**
+   * Correlation with earlier deliveries of this subscription.
+   * Only set for events that belong to an incident or system.
+   */
+  correlation?: {
+    /** Incident or system the event belongs to, e.g. "incident:<id>" */
+    key: string;
+    /**
+     * External ID of the latest delivery for the same key, unless that
+     * delivery resolved it. Providers can continue this item instead of
+     * creating a new one.
+     */
+    externalId?: string;
+  };
 }
 
 /**
@@ -84,6 +98,11 @@ export interface IntegrationDeliveryResult {
   success: boolean;
   /** External ID returned by the target system (e.g., Jira issue key) */
   externalId?: string;
+  /**
+   * Set when the delivery resolved the external item (e.g., closed the Jira
+   * issue), so the next event for the same incident or system starts a new one.
+   */
+  resolved?: boolean;
   /** Error message if delivery failed */
   error?: string;
   /** Milliseconds to wait before retrying (if applicable) */
@@ -142,6 +161,28 @@ export interface GetConnectionOptionsParams {
   ) => Promise<{ config: Record<string, unknown> } | undefined>;
 }
 
+/**
+ * Parameters for handleInboundWebhook method.
+ */
+export interface InboundWebhookParams<TConnection = unknown> {
+  /** The raw inbound request */
+  request: Request;
+  /** Raw request body, e.g. for signature verification */
+  body: string;
+  /** ID of the connection the webhook was sent for */
+  connectionId: string;
+  /** Configuration of that connection, including secrets */
+  connection: TConnection;
+  /**
+   * Look up the correlation key (e.g., "incident:<id>") of an external item
+   * created or continued by a delivery of this provider through this
+   * connection.
+   */
+  findCorrelationKey: (externalId: string) => Promise<string | undefined>;
+  /** Logger for logging */
+  logger: Logger;
+}
+
 /**
  * Integration provider definition.
  * Providers define how to deliver events to specific external systems.
@@ -212,6 +253,17 @@ export interface IntegrationProvider<
   getConnectionOptions?(
     params: GetConnectionOptionsParams
   ): Promise<ConnectionOption[]>;
+
+  /**
+   * Optional: Handle webhooks sent by the external system, e.g. to mirror
+   * status changes back. Served at
+   * /api/integration/inbound/{qualifiedProviderId}/{connectionId}.
+   * The provider is responsible for authenticating the request.
+   * Only applicable when connectionSchema is defined.
+   */
+  handleInboundWebhook?(
+    params: InboundWebhookParams<TConnection>
+  ): Promise<Response>;
 }
 
 /**
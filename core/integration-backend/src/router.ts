@@ -278,32 +278,42 @@ export function createIntegrationRouter(deps: RouterDeps) {
       };
     }),
 
-    updateSubscription: os.updateSubscription.handler(async ({ input }) => {
-      const { id, updates } = input;
+    updateSubscription: os.updateSubscription.handler(
+      async ({ input, context }) => {
+        const { id, updates } = input;
 
-      // Check subscription exists
-      const [existing] = await db
-        .select()
-        .from(schema.webhookSubscriptions)
-        .where(eq(schema.webhookSubscriptions.id, id));
+        // Check subscription exists
+        const [existing] = await db
+          .select()
+          .from(schema.webhookSubscriptions)
+          .where(eq(schema.webhookSubscriptions.id, id));
 
-      if (!existing) {
-        throw new ORPCError("NOT_FOUND", {
-          message: "Subscription not found",
-        });
-      }
+        if (!existing) {
+          throw new ORPCError("NOT_FOUND", {
+            message: "Subscription not found",
+          });
+        }
 
-      // Validate event if updated
-      if (updates.eventId && !eventRegistry.hasEvent(updates.eventId)) {
-        throw new ORPCError("BAD_REQUEST", {
-          message: `Event type not found: ${updates.eventId}`,
+        // Let the audit log diff the change and redact the provider secrets
+        context.audit?.recordBefore({
+          ...existing,
+          description: existing.description ?? undefined,
+          systemFilter: existing.systemFilter ?? undefined,
         });
-      }
-
-      // Validate providerConfig if updated
-      if (updates.providerConfig) {
         const provider = providerRegistry.getProvider(existing.providerId);
         if (provider) {
+          context.audit?.addSecretSchema(provider.config.schema);
+        }
+
+        // Validate event if updated
+        if (updates.eventId && !eventRegistry.hasEvent(updates.eventId)) {
+          throw new ORPCError("BAD_REQUEST", {
+            message: `Event type not found: ${updates.eventId}`,
+          });
+        }
+
+        // Validate providerConfig if updated
+        if (updates.providerConfig && provider) {
           const configParseResult = provider.config.schema.safeParse(
             updates.providerConfig
           );
@@ -313,38 +323,38 @@ export function createIntegrationRouter(deps: RouterDeps) {
             });
           }
         }
-      }
 
-      const now = new Date();
+        const now = new Date();
 
-      await db
-        .update(schema.webhookSubscriptions)
-        .set({
-          ...updates,
-          updatedAt: now,
-        })
-        .where(eq(schema.webhookSubscriptions.id, id));
+        await db
+          .update(schema.webhookSubscriptions)
+          .set({
+            ...updates,
+            updatedAt: now,
+          })
+          .where(eq(schema.webhookSubscriptions.id, id));
 
-      // Emit signal
-      await signalService.broadcast(INTEGRATION_SUBSCRIPTION_CHANGED, {
-        action: "updated",
-        subscriptionId: id,
-      });
+        // Emit signal
+        await signalService.broadcast(INTEGRATION_SUBSCRIPTION_CHANGED, {
+          action: "updated",
+          subscriptionId: id,
+        });
 
-      // Re-fetch updated subscription
-      const [updated] = await db
-        .select()
-        .from(schema.webhookSubscriptions)
-        .where(eq(schema.webhookSubscriptions.id, id));
+        // Re-fetch updated subscription
+        const [updated] = await db
+          .select()
+          .from(schema.webhookSubscriptions)
+          .where(eq(schema.webhookSubscriptions.id, id));
 
-      return {
-        ...updated,
-        description: updated.description ?? undefined,
-        systemFilter: updated.systemFilter ?? undefined,
-        createdAt: updated.createdAt,
-        updatedAt: updated.updatedAt,
-      };
-    }),
+        return {
+          ...updated,
+          description: updated.description ?? undefined,
+          systemFilter: updated.systemFilter ?? undefined,
+          createdAt: updated.createdAt,
+          updatedAt: updated.updatedAt,
+        };
+      }
+    ),
 
     deleteSubscription: os.deleteSubscription.handler(async ({ input }) => {
       const { id } = input;
@@ -71,6 +71,12 @@ export const deliveryLogs = pgTable("delivery_logs", {
   /** External ID returned by the target system (e.g., Jira issue key) */
   externalId: text("external_id"),
 
+  /** Incident or system the event belongs to, e.g. "incident:<id>" */
+  correlationKey: text("correlation_key"),
+
+  /** Whether this delivery resolved the external item (e.g., closed the Jira issue) */
+  resolved: boolean("resolved").notNull().default(false),
+
   /** Error message from last failed attempt */
   errorMessage: text("error_message"),
 
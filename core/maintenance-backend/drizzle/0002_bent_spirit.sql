@@ -0,0 +1,25 @@
+CREATE TABLE "maintenance_series" (
+	"id" text PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"suppress_notifications" boolean DEFAULT false NOT NULL,
+	"rrule" text NOT NULL,
+	"timezone" text NOT NULL,
+	"dtstart" text NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"exceptions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "maintenance_series_systems" (
+	"series_id" text NOT NULL,
+	"system_id" text NOT NULL,
+	CONSTRAINT "maintenance_series_systems_series_id_system_id_pk" PRIMARY KEY("series_id","system_id")
+);
+--> statement-breakpoint
+ALTER TABLE "maintenances" ADD COLUMN "series_id" text;--> statement-breakpoint
+ALTER TABLE "maintenances" ADD COLUMN "occurrence_date" text;--> statement-breakpoint
+ALTER TABLE "maintenance_series_systems" ADD CONSTRAINT "maintenance_series_systems_series_id_maintenance_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "maintenance_series"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenances" ADD CONSTRAINT "maintenances_series_id_maintenance_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "maintenance_series"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenances" ADD CONSTRAINT "maintenances_series_occurrence_unique" UNIQUE("series_id","occurrence_date");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "calendar_feed_tokens" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"token_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp,
+	CONSTRAINT "calendar_feed_tokens_token_hash_unique" UNIQUE("token_hash")
+);
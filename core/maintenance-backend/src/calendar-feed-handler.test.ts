@@ -0,0 +1,190 @@
+import { describe, it, expect, mock } from "bun:test";
+import {
+  CALENDAR_FEED_API_PATH,
+  type MaintenanceWithSystems,
+} from "@checkstack/maintenance-common";
+import type { InferClient } from "@checkstack/common";
+import type { CatalogApi } from "@checkstack/catalog-common";
+import type { AuthApi } from "@checkstack/auth-common";
+import type { Logger } from "@checkstack/backend-api";
+import {
+  createCalendarFeedHandler,
+  parseCalendarFeedRequest,
+} from "./calendar-feed-handler";
+import { escapeText, foldLine, renderCalendar } from "./ics";
+import type { MaintenanceService } from "./service";
+import type { CalendarFeedService } from "./calendar-feed-service";
+
+const BASE = `http://localhost:3000${CALENDAR_FEED_API_PATH}`;
+
+const maintenance = (
+  overrides: Partial<MaintenanceWithSystems> = {},
+): MaintenanceWithSystems => ({
+  id: "m-1",
+  title: "Database upgrade",
+  description: "Postgres 17, expect short outages",
+  suppressNotifications: false,
+  status: "scheduled",
+  startAt: new Date("2026-03-01T02:00:00Z"),
+  endAt: new Date("2099-03-01T04:00:00Z"),
+  createdAt: new Date("2026-02-01T10:00:00Z"),
+  updatedAt: new Date("2026-02-02T10:00:00Z"),
+  systemIds: ["sys-public", "sys-private"],
+  ...overrides,
+});
+
+describe("ics", () => {
+  it("escapes text values", () => {
+    expect(escapeText("a,b;c\\d\ne")).toBe(String.raw`a\,b\;c\\d\ne`);
+  });
+
+  it("folds long lines without splitting characters", () => {
+    const folded = foldLine(`SUMMARY:${"ä".repeat(60)}`);
+    const lines = folded.split("\r\n");
+
+    expect(lines.length).toBe(2);
+    expect(lines[1].startsWith(" ")).toBe(true);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(lines.map((l, i) => (i === 0 ? l : l.slice(1))).join("")).toBe(
+      `SUMMARY:${"ä".repeat(60)}`,
+    );
+  });
+
+  it("renders stable UIDs, cancellations and the latest update", () => {
+    const ics = renderCalendar({
+      name: "Maintenances",
+      now: new Date("2026-02-03T00:00:00Z"),
+      events: [
+        {
+          maintenance: maintenance({ status: "cancelled" }),
+          latestUpdate: {
+            id: "u-1",
+            maintenanceId: "m-1",
+            message: "Postponed",
+            createdAt: new Date("2026-02-02T10:00:00Z"),
+          },
+          systemNames: ["API"],
+        },
+      ],
+    });
+
+    expect(ics).toContain("UID:m-1@maintenance.checkstack\r\n");
+    expect(ics).toContain("STATUS:CANCELLED\r\n");
+    expect(ics).toContain("DTSTART:20260301T020000Z\r\n");
+    expect(ics).toContain("DTSTAMP:20260203T000000Z\r\n");
+    const unfolded = ics.replaceAll("\r\n ", "");
+    expect(unfolded).toContain(String.raw`Affected systems: API\n\n`);
+    expect(unfolded).toContain("Postponed");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+});
+
+describe("parseCalendarFeedRequest", () => {
+  it("resolves global and system feeds", () => {
+    expect(
+      parseCalendarFeedRequest(new URL(`${BASE}/maintenances.ics`)),
+    ).toEqual({});
+    expect(
+      parseCalendarFeedRequest(new URL(`${BASE}/system/sys-1.ics?token=x`)),
+    ).toEqual({ systemId: "sys-1" });
+    expect(parseCalendarFeedRequest(new URL(`${BASE}/other`))).toBeUndefined();
+  });
+});
+
+describe("createCalendarFeedHandler", () => {
+  const createHandler = ({ allowed = true } = {}) => {
+    const maintenanceService = {
+      listMaintenances: mock(async () => [
+        maintenance(),
+        // Ended long ago, not part of the feed
+        maintenance({
+          id: "m-old",
+          startAt: new Date("2020-01-01T00:00:00Z"),
+          endAt: new Date("2020-01-01T01:00:00Z"),
+        }),
+      ]),
+      getLatestUpdates: mock(async () => new Map()),
+    };
+    const feedService = {
+      resolveUserId: mock(async (token: string) =>
+        token === "valid" ? "user-1" : undefined,
+      ),
+    };
+    const handler = createCalendarFeedHandler({
+      maintenanceService: maintenanceService as unknown as MaintenanceService,
+      feedService: feedService as unknown as CalendarFeedService,
+      catalogClient: {
+        getPublicSystemIds: mock(async () => ({ systemIds: ["sys-public"] })),
+        getSystems: mock(async () => ({
+          systems: [
+            { id: "sys-public", name: "Public API" },
+            { id: "sys-private", name: "Secret DB" },
+          ],
+        })),
+      } as unknown as InferClient<typeof CatalogApi>,
+      authClient: {
+        filterUsersByAccessRule: mock(async ({ userIds }) =>
+          allowed ? userIds : [],
+        ),
+      } as unknown as InferClient<typeof AuthApi>,
+      logger: { error: mock() } as unknown as Logger,
+    });
+    return { handler, maintenanceService };
+  };
+
+  it("serves all maintenances with a valid token", async () => {
+    const { handler } = createHandler();
+    const res = await handler(
+      new Request(`${BASE}/maintenances.ics?token=valid`),
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/calendar");
+    const ics = await res.text();
+    expect(ics).toContain("UID:m-1@");
+    expect(ics).not.toContain("UID:m-old@");
+    expect(ics).toContain("Secret DB");
+  });
+
+  it("rejects invalid tokens and users without access", async () => {
+    expect(
+      (
+        await createHandler().handler(
+          new Request(`${BASE}/maintenances.ics?token=wrong`),
+        )
+      ).status,
+    ).toBe(401);
+    expect(
+      (
+        await createHandler({ allowed: false }).handler(
+          new Request(`${BASE}/maintenances.ics?token=valid`),
+        )
+      ).status,
+    ).toBe(403);
+  });
+
+  it("serves systems on public views without a token", async () => {
+    const { handler, maintenanceService } = createHandler();
+    const res = await handler(new Request(`${BASE}/system/sys-public.ics`));
+
+    expect(res.status).toBe(200);
+    expect(maintenanceService.listMaintenances).toHaveBeenCalledWith({
+      systemId: "sys-public",
+    });
+    const ics = await res.text();
+    expect(ics).toContain("Public API");
+    expect(ics).not.toContain("Secret DB");
+  });
+
+  it("requires a token for private systems and the global feed", async () => {
+    const { handler } = createHandler();
+    expect(
+      (await handler(new Request(`${BASE}/system/sys-private.ics`))).status,
+    ).toBe(404);
+    expect(
+      (await handler(new Request(`${BASE}/maintenances.ics`))).status,
+    ).toBe(401);
+  });
+});
@@ -0,0 +1,146 @@
+import type { Logger } from "@checkstack/backend-api";
+import { qualifyAccessRuleId, type InferClient } from "@checkstack/common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { AuthApi } from "@checkstack/auth-common";
+import {
+  CALENDAR_FEED_API_PATH,
+  maintenanceAccess,
+  pluginMetadata,
+} from "@checkstack/maintenance-common";
+import type { MaintenanceService } from "./service";
+import type { CalendarFeedService } from "./calendar-feed-service";
+import { renderCalendar } from "./ics";
+
+/** How long past maintenances stay in a feed */
+const FEED_HISTORY_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve which feed a request targets.
+ *
+ * - `/api/maintenance/calendar/maintenances.ics` serves all maintenances
+ * - `/api/maintenance/calendar/system/<systemId>.ics` serves one system
+ */
+export function parseCalendarFeedRequest(
+  url: URL,
+): { systemId?: string } | undefined {
+  const path = url.pathname.slice(CALENDAR_FEED_API_PATH.length);
+  if (path === "/maintenances.ics") return {};
+
+  const match = /^\/system\/([^/]+)\.ics$/.exec(path);
+  return match ? { systemId: decodeURIComponent(match[1]) } : undefined;
+}
+
+const calendarResponse = (body: string, cacheControl: string) =>
+  new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="maintenances.ics"',
+      "Cache-Control": cacheControl,
+    },
+  });
+
+/**
+ * HTTP handler serving maintenances as subscribable iCalendar feeds.
+ *
+ * Requests are authenticated with a personal feed token (`?token=`). Feeds of
+ * systems that are part of a public view can be fetched without one.
+ */
+export function createCalendarFeedHandler({
+  maintenanceService,
+  feedService,
+  catalogClient,
+  authClient,
+  logger,
+}: {
+  maintenanceService: MaintenanceService;
+  feedService: CalendarFeedService;
+  catalogClient: InferClient<typeof CatalogApi>;
+  authClient: InferClient<typeof AuthApi>;
+  logger: Logger;
+}) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const url = new URL(req.url);
+    const target = parseCalendarFeedRequest(url);
+    if (!target) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const token = url.searchParams.get("token");
+
+    try {
+      // Systems of anonymous feeds, undefined for authenticated ones
+      let publicSystemIds: Set<string> | undefined;
+
+      if (token) {
+        const userId = await feedService.resolveUserId(token);
+        if (!userId) {
+          return new Response("Invalid feed token", { status: 401 });
+        }
+        const allowed = await authClient.filterUsersByAccessRule({
+          userIds: [userId],
+          accessRule: qualifyAccessRuleId(
+            pluginMetadata,
+            maintenanceAccess.maintenance.read,
+          ),
+        });
+        if (allowed.length === 0) {
+          return new Response("Forbidden", { status: 403 });
+        }
+      } else {
+        if (!target.systemId) {
+          return new Response("Feed token required", { status: 401 });
+        }
+        const { systemIds } = await catalogClient.getPublicSystemIds();
+        publicSystemIds = new Set(systemIds);
+        // Respond like an unknown system so private systems are not leaked
+        if (!publicSystemIds.has(target.systemId)) {
+          return new Response("Not Found", { status: 404 });
+        }
+      }
+
+      const since = new Date(Date.now() - FEED_HISTORY_MS);
+      const all = await maintenanceService.listMaintenances(
+        target.systemId ? { systemId: target.systemId } : {},
+      );
+      const maintenances = all.filter((m) => m.endAt >= since);
+
+      const [latestUpdates, { systems }] = await Promise.all([
+        maintenanceService.getLatestUpdates(maintenances.map((m) => m.id)),
+        catalogClient.getSystems(),
+      ]);
+      const systemNames = new Map(
+        systems
+          .filter((s) => !publicSystemIds || publicSystemIds.has(s.id))
+          .map((s) => [s.id, s.name]),
+      );
+
+      const calendarName = target.systemId
+        ? `Maintenances: ${systemNames.get(target.systemId) ?? target.systemId}`
+        : "Maintenances";
+
+      const body = renderCalendar({
+        name: calendarName,
+        events: maintenances.map((maintenance) => ({
+          maintenance,
+          latestUpdate: latestUpdates.get(maintenance.id),
+          systemNames: maintenance.systemIds
+            .map((id) => systemNames.get(id))
+            .filter((name): name is string => name !== undefined),
+        })),
+      });
+
+      return calendarResponse(
+        body,
+        publicSystemIds ? "public, max-age=300" : "private, max-age=300",
+      );
+    } catch (error) {
+      logger.error("Failed to render maintenance calendar feed:", error);
+      return new Response("Failed to render calendar feed", { status: 500 });
+    }
+  };
+}
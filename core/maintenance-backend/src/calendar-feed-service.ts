@@ -0,0 +1,79 @@
+import { createHash, randomBytes } from "node:crypto";
+import { eq } from "drizzle-orm";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import type { CalendarFeedToken } from "@checkstack/maintenance-common";
+import * as schema from "./schema";
+import { calendarFeedTokens } from "./schema";
+
+type Db = SafeDatabase<typeof schema>;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Personal feed tokens authenticating calendar clients, which cannot send
+ * session cookies or API keys.
+ */
+export class CalendarFeedService {
+  constructor(private db: Db) {}
+
+  /**
+   * Get the token metadata of a user
+   */
+  async getToken(userId: string): Promise<CalendarFeedToken | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(calendarFeedTokens)
+      .where(eq(calendarFeedTokens.userId, userId));
+
+    return row
+      ? { createdAt: row.createdAt, lastUsedAt: row.lastUsedAt ?? undefined }
+      : undefined;
+  }
+
+  /**
+   * Create a token for a user, invalidating the previous one.
+   * The token is returned only here; only its hash is stored.
+   */
+  async createToken(
+    userId: string,
+  ): Promise<CalendarFeedToken & { token: string }> {
+    const token = randomBytes(32).toString("base64url");
+    const createdAt = new Date();
+
+    await this.db
+      .insert(calendarFeedTokens)
+      .values({ userId, tokenHash: hashToken(token), createdAt })
+      .onConflictDoUpdate({
+        target: calendarFeedTokens.userId,
+        // eslint-disable-next-line unicorn/no-null -- clears the column
+        set: { tokenHash: hashToken(token), createdAt, lastUsedAt: null },
+      });
+
+    return { token, createdAt };
+  }
+
+  /**
+   * Revoke the token of a user
+   */
+  async revokeToken(userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(calendarFeedTokens)
+      .where(eq(calendarFeedTokens.userId, userId))
+      .returning({ userId: calendarFeedTokens.userId });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Resolve the user a token belongs to and record its use
+   */
+  async resolveUserId(token: string): Promise<string | undefined> {
+    const [row] = await this.db
+      .update(calendarFeedTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(calendarFeedTokens.tokenHash, hashToken(token)))
+      .returning({ userId: calendarFeedTokens.userId });
+    return row?.userId;
+  }
+}
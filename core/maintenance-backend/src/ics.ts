@@ -0,0 +1,133 @@
+import type {
+  MaintenanceUpdate,
+  MaintenanceWithSystems,
+} from "@checkstack/maintenance-common";
+
+/** Domain part of event UIDs, keeps them globally unique */
+const UID_DOMAIN = "maintenance.checkstack";
+
+/** Maximum length of a content line in octets, excluding the line break */
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  maintenance: MaintenanceWithSystems;
+  latestUpdate?: MaintenanceUpdate;
+  systemNames: string[];
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11).
+ */
+export function escapeText(value: string): string {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replaceAll(";", String.raw`\;`)
+    .replaceAll(",", String.raw`\,`)
+    .replaceAll(/\r?\n/g, String.raw`\n`);
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets (RFC 5545 section 3.1).
+ * Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/** Format a date as UTC date-time, e.g. 20260301T020000Z */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replaceAll(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function buildDescription({
+  maintenance,
+  latestUpdate,
+  systemNames,
+}: CalendarEvent): string {
+  const parts: string[] = [];
+  if (maintenance.description) parts.push(maintenance.description);
+  if (systemNames.length > 0) {
+    parts.push(`Affected systems: ${systemNames.join(", ")}`);
+  }
+  if (latestUpdate) {
+    parts.push(
+      `Latest update (${latestUpdate.createdAt.toISOString()}): ${latestUpdate.message}`,
+    );
+  }
+  return parts.join("\n\n");
+}
+
+function renderEvent(event: CalendarEvent, now: Date): string[] {
+  const { maintenance } = event;
+  const lines = [
+    "BEGIN:VEVENT",
+    // Stable across updates so calendar clients update the existing event
+    `UID:${maintenance.id}@${UID_DOMAIN}`,
+    // Increases with every change of the maintenance
+    `SEQUENCE:${Math.floor(maintenance.updatedAt.getTime() / 1000)}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(maintenance.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(maintenance.updatedAt)}`,
+    `DTSTART:${formatDateTime(maintenance.startAt)}`,
+    `DTEND:${formatDateTime(maintenance.endAt)}`,
+    `SUMMARY:${escapeText(maintenance.title)}`,
+    `STATUS:${maintenance.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:OPAQUE",
+  ];
+
+  const description = buildDescription(event);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Render maintenances as an iCalendar (RFC 5545) document.
+ */
+export function renderCalendar({
+  name,
+  events,
+  now = new Date(),
+}: {
+  name: string;
+  events: CalendarEvent[];
+  now?: Date;
+}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Checkstack//Maintenance Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...events.flatMap((event) => renderEvent(event, now)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map((line) => foldLine(line)).join("\r\n") + "\r\n";
+}
@@ -8,14 +8,19 @@ import {
   maintenanceContract,
   maintenanceRoutes,
   MaintenanceApi,
+  MAINTENANCE_UPDATED,
 } from "@checkstack/maintenance-common";
 
 import { createBackendPlugin, coreServices } from "@checkstack/backend-api";
 import { integrationEventExtensionPoint } from "@checkstack/integration-backend";
 import { MaintenanceService } from "./service";
+import { MaintenanceSeriesService } from "./series-service";
+import { CalendarFeedService } from "./calendar-feed-service";
+import { createCalendarFeedHandler } from "./calendar-feed-handler";
 import { createRouter } from "./router";
 import { CatalogApi } from "@checkstack/catalog-common";
 import { AuthApi } from "@checkstack/auth-common";
+import type { SignalService } from "@checkstack/signal-common";
 import { registerSearchProvider } from "@checkstack/command-backend";
 import { resolveRoute, type InferClient } from "@checkstack/common";
 import { maintenanceHooks } from "./hooks";
@@ -88,6 +93,8 @@ export default createBackendPlugin({
 
     // Store service reference for afterPluginsReady
     let maintenanceService: MaintenanceService;
+    let seriesService: MaintenanceSeriesService;
+    let signals: SignalService;
     // Store clients for afterPluginsReady
     let catalogClient: InferClient<typeof CatalogApi>;
     let maintenanceClient: InferClient<typeof MaintenanceApi>;
@@ -111,8 +118,17 @@ export default createBackendPlugin({
         maintenanceService = new MaintenanceService(
           database as SafeDatabase<typeof schema>,
         );
+        seriesService = new MaintenanceSeriesService(
+          database as SafeDatabase<typeof schema>,
+        );
+        signals = signalService;
+        const feedService = new CalendarFeedService(
+          database as SafeDatabase<typeof schema>,
+        );
         const router = createRouter(
           maintenanceService,
+          seriesService,
+          feedService,
           signalService,
           catalogClient,
           authClient,
@@ -120,6 +136,18 @@ export default createBackendPlugin({
         );
         rpc.registerRouter(router, maintenanceContract);
 
+        // Subscribable iCalendar feeds: /api/maintenance/calendar/*
+        rpc.registerHttpHandler(
+          createCalendarFeedHandler({
+            maintenanceService,
+            feedService,
+            catalogClient,
+            authClient,
+            logger,
+          }),
+          "/calendar",
+        );
+
         // Register "Create Maintenance" command in the command palette
         registerSearchProvider({
           pluginMetadata,
@@ -159,6 +187,29 @@ export default createBackendPlugin({
           async () => {
             logger.debug("⏰ Checking maintenance status transitions...");
 
+            // Materialise upcoming occurrences of recurring maintenances, so
+            // they are started and completed like any other maintenance
+            try {
+              const created = await seriesService.materializeOccurrences();
+              for (const occurrence of created) {
+                await signals.broadcast(MAINTENANCE_UPDATED, {
+                  maintenanceId: occurrence.id,
+                  systemIds: occurrence.systemIds,
+                  action: "created",
+                });
+              }
+              if (created.length > 0) {
+                logger.debug(
+                  `Materialised ${created.length} recurring maintenance occurrences`,
+                );
+              }
+            } catch (error) {
+              logger.error(
+                "Failed to materialise recurring maintenances:",
+                error,
+              );
+            }
+
             // Get maintenances that need to start
             const toStart = await maintenanceService.getMaintenancesToStart();
             for (const maintenance of toStart) {
@@ -10,6 +10,8 @@ import {
 } from "@checkstack/backend-api";
 import type { SignalService } from "@checkstack/signal-common";
 import type { MaintenanceService } from "./service";
+import type { MaintenanceSeriesService } from "./series-service";
+import type { CalendarFeedService } from "./calendar-feed-service";
 import { CatalogApi } from "@checkstack/catalog-common";
 import { AuthApi } from "@checkstack/auth-common";
 import type { InferClient } from "@checkstack/common";
@@ -17,8 +19,13 @@ import { maintenanceHooks } from "./hooks";
 import { notifyAffectedSystems } from "./notifications";
 import type { MaintenanceUpdate } from "@checkstack/maintenance-common";
 
+/** Longest range the calendar can be queried for */
+const MAX_CALENDAR_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
 export function createRouter(
   service: MaintenanceService,
+  seriesService: MaintenanceSeriesService,
+  feedService: CalendarFeedService,
   signalService: SignalService,
   catalogClient: InferClient<typeof CatalogApi>,
   authClient: InferClient<typeof AuthApi>,
@@ -58,6 +65,20 @@ export function createRouter(
     }));
   }
 
+  /**
+   * Materialise upcoming occurrences of a series and announce them.
+   */
+  async function materializeSeries(seriesId: string) {
+    const created = await seriesService.materializeOccurrences({ seriesId });
+    for (const occurrence of created) {
+      await signalService.broadcast(MAINTENANCE_UPDATED, {
+        maintenanceId: occurrence.id,
+        systemIds: occurrence.systemIds,
+        action: "created",
+      });
+    }
+  }
+
   const os = implement(maintenanceContract)
     .$context<RpcContext>()
     .use(autoAuthMiddleware);
@@ -285,6 +306,8 @@ export function createRouter(
     deleteMaintenance: os.deleteMaintenance.handler(async ({ input }) => {
       // Get maintenance before deleting to get systemIds
       const maintenance = await service.getMaintenance(input.id);
+      // Keep the series from recreating a deleted occurrence
+      await seriesService.skipOccurrence(input.id);
       const success = await service.deleteMaintenance(input.id);
       if (success && maintenance) {
         await signalService.broadcast(MAINTENANCE_UPDATED, {
@@ -296,6 +319,115 @@ export function createRouter(
       return { success };
     }),
 
+    listSeries: os.listSeries.handler(async () => {
+      return { series: await seriesService.listSeries() };
+    }),
+
+    createSeries: os.createSeries.handler(async ({ input }) => {
+      const result = await seriesService.createSeries(input);
+      await materializeSeries(result.id);
+      return result;
+    }),
+
+    updateSeries: os.updateSeries.handler(async ({ input }) => {
+      const result = await seriesService.updateSeries(input);
+      if (!result) {
+        throw new ORPCError("NOT_FOUND", {
+          message: "Maintenance series not found",
+        });
+      }
+      // Removed occurrences are recreated from the new definition
+      await signalService.broadcast(MAINTENANCE_UPDATED, {
+        maintenanceId: result.id,
+        systemIds: result.systemIds,
+        action: "updated",
+      });
+      await materializeSeries(result.id);
+      return result;
+    }),
+
+    deleteSeries: os.deleteSeries.handler(async ({ input }) => {
+      const series = await seriesService.getSeries(input.id);
+      const success = await seriesService.deleteSeries(input.id);
+      if (success && series) {
+        await signalService.broadcast(MAINTENANCE_UPDATED, {
+          maintenanceId: series.id,
+          systemIds: series.systemIds,
+          action: "closed",
+        });
+      }
+      return { success };
+    }),
+
+    getCalendar: os.getCalendar.handler(async ({ input }) => {
+      if (input.to <= input.from) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "Calendar range must end after it starts",
+        });
+      }
+      if (input.to.getTime() - input.from.getTime() > MAX_CALENDAR_RANGE_MS) {
+        throw new ORPCError("BAD_REQUEST", {
+          message: "Calendar range must not exceed one year",
+        });
+      }
+
+      const maintenances = await service.listMaintenances({});
+      const scheduled = maintenances
+        .filter((m) => m.startAt < input.to && m.endAt > input.from)
+        .map((m) => ({
+          maintenanceId: m.id,
+          seriesId: m.seriesId,
+          title: m.title,
+          status: m.status,
+          startAt: m.startAt,
+          endAt: m.endAt,
+          systemIds: m.systemIds,
+          projected: false,
+        }));
+      const projected = await seriesService.getProjectedOccurrences(
+        input.from,
+        input.to,
+      );
+
+      return {
+        entries: [...scheduled, ...projected].toSorted(
+          (a, b) => a.startAt.getTime() - b.startAt.getTime(),
+        ),
+      };
+    }),
+
+    getCalendarFeedToken: os.getCalendarFeedToken.handler(
+      async ({ context }) => {
+        const userId =
+          context.user && "id" in context.user ? context.user.id : undefined;
+        const token = userId ? await feedService.getToken(userId) : undefined;
+        // eslint-disable-next-line unicorn/no-null -- oRPC contract requires null for missing values
+        return token ?? null;
+      },
+    ),
+
+    createCalendarFeedToken: os.createCalendarFeedToken.handler(
+      async ({ context }) => {
+        const userId =
+          context.user && "id" in context.user ? context.user.id : undefined;
+        if (!userId) {
+          throw new ORPCError("UNAUTHORIZED", {
+            message: "User ID required to create a feed token",
+          });
+        }
+        return feedService.createToken(userId);
+      },
+    ),
+
+    revokeCalendarFeedToken: os.revokeCalendarFeedToken.handler(
+      async ({ context }) => {
+        const userId =
+          context.user && "id" in context.user ? context.user.id : undefined;
+        const success = userId ? await feedService.revokeToken(userId) : false;
+        return { success };
+      },
+    ),
+
     hasActiveMaintenanceWithSuppression:
       os.hasActiveMaintenanceWithSuppression.handler(async ({ input }) => {
         const suppressed = await service.hasActiveMaintenanceWithSuppression(
@@ -303,5 +435,11 @@ export function createRouter(
         );
         return { suppressed };
       }),
+
+    getMaintenanceWindows: os.getMaintenanceWindows.handler(
+      async ({ input }) => {
+        return service.getMaintenanceWindows(input);
+      },
+    ),
   });
 }
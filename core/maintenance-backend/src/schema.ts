@@ -5,6 +5,10 @@ import {
   timestamp,
   primaryKey,
   boolean,
+  integer,
+  jsonb,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 
 /**
@@ -20,19 +24,34 @@ export const maintenanceStatusEnum = pgEnum("maintenance_status", [
 /**
  * Main maintenance table
  */
-export const maintenances = pgTable("maintenances", {
-  id: text("id").primaryKey(),
-  title: text("title").notNull(),
-  description: text("description"),
-  suppressNotifications: boolean("suppress_notifications")
-    .notNull()
-    .default(false),
-  status: maintenanceStatusEnum("status").notNull().default("scheduled"),
-  startAt: timestamp("start_at").notNull(),
-  endAt: timestamp("end_at").notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const maintenances = pgTable(
+  "maintenances",
+  {
+    id: text("id").primaryKey(),
+    title: text("title").notNull(),
+    description: text("description"),
+    suppressNotifications: boolean("suppress_notifications")
+      .notNull()
+      .default(false),
+    status: maintenanceStatusEnum("status").notNull().default("scheduled"),
+    startAt: timestamp("start_at").notNull(),
+    endAt: timestamp("end_at").notNull(),
+    // Occurrences of a recurring series, identified by their local date
+    seriesId: text("series_id").references(
+      (): AnyPgColumn => maintenanceSeries.id,
+      { onDelete: "set null" },
+    ),
+    occurrenceDate: text("occurrence_date"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    occurrenceUnique: unique("maintenances_series_occurrence_unique").on(
+      t.seriesId,
+      t.occurrenceDate,
+    ),
+  }),
+);
 
 /**
  * Junction table for maintenance-system many-to-many relationship
@@ -63,3 +82,52 @@ export const maintenanceUpdates = pgTable("maintenance_updates", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   createdBy: text("created_by"),
 });
+
+/**
+ * Recurring maintenance definitions (iCalendar RRULE in a timezone).
+ * Occurrences are materialised into the maintenances table ahead of time.
+ */
+export const maintenanceSeries = pgTable("maintenance_series", {
+  id: text("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description"),
+  suppressNotifications: boolean("suppress_notifications")
+    .notNull()
+    .default(false),
+  rrule: text("rrule").notNull(),
+  timezone: text("timezone").notNull(),
+  /** Local date and time of the first occurrence (YYYY-MM-DDTHH:mm) */
+  dtstart: text("dtstart").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  /** Local dates (YYYY-MM-DD) of skipped occurrences */
+  exceptions: jsonb("exceptions").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Junction table for series-system many-to-many relationship
+ */
+export const maintenanceSeriesSystems = pgTable(
+  "maintenance_series_systems",
+  {
+    seriesId: text("series_id")
+      .notNull()
+      .references(() => maintenanceSeries.id, { onDelete: "cascade" }),
+    systemId: text("system_id").notNull(),
+  },
+  (t) => ({
+    pk: primaryKey(t.seriesId, t.systemId),
+  }),
+);
+
+/**
+ * Personal iCalendar feed tokens, one per user.
+ * Only a SHA-256 hash of the token is stored.
+ */
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  userId: text("user_id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+});
@@ -0,0 +1,377 @@
+import { eq, and, gt, inArray } from "drizzle-orm";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import * as schema from "./schema";
+import {
+  maintenances,
+  maintenanceSystems,
+  maintenanceSeries,
+  maintenanceSeriesSystems,
+} from "./schema";
+import {
+  expandRecurrence,
+  type MaintenanceSeries,
+  type MaintenanceCalendarEntry,
+  type CreateMaintenanceSeriesInput,
+  type UpdateMaintenanceSeriesInput,
+} from "@checkstack/maintenance-common";
+
+type Db = SafeDatabase<typeof schema>;
+type SeriesRow = typeof maintenanceSeries.$inferSelect;
+
+/**
+ * How far ahead occurrences of a series are materialised as maintenances.
+ */
+export const MATERIALIZATION_HORIZON_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** How far ahead the next occurrence of a series is searched */
+const NEXT_OCCURRENCE_LOOKAHEAD_MS = 2 * 366 * 24 * 60 * 60 * 1000;
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+function expandSeries(series: SeriesRow, from: Date, to: Date, limit?: number) {
+  return expandRecurrence({
+    rule: series.rrule,
+    dtstart: series.dtstart,
+    timezone: series.timezone,
+    durationMinutes: series.durationMinutes,
+    exceptions: series.exceptions,
+    from,
+    to,
+    limit,
+  });
+}
+
+/**
+ * Recurring maintenance definitions and the materialisation of their
+ * occurrences into regular maintenances.
+ */
+export class MaintenanceSeriesService {
+  constructor(private db: Db) {}
+
+  private async toSeries(
+    row: SeriesRow,
+    now: Date,
+  ): Promise<MaintenanceSeries> {
+    const systems = await this.db
+      .select({ systemId: maintenanceSeriesSystems.systemId })
+      .from(maintenanceSeriesSystems)
+      .where(eq(maintenanceSeriesSystems.seriesId, row.id));
+
+    const [next] = expandSeries(
+      row,
+      now,
+      new Date(now.getTime() + NEXT_OCCURRENCE_LOOKAHEAD_MS),
+      1,
+    );
+
+    return {
+      ...row,
+      description: row.description ?? undefined,
+      systemIds: systems.map((s) => s.systemId),
+      nextOccurrenceAt: next?.startAt,
+    };
+  }
+
+  /**
+   * List all series with their next occurrence
+   */
+  async listSeries(now = new Date()): Promise<MaintenanceSeries[]> {
+    const rows = await this.db.select().from(maintenanceSeries);
+    return Promise.all(rows.map((row) => this.toSeries(row, now)));
+  }
+
+  /**
+   * Get a single series
+   */
+  async getSeries(
+    id: string,
+    now = new Date(),
+  ): Promise<MaintenanceSeries | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(maintenanceSeries)
+      .where(eq(maintenanceSeries.id, id));
+
+    return row ? this.toSeries(row, now) : undefined;
+  }
+
+  /**
+   * Create a new series
+   */
+  async createSeries(
+    input: CreateMaintenanceSeriesInput,
+  ): Promise<MaintenanceSeries> {
+    const id = generateId();
+
+    await this.db.insert(maintenanceSeries).values({
+      id,
+      title: input.title,
+      description: input.description,
+      suppressNotifications: input.suppressNotifications ?? false,
+      rrule: input.rrule,
+      timezone: input.timezone,
+      dtstart: input.dtstart,
+      durationMinutes: input.durationMinutes,
+      exceptions: input.exceptions ?? [],
+    });
+
+    for (const systemId of input.systemIds) {
+      await this.db
+        .insert(maintenanceSeriesSystems)
+        .values({ seriesId: id, systemId });
+    }
+
+    return (await this.getSeries(id))!;
+  }
+
+  /**
+   * Update a series.
+   * Future occurrences that have not started yet are removed, so that the
+   * next materialisation picks up the new definition.
+   */
+  async updateSeries(
+    input: UpdateMaintenanceSeriesInput,
+    now = new Date(),
+  ): Promise<MaintenanceSeries | undefined> {
+    const [existing] = await this.db
+      .select()
+      .from(maintenanceSeries)
+      .where(eq(maintenanceSeries.id, input.id));
+
+    if (!existing) return undefined;
+
+    const updateData: Partial<typeof maintenanceSeries.$inferInsert> = {
+      updatedAt: new Date(),
+    };
+    if (input.title !== undefined) updateData.title = input.title;
+    if (input.description !== undefined)
+      updateData.description = input.description;
+    if (input.suppressNotifications !== undefined)
+      updateData.suppressNotifications = input.suppressNotifications;
+    if (input.rrule !== undefined) updateData.rrule = input.rrule;
+    if (input.timezone !== undefined) updateData.timezone = input.timezone;
+    if (input.dtstart !== undefined) updateData.dtstart = input.dtstart;
+    if (input.durationMinutes !== undefined)
+      updateData.durationMinutes = input.durationMinutes;
+    if (input.exceptions !== undefined)
+      updateData.exceptions = input.exceptions;
+
+    await this.db
+      .update(maintenanceSeries)
+      .set(updateData)
+      .where(eq(maintenanceSeries.id, input.id));
+
+    if (input.systemIds !== undefined) {
+      await this.db
+        .delete(maintenanceSeriesSystems)
+        .where(eq(maintenanceSeriesSystems.seriesId, input.id));
+
+      for (const systemId of input.systemIds) {
+        await this.db
+          .insert(maintenanceSeriesSystems)
+          .values({ seriesId: input.id, systemId });
+      }
+    }
+
+    await this.removeScheduledOccurrences(input.id, now);
+    return this.getSeries(input.id, now);
+  }
+
+  /**
+   * Delete a series with its future occurrences that have not started yet.
+   * Past and running occurrences are kept as standalone maintenances.
+   */
+  async deleteSeries(id: string, now = new Date()): Promise<boolean> {
+    const [existing] = await this.db
+      .select()
+      .from(maintenanceSeries)
+      .where(eq(maintenanceSeries.id, id));
+
+    if (!existing) return false;
+
+    await this.removeScheduledOccurrences(id, now);
+    await this.db.delete(maintenanceSeries).where(eq(maintenanceSeries.id, id));
+    return true;
+  }
+
+  /**
+   * Skip the occurrence of a series on a local date.
+   * Used when a materialised occurrence is deleted, so it is not recreated.
+   */
+  async addException(seriesId: string, date: string): Promise<void> {
+    const [existing] = await this.db
+      .select({ exceptions: maintenanceSeries.exceptions })
+      .from(maintenanceSeries)
+      .where(eq(maintenanceSeries.id, seriesId));
+
+    if (!existing || existing.exceptions.includes(date)) return;
+
+    await this.db
+      .update(maintenanceSeries)
+      .set({
+        exceptions: [...existing.exceptions, date].toSorted(),
+        updatedAt: new Date(),
+      })
+      .where(eq(maintenanceSeries.id, seriesId));
+  }
+
+  /**
+   * Record the occurrence a maintenance was materialised from as an exception
+   * of its series. Called before the maintenance is deleted.
+   */
+  async skipOccurrence(maintenanceId: string): Promise<void> {
+    const [occurrence] = await this.db
+      .select({
+        seriesId: maintenances.seriesId,
+        occurrenceDate: maintenances.occurrenceDate,
+      })
+      .from(maintenances)
+      .where(eq(maintenances.id, maintenanceId));
+
+    if (!occurrence?.seriesId || !occurrence.occurrenceDate) return;
+    await this.addException(occurrence.seriesId, occurrence.occurrenceDate);
+  }
+
+  private async removeScheduledOccurrences(seriesId: string, now: Date) {
+    // Cascade delete handles system associations and updates
+    await this.db
+      .delete(maintenances)
+      .where(
+        and(
+          eq(maintenances.seriesId, seriesId),
+          eq(maintenances.status, "scheduled"),
+          gt(maintenances.startAt, now),
+        ),
+      );
+  }
+
+  /**
+   * Materialise occurrences of all series (or a single one) that overlap the
+   * materialisation horizon into maintenances. Occurrences are identified by
+   * series and local date, so repeated runs do not create duplicates.
+   *
+   * @returns the created maintenances
+   */
+  async materializeOccurrences(
+    options: { now?: Date; seriesId?: string } = {},
+  ): Promise<{ id: string; systemIds: string[] }[]> {
+    const now = options.now ?? new Date();
+    const horizon = new Date(now.getTime() + MATERIALIZATION_HORIZON_MS);
+
+    const seriesRows = await this.db
+      .select()
+      .from(maintenanceSeries)
+      .where(
+        options.seriesId
+          ? eq(maintenanceSeries.id, options.seriesId)
+          : undefined,
+      );
+
+    const created: { id: string; systemIds: string[] }[] = [];
+    for (const series of seriesRows) {
+      const occurrences = expandSeries(series, now, horizon);
+      if (occurrences.length === 0) continue;
+
+      const existing = await this.db
+        .select({ occurrenceDate: maintenances.occurrenceDate })
+        .from(maintenances)
+        .where(
+          and(
+            eq(maintenances.seriesId, series.id),
+            inArray(
+              maintenances.occurrenceDate,
+              occurrences.map((o) => o.date),
+            ),
+          ),
+        );
+      const existingDates = new Set(existing.map((e) => e.occurrenceDate));
+
+      const systems = await this.db
+        .select({ systemId: maintenanceSeriesSystems.systemId })
+        .from(maintenanceSeriesSystems)
+        .where(eq(maintenanceSeriesSystems.seriesId, series.id));
+      const systemIds = systems.map((s) => s.systemId);
+
+      for (const occurrence of occurrences) {
+        if (existingDates.has(occurrence.date)) continue;
+
+        const [inserted] = await this.db
+          .insert(maintenances)
+          .values({
+            id: generateId(),
+            title: series.title,
+            description: series.description,
+            suppressNotifications: series.suppressNotifications,
+            status: "scheduled",
+            startAt: occurrence.startAt,
+            endAt: occurrence.endAt,
+            seriesId: series.id,
+            occurrenceDate: occurrence.date,
+          })
+          .onConflictDoNothing()
+          .returning({ id: maintenances.id });
+
+        // Another instance materialised it concurrently
+        if (!inserted) continue;
+
+        for (const systemId of systemIds) {
+          await this.db
+            .insert(maintenanceSystems)
+            .values({ maintenanceId: inserted.id, systemId });
+        }
+        created.push({ id: inserted.id, systemIds });
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Future occurrences within [from, to] that have not been materialised yet.
+   */
+  async getProjectedOccurrences(
+    from: Date,
+    to: Date,
+    now = new Date(),
+  ): Promise<MaintenanceCalendarEntry[]> {
+    const start = from > now ? from : now;
+    if (start >= to) return [];
+
+    const seriesRows = await this.db.select().from(maintenanceSeries);
+    const entries: MaintenanceCalendarEntry[] = [];
+
+    for (const series of seriesRows) {
+      const occurrences = expandSeries(series, start, to);
+      if (occurrences.length === 0) continue;
+
+      const materialised = await this.db
+        .select({ occurrenceDate: maintenances.occurrenceDate })
+        .from(maintenances)
+        .where(eq(maintenances.seriesId, series.id));
+      const materialisedDates = new Set(
+        materialised.map((m) => m.occurrenceDate),
+      );
+
+      const systems = await this.db
+        .select({ systemId: maintenanceSeriesSystems.systemId })
+        .from(maintenanceSeriesSystems)
+        .where(eq(maintenanceSeriesSystems.seriesId, series.id));
+
+      for (const occurrence of occurrences) {
+        if (materialisedDates.has(occurrence.date)) continue;
+        entries.push({
+          seriesId: series.id,
+          title: series.title,
+          startAt: occurrence.startAt,
+          endAt: occurrence.endAt,
+          systemIds: systems.map((s) => s.systemId),
+          projected: true,
+        });
+      }
+    }
+
+    return entries;
+  }
+}
@@ -1,4 +1,4 @@
-import { eq, and, or, inArray } from "drizzle-orm";
+import { eq, and, or, inArray, ne, lt, gt } from "drizzle-orm";
 import type { SafeDatabase } from "@checkstack/backend-api";
 import * as schema from "./schema";
 import { maintenances, maintenanceSystems, maintenanceUpdates } from "./schema";
@@ -71,6 +71,7 @@ export class MaintenanceService {
       result.push({
         ...m,
         description: m.description ?? undefined,
+        seriesId: m.seriesId ?? undefined,
         systemIds: systems.map((s) => s.systemId),
       });
     }
@@ -102,6 +103,7 @@ export class MaintenanceService {
     return {
       ...maintenance,
       description: maintenance.description ?? undefined,
+      seriesId: maintenance.seriesId ?? undefined,
       systemIds: systems.map((s) => s.systemId),
       updates: updates.map((u) => ({
         ...u,
@@ -111,6 +113,33 @@ export class MaintenanceService {
     };
   }
 
+  /**
+   * Get the most recent status update of each maintenance
+   */
+  async getLatestUpdates(
+    maintenanceIds: string[],
+  ): Promise<Map<string, MaintenanceUpdate>> {
+    const latest = new Map<string, MaintenanceUpdate>();
+    if (maintenanceIds.length === 0) return latest;
+
+    const updates = await this.db
+      .select()
+      .from(maintenanceUpdates)
+      .where(inArray(maintenanceUpdates.maintenanceId, maintenanceIds));
+
+    for (const u of updates) {
+      const current = latest.get(u.maintenanceId);
+      if (!current || u.createdAt > current.createdAt) {
+        latest.set(u.maintenanceId, {
+          ...u,
+          statusChange: u.statusChange ?? undefined,
+          createdBy: u.createdBy ?? undefined,
+        });
+      }
+    }
+    return latest;
+  }
+
   /**
    * Get active/upcoming maintenances for a system
    */
@@ -153,6 +182,7 @@ export class MaintenanceService {
       result.push({
         ...m,
         description: m.description ?? undefined,
+        seriesId: m.seriesId ?? undefined,
         systemIds: systems.map((s) => s.systemId),
       });
     }
@@ -363,6 +393,58 @@ export class MaintenanceService {
     return !!match;
   }
 
+  /**
+   * Get non-cancelled maintenances of the given systems that overlap a time
+   * range. Only systems from `systemIds` are included in the result.
+   */
+  async getMaintenanceWindows({
+    systemIds,
+    startDate,
+    endDate,
+  }: {
+    systemIds: string[];
+    startDate: Date;
+    endDate: Date;
+  }): Promise<MaintenanceWithSystems[]> {
+    if (systemIds.length === 0) return [];
+
+    const rows = await this.db
+      .select({
+        maintenance: maintenances,
+        systemId: maintenanceSystems.systemId,
+      })
+      .from(maintenances)
+      .innerJoin(
+        maintenanceSystems,
+        eq(maintenanceSystems.maintenanceId, maintenances.id),
+      )
+      .where(
+        and(
+          inArray(maintenanceSystems.systemId, systemIds),
+          ne(maintenances.status, "cancelled"),
+          lt(maintenances.startAt, endDate),
+          gt(maintenances.endAt, startDate),
+        ),
+      );
+
+    const byId = new Map<string, MaintenanceWithSystems>();
+    for (const { maintenance: m, systemId } of rows) {
+      const existing = byId.get(m.id);
+      if (existing) {
+        existing.systemIds.push(systemId);
+        continue;
+      }
+      byId.set(m.id, {
+        ...m,
+        description: m.description ?? undefined,
+        seriesId: m.seriesId ?? undefined,
+        systemIds: [systemId],
+      });
+    }
+
+    return [...byId.values()];
+  }
+
   /**
    * Get maintenances that should transition from 'scheduled' to 'in_progress'.
    * These are maintenances where status = 'scheduled' AND startAt <= now.
@@ -395,6 +477,7 @@ export class MaintenanceService {
       result.push({
         ...m,
         description: m.description ?? undefined,
+        seriesId: m.seriesId ?? undefined,
         systemIds: systems.map((s) => s.systemId),
       });
     }
@@ -428,6 +511,7 @@ export class MaintenanceService {
       result.push({
         ...m,
         description: m.description ?? undefined,
+        seriesId: m.seriesId ?? undefined,
         systemIds: systems.map((s) => s.systemId),
       });
     }
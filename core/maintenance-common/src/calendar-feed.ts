@@ -0,0 +1,24 @@
+import { pluginMetadata } from "./plugin-metadata";
+
+/** Path of the maintenance HTTP handler serving iCalendar feeds */
+export const CALENDAR_FEED_API_PATH = `/api/${pluginMetadata.pluginId}/calendar`;
+
+/**
+ * Path of an iCalendar feed, relative to the backend base URL.
+ *
+ * - Without `systemId`: all maintenances, requires a feed token
+ * - With `systemId`: maintenances of one system. The token may be omitted if
+ *   the system is part of a public view.
+ */
+export function getCalendarFeedPath({
+  systemId,
+  token,
+}: {
+  systemId?: string;
+  token?: string;
+}): string {
+  const path = systemId
+    ? `${CALENDAR_FEED_API_PATH}/system/${encodeURIComponent(systemId)}.ics`
+    : `${CALENDAR_FEED_API_PATH}/maintenances.ics`;
+  return token ? `${path}?token=${encodeURIComponent(token)}` : path;
+}
@@ -13,6 +13,11 @@ export {
   CreateMaintenanceInputSchema,
   UpdateMaintenanceInputSchema,
   AddMaintenanceUpdateInputSchema,
+  MaintenanceSeriesSchema,
+  CreateMaintenanceSeriesInputSchema,
+  UpdateMaintenanceSeriesInputSchema,
+  MaintenanceCalendarEntrySchema,
+  CalendarFeedTokenSchema,
   type MaintenanceStatus,
   type Maintenance,
   type MaintenanceWithSystems,
@@ -21,7 +26,26 @@ export {
   type CreateMaintenanceInput,
   type UpdateMaintenanceInput,
   type AddMaintenanceUpdateInput,
+  type MaintenanceSeries,
+  type CreateMaintenanceSeriesInput,
+  type UpdateMaintenanceSeriesInput,
+  type MaintenanceCalendarEntry,
+  type CalendarFeedToken,
 } from "./schemas";
+export { CALENDAR_FEED_API_PATH, getCalendarFeedPath } from "./calendar-feed";
+export {
+  WEEKDAYS,
+  parseRecurrenceRule,
+  expandRecurrence,
+  describeRecurrenceRule,
+  zonedTimeToUtc,
+  isValidTimeZone,
+  isValidLocalDateTime,
+  type Weekday,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Occurrence,
+} from "./recurrence";
 export { MaintenanceDetailsSlot, MaintenanceStatusSlot } from "./slots";
 export * from "./plugin-metadata";
 export { maintenanceRoutes } from "./routes";
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "bun:test";
+import {
+  describeRecurrenceRule,
+  expandRecurrence,
+  isValidLocalDateTime,
+  parseRecurrenceRule,
+  zonedTimeToUtc,
+} from "./recurrence";
+
+const expand = (
+  overrides: Partial<Parameters<typeof expandRecurrence>[0]> = {},
+) =>
+  expandRecurrence({
+    rule: "FREQ=WEEKLY;BYDAY=SU",
+    dtstart: "2026-03-01T02:00",
+    timezone: "Europe/Berlin",
+    durationMinutes: 120,
+    from: new Date("2026-03-01T00:00:00Z"),
+    to: new Date("2026-04-30T00:00:00Z"),
+    ...overrides,
+  });
+
+describe("parseRecurrenceRule", () => {
+  it("parses supported parts", () => {
+    expect(
+      parseRecurrenceRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=3"),
+    ).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      byDay: [{ weekday: "FR", ordinal: -1 }],
+      count: 3,
+    });
+  });
+
+  it("rejects unsupported rules", () => {
+    expect(() => parseRecurrenceRule("FREQ=HOURLY")).toThrow("FREQ");
+    expect(() => parseRecurrenceRule("FREQ=WEEKLY;BYHOUR=2")).toThrow("BYHOUR");
+    expect(() => parseRecurrenceRule("FREQ=WEEKLY;BYDAY=1SU")).toThrow(
+      "ordinals",
+    );
+    expect(() =>
+      parseRecurrenceRule("FREQ=DAILY;COUNT=2;UNTIL=20260101"),
+    ).toThrow("COUNT and UNTIL");
+  });
+
+  it("rejects unsupported BYDAY and BYMONTHDAY combinations", () => {
+    expect(() =>
+      parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO;BYMONTHDAY=1"),
+    ).toThrow("BYMONTHDAY is not supported for WEEKLY");
+    expect(() => parseRecurrenceRule("FREQ=YEARLY;BYMONTHDAY=15")).toThrow(
+      "not supported for YEARLY",
+    );
+    expect(() => parseRecurrenceRule("FREQ=YEARLY;BYDAY=MO")).toThrow(
+      "not supported for YEARLY",
+    );
+    expect(() =>
+      parseRecurrenceRule("FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13"),
+    ).toThrow("cannot be combined for MONTHLY");
+  });
+
+  it("accepts BYDAY and BYMONTHDAY filters for DAILY", () => {
+    expect(parseRecurrenceRule("FREQ=DAILY;BYDAY=FR;BYMONTHDAY=13")).toEqual({
+      freq: "DAILY",
+      interval: 1,
+      byDay: [{ weekday: "FR", ordinal: undefined }],
+      byMonthDay: [13],
+    });
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("applies the offset valid at the local time", () => {
+    expect(zonedTimeToUtc("2026-01-04T02:00", "Europe/Berlin")).toEqual(
+      new Date("2026-01-04T01:00:00Z"),
+    );
+    expect(zonedTimeToUtc("2026-07-05T02:00", "Europe/Berlin")).toEqual(
+      new Date("2026-07-05T00:00:00Z"),
+    );
+  });
+
+  it("moves times skipped by DST forward", () => {
+    expect(zonedTimeToUtc("2026-03-29T02:30", "Europe/Berlin")).toEqual(
+      new Date("2026-03-29T01:30:00Z"),
+    );
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("keeps the local time across DST changes", () => {
+    const occurrences = expand({ to: new Date("2026-04-06T00:00:00Z") });
+
+    expect(occurrences.map((o) => o.date)).toEqual([
+      "2026-03-01",
+      "2026-03-08",
+      "2026-03-15",
+      "2026-03-22",
+      "2026-03-29",
+      "2026-04-05",
+    ]);
+    // CET before the switch, CEST after it
+    expect(occurrences[0].startAt).toEqual(new Date("2026-03-01T01:00:00Z"));
+    expect(occurrences[5].startAt).toEqual(new Date("2026-04-05T00:00:00Z"));
+    expect(occurrences[5].endAt).toEqual(new Date("2026-04-05T02:00:00Z"));
+  });
+
+  it("skips exceptions but counts them towards COUNT", () => {
+    const occurrences = expand({
+      rule: "FREQ=WEEKLY;BYDAY=SU;COUNT=3",
+      exceptions: ["2026-03-08"],
+    });
+
+    expect(occurrences.map((o) => o.date)).toEqual([
+      "2026-03-01",
+      "2026-03-15",
+    ]);
+  });
+
+  it("includes running occurrences and respects UNTIL", () => {
+    const occurrences = expand({
+      rule: "FREQ=DAILY;UNTIL=20260304",
+      from: new Date("2026-03-02T02:00:00Z"),
+    });
+
+    expect(occurrences.map((o) => o.date)).toEqual([
+      "2026-03-02",
+      "2026-03-03",
+      "2026-03-04",
+    ]);
+  });
+
+  it("expands monthly rules by weekday ordinal and month day", () => {
+    expect(
+      expand({ rule: "FREQ=MONTHLY;BYDAY=-1FR" }).map((o) => o.date),
+    ).toEqual(["2026-03-27", "2026-04-24"]);
+    expect(
+      expand({
+        rule: "FREQ=MONTHLY;BYMONTHDAY=-1",
+        dtstart: "2026-01-31T22:00",
+        from: new Date("2026-01-01T00:00:00Z"),
+      }).map((o) => o.date),
+    ).toEqual(["2026-01-31", "2026-02-28", "2026-03-31"]);
+  });
+
+  it("supports intervals and multiple weekdays", () => {
+    expect(
+      expand({
+        rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH",
+        dtstart: "2026-03-05T09:00",
+        to: new Date("2026-03-28T00:00:00Z"),
+      }).map((o) => o.date),
+    ).toEqual(["2026-03-05", "2026-03-17", "2026-03-19"]);
+  });
+});
+
+describe("helpers", () => {
+  it("validates local date times", () => {
+    expect(isValidLocalDateTime("2026-03-01T02:00")).toBe(true);
+    expect(isValidLocalDateTime("2026-02-30T02:00")).toBe(false);
+    expect(isValidLocalDateTime("2026-03-01")).toBe(false);
+  });
+
+  it("describes rules", () => {
+    expect(describeRecurrenceRule("FREQ=WEEKLY;BYDAY=SU")).toBe(
+      "Every week on Sunday",
+    );
+    expect(describeRecurrenceRule("FREQ=MONTHLY;BYDAY=1MO;COUNT=6")).toBe(
+      "Every month on the first Monday, 6 times",
+    );
+  });
+});
@@ -0,0 +1,490 @@
+/**
+ * Recurrence of maintenance series based on iCalendar RRULEs (RFC 5545).
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY
+ * (with ordinals for MONTHLY, e.g. "-1FR"), BYMONTHDAY, COUNT, UNTIL and
+ * WKST=MO. Occurrences are computed in local time of the series' timezone,
+ * so "every Sunday 02:00 Europe/Berlin" stays at 02:00 across DST changes.
+ * Sub-daily frequencies are not supported, so there is at most one
+ * occurrence per local date, which identifies it.
+ */
+
+const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = (typeof FREQUENCIES)[number];
+
+/** Weekdays in RRULE notation, starting with Monday (WKST=MO) */
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays, optionally with an ordinal within the month (MONTHLY only) */
+  byDay?: { weekday: Weekday; ordinal?: number }[];
+  /** Days of the month, negative values count from the end */
+  byMonthDay?: number[];
+  count?: number;
+  /** Last occurrence instant (UNTIL with time) */
+  until?: Date;
+  /** Last occurrence local date, YYYY-MM-DD (UNTIL without time) */
+  untilDate?: string;
+}
+
+export interface Occurrence {
+  /** Local date of the occurrence in the series' timezone, YYYY-MM-DD */
+  date: string;
+  startAt: Date;
+  endAt: Date;
+}
+
+/** Upper bound of iterated periods, protects against unbounded rules */
+const MAX_PERIODS = 5000;
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function parseInteger(value: string, part: string): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`Invalid ${part} value: ${value}`);
+  }
+  return Number.parseInt(value, 10);
+}
+
+function parseUntil(
+  value: string,
+): Pick<RecurrenceRule, "until" | "untilDate"> {
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (dateOnly) {
+    return { untilDate: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}` };
+  }
+  const utc = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  if (utc) {
+    const [, y, mo, d, h, mi, s] = utc.map(Number);
+    return { until: new Date(Date.UTC(y, mo - 1, d, h, mi, s)) };
+  }
+  throw new Error(
+    `Invalid UNTIL value: ${value} (expected YYYYMMDD or YYYYMMDDTHHMMSSZ)`,
+  );
+}
+
+/**
+ * Parse an RRULE string, e.g. "FREQ=WEEKLY;BYDAY=SU".
+ * A leading "RRULE:" is accepted. Throws for invalid or unsupported rules.
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const value = rule.trim().replace(/^RRULE:/i, "");
+  if (!value) throw new Error("Recurrence rule is empty");
+
+  const parts = new Map<string, string>();
+  for (const part of value.split(";").filter(Boolean)) {
+    const [key, partValue] = part.split("=");
+    if (!key || partValue === undefined || partValue === "") {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (!freq) throw new Error("FREQ is required");
+  if (!FREQUENCIES.includes(freq as RecurrenceFrequency)) {
+    throw new Error(
+      `Unsupported FREQ: ${freq} (supported: ${FREQUENCIES.join(", ")})`,
+    );
+  }
+
+  const parsed: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: 1,
+  };
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case "FREQ": {
+        break;
+      }
+      case "INTERVAL": {
+        parsed.interval = parseInteger(partValue, key);
+        if (parsed.interval < 1) throw new Error("INTERVAL must be positive");
+        break;
+      }
+      case "COUNT": {
+        parsed.count = parseInteger(partValue, key);
+        if (parsed.count < 1) throw new Error("COUNT must be positive");
+        break;
+      }
+      case "UNTIL": {
+        Object.assign(parsed, parseUntil(partValue));
+        break;
+      }
+      case "BYDAY": {
+        parsed.byDay = partValue.split(",").map((day) => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(day);
+          if (!match) throw new Error(`Invalid BYDAY value: ${day}`);
+          const ordinal = match[1] ? Number.parseInt(match[1], 10) : undefined;
+          if (ordinal !== undefined) {
+            if (parsed.freq !== "MONTHLY") {
+              throw new Error("BYDAY ordinals are only supported for MONTHLY");
+            }
+            if (ordinal === 0 || Math.abs(ordinal) > 5) {
+              throw new Error(`Invalid BYDAY ordinal: ${day}`);
+            }
+          }
+          return { weekday: match[2] as Weekday, ordinal };
+        });
+        break;
+      }
+      case "BYMONTHDAY": {
+        parsed.byMonthDay = partValue.split(",").map((day) => {
+          const monthDay = parseInteger(day, key);
+          if (monthDay === 0 || Math.abs(monthDay) > 31) {
+            throw new Error(`Invalid BYMONTHDAY value: ${day}`);
+          }
+          return monthDay;
+        });
+        break;
+      }
+      case "WKST": {
+        if (partValue !== "MO") throw new Error("Only WKST=MO is supported");
+        break;
+      }
+      default: {
+        throw new Error(`Unsupported RRULE part: ${key}`);
+      }
+    }
+  }
+
+  if (parsed.count !== undefined && (parsed.until || parsed.untilDate)) {
+    throw new Error("COUNT and UNTIL cannot be combined");
+  }
+
+  // Combinations the expansion does not implement, instead of ignoring parts
+  if (parsed.freq === "YEARLY" && (parsed.byDay || parsed.byMonthDay)) {
+    throw new Error("BYDAY and BYMONTHDAY are not supported for YEARLY");
+  }
+  if (parsed.freq === "WEEKLY" && parsed.byMonthDay) {
+    throw new Error("BYMONTHDAY is not supported for WEEKLY");
+  }
+  if (parsed.freq === "MONTHLY" && parsed.byDay && parsed.byMonthDay) {
+    throw new Error("BYDAY and BYMONTHDAY cannot be combined for MONTHLY");
+  }
+
+  return parsed;
+}
+
+// =============================================================================
+// TIMEZONES
+// =============================================================================
+
+/**
+ * Whether the value is an IANA timezone known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Offset of the timezone from UTC at the given instant, in milliseconds */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const localAsUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return localAsUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Convert a local date and time ("YYYY-MM-DDTHH:mm") in a timezone to the
+ * corresponding instant. Times skipped by a DST change are moved forward.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const naive = parseLocalDateTime(localDateTime);
+  const firstOffset = getTimeZoneOffset(naive, timeZone);
+  const secondOffset = getTimeZoneOffset(naive - firstOffset, timeZone);
+  return new Date(naive - secondOffset);
+}
+
+// =============================================================================
+// LOCAL CALENDAR ARITHMETIC
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Local date-time parsed as if it was UTC, for calendar arithmetic */
+function parseLocalDateTime(value: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid local date and time: ${value}`);
+  }
+  const [, y, mo, d, h, mi] = match.map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi);
+}
+
+/**
+ * Whether the value is a valid local date and time ("YYYY-MM-DDTHH:mm").
+ */
+export function isValidLocalDateTime(value: string): boolean {
+  try {
+    const parsed = parseLocalDateTime(value);
+    return new Date(parsed).toISOString().slice(0, 16) === value;
+  } catch {
+    return false;
+  }
+}
+
+const toDateString = (day: number) => new Date(day).toISOString().slice(0, 10);
+
+/** Weekday index of a day, 0 = Monday */
+const weekdayIndex = (day: number) => (new Date(day).getUTCDay() + 6) % 7;
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/** Candidate days (UTC midnight) of the n-th period of a rule */
+function getPeriodDays(
+  rule: RecurrenceRule,
+  start: number,
+  period: number,
+): number[] {
+  const startDate = new Date(start);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      return [start + step * DAY_MS];
+    }
+    case "WEEKLY": {
+      const weekStart =
+        start - weekdayIndex(start) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay
+        ? rule.byDay.map((d) => WEEKDAYS.indexOf(d.weekday))
+        : [weekdayIndex(start)];
+      return [...new Set(weekdays)]
+        .toSorted((a, b) => a - b)
+        .map((index) => weekStart + index * DAY_MS);
+    }
+    case "MONTHLY": {
+      const monthIndex = startDate.getUTCMonth() + step;
+      const year = startDate.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      const length = daysInMonth(year, month);
+      const dayOf = (dayOfMonth: number) => Date.UTC(year, month, dayOfMonth);
+
+      const monthDays: number[] = [];
+      if (rule.byDay) {
+        for (const { weekday, ordinal } of rule.byDay) {
+          const matching: number[] = [];
+          for (let day = 1; day <= length; day++) {
+            if (weekdayIndex(dayOf(day)) === WEEKDAYS.indexOf(weekday)) {
+              matching.push(day);
+            }
+          }
+          if (ordinal === undefined) {
+            monthDays.push(...matching);
+          } else {
+            const day = matching.at(ordinal > 0 ? ordinal - 1 : ordinal);
+            if (day !== undefined) monthDays.push(day);
+          }
+        }
+      } else {
+        for (const monthDay of rule.byMonthDay ?? [startDate.getUTCDate()]) {
+          const day = monthDay > 0 ? monthDay : length + monthDay + 1;
+          if (day >= 1 && day <= length) monthDays.push(day);
+        }
+      }
+      return [...new Set(monthDays)]
+        .toSorted((a, b) => a - b)
+        .map((day) => dayOf(day));
+    }
+    case "YEARLY": {
+      const year = startDate.getUTCFullYear() + step;
+      const month = startDate.getUTCMonth();
+      // Skip February 29th in non-leap years
+      if (startDate.getUTCDate() > daysInMonth(year, month)) return [];
+      return [Date.UTC(year, month, startDate.getUTCDate())];
+    }
+  }
+}
+
+/** Whether a candidate day satisfies BYDAY/BYMONTHDAY filters of DAILY rules */
+function matchesDailyFilters(rule: RecurrenceRule, day: number): boolean {
+  if (rule.freq !== "DAILY") return true;
+  if (
+    rule.byDay &&
+    !rule.byDay.some((d) => WEEKDAYS.indexOf(d.weekday) === weekdayIndex(day))
+  ) {
+    return false;
+  }
+  if (rule.byMonthDay) {
+    const date = new Date(day);
+    const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+    const dayOfMonth = date.getUTCDate();
+    return rule.byMonthDay.some((monthDay) =>
+      monthDay > 0
+        ? monthDay === dayOfMonth
+        : length + monthDay + 1 === dayOfMonth,
+    );
+  }
+  return true;
+}
+
+// =============================================================================
+// EXPANSION
+// =============================================================================
+
+/**
+ * Expand a recurrence into the occurrences overlapping [from, to].
+ *
+ * `dtstart` is the local date and time of the first occurrence in
+ * `timezone` ("YYYY-MM-DDTHH:mm"). `exceptions` are local dates
+ * (YYYY-MM-DD) of skipped occurrences; like EXDATE, they still count
+ * towards COUNT.
+ */
+export function expandRecurrence(props: {
+  rule: string;
+  dtstart: string;
+  timezone: string;
+  durationMinutes: number;
+  exceptions?: string[];
+  from: Date;
+  to: Date;
+  limit?: number;
+}): Occurrence[] {
+  const { dtstart, timezone, durationMinutes, from, to, limit } = props;
+  const rule = parseRecurrenceRule(props.rule);
+  const exceptions = new Set(props.exceptions);
+
+  const start = parseLocalDateTime(dtstart);
+  const startDay = start - (start % DAY_MS);
+  const time = dtstart.slice(11, 16);
+  const durationMs = durationMinutes * 60 * 1000;
+
+  const occurrences: Occurrence[] = [];
+  let count = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of getPeriodDays(rule, startDay, period)) {
+      if (day < startDay || !matchesDailyFilters(rule, day)) continue;
+
+      const date = toDateString(day);
+      if (rule.untilDate && date > rule.untilDate) return occurrences;
+
+      const startAt = zonedTimeToUtc(`${date}T${time}`, timezone);
+      if (rule.until && startAt > rule.until) return occurrences;
+      if (startAt > to) return occurrences;
+
+      count++;
+      if (rule.count !== undefined && count > rule.count) return occurrences;
+
+      const endAt = new Date(startAt.getTime() + durationMs);
+      if (endAt > from && !exceptions.has(date)) {
+        occurrences.push({ date, startAt, endAt });
+        if (limit !== undefined && occurrences.length >= limit) {
+          return occurrences;
+        }
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Human readable description of an RRULE, e.g. "Every week on Sunday".
+ * Returns the rule itself if it cannot be parsed.
+ */
+export function describeRecurrenceRule(rule: string): string {
+  let parsed: RecurrenceRule;
+  try {
+    parsed = parseRecurrenceRule(rule);
+  } catch {
+    return rule;
+  }
+
+  const unit = FREQUENCY_UNITS[parsed.freq];
+  let description =
+    parsed.interval === 1
+      ? `Every ${unit}`
+      : `Every ${parsed.interval} ${unit}s`;
+
+  if (parsed.byDay) {
+    const ordinalNames: Record<number, string> = {
+      1: "first",
+      2: "second",
+      3: "third",
+      4: "fourth",
+      5: "fifth",
+      [-1]: "last",
+      [-2]: "second to last",
+    };
+    const days = parsed.byDay.map(({ weekday, ordinal }) =>
+      ordinal === undefined
+        ? WEEKDAY_NAMES[weekday]
+        : `the ${ordinalNames[ordinal] ?? ordinal} ${WEEKDAY_NAMES[weekday]}`,
+    );
+    description += ` on ${days.join(", ")}`;
+  } else if (parsed.byMonthDay) {
+    const days = parsed.byMonthDay.map((day) =>
+      day === -1 ? "the last day" : `day ${day}`,
+    );
+    description += ` on ${days.join(", ")}`;
+  }
+
+  if (parsed.count !== undefined) {
+    description += `, ${parsed.count} times`;
+  } else if (parsed.untilDate) {
+    description += `, until ${parsed.untilDate}`;
+  } else if (parsed.until) {
+    description += `, until ${parsed.until.toISOString().slice(0, 10)}`;
+  }
+
+  return description;
+}
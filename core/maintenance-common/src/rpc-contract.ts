@@ -10,6 +10,11 @@ import {
   UpdateMaintenanceInputSchema,
   AddMaintenanceUpdateInputSchema,
   MaintenanceStatusEnum,
+  MaintenanceSeriesSchema,
+  CreateMaintenanceSeriesInputSchema,
+  UpdateMaintenanceSeriesInputSchema,
+  MaintenanceCalendarEntrySchema,
+  CalendarFeedTokenSchema,
 } from "./schemas";
 
 export const maintenanceContract = {
@@ -111,6 +116,70 @@ export const maintenanceContract = {
     .input(z.object({ id: z.string() }))
     .output(z.object({ success: z.boolean() })),
 
+  /** List recurring maintenance series */
+  listSeries: proc({
+    operationType: "query",
+    userType: "public",
+    access: [maintenanceAccess.maintenance.read],
+  }).output(z.object({ series: z.array(MaintenanceSeriesSchema) })),
+
+  /** Create a recurring maintenance series */
+  createSeries: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [maintenanceAccess.maintenance.manage],
+  })
+    .input(CreateMaintenanceSeriesInputSchema)
+    .output(MaintenanceSeriesSchema),
+
+  /** Update a series. Future scheduled occurrences are regenerated. */
+  updateSeries: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [maintenanceAccess.maintenance.manage],
+  })
+    .input(UpdateMaintenanceSeriesInputSchema)
+    .output(MaintenanceSeriesSchema),
+
+  /** Delete a series and its future scheduled occurrences */
+  deleteSeries: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [maintenanceAccess.maintenance.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  /** Maintenances and projected series occurrences within a time range */
+  getCalendar: proc({
+    operationType: "query",
+    userType: "public",
+    access: [maintenanceAccess.maintenance.read],
+  })
+    .input(z.object({ from: z.date(), to: z.date() }))
+    .output(z.object({ entries: z.array(MaintenanceCalendarEntrySchema) })),
+
+  /** Get the current user's calendar feed token, without the secret */
+  getCalendarFeedToken: proc({
+    operationType: "query",
+    userType: "user",
+    access: [maintenanceAccess.maintenance.read],
+  }).output(CalendarFeedTokenSchema.nullable()),
+
+  /** Create the current user's calendar feed token, replacing any previous one */
+  createCalendarFeedToken: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [maintenanceAccess.maintenance.read],
+  }).output(CalendarFeedTokenSchema.extend({ token: z.string() })),
+
+  /** Revoke the current user's calendar feed token */
+  revokeCalendarFeedToken: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [maintenanceAccess.maintenance.read],
+  }).output(z.object({ success: z.boolean() })),
+
   /** Check if a system has active maintenance with notification suppression enabled.
    * Used by healthcheck to skip notifications during expected downtime.
    * Service-to-service endpoint (not exposed to users).
@@ -122,6 +191,24 @@ export const maintenanceContract = {
   })
     .input(z.object({ systemId: z.string() }))
     .output(z.object({ suppressed: z.boolean() })),
+
+  /** Non-cancelled maintenances of the given systems overlapping a time range.
+   * Used by healthcheck to exclude planned maintenance from SLOs.
+   * Service-to-service endpoint (not exposed to users).
+   */
+  getMaintenanceWindows: proc({
+    operationType: "query",
+    userType: "service",
+    access: [],
+  })
+    .input(
+      z.object({
+        systemIds: z.array(z.string()),
+        startDate: z.date(),
+        endDate: z.date(),
+      }),
+    )
+    .output(z.array(MaintenanceWithSystemsSchema)),
 };
 
 // Export contract type
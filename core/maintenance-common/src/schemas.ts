@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+  isValidLocalDateTime,
+  isValidTimeZone,
+  parseRecurrenceRule,
+} from "./recurrence";
 
 /**
  * Maintenance status enum values
@@ -22,6 +27,8 @@ export const MaintenanceSchema = z.object({
   status: MaintenanceStatusEnum,
   startAt: z.date(),
   endAt: z.date(),
+  /** Recurring series this maintenance is an occurrence of */
+  seriesId: z.string().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -98,3 +105,134 @@ export const AddMaintenanceUpdateInputSchema = z.object({
 export type AddMaintenanceUpdateInput = z.infer<
   typeof AddMaintenanceUpdateInputSchema
 >;
+
+// =============================================================================
+// RECURRING MAINTENANCE
+// =============================================================================
+
+const RecurrenceRuleStringSchema = z
+  .string()
+  .min(1, "Recurrence rule is required")
+  .superRefine((rule, ctx) => {
+    try {
+      parseRecurrenceRule(rule);
+    } catch (error) {
+      ctx.addIssue({
+        code: "custom",
+        message: error instanceof Error ? error.message : "Invalid RRULE",
+      });
+    }
+  })
+  .describe("iCalendar RRULE, e.g. FREQ=WEEKLY;BYDAY=SU");
+
+const TimeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: "Unknown timezone" })
+  .describe("IANA timezone, e.g. Europe/Berlin");
+
+const LocalDateTimeSchema = z
+  .string()
+  .refine(isValidLocalDateTime, {
+    message: "Expected a local date and time (YYYY-MM-DDTHH:mm)",
+  })
+  .describe("Local date and time of the first occurrence in the timezone");
+
+const LocalDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date (YYYY-MM-DD)");
+
+/**
+ * Recurring maintenance definition.
+ * Occurrences are materialised as regular maintenances ahead of time.
+ */
+export const MaintenanceSeriesSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  suppressNotifications: z.boolean(),
+  rrule: z.string(),
+  timezone: z.string(),
+  dtstart: z.string(),
+  durationMinutes: z.number().int(),
+  /** Local dates (YYYY-MM-DD) of skipped occurrences */
+  exceptions: z.array(z.string()),
+  systemIds: z.array(z.string()),
+  /** Start of the next occurrence that has not ended yet */
+  nextOccurrenceAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type MaintenanceSeries = z.infer<typeof MaintenanceSeriesSchema>;
+
+export const CreateMaintenanceSeriesInputSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  suppressNotifications: z.boolean().optional().default(false),
+  rrule: RecurrenceRuleStringSchema,
+  timezone: TimeZoneSchema,
+  dtstart: LocalDateTimeSchema,
+  durationMinutes: z
+    .number()
+    .int()
+    .min(1)
+    .max(7 * 24 * 60, "Duration cannot exceed 7 days"),
+  exceptions: z.array(LocalDateSchema).optional().default([]),
+  systemIds: z.array(z.string()).min(1, "At least one system is required"),
+});
+export type CreateMaintenanceSeriesInput = z.infer<
+  typeof CreateMaintenanceSeriesInputSchema
+>;
+
+export const UpdateMaintenanceSeriesInputSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  suppressNotifications: z.boolean().optional(),
+  rrule: RecurrenceRuleStringSchema.optional(),
+  timezone: TimeZoneSchema.optional(),
+  dtstart: LocalDateTimeSchema.optional(),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(1)
+    .max(7 * 24 * 60)
+    .optional(),
+  exceptions: z.array(LocalDateSchema).optional(),
+  systemIds: z.array(z.string()).min(1).optional(),
+});
+export type UpdateMaintenanceSeriesInput = z.infer<
+  typeof UpdateMaintenanceSeriesInputSchema
+>;
+
+/**
+ * Entry of the maintenance calendar.
+ * Projected entries are future occurrences of a series that have not been
+ * materialised yet.
+ */
+export const MaintenanceCalendarEntrySchema = z.object({
+  maintenanceId: z.string().optional(),
+  seriesId: z.string().optional(),
+  title: z.string(),
+  status: MaintenanceStatusEnum.optional(),
+  startAt: z.date(),
+  endAt: z.date(),
+  systemIds: z.array(z.string()),
+  projected: z.boolean(),
+});
+export type MaintenanceCalendarEntry = z.infer<
+  typeof MaintenanceCalendarEntrySchema
+>;
+
+// =============================================================================
+// CALENDAR FEEDS
+// =============================================================================
+
+/**
+ * Personal iCalendar feed token of a user.
+ * The token itself is only returned when it is created.
+ */
+export const CalendarFeedTokenSchema = z.object({
+  createdAt: z.date(),
+  lastUsedAt: z.date().optional(),
+});
+export type CalendarFeedToken = z.infer<typeof CalendarFeedTokenSchema>;
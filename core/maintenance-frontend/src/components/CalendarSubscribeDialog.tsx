@@ -0,0 +1,185 @@
+import React, { useState } from "react";
+import { usePluginClient, useRuntimeConfig } from "@checkstack/frontend-api";
+import { MaintenanceApi } from "../api";
+import { getCalendarFeedPath } from "@checkstack/maintenance-common";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  Button,
+  Label,
+  Alert,
+  AlertDescription,
+  useToast,
+} from "@checkstack/ui";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Restrict the feed to a single system */
+  systemId?: string;
+}
+
+const FeedUrl: React.FC<{ url: string }> = ({ url }) => {
+  const toast = useToast();
+  return (
+    <div className="flex items-center gap-2">
+      <code className="flex-1 bg-muted p-2 rounded font-mono text-xs break-all">
+        {url}
+      </code>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          void navigator.clipboard.writeText(url);
+          toast.success("Feed URL copied to clipboard");
+        }}
+      >
+        <Copy className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Subscribe to maintenances in Outlook, Google Calendar and other clients
+ * via a personal iCalendar feed.
+ */
+export const CalendarSubscribeDialog: React.FC<Props> = ({
+  open,
+  onOpenChange,
+  systemId,
+}) => {
+  const maintenanceClient = usePluginClient(MaintenanceApi);
+  const { baseUrl } = useRuntimeConfig();
+  const toast = useToast();
+
+  // The token is only returned once, right after it was created
+  const [token, setToken] = useState<string | undefined>();
+
+  const {
+    data: feedToken,
+    isError: anonymous,
+    refetch,
+  } = maintenanceClient.getCalendarFeedToken.useQuery(undefined, {
+    enabled: open,
+    retry: false,
+  });
+
+  const createMutation = maintenanceClient.createCalendarFeedToken.useMutation({
+    onSuccess: (result) => {
+      setToken(result.token);
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create feed URL",
+      );
+    },
+  });
+
+  const revokeMutation = maintenanceClient.revokeCalendarFeedToken.useMutation({
+    onSuccess: () => {
+      setToken(undefined);
+      toast.success("Feed URL revoked");
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revoke feed URL",
+      );
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setToken(undefined);
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to Calendar</DialogTitle>
+          <DialogDescription>
+            Add maintenances to Outlook, Google Calendar or any other calendar
+            that supports iCalendar subscriptions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {token && (
+            <>
+              <Alert variant="warning">
+                <AlertDescription>
+                  Copy the URL now—it contains your personal token and will
+                  never be shown again.
+                </AlertDescription>
+              </Alert>
+              <div className="space-y-2">
+                <Label>{systemId ? "This system" : "All maintenances"}</Label>
+                <FeedUrl
+                  url={`${baseUrl}${getCalendarFeedPath({ systemId, token })}`}
+                />
+              </div>
+            </>
+          )}
+
+          {!token && !anonymous && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {feedToken
+                  ? `Your feed URL was created on ${format(new Date(feedToken.createdAt), "PPp")}${
+                      feedToken.lastUsedAt
+                        ? ` and last used on ${format(new Date(feedToken.lastUsedAt), "PPp")}`
+                        : ""
+                    }. Create a new one to see it again; the current URL stops working.`
+                  : "Create a personal feed URL. Anyone with the URL can read the maintenances you can see."}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => createMutation.mutate({})}
+                  disabled={createMutation.isPending}
+                >
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {feedToken ? "Create New URL" : "Create Feed URL"}
+                </Button>
+                {feedToken && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => revokeMutation.mutate({})}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {systemId && (
+            <div className="space-y-2">
+              <Label>Public feed</Label>
+              <FeedUrl url={`${baseUrl}${getCalendarFeedPath({ systemId })}`} />
+              <p className="text-xs text-muted-foreground">
+                Works without a token if the system is shown on a public status
+                page.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => handleOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { useSignal } from "@checkstack/signal-frontend";
+import { resolveRoute } from "@checkstack/common";
+import { MaintenanceApi } from "../api";
+import {
+  MAINTENANCE_UPDATED,
+  maintenanceRoutes,
+  type MaintenanceCalendarEntry,
+} from "@checkstack/maintenance-common";
+import {
+  Card,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  CardContent,
+  Button,
+  LoadingSpinner,
+} from "@checkstack/ui";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  addDays,
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+const MAX_ENTRIES_PER_DAY = 3;
+
+const entryClassName = (entry: MaintenanceCalendarEntry): string => {
+  if (entry.projected) {
+    return "border border-dashed border-info/60 text-info";
+  }
+  switch (entry.status) {
+    case "in_progress": {
+      return "bg-warning/15 text-warning";
+    }
+    case "completed":
+    case "cancelled": {
+      return "bg-muted text-muted-foreground";
+    }
+    default: {
+      return "bg-info/15 text-info";
+    }
+  }
+};
+
+/**
+ * Month view of scheduled maintenances and projected occurrences of
+ * recurring maintenances that have not been materialised yet.
+ */
+export const MaintenanceCalendar: React.FC = () => {
+  const maintenanceClient = usePluginClient(MaintenanceApi);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const days = useMemo(
+    () =>
+      eachDayOfInterval({
+        start: startOfWeek(month, { weekStartsOn: 1 }),
+        end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+      }),
+    [month],
+  );
+
+  const { data, isLoading, refetch } = maintenanceClient.getCalendar.useQuery({
+    from: days[0],
+    to: addDays(days.at(-1)!, 1),
+  });
+
+  useSignal(MAINTENANCE_UPDATED, () => {
+    void refetch();
+  });
+
+  const entries = data?.entries ?? [];
+
+  const entriesForDay = (day: Date) =>
+    entries.filter(
+      (entry) =>
+        new Date(entry.startAt) < addDays(day, 1) &&
+        new Date(entry.endAt) > day,
+    );
+
+  return (
+    <Card>
+      <CardHeader className="border-b border-border">
+        <CardHeaderRow>
+          <div className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>{format(month, "MMMM yyyy")}</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMonth(addMonths(month, -1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMonth(startOfMonth(new Date()))}
+            >
+              Today
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMonth(addMonths(month, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeaderRow>
+      </CardHeader>
+      <CardContent className="p-4">
+        {isLoading ? (
+          <div className="p-12 flex justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="grid grid-cols-7 gap-px bg-border border border-border rounded-md overflow-hidden">
+            {days.slice(0, 7).map((day) => (
+              <div
+                key={`head-${day.toISOString()}`}
+                className="bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground"
+              >
+                {format(day, "EEE")}
+              </div>
+            ))}
+            {days.map((day) => {
+              const dayEntries = entriesForDay(day);
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`bg-background min-h-24 p-1 ${
+                    isSameMonth(day, month) ? "" : "opacity-50"
+                  }`}
+                >
+                  <div
+                    className={`text-xs mb-1 ${
+                      isSameDay(day, new Date())
+                        ? "font-bold text-primary"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {format(day, "d")}
+                  </div>
+                  <div className="space-y-1">
+                    {dayEntries.slice(0, MAX_ENTRIES_PER_DAY).map((entry) => {
+                      const label = `${format(new Date(entry.startAt), "HH:mm")} ${entry.title}`;
+                      const className = `block truncate rounded px-1 text-xs ${entryClassName(entry)}`;
+                      return entry.maintenanceId ? (
+                        <Link
+                          key={entry.maintenanceId}
+                          to={resolveRoute(maintenanceRoutes.routes.detail, {
+                            maintenanceId: entry.maintenanceId,
+                          })}
+                          className={className}
+                          title={entry.title}
+                        >
+                          {label}
+                        </Link>
+                      ) : (
+                        <span
+                          key={`${entry.seriesId}-${new Date(entry.startAt).toISOString()}`}
+                          className={className}
+                          title={`${entry.title} (upcoming occurrence)`}
+                        >
+                          {label}
+                        </span>
+                      );
+                    })}
+                    {dayEntries.length > MAX_ENTRIES_PER_DAY && (
+                      <div className="text-xs text-muted-foreground px-1">
+                        +{dayEntries.length - MAX_ENTRIES_PER_DAY} more
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground mt-2">
+          Dashed entries are upcoming occurrences of recurring maintenances.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { useSignal } from "@checkstack/signal-frontend";
+import { MaintenanceApi } from "../api";
+import {
+  MAINTENANCE_UPDATED,
+  describeRecurrenceRule,
+  type MaintenanceSeries,
+} from "@checkstack/maintenance-common";
+import type { System } from "@checkstack/catalog-common";
+import {
+  Card,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  CardContent,
+  Button,
+  LoadingSpinner,
+  EmptyState,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  useToast,
+  ConfirmationModal,
+} from "@checkstack/ui";
+import { Plus, Repeat, Edit2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { MaintenanceSeriesEditor } from "./MaintenanceSeriesEditor";
+
+interface Props {
+  systems: System[];
+  getSystemNames: (systemIds: string[]) => string;
+}
+
+/**
+ * Recurring maintenance definitions with their schedule and next occurrence.
+ */
+export const MaintenanceSeriesCard: React.FC<Props> = ({
+  systems,
+  getSystemNames,
+}) => {
+  const maintenanceClient = usePluginClient(MaintenanceApi);
+  const toast = useToast();
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<
+    MaintenanceSeries | undefined
+  >();
+  const [deleteId, setDeleteId] = useState<string | undefined>();
+
+  const { data, isLoading, refetch } = maintenanceClient.listSeries.useQuery();
+
+  useSignal(MAINTENANCE_UPDATED, () => {
+    void refetch();
+  });
+
+  const deleteMutation = maintenanceClient.deleteSeries.useMutation({
+    onSuccess: () => {
+      toast.success("Recurring maintenance deleted");
+      void refetch();
+      setDeleteId(undefined);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+    },
+  });
+
+  const series = data?.series ?? [];
+
+  const handleSave = () => {
+    setEditorOpen(false);
+    void refetch();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="border-b border-border">
+        <CardHeaderRow>
+          <div className="flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Recurring Maintenances</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setEditingSeries(undefined);
+              setEditorOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Create Recurring
+          </Button>
+        </CardHeaderRow>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-12 flex justify-center">
+            <LoadingSpinner />
+          </div>
+        ) : series.length === 0 ? (
+          <EmptyState
+            title="No recurring maintenances"
+            description="Define a maintenance window that repeats on a schedule, such as every Sunday night."
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Systems</TableHead>
+                <TableHead>Next Occurrence</TableHead>
+                <TableHead className="w-24">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {series.map((s) => (
+                <TableRow key={s.id}>
+                  <TableCell className="font-medium">{s.title}</TableCell>
+                  <TableCell className="text-sm">
+                    <p>{describeRecurrenceRule(s.rrule)}</p>
+                    <p className="text-muted-foreground">
+                      {s.dtstart.slice(11)} {s.timezone}, {s.durationMinutes}{" "}
+                      min
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {getSystemNames(s.systemIds)}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {s.nextOccurrenceAt
+                      ? format(new Date(s.nextOccurrenceAt), "MMM d, HH:mm")
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditingSeries(s);
+                          setEditorOpen(true);
+                        }}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeleteId(s.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <MaintenanceSeriesEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        series={editingSeries}
+        systems={systems}
+        onSave={handleSave}
+      />
+
+      <ConfirmationModal
+        isOpen={!!deleteId}
+        onClose={() => setDeleteId(undefined)}
+        title="Delete Recurring Maintenance"
+        message="Upcoming occurrences that have not started yet will be removed. Past and running occurrences are kept."
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={() => deleteId && deleteMutation.mutate({ id: deleteId })}
+        isLoading={deleteMutation.isPending}
+      />
+    </Card>
+  );
+};
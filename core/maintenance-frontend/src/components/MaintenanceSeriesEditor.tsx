@@ -0,0 +1,452 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { MaintenanceApi } from "../api";
+import {
+  expandRecurrence,
+  describeRecurrenceRule,
+  type MaintenanceSeries,
+} from "@checkstack/maintenance-common";
+import type { System } from "@checkstack/catalog-common";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  Button,
+  Input,
+  Label,
+  Textarea,
+  Checkbox,
+  Badge,
+  useToast,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@checkstack/ui";
+import { Plus, X } from "lucide-react";
+import { format } from "date-fns";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  series?: MaintenanceSeries;
+  systems: System[];
+  onSave: () => void;
+}
+
+const RULE_PRESETS = [
+  { label: "Daily", rule: "FREQ=DAILY" },
+  { label: "Weekly on Sunday", rule: "FREQ=WEEKLY;BYDAY=SU" },
+  { label: "Weekdays", rule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+  {
+    label: "Every 2 weeks on Saturday",
+    rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=SA",
+  },
+  { label: "First Sunday of the month", rule: "FREQ=MONTHLY;BYDAY=1SU" },
+  { label: "Last Friday of the month", rule: "FREQ=MONTHLY;BYDAY=-1FR" },
+];
+
+const PREVIEW_COUNT = 5;
+const PREVIEW_RANGE_MS = 2 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Default start: the next full hour in the browser's local time.
+ */
+const getDefaultStart = (): string => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  return format(date, "yyyy-MM-dd'T'HH:00");
+};
+
+export const MaintenanceSeriesEditor: React.FC<Props> = ({
+  open,
+  onOpenChange,
+  series,
+  systems,
+  onSave,
+}) => {
+  const maintenanceClient = usePluginClient(MaintenanceApi);
+  const toast = useToast();
+
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [rrule, setRrule] = useState(RULE_PRESETS[1].rule);
+  const [timezone, setTimezone] = useState("");
+  const [dtstart, setDtstart] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [exceptions, setExceptions] = useState<string[]>([]);
+  const [newException, setNewException] = useState("");
+  const [selectedSystemIds, setSelectedSystemIds] = useState<Set<string>>(
+    new Set(),
+  );
+  const [suppressNotifications, setSuppressNotifications] = useState(false);
+
+  const createMutation = maintenanceClient.createSeries.useMutation({
+    onSuccess: () => {
+      toast.success("Recurring maintenance created");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  const updateMutation = maintenanceClient.updateSeries.useMutation({
+    onSuccess: () => {
+      toast.success("Recurring maintenance updated");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  // Reset form when series changes
+  useEffect(() => {
+    if (series) {
+      setTitle(series.title);
+      setDescription(series.description ?? "");
+      setRrule(series.rrule);
+      setTimezone(series.timezone);
+      setDtstart(series.dtstart);
+      setDurationMinutes(series.durationMinutes);
+      setExceptions(series.exceptions);
+      setSelectedSystemIds(new Set(series.systemIds));
+      setSuppressNotifications(series.suppressNotifications);
+    } else {
+      setTitle("");
+      setDescription("");
+      setRrule(RULE_PRESETS[1].rule);
+      setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+      setDtstart(getDefaultStart());
+      setDurationMinutes(60);
+      setExceptions([]);
+      setSelectedSystemIds(new Set());
+      setSuppressNotifications(false);
+    }
+    setNewException("");
+  }, [series, open]);
+
+  // Live preview of the next occurrences, or the reason the rule is invalid
+  const preview = useMemo(() => {
+    const now = new Date();
+    try {
+      return {
+        description: describeRecurrenceRule(rrule),
+        occurrences: expandRecurrence({
+          rule: rrule,
+          dtstart,
+          timezone,
+          durationMinutes: Math.max(durationMinutes, 1),
+          exceptions,
+          from: now,
+          to: new Date(now.getTime() + PREVIEW_RANGE_MS),
+          limit: PREVIEW_COUNT,
+        }),
+      };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : "Invalid schedule",
+        description: "",
+        occurrences: [],
+      };
+    }
+  }, [rrule, dtstart, timezone, durationMinutes, exceptions]);
+
+  const handleSystemToggle = (systemId: string) => {
+    setSelectedSystemIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(systemId)) {
+        next.delete(systemId);
+      } else {
+        next.add(systemId);
+      }
+      return next;
+    });
+  };
+
+  const handleAddException = () => {
+    if (!newException || exceptions.includes(newException)) return;
+    setExceptions([...exceptions, newException].toSorted());
+    setNewException("");
+  };
+
+  const handleSubmit = () => {
+    if (!title.trim()) {
+      toast.error("Title is required");
+      return;
+    }
+    if (selectedSystemIds.size === 0) {
+      toast.error("At least one system must be selected");
+      return;
+    }
+    if (preview.error) {
+      toast.error(preview.error);
+      return;
+    }
+
+    const data = {
+      title,
+      suppressNotifications,
+      rrule,
+      timezone,
+      dtstart,
+      durationMinutes,
+      exceptions,
+      systemIds: [...selectedSystemIds],
+    };
+
+    if (series) {
+      updateMutation.mutate({
+        id: series.id,
+        ...data,
+        // eslint-disable-next-line unicorn/no-null -- null clears the description
+        description: description || null,
+      });
+    } else {
+      createMutation.mutate({ ...data, description: description || undefined });
+    }
+  };
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="xl">
+        <DialogHeader>
+          <DialogTitle>
+            {series
+              ? "Edit Recurring Maintenance"
+              : "Create Recurring Maintenance"}
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Define a maintenance window that repeats on a schedule
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="series-title">Title</Label>
+            <Input
+              id="series-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Weekly database maintenance"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="series-description">Description</Label>
+            <Textarea
+              id="series-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Details about the maintenance..."
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="series-start">First Occurrence</Label>
+              <Input
+                id="series-start"
+                type="datetime-local"
+                value={dtstart}
+                onChange={(e) => setDtstart(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="series-duration">Duration (minutes)</Label>
+              <Input
+                id="series-duration"
+                type="number"
+                min={1}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(Number(e.target.value))}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="series-timezone">Time Zone</Label>
+              <Input
+                id="series-timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="Europe/Berlin"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="series-rrule">Recurrence Rule</Label>
+            <div className="flex gap-2">
+              <Select
+                value={
+                  RULE_PRESETS.find((p) => p.rule === rrule)?.rule ?? "custom"
+                }
+                onValueChange={(v) => v !== "custom" && setRrule(v)}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.rule} value={preset.rule}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                id="series-rrule"
+                className="font-mono"
+                value={rrule}
+                onChange={(e) => setRrule(e.target.value)}
+                placeholder="FREQ=WEEKLY;BYDAY=SU"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              iCalendar RRULE with FREQ (DAILY, WEEKLY, MONTHLY, YEARLY),
+              INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+            </p>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Skipped Dates</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={newException}
+                onChange={(e) => setNewException(e.target.value)}
+                className="w-48"
+              />
+              <Button
+                variant="outline"
+                onClick={handleAddException}
+                disabled={!newException}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Skip Date
+              </Button>
+            </div>
+            {exceptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {exceptions.map((date) => (
+                  <Badge key={date} variant="secondary">
+                    {date}
+                    <button
+                      type="button"
+                      className="ml-1"
+                      onClick={() =>
+                        setExceptions(exceptions.filter((d) => d !== date))
+                      }
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="border rounded-md p-4 bg-muted/30">
+            {preview.error ? (
+              <p className="text-sm text-destructive">{preview.error}</p>
+            ) : (
+              <>
+                <p className="text-sm font-medium">{preview.description}</p>
+                {preview.occurrences.length === 0 ? (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    No upcoming occurrences
+                  </p>
+                ) : (
+                  <ul className="text-sm text-muted-foreground mt-2 space-y-1">
+                    {preview.occurrences.map((occurrence) => (
+                      <li key={occurrence.date}>
+                        {format(occurrence.startAt, "EEE, MMM d yyyy, HH:mm")} –{" "}
+                        {format(occurrence.endAt, "HH:mm")}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Affected Systems</Label>
+            <div className="max-h-36 overflow-y-auto border rounded-md p-3 space-y-2">
+              {systems.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No systems available
+                </p>
+              ) : (
+                systems.map((system) => (
+                  <div
+                    key={system.id}
+                    className="flex items-center space-x-2 p-2 rounded hover:bg-accent cursor-pointer"
+                    onClick={() => handleSystemToggle(system.id)}
+                  >
+                    <Checkbox
+                      id={`series-system-${system.id}`}
+                      checked={selectedSystemIds.has(system.id)}
+                    />
+                    <Label
+                      htmlFor={`series-system-${system.id}`}
+                      className="cursor-pointer flex-1"
+                    >
+                      {system.name}
+                    </Label>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="border rounded-md p-4 bg-muted/30">
+            <div
+              className="flex items-center gap-3 cursor-pointer"
+              onClick={() => setSuppressNotifications(!suppressNotifications)}
+            >
+              <Checkbox
+                id="series-suppress-notifications"
+                checked={suppressNotifications}
+              />
+              <div className="flex-1">
+                <Label
+                  htmlFor="series-suppress-notifications"
+                  className="cursor-pointer font-medium"
+                >
+                  Suppress health notifications
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Applies to every occurrence of this maintenance.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {series && (
+            <p className="text-xs text-muted-foreground">
+              Saving regenerates all upcoming occurrences that have not started
+              yet.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? "Saving..." : series ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
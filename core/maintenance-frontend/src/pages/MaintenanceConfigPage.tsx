@@ -35,6 +35,7 @@ import {
   useToast,
   ConfirmationModal,
   PageLayout,
+  Badge,
 } from "@checkstack/ui";
 import {
   Plus,
@@ -44,9 +45,14 @@ import {
   Edit2,
   Clock,
   CheckCircle2,
+  Repeat,
+  CalendarPlus,
 } from "lucide-react";
 import { format } from "date-fns";
 import { MaintenanceEditor } from "../components/MaintenanceEditor";
+import { MaintenanceSeriesCard } from "../components/MaintenanceSeriesCard";
+import { MaintenanceCalendar } from "../components/MaintenanceCalendar";
+import { CalendarSubscribeDialog } from "../components/CalendarSubscribeDialog";
 import { getMaintenanceStatusBadge } from "../utils/badges";
 
 const MaintenanceConfigPageContent: React.FC = () => {
@@ -70,6 +76,8 @@ const MaintenanceConfigPageContent: React.FC = () => {
     MaintenanceWithSystems | undefined
   >();
 
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
+
   // Delete confirmation state
   const [deleteId, setDeleteId] = useState<string | undefined>();
 
@@ -175,10 +183,16 @@ const MaintenanceConfigPageContent: React.FC = () => {
       loading={accessLoading}
       allowed={canManage}
       actions={
-        <Button onClick={handleCreate}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Maintenance
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setSubscribeOpen(true)}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Subscribe
+          </Button>
+          <Button onClick={handleCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Maintenance
+          </Button>
+        </div>
       }
     >
       <Card>
@@ -233,7 +247,15 @@ const MaintenanceConfigPageContent: React.FC = () => {
                   <TableRow key={m.id}>
                     <TableCell>
                       <div>
-                        <p className="font-medium">{m.title}</p>
+                        <p className="font-medium flex items-center gap-2">
+                          {m.title}
+                          {m.seriesId && (
+                            <Badge variant="outline">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              Recurring
+                            </Badge>
+                          )}
+                        </p>
                         {m.description && (
                           <p className="text-sm text-muted-foreground truncate max-w-xs">
                             {m.description}
@@ -296,6 +318,18 @@ const MaintenanceConfigPageContent: React.FC = () => {
         </CardContent>
       </Card>
 
+      <MaintenanceSeriesCard
+        systems={systems}
+        getSystemNames={getSystemNames}
+      />
+
+      <MaintenanceCalendar />
+
+      <CalendarSubscribeDialog
+        open={subscribeOpen}
+        onOpenChange={setSubscribeOpen}
+      />
+
       <MaintenanceEditor
         open={editorOpen}
         onOpenChange={setEditorOpen}
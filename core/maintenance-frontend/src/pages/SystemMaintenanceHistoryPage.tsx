@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { usePluginClient, wrapInSuspense } from "@checkstack/frontend-api";
 import { resolveRoute } from "@checkstack/common";
@@ -22,15 +22,18 @@ import {
   TableCell,
   PageLayout,
   BackLink,
+  Button,
 } from "@checkstack/ui";
-import { Calendar, Clock, History } from "lucide-react";
+import { Calendar, CalendarPlus, Clock, History } from "lucide-react";
 import { format } from "date-fns";
+import { CalendarSubscribeDialog } from "../components/CalendarSubscribeDialog";
 
 const SystemMaintenanceHistoryPageContent: React.FC = () => {
   const { systemId } = useParams<{ systemId: string }>();
   const navigate = useNavigate();
   const maintenanceClient = usePluginClient(MaintenanceApi);
   const catalogClient = usePluginClient(CatalogApi);
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
 
   // Fetch maintenances with useQuery
   const { data: maintenancesData, isLoading: maintenancesLoading } =
@@ -86,15 +89,25 @@ const SystemMaintenanceHistoryPageContent: React.FC = () => {
       loading={loading}
       allowed={true}
       actions={
-        <BackLink
-          onClick={() =>
-            navigate(
-              resolveRoute(catalogRoutes.routes.systemDetail, { systemId }),
-            )
-          }
-        >
-          Back to System
-        </BackLink>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSubscribeOpen(true)}
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Subscribe
+          </Button>
+          <BackLink
+            onClick={() =>
+              navigate(
+                resolveRoute(catalogRoutes.routes.systemDetail, { systemId }),
+              )
+            }
+          >
+            Back to System
+          </BackLink>
+        </div>
       }
     >
       <Card>
@@ -169,6 +182,11 @@ const SystemMaintenanceHistoryPageContent: React.FC = () => {
           )}
         </CardContent>
       </Card>
+      <CalendarSubscribeDialog
+        open={subscribeOpen}
+        onOpenChange={setSubscribeOpen}
+        systemId={systemId}
+      />
     </PageLayout>
   );
 };
@@ -0,0 +1 @@
+ALTER TABLE "notifications" ADD COLUMN "actions" jsonb;
\ No newline at end of file
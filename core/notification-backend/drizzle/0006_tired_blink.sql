@@ -0,0 +1,20 @@
+CREATE TABLE "delivery_logs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"notification_id" uuid,
+	"user_id" text NOT NULL,
+	"strategy_id" text NOT NULL,
+	"title" text NOT NULL,
+	"body" text,
+	"importance" text DEFAULT 'info' NOT NULL,
+	"action" jsonb,
+	"actions" jsonb,
+	"status" text NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_attempt_at" timestamp,
+	"next_retry_at" timestamp,
+	"external_id" text,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "delivery_logs" ADD CONSTRAINT "delivery_logs_notification_id_notifications_id_fk" FOREIGN KEY ("notification_id") REFERENCES "notifications"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
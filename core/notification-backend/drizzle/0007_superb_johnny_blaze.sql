@@ -0,0 +1,7 @@
+CREATE TABLE "delivery_rules" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"rules" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "delivery_logs" ADD COLUMN "digest_id" text;
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { describe, it, expect, mock } from "bun:test";
+import type { Logger, RpcClient } from "@checkstack/backend-api";
+import type { Branding } from "@checkstack/theme-common";
+import { createBrandingResolver, toNotificationBranding } from "./branding";
+
+const branding: Branding = {
+  productName: "Acme Status",
+  logoUrl: "/api/theme/assets/logo?v=1",
+  light: { primary: "#ff0000" },
+  dark: { primary: "#00ff00" },
+  cssVariables: {},
+};
+
+describe("toNotificationBranding", () => {
+  it("uses the light palette and an absolute logo URL", () => {
+    expect(
+      toNotificationBranding(branding, "https://status.acme.com/"),
+    ).toEqual({
+      productName: "Acme Status",
+      logoUrl: "https://status.acme.com/api/theme/assets/logo?v=1",
+      primaryColor: "#ff0000",
+      accentColor: undefined,
+    });
+  });
+
+  it("omits the logo without a base URL", () => {
+    expect(toNotificationBranding(branding, undefined).logoUrl).toBeUndefined();
+  });
+});
+
+describe("createBrandingResolver", () => {
+  const createResolver = (getBranding: () => Promise<Branding>) => {
+    const rpcApi = {
+      forPlugin: mock(() => ({ getBranding: mock(getBranding) })),
+    };
+    const resolve = createBrandingResolver({
+      rpcApi: rpcApi as unknown as RpcClient,
+      logger: { warn: mock() } as unknown as Logger,
+    });
+    return { resolve, rpcApi };
+  };
+
+  it("caches the branding", async () => {
+    const { resolve, rpcApi } = createResolver(async () => branding);
+
+    expect((await resolve())?.productName).toBe("Acme Status");
+    await resolve();
+    expect(rpcApi.forPlugin).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns undefined when the branding cannot be loaded", async () => {
+    const { resolve } = createResolver(async () => {
+      throw new Error("unavailable");
+    });
+
+    expect(await resolve()).toBeUndefined();
+  });
+});
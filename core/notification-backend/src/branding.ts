@@ -0,0 +1,60 @@
+import type {
+  Logger,
+  NotificationBranding,
+  RpcClient,
+} from "@checkstack/backend-api";
+import { ThemeApi, type Branding } from "@checkstack/theme-common";
+import { toAbsoluteUrl } from "./delivery-utils";
+
+const BRANDING_CACHE_MS = 60_000;
+
+/**
+ * Branding passed to strategies. Emails are rendered in light mode, and
+ * external channels cannot resolve the relative logo path.
+ */
+export function toNotificationBranding(
+  branding: Branding,
+  baseUrl: string | undefined,
+): NotificationBranding {
+  return {
+    productName: branding.productName,
+    logoUrl:
+      branding.logoUrl && baseUrl
+        ? toAbsoluteUrl(branding.logoUrl, baseUrl)
+        : undefined,
+    primaryColor: branding.light.primary,
+    accentColor: branding.light.accent,
+  };
+}
+
+/**
+ * Loads the organisation branding from the theme plugin for send contexts.
+ * Cached for a minute so bulk deliveries do not fetch it per recipient.
+ * Failures are logged and deliveries continue without branding.
+ */
+export function createBrandingResolver({
+  rpcApi,
+  logger,
+}: {
+  rpcApi: RpcClient;
+  logger: Logger;
+}): () => Promise<NotificationBranding | undefined> {
+  let cached: { branding: NotificationBranding; expiresAt: number } | undefined;
+
+  return async () => {
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.branding;
+    }
+    try {
+      const branding = await rpcApi.forPlugin(ThemeApi).getBranding();
+      cached = {
+        branding: toNotificationBranding(branding, process.env.BASE_URL),
+        expiresAt: Date.now() + BRANDING_CACHE_MS,
+      };
+      return cached.branding;
+    } catch (error) {
+      logger.warn("[notification-backend] Failed to load branding:", error);
+      return;
+    }
+  };
+}
@@ -0,0 +1,526 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  mock,
+  spyOn,
+} from "bun:test";
+import {
+  createMockDb,
+  createMockLogger,
+  createMockQueueManager,
+} from "@checkstack/test-utils-backend";
+import type {
+  Logger,
+  NotificationDeliveryResult,
+  NotificationStrategyRegistry,
+  RpcClient,
+  SafeDatabase,
+} from "@checkstack/backend-api";
+import type { QueueManager } from "@checkstack/queue-api";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  createDeliveryCoordinator,
+  getRetryDelayMs,
+} from "./delivery-coordinator";
+import type { StrategyService } from "./strategy-service";
+import type * as schema from "./schema";
+
+/**
+ * Unit tests for the delivery coordinator.
+ *
+ * Tests cover:
+ * - Retry delays with exponential backoff
+ * - Rescheduling failed deliveries, honouring a requested retry delay
+ * - Failing deliveries permanently after the maximum number of attempts
+ * - Skipping deliveries that cannot succeed on retry
+ * - Manual retries of failed deliveries
+ * - Queueing deliveries according to user preferences
+ */
+
+describe("getRetryDelayMs", () => {
+  it("doubles the delay with every attempt", () => {
+    expect(getRetryDelayMs(1)).toBe(30_000);
+    expect(getRetryDelayMs(2)).toBe(60_000);
+    expect(getRetryDelayMs(3)).toBe(120_000);
+    expect(getRetryDelayMs(4)).toBe(240_000);
+  });
+
+  it("caps the delay at 30 minutes", () => {
+    expect(getRetryDelayMs(10)).toBe(30 * 60_000);
+  });
+
+  it("honours a longer delay requested by the strategy", () => {
+    expect(getRetryDelayMs(1, 120_000)).toBe(120_000);
+    expect(getRetryDelayMs(20, 60 * 60_000)).toBe(60 * 60_000);
+  });
+
+  it("ignores a shorter delay requested by the strategy", () => {
+    expect(getRetryDelayMs(2, 1000)).toBe(60_000);
+  });
+});
+
+const QUEUE_NAME = "notification-delivery";
+
+type DeliveryLog = typeof schema.deliveryLogs.$inferSelect;
+
+const createLog = (overrides: Partial<DeliveryLog> = {}): DeliveryLog => ({
+  id: "log-1",
+  notificationId: null,
+  userId: "user-1",
+  strategyId: "test.webhook",
+  title: "System down",
+  body: null,
+  importance: "critical",
+  action: null,
+  actions: null,
+  status: "pending",
+  attempts: 0,
+  lastAttemptAt: null,
+  nextRetryAt: null,
+  externalId: null,
+  errorMessage: null,
+  digestId: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const createStrategy = ({
+  qualifiedId = "test.webhook",
+  contactResolution = { type: "auth-email" },
+  send = async () => ({ success: true }),
+}: {
+  qualifiedId?: string;
+  contactResolution?: { type: string; field?: string };
+  send?: () => Promise<NotificationDeliveryResult>;
+} = {}) => ({
+  qualifiedId,
+  contactResolution,
+  send: mock(send),
+});
+
+/**
+ * Mock database that returns the given results for consecutive selects and
+ * records the values of all updates and inserts.
+ */
+function createRecordingDb(selects: unknown[][]) {
+  const updates: Record<string, unknown>[] = [];
+  const inserts: unknown[] = [];
+  const db = createMockDb();
+
+  db.select = mock(() => {
+    const rows = selects.shift() ?? [];
+    return {
+      from: mock(() => ({
+        where: mock(() => Promise.resolve(rows)),
+      })),
+    };
+  }) as unknown as typeof db.select;
+  db.update = mock(() => ({
+    set: mock((values: Record<string, unknown>) => {
+      updates.push(values);
+      return {
+        where: mock(() => Promise.resolve()),
+        returning: mock(() => Promise.resolve([])),
+      };
+    }),
+  })) as unknown as typeof db.update;
+  db.insert = mock(() => ({
+    values: mock((values: unknown) => {
+      inserts.push(values);
+      return Promise.resolve();
+    }),
+  })) as unknown as typeof db.insert;
+
+  return { db: db as unknown as SafeDatabase<typeof schema>, updates, inserts };
+}
+
+function createCoordinator({
+  selects = [],
+  strategies = [createStrategy()],
+  enabled = true,
+  userDeleted = false,
+  preferences = {},
+}: {
+  selects?: unknown[][];
+  strategies?: ReturnType<typeof createStrategy>[];
+  enabled?: boolean;
+  userDeleted?: boolean;
+  preferences?: Record<string, { enabled: boolean; userConfig?: unknown }>;
+} = {}) {
+  const { db, updates, inserts } = createRecordingDb(selects);
+  const queueManager: QueueManager = createMockQueueManager();
+  const queue = queueManager.getQueue<{ logId: string }>(QUEUE_NAME);
+  const enqueue = spyOn(queue, "enqueue");
+
+  const strategyRegistry = {
+    getStrategy: (id: string) =>
+      strategies.find((strategy) => strategy.qualifiedId === id),
+    getStrategies: () => strategies,
+  } as unknown as NotificationStrategyRegistry;
+
+  const strategyService = {
+    getStrategyMeta: mock(async () => ({ enabled })),
+    getStrategyConfig: mock(async () => ({ url: "https://example.com" })),
+    getLayoutConfig: mock(async () => {}),
+    getUserPreference: mock(
+      async (_userId: string, strategyId: string) => preferences[strategyId],
+    ),
+  } as unknown as StrategyService;
+
+  const rpcApi = {
+    forPlugin: () => ({
+      getUserById: mock(async () =>
+        userDeleted
+          ? undefined
+          : { id: "user-1", email: "user@example.com", name: "User" },
+      ),
+      getBranding: mock(async () => {
+        throw new Error("No theme plugin");
+      }),
+    }),
+  } as unknown as RpcClient;
+
+  const coordinator = createDeliveryCoordinator({
+    db,
+    strategyService,
+    strategyRegistry,
+    rpcApi,
+    queueManager,
+    logger: createMockLogger() as unknown as Logger,
+  });
+
+  /** Run the delivery worker for a queued log */
+  const deliver = async (logId = "log-1") => {
+    await coordinator.startWorker();
+    await queue.enqueue({ logId });
+  };
+
+  return { coordinator, deliver, enqueue, updates, inserts };
+}
+
+describe("createDeliveryCoordinator", () => {
+  describe("executeDelivery", () => {
+    it("marks successful deliveries as sent", async () => {
+      const strategy = createStrategy({
+        send: async () => ({ success: true, externalId: "msg-1" }),
+      });
+      const { deliver, updates } = createCoordinator({
+        selects: [[createLog()]],
+        strategies: [strategy],
+      });
+
+      await deliver();
+
+      expect(strategy.send).toHaveBeenCalledTimes(1);
+      expect(updates.at(-1)).toMatchObject({
+        status: "success",
+        externalId: "msg-1",
+      });
+    });
+
+    it("reschedules failed deliveries after the requested delay", async () => {
+      const { deliver, enqueue, updates } = createCoordinator({
+        selects: [[createLog()]],
+        strategies: [
+          createStrategy({
+            send: async () => ({
+              success: false,
+              error: "Rate limited",
+              retryAfterMs: 10 * 60_000,
+            }),
+          }),
+        ],
+      });
+
+      await deliver();
+
+      expect(updates.at(-1)).toMatchObject({
+        status: "retrying",
+        errorMessage: "Rate limited",
+      });
+      expect(enqueue).toHaveBeenLastCalledWith(
+        { logId: "log-1" },
+        { startDelay: 600 },
+      );
+    });
+
+    it("reschedules thrown errors with backoff", async () => {
+      const { deliver, enqueue, updates } = createCoordinator({
+        selects: [[createLog({ attempts: 1, status: "retrying" })]],
+        strategies: [
+          createStrategy({
+            send: async () => {
+              throw new Error("Connection refused");
+            },
+          }),
+        ],
+      });
+
+      await deliver();
+
+      expect(updates.at(-1)).toMatchObject({
+        status: "retrying",
+        errorMessage: "Connection refused",
+      });
+      expect(enqueue).toHaveBeenLastCalledWith(
+        { logId: "log-1" },
+        { startDelay: 60 },
+      );
+    });
+
+    it("fails deliveries after the maximum number of attempts", async () => {
+      const { deliver, enqueue, updates } = createCoordinator({
+        selects: [
+          [
+            createLog({
+              attempts: MAX_DELIVERY_ATTEMPTS - 1,
+              status: "retrying",
+            }),
+          ],
+        ],
+        strategies: [
+          createStrategy({
+            send: async () => ({ success: false, error: "Bad gateway" }),
+          }),
+        ],
+      });
+
+      await deliver();
+
+      expect(updates.at(-1)).toEqual({
+        status: "failed",
+        errorMessage: "Bad gateway",
+        // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+        nextRetryAt: null,
+      });
+      // Only the job that triggered the delivery
+      expect(enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips deliveries of disabled strategies without sending", async () => {
+      const strategy = createStrategy();
+      const { deliver, enqueue, updates } = createCoordinator({
+        selects: [[createLog()]],
+        strategies: [strategy],
+        enabled: false,
+      });
+
+      await deliver();
+
+      expect(strategy.send).not.toHaveBeenCalled();
+      expect(updates.at(-1)).toMatchObject({
+        status: "failed",
+        errorMessage: "Strategy test.webhook is disabled",
+      });
+      expect(enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips deliveries to deleted users without sending", async () => {
+      const strategy = createStrategy();
+      const { deliver, enqueue, updates } = createCoordinator({
+        selects: [[createLog()]],
+        strategies: [strategy],
+        userDeleted: true,
+      });
+
+      await deliver();
+
+      expect(strategy.send).not.toHaveBeenCalled();
+      expect(updates.at(-1)).toMatchObject({
+        status: "failed",
+        errorMessage: "User not found",
+      });
+      expect(enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores held and completed deliveries", async () => {
+      const strategy = createStrategy();
+      const { deliver, updates } = createCoordinator({
+        selects: [[createLog({ status: "held" })]],
+        strategies: [strategy],
+      });
+
+      await deliver();
+
+      expect(strategy.send).not.toHaveBeenCalled();
+      expect(updates).toHaveLength(0);
+    });
+  });
+
+  describe("retryDelivery", () => {
+    it("resets and re-queues failed deliveries", async () => {
+      const { coordinator, enqueue, updates } = createCoordinator({
+        selects: [[{ status: "failed" }]],
+      });
+
+      const result = await coordinator.retryDelivery("log-1");
+
+      expect(result.success).toBe(true);
+      expect(updates).toEqual([
+        {
+          status: "pending",
+          attempts: 0,
+          // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+          errorMessage: null,
+          // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+          nextRetryAt: null,
+        },
+      ]);
+      expect(enqueue).toHaveBeenCalledWith({ logId: "log-1" });
+    });
+
+    it("does not retry deliveries that have not failed", async () => {
+      for (const status of ["pending", "retrying", "success", "held"]) {
+        const { coordinator, enqueue, updates } = createCoordinator({
+          selects: [[{ status }]],
+        });
+
+        expect(await coordinator.retryDelivery("log-1")).toEqual({
+          success: false,
+          message: "Can only retry failed deliveries",
+        });
+        expect(updates).toHaveLength(0);
+        expect(enqueue).not.toHaveBeenCalled();
+      }
+    });
+
+    it("reports unknown deliveries", async () => {
+      const { coordinator, enqueue } = createCoordinator({ selects: [[]] });
+
+      expect(await coordinator.retryDelivery("missing")).toEqual({
+        success: false,
+        message: "Delivery log not found",
+      });
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("queueDeliveries", () => {
+    const originalBaseUrl = process.env.BASE_URL;
+
+    beforeEach(() => {
+      process.env.BASE_URL = "https://status.example.com";
+    });
+
+    afterEach(() => {
+      if (originalBaseUrl === undefined) {
+        delete process.env.BASE_URL;
+      } else {
+        process.env.BASE_URL = originalBaseUrl;
+      }
+    });
+
+    it("queues a delivery per recipient and strategy the user receives", async () => {
+      const { coordinator, enqueue, inserts } = createCoordinator({
+        // No delivery rules stored
+        selects: [[]],
+        strategies: [
+          createStrategy({ qualifiedId: "test.email" }),
+          createStrategy({ qualifiedId: "test.slack" }),
+          createStrategy({
+            qualifiedId: "test.sms",
+            contactResolution: { type: "user-config", field: "phone" },
+          }),
+        ],
+        preferences: {
+          // Channel turned off by the user
+          "test.slack": { enabled: false },
+          // Enabled, but the user did not provide a phone number
+          "test.sms": { enabled: true },
+        },
+      });
+
+      await coordinator.queueDeliveries([{ userId: "user-1" }], {
+        title: "System down",
+        importance: "critical",
+        action: { label: "Open", url: "/catalog/system/1" },
+      });
+
+      expect(inserts).toHaveLength(1);
+      const [values] = inserts as Record<string, unknown>[][];
+      expect(values).toHaveLength(1);
+      expect(values[0]).toMatchObject({
+        userId: "user-1",
+        strategyId: "test.email",
+        status: "pending",
+        action: {
+          label: "Open",
+          url: "https://status.example.com/catalog/system/1",
+        },
+      });
+      expect(enqueue).toHaveBeenCalledWith({ logId: values[0].id });
+    });
+
+    it("queues nothing when the user turned off every channel", async () => {
+      const { coordinator, enqueue, inserts } = createCoordinator({
+        selects: [[]],
+        preferences: { "test.webhook": { enabled: false } },
+      });
+
+      await coordinator.queueDeliveries([{ userId: "user-1" }], {
+        title: "System down",
+        importance: "critical",
+      });
+
+      expect(inserts).toHaveLength(0);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("holds deliveries for the user's digest", async () => {
+      const { coordinator, enqueue, inserts } = createCoordinator({
+        selects: [[{ userId: "user-1", rules: { digest: "hourly" } }]],
+      });
+
+      await coordinator.queueDeliveries([{ userId: "user-1" }], {
+        title: "Maintenance scheduled",
+        importance: "info",
+      });
+
+      const [values] = inserts as Record<string, unknown>[][];
+      expect(values).toHaveLength(1);
+      expect(values[0].status).toBe("held");
+      expect(values[0].nextRetryAt).toBeInstanceOf(Date);
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("routes importance levels to the channels chosen by the user", async () => {
+      const { coordinator, inserts } = createCoordinator({
+        selects: [
+          [
+            {
+              userId: "user-1",
+              rules: { channelImportances: { "test.slack": ["critical"] } },
+            },
+          ],
+        ],
+        strategies: [
+          createStrategy({ qualifiedId: "test.email" }),
+          createStrategy({ qualifiedId: "test.slack" }),
+        ],
+      });
+
+      await coordinator.queueDeliveries([{ userId: "user-1" }], {
+        title: "Response time degraded",
+        importance: "warning",
+      });
+
+      const [values] = inserts as Record<string, unknown>[][];
+      expect(values.map((value) => value.strategyId)).toEqual(["test.email"]);
+    });
+
+    it("does nothing without a frontend URL", async () => {
+      delete process.env.BASE_URL;
+      const { coordinator, inserts } = createCoordinator({ selects: [[]] });
+
+      await coordinator.queueDeliveries([{ userId: "user-1" }], {
+        title: "System down",
+        importance: "critical",
+      });
+
+      expect(inserts).toHaveLength(0);
+    });
+  });
+});
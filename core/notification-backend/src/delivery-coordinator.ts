@@ -0,0 +1,592 @@
+import type {
+  Logger,
+  NotificationDeliveryResult,
+  NotificationPayload,
+  NotificationSendContext,
+  NotificationStrategyRegistry,
+  RegisteredNotificationStrategy,
+  RpcClient,
+  SafeDatabase,
+} from "@checkstack/backend-api";
+import type { QueueManager } from "@checkstack/queue-api";
+import { AuthApi } from "@checkstack/auth-common";
+import type {
+  Importance,
+  NotificationAction,
+} from "@checkstack/notification-common";
+import { and, asc, eq, inArray, lte, sql } from "drizzle-orm";
+
+import * as schema from "./schema";
+import type { StrategyService } from "./strategy-service";
+import { resolveContact, toAbsoluteUrl } from "./delivery-utils";
+import { createBrandingResolver } from "./branding";
+import {
+  DEFAULT_DELIVERY_RULES,
+  buildDigest,
+  getHoldUntil,
+  isRoutedTo,
+} from "./delivery-rules";
+
+const QUEUE_NAME = "notification-delivery";
+const FLUSH_QUEUE_NAME = "notification-digest";
+const FLUSH_JOB_ID = "notification-digest-flush";
+const FLUSH_INTERVAL_SECONDS = 60;
+
+/** Attempts before a delivery is marked as failed */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 30 * 60_000;
+
+/**
+ * Delay before the next attempt: doubles with every attempt (30s, 1min,
+ * 2min, ...) up to 30 minutes. A delay requested by the strategy, e.g. from
+ * a Retry-After header, takes precedence when it is longer.
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  retryAfterMs?: number
+): number {
+  const backoff = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0),
+    MAX_RETRY_DELAY_MS
+  );
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+/**
+ * Job data for the delivery queue, the delivery itself is read from the log
+ */
+interface DeliveryJobData {
+  logId: string;
+}
+
+/**
+ * Notification to deliver to external channels
+ */
+export interface DeliveryNotification {
+  title: string;
+  body?: string;
+  importance: Importance;
+  action?: NotificationAction;
+  actions?: NotificationAction[];
+}
+
+export interface DeliveryRecipient {
+  userId: string;
+  /** In-app notification the delivery belongs to */
+  notificationId?: string;
+}
+
+/**
+ * Delivery coordinator - queues external deliveries of notifications and
+ * retries failed ones with exponential backoff.
+ * The delivery rules of the user are applied before anything is sent.
+ */
+export interface DeliveryCoordinator {
+  /**
+   * Create a delivery log entry and queue a job for every recipient and
+   * strategy the recipient receives notifications through.
+   * Deliveries during quiet hours or for a digest are held back.
+   */
+  queueDeliveries(
+    recipients: DeliveryRecipient[],
+    notification: DeliveryNotification
+  ): Promise<void>;
+
+  /**
+   * Start the delivery worker that processes queued deliveries, and the
+   * recurring job that releases held deliveries.
+   * Must be called during afterPluginsReady.
+   */
+  startWorker(): Promise<void>;
+
+  /**
+   * Queue held deliveries that are due. Several deliveries to the same user
+   * and strategy are combined into one digest.
+   */
+  flushHeldDeliveries(now?: Date): Promise<void>;
+
+  /**
+   * Retry a specific failed delivery
+   */
+  retryDelivery(logId: string): Promise<{ success: boolean; message?: string }>;
+}
+
+type DeliveryLogInsert = typeof schema.deliveryLogs.$inferInsert & {
+  id: string;
+};
+
+interface DeliveryCoordinatorDeps {
+  db: SafeDatabase<typeof schema>;
+  strategyService: StrategyService;
+  strategyRegistry: NotificationStrategyRegistry;
+  rpcApi: RpcClient;
+  queueManager: QueueManager;
+  logger: Logger;
+}
+
+/**
+ * Whether the user can be reached via the strategy.
+ * Email addresses are resolved when the delivery is sent.
+ */
+function hasContact(
+  strategy: RegisteredNotificationStrategy<unknown, unknown, unknown>,
+  userPreference: Parameters<typeof resolveContact>[0]["userPreference"]
+): boolean {
+  const { type } = strategy.contactResolution;
+  if (type === "auth-email" || type === "auth-provider") return true;
+  return resolveContact({ strategy, userPreference }) !== undefined;
+}
+
+/**
+ * Create a delivery coordinator instance
+ */
+export function createDeliveryCoordinator(
+  deps: DeliveryCoordinatorDeps
+): DeliveryCoordinator {
+  const {
+    db,
+    strategyService,
+    strategyRegistry,
+    rpcApi,
+    queueManager,
+    logger,
+  } = deps;
+
+  const getQueue = () => queueManager.getQueue<DeliveryJobData>(QUEUE_NAME);
+  const resolveBranding = createBrandingResolver({ rpcApi, logger });
+
+  async function markFailed(logId: string, errorMessage: string) {
+    await db
+      .update(schema.deliveryLogs)
+      .set({
+        status: "failed",
+        errorMessage,
+        // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+        nextRetryAt: null,
+      })
+      .where(eq(schema.deliveryLogs.id, logId));
+  }
+
+  /**
+   * Send the delivery. Returns an error message without sending if the
+   * delivery cannot succeed on retry, e.g. because the user was deleted.
+   */
+  async function send(
+    log: typeof schema.deliveryLogs.$inferSelect
+  ): Promise<NotificationDeliveryResult | { skipped: string }> {
+    const strategy = strategyRegistry.getStrategy(log.strategyId);
+    if (!strategy) {
+      return { skipped: `Strategy ${log.strategyId} is not registered` };
+    }
+
+    const meta = await strategyService.getStrategyMeta(log.strategyId);
+    if (!meta.enabled) {
+      return { skipped: `Strategy ${log.strategyId} is disabled` };
+    }
+
+    const user = await rpcApi
+      .forPlugin(AuthApi)
+      .getUserById({ userId: log.userId });
+    if (!user) {
+      return { skipped: "User not found" };
+    }
+
+    const pref = await strategyService.getUserPreference(
+      log.userId,
+      log.strategyId
+    );
+    if (pref && pref.enabled === false) {
+      return { skipped: "User disabled this channel" };
+    }
+
+    const contact = resolveContact({
+      strategy,
+      userEmail: user.email,
+      userPreference: pref,
+    });
+    if (!contact) {
+      return { skipped: "No contact information for this channel" };
+    }
+
+    const strategyConfig = await strategyService.getStrategyConfig(
+      log.strategyId
+    );
+    if (!strategyConfig) {
+      return { skipped: `Strategy ${log.strategyId} is not configured` };
+    }
+
+    const layoutConfig = await strategyService.getLayoutConfig(
+      log.strategyId
+    );
+
+    const payload: NotificationPayload = {
+      title: log.title,
+      body: log.body ?? undefined,
+      importance: log.importance as Importance,
+      action: log.action ?? undefined,
+      actions: log.actions ?? undefined,
+      type: "notification",
+    };
+
+    const sendContext: NotificationSendContext<unknown, unknown, unknown> = {
+      user: {
+        userId: user.id,
+        email: user.email,
+        displayName: user.name ?? undefined,
+      },
+      contact,
+      notification: payload,
+      strategyConfig,
+      userConfig: pref?.userConfig,
+      layoutConfig,
+      branding: await resolveBranding(),
+      logger,
+    };
+
+    logger.debug(
+      `[external-delivery] Sending ${log.id} via ${log.strategyId} to ${contact}`
+    );
+    return strategy.send(sendContext);
+  }
+
+  /**
+   * Execute delivery for a single job
+   */
+  async function executeDelivery(job: DeliveryJobData): Promise<void> {
+    const [log] = await db
+      .select()
+      .from(schema.deliveryLogs)
+      .where(eq(schema.deliveryLogs.id, job.logId));
+
+    // Held deliveries are queued once they are released
+    if (!log || (log.status !== "pending" && log.status !== "retrying")) {
+      return;
+    }
+
+    const attempts = log.attempts + 1;
+
+    // Update log to show attempt in progress
+    await db
+      .update(schema.deliveryLogs)
+      .set({
+        attempts: sql`${schema.deliveryLogs.attempts} + 1`,
+        lastAttemptAt: new Date(),
+      })
+      .where(eq(schema.deliveryLogs.id, log.id));
+
+    let result: NotificationDeliveryResult;
+    try {
+      const sent = await send(log);
+      if ("skipped" in sent) {
+        await markFailed(log.id, sent.skipped);
+        logger.debug(
+          `[external-delivery] Skipped ${log.id} via ${log.strategyId}: ${sent.skipped}`
+        );
+        return;
+      }
+      result = sent;
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (result.success) {
+      await db
+        .update(schema.deliveryLogs)
+        .set({
+          status: "success",
+          externalId: result.externalId,
+          // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+          errorMessage: null,
+          // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+          nextRetryAt: null,
+        })
+        .where(eq(schema.deliveryLogs.id, log.id));
+
+      logger.debug(
+        `[external-delivery] Delivered ${log.id} via ${log.strategyId}`
+      );
+      return;
+    }
+
+    const errorMessage =
+      result.error ?? "Delivery failed without error message";
+
+    if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      await markFailed(log.id, errorMessage);
+      logger.error(
+        `[external-delivery] Delivery ${log.id} via ${log.strategyId} failed permanently after ${attempts} attempts: ${errorMessage}`
+      );
+      return;
+    }
+
+    const retryDelay = getRetryDelayMs(attempts, result.retryAfterMs);
+    const nextRetryAt = new Date(Date.now() + retryDelay);
+
+    await db
+      .update(schema.deliveryLogs)
+      .set({ status: "retrying", errorMessage, nextRetryAt })
+      .where(eq(schema.deliveryLogs.id, log.id));
+
+    await getQueue().enqueue(job, {
+      startDelay: Math.ceil(retryDelay / 1000), // Convert ms to seconds
+    });
+
+    logger.warn(
+      `[external-delivery] Delivery ${log.id} via ${
+        log.strategyId
+      } failed (attempt ${attempts}/${MAX_DELIVERY_ATTEMPTS}), retrying at ${nextRetryAt.toISOString()}: ${errorMessage}`
+    );
+  }
+
+  /**
+   * Queue held deliveries that are due
+   */
+  async function flushHeldDeliveries(now = new Date()): Promise<void> {
+    const due = await db
+      .select()
+      .from(schema.deliveryLogs)
+      .where(
+        and(
+          eq(schema.deliveryLogs.status, "held"),
+          lte(schema.deliveryLogs.nextRetryAt, now)
+        )
+      )
+      .orderBy(asc(schema.deliveryLogs.createdAt));
+    if (due.length === 0) return;
+
+    // One message per user and strategy
+    const groups = new Map<string, typeof due>();
+    for (const log of due) {
+      const key = `${log.userId}:${log.strategyId}`;
+      groups.set(key, [...(groups.get(key) ?? []), log]);
+    }
+
+    const queue = getQueue();
+    for (const logs of groups.values()) {
+      const [first] = logs;
+
+      if (logs.length === 1) {
+        await db
+          .update(schema.deliveryLogs)
+          // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+          .set({ status: "pending", nextRetryAt: null })
+          .where(eq(schema.deliveryLogs.id, first.id));
+        await queue.enqueue({ logId: first.id });
+        continue;
+      }
+
+      const digestId = crypto.randomUUID();
+      await db.insert(schema.deliveryLogs).values({
+        id: digestId,
+        userId: first.userId,
+        strategyId: first.strategyId,
+        ...buildDigest(
+          logs.map((log) => ({
+            ...log,
+            importance: log.importance as Importance,
+          }))
+        ),
+        status: "pending",
+        attempts: 0,
+      });
+      await db
+        .update(schema.deliveryLogs)
+        // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+        .set({ status: "batched", digestId, nextRetryAt: null })
+        .where(
+          inArray(
+            schema.deliveryLogs.id,
+            logs.map((log) => log.id)
+          )
+        );
+      await queue.enqueue({ logId: digestId });
+    }
+
+    logger.debug(
+      `[external-delivery] Released ${due.length} held deliveries`
+    );
+  }
+
+  return {
+    async queueDeliveries(recipients, notification): Promise<void> {
+      if (recipients.length === 0) return;
+
+      const baseUrl = process.env.BASE_URL;
+      if (!baseUrl) {
+        logger.error(
+          "[notification-backend] No frontend URL configured, skipping external delivery"
+        );
+        return;
+      }
+
+      // Enabled and configured strategies
+      const strategies: RegisteredNotificationStrategy<
+        unknown,
+        unknown,
+        unknown
+      >[] = [];
+      for (const strategy of strategyRegistry.getStrategies()) {
+        const meta = await strategyService.getStrategyMeta(
+          strategy.qualifiedId
+        );
+        if (!meta.enabled) continue;
+        const config = await strategyService.getStrategyConfig(
+          strategy.qualifiedId
+        );
+        if (!config) continue;
+        strategies.push(strategy);
+      }
+      if (strategies.length === 0) return;
+
+      // External channels cannot resolve relative paths
+      const content = {
+        title: notification.title,
+        body: notification.body,
+        importance: notification.importance,
+        action: notification.action && {
+          label: notification.action.label,
+          url: toAbsoluteUrl(notification.action.url, baseUrl),
+        },
+        actions: notification.actions?.map((a) => ({
+          label: a.label,
+          url: toAbsoluteUrl(a.url, baseUrl),
+        })),
+      };
+
+      const storedRules = await db
+        .select()
+        .from(schema.deliveryRules)
+        .where(
+          inArray(
+            schema.deliveryRules.userId,
+            recipients.map((r) => r.userId)
+          )
+        );
+      const rulesByUser = new Map(
+        storedRules.map((row) => [
+          row.userId,
+          { ...DEFAULT_DELIVERY_RULES, ...row.rules },
+        ])
+      );
+
+      const now = new Date();
+      const values: DeliveryLogInsert[] = [];
+      for (const { userId, notificationId } of recipients) {
+        const rules = rulesByUser.get(userId) ?? DEFAULT_DELIVERY_RULES;
+        const holdUntil = getHoldUntil(rules, notification.importance, now);
+
+        for (const strategy of strategies) {
+          const { qualifiedId } = strategy;
+          if (!isRoutedTo(rules, qualifiedId, notification.importance)) {
+            continue;
+          }
+
+          const pref = await strategyService.getUserPreference(
+            userId,
+            strategy.qualifiedId
+          );
+          if (pref && pref.enabled === false) continue;
+          if (!hasContact(strategy, pref)) continue;
+
+          values.push({
+            id: crypto.randomUUID(),
+            notificationId,
+            userId,
+            strategyId: strategy.qualifiedId,
+            ...content,
+            status: holdUntil ? "held" : "pending",
+            nextRetryAt: holdUntil,
+            attempts: 0,
+          });
+        }
+      }
+      if (values.length === 0) return;
+
+      await db.insert(schema.deliveryLogs).values(values);
+
+      const queue = getQueue();
+      const queued = values.filter((value) => value.status === "pending");
+      for (const { id } of queued) {
+        await queue.enqueue({ logId: id });
+      }
+
+      logger.debug(
+        `[external-delivery] Queued ${queued.length} deliveries, held ${
+          values.length - queued.length
+        }`
+      );
+    },
+
+    async startWorker(): Promise<void> {
+      await getQueue().consume(
+        async (job) => {
+          await executeDelivery(job.data);
+        },
+        {
+          consumerGroup: QUEUE_NAME,
+          maxRetries: 0, // Retries are scheduled with backoff by the worker
+        }
+      );
+
+      const flushQueue =
+        queueManager.getQueue<Record<string, never>>(FLUSH_QUEUE_NAME);
+      await flushQueue.consume(
+        async () => {
+          await flushHeldDeliveries();
+        },
+        {
+          consumerGroup: FLUSH_QUEUE_NAME,
+          maxRetries: 0, // The next run picks up anything missed
+        }
+      );
+      await flushQueue.scheduleRecurring(
+        {},
+        { jobId: FLUSH_JOB_ID, intervalSeconds: FLUSH_INTERVAL_SECONDS }
+      );
+
+      logger.debug(
+        `Notification delivery worker started on queue: ${QUEUE_NAME}`
+      );
+    },
+
+    flushHeldDeliveries,
+
+    async retryDelivery(
+      logId: string
+    ): Promise<{ success: boolean; message?: string }> {
+      const [log] = await db
+        .select({ status: schema.deliveryLogs.status })
+        .from(schema.deliveryLogs)
+        .where(eq(schema.deliveryLogs.id, logId));
+
+      if (!log) {
+        return { success: false, message: "Delivery log not found" };
+      }
+
+      if (log.status !== "failed") {
+        return { success: false, message: "Can only retry failed deliveries" };
+      }
+
+      // Reset the log and re-queue
+      await db
+        .update(schema.deliveryLogs)
+        .set({
+          status: "pending",
+          attempts: 0,
+          // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+          errorMessage: null,
+          // eslint-disable-next-line unicorn/no-null -- drizzle requires null to clear a column
+          nextRetryAt: null,
+        })
+        .where(eq(schema.deliveryLogs.id, logId));
+
+      await getQueue().enqueue({ logId });
+
+      return { success: true, message: "Delivery re-queued" };
+    },
+  };
+}
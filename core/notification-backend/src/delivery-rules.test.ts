@@ -0,0 +1,176 @@
+import { describe, it, expect } from "bun:test";
+import type { DeliveryRules } from "@checkstack/notification-common";
+import {
+  DEFAULT_DELIVERY_RULES,
+  buildDigest,
+  getHoldUntil,
+  getNextDigestAt,
+  getNextLocalTime,
+  isInQuietHours,
+  isRoutedTo,
+} from "./delivery-rules";
+
+const rules = (overrides: Partial<DeliveryRules>): DeliveryRules => ({
+  ...DEFAULT_DELIVERY_RULES,
+  ...overrides,
+});
+
+const nightQuietHours = {
+  start: "22:00",
+  end: "07:00",
+  allowCritical: true,
+};
+
+describe("getNextLocalTime", () => {
+  it("returns the next occurrence in the timezone", () => {
+    expect(
+      getNextLocalTime(
+        new Date("2026-01-10T12:00:00Z"),
+        "Europe/Berlin",
+        "07:00"
+      )
+    ).toEqual(new Date("2026-01-11T06:00:00Z"));
+    expect(
+      getNextLocalTime(
+        new Date("2026-01-10T05:30:00Z"),
+        "Europe/Berlin",
+        "07:00"
+      )
+    ).toEqual(new Date("2026-01-10T06:00:00Z"));
+  });
+
+  it("keeps the local time across a DST change", () => {
+    // Berlin switches to summer time on 2026-03-29 at 02:00
+    expect(
+      getNextLocalTime(
+        new Date("2026-03-28T12:00:00Z"),
+        "Europe/Berlin",
+        "07:00"
+      )
+    ).toEqual(new Date("2026-03-29T05:00:00Z"));
+  });
+});
+
+describe("isInQuietHours", () => {
+  it("handles quiet hours spanning midnight", () => {
+    const at = (iso: string) =>
+      isInQuietHours(nightQuietHours, "Europe/Berlin", new Date(iso));
+    expect(at("2026-01-10T02:00:00Z")).toBe(true); // 03:00 local
+    expect(at("2026-01-10T21:30:00Z")).toBe(true); // 22:30 local
+    expect(at("2026-01-10T06:00:00Z")).toBe(false); // 07:00 local
+    expect(at("2026-01-10T12:00:00Z")).toBe(false);
+  });
+
+  it("handles quiet hours within a day", () => {
+    const quietHours = { start: "12:00", end: "14:00", allowCritical: true };
+    expect(
+      isInQuietHours(quietHours, "UTC", new Date("2026-01-10T13:00:00Z"))
+    ).toBe(true);
+    expect(
+      isInQuietHours(quietHours, "UTC", new Date("2026-01-10T14:00:00Z"))
+    ).toBe(false);
+  });
+});
+
+describe("isRoutedTo", () => {
+  it("routes all levels to channels without routing", () => {
+    expect(isRoutedTo(DEFAULT_DELIVERY_RULES, "slack.slack", "info")).toBe(
+      true
+    );
+  });
+
+  it("routes only the configured levels", () => {
+    const routed = rules({
+      channelImportances: { "telegram.telegram": ["critical"] },
+    });
+    expect(isRoutedTo(routed, "telegram.telegram", "warning")).toBe(false);
+    expect(isRoutedTo(routed, "telegram.telegram", "critical")).toBe(true);
+    expect(isRoutedTo(routed, "smtp.smtp", "warning")).toBe(true);
+  });
+});
+
+describe("getNextDigestAt", () => {
+  it("sends hourly digests at the top of the local hour", () => {
+    expect(
+      getNextDigestAt(
+        rules({ digest: "hourly", timezone: "Asia/Kolkata" }),
+        new Date("2026-01-10T12:10:00Z")
+      )
+    ).toEqual(new Date("2026-01-10T12:30:00Z"));
+  });
+
+  it("sends daily digests at the digest time", () => {
+    expect(
+      getNextDigestAt(
+        rules({ digest: "daily", digestTime: "08:00", timezone: "UTC" }),
+        new Date("2026-01-10T12:00:00Z")
+      )
+    ).toEqual(new Date("2026-01-11T08:00:00Z"));
+  });
+});
+
+describe("getHoldUntil", () => {
+  const night = new Date("2026-01-10T02:00:00Z"); // 03:00 in Berlin
+  const quiet = rules({
+    timezone: "Europe/Berlin",
+    quietHours: nightQuietHours,
+  });
+
+  it("sends right away without quiet hours or digest", () => {
+    expect(getHoldUntil(DEFAULT_DELIVERY_RULES, "info", night)).toBeUndefined();
+  });
+
+  it("holds notifications until the end of quiet hours", () => {
+    expect(getHoldUntil(quiet, "warning", night)).toEqual(
+      new Date("2026-01-10T06:00:00Z")
+    );
+  });
+
+  it("lets critical notifications bypass quiet hours if allowed", () => {
+    expect(getHoldUntil(quiet, "critical", night)).toBeUndefined();
+    expect(
+      getHoldUntil(
+        rules({
+          timezone: "Europe/Berlin",
+          quietHours: { ...nightQuietHours, allowCritical: false },
+        }),
+        "critical",
+        night
+      )
+    ).toEqual(new Date("2026-01-10T06:00:00Z"));
+  });
+
+  it("holds info and warning notifications for the digest", () => {
+    const digest = rules({ digest: "hourly" });
+    const noon = new Date("2026-01-10T12:10:00Z");
+    expect(getHoldUntil(digest, "info", noon)).toEqual(
+      new Date("2026-01-10T13:00:00Z")
+    );
+    expect(getHoldUntil(digest, "critical", noon)).toBeUndefined();
+  });
+
+  it("moves digests due during quiet hours to their end", () => {
+    expect(
+      getHoldUntil({ ...quiet, digest: "hourly" }, "info", night)
+    ).toEqual(new Date("2026-01-10T06:00:00Z"));
+  });
+});
+
+describe("buildDigest", () => {
+  it("combines notifications with the highest importance", () => {
+    const digest = buildDigest([
+      { title: "Flapping", body: "API is degraded", importance: "warning" },
+      {
+        title: "Recovered",
+        importance: "info",
+        action: { label: "View", url: "https://example.com/s/1" },
+      },
+    ]);
+
+    expect(digest.title).toBe("2 notifications");
+    expect(digest.importance).toBe("warning");
+    expect(digest.body).toBe(
+      "**Flapping**\n\nAPI is degraded\n\n---\n\n**Recovered**\n\n[View](https://example.com/s/1)"
+    );
+  });
+});
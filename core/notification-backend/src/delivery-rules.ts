@@ -0,0 +1,181 @@
+import {
+  DeliveryRulesSchema,
+  type DeliveryRules,
+  type Importance,
+  type NotificationAction,
+  type QuietHours,
+} from "@checkstack/notification-common";
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60_000;
+
+/** Rules of users that have not configured any */
+export const DEFAULT_DELIVERY_RULES: DeliveryRules = DeliveryRulesSchema.parse(
+  {}
+);
+
+const IMPORTANCE_RANK: Record<Importance, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+/** Minutes since midnight of a "HH:mm" time */
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Minutes since local midnight of an instant in a timezone */
+export function getLocalMinutes(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return get("hour") * 60 + get("minute");
+}
+
+/**
+ * First instant after `now` at which the local time in the timezone is the
+ * given time of day.
+ */
+export function getNextLocalTime(
+  now: Date,
+  timeZone: string,
+  timeOfDay: string
+): Date {
+  const target = parseTimeOfDay(timeOfDay);
+  const start = new Date(now);
+  start.setUTCSeconds(0, 0);
+
+  const current = getLocalMinutes(start, timeZone);
+  const delta =
+    (target - current + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const candidate = new Date(start.getTime() + delta * MINUTE_MS);
+
+  // A DST change in between shifts the local time of the candidate
+  let drift = getLocalMinutes(candidate, timeZone) - target;
+  if (drift > MINUTES_PER_DAY / 2) drift -= MINUTES_PER_DAY;
+  if (drift < -MINUTES_PER_DAY / 2) drift += MINUTES_PER_DAY;
+  const corrected = new Date(candidate.getTime() - drift * MINUTE_MS);
+  return corrected > now && getLocalMinutes(corrected, timeZone) === target
+    ? corrected
+    : candidate;
+}
+
+/**
+ * Whether the instant falls into the quiet hours. Quiet hours may span
+ * midnight, e.g. 22:00 to 07:00.
+ */
+export function isInQuietHours(
+  quietHours: QuietHours,
+  timeZone: string,
+  date: Date
+): boolean {
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  const current = getLocalMinutes(date, timeZone);
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/** Next time a digest of the rules is sent */
+export function getNextDigestAt(rules: DeliveryRules, now: Date): Date {
+  if (rules.digest === "daily") {
+    return getNextLocalTime(now, rules.timezone, rules.digestTime);
+  }
+  // Top of the next local hour, timezones may be offset by 30 minutes
+  const start = new Date(now);
+  start.setUTCSeconds(0, 0);
+  const minutesIntoHour = getLocalMinutes(start, rules.timezone) % 60;
+  return new Date(start.getTime() + (60 - minutesIntoHour) * MINUTE_MS);
+}
+
+/**
+ * Whether notifications of the importance are sent via the strategy.
+ * Strategies the user has no routing for receive all importance levels.
+ */
+export function isRoutedTo(
+  rules: DeliveryRules,
+  strategyId: string,
+  importance: Importance
+): boolean {
+  const levels = rules.channelImportances[strategyId];
+  return !levels || levels.includes(importance);
+}
+
+/**
+ * Time a delivery is held back until, undefined if it is sent right away.
+ * Critical notifications skip digests and, if allowed, quiet hours.
+ * Digests due during quiet hours are sent when they end.
+ */
+export function getHoldUntil(
+  rules: DeliveryRules,
+  importance: Importance,
+  now: Date
+): Date | undefined {
+  const { quietHours, timezone } = rules;
+  const getQuietHoursEnd = (date: Date) =>
+    quietHours && isInQuietHours(quietHours, timezone, date)
+      ? getNextLocalTime(date, timezone, quietHours.end)
+      : undefined;
+
+  if (importance === "critical") {
+    return quietHours?.allowCritical ? undefined : getQuietHoursEnd(now);
+  }
+  if (rules.digest !== "off") {
+    const digestAt = getNextDigestAt(rules, now);
+    return getQuietHoursEnd(digestAt) ?? digestAt;
+  }
+  return getQuietHoursEnd(now);
+}
+
+export interface DigestItem {
+  title: string;
+  body?: string | null;
+  importance: Importance;
+  action?: NotificationAction | null;
+}
+
+/**
+ * Combine held notifications into one message, oldest first.
+ * The digest has the highest importance of its notifications.
+ */
+export function buildDigest(items: DigestItem[]): {
+  title: string;
+  body: string;
+  importance: Importance;
+} {
+  const [importance = "info"] = items
+    .map((item) => item.importance)
+    .toSorted((a, b) => IMPORTANCE_RANK[b] - IMPORTANCE_RANK[a]);
+
+  const sections = items.map((item) =>
+    [
+      `**${item.title}**`,
+      item.body,
+      item.action && `[${item.action.label}](${item.action.url})`,
+    ]
+      .filter(Boolean)
+      .join("\n\n")
+  );
+
+  return {
+    title: `${items.length} notifications`,
+    body: sections.join("\n\n---\n\n"),
+    importance,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Helper: Resolve user contact information based on strategy's contactResolution type.
+ * Returns undefined if contact cannot be resolved.
+ */
+export function resolveContact({
+  strategy,
+  userEmail,
+  userPreference,
+}: {
+  strategy: { contactResolution: { type: string; field?: string } };
+  userEmail?: string;
+  userPreference?: {
+    externalId?: string | null;
+    userConfig?: Record<string, unknown> | null;
+  } | null;
+}): string | undefined {
+  const resType = strategy.contactResolution.type;
+
+  switch (resType) {
+    case "auth-email":
+    case "auth-provider": {
+      return userEmail;
+    }
+    case "oauth-link": {
+      return userPreference?.externalId ?? undefined;
+    }
+    case "user-config": {
+      const fieldName =
+        "field" in strategy.contactResolution
+          ? strategy.contactResolution.field
+          : undefined;
+      if (userPreference?.userConfig && fieldName) {
+        return String(userPreference.userConfig[fieldName]);
+      }
+      return undefined;
+    }
+    default: {
+      throw new Error(`Unknown contact resolution type: ${resType}`);
+    }
+  }
+}
+
+/**
+ * Helper: Prefix relative action paths with the frontend base URL.
+ * External channels cannot resolve paths like "/catalog/system/123".
+ */
+export function toAbsoluteUrl(url: string, baseUrl: string): string {
+  if (url.startsWith("http")) return url;
+  return `${baseUrl.replace(/\/$/, "")}${url.startsWith("/") ? "" : "/"}${url}`;
+}
@@ -24,6 +24,10 @@ import { createNotificationRouter } from "./router";
 import { authHooks } from "@checkstack/auth-backend";
 import { createOAuthCallbackHandler } from "./oauth-callback-handler";
 import { createStrategyService } from "./strategy-service";
+import {
+  createDeliveryCoordinator,
+  type DeliveryCoordinator,
+} from "./delivery-coordinator";
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Extension Point
@@ -157,6 +161,7 @@ export default createBackendPlugin({
         rpcClient: coreServices.rpcClient,
         config: coreServices.config,
         signalService: coreServices.signalService,
+        queueManager: coreServices.queueManager,
       },
       init: async ({
         logger,
@@ -165,6 +170,7 @@ export default createBackendPlugin({
         rpcClient,
         config,
         signalService,
+        queueManager,
       }) => {
         logger.debug("🔔 Initializing Notification Backend...");
 
@@ -184,6 +190,21 @@ export default createBackendPlugin({
           env as unknown as { strategyService: typeof strategyService }
         ).strategyService = strategyService;
 
+        // Queues and retries deliveries via external channels
+        const deliveryCoordinator = createDeliveryCoordinator({
+          db,
+          strategyService,
+          strategyRegistry,
+          rpcApi: rpcClient,
+          queueManager,
+          logger,
+        });
+
+        // Store for afterPluginsReady access
+        (
+          env as unknown as { deliveryCoordinator: DeliveryCoordinator }
+        ).deliveryCoordinator = deliveryCoordinator;
+
         // Create and register the notification router with strategy registry
         const router = createNotificationRouter(
           db,
@@ -191,7 +212,8 @@ export default createBackendPlugin({
           signalService,
           strategyRegistry,
           rpcClient,
-          logger
+          logger,
+          deliveryCoordinator
         );
         rpc.registerRouter(router, notificationContract);
 
@@ -243,6 +265,11 @@ export default createBackendPlugin({
           }
         }
 
+        // Start the external delivery worker
+        await (
+          env as unknown as { deliveryCoordinator: DeliveryCoordinator }
+        ).deliveryCoordinator.startWorker();
+
         // Subscribe to user deletion to clean up notifications and subscriptions
         onHook(
           authHooks.userDeleted,
@@ -263,6 +290,13 @@ export default createBackendPlugin({
             await db
               .delete(schema.notificationSubscriptions)
               .where(eq(schema.notificationSubscriptions.userId, userId));
+            // Delete delivery logs and rules for this user
+            await db
+              .delete(schema.deliveryLogs)
+              .where(eq(schema.deliveryLogs.userId, userId));
+            await db
+              .delete(schema.deliveryRules)
+              .where(eq(schema.deliveryRules.userId, userId));
             // Delete notifications for this user
             await db
               .delete(schema.notifications)
@@ -29,6 +29,8 @@ import {
   getEnrichedUserSubscriptions,
   subscribeToGroup,
   unsubscribeFromGroup,
+  getDeliveryRules,
+  setDeliveryRules,
 } from "./service";
 import {
   retentionConfigV1,
@@ -39,48 +41,9 @@ import {
   createStrategyService,
   type StrategyService,
 } from "./strategy-service";
-
-/**
- * Helper: Resolve user contact information based on strategy's contactResolution type.
- * Returns undefined if contact cannot be resolved.
- */
-function resolveContact({
-  strategy,
-  userEmail,
-  userPreference,
-}: {
-  strategy: { contactResolution: { type: string; field?: string } };
-  userEmail?: string;
-  userPreference?: {
-    externalId?: string | null;
-    userConfig?: Record<string, unknown> | null;
-  } | null;
-}): string | undefined {
-  const resType = strategy.contactResolution.type;
-
-  switch (resType) {
-    case "auth-email":
-    case "auth-provider": {
-      return userEmail;
-    }
-    case "oauth-link": {
-      return userPreference?.externalId ?? undefined;
-    }
-    case "user-config": {
-      const fieldName =
-        "field" in strategy.contactResolution
-          ? strategy.contactResolution.field
-          : undefined;
-      if (userPreference?.userConfig && fieldName) {
-        return String(userPreference.userConfig[fieldName]);
-      }
-      return undefined;
-    }
-    default: {
-      throw new Error(`Unknown contact resolution type: ${resType}`);
-    }
-  }
-}
+import type { DeliveryCoordinator } from "./delivery-coordinator";
+import { resolveContact, toAbsoluteUrl } from "./delivery-utils";
+import { createBrandingResolver } from "./branding";
 
 /**
  * Creates the notification router using contract-based implementation.
@@ -94,7 +57,8 @@ export const createNotificationRouter = (
   signalService: SignalService,
   strategyRegistry: NotificationStrategyRegistry,
   rpcApi: RpcClient,
-  logger: Logger
+  logger: Logger,
+  deliveryCoordinator: DeliveryCoordinator
 ) => {
   // Create strategy service for config management
   const strategyService: StrategyService = createStrategyService({
@@ -103,154 +67,8 @@ export const createNotificationRouter = (
     strategyRegistry,
   });
 
-  /**
-   * Helper: Send notification to all enabled external channels for a user.
-   * Silently skips channels that aren't configured or fail.
-   */
-  const sendToExternalChannels = async (
-    userId: string,
-    notification: {
-      title: string;
-      body?: string;
-      importance: string;
-      action?: { label: string; url: string };
-    }
-  ): Promise<void> => {
-    const authClient = rpcApi.forPlugin(AuthApi);
-
-    // Get user info
-    const user = await authClient.getUserById({ userId });
-    if (!user) return;
-
-    // Get all enabled strategies
-    const strategies = strategyRegistry.getStrategies();
-
-    for (const strategy of strategies) {
-      try {
-        logger.debug(
-          `[external-delivery] Checking strategy ${strategy.qualifiedId}...`
-        );
-
-        const meta = await strategyService.getStrategyMeta(
-          strategy.qualifiedId
-        );
-        if (!meta.enabled) {
-          logger.debug(
-            `[external-delivery] Strategy ${strategy.qualifiedId} is disabled, skipping`
-          );
-          continue;
-        }
-
-        // Check user preference - skip if user disabled this channel
-        const pref = await strategyService.getUserPreference(
-          userId,
-          strategy.qualifiedId
-        );
-        logger.debug(
-          `[external-delivery] User pref for ${strategy.qualifiedId}:`,
-          pref
-        );
-        if (pref && pref.enabled === false) {
-          logger.debug(
-            `[external-delivery] User disabled ${strategy.qualifiedId}, skipping`
-          );
-          continue;
-        }
-
-        // Resolve contact based on contactResolution type
-        const contact = resolveContact({
-          strategy,
-          userEmail: user.email,
-          userPreference: pref,
-        });
-
-        logger.debug(
-          `[external-delivery] Resolved contact for ${strategy.qualifiedId}: ${contact}`
-        );
-        if (!contact) {
-          logger.debug(
-            `[external-delivery] No contact for ${strategy.qualifiedId}, skipping`
-          );
-          continue;
-        }
-
-        // Get strategy config
-        const strategyConfig = await strategyService.getStrategyConfig(
-          strategy.qualifiedId
-        );
-        if (!strategyConfig) {
-          logger.debug(
-            `[external-delivery] No strategyConfig for ${strategy.qualifiedId}, skipping`
-          );
-          continue;
-        }
-
-        // Get optional configs
-        const layoutConfig = await strategyService.getLayoutConfig(
-          strategy.qualifiedId
-        );
-
-        const baseUrl = process.env.BASE_URL;
-        if (!baseUrl) {
-          logger.error(
-            "[notification-backend] No frontend URL configured, but action included only a path"
-          );
-          continue;
-        }
-
-        const actionUrl = notification.action?.url;
-        if (actionUrl && !actionUrl.startsWith("http")) {
-          notification.action!.url = `${baseUrl.replace(/\/$/, "")}${
-            actionUrl.startsWith("/") ? "" : "/"
-          }${actionUrl}`;
-        }
-
-        // Build payload
-        const payload: NotificationPayload = {
-          title: notification.title,
-          body: notification.body,
-          importance: notification.importance as
-            | "info"
-            | "warning"
-            | "critical",
-          action: notification.action,
-          type: "notification",
-        };
-
-        // Build send context
-        const sendContext: NotificationSendContext<unknown, unknown, unknown> =
-          {
-            user: {
-              userId: user.id,
-              email: user.email,
-              displayName: user.name ?? undefined,
-            },
-            contact,
-            notification: payload,
-            strategyConfig,
-            userConfig: pref?.userConfig,
-            layoutConfig,
-            logger,
-          };
-
-        // Send (fire-and-forget, don't block on errors)
-        logger.debug(
-          `[external-delivery] Sending to ${strategy.qualifiedId} with contact ${contact}`
-        );
-        const result = await strategy.send(sendContext);
-        logger.debug(
-          `[external-delivery] Send result for ${strategy.qualifiedId}:`,
-          result
-        );
-      } catch (error) {
-        // Log error but continue - external delivery shouldn't block in-app
-        logger.error(
-          `[external-delivery] Error sending via ${strategy.qualifiedId}:`,
-          error
-        );
-      }
-    }
-  };
+  // Organisation branding for rich notifications (e.g. HTML emails)
+  const resolveBranding = createBrandingResolver({ rpcApi, logger });
 
   // Create contract implementer with context type AND auto auth middleware
   const os = implement(notificationContract)
@@ -281,6 +99,7 @@ export const createNotificationRouter = (
             title: n.title,
             body: n.body,
             action: n.action ?? undefined,
+            actions: n.actions ?? undefined,
             importance: n.importance as "info" | "warning" | "critical",
             isRead: n.isRead,
             groupId: n.groupId ?? undefined,
@@ -444,7 +263,7 @@ export const createNotificationRouter = (
     }),
 
     notifyUsers: os.notifyUsers.handler(async ({ input }) => {
-      const { userIds, title, body, importance, action } = input;
+      const { userIds, title, body, importance, action, actions } = input;
 
       if (userIds.length === 0) {
         return { notifiedCount: 0 };
@@ -455,6 +274,7 @@ export const createNotificationRouter = (
         title,
         body,
         action,
+        actions,
         importance: importance ?? "info",
       }));
 
@@ -480,22 +300,18 @@ export const createNotificationRouter = (
         );
       }
 
-      // Also send to external channels (Telegram, SMTP, etc.) - fire and forget
-      for (const userId of userIds) {
-        void sendToExternalChannels(userId, {
-          title,
-          body,
-          importance: importance ?? "info",
-          action,
-        });
-      }
+      // Also queue delivery via external channels (Telegram, SMTP, etc.)
+      await deliveryCoordinator.queueDeliveries(
+        inserted.map((n) => ({ userId: n.userId, notificationId: n.id })),
+        { title, body, importance: importance ?? "info", action, actions }
+      );
 
       return { notifiedCount: userIds.length };
     }),
 
     // Notify all subscribers of multiple groups with internal deduplication
     notifyGroups: os.notifyGroups.handler(async ({ input }) => {
-      const { groupIds, title, body, importance, action } = input;
+      const { groupIds, title, body, importance, action, actions } = input;
       const { inArray } = await import("drizzle-orm");
 
       if (groupIds.length === 0) {
@@ -517,6 +333,7 @@ export const createNotificationRouter = (
         title,
         body,
         action,
+        actions,
         importance: importance ?? "info",
       }));
 
@@ -542,15 +359,11 @@ export const createNotificationRouter = (
         );
       }
 
-      // Also send to external channels (Telegram, SMTP, etc.) - fire and forget
-      for (const sub of subscribers) {
-        void sendToExternalChannels(sub.userId, {
-          title,
-          body,
-          importance: importance ?? "info",
-          action,
-        });
-      }
+      // Also queue delivery via external channels (Telegram, SMTP, etc.)
+      await deliveryCoordinator.queueDeliveries(
+        inserted.map((n) => ({ userId: n.userId, notificationId: n.id })),
+        { title, body, importance: importance ?? "info", action, actions }
+      );
 
       return { notifiedCount: subscribers.length };
     }),
@@ -665,6 +478,7 @@ export const createNotificationRouter = (
             strategyConfig,
             userConfig: userPref?.userConfig,
             layoutConfig,
+            branding: await resolveBranding(),
             logger,
           };
 
@@ -690,6 +504,88 @@ export const createNotificationRouter = (
       return { deliveredCount, results };
     }),
 
+    // Send an email to arbitrary addresses via all enabled email strategies
+    // No internal notification created - recipients need not be users
+    sendEmail: os.sendEmail.handler(async ({ input }) => {
+      const { to, title, body, importance, action, attachments } = input;
+
+      const emailStrategies = strategyRegistry
+        .getStrategies()
+        .filter((strategy) => strategy.contactResolution.type === "auth-email");
+
+      const baseUrl = process.env.BASE_URL;
+      const resolvedAction =
+        action && baseUrl
+          ? { label: action.label, url: toAbsoluteUrl(action.url, baseUrl) }
+          : action;
+
+      const results: Array<{
+        recipient: string;
+        strategyId: string;
+        success: boolean;
+        error?: string;
+      }> = [];
+
+      for (const strategy of emailStrategies) {
+        const meta = await strategyService.getStrategyMeta(
+          strategy.qualifiedId
+        );
+        if (!meta.enabled) continue;
+
+        const strategyConfig = await strategyService.getStrategyConfig(
+          strategy.qualifiedId
+        );
+        if (!strategyConfig) continue;
+
+        const layoutConfig = await strategyService.getLayoutConfig(
+          strategy.qualifiedId
+        );
+
+        const payload: NotificationPayload = {
+          title,
+          body,
+          importance: importance ?? "info",
+          action: resolvedAction,
+          attachments,
+          type: "email",
+        };
+
+        for (const recipient of to) {
+          try {
+            const result = await strategy.send({
+              user: { userId: "", email: recipient },
+              contact: recipient,
+              notification: payload,
+              strategyConfig,
+              userConfig: undefined,
+              layoutConfig,
+              branding: await resolveBranding(),
+              logger,
+            });
+            results.push({
+              recipient,
+              strategyId: strategy.qualifiedId,
+              success: result.success,
+              error: result.error,
+            });
+          } catch (error) {
+            results.push({
+              recipient,
+              strategyId: strategy.qualifiedId,
+              success: false,
+              error: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+        }
+      }
+
+      const deliveredCount = new Set(
+        results.filter((r) => r.success).map((r) => r.recipient)
+      ).size;
+
+      return { deliveredCount, results };
+    }),
+
     // ==========================================================================
     // DELIVERY STRATEGY ADMIN ENDPOINTS
     // ==========================================================================
@@ -785,6 +681,70 @@ export const createNotificationRouter = (
       }
     ),
 
+    getDeliveryLogs: os.getDeliveryLogs.handler(async ({ input }) => {
+      const { userId, strategyId, status, page, pageSize } = input;
+      const { eq, and, count, desc } = await import("drizzle-orm");
+
+      const conditions = [];
+      if (userId) {
+        conditions.push(eq(schema.deliveryLogs.userId, userId));
+      }
+      if (strategyId) {
+        conditions.push(eq(schema.deliveryLogs.strategyId, strategyId));
+      }
+      if (status) {
+        conditions.push(eq(schema.deliveryLogs.status, status));
+      }
+      const whereClause =
+        conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [{ value: total }] = await database
+        .select({ value: count() })
+        .from(schema.deliveryLogs)
+        .where(whereClause);
+
+      const logs = await database
+        .select()
+        .from(schema.deliveryLogs)
+        .where(whereClause)
+        .orderBy(desc(schema.deliveryLogs.createdAt))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize);
+
+      // Resolve user names for display
+      const authClient = rpcApi.forPlugin(AuthApi);
+      const userNames = new Map<string, string>();
+      for (const id of new Set(logs.map((log) => log.userId))) {
+        const user = await authClient.getUserById({ userId: id });
+        if (user) userNames.set(id, user.name ?? user.email);
+      }
+
+      return {
+        logs: logs.map((log) => ({
+          id: log.id,
+          notificationId: log.notificationId ?? undefined,
+          userId: log.userId,
+          userName: userNames.get(log.userId),
+          strategyId: log.strategyId,
+          title: log.title,
+          importance: log.importance as "info" | "warning" | "critical",
+          status: log.status,
+          attempts: log.attempts,
+          lastAttemptAt: log.lastAttemptAt ?? undefined,
+          nextRetryAt: log.nextRetryAt ?? undefined,
+          externalId: log.externalId ?? undefined,
+          errorMessage: log.errorMessage ?? undefined,
+          digestId: log.digestId ?? undefined,
+          createdAt: log.createdAt,
+        })),
+        total,
+      };
+    }),
+
+    retryDelivery: os.retryDelivery.handler(async ({ input }) => {
+      return deliveryCoordinator.retryDelivery(input.logId);
+    }),
+
     // ==========================================================================
     // USER DELIVERY PREFERENCE ENDPOINTS
     // ==========================================================================
@@ -964,6 +924,18 @@ export const createNotificationRouter = (
     ),
 
     // Send a test notification to the current user via a specific strategy
+    getDeliveryRules: os.getDeliveryRules.handler(async ({ context }) => {
+      const userId = (context.user as RealUser).id;
+      return getDeliveryRules(database, userId);
+    }),
+
+    setDeliveryRules: os.setDeliveryRules.handler(
+      async ({ input, context }) => {
+        const userId = (context.user as RealUser).id;
+        await setDeliveryRules(database, userId, input);
+      }
+    ),
+
     sendTestNotification: os.sendTestNotification.handler(
       async ({ input, context }) => {
         const userId = (context.user as RealUser).id;
@@ -1066,6 +1038,7 @@ export const createNotificationRouter = (
             strategyConfig,
             userConfig: pref?.userConfig,
             layoutConfig,
+            branding: await resolveBranding(),
             logger,
           };
 
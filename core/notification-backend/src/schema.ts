@@ -6,8 +6,13 @@ import {
   timestamp,
   jsonb,
   primaryKey,
+  integer,
 } from "drizzle-orm/pg-core";
-import type { NotificationAction } from "@checkstack/notification-common";
+import type {
+  DeliveryRules,
+  DeliveryStatus,
+  NotificationAction,
+} from "@checkstack/notification-common";
 
 // User notifications table
 export const notifications = pgTable("notifications", {
@@ -18,6 +23,8 @@ export const notifications = pgTable("notifications", {
   body: text("body").notNull(),
   /** Single primary action button */
   action: jsonb("action").$type<NotificationAction | null>(),
+  /** Secondary actions, e.g. acknowledging an alert */
+  actions: jsonb("actions").$type<NotificationAction[] | null>(),
   importance: text("importance").notNull().default("info"), // 'info' | 'warning' | 'critical'
   isRead: boolean("is_read").notNull().default(false),
   groupId: text("group_id"), // Namespaced: "pluginId.groupName"
@@ -49,6 +56,57 @@ export const notificationSubscriptions = pgTable(
   })
 );
 
+// External deliveries, one per user and strategy
+export const deliveryLogs = pgTable("delivery_logs", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  /** In-app notification the delivery belongs to */
+  notificationId: uuid("notification_id").references(() => notifications.id, {
+    onDelete: "set null",
+  }),
+  userId: text("user_id").notNull(), // No FK - cross-schema limitation
+  /** Qualified strategy ID, e.g. "notification-slack.slack" */
+  strategyId: text("strategy_id").notNull(),
+
+  /** Notification as sent, action URLs are absolute */
+  title: text("title").notNull(),
+  body: text("body"),
+  importance: text("importance").notNull().default("info"),
+  action: jsonb("action").$type<NotificationAction | null>(),
+  actions: jsonb("actions").$type<NotificationAction[] | null>(),
+
+  /** Delivery status: pending, retrying, success, failed, held, batched */
+  status: text("status").notNull().$type<DeliveryStatus>(),
+
+  /** Number of delivery attempts */
+  attempts: integer("attempts").notNull().default(0),
+
+  /** Timestamp of last delivery attempt */
+  lastAttemptAt: timestamp("last_attempt_at"),
+
+  /** Next retry timestamp (if status is retrying) */
+  nextRetryAt: timestamp("next_retry_at"),
+
+  /** Message ID returned by the strategy */
+  externalId: text("external_id"),
+
+  /** Error message from last failed attempt */
+  errorMessage: text("error_message"),
+
+  /** Digest delivery this delivery was batched into */
+  digestId: text("digest_id"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Per-user routing, quiet hours and digest rules for external deliveries
+export const deliveryRules = pgTable("delivery_rules", {
+  userId: text("user_id").primaryKey(), // No FK - cross-schema limitation
+  rules: jsonb("rules").notNull().$type<DeliveryRules>(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Note: User notification preferences are now stored via ConfigService
 // using the user-pref.{userId}.{strategyId} pattern for automatic
 // secret encryption of OAuth tokens.
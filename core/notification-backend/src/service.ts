@@ -1,6 +1,8 @@
 import type { SafeDatabase } from "@checkstack/backend-api";
 import { eq, and, count, desc, lt } from "drizzle-orm";
+import type { DeliveryRules } from "@checkstack/notification-common";
 import * as schema from "./schema";
+import { DEFAULT_DELIVERY_RULES } from "./delivery-rules";
 
 // --- Internal service functions for router (not namespaced) ---
 
@@ -212,5 +214,42 @@ export async function purgeOldNotifications({
     .where(lt(schema.notifications.createdAt, cutoffDate))
     .returning({ id: schema.notifications.id });
 
+  await db
+    .delete(schema.deliveryLogs)
+    .where(lt(schema.deliveryLogs.createdAt, cutoffDate));
+
   return result.length;
 }
+
+/**
+ * Get a user's delivery rules, defaults if none are stored
+ */
+export async function getDeliveryRules(
+  db: SafeDatabase<typeof schema>,
+  userId: string
+): Promise<DeliveryRules> {
+  const [row] = await db
+    .select()
+    .from(schema.deliveryRules)
+    .where(eq(schema.deliveryRules.userId, userId));
+  return row
+    ? { ...DEFAULT_DELIVERY_RULES, ...row.rules }
+    : DEFAULT_DELIVERY_RULES;
+}
+
+/**
+ * Store a user's delivery rules
+ */
+export async function setDeliveryRules(
+  db: SafeDatabase<typeof schema>,
+  userId: string,
+  rules: DeliveryRules
+): Promise<void> {
+  await db
+    .insert(schema.deliveryRules)
+    .values({ userId, rules })
+    .onConflictDoUpdate({
+      target: schema.deliveryRules.userId,
+      set: { rules, updatedAt: new Date() },
+    });
+}
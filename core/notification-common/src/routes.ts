@@ -6,4 +6,5 @@ import { createRoutes } from "@checkstack/common";
 export const notificationRoutes = createRoutes("notification", {
   home: "/",
   settings: "/settings",
+  deliveries: "/deliveries",
 });
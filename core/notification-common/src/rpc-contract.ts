@@ -8,6 +8,11 @@ import {
   EnrichedSubscriptionSchema,
   RetentionSettingsSchema,
   PaginationInputSchema,
+  NotificationActionSchema,
+  NotificationAttachmentSchema,
+  DeliveryLogSchema,
+  DeliveryLogQueryInputSchema,
+  DeliveryRulesSchema,
 } from "./schemas";
 
 // Notification RPC Contract
@@ -197,6 +202,10 @@ export const notificationContract = {
             url: z.string(),
           })
           .optional(),
+        actions: z
+          .array(NotificationActionSchema)
+          .optional()
+          .describe("Secondary actions, e.g. acknowledging an alert"),
       })
     )
     .output(z.object({ notifiedCount: z.number() })),
@@ -221,6 +230,10 @@ export const notificationContract = {
             url: z.string(),
           })
           .optional(),
+        actions: z
+          .array(NotificationActionSchema)
+          .optional()
+          .describe("Secondary actions, e.g. acknowledging an alert"),
       })
     )
     .output(z.object({ notifiedCount: z.number() })),
@@ -261,6 +274,39 @@ export const notificationContract = {
       })
     ),
 
+  // Send an email to addresses that need not belong to a user, e.g. report
+  // recipients. Delivered via all enabled strategies that send emails.
+  sendEmail: proc({
+    operationType: "mutation",
+    userType: "service",
+    access: [],
+  })
+    .input(
+      z.object({
+        to: z.array(z.string().email()).min(1),
+        title: z.string(),
+        body: z.string().describe("Email body (supports markdown)"),
+        importance: z.enum(["info", "warning", "critical"]).optional(),
+        action: NotificationActionSchema.optional(),
+        attachments: z.array(NotificationAttachmentSchema).optional(),
+      })
+    )
+    .output(
+      z.object({
+        deliveredCount: z
+          .number()
+          .describe("Number of recipients at least one email was sent to"),
+        results: z.array(
+          z.object({
+            recipient: z.string(),
+            strategyId: z.string(),
+            success: z.boolean(),
+            error: z.string().optional(),
+          })
+        ),
+      })
+    ),
+
   // ==========================================================================
   // DELIVERY STRATEGY ADMIN ENDPOINTS (userType: "user" with admin access)
   // ==========================================================================
@@ -318,6 +364,34 @@ export const notificationContract = {
     )
     .output(z.void()),
 
+  // Get external deliveries with their status (paginated)
+  getDeliveryLogs: proc({
+    operationType: "query",
+    userType: "user",
+    access: [notificationAccess.admin],
+  })
+    .input(DeliveryLogQueryInputSchema)
+    .output(
+      z.object({
+        logs: z.array(DeliveryLogSchema),
+        total: z.number(),
+      })
+    ),
+
+  // Re-queue a failed delivery
+  retryDelivery: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [notificationAccess.admin],
+  })
+    .input(z.object({ logId: z.string() }))
+    .output(
+      z.object({
+        success: z.boolean(),
+        message: z.string().optional(),
+      })
+    ),
+
   // ==========================================================================
   // USER DELIVERY PREFERENCE ENDPOINTS (userType: "user")
   // ==========================================================================
@@ -390,6 +464,22 @@ export const notificationContract = {
     .input(z.object({ strategyId: z.string() }))
     .output(z.void()),
 
+  // Get current user's routing, quiet hours and digest rules
+  getDeliveryRules: proc({
+    operationType: "query",
+    userType: "user",
+    access: [],
+  }).output(DeliveryRulesSchema),
+
+  // Update current user's delivery rules
+  setDeliveryRules: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [],
+  })
+    .input(DeliveryRulesSchema)
+    .output(z.void()),
+
   // Send a test notification to the current user via a specific strategy
   sendTestNotification: proc({
     operationType: "mutation",
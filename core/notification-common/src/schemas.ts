@@ -11,6 +11,16 @@ export const NotificationActionSchema = z.object({
 });
 export type NotificationAction = z.infer<typeof NotificationActionSchema>;
 
+// File attached to an email
+export const NotificationAttachmentSchema = z.object({
+  filename: z.string(),
+  contentType: z.string(),
+  content: z.string().describe("Base64-encoded file content"),
+});
+export type NotificationAttachment = z.infer<
+  typeof NotificationAttachmentSchema
+>;
+
 // Core notification schema
 export const NotificationSchema = z.object({
   id: z.string().uuid(),
@@ -20,6 +30,8 @@ export const NotificationSchema = z.object({
   body: z.string(),
   /** Primary action button */
   action: NotificationActionSchema.optional(),
+  /** Secondary actions, e.g. acknowledging an alert */
+  actions: z.array(NotificationActionSchema).optional(),
   importance: ImportanceSchema,
   isRead: z.boolean(),
   groupId: z.string().optional(),
@@ -73,6 +85,8 @@ export const CreateNotificationInputSchema = z.object({
   body: z.string(),
   /** Primary action button */
   action: NotificationActionSchema.optional(),
+  /** Secondary actions, e.g. acknowledging an alert */
+  actions: z.array(NotificationActionSchema).optional(),
   importance: ImportanceSchema.default("info"),
 });
 export type CreateNotificationInput = z.infer<
@@ -160,6 +174,8 @@ export const ExternalNotificationPayloadSchema = z.object({
       url: z.string(),
     })
     .optional(),
+  /** Secondary actions, rendered after the call-to-action */
+  actions: z.array(NotificationActionSchema).optional(),
   /** Source type for filtering (e.g., "healthcheck.alert", "password-reset") */
   type: z.string(),
 });
@@ -184,3 +200,98 @@ export const TransactionalResultSchema = z.object({
   error: z.string().optional(),
 });
 export type TransactionalResult = z.infer<typeof TransactionalResultSchema>;
+
+// --- Delivery Log Schemas ---
+
+// Status of an external delivery
+// "held" deliveries wait for the end of quiet hours or the next digest,
+// "batched" ones were sent as part of a digest
+export const DeliveryStatusSchema = z.enum([
+  "pending",
+  "retrying",
+  "success",
+  "failed",
+  "held",
+  "batched",
+]);
+export type DeliveryStatus = z.infer<typeof DeliveryStatusSchema>;
+
+// External delivery of a notification to one user via one strategy
+export const DeliveryLogSchema = z.object({
+  id: z.string(),
+  notificationId: z.string().optional(),
+  userId: z.string(),
+  /** Display name or email of the user, if the user still exists */
+  userName: z.string().optional(),
+  /** Qualified strategy ID */
+  strategyId: z.string(),
+  title: z.string(),
+  importance: ImportanceSchema,
+  status: DeliveryStatusSchema,
+  attempts: z.number(),
+  lastAttemptAt: z.coerce.date().optional(),
+  nextRetryAt: z.coerce.date().optional(),
+  externalId: z.string().optional(),
+  errorMessage: z.string().optional(),
+  /** Digest delivery a batched delivery was sent with */
+  digestId: z.string().optional(),
+  createdAt: z.coerce.date(),
+});
+export type DeliveryLog = z.infer<typeof DeliveryLogSchema>;
+
+export const DeliveryLogQueryInputSchema = z.object({
+  userId: z.string().optional(),
+  strategyId: z.string().optional(),
+  status: DeliveryStatusSchema.optional(),
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(100).default(20),
+});
+export type DeliveryLogQueryInput = z.infer<typeof DeliveryLogQueryInputSchema>;
+
+// --- Delivery Rule Schemas ---
+
+// Local time of day, "HH:mm"
+export const TimeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a time as HH:mm");
+
+export const DigestFrequencySchema = z.enum(["off", "hourly", "daily"]);
+export type DigestFrequency = z.infer<typeof DigestFrequencySchema>;
+
+// Time window in which notifications are held back
+export const QuietHoursSchema = z.object({
+  start: TimeOfDaySchema,
+  end: TimeOfDaySchema,
+  /** Whether critical notifications are delivered during quiet hours */
+  allowCritical: z.boolean().default(true),
+});
+export type QuietHours = z.infer<typeof QuietHoursSchema>;
+
+// Per-user rules applied to external deliveries
+export const DeliveryRulesSchema = z.object({
+  /** IANA timezone quiet hours and digest times are in */
+  timezone: z
+    .string()
+    .refine(
+      (timeZone) => {
+        try {
+          new Intl.DateTimeFormat("en-US", { timeZone });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "Unknown timezone" },
+    )
+    .default("UTC"),
+  /** Importance levels per strategy ID, channels without entry get all */
+  channelImportances: z
+    .record(z.string(), z.array(ImportanceSchema))
+    .default({}),
+  quietHours: QuietHoursSchema.optional(),
+  /** Batch info and warning notifications into one message per channel */
+  digest: DigestFrequencySchema.default("off"),
+  /** Local time daily digests are sent at */
+  digestTime: TimeOfDaySchema.default("08:00"),
+});
+export type DeliveryRules = z.infer<typeof DeliveryRulesSchema>;
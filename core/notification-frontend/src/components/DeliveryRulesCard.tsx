@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  Button,
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Toggle,
+} from "@checkstack/ui";
+import type {
+  DeliveryRules,
+  DigestFrequency,
+  Importance,
+} from "@checkstack/notification-common";
+import type { UserDeliveryChannel } from "./UserChannelCard";
+
+const IMPORTANCE_LEVELS: Importance[] = ["info", "warning", "critical"];
+
+const DEFAULT_QUIET_HOURS = {
+  start: "22:00",
+  end: "07:00",
+  allowCritical: true,
+};
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export interface DeliveryRulesCardProps {
+  rules: DeliveryRules;
+  channels: UserDeliveryChannel[];
+  onSave: (rules: DeliveryRules) => void;
+  saving?: boolean;
+}
+
+/**
+ * Card for the user's quiet hours, digest and per-importance channel routing.
+ */
+export function DeliveryRulesCard({
+  rules,
+  channels,
+  onSave,
+  saving,
+}: DeliveryRulesCardProps) {
+  const [draft, setDraft] = useState<DeliveryRules>(rules);
+  const { quietHours } = draft;
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const update = (changes: Partial<DeliveryRules>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const getLevels = (strategyId: string) =>
+    draft.channelImportances[strategyId] ?? IMPORTANCE_LEVELS;
+
+  const toggleLevel = (strategyId: string, level: Importance) => {
+    const current = getLevels(strategyId);
+    const levels = current.includes(level)
+      ? current.filter((l) => l !== level)
+      : IMPORTANCE_LEVELS.filter((l) => l === level || current.includes(l));
+
+    // Channels receiving every level need no entry
+    const others = Object.fromEntries(
+      Object.entries(draft.channelImportances).filter(
+        ([id]) => id !== strategyId,
+      ),
+    );
+    update({
+      channelImportances:
+        levels.length === IMPORTANCE_LEVELS.length
+          ? others
+          : { ...others, [strategyId]: levels },
+    });
+  };
+
+  return (
+    <Card className="p-4 space-y-6">
+      <div className="grid gap-2">
+        <Label htmlFor="delivery-rules-timezone">Timezone</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="delivery-rules-timezone"
+            value={draft.timezone}
+            onChange={(e) => update({ timezone: e.target.value })}
+            placeholder="Europe/Berlin"
+            className="max-w-xs"
+          />
+          {draft.timezone !== browserTimeZone && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ timezone: browserTimeZone })}
+            >
+              Use {browserTimeZone}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Quiet hours and digest times are in this timezone.
+        </p>
+      </div>
+
+      <div className="grid gap-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Quiet hours</Label>
+            <p className="text-xs text-muted-foreground">
+              Hold back notifications and deliver them when quiet hours end.
+            </p>
+          </div>
+          <Toggle
+            checked={!!quietHours}
+            onCheckedChange={(checked) =>
+              update({
+                quietHours: checked ? DEFAULT_QUIET_HOURS : undefined,
+              })
+            }
+            aria-label="Enable quiet hours"
+          />
+        </div>
+        {quietHours && (
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="quiet-hours-start">From</Label>
+              <Input
+                id="quiet-hours-start"
+                type="time"
+                value={quietHours.start}
+                onChange={(e) =>
+                  update({
+                    quietHours: { ...quietHours, start: e.target.value },
+                  })
+                }
+                className="w-32"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="quiet-hours-end">to</Label>
+              <Input
+                id="quiet-hours-end"
+                type="time"
+                value={quietHours.end}
+                onChange={(e) =>
+                  update({
+                    quietHours: { ...quietHours, end: e.target.value },
+                  })
+                }
+                className="w-32"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="quiet-hours-critical"
+                checked={quietHours.allowCritical}
+                onCheckedChange={(checked) =>
+                  update({
+                    quietHours: { ...quietHours, allowCritical: checked },
+                  })
+                }
+              />
+              <Label htmlFor="quiet-hours-critical">
+                Deliver critical notifications during quiet hours
+              </Label>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-3">
+        <div>
+          <Label>Digest</Label>
+          <p className="text-xs text-muted-foreground">
+            Combine info and warning notifications into one message per channel.
+            Critical notifications are always sent right away.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <Select
+            value={draft.digest}
+            onValueChange={(value) =>
+              update({ digest: value as DigestFrequency })
+            }
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              <SelectItem value="hourly">Hourly</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+            </SelectContent>
+          </Select>
+          {draft.digest === "daily" && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="digest-time">at</Label>
+              <Input
+                id="digest-time"
+                type="time"
+                value={draft.digestTime}
+                onChange={(e) => update({ digestTime: e.target.value })}
+                className="w-32"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {channels.length > 0 && (
+        <div className="grid gap-3">
+          <div>
+            <Label>Importance per channel</Label>
+            <p className="text-xs text-muted-foreground">
+              Choose which notifications each channel receives.
+            </p>
+          </div>
+          <div className="space-y-2">
+            {channels.map((channel) => (
+              <div
+                key={channel.strategyId}
+                className="flex flex-wrap items-center justify-between gap-2 py-1"
+              >
+                <span className="text-sm font-medium">
+                  {channel.displayName}
+                </span>
+                <div className="flex items-center gap-4">
+                  {IMPORTANCE_LEVELS.map((level) => {
+                    const id = `routing-${channel.strategyId}-${level}`;
+                    return (
+                      <div key={level} className="flex items-center gap-2">
+                        <Checkbox
+                          id={id}
+                          checked={getLevels(channel.strategyId).includes(
+                            level,
+                          )}
+                          onCheckedChange={() =>
+                            toggleLevel(channel.strategyId, level)
+                          }
+                        />
+                        <Label htmlFor={id} className="capitalize">
+                          {level}
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Button onClick={() => onSave(draft)} disabled={saving}>
+        {saving ? "Saving..." : "Save Rules"}
+      </Button>
+    </Card>
+  );
+}
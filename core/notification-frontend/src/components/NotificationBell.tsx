@@ -23,6 +23,7 @@ import {
   notificationRoutes,
 } from "@checkstack/notification-common";
 import { authApiRef } from "@checkstack/auth-frontend/api";
+import { getNotificationActions } from "../utils/notification-actions";
 
 export const NotificationBell = () => {
   const authApi = useApi(authApiRef);
@@ -232,17 +233,20 @@ export const NotificationBell = () => {
                   <div className="text-xs text-muted-foreground line-clamp-2">
                     {stripMarkdown(notification.body)}
                   </div>
-                  {notification.action && (
+                  {getNotificationActions(notification).length > 0 && (
                     <div className="flex gap-2 mt-1">
-                      <Link
-                        to={notification.action.url}
-                        className="text-xs text-primary hover:underline"
-                        onClick={(e: React.MouseEvent) => {
-                          e.stopPropagation();
-                        }}
-                      >
-                        {notification.action.label}
-                      </Link>
+                      {getNotificationActions(notification).map((action) => (
+                        <Link
+                          key={action.url}
+                          to={action.url}
+                          className="text-xs text-primary hover:underline"
+                          onClick={(e: React.MouseEvent) => {
+                            e.stopPropagation();
+                          }}
+                        >
+                          {action.label}
+                        </Link>
+                      ))}
                     </div>
                   )}
                 </DropdownMenuItem>
@@ -5,12 +5,14 @@ import {
   UserMenuItemsSlot,
 } from "@checkstack/frontend-api";
 import {
+  notificationAccess,
   notificationRoutes,
   pluginMetadata,
 } from "@checkstack/notification-common";
 import { NotificationBell } from "./components/NotificationBell";
 import { NotificationsPage } from "./pages/NotificationsPage";
 import { NotificationSettingsPage } from "./pages/NotificationSettingsPage";
+import { DeliveryLogsPage } from "./pages/DeliveryLogsPage";
 import { NotificationUserMenuItems } from "./components/UserMenuItems";
 
 export const notificationPlugin = createFrontendPlugin({
@@ -24,6 +26,11 @@ export const notificationPlugin = createFrontendPlugin({
       route: notificationRoutes.routes.settings,
       element: <NotificationSettingsPage />,
     },
+    {
+      route: notificationRoutes.routes.deliveries,
+      element: <DeliveryLogsPage />,
+      accessRule: notificationAccess.admin,
+    },
   ],
   extensions: [
     {
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import {
+  Send,
+  RefreshCw,
+  CheckCircle,
+  XCircle,
+  Clock,
+  AlertCircle,
+  Moon,
+  Layers,
+} from "lucide-react";
+import {
+  PageLayout,
+  Card,
+  Button,
+  Badge,
+  SectionHeader,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  useToast,
+  usePagination,
+  usePaginationSync,
+  BackLink,
+} from "@checkstack/ui";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import {
+  NotificationApi,
+  notificationRoutes,
+  DeliveryStatusSchema,
+  type DeliveryLog,
+  type DeliveryStatus,
+} from "@checkstack/notification-common";
+
+const statusConfig: Record<
+  DeliveryStatus,
+  {
+    icon: React.ReactNode;
+    variant: "success" | "destructive" | "warning" | "secondary" | "info";
+  }
+> = {
+  success: {
+    icon: <CheckCircle className="h-4 w-4" />,
+    variant: "success",
+  },
+  failed: {
+    icon: <XCircle className="h-4 w-4" />,
+    variant: "destructive",
+  },
+  retrying: {
+    icon: <Clock className="h-4 w-4" />,
+    variant: "warning",
+  },
+  pending: {
+    icon: <AlertCircle className="h-4 w-4" />,
+    variant: "secondary",
+  },
+  held: {
+    icon: <Moon className="h-4 w-4" />,
+    variant: "info",
+  },
+  batched: {
+    icon: <Layers className="h-4 w-4" />,
+    variant: "secondary",
+  },
+};
+
+export const DeliveryLogsPage = () => {
+  const notificationClient = usePluginClient(NotificationApi);
+  const toast = useToast();
+
+  const [retrying, setRetrying] = useState<string>();
+  const [status, setStatus] = useState<DeliveryStatus | "all">("all");
+
+  // Pagination state
+  const pagination = usePagination({ defaultLimit: 20 });
+
+  const page = Math.floor(pagination.offset / pagination.limit) + 1;
+  const { data, isLoading, refetch } =
+    notificationClient.getDeliveryLogs.useQuery({
+      status: status === "all" ? undefined : status,
+      page,
+      pageSize: pagination.limit,
+    });
+
+  // Sync total from response
+  usePaginationSync(pagination, data?.total);
+
+  const logs = data?.logs ?? [];
+
+  // Strategy display names for the channel column
+  const { data: strategies = [] } =
+    notificationClient.getDeliveryStrategies.useQuery({});
+  const channelNames = new Map(
+    strategies.map((s) => [s.qualifiedId, s.displayName]),
+  );
+
+  const retryMutation = notificationClient.retryDelivery.useMutation({
+    onSuccess: (result) => {
+      if (result.success) {
+        toast.success("Delivery re-queued");
+        void refetch();
+      } else {
+        toast.error(result.message ?? "Failed to retry delivery");
+      }
+    },
+    onError: (error) => {
+      console.error("Failed to retry delivery:", error);
+      toast.error("Failed to retry delivery");
+    },
+    onSettled: () => {
+      setRetrying(undefined);
+    },
+  });
+
+  const handleRetry = (logId: string) => {
+    setRetrying(logId);
+    retryMutation.mutate({ logId });
+  };
+
+  const handleStatusChange = (value: string) => {
+    setStatus(value as DeliveryStatus | "all");
+    pagination.setPage(1);
+  };
+
+  return (
+    <PageLayout
+      title="Delivery Log"
+      subtitle="External notification deliveries per user and channel"
+      icon={Send}
+      loading={isLoading}
+      actions={
+        <BackLink to={resolveRoute(notificationRoutes.routes.settings)}>
+          Back to Notification Settings
+        </BackLink>
+      }
+    >
+      <div className="space-y-6">
+        <section>
+          <div className="flex items-center justify-between mb-4">
+            <SectionHeader
+              title="Recent Deliveries"
+              description="Failed deliveries are retried with increasing delays before they are marked as failed"
+              icon={<Send className="h-5 w-5" />}
+            />
+            <Select value={status} onValueChange={handleStatusChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {DeliveryStatusSchema.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {logs.length === 0 && !isLoading ? (
+            <Card className="p-8">
+              <div className="text-center text-muted-foreground">
+                No deliveries found
+              </div>
+            </Card>
+          ) : (
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Notification</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map((log: DeliveryLog) => {
+                    const config = statusConfig[log.status];
+                    return (
+                      <TableRow key={log.id}>
+                        <TableCell>
+                          <Badge
+                            variant={config.variant}
+                            className="flex items-center gap-1 w-fit"
+                          >
+                            {config.icon}
+                            {log.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium max-w-[240px] truncate">
+                            {log.title}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            {log.userName ?? log.userId}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            {channelNames.get(log.strategyId) ?? log.strategyId}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {log.attempts}
+                          {(log.status === "retrying" ||
+                            log.status === "held") &&
+                            log.nextRetryAt && (
+                              <div className="text-xs text-muted-foreground">
+                                next{" "}
+                                {new Date(log.nextRetryAt).toLocaleTimeString()}
+                              </div>
+                            )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm text-muted-foreground">
+                            {new Date(log.createdAt).toLocaleString()}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {log.errorMessage ? (
+                            <div
+                              className="text-sm text-destructive max-w-[200px] truncate"
+                              title={log.errorMessage}
+                            >
+                              {log.errorMessage}
+                            </div>
+                          ) : undefined}
+                        </TableCell>
+                        <TableCell>
+                          {log.status === "failed" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRetry(log.id)}
+                              disabled={retrying === log.id}
+                            >
+                              <RefreshCw
+                                className={`h-4 w-4 mr-1 ${
+                                  retrying === log.id ? "animate-spin" : ""
+                                }`}
+                              />
+                              Retry
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {pagination.totalPages > 1 && (
+                <div className="p-4 border-t flex justify-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!pagination.hasPrev}
+                    onClick={pagination.prevPage}
+                  >
+                    Previous
+                  </Button>
+                  <span className="flex items-center text-sm text-muted-foreground">
+                    Page {pagination.page} of {pagination.totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!pagination.hasNext}
+                    onClick={pagination.nextPage}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </Card>
+          )}
+        </section>
+      </div>
+    </PageLayout>
+  );
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { Bell, Clock, Zap, Send } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Bell, Clock, Zap, Send, ArrowRight, Moon } from "lucide-react";
 import {
   PageLayout,
   Card,
@@ -13,10 +14,15 @@ import {
   useApi,
   accessApiRef,
 } from "@checkstack/frontend-api";
-import type { EnrichedSubscription } from "@checkstack/notification-common";
+import type {
+  DeliveryRules,
+  EnrichedSubscription,
+} from "@checkstack/notification-common";
+import { resolveRoute } from "@checkstack/common";
 import {
   NotificationApi,
   notificationAccess,
+  notificationRoutes,
 } from "@checkstack/notification-common";
 import {
   StrategyCard,
@@ -26,6 +32,7 @@ import {
   UserChannelCard,
   type UserDeliveryChannel,
 } from "../components/UserChannelCard";
+import { DeliveryRulesCard } from "../components/DeliveryRulesCard";
 
 export const NotificationSettingsPage = () => {
   const notificationClient = usePluginClient(NotificationApi);
@@ -82,6 +89,10 @@ export const NotificationSettingsPage = () => {
     refetch: refetchChannels,
   } = notificationClient.getUserDeliveryChannels.useQuery({});
 
+  // Query: User delivery rules
+  const { data: deliveryRules, refetch: refetchDeliveryRules } =
+    notificationClient.getDeliveryRules.useQuery({});
+
   // Sync fetched retention settings to local state
   useEffect(() => {
     if (fetchedRetentionSettings) {
@@ -146,6 +157,19 @@ export const NotificationSettingsPage = () => {
       },
     });
 
+  const setDeliveryRulesMutation =
+    notificationClient.setDeliveryRules.useMutation({
+      onSuccess: () => {
+        toast.success("Delivery rules saved");
+        void refetchDeliveryRules();
+      },
+      onError: (error) => {
+        toast.error(
+          error instanceof Error ? error.message : "Failed to save rules",
+        );
+      },
+    });
+
   const unlinkChannelMutation =
     notificationClient.unlinkDeliveryChannel.useMutation({
       onSuccess: () => {
@@ -239,6 +263,10 @@ export const NotificationSettingsPage = () => {
     });
   };
 
+  const handleSaveDeliveryRules = (rules: DeliveryRules) => {
+    setDeliveryRulesMutation.mutate(rules);
+  };
+
   const handleTest = async (strategyId: string) => {
     setChannelTesting(strategyId);
     return sendTestMutation.mutateAsync({ strategyId });
@@ -287,6 +315,25 @@ export const NotificationSettingsPage = () => {
           )}
         </section>
 
+        {/* Delivery Rules - Quiet hours, digests and routing */}
+        {deliveryRules && (
+          <section>
+            <SectionHeader
+              title="Delivery Rules"
+              description="Choose when and where you receive notifications on your channels. In-app notifications are not affected."
+              icon={<Moon className="h-5 w-5" />}
+            />
+            <DeliveryRulesCard
+              rules={deliveryRules}
+              channels={(userChannels as UserDeliveryChannel[]).filter(
+                (channel) => channel.enabled,
+              )}
+              onSave={handleSaveDeliveryRules}
+              saving={setDeliveryRulesMutation.isPending}
+            />
+          </section>
+        )}
+
         {/* Subscription Management - Shows current subscriptions */}
         <section>
           <SectionHeader
@@ -348,11 +395,20 @@ export const NotificationSettingsPage = () => {
         {/* Delivery Channels - Admin only */}
         {isAdmin && (
           <section>
-            <SectionHeader
-              title="Delivery Channels"
-              description="Configure how notifications are delivered to users (admin only)"
-              icon={<Zap className="h-5 w-5" />}
-            />
+            <div className="flex items-center justify-between mb-4">
+              <SectionHeader
+                title="Delivery Channels"
+                description="Configure how notifications are delivered to users (admin only)"
+                icon={<Zap className="h-5 w-5" />}
+              />
+              <Link
+                to={resolveRoute(notificationRoutes.routes.deliveries)}
+                className="text-sm text-primary hover:underline flex items-center gap-1"
+              >
+                View Delivery Log
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            </div>
             {strategiesLoading ? (
               <Card className="p-4">
                 <div className="text-center py-4 text-muted-foreground">
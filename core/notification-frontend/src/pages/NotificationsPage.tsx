@@ -16,6 +16,7 @@ import {
 import { usePluginClient } from "@checkstack/frontend-api";
 import type { Notification } from "@checkstack/notification-common";
 import { NotificationApi } from "@checkstack/notification-common";
+import { getNotificationActions } from "../utils/notification-actions";
 
 export const NotificationsPage = () => {
   const notificationClient = usePluginClient(NotificationApi);
@@ -220,14 +221,17 @@ export const NotificationsPage = () => {
                     <Markdown size="sm" className="text-muted-foreground mt-1">
                       {notification.body}
                     </Markdown>
-                    {notification.action && (
+                    {getNotificationActions(notification).length > 0 && (
                       <div className="flex gap-2 mt-2">
-                        <Link
-                          to={notification.action.url}
-                          className="text-sm text-primary hover:text-primary/80"
-                        >
-                          {notification.action.label}
-                        </Link>
+                        {getNotificationActions(notification).map((action) => (
+                          <Link
+                            key={action.url}
+                            to={action.url}
+                            className="text-sm text-primary hover:text-primary/80"
+                          >
+                            {action.label}
+                          </Link>
+                        ))}
                       </div>
                     )}
                   </div>
@@ -0,0 +1,16 @@
+import type {
+  Notification,
+  NotificationAction,
+} from "@checkstack/notification-common";
+
+/**
+ * All action links of a notification, the primary action first.
+ */
+export function getNotificationActions(
+  notification: Pick<Notification, "action" | "actions">,
+): NotificationAction[] {
+  return [
+    ...(notification.action ? [notification.action] : []),
+    ...(notification.actions ?? []),
+  ];
+}
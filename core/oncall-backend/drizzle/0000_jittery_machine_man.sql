@@ -0,0 +1,66 @@
+CREATE TYPE "escalation_status" AS ENUM('triggered', 'acknowledged', 'resolved');--> statement-breakpoint
+CREATE TYPE "policy_target_type" AS ENUM('system', 'group');--> statement-breakpoint
+CREATE TYPE "rotation_type" AS ENUM('daily', 'weekly');--> statement-breakpoint
+CREATE TABLE "escalation_notifications" (
+	"id" text PRIMARY KEY NOT NULL,
+	"escalation_id" text NOT NULL,
+	"step_index" integer NOT NULL,
+	"user_ids" jsonb NOT NULL,
+	"notified_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "escalation_policies" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"steps" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "escalations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"policy_id" text NOT NULL,
+	"system_id" text NOT NULL,
+	"title" text NOT NULL,
+	"body" text NOT NULL,
+	"importance" text NOT NULL,
+	"status" "escalation_status" DEFAULT 'triggered' NOT NULL,
+	"last_notified_step" integer DEFAULT -1 NOT NULL,
+	"triggered_at" timestamp DEFAULT now() NOT NULL,
+	"acknowledged_at" timestamp,
+	"acknowledged_by" text,
+	"resolved_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "policy_targets" (
+	"policy_id" text NOT NULL,
+	"target_type" "policy_target_type" NOT NULL,
+	"target_id" text NOT NULL,
+	CONSTRAINT "policy_targets_policy_id_target_type_target_id_pk" PRIMARY KEY("policy_id","target_type","target_id")
+);
+--> statement-breakpoint
+CREATE TABLE "schedule_overrides" (
+	"id" text PRIMARY KEY NOT NULL,
+	"schedule_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"start_at" timestamp NOT NULL,
+	"end_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "schedules" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"rotation_type" "rotation_type" NOT NULL,
+	"rotation_start" timestamp NOT NULL,
+	"participants" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "escalation_notifications" ADD CONSTRAINT "escalation_notifications_escalation_id_escalations_id_fk" FOREIGN KEY ("escalation_id") REFERENCES "escalations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escalations" ADD CONSTRAINT "escalations_policy_id_escalation_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "escalation_policies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "policy_targets" ADD CONSTRAINT "policy_targets_policy_id_escalation_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "escalation_policies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "schedule_overrides" ADD CONSTRAINT "schedule_overrides_schedule_id_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "schedules"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
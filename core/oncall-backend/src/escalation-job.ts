@@ -0,0 +1,146 @@
+import type { Logger } from "@checkstack/backend-api";
+import type { QueueManager } from "@checkstack/queue-api";
+import { resolveRoute, type InferClient } from "@checkstack/common";
+import { NotificationApi } from "@checkstack/notification-common";
+import { oncallRoutes, type Escalation } from "@checkstack/oncall-common";
+import type { OnCallService } from "./service";
+import { getDueSteps, resolveStepRecipients } from "./escalation";
+
+export interface EscalationJobDeps {
+  service: OnCallService;
+  notificationClient: InferClient<typeof NotificationApi>;
+  logger: Logger;
+}
+
+const ESCALATION_QUEUE = "oncall-escalations";
+const ESCALATION_JOB_ID = "oncall-escalation-check";
+const WORKER_GROUP = "oncall-escalation-worker";
+
+/**
+ * Notify all steps of an escalation that are due.
+ * Steps are claimed atomically, so concurrent callers never notify twice.
+ */
+export async function processEscalation(
+  deps: EscalationJobDeps,
+  escalation: Escalation,
+  now = new Date(),
+): Promise<void> {
+  const { service, notificationClient, logger } = deps;
+
+  const policy = await service.getPolicy(escalation.policyId);
+  if (!policy) return;
+
+  const dueSteps = getDueSteps({
+    steps: policy.steps,
+    lastNotifiedStep: escalation.lastNotifiedStep,
+    triggeredAt: escalation.triggeredAt,
+    now,
+  });
+  if (dueSteps.length === 0) return;
+
+  const scheduleIds = policy.steps.flatMap((step) =>
+    step.targets.flatMap((t) => (t.type === "schedule" ? [t.scheduleId] : [])),
+  );
+  const schedules = await service.getSchedules(scheduleIds);
+  const overrides = await service.getOverrides({
+    scheduleIds,
+    endingAfter: now,
+  });
+
+  for (const stepIndex of dueSteps) {
+    if (!(await service.claimStep(escalation.id, stepIndex))) continue;
+
+    const userIds = resolveStepRecipients({
+      step: policy.steps[stepIndex],
+      schedules,
+      overrides,
+      at: now,
+    });
+    await service.recordNotification({
+      escalationId: escalation.id,
+      stepIndex,
+      userIds,
+    });
+
+    if (userIds.length === 0) {
+      logger.warn(
+        `Escalation ${escalation.id} step ${stepIndex + 1} has nobody to notify`,
+      );
+      continue;
+    }
+
+    try {
+      await notificationClient.notifyUsers({
+        userIds,
+        title: escalation.title,
+        body: `${escalation.body}\n\nEscalation step ${stepIndex + 1} of ${policy.steps.length} (${policy.name}). Acknowledge to stop further escalation.`,
+        importance: escalation.importance,
+        action: {
+          label: "Acknowledge",
+          url: resolveRoute(oncallRoutes.routes.escalationDetail, {
+            escalationId: escalation.id,
+          }),
+        },
+      });
+      logger.debug(
+        `Escalation ${escalation.id} step ${stepIndex + 1}: notified ${userIds.length} users`,
+      );
+    } catch (error) {
+      // The step stays claimed, retrying would page the same people twice
+      logger.error(
+        `Failed to notify escalation ${escalation.id} step ${stepIndex + 1}:`,
+        error,
+      );
+    }
+  }
+}
+
+/**
+ * Advance all unacknowledged escalations.
+ */
+export async function runEscalationCheck(
+  deps: EscalationJobDeps,
+): Promise<void> {
+  const now = new Date();
+  for (const escalation of await deps.service.getTriggeredEscalations()) {
+    try {
+      await processEscalation(deps, escalation, now);
+    } catch (error) {
+      deps.logger.error(
+        `Failed to process escalation ${escalation.id}:`,
+        error,
+      );
+    }
+  }
+}
+
+/**
+ * Registers the job that checks escalations every minute.
+ */
+export async function setupEscalationJob(
+  deps: EscalationJobDeps & { queueManager: QueueManager },
+): Promise<void> {
+  const { queueManager, logger } = deps;
+
+  const queue = queueManager.getQueue<Record<string, never>>(ESCALATION_QUEUE);
+
+  await queue.consume(
+    async () => {
+      await runEscalationCheck(deps);
+    },
+    {
+      consumerGroup: WORKER_GROUP,
+      maxRetries: 0, // The next run picks up anything missed
+    },
+  );
+
+  await queue.scheduleRecurring(
+    {},
+    {
+      jobId: ESCALATION_JOB_ID,
+      cronPattern: "* * * * *", // Every minute at :00 seconds
+    },
+  );
+
+  logger.debug("On-call escalation job scheduled (runs every minute)");
+}
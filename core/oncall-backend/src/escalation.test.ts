@@ -0,0 +1,122 @@
+import { describe, expect, it } from "bun:test";
+import type { EscalationStep } from "@checkstack/oncall-common";
+import { getDueSteps, resolveStepRecipients } from "./escalation";
+
+const steps: EscalationStep[] = [
+  { afterMinutes: 0, targets: [{ type: "schedule", scheduleId: "primary" }] },
+  {
+    afterMinutes: 10,
+    targets: [{ type: "schedule", scheduleId: "secondary" }],
+  },
+  { afterMinutes: 30, targets: [{ type: "user", userId: "lead" }] },
+];
+
+const triggeredAt = new Date("2026-01-05T12:00:00.000Z");
+const minutesLater = (minutes: number) =>
+  new Date(triggeredAt.getTime() + minutes * 60_000);
+
+describe("getDueSteps", () => {
+  it("returns the first step immediately", () => {
+    expect(
+      getDueSteps({
+        steps,
+        lastNotifiedStep: -1,
+        triggeredAt,
+        now: triggeredAt,
+      }),
+    ).toEqual([0]);
+  });
+
+  it("skips steps that were already notified", () => {
+    expect(
+      getDueSteps({
+        steps,
+        lastNotifiedStep: 0,
+        triggeredAt,
+        now: minutesLater(9),
+      }),
+    ).toEqual([]);
+    expect(
+      getDueSteps({
+        steps,
+        lastNotifiedStep: 0,
+        triggeredAt,
+        now: minutesLater(10),
+      }),
+    ).toEqual([1]);
+  });
+
+  it("returns every overdue step when the check fell behind", () => {
+    expect(
+      getDueSteps({
+        steps,
+        lastNotifiedStep: 0,
+        triggeredAt,
+        now: minutesLater(45),
+      }),
+    ).toEqual([1, 2]);
+  });
+});
+
+describe("resolveStepRecipients", () => {
+  const schedule = (id: string, participants: string[]) => ({
+    id,
+    name: id,
+    rotationType: "weekly" as const,
+    rotationStart: new Date("2026-01-05T09:00:00.000Z"),
+    participants,
+    createdAt: triggeredAt,
+    updatedAt: triggeredAt,
+  });
+
+  it("resolves schedules to the on-call user and deduplicates", () => {
+    const userIds = resolveStepRecipients({
+      step: {
+        afterMinutes: 0,
+        targets: [
+          { type: "schedule", scheduleId: "primary" },
+          { type: "user", userId: "alice" },
+          { type: "user", userId: "lead" },
+        ],
+      },
+      schedules: [schedule("primary", ["alice", "bob"])],
+      overrides: [],
+      at: triggeredAt,
+    });
+
+    expect(userIds).toEqual(["alice", "lead"]);
+  });
+
+  it("applies overrides of the targeted schedule only", () => {
+    const override = {
+      id: "o1",
+      userId: "dave",
+      startAt: minutesLater(-60),
+      endAt: minutesLater(60),
+      createdAt: triggeredAt,
+    };
+
+    const userIds = resolveStepRecipients({
+      step: steps[0],
+      schedules: [
+        schedule("primary", ["alice"]),
+        schedule("secondary", ["bob"]),
+      ],
+      overrides: [{ ...override, scheduleId: "secondary" }],
+      at: triggeredAt,
+    });
+
+    expect(userIds).toEqual(["alice"]);
+  });
+
+  it("ignores unknown schedules", () => {
+    expect(
+      resolveStepRecipients({
+        step: steps[1],
+        schedules: [],
+        overrides: [],
+        at: triggeredAt,
+      }),
+    ).toEqual([]);
+  });
+});
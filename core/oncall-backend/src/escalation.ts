@@ -0,0 +1,70 @@
+import type {
+  EscalationStep,
+  OnCallSchedule,
+  ScheduleOverride,
+} from "@checkstack/oncall-common";
+import { getOnCallShift } from "./rotation";
+
+/**
+ * Get the indices of steps that are due but not notified yet.
+ * Several steps are due at once if the escalation job fell behind.
+ */
+export function getDueSteps({
+  steps,
+  lastNotifiedStep,
+  triggeredAt,
+  now,
+}: {
+  steps: EscalationStep[];
+  lastNotifiedStep: number;
+  triggeredAt: Date;
+  now: Date;
+}): number[] {
+  const elapsedMinutes = (now.getTime() - triggeredAt.getTime()) / 60_000;
+  const due: number[] = [];
+  for (const [index, step] of steps.entries()) {
+    if (index > lastNotifiedStep && step.afterMinutes <= elapsedMinutes) {
+      due.push(index);
+    }
+  }
+  return due;
+}
+
+/**
+ * Resolve the users to notify for a step.
+ * Schedule targets resolve to whoever is on call at the given time.
+ */
+export function resolveStepRecipients({
+  step,
+  schedules,
+  overrides,
+  at,
+}: {
+  step: EscalationStep;
+  schedules: OnCallSchedule[];
+  overrides: ScheduleOverride[];
+  at: Date;
+}): string[] {
+  const userIds = new Set<string>();
+
+  for (const target of step.targets) {
+    if (target.type === "user") {
+      userIds.add(target.userId);
+      continue;
+    }
+
+    const schedule = schedules.find((s) => s.id === target.scheduleId);
+    if (!schedule) continue;
+
+    const shift = getOnCallShift({
+      schedule,
+      overrides: overrides.filter((o) => o.scheduleId === schedule.id),
+      at,
+    });
+    if (shift) {
+      userIds.add(shift.userId);
+    }
+  }
+
+  return [...userIds];
+}
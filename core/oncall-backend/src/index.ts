@@ -0,0 +1,60 @@
+import { createBackendPlugin, coreServices } from "@checkstack/backend-api";
+import {
+  oncallAccessRules,
+  oncallContract,
+  pluginMetadata,
+} from "@checkstack/oncall-common";
+import { AuthApi } from "@checkstack/auth-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { NotificationApi } from "@checkstack/notification-common";
+import * as schema from "./schema";
+import { OnCallService } from "./service";
+import { createRouter } from "./router";
+import { setupEscalationJob } from "./escalation-job";
+
+export default createBackendPlugin({
+  metadata: pluginMetadata,
+  register(env) {
+    env.registerAccessRules(oncallAccessRules);
+
+    env.registerInit({
+      schema,
+      deps: {
+        logger: coreServices.logger,
+        rpc: coreServices.rpc,
+        rpcClient: coreServices.rpcClient,
+        queueManager: coreServices.queueManager,
+      },
+      init: async ({ database, logger, rpc, rpcClient }) => {
+        logger.debug("📟 Initializing On-Call Backend...");
+
+        const service = new OnCallService(database);
+        rpc.registerRouter(
+          createRouter({
+            service,
+            authClient: rpcClient.forPlugin(AuthApi),
+            catalogClient: rpcClient.forPlugin(CatalogApi),
+            notificationClient: rpcClient.forPlugin(NotificationApi),
+            logger,
+          }),
+          oncallContract,
+        );
+
+        logger.debug("✅ On-Call Backend initialized.");
+      },
+      afterPluginsReady: async ({
+        database,
+        logger,
+        rpcClient,
+        queueManager,
+      }) => {
+        await setupEscalationJob({
+          service: new OnCallService(database),
+          notificationClient: rpcClient.forPlugin(NotificationApi),
+          logger,
+          queueManager,
+        });
+      },
+    });
+  },
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getOnCallShift,
+  getRotationShift,
+  getUpcomingShifts,
+} from "./rotation";
+
+const schedule = {
+  rotationType: "weekly" as const,
+  // Monday 09:00 UTC
+  rotationStart: new Date("2026-01-05T09:00:00.000Z"),
+  participants: ["alice", "bob", "carol"],
+};
+
+const override = (startAt: string, endAt: string, createdAt = startAt) => ({
+  userId: "dave",
+  startAt: new Date(startAt),
+  endAt: new Date(endAt),
+  createdAt: new Date(createdAt),
+});
+
+describe("getRotationShift", () => {
+  it("rotates weekly through participants in order", () => {
+    expect(
+      getRotationShift(schedule, new Date("2026-01-05T09:00:00.000Z"))?.userId,
+    ).toBe("alice");
+    expect(
+      getRotationShift(schedule, new Date("2026-01-12T08:59:00.000Z"))?.userId,
+    ).toBe("alice");
+    expect(
+      getRotationShift(schedule, new Date("2026-01-12T09:00:00.000Z"))?.userId,
+    ).toBe("bob");
+    expect(
+      getRotationShift(schedule, new Date("2026-01-26T10:00:00.000Z"))?.userId,
+    ).toBe("alice");
+  });
+
+  it("returns the shift boundaries", () => {
+    const shift = getRotationShift(
+      { ...schedule, rotationType: "daily" },
+      new Date("2026-01-06T12:00:00.000Z"),
+    );
+
+    expect(shift).toEqual({
+      userId: "bob",
+      startAt: new Date("2026-01-06T09:00:00.000Z"),
+      endAt: new Date("2026-01-07T09:00:00.000Z"),
+      isOverride: false,
+    });
+  });
+
+  it("continues the rotation backwards before the start", () => {
+    expect(
+      getRotationShift(schedule, new Date("2026-01-04T09:00:00.000Z"))?.userId,
+    ).toBe("carol");
+  });
+
+  it("returns undefined without participants", () => {
+    expect(
+      getRotationShift({ ...schedule, participants: [] }, new Date()),
+    ).toBeUndefined();
+  });
+});
+
+describe("getOnCallShift", () => {
+  it("prefers an active override", () => {
+    const shift = getOnCallShift({
+      schedule,
+      overrides: [override("2026-01-06T00:00:00Z", "2026-01-07T00:00:00Z")],
+      at: new Date("2026-01-06T12:00:00.000Z"),
+    });
+
+    expect(shift?.userId).toBe("dave");
+    expect(shift?.isOverride).toBe(true);
+  });
+
+  it("uses the newest override when overrides overlap", () => {
+    const shift = getOnCallShift({
+      schedule,
+      overrides: [
+        override("2026-01-06T00:00:00Z", "2026-01-08T00:00:00Z"),
+        {
+          ...override(
+            "2026-01-06T00:00:00Z",
+            "2026-01-07T00:00:00Z",
+            "2026-01-06T01:00:00Z",
+          ),
+          userId: "erin",
+        },
+      ],
+      at: new Date("2026-01-06T12:00:00.000Z"),
+    });
+
+    expect(shift?.userId).toBe("erin");
+  });
+});
+
+describe("getUpcomingShifts", () => {
+  it("splits rotation shifts around overrides", () => {
+    const shifts = getUpcomingShifts({
+      schedule,
+      overrides: [override("2026-01-08T00:00:00Z", "2026-01-09T00:00:00Z")],
+      from: new Date("2026-01-06T12:00:00.000Z"),
+      count: 4,
+    });
+
+    expect(
+      shifts.map((s) => [s.userId, s.startAt.toISOString(), s.isOverride]),
+    ).toEqual([
+      ["alice", "2026-01-05T09:00:00.000Z", false],
+      ["dave", "2026-01-08T00:00:00.000Z", true],
+      ["alice", "2026-01-09T00:00:00.000Z", false],
+      ["bob", "2026-01-12T09:00:00.000Z", false],
+    ]);
+    expect(shifts[0].endAt).toEqual(new Date("2026-01-08T00:00:00Z"));
+  });
+});
@@ -0,0 +1,132 @@
+import type {
+  OnCallSchedule,
+  OnCallShift,
+  RotationType,
+  ScheduleOverride,
+} from "@checkstack/oncall-common";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SHIFT_LENGTH_MS: Record<RotationType, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+type RotationSchedule = Pick<
+  OnCallSchedule,
+  "rotationType" | "rotationStart" | "participants"
+>;
+
+type Override = Pick<
+  ScheduleOverride,
+  "userId" | "startAt" | "endAt" | "createdAt"
+>;
+
+/**
+ * Get the rotation shift containing the given time, ignoring overrides.
+ * Times before the rotation start continue the rotation backwards.
+ */
+export function getRotationShift(
+  schedule: RotationSchedule,
+  at: Date,
+): OnCallShift | undefined {
+  const { participants } = schedule;
+  if (participants.length === 0) return undefined;
+
+  const shiftLength = SHIFT_LENGTH_MS[schedule.rotationType];
+  const start = schedule.rotationStart.getTime();
+  const shiftIndex = Math.floor((at.getTime() - start) / shiftLength);
+  const participantIndex =
+    ((shiftIndex % participants.length) + participants.length) %
+    participants.length;
+  const startAt = new Date(start + shiftIndex * shiftLength);
+
+  return {
+    userId: participants[participantIndex],
+    startAt,
+    endAt: new Date(startAt.getTime() + shiftLength),
+    isOverride: false,
+  };
+}
+
+/**
+ * Find the override active at the given time.
+ * The most recently created override wins if several overlap.
+ */
+function getActiveOverride(
+  overrides: Override[],
+  at: Date,
+): Override | undefined {
+  return overrides
+    .filter((o) => o.startAt <= at && at < o.endAt)
+    .toSorted((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+}
+
+/**
+ * Get the shift of whoever is on call at the given time.
+ */
+export function getOnCallShift({
+  schedule,
+  overrides,
+  at,
+}: {
+  schedule: RotationSchedule;
+  overrides: Override[];
+  at: Date;
+}): OnCallShift | undefined {
+  const override = getActiveOverride(overrides, at);
+  if (override) {
+    return {
+      userId: override.userId,
+      startAt: override.startAt,
+      endAt: override.endAt,
+      isOverride: true,
+    };
+  }
+  return getRotationShift(schedule, at);
+}
+
+/**
+ * List the next shifts starting with the current one.
+ * Overrides cut rotation shifts short, the rotation resumes once they end.
+ */
+export function getUpcomingShifts({
+  schedule,
+  overrides,
+  from,
+  count,
+}: {
+  schedule: RotationSchedule;
+  overrides: Override[];
+  from: Date;
+  count: number;
+}): OnCallShift[] {
+  const shifts: OnCallShift[] = [];
+  let cursor = from;
+
+  while (shifts.length < count) {
+    const shift = getOnCallShift({ schedule, overrides, at: cursor });
+    if (!shift) break;
+
+    let { startAt, endAt } = shift;
+    if (!shift.isOverride) {
+      // Rotation shifts start late if an override ended within them
+      const endedOverrides = overrides
+        .map((o) => o.endAt)
+        .filter((end) => end > startAt && end <= cursor);
+      for (const end of endedOverrides) {
+        if (end > startAt) startAt = end;
+      }
+
+      // ...and end early if an override starts within them
+      for (const o of overrides) {
+        if (o.startAt > cursor && o.startAt < endAt) endAt = o.startAt;
+      }
+    }
+
+    shifts.push({ ...shift, startAt, endAt });
+    cursor = endAt;
+  }
+
+  return shifts;
+}
@@ -0,0 +1,414 @@
+import { implement, ORPCError } from "@orpc/server";
+import {
+  oncallContract,
+  oncallRoutes,
+  type Escalation,
+  type EscalationPolicy,
+  type OnCallSchedule,
+  type OnCallShift,
+  type ScheduleOverride,
+} from "@checkstack/oncall-common";
+import {
+  autoAuthMiddleware,
+  type Logger,
+  type RpcContext,
+} from "@checkstack/backend-api";
+import { AuthApi } from "@checkstack/auth-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { NotificationApi } from "@checkstack/notification-common";
+import { resolveRoute, type InferClient } from "@checkstack/common";
+import type { OnCallService } from "./service";
+import { getOnCallShift, getUpcomingShifts } from "./rotation";
+import { processEscalation } from "./escalation-job";
+
+/** Number of shifts shown on the schedule detail page */
+const UPCOMING_SHIFT_COUNT = 10;
+
+const withUserName = <T extends { userId: string }>(
+  item: T,
+  names: Map<string, string>,
+): T & { userName?: string } => ({
+  ...item,
+  userName: names.get(item.userId),
+});
+
+const getCurrentShift = (
+  schedule: OnCallSchedule,
+  overrides: ScheduleOverride[],
+  now: Date,
+): OnCallShift | undefined =>
+  getOnCallShift({
+    schedule,
+    overrides: overrides.filter((o) => o.scheduleId === schedule.id),
+    at: now,
+  });
+
+export function createRouter({
+  service,
+  authClient,
+  catalogClient,
+  notificationClient,
+  logger,
+}: {
+  service: OnCallService;
+  authClient: InferClient<typeof AuthApi>;
+  catalogClient: InferClient<typeof CatalogApi>;
+  notificationClient: InferClient<typeof NotificationApi>;
+  logger: Logger;
+}) {
+  /**
+   * Resolve user IDs to display names.
+   * Users that cannot be found are left out of the map.
+   */
+  async function resolveUserNames(
+    userIds: Iterable<string>,
+  ): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    await Promise.all(
+      [...new Set(userIds)].map(async (userId) => {
+        try {
+          const user = await authClient.getUserById({ userId });
+          if (user) {
+            names.set(userId, user.name ?? user.email);
+          }
+        } catch {
+          // User not found, skip
+        }
+      }),
+    );
+    return names;
+  }
+
+  /**
+   * Ensure all schedules referenced by policy steps exist.
+   */
+  async function assertSchedulesExist(
+    steps: EscalationPolicy["steps"],
+  ): Promise<void> {
+    const scheduleIds = [
+      ...new Set(
+        steps.flatMap((step) =>
+          step.targets.flatMap((t) =>
+            t.type === "schedule" ? [t.scheduleId] : [],
+          ),
+        ),
+      ),
+    ];
+    const found = await service.getSchedules(scheduleIds);
+    if (found.length !== scheduleIds.length) {
+      throw new ORPCError("BAD_REQUEST", {
+        message: "An escalation step references an unknown schedule",
+      });
+    }
+  }
+
+  async function withEscalationNames(
+    items: Escalation[],
+  ): Promise<Escalation[]> {
+    const policies = await service.listPolicies();
+    const names = await resolveUserNames(
+      items.flatMap((e) => (e.acknowledgedBy ? [e.acknowledgedBy] : [])),
+    );
+    return items.map((e) => ({
+      ...e,
+      policyName: policies.find((p) => p.id === e.policyId)?.name,
+      acknowledgedByName: e.acknowledgedBy
+        ? names.get(e.acknowledgedBy)
+        : undefined,
+    }));
+  }
+
+  const os = implement(oncallContract)
+    .$context<RpcContext>()
+    .use(autoAuthMiddleware);
+
+  return os.router({
+    // =========================================================================
+    // SCHEDULES
+    // =========================================================================
+
+    listSchedules: os.listSchedules.handler(async () => {
+      const now = new Date();
+      const schedules = await service.listSchedules();
+      const overrides = await service.getOverrides({
+        scheduleIds: schedules.map((s) => s.id),
+        endingAfter: now,
+      });
+
+      const shifts = schedules.map((schedule) =>
+        getCurrentShift(schedule, overrides, now),
+      );
+      const names = await resolveUserNames(
+        shifts.flatMap((shift) => (shift ? [shift.userId] : [])),
+      );
+
+      return schedules.map((schedule, i) => {
+        const shift = shifts[i];
+        return {
+          ...schedule,
+          currentShift: shift ? withUserName(shift, names) : undefined,
+        };
+      });
+    }),
+
+    getSchedule: os.getSchedule.handler(async ({ input }) => {
+      const schedule = await service.getSchedule(input.id);
+      if (!schedule) {
+        // eslint-disable-next-line unicorn/no-null -- oRPC contract requires null for missing values
+        return null;
+      }
+
+      const now = new Date();
+      const overrides = await service.getOverrides({
+        scheduleIds: [schedule.id],
+        endingAfter: now,
+      });
+      const upcomingShifts = getUpcomingShifts({
+        schedule,
+        overrides,
+        from: now,
+        count: UPCOMING_SHIFT_COUNT,
+      });
+      const names = await resolveUserNames([
+        ...schedule.participants,
+        ...overrides.map((o) => o.userId),
+      ]);
+
+      return {
+        ...schedule,
+        currentShift: upcomingShifts[0]
+          ? withUserName(upcomingShifts[0], names)
+          : undefined,
+        overrides: overrides.map((o) => withUserName(o, names)),
+        upcomingShifts: upcomingShifts.map((s) => withUserName(s, names)),
+      };
+    }),
+
+    createSchedule: os.createSchedule.handler(async ({ input }) => {
+      const schedule = await service.createSchedule(input);
+      logger.info(`Created on-call schedule "${schedule.name}"`);
+      return schedule;
+    }),
+
+    updateSchedule: os.updateSchedule.handler(async ({ input }) => {
+      const schedule = await service.updateSchedule(input);
+      if (!schedule) {
+        throw new ORPCError("NOT_FOUND", { message: "Schedule not found" });
+      }
+      return schedule;
+    }),
+
+    deleteSchedule: os.deleteSchedule.handler(async ({ input }) => {
+      const policies = await service.listPolicies();
+      const usedBy = policies.find((policy) =>
+        policy.steps.some((step) =>
+          step.targets.some(
+            (t) => t.type === "schedule" && t.scheduleId === input.id,
+          ),
+        ),
+      );
+      if (usedBy) {
+        throw new ORPCError("CONFLICT", {
+          message: `Schedule is used by escalation policy "${usedBy.name}"`,
+        });
+      }
+
+      const success = await service.deleteSchedule(input.id);
+      if (!success) {
+        throw new ORPCError("NOT_FOUND", { message: "Schedule not found" });
+      }
+      return { success };
+    }),
+
+    addOverride: os.addOverride.handler(async ({ input }) => {
+      const schedule = await service.getSchedule(input.scheduleId);
+      if (!schedule) {
+        throw new ORPCError("NOT_FOUND", { message: "Schedule not found" });
+      }
+      return service.addOverride(input);
+    }),
+
+    removeOverride: os.removeOverride.handler(async ({ input }) => {
+      const success = await service.removeOverride(input.id);
+      if (!success) {
+        throw new ORPCError("NOT_FOUND", { message: "Override not found" });
+      }
+      return { success };
+    }),
+
+    // =========================================================================
+    // ESCALATION POLICIES
+    // =========================================================================
+
+    listPolicies: os.listPolicies.handler(async () => {
+      return service.listPolicies();
+    }),
+
+    createPolicy: os.createPolicy.handler(async ({ input }) => {
+      await assertSchedulesExist(input.steps);
+      const policy = await service.createPolicy(input);
+      logger.info(`Created escalation policy "${policy.name}"`);
+      return policy;
+    }),
+
+    updatePolicy: os.updatePolicy.handler(async ({ input }) => {
+      await assertSchedulesExist(input.steps);
+      const policy = await service.updatePolicy(input);
+      if (!policy) {
+        throw new ORPCError("NOT_FOUND", { message: "Policy not found" });
+      }
+      return policy;
+    }),
+
+    deletePolicy: os.deletePolicy.handler(async ({ input }) => {
+      const success = await service.deletePolicy(input.id);
+      if (!success) {
+        throw new ORPCError("NOT_FOUND", { message: "Policy not found" });
+      }
+      return { success };
+    }),
+
+    // =========================================================================
+    // ESCALATIONS
+    // =========================================================================
+
+    listEscalations: os.listEscalations.handler(async ({ input }) => {
+      return withEscalationNames(await service.listEscalations(input));
+    }),
+
+    getEscalation: os.getEscalation.handler(async ({ input }) => {
+      const escalation = await service.getEscalation(input.id);
+      if (!escalation) {
+        // eslint-disable-next-line unicorn/no-null -- oRPC contract requires null for missing values
+        return null;
+      }
+
+      const [withNames] = await withEscalationNames([escalation]);
+      const policy = await service.getPolicy(escalation.policyId);
+      const notifications = await service.getNotifications(escalation.id);
+      const names = await resolveUserNames(
+        notifications.flatMap((n) => n.userIds),
+      );
+
+      return {
+        ...withNames,
+        totalSteps: policy?.steps.length ?? 0,
+        notifications: notifications.map((n) => ({
+          stepIndex: n.stepIndex,
+          userIds: n.userIds,
+          userNames: n.userIds.map((id) => names.get(id) ?? id),
+          notifiedAt: n.notifiedAt,
+        })),
+      };
+    }),
+
+    acknowledgeEscalation: os.acknowledgeEscalation.handler(
+      async ({ input, context }) => {
+        const userId =
+          context.user && "id" in context.user ? context.user.id : undefined;
+        if (!userId) {
+          throw new ORPCError("UNAUTHORIZED");
+        }
+
+        const escalation = await service.acknowledge({ id: input.id, userId });
+        if (!escalation) {
+          const existing = await service.getEscalation(input.id);
+          throw existing
+            ? new ORPCError("CONFLICT", {
+                message: `Escalation is already ${existing.status}`,
+              })
+            : new ORPCError("NOT_FOUND", { message: "Escalation not found" });
+        }
+
+        logger.info(`Escalation ${escalation.id} acknowledged by ${userId}`);
+        const [withNames] = await withEscalationNames([escalation]);
+        return withNames;
+      },
+    ),
+
+    // =========================================================================
+    // SERVICE INTERFACE
+    // =========================================================================
+
+    triggerEscalations: os.triggerEscalations.handler(async ({ input }) => {
+      const groups = await catalogClient.getGroups();
+      const policies = await service.getPoliciesForSystem({
+        systemId: input.systemId,
+        groupIds: groups
+          .filter((g) => g.systemIds.includes(input.systemId))
+          .map((g) => g.id),
+      });
+      if (policies.length === 0) {
+        return { escalationIds: [] };
+      }
+
+      const system = await catalogClient.getSystem({
+        systemId: input.systemId,
+      });
+      const title = system ? `${input.title}: ${system.name}` : input.title;
+
+      const escalationIds: string[] = [];
+      for (const policy of policies) {
+        // Degraded -> unhealthy keeps the running escalation
+        if (
+          await service.hasOpenEscalation({
+            policyId: policy.id,
+            systemId: input.systemId,
+          })
+        ) {
+          continue;
+        }
+
+        const escalation = await service.createEscalation({
+          ...input,
+          title,
+          policyId: policy.id,
+        });
+        escalationIds.push(escalation.id);
+        logger.info(
+          `Triggered escalation ${escalation.id} of policy "${policy.name}" for system ${input.systemId}`,
+        );
+
+        // Notify steps due immediately instead of waiting for the next check
+        await processEscalation(
+          { service, notificationClient, logger },
+          escalation,
+        );
+      }
+
+      return { escalationIds };
+    }),
+
+    resolveEscalations: os.resolveEscalations.handler(async ({ input }) => {
+      const resolved = await service.resolveForSystem(input.systemId);
+
+      for (const escalation of resolved) {
+        const notifications = await service.getNotifications(escalation.id);
+        const userIds = [...new Set(notifications.flatMap((n) => n.userIds))];
+        if (userIds.length === 0) continue;
+
+        try {
+          await notificationClient.notifyUsers({
+            userIds,
+            title: `Resolved: ${escalation.title}`,
+            body: "The system has recovered, the escalation is closed.",
+            importance: "info",
+            action: {
+              label: "View Escalation",
+              url: resolveRoute(oncallRoutes.routes.escalationDetail, {
+                escalationId: escalation.id,
+              }),
+            },
+          });
+        } catch (error) {
+          logger.warn(
+            `Failed to notify resolution of escalation ${escalation.id}:`,
+            error,
+          );
+        }
+      }
+
+      return { resolvedCount: resolved.length };
+    }),
+  });
+}
@@ -0,0 +1,126 @@
+import {
+  pgTable,
+  pgEnum,
+  text,
+  timestamp,
+  jsonb,
+  integer,
+  primaryKey,
+} from "drizzle-orm/pg-core";
+import type { EscalationStep } from "@checkstack/oncall-common";
+
+/**
+ * Rotation type enum
+ */
+export const rotationTypeEnum = pgEnum("rotation_type", ["daily", "weekly"]);
+
+/**
+ * Escalation status enum
+ */
+export const escalationStatusEnum = pgEnum("escalation_status", [
+  "triggered",
+  "acknowledged",
+  "resolved",
+]);
+
+/**
+ * Policy target type enum
+ */
+export const policyTargetTypeEnum = pgEnum("policy_target_type", [
+  "system",
+  "group",
+]);
+
+/**
+ * On-call schedules rotating through an ordered list of users
+ */
+export const schedules = pgTable("schedules", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  rotationType: rotationTypeEnum("rotation_type").notNull(),
+  rotationStart: timestamp("rotation_start").notNull(),
+  /** User IDs in rotation order */
+  participants: jsonb("participants").notNull().$type<string[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Overrides replacing the rotation for a time range
+ */
+export const scheduleOverrides = pgTable("schedule_overrides", {
+  id: text("id").primaryKey(),
+  scheduleId: text("schedule_id")
+    .notNull()
+    .references(() => schedules.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  startAt: timestamp("start_at").notNull(),
+  endAt: timestamp("end_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Escalation policies with their ordered steps
+ */
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  steps: jsonb("steps").notNull().$type<EscalationStep[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Systems and groups covered by a policy
+ */
+export const policyTargets = pgTable(
+  "policy_targets",
+  {
+    policyId: text("policy_id")
+      .notNull()
+      .references(() => escalationPolicies.id, { onDelete: "cascade" }),
+    targetType: policyTargetTypeEnum("target_type").notNull(),
+    targetId: text("target_id").notNull(),
+  },
+  (t) => ({
+    pk: primaryKey(t.policyId, t.targetType, t.targetId),
+  }),
+);
+
+/**
+ * A running escalation of one policy for one system
+ */
+export const escalations = pgTable("escalations", {
+  id: text("id").primaryKey(),
+  policyId: text("policy_id")
+    .notNull()
+    .references(() => escalationPolicies.id, { onDelete: "cascade" }),
+  systemId: text("system_id").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  importance: text("importance")
+    .notNull()
+    .$type<"info" | "warning" | "critical">(),
+  status: escalationStatusEnum("status").notNull().default("triggered"),
+  /** Index of the last notified step, -1 before the first step */
+  lastNotifiedStep: integer("last_notified_step").notNull().default(-1),
+  triggeredAt: timestamp("triggered_at").defaultNow().notNull(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: text("acknowledged_by"),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+/**
+ * Users notified per escalation step
+ */
+export const escalationNotifications = pgTable("escalation_notifications", {
+  id: text("id").primaryKey(),
+  escalationId: text("escalation_id")
+    .notNull()
+    .references(() => escalations.id, { onDelete: "cascade" }),
+  stepIndex: integer("step_index").notNull(),
+  userIds: jsonb("user_ids").notNull().$type<string[]>(),
+  notifiedAt: timestamp("notified_at").defaultNow().notNull(),
+});
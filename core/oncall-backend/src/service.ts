@@ -0,0 +1,458 @@
+import { and, desc, eq, gt, inArray, lt, or } from "drizzle-orm";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import type {
+  CreateOverrideInput,
+  CreatePolicyInput,
+  CreateScheduleInput,
+  Escalation,
+  EscalationPolicy,
+  EscalationStatus,
+  OnCallSchedule,
+  ScheduleOverride,
+  TriggerEscalationsInput,
+  UpdatePolicyInput,
+  UpdateScheduleInput,
+} from "@checkstack/oncall-common";
+import * as schema from "./schema";
+import {
+  escalationNotifications,
+  escalationPolicies,
+  escalations,
+  policyTargets,
+  scheduleOverrides,
+  schedules,
+} from "./schema";
+
+type Db = SafeDatabase<typeof schema>;
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+const toSchedule = (row: typeof schedules.$inferSelect): OnCallSchedule => ({
+  ...row,
+  description: row.description ?? undefined,
+});
+
+const toOverride = (
+  row: typeof scheduleOverrides.$inferSelect,
+): ScheduleOverride => row;
+
+const toEscalation = (row: typeof escalations.$inferSelect): Escalation => ({
+  ...row,
+  acknowledgedAt: row.acknowledgedAt ?? undefined,
+  acknowledgedBy: row.acknowledgedBy ?? undefined,
+  resolvedAt: row.resolvedAt ?? undefined,
+});
+
+export class OnCallService {
+  constructor(private db: Db) {}
+
+  // ===========================================================================
+  // SCHEDULES
+  // ===========================================================================
+
+  async listSchedules(): Promise<OnCallSchedule[]> {
+    const rows = await this.db.select().from(schedules).orderBy(schedules.name);
+    return rows.map((row) => toSchedule(row));
+  }
+
+  async getSchedules(ids: string[]): Promise<OnCallSchedule[]> {
+    if (ids.length === 0) return [];
+    const rows = await this.db
+      .select()
+      .from(schedules)
+      .where(inArray(schedules.id, ids));
+    return rows.map((row) => toSchedule(row));
+  }
+
+  async getSchedule(id: string): Promise<OnCallSchedule | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(schedules)
+      .where(eq(schedules.id, id));
+    return row ? toSchedule(row) : undefined;
+  }
+
+  async createSchedule(input: CreateScheduleInput): Promise<OnCallSchedule> {
+    const [row] = await this.db
+      .insert(schedules)
+      .values({ id: generateId(), ...input })
+      .returning();
+    return toSchedule(row);
+  }
+
+  async updateSchedule(
+    input: UpdateScheduleInput,
+  ): Promise<OnCallSchedule | undefined> {
+    const { id, ...values } = input;
+    const [row] = await this.db
+      .update(schedules)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(schedules.id, id))
+      .returning();
+    return row ? toSchedule(row) : undefined;
+  }
+
+  async deleteSchedule(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schedules)
+      .where(eq(schedules.id, id))
+      .returning({ id: schedules.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Get overrides of the given schedules that have not ended yet
+   */
+  async getOverrides({
+    scheduleIds,
+    endingAfter,
+  }: {
+    scheduleIds: string[];
+    endingAfter: Date;
+  }): Promise<ScheduleOverride[]> {
+    if (scheduleIds.length === 0) return [];
+    const rows = await this.db
+      .select()
+      .from(scheduleOverrides)
+      .where(
+        and(
+          inArray(scheduleOverrides.scheduleId, scheduleIds),
+          gt(scheduleOverrides.endAt, endingAfter),
+        ),
+      )
+      .orderBy(scheduleOverrides.startAt);
+    return rows.map((row) => toOverride(row));
+  }
+
+  async addOverride(input: CreateOverrideInput): Promise<ScheduleOverride> {
+    const [row] = await this.db
+      .insert(scheduleOverrides)
+      .values({ id: generateId(), ...input })
+      .returning();
+    return toOverride(row);
+  }
+
+  async removeOverride(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(scheduleOverrides)
+      .where(eq(scheduleOverrides.id, id))
+      .returning({ id: scheduleOverrides.id });
+    return deleted.length > 0;
+  }
+
+  // ===========================================================================
+  // ESCALATION POLICIES
+  // ===========================================================================
+
+  private async withTargets(
+    rows: (typeof escalationPolicies.$inferSelect)[],
+  ): Promise<EscalationPolicy[]> {
+    if (rows.length === 0) return [];
+    const targets = await this.db
+      .select()
+      .from(policyTargets)
+      .where(
+        inArray(
+          policyTargets.policyId,
+          rows.map((r) => r.id),
+        ),
+      );
+
+    return rows.map((row) => {
+      const own = targets.filter((t) => t.policyId === row.id);
+      return {
+        ...row,
+        description: row.description ?? undefined,
+        systemIds: own
+          .filter((t) => t.targetType === "system")
+          .map((t) => t.targetId),
+        groupIds: own
+          .filter((t) => t.targetType === "group")
+          .map((t) => t.targetId),
+      };
+    });
+  }
+
+  async listPolicies(): Promise<EscalationPolicy[]> {
+    const rows = await this.db
+      .select()
+      .from(escalationPolicies)
+      .orderBy(escalationPolicies.name);
+    return this.withTargets(rows);
+  }
+
+  async getPolicy(id: string): Promise<EscalationPolicy | undefined> {
+    const rows = await this.db
+      .select()
+      .from(escalationPolicies)
+      .where(eq(escalationPolicies.id, id));
+    const [policy] = await this.withTargets(rows);
+    return policy;
+  }
+
+  /**
+   * Get policies covering a system directly or through one of its groups
+   */
+  async getPoliciesForSystem({
+    systemId,
+    groupIds,
+  }: {
+    systemId: string;
+    groupIds: string[];
+  }): Promise<EscalationPolicy[]> {
+    const conditions = [
+      and(
+        eq(policyTargets.targetType, "system"),
+        eq(policyTargets.targetId, systemId),
+      ),
+    ];
+    if (groupIds.length > 0) {
+      conditions.push(
+        and(
+          eq(policyTargets.targetType, "group"),
+          inArray(policyTargets.targetId, groupIds),
+        ),
+      );
+    }
+
+    const matches = await this.db
+      .selectDistinct({ policyId: policyTargets.policyId })
+      .from(policyTargets)
+      .where(or(...conditions));
+    if (matches.length === 0) return [];
+
+    const rows = await this.db
+      .select()
+      .from(escalationPolicies)
+      .where(
+        inArray(
+          escalationPolicies.id,
+          matches.map((m) => m.policyId),
+        ),
+      );
+    return this.withTargets(rows);
+  }
+
+  private async replaceTargets(
+    policyId: string,
+    input: Pick<CreatePolicyInput, "systemIds" | "groupIds">,
+  ): Promise<void> {
+    await this.db
+      .delete(policyTargets)
+      .where(eq(policyTargets.policyId, policyId));
+
+    const values = [
+      ...[...new Set(input.systemIds)].map((targetId) => ({
+        policyId,
+        targetType: "system" as const,
+        targetId,
+      })),
+      ...[...new Set(input.groupIds)].map((targetId) => ({
+        policyId,
+        targetType: "group" as const,
+        targetId,
+      })),
+    ];
+    if (values.length > 0) {
+      await this.db.insert(policyTargets).values(values);
+    }
+  }
+
+  async createPolicy(input: CreatePolicyInput): Promise<EscalationPolicy> {
+    const id = generateId();
+    await this.db.insert(escalationPolicies).values({
+      id,
+      name: input.name,
+      description: input.description,
+      steps: input.steps,
+    });
+    await this.replaceTargets(id, input);
+    return (await this.getPolicy(id))!;
+  }
+
+  async updatePolicy(
+    input: UpdatePolicyInput,
+  ): Promise<EscalationPolicy | undefined> {
+    const updated = await this.db
+      .update(escalationPolicies)
+      .set({
+        name: input.name,
+        description: input.description,
+        steps: input.steps,
+        updatedAt: new Date(),
+      })
+      .where(eq(escalationPolicies.id, input.id))
+      .returning({ id: escalationPolicies.id });
+    if (updated.length === 0) return undefined;
+
+    await this.replaceTargets(input.id, input);
+    return this.getPolicy(input.id);
+  }
+
+  async deletePolicy(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(escalationPolicies)
+      .where(eq(escalationPolicies.id, id))
+      .returning({ id: escalationPolicies.id });
+    return deleted.length > 0;
+  }
+
+  // ===========================================================================
+  // ESCALATIONS
+  // ===========================================================================
+
+  async listEscalations(filters?: {
+    status?: EscalationStatus;
+    systemId?: string;
+  }): Promise<Escalation[]> {
+    const rows = await this.db
+      .select()
+      .from(escalations)
+      .where(
+        and(
+          filters?.status ? eq(escalations.status, filters.status) : undefined,
+          filters?.systemId
+            ? eq(escalations.systemId, filters.systemId)
+            : undefined,
+        ),
+      )
+      .orderBy(desc(escalations.triggeredAt))
+      .limit(200);
+    return rows.map((row) => toEscalation(row));
+  }
+
+  async getEscalation(id: string): Promise<Escalation | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(escalations)
+      .where(eq(escalations.id, id));
+    return row ? toEscalation(row) : undefined;
+  }
+
+  /**
+   * Get escalations still waiting for acknowledgement
+   */
+  async getTriggeredEscalations(): Promise<Escalation[]> {
+    return this.listEscalations({ status: "triggered" });
+  }
+
+  async hasOpenEscalation({
+    policyId,
+    systemId,
+  }: {
+    policyId: string;
+    systemId: string;
+  }): Promise<boolean> {
+    const rows = await this.db
+      .select({ id: escalations.id })
+      .from(escalations)
+      .where(
+        and(
+          eq(escalations.policyId, policyId),
+          eq(escalations.systemId, systemId),
+          inArray(escalations.status, ["triggered", "acknowledged"]),
+        ),
+      )
+      .limit(1);
+    return rows.length > 0;
+  }
+
+  async createEscalation(
+    input: TriggerEscalationsInput & { policyId: string },
+  ): Promise<Escalation> {
+    const [row] = await this.db
+      .insert(escalations)
+      .values({ id: generateId(), ...input })
+      .returning();
+    return toEscalation(row);
+  }
+
+  /**
+   * Atomically mark a step as notified.
+   * Returns false if the step was already claimed or the escalation is no
+   * longer waiting, so each step is notified once across instances.
+   */
+  async claimStep(escalationId: string, stepIndex: number): Promise<boolean> {
+    const claimed = await this.db
+      .update(escalations)
+      .set({ lastNotifiedStep: stepIndex })
+      .where(
+        and(
+          eq(escalations.id, escalationId),
+          eq(escalations.status, "triggered"),
+          lt(escalations.lastNotifiedStep, stepIndex),
+        ),
+      )
+      .returning({ id: escalations.id });
+    return claimed.length > 0;
+  }
+
+  async recordNotification({
+    escalationId,
+    stepIndex,
+    userIds,
+  }: {
+    escalationId: string;
+    stepIndex: number;
+    userIds: string[];
+  }): Promise<void> {
+    await this.db.insert(escalationNotifications).values({
+      id: generateId(),
+      escalationId,
+      stepIndex,
+      userIds,
+    });
+  }
+
+  async getNotifications(
+    escalationId: string,
+  ): Promise<(typeof escalationNotifications.$inferSelect)[]> {
+    return this.db
+      .select()
+      .from(escalationNotifications)
+      .where(eq(escalationNotifications.escalationId, escalationId))
+      .orderBy(escalationNotifications.notifiedAt);
+  }
+
+  /**
+   * Acknowledge a triggered escalation.
+   * Returns undefined if it does not exist or is no longer triggered.
+   */
+  async acknowledge({
+    id,
+    userId,
+  }: {
+    id: string;
+    userId: string;
+  }): Promise<Escalation | undefined> {
+    const [row] = await this.db
+      .update(escalations)
+      .set({
+        status: "acknowledged",
+        acknowledgedAt: new Date(),
+        acknowledgedBy: userId,
+      })
+      .where(and(eq(escalations.id, id), eq(escalations.status, "triggered")))
+      .returning();
+    return row ? toEscalation(row) : undefined;
+  }
+
+  /**
+   * Resolve all open escalations of a system
+   */
+  async resolveForSystem(systemId: string): Promise<Escalation[]> {
+    const rows = await this.db
+      .update(escalations)
+      .set({ status: "resolved", resolvedAt: new Date() })
+      .where(
+        and(
+          eq(escalations.systemId, systemId),
+          inArray(escalations.status, ["triggered", "acknowledged"]),
+        ),
+      )
+      .returning();
+    return rows.map((row) => toEscalation(row));
+  }
+}
@@ -0,0 +1,45 @@
+import { accessPair } from "@checkstack/common";
+
+/**
+ * Access rules for the On-Call plugin.
+ */
+export const oncallAccess = {
+  /**
+   * On-call schedules, overrides and escalation policies.
+   */
+  schedule: accessPair("schedule", {
+    read: {
+      description: "View on-call schedules and escalation policies",
+      isDefault: true,
+    },
+    manage: {
+      description:
+        "Manage on-call schedules, overrides and escalation policies",
+    },
+  }),
+
+  /**
+   * Escalations triggered by health state changes.
+   * Acknowledging is granted by default so on-call users can stop an escalation.
+   */
+  escalation: accessPair("escalation", {
+    read: {
+      description: "View escalations",
+      isDefault: true,
+    },
+    manage: {
+      description: "Acknowledge escalations",
+      isDefault: true,
+    },
+  }),
+};
+
+/**
+ * All access rules for registration with the plugin system.
+ */
+export const oncallAccessRules = [
+  oncallAccess.schedule.read,
+  oncallAccess.schedule.manage,
+  oncallAccess.escalation.read,
+  oncallAccess.escalation.manage,
+];
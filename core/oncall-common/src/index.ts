@@ -0,0 +1,5 @@
+export * from "./schemas";
+export * from "./access";
+export { oncallContract, OncallApi, type OncallContract } from "./rpc-contract";
+export * from "./plugin-metadata";
+export { oncallRoutes } from "./routes";
@@ -0,0 +1,10 @@
+import { createRoutes } from "@checkstack/common";
+
+/**
+ * Route definitions for the on-call plugin.
+ */
+export const oncallRoutes = createRoutes("oncall", {
+  home: "/",
+  scheduleDetail: "/schedules/:scheduleId",
+  escalationDetail: "/escalations/:escalationId",
+});
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { createClientDefinition, proc } from "@checkstack/common";
+import { oncallAccess } from "./access";
+import { pluginMetadata } from "./plugin-metadata";
+import {
+  OnCallScheduleWithCurrentSchema,
+  OnCallScheduleDetailSchema,
+  OnCallScheduleSchema,
+  CreateScheduleInputSchema,
+  UpdateScheduleInputSchema,
+  ScheduleOverrideSchema,
+  CreateOverrideInputSchema,
+  EscalationPolicySchema,
+  CreatePolicyInputSchema,
+  UpdatePolicyInputSchema,
+  EscalationSchema,
+  EscalationDetailSchema,
+  EscalationStatusEnum,
+  TriggerEscalationsInputSchema,
+} from "./schemas";
+
+export const oncallContract = {
+  // ==========================================================================
+  // SCHEDULES
+  // ==========================================================================
+
+  /** List schedules with whoever is currently on call */
+  listSchedules: proc({
+    operationType: "query",
+    userType: "user",
+    access: [oncallAccess.schedule.read],
+  }).output(z.array(OnCallScheduleWithCurrentSchema)),
+
+  /** Get a schedule with its overrides and upcoming shifts */
+  getSchedule: proc({
+    operationType: "query",
+    userType: "user",
+    access: [oncallAccess.schedule.read],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(OnCallScheduleDetailSchema.nullable()),
+
+  createSchedule: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(CreateScheduleInputSchema)
+    .output(OnCallScheduleSchema),
+
+  updateSchedule: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(UpdateScheduleInputSchema)
+    .output(OnCallScheduleSchema),
+
+  deleteSchedule: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  addOverride: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(CreateOverrideInputSchema)
+    .output(ScheduleOverrideSchema),
+
+  removeOverride: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  // ==========================================================================
+  // ESCALATION POLICIES
+  // ==========================================================================
+
+  listPolicies: proc({
+    operationType: "query",
+    userType: "user",
+    access: [oncallAccess.schedule.read],
+  }).output(z.array(EscalationPolicySchema)),
+
+  createPolicy: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(CreatePolicyInputSchema)
+    .output(EscalationPolicySchema),
+
+  updatePolicy: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(UpdatePolicyInputSchema)
+    .output(EscalationPolicySchema),
+
+  deletePolicy: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.schedule.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  // ==========================================================================
+  // ESCALATIONS
+  // ==========================================================================
+
+  listEscalations: proc({
+    operationType: "query",
+    userType: "user",
+    access: [oncallAccess.escalation.read],
+  })
+    .input(
+      z
+        .object({
+          status: EscalationStatusEnum.optional(),
+          systemId: z.string().optional(),
+        })
+        .optional(),
+    )
+    .output(z.array(EscalationSchema)),
+
+  getEscalation: proc({
+    operationType: "query",
+    userType: "user",
+    access: [oncallAccess.escalation.read],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(EscalationDetailSchema.nullable()),
+
+  /** Stop further escalation steps, typically from the notification link */
+  acknowledgeEscalation: proc({
+    operationType: "mutation",
+    userType: "user",
+    access: [oncallAccess.escalation.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(EscalationSchema),
+
+  // ==========================================================================
+  // SERVICE INTERFACE (userType: "service" - backend-to-backend only)
+  // ==========================================================================
+
+  /**
+   * Start escalations for every policy covering the system.
+   * Policies with an open escalation for the system are skipped.
+   * Used by the health check system on state changes to degraded or unhealthy.
+   */
+  triggerEscalations: proc({
+    operationType: "mutation",
+    userType: "service",
+    access: [],
+  })
+    .input(TriggerEscalationsInputSchema)
+    .output(z.object({ escalationIds: z.array(z.string()) })),
+
+  /**
+   * Resolve open escalations of a system and tell everyone notified so far.
+   * Used by the health check system when a system recovers.
+   */
+  resolveEscalations: proc({
+    operationType: "mutation",
+    userType: "service",
+    access: [],
+  })
+    .input(z.object({ systemId: z.string() }))
+    .output(z.object({ resolvedCount: z.number() })),
+};
+
+// Export contract type
+export type OncallContract = typeof oncallContract;
+
+// Export client definition for type-safe forPlugin usage
+// Use: const client = rpcApi.forPlugin(OncallApi);
+export const OncallApi = createClientDefinition(oncallContract, pluginMetadata);
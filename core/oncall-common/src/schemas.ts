@@ -0,0 +1,208 @@
+import { z } from "zod";
+
+// =============================================================================
+// SCHEDULES
+// =============================================================================
+
+/** How often the on-call duty is handed over to the next participant */
+export const RotationTypeEnum = z.enum(["daily", "weekly"]);
+export type RotationType = z.infer<typeof RotationTypeEnum>;
+
+export const OnCallScheduleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  rotationType: RotationTypeEnum,
+  /** First handoff, later handoffs happen every day or week at the same time */
+  rotationStart: z.coerce.date(),
+  /** User IDs in rotation order */
+  participants: z.array(z.string()),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+export type OnCallSchedule = z.infer<typeof OnCallScheduleSchema>;
+
+/**
+ * Temporarily hands the on-call duty to another user, e.g. for vacations.
+ */
+export const ScheduleOverrideSchema = z.object({
+  id: z.string(),
+  scheduleId: z.string(),
+  userId: z.string(),
+  userName: z.string().optional(),
+  startAt: z.coerce.date(),
+  endAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+export type ScheduleOverride = z.infer<typeof ScheduleOverrideSchema>;
+
+export const OnCallShiftSchema = z.object({
+  userId: z.string(),
+  userName: z.string().optional(),
+  startAt: z.coerce.date(),
+  endAt: z.coerce.date(),
+  /** Whether the shift is covered by an override */
+  isOverride: z.boolean(),
+});
+export type OnCallShift = z.infer<typeof OnCallShiftSchema>;
+
+export const OnCallScheduleWithCurrentSchema = OnCallScheduleSchema.extend({
+  currentShift: OnCallShiftSchema.optional(),
+});
+export type OnCallScheduleWithCurrent = z.infer<
+  typeof OnCallScheduleWithCurrentSchema
+>;
+
+export const OnCallScheduleDetailSchema =
+  OnCallScheduleWithCurrentSchema.extend({
+    overrides: z.array(ScheduleOverrideSchema),
+    upcomingShifts: z.array(OnCallShiftSchema),
+  });
+export type OnCallScheduleDetail = z.infer<typeof OnCallScheduleDetailSchema>;
+
+export const CreateScheduleInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  rotationType: RotationTypeEnum,
+  rotationStart: z.coerce.date(),
+  participants: z.array(z.string()).min(1, "Add at least one participant"),
+});
+export type CreateScheduleInput = z.infer<typeof CreateScheduleInputSchema>;
+
+export const UpdateScheduleInputSchema = CreateScheduleInputSchema.extend({
+  id: z.string(),
+});
+export type UpdateScheduleInput = z.infer<typeof UpdateScheduleInputSchema>;
+
+export const CreateOverrideInputSchema = z
+  .object({
+    scheduleId: z.string(),
+    userId: z.string(),
+    startAt: z.coerce.date(),
+    endAt: z.coerce.date(),
+  })
+  .refine((data) => data.endAt > data.startAt, {
+    message: "End must be after start",
+    path: ["endAt"],
+  });
+export type CreateOverrideInput = z.infer<typeof CreateOverrideInputSchema>;
+
+// =============================================================================
+// ESCALATION POLICIES
+// =============================================================================
+
+/** Who to notify in an escalation step */
+export const EscalationTargetSchema = z.discriminatedUnion("type", [
+  z.object({
+    /** Whoever is on call in the schedule when the step fires */
+    type: z.literal("schedule"),
+    scheduleId: z.string(),
+  }),
+  z.object({
+    type: z.literal("user"),
+    userId: z.string(),
+  }),
+]);
+export type EscalationTarget = z.infer<typeof EscalationTargetSchema>;
+
+export const EscalationStepSchema = z.object({
+  /** Minutes after the escalation was triggered, if still unacknowledged */
+  afterMinutes: z.number().int().min(0),
+  targets: z.array(EscalationTargetSchema).min(1),
+});
+export type EscalationStep = z.infer<typeof EscalationStepSchema>;
+
+export const EscalationPolicySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  steps: z.array(EscalationStepSchema),
+  /** Systems covered directly */
+  systemIds: z.array(z.string()),
+  /** Groups whose systems are covered */
+  groupIds: z.array(z.string()),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+export type EscalationPolicy = z.infer<typeof EscalationPolicySchema>;
+
+export const CreatePolicyInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  steps: z
+    .array(EscalationStepSchema)
+    .min(1, "Add at least one step")
+    .refine(
+      (steps) =>
+        steps.every(
+          (step, i) => i === 0 || step.afterMinutes > steps[i - 1].afterMinutes,
+        ),
+      "Each step must fire later than the previous one",
+    ),
+  systemIds: z.array(z.string()).default([]),
+  groupIds: z.array(z.string()).default([]),
+});
+export type CreatePolicyInput = z.infer<typeof CreatePolicyInputSchema>;
+
+export const UpdatePolicyInputSchema = CreatePolicyInputSchema.extend({
+  id: z.string(),
+});
+export type UpdatePolicyInput = z.infer<typeof UpdatePolicyInputSchema>;
+
+// =============================================================================
+// ESCALATIONS
+// =============================================================================
+
+export const EscalationStatusEnum = z.enum([
+  "triggered",
+  "acknowledged",
+  "resolved",
+]);
+export type EscalationStatus = z.infer<typeof EscalationStatusEnum>;
+
+export const EscalationImportanceEnum = z.enum(["info", "warning", "critical"]);
+
+export const EscalationSchema = z.object({
+  id: z.string(),
+  policyId: z.string(),
+  policyName: z.string().optional(),
+  systemId: z.string(),
+  title: z.string(),
+  body: z.string(),
+  importance: EscalationImportanceEnum,
+  status: EscalationStatusEnum,
+  /** Index of the last step that was notified, -1 before the first step */
+  lastNotifiedStep: z.number(),
+  triggeredAt: z.coerce.date(),
+  acknowledgedAt: z.coerce.date().optional(),
+  acknowledgedBy: z.string().optional(),
+  acknowledgedByName: z.string().optional(),
+  resolvedAt: z.coerce.date().optional(),
+});
+export type Escalation = z.infer<typeof EscalationSchema>;
+
+export const EscalationNotificationSchema = z.object({
+  stepIndex: z.number(),
+  userIds: z.array(z.string()),
+  userNames: z.array(z.string()),
+  notifiedAt: z.coerce.date(),
+});
+export type EscalationNotification = z.infer<
+  typeof EscalationNotificationSchema
+>;
+
+export const EscalationDetailSchema = EscalationSchema.extend({
+  notifications: z.array(EscalationNotificationSchema),
+  totalSteps: z.number(),
+});
+export type EscalationDetail = z.infer<typeof EscalationDetailSchema>;
+
+export const TriggerEscalationsInputSchema = z.object({
+  systemId: z.string(),
+  title: z.string(),
+  body: z.string(),
+  importance: EscalationImportanceEnum,
+});
+export type TriggerEscalationsInput = z.infer<
+  typeof TriggerEscalationsInputSchema
+>;
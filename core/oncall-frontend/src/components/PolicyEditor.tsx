@@ -0,0 +1,445 @@
+import React, { useEffect, useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  OncallApi,
+  type EscalationPolicy,
+  type EscalationStep,
+  type EscalationTarget,
+  type OnCallSchedule,
+} from "@checkstack/oncall-common";
+import type { Group, System } from "@checkstack/catalog-common";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  Button,
+  Input,
+  Label,
+  Textarea,
+  Checkbox,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  useToast,
+} from "@checkstack/ui";
+import { CalendarClock, Plus, Trash2, User, X } from "lucide-react";
+import { UserSelect, getUserName, type UserOption } from "./UserSelect";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy?: EscalationPolicy;
+  schedules: OnCallSchedule[];
+  users: UserOption[];
+  systems: System[];
+  groups: Group[];
+  onSave: () => void;
+}
+
+/** Primary right away, secondary after 10 minutes */
+const defaultSteps = (): EscalationStep[] => [
+  { afterMinutes: 0, targets: [] },
+  { afterMinutes: 10, targets: [] },
+];
+
+const targetKey = (target: EscalationTarget): string =>
+  target.type === "schedule"
+    ? `schedule:${target.scheduleId}`
+    : `user:${target.userId}`;
+
+const toggle = (ids: string[], id: string): string[] =>
+  ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+
+const StepTargetPicker: React.FC<{
+  schedules: OnCallSchedule[];
+  users: UserOption[];
+  existing: EscalationTarget[];
+  onAdd: (target: EscalationTarget) => void;
+}> = ({ schedules, users, existing, onAdd }) => {
+  const [type, setType] = useState<EscalationTarget["type"]>("schedule");
+  const [value, setValue] = useState("");
+  const existingKeys = new Set(existing.map((t) => targetKey(t)));
+
+  const handleAdd = () => {
+    if (!value) return;
+    onAdd(
+      type === "schedule"
+        ? { type, scheduleId: value }
+        : { type: "user", userId: value },
+    );
+    setValue("");
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={type}
+        onValueChange={(v) => {
+          setType(v as EscalationTarget["type"]);
+          setValue("");
+        }}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="schedule">Schedule</SelectItem>
+          <SelectItem value="user">User</SelectItem>
+        </SelectContent>
+      </Select>
+      <div className="flex-1">
+        {type === "schedule" ? (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a schedule" />
+            </SelectTrigger>
+            <SelectContent>
+              {schedules
+                .filter((s) => !existingKeys.has(`schedule:${s.id}`))
+                .map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <UserSelect
+            users={users}
+            value={value}
+            onChange={setValue}
+            excludeIds={existing.flatMap((t) =>
+              t.type === "user" ? [t.userId] : [],
+            )}
+          />
+        )}
+      </div>
+      <Button variant="outline" onClick={handleAdd} disabled={!value}>
+        <Plus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export const PolicyEditor: React.FC<Props> = ({
+  open,
+  onOpenChange,
+  policy,
+  schedules,
+  users,
+  systems,
+  groups,
+  onSave,
+}) => {
+  const oncallClient = usePluginClient(OncallApi);
+  const toast = useToast();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [steps, setSteps] = useState<EscalationStep[]>(defaultSteps());
+  const [systemIds, setSystemIds] = useState<string[]>([]);
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+
+  const createMutation = oncallClient.createPolicy.useMutation({
+    onSuccess: () => {
+      toast.success("Escalation policy created");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  const updateMutation = oncallClient.updatePolicy.useMutation({
+    onSuccess: () => {
+      toast.success("Escalation policy updated");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  // Reset form when policy changes
+  useEffect(() => {
+    if (policy) {
+      setName(policy.name);
+      setDescription(policy.description ?? "");
+      setSteps(policy.steps);
+      setSystemIds(policy.systemIds);
+      setGroupIds(policy.groupIds);
+    } else {
+      setName("");
+      setDescription("");
+      setSteps(defaultSteps());
+      setSystemIds([]);
+      setGroupIds([]);
+    }
+  }, [policy, open]);
+
+  const updateStep = (index: number, patch: Partial<EscalationStep>) => {
+    setSteps((prev) =>
+      prev.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    );
+  };
+
+  const getTargetLabel = (target: EscalationTarget): string =>
+    target.type === "schedule"
+      ? (schedules.find((s) => s.id === target.scheduleId)?.name ??
+        target.scheduleId)
+      : getUserName(users, target.userId);
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (steps.length === 0) {
+      toast.error("Add at least one step");
+      return;
+    }
+    if (steps.some((step) => step.targets.length === 0)) {
+      toast.error("Every step needs at least one target");
+      return;
+    }
+    if (
+      steps.some(
+        (step, i) => i > 0 && step.afterMinutes <= steps[i - 1].afterMinutes,
+      )
+    ) {
+      toast.error("Each step must fire later than the previous one");
+      return;
+    }
+
+    const input = {
+      name,
+      description: description || undefined,
+      steps,
+      systemIds,
+      groupIds,
+    };
+    if (policy) {
+      updateMutation.mutate({ id: policy.id, ...input });
+    } else {
+      createMutation.mutate(input);
+    }
+  };
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="xl">
+        <DialogHeader>
+          <DialogTitle>
+            {policy ? "Edit Escalation Policy" : "Create Escalation Policy"}
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Configure who is notified when a covered system changes state
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 py-4">
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Production outages"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="policy-description">Description</Label>
+              <Textarea
+                id="policy-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-medium">Steps</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setSteps((prev) => [
+                    ...prev,
+                    {
+                      afterMinutes: (prev.at(-1)?.afterMinutes ?? -10) + 10,
+                      targets: [],
+                    },
+                  ])
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Step
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Each step notifies its targets if the escalation has not been
+              acknowledged by then.
+            </p>
+
+            {steps.map((step, index) => (
+              <div key={index} className="border rounded-md p-3 space-y-3">
+                <div className="flex items-center gap-3">
+                  <span className="font-medium text-sm">Step {index + 1}</span>
+                  <span className="text-sm text-muted-foreground">after</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24"
+                    value={step.afterMinutes}
+                    onChange={(e) =>
+                      updateStep(index, {
+                        afterMinutes: Math.max(0, Number(e.target.value) || 0),
+                      })
+                    }
+                  />
+                  <span className="text-sm text-muted-foreground flex-1">
+                    minutes
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setSteps((prev) => prev.filter((_, i) => i !== index))
+                    }
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {step.targets.map((target) => (
+                    <span
+                      key={targetKey(target)}
+                      className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-sm"
+                    >
+                      {target.type === "schedule" ? (
+                        <CalendarClock className="h-3 w-3" />
+                      ) : (
+                        <User className="h-3 w-3" />
+                      )}
+                      {getTargetLabel(target)}
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() =>
+                          updateStep(index, {
+                            targets: step.targets.filter(
+                              (t) => targetKey(t) !== targetKey(target),
+                            ),
+                          })
+                        }
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+
+                <StepTargetPicker
+                  schedules={schedules}
+                  users={users}
+                  existing={step.targets}
+                  onAdd={(target) =>
+                    updateStep(index, { targets: [...step.targets, target] })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Systems</Label>
+              <div className="max-h-40 overflow-y-auto border rounded-md p-2 space-y-1">
+                {systems.length === 0 ? (
+                  <p className="text-sm text-muted-foreground p-1">
+                    No systems available
+                  </p>
+                ) : (
+                  systems.map((system) => (
+                    <div
+                      key={system.id}
+                      className="flex items-center space-x-2 p-1 rounded hover:bg-accent cursor-pointer"
+                      onClick={() =>
+                        setSystemIds((prev) => toggle(prev, system.id))
+                      }
+                    >
+                      <Checkbox
+                        id={`policy-system-${system.id}`}
+                        checked={systemIds.includes(system.id)}
+                      />
+                      <Label
+                        htmlFor={`policy-system-${system.id}`}
+                        className="cursor-pointer flex-1"
+                      >
+                        {system.name}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>Groups</Label>
+              <div className="max-h-40 overflow-y-auto border rounded-md p-2 space-y-1">
+                {groups.length === 0 ? (
+                  <p className="text-sm text-muted-foreground p-1">
+                    No groups available
+                  </p>
+                ) : (
+                  groups.map((group) => (
+                    <div
+                      key={group.id}
+                      className="flex items-center space-x-2 p-1 rounded hover:bg-accent cursor-pointer"
+                      onClick={() =>
+                        setGroupIds((prev) => toggle(prev, group.id))
+                      }
+                    >
+                      <Checkbox
+                        id={`policy-group-${group.id}`}
+                        checked={groupIds.includes(group.id)}
+                      />
+                      <Label
+                        htmlFor={`policy-group-${group.id}`}
+                        className="cursor-pointer flex-1"
+                      >
+                        {group.name}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-4">
+            Systems in a selected group are covered as well.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? "Saving..." : policy ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  OncallApi,
+  type OnCallSchedule,
+  type RotationType,
+} from "@checkstack/oncall-common";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  Button,
+  Input,
+  Label,
+  Textarea,
+  DateTimePicker,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  useToast,
+} from "@checkstack/ui";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { UserSelect, getUserName, type UserOption } from "./UserSelect";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule?: OnCallSchedule;
+  users: UserOption[];
+  onSave: () => void;
+}
+
+export const ScheduleEditor: React.FC<Props> = ({
+  open,
+  onOpenChange,
+  schedule,
+  users,
+  onSave,
+}) => {
+  const oncallClient = usePluginClient(OncallApi);
+  const toast = useToast();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rotationType, setRotationType] = useState<RotationType>("weekly");
+  const [rotationStart, setRotationStart] = useState<Date | undefined>(
+    new Date(),
+  );
+  const [participants, setParticipants] = useState<string[]>([]);
+  const [selectedUserId, setSelectedUserId] = useState("");
+
+  const createMutation = oncallClient.createSchedule.useMutation({
+    onSuccess: () => {
+      toast.success("Schedule created");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  const updateMutation = oncallClient.updateSchedule.useMutation({
+    onSuccess: () => {
+      toast.success("Schedule updated");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  // Reset form when schedule changes
+  useEffect(() => {
+    if (schedule) {
+      setName(schedule.name);
+      setDescription(schedule.description ?? "");
+      setRotationType(schedule.rotationType);
+      setRotationStart(new Date(schedule.rotationStart));
+      setParticipants(schedule.participants);
+    } else {
+      setName("");
+      setDescription("");
+      setRotationType("weekly");
+      setRotationStart(new Date());
+      setParticipants([]);
+    }
+    setSelectedUserId("");
+  }, [schedule, open]);
+
+  const handleAddParticipant = () => {
+    if (!selectedUserId) return;
+    setParticipants((prev) => [...prev, selectedUserId]);
+    setSelectedUserId("");
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    setParticipants((prev) => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [
+        next[index + direction],
+        next[index],
+      ];
+      return next;
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (!rotationStart) {
+      toast.error("Rotation start is required");
+      return;
+    }
+    if (participants.length === 0) {
+      toast.error("Add at least one participant");
+      return;
+    }
+
+    const input = {
+      name,
+      description: description || undefined,
+      rotationType,
+      rotationStart,
+      participants,
+    };
+    if (schedule) {
+      updateMutation.mutate({ id: schedule.id, ...input });
+    } else {
+      createMutation.mutate(input);
+    }
+  };
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader>
+          <DialogTitle>
+            {schedule ? "Edit Schedule" : "Create Schedule"}
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Configure who is on call and when the duty is handed over
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="schedule-name">Name</Label>
+            <Input
+              id="schedule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Platform primary"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="schedule-description">Description</Label>
+            <Textarea
+              id="schedule-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Rotation</Label>
+              <Select
+                value={rotationType}
+                onValueChange={(v) => setRotationType(v as RotationType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>First Handoff</Label>
+              <DateTimePicker
+                value={rotationStart}
+                onChange={setRotationStart}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Participants</Label>
+            <p className="text-xs text-muted-foreground">
+              The duty is handed to the next participant every{" "}
+              {rotationType === "daily" ? "day" : "week"} at the time of the
+              first handoff.
+            </p>
+            <div className="border rounded-md divide-y">
+              {participants.length === 0 ? (
+                <p className="p-3 text-sm text-muted-foreground">
+                  No participants yet
+                </p>
+              ) : (
+                participants.map((userId, index) => (
+                  <div
+                    key={`${userId}-${index}`}
+                    className="flex items-center gap-2 p-2"
+                  >
+                    <span className="w-6 text-sm text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <span className="flex-1 text-sm">
+                      {getUserName(users, userId)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === participants.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setParticipants((prev) =>
+                          prev.filter((_, i) => i !== index),
+                        )
+                      }
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <UserSelect
+                  users={users}
+                  value={selectedUserId}
+                  onChange={setSelectedUserId}
+                  excludeIds={participants}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleAddParticipant}
+                disabled={!selectedUserId}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? "Saving..." : schedule ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,30 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Siren } from "lucide-react";
+import type { UserMenuItemsContext } from "@checkstack/frontend-api";
+import { DropdownMenuItem } from "@checkstack/ui";
+import { resolveRoute } from "@checkstack/common";
+import {
+  oncallRoutes,
+  oncallAccess,
+  pluginMetadata,
+} from "@checkstack/oncall-common";
+
+export const OnCallUserMenuItems = ({
+  accessRules: userPerms,
+}: UserMenuItemsContext) => {
+  const qualifiedId = `${pluginMetadata.pluginId}.${oncallAccess.schedule.read.id}`;
+  const canRead = userPerms.includes("*") || userPerms.includes(qualifiedId);
+
+  if (!canRead) {
+    return <React.Fragment />;
+  }
+
+  return (
+    <Link to={resolveRoute(oncallRoutes.routes.home)}>
+      <DropdownMenuItem icon={<Siren className="h-4 w-4" />}>
+        On-Call
+      </DropdownMenuItem>
+    </Link>
+  );
+};
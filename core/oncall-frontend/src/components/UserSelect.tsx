@@ -0,0 +1,63 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@checkstack/ui";
+
+export interface UserOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Props {
+  users: UserOption[];
+  value: string;
+  onChange: (userId: string) => void;
+  /** Users that cannot be picked, e.g. because they are already selected */
+  excludeIds?: string[];
+  placeholder?: string;
+}
+
+/**
+ * Select for picking a single user.
+ */
+export const UserSelect: React.FC<Props> = ({
+  users,
+  value,
+  onChange,
+  excludeIds = [],
+  placeholder = "Select a user",
+}) => {
+  const available = users.filter((u) => !excludeIds.includes(u.id));
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {available.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">
+            No users available
+          </div>
+        ) : (
+          available.map((user) => (
+            <SelectItem key={user.id} value={user.id}>
+              {user.name} ({user.email})
+            </SelectItem>
+          ))
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+/**
+ * Display name of a user, falling back to the ID for unknown users.
+ */
+export const getUserName = (users: UserOption[], userId: string): string =>
+  users.find((u) => u.id === userId)?.name ?? userId;
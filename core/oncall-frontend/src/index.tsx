@@ -0,0 +1,44 @@
+import {
+  UserMenuItemsSlot,
+  createSlotExtension,
+  createFrontendPlugin,
+} from "@checkstack/frontend-api";
+import {
+  oncallRoutes,
+  oncallAccess,
+  pluginMetadata,
+} from "@checkstack/oncall-common";
+import { OnCallPage } from "./pages/OnCallPage";
+import { ScheduleDetailPage } from "./pages/ScheduleDetailPage";
+import { EscalationDetailPage } from "./pages/EscalationDetailPage";
+import { OnCallUserMenuItems } from "./components/UserMenuItems";
+
+export const oncallPlugin = createFrontendPlugin({
+  metadata: pluginMetadata,
+  routes: [
+    {
+      route: oncallRoutes.routes.home,
+      element: <OnCallPage />,
+      title: "On-Call",
+      accessRule: oncallAccess.schedule.read,
+    },
+    {
+      route: oncallRoutes.routes.scheduleDetail,
+      element: <ScheduleDetailPage />,
+      title: "On-Call Schedule",
+      accessRule: oncallAccess.schedule.read,
+    },
+    {
+      route: oncallRoutes.routes.escalationDetail,
+      element: <EscalationDetailPage />,
+      title: "Escalation",
+      accessRule: oncallAccess.escalation.read,
+    },
+  ],
+  extensions: [
+    createSlotExtension(UserMenuItemsSlot, {
+      id: "oncall.user-menu.items",
+      component: OnCallUserMenuItems,
+    }),
+  ],
+});
@@ -0,0 +1,219 @@
+import React from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  usePluginClient,
+  wrapInSuspense,
+  accessApiRef,
+  useApi,
+} from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import {
+  OncallApi,
+  oncallAccess,
+  oncallRoutes,
+} from "@checkstack/oncall-common";
+import { catalogRoutes } from "@checkstack/catalog-common";
+import {
+  Card,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  CardContent,
+  Button,
+  LoadingSpinner,
+  EmptyState,
+  PageLayout,
+  BackLink,
+  useToast,
+} from "@checkstack/ui";
+import { BellRing, CheckCircle2, History, Server } from "lucide-react";
+import { format } from "date-fns";
+import { getEscalationStatusBadge } from "../utils/badges";
+
+const EscalationDetailPageContent: React.FC = () => {
+  const { escalationId } = useParams<{ escalationId: string }>();
+  const navigate = useNavigate();
+  const oncallClient = usePluginClient(OncallApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const { allowed: canAcknowledge } = accessApi.useAccess(
+    oncallAccess.escalation.manage,
+  );
+
+  const {
+    data: escalation,
+    isLoading,
+    refetch,
+  } = oncallClient.getEscalation.useQuery(
+    { id: escalationId ?? "" },
+    { enabled: !!escalationId },
+  );
+
+  const acknowledgeMutation = oncallClient.acknowledgeEscalation.useMutation({
+    onSuccess: () => {
+      toast.success("Escalation acknowledged");
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to acknowledge",
+      );
+      void refetch();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-12 flex justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!escalation) {
+    return (
+      <EmptyState
+        title="Escalation not found"
+        description="The requested escalation could not be found."
+      />
+    );
+  }
+
+  return (
+    <PageLayout
+      title={escalation.title}
+      subtitle={escalation.policyName ?? "Escalation"}
+      icon={BellRing}
+      loading={false}
+      allowed={true}
+      actions={
+        <BackLink
+          onClick={() => navigate(resolveRoute(oncallRoutes.routes.home))}
+        >
+          Back to On-Call
+        </BackLink>
+      }
+    >
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="border-b border-border">
+            <CardHeaderRow>
+              <div className="flex items-center gap-2">
+                <BellRing className="h-5 w-5 text-muted-foreground" />
+                <CardTitle>Escalation Details</CardTitle>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {getEscalationStatusBadge(escalation.status)}
+                {canAcknowledge && escalation.status === "triggered" && (
+                  <Button
+                    size="sm"
+                    onClick={() =>
+                      acknowledgeMutation.mutate({ id: escalation.id })
+                    }
+                    disabled={acknowledgeMutation.isPending}
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            </CardHeaderRow>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <p className="text-foreground">{escalation.body}</p>
+
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <h4 className="font-medium text-muted-foreground mb-1">
+                  Triggered
+                </h4>
+                <span>{format(new Date(escalation.triggeredAt), "PPpp")}</span>
+              </div>
+              <div>
+                <h4 className="font-medium text-muted-foreground mb-1">
+                  Progress
+                </h4>
+                <span>
+                  Step {Math.max(escalation.lastNotifiedStep + 1, 0)} of{" "}
+                  {escalation.totalSteps} notified
+                </span>
+              </div>
+              {escalation.acknowledgedAt && (
+                <div>
+                  <h4 className="font-medium text-muted-foreground mb-1">
+                    Acknowledged
+                  </h4>
+                  <span>
+                    {format(new Date(escalation.acknowledgedAt), "PPpp")}
+                    {escalation.acknowledgedBy &&
+                      ` by ${escalation.acknowledgedByName ?? escalation.acknowledgedBy}`}
+                  </span>
+                </div>
+              )}
+              {escalation.resolvedAt && (
+                <div>
+                  <h4 className="font-medium text-muted-foreground mb-1">
+                    Resolved
+                  </h4>
+                  <span>{format(new Date(escalation.resolvedAt), "PPpp")}</span>
+                </div>
+              )}
+            </div>
+
+            <Link
+              to={resolveRoute(catalogRoutes.routes.systemDetail, {
+                systemId: escalation.systemId,
+              })}
+              className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <Server className="h-4 w-4" />
+              View System
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="border-b border-border">
+            <div className="flex items-center gap-2">
+              <History className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>Notifications</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            {escalation.notifications.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nobody has been notified yet.
+              </p>
+            ) : (
+              <ol className="space-y-3">
+                {escalation.notifications.map((notification) => (
+                  <li
+                    key={notification.stepIndex}
+                    className="flex items-start justify-between gap-4"
+                  >
+                    <div>
+                      <p className="font-medium">
+                        Step {notification.stepIndex + 1}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {notification.userNames.length > 0
+                          ? notification.userNames.join(", ")
+                          : "Nobody was on call"}
+                      </p>
+                    </div>
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      {format(new Date(notification.notifiedAt), "PPpp")}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </PageLayout>
+  );
+};
+
+export const EscalationDetailPage = wrapInSuspense(EscalationDetailPageContent);
@@ -0,0 +1,529 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  usePluginClient,
+  accessApiRef,
+  useApi,
+  wrapInSuspense,
+} from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import {
+  OncallApi,
+  oncallAccess,
+  oncallRoutes,
+  type EscalationPolicy,
+  type EscalationStatus,
+  type OnCallSchedule,
+} from "@checkstack/oncall-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { AuthApi, authAccess } from "@checkstack/auth-common";
+import {
+  Card,
+  CardContent,
+  Button,
+  LoadingSpinner,
+  EmptyState,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Tabs,
+  TabPanel,
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+  useToast,
+  ConfirmationModal,
+  PageLayout,
+} from "@checkstack/ui";
+import {
+  CalendarClock,
+  Edit2,
+  Plus,
+  Siren,
+  Trash2,
+  Workflow,
+  BellRing,
+} from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { ScheduleEditor } from "../components/ScheduleEditor";
+import { PolicyEditor } from "../components/PolicyEditor";
+import { getEscalationStatusBadge } from "../utils/badges";
+
+const OnCallPageContent: React.FC = () => {
+  const oncallClient = usePluginClient(OncallApi);
+  const catalogClient = usePluginClient(CatalogApi);
+  const authClient = usePluginClient(AuthApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const { allowed: canRead, loading: accessLoading } = accessApi.useAccess(
+    oncallAccess.schedule.read,
+  );
+  const { allowed: canManage } = accessApi.useAccess(
+    oncallAccess.schedule.manage,
+  );
+  const { allowed: canReadEscalations } = accessApi.useAccess(
+    oncallAccess.escalation.read,
+  );
+  const { allowed: canReadUsers } = accessApi.useAccess(authAccess.users.read);
+
+  const [activeTab, setActiveTab] = useState("schedules");
+  const [statusFilter, setStatusFilter] = useState<EscalationStatus | "all">(
+    "triggered",
+  );
+
+  // Editor state
+  const [scheduleEditorOpen, setScheduleEditorOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<
+    OnCallSchedule | undefined
+  >();
+  const [policyEditorOpen, setPolicyEditorOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<
+    EscalationPolicy | undefined
+  >();
+
+  // Delete confirmation state
+  const [deleteScheduleId, setDeleteScheduleId] = useState<
+    string | undefined
+  >();
+  const [deletePolicyId, setDeletePolicyId] = useState<string | undefined>();
+
+  const {
+    data: schedules = [],
+    isLoading: schedulesLoading,
+    refetch: refetchSchedules,
+  } = oncallClient.listSchedules.useQuery();
+
+  const {
+    data: policies = [],
+    isLoading: policiesLoading,
+    refetch: refetchPolicies,
+  } = oncallClient.listPolicies.useQuery();
+
+  const { data: escalations = [], isLoading: escalationsLoading } =
+    oncallClient.listEscalations.useQuery(
+      statusFilter === "all" ? {} : { status: statusFilter },
+      { enabled: canReadEscalations },
+    );
+
+  const { data: systemsData } = catalogClient.getSystems.useQuery({});
+  const { data: groups = [] } = catalogClient.getGroups.useQuery({});
+  const { data: users = [] } = authClient.getUsers.useQuery(
+    {},
+    { enabled: canReadUsers && canManage },
+  );
+
+  const systems = systemsData?.systems ?? [];
+
+  const deleteScheduleMutation = oncallClient.deleteSchedule.useMutation({
+    onSuccess: () => {
+      toast.success("Schedule deleted");
+      void refetchSchedules();
+      setDeleteScheduleId(undefined);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+      setDeleteScheduleId(undefined);
+    },
+  });
+
+  const deletePolicyMutation = oncallClient.deletePolicy.useMutation({
+    onSuccess: () => {
+      toast.success("Escalation policy deleted");
+      void refetchPolicies();
+      setDeletePolicyId(undefined);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+    },
+  });
+
+  const getSystemName = (systemId: string): string =>
+    systems.find((s) => s.id === systemId)?.name ?? systemId;
+
+  const getCoverage = (policy: EscalationPolicy): string => {
+    const names = [
+      ...policy.groupIds.map(
+        (id) => groups.find((g) => g.id === id)?.name ?? id,
+      ),
+      ...policy.systemIds.map((id) => getSystemName(id)),
+    ];
+    if (names.length === 0) return "Nothing covered";
+    return names.length > 3
+      ? `${names.slice(0, 3).join(", ")} +${names.length - 3} more`
+      : names.join(", ");
+  };
+
+  const handleScheduleSave = () => {
+    setScheduleEditorOpen(false);
+    void refetchSchedules();
+  };
+
+  const handlePolicySave = () => {
+    setPolicyEditorOpen(false);
+    void refetchPolicies();
+  };
+
+  const tabs = [
+    {
+      id: "schedules",
+      label: "Schedules",
+      icon: <CalendarClock className="h-4 w-4" />,
+    },
+    {
+      id: "policies",
+      label: "Escalation Policies",
+      icon: <Workflow className="h-4 w-4" />,
+    },
+    ...(canReadEscalations
+      ? [
+          {
+            id: "escalations",
+            label: "Escalations",
+            icon: <BellRing className="h-4 w-4" />,
+          },
+        ]
+      : []),
+  ];
+
+  const actions = canManage ? (
+    activeTab === "schedules" ? (
+      <Button
+        onClick={() => {
+          setEditingSchedule(undefined);
+          setScheduleEditorOpen(true);
+        }}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Create Schedule
+      </Button>
+    ) : activeTab === "policies" ? (
+      <Button
+        onClick={() => {
+          setEditingPolicy(undefined);
+          setPolicyEditorOpen(true);
+        }}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Create Policy
+      </Button>
+    ) : undefined
+  ) : undefined;
+
+  return (
+    <PageLayout
+      title="On-Call"
+      subtitle="Rotations and escalation policies for health state changes"
+      icon={Siren}
+      loading={accessLoading}
+      allowed={canRead}
+      actions={actions}
+    >
+      <Tabs items={tabs} activeTab={activeTab} onTabChange={setActiveTab} />
+
+      <TabPanel id="schedules" activeTab={activeTab} className="mt-4">
+        <Card>
+          <CardContent className="p-0">
+            {schedulesLoading ? (
+              <div className="p-12 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : schedules.length === 0 ? (
+              <EmptyState
+                title="No schedules"
+                description="Create a schedule to define who is on call."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Rotation</TableHead>
+                    <TableHead>On Call Now</TableHead>
+                    <TableHead>Until</TableHead>
+                    {canManage && (
+                      <TableHead className="w-28">Actions</TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => (
+                    <TableRow key={schedule.id}>
+                      <TableCell>
+                        <Link
+                          to={resolveRoute(oncallRoutes.routes.scheduleDetail, {
+                            scheduleId: schedule.id,
+                          })}
+                          className="font-medium hover:underline"
+                        >
+                          {schedule.name}
+                        </Link>
+                        {schedule.description && (
+                          <p className="text-sm text-muted-foreground truncate max-w-xs">
+                            {schedule.description}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {schedule.rotationType === "daily" ? "Daily" : "Weekly"}
+                        , {schedule.participants.length} participant(s)
+                      </TableCell>
+                      <TableCell>
+                        {schedule.currentShift
+                          ? (schedule.currentShift.userName ??
+                            schedule.currentShift.userId)
+                          : "—"}
+                        {schedule.currentShift?.isOverride && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            (override)
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {schedule.currentShift
+                          ? format(
+                              new Date(schedule.currentShift.endAt),
+                              "MMM d, HH:mm",
+                            )
+                          : "—"}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingSchedule(schedule);
+                                setScheduleEditorOpen(true);
+                              }}
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeleteScheduleId(schedule.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </TabPanel>
+
+      <TabPanel id="policies" activeTab={activeTab} className="mt-4">
+        <Card>
+          <CardContent className="p-0">
+            {policiesLoading ? (
+              <div className="p-12 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : policies.length === 0 ? (
+              <EmptyState
+                title="No escalation policies"
+                description="Create a policy to page on-call responders when systems become unhealthy."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Steps</TableHead>
+                    <TableHead>Covers</TableHead>
+                    {canManage && (
+                      <TableHead className="w-28">Actions</TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.map((policy) => (
+                    <TableRow key={policy.id}>
+                      <TableCell>
+                        <p className="font-medium">{policy.name}</p>
+                        {policy.description && (
+                          <p className="text-sm text-muted-foreground truncate max-w-xs">
+                            {policy.description}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {policy.steps
+                          .map((step) =>
+                            step.afterMinutes === 0
+                              ? "immediately"
+                              : `${step.afterMinutes} min`,
+                          )
+                          .join(" → ")}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {getCoverage(policy)}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingPolicy(policy);
+                                setPolicyEditorOpen(true);
+                              }}
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeletePolicyId(policy.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </TabPanel>
+
+      <TabPanel id="escalations" activeTab={activeTab} className="mt-4">
+        <div className="flex justify-end mb-4">
+          <Select
+            value={statusFilter}
+            onValueChange={(v) =>
+              setStatusFilter(v as EscalationStatus | "all")
+            }
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="triggered">Triggered</SelectItem>
+              <SelectItem value="acknowledged">Acknowledged</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Card>
+          <CardContent className="p-0">
+            {escalationsLoading ? (
+              <div className="p-12 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : escalations.length === 0 ? (
+              <EmptyState
+                title="No escalations"
+                description="Escalations appear here when a covered system changes state."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Policy</TableHead>
+                    <TableHead>Triggered</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {escalations.map((escalation) => (
+                    <TableRow key={escalation.id}>
+                      <TableCell>
+                        <Link
+                          to={resolveRoute(
+                            oncallRoutes.routes.escalationDetail,
+                            { escalationId: escalation.id },
+                          )}
+                          className="font-medium hover:underline"
+                        >
+                          {escalation.title}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {getEscalationStatusBadge(escalation.status)}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {escalation.policyName ?? escalation.policyId}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(escalation.triggeredAt), {
+                          addSuffix: true,
+                        })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </TabPanel>
+
+      <ScheduleEditor
+        open={scheduleEditorOpen}
+        onOpenChange={setScheduleEditorOpen}
+        schedule={editingSchedule}
+        users={users}
+        onSave={handleScheduleSave}
+      />
+
+      <PolicyEditor
+        open={policyEditorOpen}
+        onOpenChange={setPolicyEditorOpen}
+        policy={editingPolicy}
+        schedules={schedules}
+        users={users}
+        systems={systems}
+        groups={groups}
+        onSave={handlePolicySave}
+      />
+
+      <ConfirmationModal
+        isOpen={!!deleteScheduleId}
+        onClose={() => setDeleteScheduleId(undefined)}
+        title="Delete Schedule"
+        message="Are you sure you want to delete this schedule and its overrides?"
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={() =>
+          deleteScheduleId &&
+          deleteScheduleMutation.mutate({ id: deleteScheduleId })
+        }
+        isLoading={deleteScheduleMutation.isPending}
+      />
+
+      <ConfirmationModal
+        isOpen={!!deletePolicyId}
+        onClose={() => setDeletePolicyId(undefined)}
+        title="Delete Escalation Policy"
+        message="Are you sure you want to delete this escalation policy? Its escalation history is deleted as well."
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={() =>
+          deletePolicyId && deletePolicyMutation.mutate({ id: deletePolicyId })
+        }
+        isLoading={deletePolicyMutation.isPending}
+      />
+    </PageLayout>
+  );
+};
+
+export const OnCallPage = wrapInSuspense(OnCallPageContent);
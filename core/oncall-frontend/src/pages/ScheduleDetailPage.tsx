@@ -0,0 +1,361 @@
+import React, { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  usePluginClient,
+  wrapInSuspense,
+  accessApiRef,
+  useApi,
+} from "@checkstack/frontend-api";
+import { resolveRoute } from "@checkstack/common";
+import {
+  OncallApi,
+  oncallAccess,
+  oncallRoutes,
+} from "@checkstack/oncall-common";
+import { AuthApi, authAccess } from "@checkstack/auth-common";
+import {
+  Card,
+  CardHeader,
+  CardHeaderRow,
+  CardTitle,
+  CardContent,
+  Badge,
+  Button,
+  Label,
+  DateTimePicker,
+  LoadingSpinner,
+  EmptyState,
+  PageLayout,
+  BackLink,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  useToast,
+} from "@checkstack/ui";
+import {
+  CalendarClock,
+  Edit2,
+  Plus,
+  Repeat,
+  Trash2,
+  UserCheck,
+} from "lucide-react";
+import { format } from "date-fns";
+import { ScheduleEditor } from "../components/ScheduleEditor";
+import { UserSelect } from "../components/UserSelect";
+
+const formatShiftTime = (date: Date) =>
+  format(new Date(date), "EEE, MMM d HH:mm");
+
+const ScheduleDetailPageContent: React.FC = () => {
+  const { scheduleId } = useParams<{ scheduleId: string }>();
+  const navigate = useNavigate();
+  const oncallClient = usePluginClient(OncallApi);
+  const authClient = usePluginClient(AuthApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const { allowed: canManage } = accessApi.useAccess(
+    oncallAccess.schedule.manage,
+  );
+  const { allowed: canReadUsers } = accessApi.useAccess(authAccess.users.read);
+
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  // Override form state
+  const [showOverrideForm, setShowOverrideForm] = useState(false);
+  const [overrideUserId, setOverrideUserId] = useState("");
+  const [overrideStart, setOverrideStart] = useState<Date | undefined>(
+    new Date(),
+  );
+  const [overrideEnd, setOverrideEnd] = useState<Date | undefined>(
+    new Date(Date.now() + 24 * 60 * 60 * 1000),
+  );
+
+  const {
+    data: schedule,
+    isLoading,
+    refetch,
+  } = oncallClient.getSchedule.useQuery(
+    { id: scheduleId ?? "" },
+    { enabled: !!scheduleId },
+  );
+
+  const { data: users = [] } = authClient.getUsers.useQuery(
+    {},
+    { enabled: canReadUsers && canManage },
+  );
+
+  const addOverrideMutation = oncallClient.addOverride.useMutation({
+    onSuccess: () => {
+      toast.success("Override added");
+      setShowOverrideForm(false);
+      setOverrideUserId("");
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add override",
+      );
+    },
+  });
+
+  const removeOverrideMutation = oncallClient.removeOverride.useMutation({
+    onSuccess: () => {
+      toast.success("Override removed");
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to remove override",
+      );
+    },
+  });
+
+  const handleAddOverride = () => {
+    if (!scheduleId || !overrideUserId) {
+      toast.error("Please select a user");
+      return;
+    }
+    if (!overrideStart || !overrideEnd || overrideEnd <= overrideStart) {
+      toast.error("End must be after start");
+      return;
+    }
+    addOverrideMutation.mutate({
+      scheduleId,
+      userId: overrideUserId,
+      startAt: overrideStart,
+      endAt: overrideEnd,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-12 flex justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!schedule) {
+    return (
+      <EmptyState
+        title="Schedule not found"
+        description="The requested schedule could not be found."
+      />
+    );
+  }
+
+  return (
+    <PageLayout
+      title={schedule.name}
+      subtitle={schedule.description ?? "On-call schedule"}
+      icon={CalendarClock}
+      loading={false}
+      allowed={true}
+      actions={
+        <div className="flex gap-2">
+          <BackLink
+            onClick={() => navigate(resolveRoute(oncallRoutes.routes.home))}
+          >
+            Back to On-Call
+          </BackLink>
+          {canManage && (
+            <Button variant="outline" onClick={() => setEditorOpen(true)}>
+              <Edit2 className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="border-b border-border">
+            <div className="flex items-center gap-2">
+              <UserCheck className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>On Call Now</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6">
+            {schedule.currentShift ? (
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-lg font-medium">
+                  {schedule.currentShift.userName ??
+                    schedule.currentShift.userId}
+                </span>
+                {schedule.currentShift.isOverride && (
+                  <Badge variant="info">Override</Badge>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  until {formatShiftTime(schedule.currentShift.endAt)}
+                </span>
+              </div>
+            ) : (
+              <p className="text-muted-foreground">Nobody is on call.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="border-b border-border">
+            <div className="flex items-center gap-2">
+              <Repeat className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>Upcoming Shifts</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Until</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.upcomingShifts.map((shift) => (
+                  <TableRow key={new Date(shift.startAt).toISOString()}>
+                    <TableCell>
+                      {shift.userName ?? shift.userId}
+                      {shift.isOverride && (
+                        <Badge variant="info" className="ml-2">
+                          Override
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatShiftTime(shift.startAt)}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatShiftTime(shift.endAt)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="border-b border-border">
+            <CardHeaderRow>
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5 text-muted-foreground" />
+                <CardTitle>Overrides</CardTitle>
+              </div>
+              {canManage && !showOverrideForm && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowOverrideForm(true)}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Override
+                </Button>
+              )}
+            </CardHeaderRow>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            {showOverrideForm && (
+              <div className="border rounded-md p-4 space-y-4">
+                <div className="grid gap-2">
+                  <Label>Covered By</Label>
+                  <UserSelect
+                    users={users}
+                    value={overrideUserId}
+                    onChange={setOverrideUserId}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label>From</Label>
+                    <DateTimePicker
+                      value={overrideStart}
+                      onChange={setOverrideStart}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Until</Label>
+                    <DateTimePicker
+                      value={overrideEnd}
+                      onChange={setOverrideEnd}
+                      minDate={overrideStart}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowOverrideForm(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleAddOverride}
+                    disabled={addOverrideMutation.isPending}
+                  >
+                    Add Override
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {schedule.overrides.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No current or upcoming overrides.
+              </p>
+            ) : (
+              <div className="divide-y border rounded-md">
+                {schedule.overrides.map((override) => (
+                  <div
+                    key={override.id}
+                    className="flex items-center justify-between p-3"
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {override.userName ?? override.userId}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatShiftTime(override.startAt)} –{" "}
+                        {formatShiftTime(override.endAt)}
+                      </p>
+                    </div>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          removeOverrideMutation.mutate({ id: override.id })
+                        }
+                        disabled={removeOverrideMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ScheduleEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        schedule={schedule}
+        users={users}
+        onSave={() => {
+          setEditorOpen(false);
+          void refetch();
+        }}
+      />
+    </PageLayout>
+  );
+};
+
+export const ScheduleDetailPage = wrapInSuspense(ScheduleDetailPageContent);
@@ -0,0 +1,25 @@
+import React from "react";
+import { Badge } from "@checkstack/ui";
+import type { EscalationStatus } from "@checkstack/oncall-common";
+
+/**
+ * Returns a styled badge for the given escalation status.
+ */
+export function getEscalationStatusBadge(
+  status: EscalationStatus,
+): React.ReactNode {
+  switch (status) {
+    case "triggered": {
+      return <Badge variant="destructive">Triggered</Badge>;
+    }
+    case "acknowledged": {
+      return <Badge variant="warning">Acknowledged</Badge>;
+    }
+    case "resolved": {
+      return <Badge variant="success">Resolved</Badge>;
+    }
+    default: {
+      return <Badge>{status}</Badge>;
+    }
+  }
+}
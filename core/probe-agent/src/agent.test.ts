@@ -0,0 +1,109 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { ProbeAgentJob } from "@checkstack/healthcheck-common";
+import { ProbeAgent } from "./agent";
+import type { PluginHost } from "./plugin-host";
+
+const createLogger = () => ({
+  info: mock(),
+  error: mock(),
+  warn: mock(),
+  debug: mock(),
+});
+
+const job = (overrides: Partial<ProbeAgentJob> = {}): ProbeAgentJob => ({
+  jobId: "job-1",
+  configurationId: "config-1",
+  systemId: "system-1",
+  strategyId: "mock.strategy",
+  config: { timeout: 1000 },
+  collectors: [],
+  ...overrides,
+});
+
+const createHost = () =>
+  ({
+    getStrategy: mock((id: string) =>
+      id === "mock.strategy"
+        ? {
+            createClient: mock(async () => ({
+              client: { exec: mock(async () => ({})) },
+              close: mock(() => {}),
+            })),
+          }
+        : undefined,
+    ),
+    getCollector: mock(() => undefined),
+  }) as unknown as PluginHost;
+
+describe("ProbeAgent", () => {
+  it("should execute claimed jobs and submit their results", async () => {
+    const client = {
+      claimAgentJobs: mock(async () => [job()]),
+      submitAgentResult: mock(async () => ({ success: true })),
+    };
+    const agent = new ProbeAgent({
+      client: client as never,
+      host: createHost(),
+      region: "eu-west",
+      batchSize: 5,
+      logger: createLogger(),
+    });
+
+    expect(await agent.runOnce()).toBe(1);
+    expect(client.claimAgentJobs).toHaveBeenCalledWith({
+      region: "eu-west",
+      limit: 5,
+    });
+    const [submission] = client.submitAgentResult.mock.calls[0] as unknown as [
+      { jobId: string; result: { status: string } },
+    ];
+    expect(submission.jobId).toBe("job-1");
+    expect(submission.result.status).toBe("healthy");
+  });
+
+  it("should report unknown strategies as unhealthy", async () => {
+    const client = {
+      claimAgentJobs: mock(async () => [
+        job({ strategyId: "missing.strategy" }),
+      ]),
+      submitAgentResult: mock(async () => ({ success: true })),
+    };
+    const agent = new ProbeAgent({
+      client: client as never,
+      host: createHost(),
+      region: "eu-west",
+      batchSize: 5,
+      logger: createLogger(),
+    });
+
+    await agent.runOnce();
+
+    expect(client.submitAgentResult).toHaveBeenCalledWith({
+      jobId: "job-1",
+      result: {
+        status: "unhealthy",
+        message: "Strategy missing.strategy is not available on this agent",
+        metadata: {
+          error: "Strategy missing.strategy is not available on this agent",
+        },
+      },
+    });
+  });
+
+  it("should return 0 when no jobs are pending", async () => {
+    const client = {
+      claimAgentJobs: mock(async () => []),
+      submitAgentResult: mock(async () => ({ success: true })),
+    };
+    const agent = new ProbeAgent({
+      client: client as never,
+      host: createHost(),
+      region: "eu-west",
+      batchSize: 5,
+      logger: createLogger(),
+    });
+
+    expect(await agent.runOnce()).toBe(0);
+    expect(client.submitAgentResult).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import { runHealthCheck, type Logger } from "@checkstack/backend-api";
+import type { InferClient } from "@checkstack/common";
+import {
+  HealthCheckApi,
+  type ProbeAgentJob,
+  type StoredHealthCheckResult,
+} from "@checkstack/healthcheck-common";
+import type { PluginHost } from "./plugin-host";
+
+type HealthCheckClient = InferClient<typeof HealthCheckApi>;
+
+/**
+ * Polls the backend for jobs of one region, executes them with the locally
+ * loaded strategies and submits the results.
+ */
+export class ProbeAgent {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running = false;
+
+  constructor(
+    private props: {
+      client: Pick<HealthCheckClient, "claimAgentJobs" | "submitAgentResult">;
+      host: PluginHost;
+      region: string;
+      batchSize: number;
+      logger: Logger;
+    },
+  ) {}
+
+  /**
+   * Claim and execute one batch of jobs.
+   * @returns Number of jobs executed
+   */
+  async runOnce(): Promise<number> {
+    const { client, region, batchSize, logger } = this.props;
+
+    const jobs = await client.claimAgentJobs({ region, limit: batchSize });
+    if (jobs.length === 0) return 0;
+
+    logger.debug(`Claimed ${jobs.length} jobs for region ${region}`);
+
+    // Jobs run in parallel, a failed submission must not block the others
+    await Promise.all(
+      jobs.map(async (job) => {
+        const result = await this.execute(job);
+        try {
+          await client.submitAgentResult({ jobId: job.jobId, result });
+        } catch (error) {
+          logger.warn(`Failed to submit result for job ${job.jobId}`, error);
+        }
+      }),
+    );
+
+    return jobs.length;
+  }
+
+  /**
+   * Poll until stopped. Polls again immediately while jobs are pending.
+   */
+  start(pollIntervalMs: number): void {
+    this.running = true;
+
+    const poll = async () => {
+      let executed = 0;
+      try {
+        executed = await this.runOnce();
+      } catch (error) {
+        this.props.logger.error("Failed to poll for jobs", error);
+      }
+      if (this.running) {
+        this.timer = setTimeout(poll, executed > 0 ? 0 : pollIntervalMs);
+      }
+    };
+
+    void poll();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  private async execute(job: ProbeAgentJob): Promise<StoredHealthCheckResult> {
+    const { host, logger } = this.props;
+
+    const strategy = host.getStrategy(job.strategyId);
+    if (!strategy) {
+      const message = `Strategy ${job.strategyId} is not available on this agent`;
+      logger.warn(message);
+      return { status: "unhealthy", message, metadata: { error: message } };
+    }
+
+    try {
+      return await runHealthCheck({
+        strategy,
+        strategyId: job.strategyId,
+        config: job.config,
+        collectors: job.collectors,
+        collectorRegistry: host,
+        logger,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: "unhealthy", message, metadata: { error: message } };
+    }
+  }
+}
@@ -0,0 +1,50 @@
+#!/usr/bin/env bun
+import { createORPCClient } from "@orpc/client";
+import { RPCLink } from "@orpc/client/fetch";
+import type { InferClient } from "@checkstack/common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
+import { loadAgentConfig } from "./config";
+import { createConsoleLogger } from "./logger";
+import { PluginHost, loadPlugins } from "./plugin-host";
+import { ProbeAgent } from "./agent";
+
+const logger = createConsoleLogger(process.env.CHECKSTACK_DEBUG === "true");
+
+try {
+  const config = loadAgentConfig(process.env);
+
+  const host = new PluginHost(logger);
+  await loadPlugins({ host, packageNames: config.plugins });
+  logger.info(`Loaded strategies: ${host.getStrategyIds().join(", ")}`);
+
+  const link = new RPCLink({
+    url: `${config.url}/api`,
+    headers: { Authorization: `Bearer ${config.apiKey}` },
+  });
+  const client = (createORPCClient(link) as Record<string, unknown>)[
+    HealthCheckApi.pluginId
+  ] as InferClient<typeof HealthCheckApi>;
+
+  const agent = new ProbeAgent({
+    client,
+    host,
+    region: config.region,
+    batchSize: config.batchSize,
+    logger,
+  });
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      logger.info(`Received ${signal}, stopping probe agent`);
+      agent.stop();
+    });
+  }
+
+  agent.start(config.pollIntervalMs);
+  logger.info(
+    `Probe agent polling ${config.url} for region ${config.region} every ${config.pollIntervalMs}ms`,
+  );
+} catch (error) {
+  logger.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
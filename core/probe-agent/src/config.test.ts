@@ -0,0 +1,42 @@
+import { describe, expect, it } from "bun:test";
+import { DEFAULT_AGENT_PLUGINS, loadAgentConfig } from "./config";
+
+const env = {
+  CHECKSTACK_URL: "https://status.example.com/",
+  CHECKSTACK_API_KEY: "ck_app_secret",
+  CHECKSTACK_REGION: "eu-west",
+};
+
+describe("loadAgentConfig", () => {
+  it("should apply defaults", () => {
+    const config = loadAgentConfig(env);
+
+    expect(config.url).toBe("https://status.example.com");
+    expect(config.region).toBe("eu-west");
+    expect(config.plugins).toEqual(DEFAULT_AGENT_PLUGINS);
+    expect(config.pollIntervalMs).toBe(5000);
+    expect(config.batchSize).toBe(10);
+  });
+
+  it("should parse the plugin list", () => {
+    const config = loadAgentConfig({
+      ...env,
+      CHECKSTACK_AGENT_PLUGINS:
+        "@acme/checks-backend, @checkstack/healthcheck-http-backend",
+    });
+
+    expect(config.plugins).toEqual([
+      "@acme/checks-backend",
+      "@checkstack/healthcheck-http-backend",
+    ]);
+  });
+
+  it("should reject invalid configuration", () => {
+    expect(() =>
+      loadAgentConfig({ ...env, CHECKSTACK_REGION: "EU West" }),
+    ).toThrow("Invalid probe agent configuration: region");
+    expect(() =>
+      loadAgentConfig({ ...env, CHECKSTACK_API_KEY: "abc" }),
+    ).toThrow("Expected an application API key");
+  });
+});
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { RegionSchema } from "@checkstack/healthcheck-common";
+
+/** Strategy plugins loaded when CHECKSTACK_AGENT_PLUGINS is not set */
+export const DEFAULT_AGENT_PLUGINS = [
+  "@checkstack/healthcheck-http-backend",
+  "@checkstack/healthcheck-tcp-backend",
+  "@checkstack/healthcheck-dns-backend",
+  "@checkstack/healthcheck-ping-backend",
+  "@checkstack/healthcheck-tls-backend",
+];
+
+const agentConfigSchema = z.object({
+  /** Base URL of the Checkstack backend, e.g. https://status.example.com */
+  url: z.url().transform((url) => url.replace(/\/+$/, "")),
+  /** Application API key (ck_<applicationId>_<secret>) */
+  apiKey: z.string().startsWith("ck_", "Expected an application API key"),
+  /** Region this agent executes checks for */
+  region: RegionSchema,
+  /** Plugin packages providing strategies and collectors */
+  plugins: z.array(z.string().min(1)).min(1),
+  /** Delay between polls when no jobs are pending */
+  pollIntervalMs: z.number().int().min(1000),
+  /** Maximum number of jobs claimed per poll */
+  batchSize: z.number().int().min(1).max(100),
+});
+
+export type AgentConfig = z.infer<typeof agentConfigSchema>;
+
+/**
+ * Read the agent configuration from environment variables.
+ */
+export function loadAgentConfig(
+  env: Record<string, string | undefined>,
+): AgentConfig {
+  const plugins = env.CHECKSTACK_AGENT_PLUGINS?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const result = agentConfigSchema.safeParse({
+    url: env.CHECKSTACK_URL,
+    apiKey: env.CHECKSTACK_API_KEY,
+    region: env.CHECKSTACK_REGION,
+    plugins: plugins?.length ? plugins : DEFAULT_AGENT_PLUGINS,
+    pollIntervalMs: Number(env.CHECKSTACK_POLL_INTERVAL_MS ?? 5000),
+    batchSize: Number(env.CHECKSTACK_BATCH_SIZE ?? 10),
+  });
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid probe agent configuration: ${issues}`);
+  }
+  return result.data;
+}
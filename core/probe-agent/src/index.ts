@@ -0,0 +1,4 @@
+export * from "./agent";
+export * from "./config";
+export * from "./logger";
+export * from "./plugin-host";
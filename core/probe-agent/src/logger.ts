@@ -0,0 +1,20 @@
+import type { Logger } from "@checkstack/backend-api";
+
+const timestamp = () => new Date().toISOString();
+
+/**
+ * Console logger for the agent. Debug output is enabled via CHECKSTACK_DEBUG.
+ */
+export function createConsoleLogger(debug: boolean): Logger {
+  return {
+    info: (message, ...args) =>
+      console.info(`${timestamp()} info: ${message}`, ...args),
+    warn: (message, ...args) =>
+      console.warn(`${timestamp()} warn: ${message}`, ...args),
+    error: (message, ...args) =>
+      console.error(`${timestamp()} error: ${message}`, ...args),
+    debug: (message, ...args) => {
+      if (debug) console.debug(`${timestamp()} debug: ${message}`, ...args);
+    },
+  };
+}
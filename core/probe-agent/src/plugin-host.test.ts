@@ -0,0 +1,40 @@
+import { describe, expect, it, mock } from "bun:test";
+import { createBackendPlugin, coreServices } from "@checkstack/backend-api";
+import httpPlugin from "@checkstack/healthcheck-http-backend";
+import { PluginHost } from "./plugin-host";
+
+const createLogger = () => ({
+  info: mock(),
+  error: mock(),
+  warn: mock(),
+  debug: mock(),
+});
+
+describe("PluginHost", () => {
+  it("should register strategies and collectors with qualified IDs", async () => {
+    const host = new PluginHost(createLogger());
+
+    await host.load(httpPlugin);
+
+    expect(host.getStrategyIds()).toEqual(["healthcheck-http.http"]);
+    expect(host.getStrategy("healthcheck-http.http")).toBeDefined();
+    expect(host.getCollector("healthcheck-http.scenario")).toBeDefined();
+  });
+
+  it("should reject plugins that need backend services", async () => {
+    const host = new PluginHost(createLogger());
+    const plugin = createBackendPlugin({
+      metadata: { pluginId: "needs-rpc" },
+      register(env) {
+        env.registerInit({
+          deps: { rpc: coreServices.rpc },
+          init: async () => {},
+        });
+      },
+    });
+
+    await expect(host.load(plugin)).rejects.toThrow(
+      "Plugin needs-rpc requires service core.rpc, which is not available in the probe agent",
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import type { PluginMetadata } from "@checkstack/common";
+import {
+  coreServices,
+  type BackendPlugin,
+  type CollectorRegistry,
+  type CollectorStrategy,
+  type HealthCheckRegistry,
+  type HealthCheckStrategy,
+  type Logger,
+  type RegisteredCollector,
+  type TransportClient,
+} from "@checkstack/backend-api";
+
+/** Init registration of a plugin, with deps resolved by service ID */
+interface PluginInit {
+  deps: Record<string, { id: string }>;
+  schema?: Record<string, unknown>;
+  init: (deps: never) => Promise<void>;
+}
+
+interface RegisteredStrategy {
+  strategy: HealthCheckStrategy;
+  ownerPluginId: string;
+  qualifiedId: string;
+}
+
+/**
+ * Minimal plugin runtime for the probe agent.
+ *
+ * Loads health check strategy and collector plugins and provides the only
+ * core services they need: the strategy registry, the collector registry and
+ * a logger. IDs are qualified as `pluginId.id`, exactly like on the backend,
+ * so job configurations resolve to the same strategies and collectors.
+ */
+export class PluginHost {
+  private strategies = new Map<string, RegisteredStrategy>();
+  private collectors = new Map<string, RegisteredCollector>();
+
+  constructor(private logger: Logger) {}
+
+  /**
+   * Register a plugin and run its init phase.
+   * Throws if the plugin depends on services the agent does not provide.
+   */
+  async load(plugin: BackendPlugin): Promise<void> {
+    const { metadata } = plugin;
+    const inits: PluginInit[] = [];
+
+    plugin.register({
+      registerInit: (args) => {
+        inits.push(args as unknown as PluginInit);
+      },
+      registerAccessRules: () => {},
+      registerCleanup: () => {},
+      registerService: () => unsupported(metadata, "registerService"),
+      registerExtensionPoint: () =>
+        unsupported(metadata, "registerExtensionPoint"),
+      getExtensionPoint: () => unsupported(metadata, "getExtensionPoint"),
+      registerRouter: () => unsupported(metadata, "registerRouter"),
+      pluginManager: { getAllAccessRules: () => [] },
+    });
+
+    for (const init of inits) {
+      if (init.schema) {
+        unsupported(metadata, "database access");
+      }
+      const deps: Record<string, unknown> = {};
+      for (const [key, ref] of Object.entries(init.deps)) {
+        deps[key] = this.resolveService(ref.id, metadata);
+      }
+      await init.init(deps as never);
+    }
+
+    this.logger.debug(`✅ Loaded plugin ${metadata.pluginId}`);
+  }
+
+  getStrategy(qualifiedId: string): HealthCheckStrategy | undefined {
+    return this.strategies.get(qualifiedId)?.strategy;
+  }
+
+  getCollector(qualifiedId: string): RegisteredCollector | undefined {
+    return this.collectors.get(qualifiedId);
+  }
+
+  /** Qualified IDs of all loaded strategies */
+  getStrategyIds(): string[] {
+    return [...this.strategies.keys()];
+  }
+
+  private resolveService(serviceId: string, owner: PluginMetadata): unknown {
+    switch (serviceId) {
+      case coreServices.logger.id: {
+        return this.logger;
+      }
+      case coreServices.healthCheckRegistry.id: {
+        return this.createHealthCheckRegistry(owner);
+      }
+      case coreServices.collectorRegistry.id: {
+        return this.createCollectorRegistry(owner);
+      }
+      default: {
+        return unsupported(owner, `service ${serviceId}`);
+      }
+    }
+  }
+
+  private createHealthCheckRegistry(
+    owner: PluginMetadata,
+  ): HealthCheckRegistry {
+    return {
+      register: (strategy) => {
+        const qualifiedId = `${owner.pluginId}.${strategy.id}`;
+        this.strategies.set(qualifiedId, {
+          strategy: strategy as HealthCheckStrategy,
+          ownerPluginId: owner.pluginId,
+          qualifiedId,
+        });
+      },
+      getStrategy: (id) =>
+        this.getStrategy(id) ?? this.getStrategy(`${owner.pluginId}.${id}`),
+      getStrategies: () => [...this.strategies.values()].map((r) => r.strategy),
+      getStrategiesWithMeta: () => [...this.strategies.values()],
+    };
+  }
+
+  private createCollectorRegistry(owner: PluginMetadata): CollectorRegistry {
+    return {
+      register: (
+        collector: CollectorStrategy<TransportClient<unknown, unknown>>,
+      ) => {
+        const qualifiedId = `${owner.pluginId}.${collector.id}`;
+        this.collectors.set(qualifiedId, {
+          qualifiedId,
+          collector,
+          ownerPlugin: owner,
+        });
+      },
+      getCollector: (id) => this.getCollector(id),
+      getCollectorsForPlugin: (pluginMetadata) =>
+        [...this.collectors.values()].filter((entry) =>
+          entry.collector.supportedPlugins.some(
+            (p) => p.pluginId === pluginMetadata.pluginId,
+          ),
+        ),
+      getCollectors: () => [...this.collectors.values()],
+    };
+  }
+}
+
+function unsupported(owner: PluginMetadata, feature: string): never {
+  throw new Error(
+    `Plugin ${owner.pluginId} requires ${feature}, which is not available in the probe agent`,
+  );
+}
+
+/**
+ * Import plugin packages by name and load their default export.
+ */
+export async function loadPlugins(props: {
+  host: PluginHost;
+  packageNames: string[];
+}): Promise<void> {
+  for (const packageName of props.packageNames) {
+    const module = (await import(packageName)) as { default?: BackendPlugin };
+    if (!module.default?.register) {
+      throw new Error(`${packageName} does not export a backend plugin`);
+    }
+    await props.host.load(module.default);
+  }
+}
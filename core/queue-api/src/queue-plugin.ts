@@ -1,5 +1,12 @@
 import { z } from "zod";
-import type { Queue, QueueStats, RecurringSchedule } from "./queue";
+import type {
+  DeadLetterFilter,
+  DeadLetterJob,
+  JobInfo,
+  Queue,
+  QueueStats,
+  RecurringSchedule,
+} from "./queue";
 import type { Migration, Logger } from "@checkstack/backend-api";
 
 export interface QueuePlugin<Config = unknown> {
@@ -43,6 +50,16 @@ export type RecurringJobInfo = {
   nextRunAt?: Date;
 } & RecurringSchedule;
 
+/**
+ * Info about a waiting, delayed or active job across all queues
+ */
+export type QueuedJobInfo = JobInfo & { queueName: string };
+
+/**
+ * Info about a dead letter across all queues
+ */
+export type DeadLetterInfo = DeadLetterJob & { queueName: string };
+
 /**
  * QueueManager handles queue creation, backend switching, and multi-instance coordination.
  *
@@ -95,6 +112,32 @@ export interface QueueManager {
    */
   listAllRecurringJobs(): Promise<RecurringJobInfo[]>;
 
+  /**
+   * List waiting, delayed and active jobs across all queues.
+   * Used by the queue admin UI.
+   */
+  listAllJobs(): Promise<QueuedJobInfo[]>;
+
+  /**
+   * List dead letters across all queues, most recent first.
+   */
+  listAllDeadLetters(): Promise<DeadLetterInfo[]>;
+
+  /**
+   * Requeue a dead letter of a queue.
+   * @returns false if the queue or dead letter does not exist
+   */
+  requeueDeadLetter(queueName: string, id: string): Promise<boolean>;
+
+  /**
+   * Remove dead letters of a queue matching the filter.
+   * @returns Number of removed dead letters
+   */
+  purgeDeadLetters(
+    queueName: string,
+    filter?: DeadLetterFilter,
+  ): Promise<number>;
+
   /**
    * Start polling for configuration changes.
    * Required for multi-instance coordination.
@@ -10,11 +10,87 @@ export interface QueueJob<T = unknown> {
 }
 
 /**
- * Schedule configuration: either interval-based or cron-based
+ * A failed processing attempt of a job
+ */
+export interface JobAttempt {
+  attempt: number;
+  error: string;
+  failedAt?: Date;
+}
+
+/**
+ * A job that failed in a consumer group after exhausting its retries.
+ * Kept until it is requeued or purged.
+ */
+export interface DeadLetterJob<T = unknown> {
+  /**
+   * Unique ID of the dead letter, used to requeue or purge it
+   */
+  id: string;
+  jobId: string;
+  consumerGroup: string;
+  data: T;
+  /**
+   * Error of the last attempt
+   */
+  error: string;
+  attempts: JobAttempt[];
+  enqueuedAt: Date;
+  failedAt: Date;
+}
+
+export type JobState = "active" | "waiting" | "delayed";
+
+/**
+ * A job that is waiting, delayed or currently being processed
+ */
+export interface JobInfo<T = unknown> {
+  id: string;
+  data: T;
+  state: JobState;
+  priority?: number;
+  attempts: number;
+  enqueuedAt: Date;
+  /**
+   * When a delayed job becomes available for processing
+   */
+  availableAt?: Date;
+  /**
+   * Consumer group processing the job (active jobs only)
+   */
+  consumerGroup?: string;
+}
+
+/**
+ * Filter for purging dead letters. Purges all dead letters if empty.
+ */
+export interface DeadLetterFilter {
+  consumerGroup?: string;
+  ids?: string[];
+}
+
+/**
+ * Whether a dead letter matches a purge filter
+ */
+export function matchesDeadLetterFilter(
+  deadLetter: Pick<DeadLetterJob, "id" | "consumerGroup">,
+  filter: DeadLetterFilter = {},
+): boolean {
+  const { consumerGroup, ids } = filter;
+  if (consumerGroup && deadLetter.consumerGroup !== consumerGroup) {
+    return false;
+  }
+  return !ids || ids.includes(deadLetter.id);
+}
+
+/**
+ * Schedule configuration: either interval-based or cron-based.
+ * Cron patterns are evaluated in `timezone` (IANA name), or in the server's
+ * local time when it is omitted.
  */
 export type RecurringSchedule =
-  | { intervalSeconds: number; cronPattern?: never }
-  | { cronPattern: string; intervalSeconds?: never };
+  | { intervalSeconds: number; cronPattern?: never; timezone?: never }
+  | { cronPattern: string; timezone?: string; intervalSeconds?: never };
 
 /**
  * Details of a recurring job for migration purposes
@@ -137,6 +213,29 @@ export interface Queue<T = unknown> {
    */
   getInFlightCount(): Promise<number>;
 
+  /**
+   * List waiting, delayed and active jobs
+   */
+  listJobs(): Promise<JobInfo<T>[]>;
+
+  /**
+   * List jobs that exhausted their retries, most recent first
+   */
+  listDeadLetters(): Promise<DeadLetterJob<T>[]>;
+
+  /**
+   * Requeue a dead letter for the consumer group it failed in.
+   * The dead letter is removed and the job starts over with no attempts.
+   * @returns false if no dead letter with this ID exists
+   */
+  requeueDeadLetter(id: string): Promise<boolean>;
+
+  /**
+   * Remove dead letters matching the filter
+   * @returns Number of removed dead letters
+   */
+  purgeDeadLetters(filter?: DeadLetterFilter): Promise<number>;
+
   /**
    * Test connection to the queue backend
    * @throws Error if connection fails
@@ -109,6 +109,92 @@ describe("Queue Router", () => {
     });
   });
 
+  describe("Dead Letters", () => {
+    const failedAt = new Date("2025-01-01T00:00:00Z");
+    const deadLetterManager = {
+      ...mockManager,
+      listAllDeadLetters: mock(() =>
+        Promise.resolve([
+          {
+            queueName: "notification-delivery",
+            id: "dl-1",
+            jobId: "job-1",
+            consumerGroup: "notification-delivery-worker",
+            data: { logId: "log-1" },
+            error: "Connection refused",
+            attempts: [{ attempt: 1, error: "Connection refused" }],
+            enqueuedAt: failedAt,
+            failedAt,
+          },
+          {
+            queueName: "health-checks",
+            id: "dl-2",
+            jobId: "healthcheck:config-1:system-1",
+            consumerGroup: "health-check-executor",
+            data: {},
+            error: "Timeout",
+            attempts: [{ attempt: 1, error: "Timeout" }],
+            enqueuedAt: failedAt,
+            failedAt,
+          },
+        ])
+      ),
+      requeueDeadLetter: mock(() => Promise.resolve(true)),
+      purgeDeadLetters: mock(() => Promise.resolve(3)),
+    };
+
+    it("getDeadLetters filters by queue", async () => {
+      const context = createMockRpcContext({
+        user: mockUser,
+        queueManager: deadLetterManager,
+      });
+
+      const result = await call(
+        router.getDeadLetters,
+        { queueName: "health-checks" },
+        { context }
+      );
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe("dl-2");
+    });
+
+    it("requeueDeadLetter requeues via QueueManager", async () => {
+      const context = createMockRpcContext({
+        user: mockUser,
+        queueManager: deadLetterManager,
+      });
+
+      const result = await call(
+        router.requeueDeadLetter,
+        { queueName: "health-checks", id: "dl-2" },
+        { context }
+      );
+      expect(result.success).toBe(true);
+      expect(deadLetterManager.requeueDeadLetter).toHaveBeenCalledWith(
+        "health-checks",
+        "dl-2"
+      );
+    });
+
+    it("purgeDeadLetters passes the filter to QueueManager", async () => {
+      const context = createMockRpcContext({
+        user: mockUser,
+        queueManager: deadLetterManager,
+      });
+
+      const result = await call(
+        router.purgeDeadLetters,
+        { queueName: "health-checks", consumerGroup: "health-check-executor" },
+        { context }
+      );
+      expect(result.purged).toBe(3);
+      expect(deadLetterManager.purgeDeadLetters).toHaveBeenCalledWith(
+        "health-checks",
+        { consumerGroup: "health-check-executor" }
+      );
+    });
+  });
+
   describe("Queue Lag Status", () => {
     it("getLagStatus returns 'none' severity when pending is below warning threshold", async () => {
       const lowPendingManager = {
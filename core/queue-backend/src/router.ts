@@ -146,5 +146,52 @@ export const createQueueRouter = (configService: ConfigService) => {
         return input;
       }
     ),
+
+    getJobs: os.getJobs.handler(async ({ context }) => {
+      const [jobs, recurring] = await Promise.all([
+        context.queueManager.listAllJobs(),
+        context.queueManager.listAllRecurringJobs(),
+      ]);
+      return { jobs, recurring };
+    }),
+
+    getDeadLetters: os.getDeadLetters.handler(async ({ input, context }) => {
+      const deadLetters = await context.queueManager.listAllDeadLetters();
+      return deadLetters.filter(
+        (deadLetter) =>
+          (!input.queueName || deadLetter.queueName === input.queueName) &&
+          (!input.consumerGroup ||
+            deadLetter.consumerGroup === input.consumerGroup)
+      );
+    }),
+
+    requeueDeadLetter: os.requeueDeadLetter.handler(
+      async ({ input, context }) => {
+        const success = await context.queueManager.requeueDeadLetter(
+          input.queueName,
+          input.id
+        );
+        if (success) {
+          context.logger.info(
+            `Requeued dead letter ${input.id} of queue ${input.queueName}`
+          );
+        }
+        return { success };
+      }
+    ),
+
+    purgeDeadLetters: os.purgeDeadLetters.handler(
+      async ({ input, context }) => {
+        const { queueName, ...filter } = input;
+        const purged = await context.queueManager.purgeDeadLetters(
+          queueName,
+          filter
+        );
+        context.logger.info(
+          `Purged ${purged} dead letters of queue ${queueName}`
+        );
+        return { purged };
+      }
+    ),
   });
 };
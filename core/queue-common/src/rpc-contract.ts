@@ -9,6 +9,11 @@ import {
   QueueStatsDtoSchema,
   QueueLagStatusSchema,
   QueueLagThresholdsSchema,
+  QueueJobsDtoSchema,
+  DeadLetterDtoSchema,
+  DeadLetterQuerySchema,
+  RequeueDeadLetterInputSchema,
+  PurgeDeadLettersInputSchema,
 } from "./schemas";
 
 // Queue RPC Contract with access metadata
@@ -57,6 +62,40 @@ export const queueContract = {
   })
     .input(QueueLagThresholdsSchema)
     .output(QueueLagThresholdsSchema),
+
+  // Waiting, delayed, active and recurring jobs - Read access
+  getJobs: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [queueAccess.settings.read],
+  }).output(QueueJobsDtoSchema),
+
+  // Jobs that exhausted their retries - Read access
+  getDeadLetters: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [queueAccess.settings.read],
+  })
+    .input(DeadLetterQuerySchema)
+    .output(z.array(DeadLetterDtoSchema)),
+
+  // Requeue a dead letter - Manage access
+  requeueDeadLetter: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [queueAccess.settings.manage],
+  })
+    .input(RequeueDeadLetterInputSchema)
+    .output(z.object({ success: z.boolean() })),
+
+  // Remove dead letters - Manage access
+  purgeDeadLetters: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [queueAccess.settings.manage],
+  })
+    .input(PurgeDeadLettersInputSchema)
+    .output(z.object({ purged: z.number() })),
 };
 
 // Export contract type
@@ -83,3 +83,108 @@ export const QueueLagStatusSchema = z.object({
 });
 
 export type QueueLagStatus = z.infer<typeof QueueLagStatusSchema>;
+
+/**
+ * State of a job that has not finished yet
+ */
+export const JobStateSchema = z.enum(["active", "waiting", "delayed"]);
+export type JobState = z.infer<typeof JobStateSchema>;
+
+/**
+ * Waiting, delayed or active job
+ */
+export const QueueJobDtoSchema = z.object({
+  queueName: z.string(),
+  id: z.string(),
+  state: JobStateSchema,
+  data: z.unknown(),
+  priority: z.number().optional(),
+  attempts: z.number(),
+  enqueuedAt: z.coerce.date(),
+  availableAt: z.coerce.date().optional(),
+  consumerGroup: z.string().optional(),
+});
+
+export type QueueJobDto = z.infer<typeof QueueJobDtoSchema>;
+
+/**
+ * Recurring job with its schedule
+ */
+export const RecurringJobDtoSchema = z.object({
+  queueName: z.string(),
+  jobId: z.string(),
+  intervalSeconds: z.number().optional(),
+  cronPattern: z.string().optional(),
+  timezone: z.string().optional(),
+  nextRunAt: z.coerce.date().optional(),
+});
+
+export type RecurringJobDto = z.infer<typeof RecurringJobDtoSchema>;
+
+/**
+ * Jobs across all queues
+ */
+export const QueueJobsDtoSchema = z.object({
+  jobs: z.array(QueueJobDtoSchema),
+  recurring: z.array(RecurringJobDtoSchema),
+});
+
+export type QueueJobsDto = z.infer<typeof QueueJobsDtoSchema>;
+
+/**
+ * Failed processing attempt of a dead letter
+ */
+export const JobAttemptDtoSchema = z.object({
+  attempt: z.number(),
+  error: z.string(),
+  failedAt: z.coerce.date().optional(),
+});
+
+export type JobAttemptDto = z.infer<typeof JobAttemptDtoSchema>;
+
+/**
+ * Job that exhausted its retries in a consumer group
+ */
+export const DeadLetterDtoSchema = z.object({
+  queueName: z.string(),
+  id: z.string(),
+  jobId: z.string(),
+  consumerGroup: z.string(),
+  data: z.unknown(),
+  error: z.string(),
+  attempts: z.array(JobAttemptDtoSchema),
+  enqueuedAt: z.coerce.date(),
+  failedAt: z.coerce.date(),
+});
+
+export type DeadLetterDto = z.infer<typeof DeadLetterDtoSchema>;
+
+/**
+ * Filter for listing dead letters
+ */
+export const DeadLetterQuerySchema = z.object({
+  queueName: z.string().optional(),
+  consumerGroup: z.string().optional(),
+});
+
+export type DeadLetterQuery = z.infer<typeof DeadLetterQuerySchema>;
+
+/**
+ * Input for requeueing a dead letter
+ */
+export const RequeueDeadLetterInputSchema = z.object({
+  queueName: z.string(),
+  id: z.string(),
+});
+
+/**
+ * Input for purging dead letters of a queue.
+ * Purges all dead letters of the queue if neither group nor IDs are given.
+ */
+export const PurgeDeadLettersInputSchema = z.object({
+  queueName: z.string(),
+  consumerGroup: z.string().optional(),
+  ids: z.array(z.string()).optional(),
+});
+
+export type PurgeDeadLettersInput = z.infer<typeof PurgeDeadLettersInputSchema>;
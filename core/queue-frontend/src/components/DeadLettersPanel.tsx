@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import { QueueApi, type DeadLetterDto } from "@checkstack/queue-common";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  ConfirmationModal,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  useToast,
+} from "@checkstack/ui";
+import { ChevronDown, ChevronRight, RefreshCw, Trash2 } from "lucide-react";
+
+/** Select value for "no filter", Radix Select does not allow empty values */
+const ALL = "all";
+
+const DeadLetterRow = ({
+  deadLetter,
+  canManage,
+  requeueing,
+  onRequeue,
+}: {
+  deadLetter: DeadLetterDto;
+  canManage: boolean;
+  requeueing: boolean;
+  onRequeue: (deadLetter: DeadLetterDto) => void;
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <>
+      <TableRow
+        className="cursor-pointer"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <TableCell>
+          {expanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+        </TableCell>
+        <TableCell>
+          <div className="text-sm text-muted-foreground whitespace-nowrap">
+            {new Date(deadLetter.failedAt).toLocaleString()}
+          </div>
+        </TableCell>
+        <TableCell>
+          <div className="text-sm">{deadLetter.queueName}</div>
+          <div className="text-xs text-muted-foreground">
+            {deadLetter.consumerGroup}
+          </div>
+        </TableCell>
+        <TableCell>
+          <div
+            className="font-mono text-xs max-w-[240px] truncate"
+            title={deadLetter.jobId}
+          >
+            {deadLetter.jobId}
+          </div>
+        </TableCell>
+        <TableCell>
+          <div
+            className="text-sm text-destructive max-w-[240px] truncate"
+            title={deadLetter.error}
+          >
+            {deadLetter.error}
+          </div>
+        </TableCell>
+        <TableCell>{deadLetter.attempts.length}</TableCell>
+        <TableCell>
+          {canManage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={requeueing}
+              onClick={(e) => {
+                e.stopPropagation();
+                onRequeue(deadLetter);
+              }}
+            >
+              <RefreshCw
+                className={`h-4 w-4 mr-1 ${requeueing ? "animate-spin" : ""}`}
+              />
+              Requeue
+            </Button>
+          )}
+        </TableCell>
+      </TableRow>
+      {expanded && (
+        <TableRow>
+          <TableCell colSpan={7} className="bg-muted/30">
+            <div className="space-y-3 p-2 text-sm">
+              <div>
+                <span className="text-muted-foreground">Enqueued: </span>
+                {new Date(deadLetter.enqueuedAt).toLocaleString()}
+              </div>
+              <div className="space-y-1">
+                <div className="text-muted-foreground">Attempts</div>
+                {deadLetter.attempts.map((attempt) => (
+                  <div key={attempt.attempt} className="flex gap-2 text-xs">
+                    <span className="font-mono">#{attempt.attempt}</span>
+                    {attempt.failedAt && (
+                      <span className="text-muted-foreground whitespace-nowrap">
+                        {new Date(attempt.failedAt).toLocaleString()}
+                      </span>
+                    )}
+                    <span className="text-destructive">{attempt.error}</span>
+                  </div>
+                ))}
+              </div>
+              <pre className="overflow-x-auto rounded-md bg-muted p-3 text-xs">
+                {JSON.stringify(deadLetter.data, undefined, 2) ?? "No payload"}
+              </pre>
+            </div>
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  );
+};
+
+/**
+ * Lists jobs that exhausted their retries, with payload and attempt history.
+ * Dead letters can be requeued for their consumer group or purged.
+ */
+export const DeadLettersPanel = ({ canManage }: { canManage: boolean }) => {
+  const queueClient = usePluginClient(QueueApi);
+  const toast = useToast();
+
+  const [queueName, setQueueName] = useState(ALL);
+  const [consumerGroup, setConsumerGroup] = useState(ALL);
+  const [requeueing, setRequeueing] = useState<string>();
+  const [purgeOpen, setPurgeOpen] = useState(false);
+
+  const {
+    data: deadLetters = [],
+    isLoading,
+    refetch,
+  } = queueClient.getDeadLetters.useQuery({});
+
+  const requeueMutation = queueClient.requeueDeadLetter.useMutation({
+    onSuccess: (result) => {
+      if (result.success) {
+        toast.success("Job requeued");
+      } else {
+        toast.error("Dead letter no longer exists");
+      }
+      void refetch();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to requeue job",
+      );
+    },
+    onSettled: () => setRequeueing(undefined),
+  });
+
+  const purgeMutation = queueClient.purgeDeadLetters.useMutation();
+
+  const queueNames = [...new Set(deadLetters.map((d) => d.queueName))];
+  const consumerGroups = [
+    ...new Set(
+      deadLetters
+        .filter((d) => queueName === ALL || d.queueName === queueName)
+        .map((d) => d.consumerGroup),
+    ),
+  ];
+
+  const filtered = deadLetters.filter(
+    (d) =>
+      (queueName === ALL || d.queueName === queueName) &&
+      (consumerGroup === ALL || d.consumerGroup === consumerGroup),
+  );
+
+  const handleRequeue = (deadLetter: DeadLetterDto) => {
+    setRequeueing(deadLetter.id);
+    requeueMutation.mutate({
+      queueName: deadLetter.queueName,
+      id: deadLetter.id,
+    });
+  };
+
+  const handlePurge = async () => {
+    try {
+      // Purge per queue, the filter narrows down to the shown dead letters
+      const results = await Promise.all(
+        [...new Set(filtered.map((d) => d.queueName))].map((name) =>
+          purgeMutation.mutateAsync({
+            queueName: name,
+            consumerGroup: consumerGroup === ALL ? undefined : consumerGroup,
+          }),
+        ),
+      );
+      let purged = 0;
+      for (const result of results) {
+        purged += result.purged;
+      }
+      toast.success(`Purged ${purged} dead letters`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to purge dead letters",
+      );
+    } finally {
+      setPurgeOpen(false);
+      void refetch();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={queueName}
+          onValueChange={(value) => {
+            setQueueName(value);
+            setConsumerGroup(ALL);
+          }}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All queues</SelectItem>
+            {queueNames.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={consumerGroup} onValueChange={setConsumerGroup}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All consumer groups</SelectItem>
+            {consumerGroups.map((group) => (
+              <SelectItem key={group} value={group}>
+                {group}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex-1" />
+        <Button variant="ghost" size="sm" onClick={() => void refetch()}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Refresh
+        </Button>
+        {canManage && (
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={filtered.length === 0 || purgeMutation.isPending}
+            onClick={() => setPurgeOpen(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Purge
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dead Letters</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Jobs that failed after exhausting their retries. Click a row to
+            inspect its payload and attempts.
+          </p>
+        </CardHeader>
+        <CardContent className="p-0">
+          {filtered.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              {isLoading ? "Loading dead letters..." : "No dead letters"}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Failed</TableHead>
+                  <TableHead>Queue</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((deadLetter) => (
+                  <DeadLetterRow
+                    key={`${deadLetter.queueName}:${deadLetter.id}`}
+                    deadLetter={deadLetter}
+                    canManage={canManage}
+                    requeueing={requeueing === deadLetter.id}
+                    onRequeue={handleRequeue}
+                  />
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmationModal
+        isOpen={purgeOpen}
+        onClose={() => setPurgeOpen(false)}
+        onConfirm={() => void handlePurge()}
+        title="Purge dead letters"
+        message={`Permanently remove ${filtered.length} dead letters? Their jobs will not be retried.`}
+        confirmText="Purge"
+        isLoading={purgeMutation.isPending}
+      />
+    </div>
+  );
+};
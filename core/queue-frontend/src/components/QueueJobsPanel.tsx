@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  QueueApi,
+  type JobState,
+  type RecurringJobDto,
+} from "@checkstack/queue-common";
+import {
+  Badge,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@checkstack/ui";
+import { Clock, Loader2, Pause, Repeat } from "lucide-react";
+
+/** Select value for "no filter", Radix Select does not allow empty values */
+const ALL = "all";
+
+const stateConfig: Record<
+  JobState,
+  { icon: React.ReactNode; variant: "info" | "warning" | "secondary" }
+> = {
+  active: {
+    icon: <Loader2 className="h-4 w-4 animate-spin" />,
+    variant: "info",
+  },
+  waiting: { icon: <Pause className="h-4 w-4" />, variant: "secondary" },
+  delayed: { icon: <Clock className="h-4 w-4" />, variant: "warning" },
+};
+
+const formatSchedule = (job: RecurringJobDto) => {
+  if (job.cronPattern) {
+    return job.timezone
+      ? `${job.cronPattern} (${job.timezone})`
+      : job.cronPattern;
+  }
+  return `every ${job.intervalSeconds}s`;
+};
+
+const getNextRunTime = (job: RecurringJobDto) =>
+  job.nextRunAt ? new Date(job.nextRunAt).getTime() : Infinity;
+
+/**
+ * Lists waiting, delayed and active jobs plus recurring jobs with their next
+ * run, refreshed every few seconds.
+ */
+export const QueueJobsPanel = () => {
+  const queueClient = usePluginClient(QueueApi);
+  const [queueName, setQueueName] = useState(ALL);
+  const [search, setSearch] = useState("");
+
+  const { data, isLoading } = queueClient.getJobs.useQuery(undefined, {
+    refetchInterval: 5000,
+  });
+
+  const queueNames = [
+    ...new Set([
+      ...(data?.jobs ?? []).map((job) => job.queueName),
+      ...(data?.recurring ?? []).map((job) => job.queueName),
+    ]),
+  ].toSorted();
+
+  const matches = (job: { queueName: string; id: string }) =>
+    (queueName === ALL || job.queueName === queueName) &&
+    job.id.toLowerCase().includes(search.toLowerCase());
+
+  const jobs = (data?.jobs ?? []).filter((job) => matches(job));
+  const recurring = (data?.recurring ?? [])
+    .filter((job) => matches({ queueName: job.queueName, id: job.jobId }))
+    .toSorted((a, b) => getNextRunTime(a) - getNextRunTime(b));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={queueName} onValueChange={setQueueName}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All queues</SelectItem>
+            {queueNames.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter by job ID, e.g. healthcheck:"
+          className="max-w-xs"
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Running & Delayed Jobs</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Jobs currently being processed or waiting to become available
+          </p>
+        </CardHeader>
+        <CardContent className="p-0">
+          {jobs.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              {isLoading ? "Loading jobs..." : "No pending jobs"}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>State</TableHead>
+                  <TableHead>Queue</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Enqueued</TableHead>
+                  <TableHead>Available</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => {
+                  const config = stateConfig[job.state];
+                  return (
+                    <TableRow key={`${job.queueName}:${job.id}:${job.state}`}>
+                      <TableCell>
+                        <Badge
+                          variant={config.variant}
+                          className="flex items-center gap-1 w-fit"
+                        >
+                          {config.icon}
+                          {job.state}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{job.queueName}</TableCell>
+                      <TableCell>
+                        <div
+                          className="font-mono text-xs max-w-[280px] truncate"
+                          title={job.id}
+                        >
+                          {job.id}
+                        </div>
+                        {job.consumerGroup && (
+                          <div className="text-xs text-muted-foreground">
+                            {job.consumerGroup}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{job.attempts}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(job.enqueuedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {job.availableAt
+                          ? new Date(job.availableAt).toLocaleString()
+                          : "now"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Recurring Jobs
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Scheduled jobs such as health checks, ordered by their next run
+          </p>
+        </CardHeader>
+        <CardContent className="p-0">
+          {recurring.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              {isLoading ? "Loading jobs..." : "No recurring jobs"}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Queue</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Next Run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recurring.map((job) => (
+                  <TableRow key={`${job.queueName}:${job.jobId}`}>
+                    <TableCell className="text-sm">{job.queueName}</TableCell>
+                    <TableCell>
+                      <div
+                        className="font-mono text-xs max-w-[320px] truncate"
+                        title={job.jobId}
+                      >
+                        {job.jobId}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {formatSchedule(job)}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {job.nextRunAt
+                        ? new Date(job.nextRunAt).toLocaleString()
+                        : "unknown"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
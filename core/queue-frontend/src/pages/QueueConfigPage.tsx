@@ -22,10 +22,37 @@ import {
   CardFooter,
   CardHeader,
   CardTitle,
+  Tabs,
+  TabPanel,
   useToast,
 } from "@checkstack/ui";
-import { AlertTriangle, Save, Info, Gauge, Activity } from "lucide-react";
+import {
+  AlertTriangle,
+  Save,
+  Info,
+  Gauge,
+  Activity,
+  Settings,
+  ListChecks,
+  Inbox,
+} from "lucide-react";
 import { QueueLagAlert } from "../components/QueueLagAlert";
+import { QueueJobsPanel } from "../components/QueueJobsPanel";
+import { DeadLettersPanel } from "../components/DeadLettersPanel";
+
+const tabs = [
+  {
+    id: "configuration",
+    label: "Configuration",
+    icon: <Settings className="h-4 w-4" />,
+  },
+  { id: "jobs", label: "Jobs", icon: <ListChecks className="h-4 w-4" /> },
+  {
+    id: "dead-letters",
+    label: "Dead Letters",
+    icon: <Inbox className="h-4 w-4" />,
+  },
+];
 
 const QueueConfigPageContent = () => {
   const queueClient = usePluginClient(QueueApi);
@@ -44,6 +71,7 @@ const QueueConfigPageContent = () => {
     queueClient.getConfiguration.useQuery();
   const updateConfigMutation = queueClient.updateConfiguration.useMutation();
 
+  const [activeTab, setActiveTab] = useState("configuration");
   const [selectedPluginId, setSelectedPluginId] = useState<string>("");
   const [config, setConfig] = useState<Record<string, unknown>>({});
 
@@ -81,10 +109,12 @@ const QueueConfigPageContent = () => {
       icon={Gauge}
       loading={accessLoading}
       allowed={canRead}
-      maxWidth="3xl"
+      maxWidth={activeTab === "configuration" ? "3xl" : "6xl"}
     >
       <QueueLagAlert requireAccess={false} />
-      <div className="space-y-6">
+      <Tabs items={tabs} activeTab={activeTab} onTabChange={setActiveTab} />
+
+      <TabPanel id="configuration" activeTab={activeTab} className="space-y-6">
         <Card>
           <CardHeader>
             <CardTitle>Queue Configuration</CardTitle>
@@ -191,7 +221,15 @@ const QueueConfigPageContent = () => {
             </div>
           </CardContent>
         </Card>
-      </div>
+      </TabPanel>
+
+      <TabPanel id="jobs" activeTab={activeTab}>
+        <QueueJobsPanel />
+      </TabPanel>
+
+      <TabPanel id="dead-letters" activeTab={activeTab}>
+        <DeadLettersPanel canManage={canUpdate} />
+      </TabPanel>
     </PageLayout>
   );
 };
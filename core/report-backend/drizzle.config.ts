@@ -0,0 +1,8 @@
+export default {
+  dialect: "postgresql",
+  schema: "./src/schema.ts",
+  out: "./drizzle",
+  dbCredentials: {
+    url: process.env.DATABASE_URL || "",
+  },
+};
@@ -0,0 +1,34 @@
+CREATE TYPE "report_format" AS ENUM('pdf', 'html');--> statement-breakpoint
+CREATE TYPE "report_period" AS ENUM('weekly', 'monthly', 'quarterly');--> statement-breakpoint
+CREATE TABLE "generated_reports" (
+	"id" text PRIMARY KEY NOT NULL,
+	"definition_id" text,
+	"name" text NOT NULL,
+	"period" "report_period" NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"format" "report_format" NOT NULL,
+	"data" jsonb NOT NULL,
+	"recipients" jsonb NOT NULL,
+	"delivered_count" integer DEFAULT 0 NOT NULL,
+	"delivery_error" text,
+	"generated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "report_definitions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"scope" jsonb NOT NULL,
+	"period" "report_period" NOT NULL,
+	"format" "report_format" NOT NULL,
+	"recipients" jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_run_at" timestamp,
+	"next_run_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generated_reports" ADD CONSTRAINT "generated_reports_definition_id_report_definitions_id_fk" FOREIGN KEY ("definition_id") REFERENCES "report_definitions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generated_reports_generated_at_idx" ON "generated_reports" USING btree ("generated_at");
\ No newline at end of file
@@ -0,0 +1,79 @@
+import {
+  createBackendPlugin,
+  coreServices,
+  type Logger,
+  type RpcClient,
+} from "@checkstack/backend-api";
+import {
+  reportAccessRules,
+  reportContract,
+  pluginMetadata,
+} from "@checkstack/report-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
+import { IncidentApi } from "@checkstack/incident-common";
+import { MaintenanceApi } from "@checkstack/maintenance-common";
+import { NotificationApi } from "@checkstack/notification-common";
+import * as schema from "./schema";
+import { ReportService } from "./service";
+import { createRouter } from "./router";
+import { setupReportJob } from "./report-job";
+import type { ReportGeneratorDeps } from "./report-generator";
+
+const createGeneratorDeps = (
+  service: ReportService,
+  rpcClient: RpcClient,
+  logger: Logger,
+): ReportGeneratorDeps => ({
+  service,
+  catalogClient: rpcClient.forPlugin(CatalogApi),
+  healthCheckClient: rpcClient.forPlugin(HealthCheckApi),
+  incidentClient: rpcClient.forPlugin(IncidentApi),
+  maintenanceClient: rpcClient.forPlugin(MaintenanceApi),
+  notificationClient: rpcClient.forPlugin(NotificationApi),
+  logger,
+});
+
+export default createBackendPlugin({
+  metadata: pluginMetadata,
+  register(env) {
+    env.registerAccessRules(reportAccessRules);
+
+    env.registerInit({
+      schema,
+      deps: {
+        logger: coreServices.logger,
+        rpc: coreServices.rpc,
+        rpcClient: coreServices.rpcClient,
+        queueManager: coreServices.queueManager,
+      },
+      init: async ({ database, logger, rpc, rpcClient }) => {
+        logger.debug("📊 Initializing Report Backend...");
+
+        rpc.registerRouter(
+          createRouter(
+            createGeneratorDeps(new ReportService(database), rpcClient, logger),
+          ),
+          reportContract,
+        );
+
+        logger.debug("✅ Report Backend initialized.");
+      },
+      afterPluginsReady: async ({
+        database,
+        logger,
+        rpcClient,
+        queueManager,
+      }) => {
+        await setupReportJob({
+          ...createGeneratorDeps(
+            new ReportService(database),
+            rpcClient,
+            logger,
+          ),
+          queueManager,
+        });
+      },
+    });
+  },
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatPeriodLabel,
+  getNextRunAt,
+  getPeriodContaining,
+  getPreviousPeriod,
+} from "./period";
+
+describe("getPeriodContaining", () => {
+  it("starts weeks on Monday", () => {
+    // Sunday, 2025-03-16
+    const week = getPeriodContaining(
+      "weekly",
+      new Date("2025-03-16T23:00:00Z"),
+    );
+
+    expect(week.start.toISOString()).toBe("2025-03-10T00:00:00.000Z");
+    expect(week.end.toISOString()).toBe("2025-03-17T00:00:00.000Z");
+  });
+
+  it("covers calendar months", () => {
+    const month = getPeriodContaining(
+      "monthly",
+      new Date("2024-02-29T12:00:00Z"),
+    );
+
+    expect(month.start.toISOString()).toBe("2024-02-01T00:00:00.000Z");
+    expect(month.end.toISOString()).toBe("2024-03-01T00:00:00.000Z");
+  });
+
+  it("rolls quarters over the year boundary", () => {
+    const quarter = getPeriodContaining(
+      "quarterly",
+      new Date("2024-11-05T00:00:00Z"),
+    );
+
+    expect(quarter.start.toISOString()).toBe("2024-10-01T00:00:00.000Z");
+    expect(quarter.end.toISOString()).toBe("2025-01-01T00:00:00.000Z");
+  });
+});
+
+describe("getPreviousPeriod", () => {
+  it("returns the last complete period", () => {
+    const previous = getPreviousPeriod(
+      "monthly",
+      new Date("2025-01-01T00:10:00Z"),
+    );
+
+    expect(previous.start.toISOString()).toBe("2024-12-01T00:00:00.000Z");
+    expect(previous.end.toISOString()).toBe("2025-01-01T00:00:00.000Z");
+  });
+});
+
+describe("getNextRunAt", () => {
+  it("is due at the end of the current period", () => {
+    expect(
+      getNextRunAt("quarterly", new Date("2025-05-20T08:00:00Z")).toISOString(),
+    ).toBe("2025-07-01T00:00:00.000Z");
+  });
+});
+
+describe("formatPeriodLabel", () => {
+  it("labels each period type", () => {
+    const at = new Date("2025-03-12T00:00:00Z");
+
+    expect(
+      formatPeriodLabel("monthly", getPeriodContaining("monthly", at)),
+    ).toBe("March 2025");
+    expect(
+      formatPeriodLabel("quarterly", getPeriodContaining("quarterly", at)),
+    ).toBe("Q1 2025");
+    expect(formatPeriodLabel("weekly", getPeriodContaining("weekly", at))).toBe(
+      "2025-03-10 – 2025-03-16",
+    );
+  });
+});
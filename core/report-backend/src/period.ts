@@ -0,0 +1,86 @@
+import type { ReportPeriod } from "@checkstack/report-common";
+
+export interface PeriodBounds {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The calendar period (UTC) containing the given date.
+ * Weeks start on Monday, quarters in January, April, July and October.
+ */
+export function getPeriodContaining(
+  period: ReportPeriod,
+  date: Date,
+): PeriodBounds {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (period) {
+    case "weekly": {
+      const dayStart = Date.UTC(year, month, date.getUTCDate());
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      const start = dayStart - daysSinceMonday * DAY_MS;
+      return { start: new Date(start), end: new Date(start + 7 * DAY_MS) };
+    }
+    case "monthly": {
+      return {
+        start: new Date(Date.UTC(year, month, 1)),
+        end: new Date(Date.UTC(year, month + 1, 1)),
+      };
+    }
+    case "quarterly": {
+      const quarterMonth = month - (month % 3);
+      return {
+        start: new Date(Date.UTC(year, quarterMonth, 1)),
+        end: new Date(Date.UTC(year, quarterMonth + 3, 1)),
+      };
+    }
+  }
+}
+
+/**
+ * The last complete period before the given date.
+ */
+export function getPreviousPeriod(
+  period: ReportPeriod,
+  date: Date,
+): PeriodBounds {
+  const current = getPeriodContaining(period, date);
+  return getPeriodContaining(period, new Date(current.start.getTime() - 1));
+}
+
+/**
+ * When the report of the period containing the given date is due.
+ */
+export function getNextRunAt(period: ReportPeriod, date: Date): Date {
+  return getPeriodContaining(period, date).end;
+}
+
+/**
+ * Human-readable label of a period, e.g. "March 2025" or "Q1 2025".
+ */
+export function formatPeriodLabel(
+  period: ReportPeriod,
+  bounds: PeriodBounds,
+): string {
+  const year = bounds.start.getUTCFullYear();
+  switch (period) {
+    case "weekly": {
+      const last = new Date(bounds.end.getTime() - DAY_MS);
+      return `${bounds.start.toISOString().slice(0, 10)} – ${last.toISOString().slice(0, 10)}`;
+    }
+    case "monthly": {
+      return bounds.start.toLocaleString("en-US", {
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+    }
+    case "quarterly": {
+      return `Q${Math.floor(bounds.start.getUTCMonth() / 3) + 1} ${year}`;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import type { SystemAvailabilitySummary } from "@checkstack/healthcheck-common";
+import type { IncidentWithResolution } from "@checkstack/incident-common";
+import type { MaintenanceWithSystems } from "@checkstack/maintenance-common";
+import { buildReportData, getCoveredMinutes } from "./report-builder";
+
+const period = {
+  start: new Date("2025-03-01T00:00:00Z"),
+  end: new Date("2025-04-01T00:00:00Z"),
+};
+
+const systems = [
+  { id: "api", name: "API" },
+  { id: "db", name: "Database" },
+];
+
+function summary(
+  systemId: string,
+  healthyRuns: number,
+  totalRuns: number,
+): SystemAvailabilitySummary {
+  return {
+    systemId,
+    totalRuns,
+    healthyRuns,
+    degradedRuns: 0,
+    unhealthyRuns: totalRuns - healthyRuns,
+    availability: (healthyRuns / totalRuns) * 100,
+    p95LatencyMs: 120,
+  };
+}
+
+function incident(
+  overrides: Partial<IncidentWithResolution>,
+): IncidentWithResolution {
+  return {
+    id: "inc-1",
+    title: "Outage",
+    status: "resolved",
+    severity: "major",
+    suppressNotifications: false,
+    systemIds: ["api"],
+    createdAt: new Date("2025-03-10T10:00:00Z"),
+    updatedAt: new Date("2025-03-10T11:00:00Z"),
+    resolvedAt: new Date("2025-03-10T11:00:00Z"),
+    ...overrides,
+  };
+}
+
+function maintenance(
+  overrides: Partial<MaintenanceWithSystems>,
+): MaintenanceWithSystems {
+  return {
+    id: "mnt-1",
+    title: "Upgrade",
+    suppressNotifications: true,
+    status: "completed",
+    systemIds: ["db"],
+    startAt: new Date("2025-03-15T02:00:00Z"),
+    endAt: new Date("2025-03-15T04:00:00Z"),
+    createdAt: new Date("2025-03-01T00:00:00Z"),
+    updatedAt: new Date("2025-03-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("getCoveredMinutes", () => {
+  it("counts overlapping ranges once and clips them to the period", () => {
+    const minutes = getCoveredMinutes(
+      [
+        {
+          startAt: new Date("2025-03-15T02:00:00Z"),
+          endAt: new Date("2025-03-15T04:00:00Z"),
+        },
+        {
+          startAt: new Date("2025-03-15T03:00:00Z"),
+          endAt: new Date("2025-03-15T05:00:00Z"),
+        },
+        {
+          startAt: new Date("2025-02-28T23:00:00Z"),
+          endAt: new Date("2025-03-01T01:00:00Z"),
+        },
+      ],
+      period,
+    );
+
+    expect(minutes).toBe(4 * 60);
+  });
+});
+
+describe("buildReportData", () => {
+  it("combines availability of all systems", () => {
+    const data = buildReportData({
+      title: "Monthly",
+      period,
+      systems,
+      availability: [summary("api", 990, 1000), summary("db", 1000, 1000)],
+      incidents: [],
+      maintenances: [],
+    });
+
+    expect(data.summary.totalRuns).toBe(2000);
+    expect(data.summary.availability).toBe(99.5);
+    expect(data.systems.map((s) => s.name)).toEqual(["API", "Database"]);
+    expect(data.systems[0].p95LatencyMs).toBe(120);
+  });
+
+  it("reports systems without runs", () => {
+    const data = buildReportData({
+      title: "Monthly",
+      period,
+      systems,
+      availability: [],
+      incidents: [],
+      maintenances: [],
+    });
+
+    expect(data.summary.availability).toBeUndefined();
+    expect(data.systems[1].totalRuns).toBe(0);
+  });
+
+  it("computes MTTR from incidents resolved within the period", () => {
+    const data = buildReportData({
+      title: "Monthly",
+      period,
+      systems,
+      availability: [],
+      incidents: [
+        incident({ id: "a" }),
+        incident({
+          id: "b",
+          createdAt: new Date("2025-03-20T10:00:00Z"),
+          resolvedAt: new Date("2025-03-20T13:00:00Z"),
+        }),
+        incident({
+          id: "open",
+          status: "investigating",
+          resolvedAt: undefined,
+        }),
+      ],
+      maintenances: [],
+    });
+
+    expect(data.summary.incidentCount).toBe(3);
+    expect(data.summary.mttrMinutes).toBe(120);
+    expect(data.systems[0].incidentCount).toBe(3);
+    expect(data.systems[1].mttrMinutes).toBeUndefined();
+  });
+
+  it("only lists systems that are part of the report", () => {
+    const data = buildReportData({
+      title: "Monthly",
+      period,
+      systems,
+      availability: [],
+      incidents: [incident({ systemIds: ["other"] })],
+      maintenances: [maintenance({ systemIds: ["db", "other"] })],
+    });
+
+    expect(data.incidents).toHaveLength(0);
+    expect(data.maintenances[0].systemIds).toEqual(["db"]);
+    expect(data.systems[1].maintenanceMinutes).toBe(120);
+    expect(data.summary.maintenanceMinutes).toBe(120);
+  });
+});
@@ -0,0 +1,159 @@
+import type { SystemAvailabilitySummary } from "@checkstack/healthcheck-common";
+import type { IncidentWithResolution } from "@checkstack/incident-common";
+import type { MaintenanceWithSystems } from "@checkstack/maintenance-common";
+import type {
+  ReportData,
+  ReportIncident,
+  ReportMaintenance,
+} from "@checkstack/report-common";
+import type { PeriodBounds } from "./period";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Minutes covered by the given ranges within the period. Overlapping ranges
+ * are counted once.
+ */
+export function getCoveredMinutes(
+  ranges: { startAt: Date; endAt: Date }[],
+  period: PeriodBounds,
+): number {
+  const clipped = ranges
+    .map((range) => ({
+      start: Math.max(range.startAt.getTime(), period.start.getTime()),
+      end: Math.min(range.endAt.getTime(), period.end.getTime()),
+    }))
+    .filter((range) => range.end > range.start)
+    .toSorted((a, b) => a.start - b.start);
+
+  let covered = 0;
+  let currentEnd = Number.NEGATIVE_INFINITY;
+  for (const range of clipped) {
+    const start = Math.max(range.start, currentEnd);
+    if (range.end > start) covered += range.end - start;
+    currentEnd = Math.max(currentEnd, range.end);
+  }
+  return covered / MINUTE_MS;
+}
+
+/**
+ * Mean time from opening to resolution of the incidents resolved within the
+ * period. Undefined if none was resolved.
+ */
+export function getMttrMinutes(
+  incidents: ReportIncident[],
+  period: PeriodBounds,
+): number | undefined {
+  let count = 0;
+  let totalMs = 0;
+  for (const incident of incidents) {
+    if (!incident.resolvedAt) continue;
+    if (incident.resolvedAt < period.start || incident.resolvedAt >= period.end)
+      continue;
+    count++;
+    totalMs += incident.resolvedAt.getTime() - incident.createdAt.getTime();
+  }
+  return count > 0 ? totalMs / count / MINUTE_MS : undefined;
+}
+
+/**
+ * Assemble the report snapshot from the data of the health check, incident
+ * and maintenance plugins. Incidents and maintenances only list the systems
+ * that are part of the report.
+ */
+export function buildReportData({
+  title,
+  period,
+  systems,
+  availability,
+  incidents,
+  maintenances,
+  generatedAt = new Date(),
+}: {
+  title: string;
+  period: PeriodBounds;
+  systems: { id: string; name: string }[];
+  availability: SystemAvailabilitySummary[];
+  incidents: IncidentWithResolution[];
+  maintenances: MaintenanceWithSystems[];
+  generatedAt?: Date;
+}): ReportData {
+  const systemIds = new Set(systems.map((s) => s.id));
+
+  const reportIncidents: ReportIncident[] = incidents
+    .map((incident) => ({
+      id: incident.id,
+      title: incident.title,
+      severity: incident.severity,
+      status: incident.status,
+      systemIds: incident.systemIds.filter((id) => systemIds.has(id)),
+      createdAt: incident.createdAt,
+      resolvedAt: incident.resolvedAt,
+    }))
+    .filter((incident) => incident.systemIds.length > 0)
+    .toSorted((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const reportMaintenances: ReportMaintenance[] = maintenances
+    .map((maintenance) => ({
+      id: maintenance.id,
+      title: maintenance.title,
+      systemIds: maintenance.systemIds.filter((id) => systemIds.has(id)),
+      startAt: maintenance.startAt,
+      endAt: maintenance.endAt,
+    }))
+    .filter((maintenance) => maintenance.systemIds.length > 0)
+    .toSorted((a, b) => a.startAt.getTime() - b.startAt.getTime());
+
+  const reportSystems = systems
+    .map((system) => {
+      const summary = availability.find((a) => a.systemId === system.id);
+      const systemIncidents = reportIncidents.filter((i) =>
+        i.systemIds.includes(system.id),
+      );
+      return {
+        systemId: system.id,
+        name: system.name,
+        availability: summary?.availability,
+        totalRuns: summary?.totalRuns ?? 0,
+        healthyRuns: summary?.healthyRuns ?? 0,
+        degradedRuns: summary?.degradedRuns ?? 0,
+        unhealthyRuns: summary?.unhealthyRuns ?? 0,
+        avgLatencyMs: summary?.avgLatencyMs,
+        p50LatencyMs: summary?.p50LatencyMs,
+        p95LatencyMs: summary?.p95LatencyMs,
+        p99LatencyMs: summary?.p99LatencyMs,
+        incidentCount: systemIncidents.length,
+        mttrMinutes: getMttrMinutes(systemIncidents, period),
+        maintenanceMinutes: getCoveredMinutes(
+          reportMaintenances.filter((m) => m.systemIds.includes(system.id)),
+          period,
+        ),
+      };
+    })
+    .toSorted((a, b) => a.name.localeCompare(b.name));
+
+  let totalRuns = 0;
+  let healthyRuns = 0;
+  for (const system of reportSystems) {
+    totalRuns += system.totalRuns;
+    healthyRuns += system.healthyRuns;
+  }
+
+  return {
+    title,
+    periodStart: period.start,
+    periodEnd: period.end,
+    generatedAt,
+    summary: {
+      availability: totalRuns > 0 ? (healthyRuns / totalRuns) * 100 : undefined,
+      totalRuns,
+      incidentCount: reportIncidents.length,
+      mttrMinutes: getMttrMinutes(reportIncidents, period),
+      maintenanceCount: reportMaintenances.length,
+      maintenanceMinutes: getCoveredMinutes(reportMaintenances, period),
+    },
+    systems: reportSystems,
+    incidents: reportIncidents,
+    maintenances: reportMaintenances,
+  };
+}
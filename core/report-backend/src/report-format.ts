@@ -0,0 +1,47 @@
+/**
+ * Value formatting shared by the HTML, PDF and email renderers.
+ * Dates are shown in UTC, like the report periods.
+ */
+
+export function formatPercent(value: number | undefined): string {
+  return value === undefined ? "—" : `${value.toFixed(3)}%`;
+}
+
+export function formatLatency(value: number | undefined): string {
+  return value === undefined ? "—" : `${Math.round(value)} ms`;
+}
+
+export function formatMinutes(minutes: number | undefined): string {
+  if (minutes === undefined) return "—";
+  const total = Math.round(minutes);
+  if (total === 0) return minutes > 0 ? "< 1m" : "0m";
+
+  const days = Math.floor(total / 1440);
+  const hours = Math.floor((total % 1440) / 60);
+  const rest = total % 60;
+  return [
+    days > 0 ? `${days}d` : undefined,
+    hours > 0 ? `${hours}h` : undefined,
+    rest > 0 ? `${rest}m` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export function formatDateTime(date: Date | undefined): string {
+  if (!date) return "—";
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Last day included in a period whose end is exclusive */
+export function getLastDay(periodEnd: Date): Date {
+  return new Date(periodEnd.getTime() - 1);
+}
+
+export function getDurationMinutes(start: Date, end: Date | undefined) {
+  return end ? (end.getTime() - start.getTime()) / 60_000 : undefined;
+}
@@ -0,0 +1,146 @@
+import type { Logger } from "@checkstack/backend-api";
+import { resolveRoute, type InferClient } from "@checkstack/common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import { HealthCheckApi } from "@checkstack/healthcheck-common";
+import { IncidentApi } from "@checkstack/incident-common";
+import { MaintenanceApi } from "@checkstack/maintenance-common";
+import { NotificationApi } from "@checkstack/notification-common";
+import {
+  reportRoutes,
+  type GeneratedReport,
+  type ReportData,
+  type ReportDefinition,
+  type ReportFile,
+  type ReportFormat,
+} from "@checkstack/report-common";
+import type { ReportService } from "./service";
+import { formatPeriodLabel, type PeriodBounds } from "./period";
+import { buildReportData } from "./report-builder";
+import { renderReportHtml, renderReportMarkdown } from "./report-html";
+import { renderReportPdf } from "./report-pdf";
+
+export interface ReportGeneratorDeps {
+  service: ReportService;
+  catalogClient: InferClient<typeof CatalogApi>;
+  healthCheckClient: InferClient<typeof HealthCheckApi>;
+  incidentClient: InferClient<typeof IncidentApi>;
+  maintenanceClient: InferClient<typeof MaintenanceApi>;
+  notificationClient: InferClient<typeof NotificationApi>;
+  logger: Logger;
+}
+
+/**
+ * Collect the report content for a period from the other plugins.
+ */
+export async function collectReportData(
+  deps: ReportGeneratorDeps,
+  definition: ReportDefinition,
+  period: PeriodBounds,
+): Promise<ReportData> {
+  const { systems } = await deps.catalogClient.resolveSystems(definition.scope);
+  const systemIds = systems.map((s) => s.id);
+  const range = {
+    systemIds,
+    startDate: period.start,
+    endDate: period.end,
+  };
+
+  const [availability, incidents, maintenances] = await Promise.all([
+    deps.healthCheckClient.getAvailabilitySummary(range),
+    deps.incidentClient.getIncidentsInPeriod(range),
+    deps.maintenanceClient.getMaintenanceWindows(range),
+  ]);
+
+  return buildReportData({
+    title: `${definition.name} – ${formatPeriodLabel(definition.period, period)}`,
+    period,
+    systems,
+    availability,
+    incidents,
+    maintenances,
+  });
+}
+
+/**
+ * Render a report snapshot as a downloadable file.
+ */
+export async function renderReportFile(
+  data: ReportData,
+  format: ReportFormat,
+): Promise<ReportFile> {
+  const slug = data.title
+    .toLowerCase()
+    .replaceAll(/[^\da-z]+/g, "-")
+    .replaceAll(/^-|-$/g, "");
+
+  if (format === "pdf") {
+    const pdf = await renderReportPdf(data);
+    return {
+      filename: `${slug}.pdf`,
+      contentType: "application/pdf",
+      content: Buffer.from(pdf).toString("base64"),
+    };
+  }
+  return {
+    filename: `${slug}.html`,
+    contentType: "text/html",
+    content: Buffer.from(renderReportHtml(data)).toString("base64"),
+  };
+}
+
+/**
+ * Email a report to the recipients of its definition and record the outcome.
+ */
+async function deliverReport(
+  deps: ReportGeneratorDeps,
+  report: GeneratedReport,
+  data: ReportData,
+): Promise<GeneratedReport> {
+  if (report.recipients.length === 0) return report;
+
+  let deliveredCount = 0;
+  let deliveryError: string | undefined;
+  try {
+    const result = await deps.notificationClient.sendEmail({
+      to: report.recipients,
+      title: data.title,
+      body: renderReportMarkdown(data),
+      action: {
+        label: "View Reports",
+        url: resolveRoute(reportRoutes.routes.home),
+      },
+      attachments: [await renderReportFile(data, report.format)],
+    });
+    deliveredCount = result.deliveredCount;
+    if (deliveredCount < report.recipients.length) {
+      deliveryError =
+        result.results.find((r) => !r.success)?.error ??
+        "No email notification strategy is enabled and configured";
+    }
+  } catch (error) {
+    deliveryError = error instanceof Error ? error.message : String(error);
+  }
+
+  if (deliveryError) {
+    deps.logger.warn(`Report ${report.id} delivery failed: ${deliveryError}`);
+  }
+  return (
+    (await deps.service.recordDelivery(report.id, {
+      deliveredCount,
+      deliveryError,
+    })) ?? report
+  );
+}
+
+/**
+ * Generate the report of a definition for a period, archive and email it.
+ */
+export async function generateReport(
+  deps: ReportGeneratorDeps,
+  definition: ReportDefinition,
+  period: PeriodBounds,
+): Promise<GeneratedReport> {
+  const data = await collectReportData(deps, definition, period);
+  const report = await deps.service.archiveReport({ definition, period, data });
+  return deliverReport(deps, report, data);
+}
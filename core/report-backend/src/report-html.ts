@@ -0,0 +1,163 @@
+import type { ReportData } from "@checkstack/report-common";
+import {
+  formatDate,
+  formatDateTime,
+  formatLatency,
+  formatMinutes,
+  formatPercent,
+  getDurationMinutes,
+  getLastDay,
+} from "./report-format";
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function renderTable(headers: string[], rows: string[][]): string {
+  if (rows.length === 0) {
+    return `<p class="empty">None in this period.</p>`;
+  }
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`,
+    )
+    .join("\n");
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+/**
+ * Render a report as a standalone, printable HTML document.
+ */
+export function renderReportHtml(data: ReportData): string {
+  const systemNames = new Map(data.systems.map((s) => [s.systemId, s.name]));
+  const namesOf = (ids: string[]) =>
+    ids.map((id) => systemNames.get(id) ?? id).join(", ");
+
+  const cards = [
+    ["Availability", formatPercent(data.summary.availability)],
+    ["Incidents", String(data.summary.incidentCount)],
+    ["MTTR", formatMinutes(data.summary.mttrMinutes)],
+    ["Maintenance", formatMinutes(data.summary.maintenanceMinutes)],
+  ]
+    .map(
+      ([label, value]) =>
+        `<div class="card"><div class="label">${label}</div><div class="value">${escapeHtml(value)}</div></div>`,
+    )
+    .join("");
+
+  const systemsTable = renderTable(
+    [
+      "System",
+      "Availability",
+      "Runs",
+      "Degraded",
+      "Unhealthy",
+      "p50",
+      "p95",
+      "p99",
+      "Incidents",
+      "MTTR",
+      "Maintenance",
+    ],
+    data.systems.map((s) => [
+      s.name,
+      formatPercent(s.availability),
+      String(s.totalRuns),
+      String(s.degradedRuns),
+      String(s.unhealthyRuns),
+      formatLatency(s.p50LatencyMs),
+      formatLatency(s.p95LatencyMs),
+      formatLatency(s.p99LatencyMs),
+      String(s.incidentCount),
+      formatMinutes(s.mttrMinutes),
+      formatMinutes(s.maintenanceMinutes),
+    ]),
+  );
+
+  const incidentsTable = renderTable(
+    ["Incident", "Severity", "Systems", "Opened", "Resolved", "Duration"],
+    data.incidents.map((i) => [
+      i.title,
+      i.severity,
+      namesOf(i.systemIds),
+      formatDateTime(i.createdAt),
+      formatDateTime(i.resolvedAt),
+      formatMinutes(getDurationMinutes(i.createdAt, i.resolvedAt)),
+    ]),
+  );
+
+  const maintenancesTable = renderTable(
+    ["Maintenance", "Systems", "Start", "End", "Duration"],
+    data.maintenances.map((m) => [
+      m.title,
+      namesOf(m.systemIds),
+      formatDateTime(m.startAt),
+      formatDateTime(m.endAt),
+      formatMinutes(getDurationMinutes(m.startAt, m.endAt)),
+    ]),
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 24px; margin: 0 0 4px 0; }
+  h2 { font-size: 18px; margin: 32px 0 12px 0; }
+  .meta { color: #6b7280; font-size: 14px; }
+  .cards { display: flex; gap: 16px; margin-top: 24px; }
+  .card { flex: 1; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; }
+  .card .label { color: #6b7280; font-size: 12px; text-transform: uppercase; }
+  .card .value { font-size: 22px; font-weight: 600; margin-top: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f9fafb; font-weight: 600; }
+  .empty { color: #6b7280; font-size: 14px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(data.title)}</h1>
+<div class="meta">${formatDate(data.periodStart)} – ${formatDate(getLastDay(data.periodEnd))} (UTC) · Generated ${escapeHtml(formatDateTime(data.generatedAt))}</div>
+<div class="cards">${cards}</div>
+<h2>Systems</h2>
+${systemsTable}
+<h2>Incidents</h2>
+${incidentsTable}
+<h2>Maintenances</h2>
+${maintenancesTable}
+</body>
+</html>
+`;
+}
+
+/**
+ * Short markdown summary used as the email body.
+ * The notification strategy wraps it in the email layout.
+ */
+export function renderReportMarkdown(data: ReportData): string {
+  const lines = [
+    `Availability report for **${formatDate(data.periodStart)} – ${formatDate(getLastDay(data.periodEnd))}** (UTC).`,
+    "",
+    `- **Availability:** ${formatPercent(data.summary.availability)}`,
+    `- **Incidents:** ${data.summary.incidentCount} (MTTR ${formatMinutes(data.summary.mttrMinutes)})`,
+    `- **Planned maintenance:** ${data.summary.maintenanceCount} (${formatMinutes(data.summary.maintenanceMinutes)})`,
+    "",
+    ...data.systems.map(
+      (s) =>
+        `- ${s.name}: ${formatPercent(s.availability)}, p95 ${formatLatency(s.p95LatencyMs)}`,
+    ),
+    "",
+    "The full report is attached.",
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,67 @@
+import type { QueueManager } from "@checkstack/queue-api";
+import { generateReport, type ReportGeneratorDeps } from "./report-generator";
+import { getPeriodContaining } from "./period";
+
+const REPORT_QUEUE = "scheduled-reports";
+const REPORT_JOB_ID = "scheduled-report-check";
+const WORKER_GROUP = "scheduled-report-worker";
+
+/**
+ * Generate all reports whose period has ended.
+ * A definition that was due for several periods only reports the last one.
+ */
+export async function runDueReports(
+  deps: ReportGeneratorDeps,
+  now = new Date(),
+): Promise<void> {
+  const { service, logger } = deps;
+
+  for (const definition of await service.getDueDefinitions(now)) {
+    if (!(await service.claimRun(definition, now))) continue;
+
+    const period = getPeriodContaining(
+      definition.period,
+      new Date(definition.nextRunAt.getTime() - 1),
+    );
+    try {
+      const report = await generateReport(deps, definition, period);
+      logger.debug(
+        `Generated report "${definition.name}" (${report.id}), emailed to ${report.deliveredCount} recipients`,
+      );
+    } catch (error) {
+      // The run stays claimed, the report can be generated manually
+      logger.error(`Failed to generate report "${definition.name}":`, error);
+    }
+  }
+}
+
+/**
+ * Registers the job that checks for due reports every 15 minutes.
+ */
+export async function setupReportJob(
+  deps: ReportGeneratorDeps & { queueManager: QueueManager },
+): Promise<void> {
+  const { queueManager, logger } = deps;
+
+  const queue = queueManager.getQueue<Record<string, never>>(REPORT_QUEUE);
+
+  await queue.consume(
+    async () => {
+      await runDueReports(deps);
+    },
+    {
+      consumerGroup: WORKER_GROUP,
+      maxRetries: 0, // The next run picks up anything missed
+    },
+  );
+
+  await queue.scheduleRecurring(
+    {},
+    {
+      jobId: REPORT_JOB_ID,
+      cronPattern: "*/15 * * * *",
+    },
+  );
+
+  logger.debug("Scheduled report job registered (runs every 15 minutes)");
+}
@@ -0,0 +1,262 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import type { ReportData } from "@checkstack/report-common";
+import {
+  formatDate,
+  formatDateTime,
+  formatLatency,
+  formatMinutes,
+  formatPercent,
+  getDurationMinutes,
+  getLastDay,
+} from "./report-format";
+
+// A4 landscape, so the systems table fits on one line per system
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const ROW_HEIGHT = 16;
+
+const TEXT_COLOR = rgb(0.07, 0.09, 0.15);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const BORDER_COLOR = rgb(0.9, 0.91, 0.92);
+
+/**
+ * Sequential writer that starts a new page whenever content would overflow.
+ */
+class PdfWriter {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+  private readonly characterSet: Set<number>;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly boldFont: PDFFont,
+  ) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.characterSet = new Set(font.getCharacterSet());
+  }
+
+  /** Standard fonts only cover WinAnsi, other characters are replaced */
+  private sanitize(text: string): string {
+    return [...text]
+      .map((char) =>
+        this.characterSet.has(char.codePointAt(0) ?? 0) ? char : "?",
+      )
+      .join("");
+  }
+
+  private fit(text: string, font: PDFFont, size: number, width: number) {
+    let result = this.sanitize(text);
+    if (font.widthOfTextAtSize(result, size) <= width) return result;
+    while (
+      result.length > 1 &&
+      font.widthOfTextAtSize(`${result}...`, size) > width
+    ) {
+      result = result.slice(0, -1);
+    }
+    return `${result}...`;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height >= MARGIN) return;
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  text(
+    text: string,
+    options: { size?: number; bold?: boolean; muted?: boolean } = {},
+  ) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.boldFont : this.font;
+    this.ensureSpace(size * 1.4);
+    this.y -= size;
+    this.page.drawText(this.fit(text, font, size, CONTENT_WIDTH), {
+      x: MARGIN,
+      y: this.y,
+      size,
+      font,
+      color: options.muted ? MUTED_COLOR : TEXT_COLOR,
+    });
+    this.y -= size * 0.4;
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  /**
+   * Labelled values side by side, e.g. the summary figures.
+   */
+  figures(figures: [label: string, value: string][]) {
+    const width = CONTENT_WIDTH / figures.length;
+    this.ensureSpace(40);
+    for (const [index, [label, value]] of figures.entries()) {
+      const x = MARGIN + index * width;
+      this.page.drawText(this.sanitize(label.toUpperCase()), {
+        x,
+        y: this.y - 9,
+        size: 8,
+        font: this.font,
+        color: MUTED_COLOR,
+      });
+      this.page.drawText(this.fit(value, this.boldFont, 16, width - 8), {
+        x,
+        y: this.y - 30,
+        size: 16,
+        font: this.boldFont,
+        color: TEXT_COLOR,
+      });
+    }
+    this.y -= 40;
+  }
+
+  /**
+   * Table with relative column widths. The header is repeated on new pages.
+   */
+  table(headers: string[], rows: string[][], weights: number[]) {
+    if (rows.length === 0) {
+      this.text("None in this period.", { muted: true });
+      return;
+    }
+
+    let totalWeight = 0;
+    for (const weight of weights) totalWeight += weight;
+    const widths = weights.map((w) => (w / totalWeight) * CONTENT_WIDTH);
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const font = bold ? this.boldFont : this.font;
+      let x = MARGIN;
+      for (const [index, cell] of cells.entries()) {
+        this.page.drawText(this.fit(cell, font, 8, widths[index] - 6), {
+          x: x + 2,
+          y: this.y - 11,
+          size: 8,
+          font,
+          color: TEXT_COLOR,
+        });
+        x += widths[index];
+      }
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y - ROW_HEIGHT },
+        end: { x: MARGIN + CONTENT_WIDTH, y: this.y - ROW_HEIGHT },
+        thickness: 0.5,
+        color: BORDER_COLOR,
+      });
+      this.y -= ROW_HEIGHT;
+    };
+
+    this.ensureSpace(2 * ROW_HEIGHT);
+    drawRow(headers, true);
+    for (const row of rows) {
+      if (this.y - ROW_HEIGHT < MARGIN) {
+        this.ensureSpace(2 * ROW_HEIGHT);
+        drawRow(headers, true);
+      }
+      drawRow(row, false);
+    }
+  }
+}
+
+/**
+ * Render a report as a PDF document.
+ */
+export async function renderReportPdf(data: ReportData): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(data.title);
+  doc.setCreationDate(data.generatedAt);
+
+  const writer = new PdfWriter(
+    doc,
+    await doc.embedFont(StandardFonts.Helvetica),
+    await doc.embedFont(StandardFonts.HelveticaBold),
+  );
+
+  const systemNames = new Map(data.systems.map((s) => [s.systemId, s.name]));
+  const namesOf = (ids: string[]) =>
+    ids.map((id) => systemNames.get(id) ?? id).join(", ");
+
+  writer.text(data.title, { size: 20, bold: true });
+  writer.text(
+    `${formatDate(data.periodStart)} – ${formatDate(getLastDay(data.periodEnd))} (UTC) · Generated ${formatDateTime(data.generatedAt)}`,
+    { muted: true },
+  );
+  writer.space(12);
+  writer.figures([
+    ["Availability", formatPercent(data.summary.availability)],
+    ["Incidents", String(data.summary.incidentCount)],
+    ["MTTR", formatMinutes(data.summary.mttrMinutes)],
+    ["Maintenance", formatMinutes(data.summary.maintenanceMinutes)],
+  ]);
+
+  writer.space(12);
+  writer.text("Systems", { size: 14, bold: true });
+  writer.table(
+    [
+      "System",
+      "Availability",
+      "Runs",
+      "Degraded",
+      "Unhealthy",
+      "p50",
+      "p95",
+      "p99",
+      "Incidents",
+      "MTTR",
+      "Maintenance",
+    ],
+    data.systems.map((s) => [
+      s.name,
+      formatPercent(s.availability),
+      String(s.totalRuns),
+      String(s.degradedRuns),
+      String(s.unhealthyRuns),
+      formatLatency(s.p50LatencyMs),
+      formatLatency(s.p95LatencyMs),
+      formatLatency(s.p99LatencyMs),
+      String(s.incidentCount),
+      formatMinutes(s.mttrMinutes),
+      formatMinutes(s.maintenanceMinutes),
+    ]),
+    [3, 1.4, 1, 1, 1, 1, 1, 1, 1, 1.2, 1.2],
+  );
+
+  writer.space(12);
+  writer.text("Incidents", { size: 14, bold: true });
+  writer.table(
+    ["Incident", "Severity", "Systems", "Opened", "Resolved", "Duration"],
+    data.incidents.map((i) => [
+      i.title,
+      i.severity,
+      namesOf(i.systemIds),
+      formatDateTime(i.createdAt),
+      formatDateTime(i.resolvedAt),
+      formatMinutes(getDurationMinutes(i.createdAt, i.resolvedAt)),
+    ]),
+    [3, 1, 2.5, 1.6, 1.6, 1],
+  );
+
+  writer.space(12);
+  writer.text("Maintenances", { size: 14, bold: true });
+  writer.table(
+    ["Maintenance", "Systems", "Start", "End", "Duration"],
+    data.maintenances.map((m) => [
+      m.title,
+      namesOf(m.systemIds),
+      formatDateTime(m.startAt),
+      formatDateTime(m.endAt),
+      formatMinutes(getDurationMinutes(m.startAt, m.endAt)),
+    ]),
+    [3, 3, 1.6, 1.6, 1],
+  );
+
+  return doc.save();
+}
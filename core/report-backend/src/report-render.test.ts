@@ -0,0 +1,94 @@
+import { describe, expect, it } from "bun:test";
+import type { ReportData } from "@checkstack/report-common";
+import { renderReportHtml, renderReportMarkdown } from "./report-html";
+import { renderReportPdf } from "./report-pdf";
+
+const data: ReportData = {
+  title: "Platform <Availability> – March 2025",
+  periodStart: new Date("2025-03-01T00:00:00Z"),
+  periodEnd: new Date("2025-04-01T00:00:00Z"),
+  generatedAt: new Date("2025-04-01T00:15:00Z"),
+  summary: {
+    availability: 99.95,
+    totalRuns: 2000,
+    incidentCount: 1,
+    mttrMinutes: 90,
+    maintenanceCount: 0,
+    maintenanceMinutes: 0,
+  },
+  systems: [
+    {
+      systemId: "api",
+      name: "API 🚀",
+      availability: 99.95,
+      totalRuns: 2000,
+      healthyRuns: 1999,
+      degradedRuns: 0,
+      unhealthyRuns: 1,
+      p50LatencyMs: 80,
+      p95LatencyMs: 150,
+      p99LatencyMs: 400,
+      incidentCount: 1,
+      mttrMinutes: 90,
+      maintenanceMinutes: 0,
+    },
+  ],
+  incidents: [
+    {
+      id: "inc-1",
+      title: "Elevated error rates",
+      severity: "major",
+      status: "resolved",
+      systemIds: ["api"],
+      createdAt: new Date("2025-03-10T10:00:00Z"),
+      resolvedAt: new Date("2025-03-10T11:30:00Z"),
+    },
+  ],
+  maintenances: [],
+};
+
+describe("renderReportHtml", () => {
+  it("renders an escaped standalone document", () => {
+    const html = renderReportHtml(data);
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("Platform &lt;Availability&gt;");
+    expect(html).toContain("2025-03-01 – 2025-03-31");
+    expect(html).toContain("99.950%");
+    expect(html).toContain("1h 30m");
+    expect(html).toContain("None in this period.");
+  });
+});
+
+describe("renderReportMarkdown", () => {
+  it("summarizes the report for the email body", () => {
+    const markdown = renderReportMarkdown(data);
+
+    expect(markdown).toContain("**Availability:** 99.950%");
+    expect(markdown).toContain("- API 🚀: 99.950%, p95 150 ms");
+  });
+});
+
+describe("renderReportPdf", () => {
+  it("renders a PDF even with characters outside the standard fonts", async () => {
+    const pdf = await renderReportPdf(data);
+
+    expect(new TextDecoder().decode(pdf.slice(0, 5))).toBe("%PDF-");
+  });
+
+  it("continues long tables on new pages", async () => {
+    const many: ReportData = {
+      ...data,
+      systems: Array.from({ length: 120 }, (_, i) => ({
+        ...data.systems[0],
+        systemId: `sys-${i}`,
+        name: `System ${i}`,
+      })),
+    };
+
+    const single = await renderReportPdf(data);
+    const multi = await renderReportPdf(many);
+
+    expect(multi.length).toBeGreaterThan(single.length);
+  });
+});
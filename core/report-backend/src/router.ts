@@ -0,0 +1,75 @@
+import { implement, ORPCError } from "@orpc/server";
+import { reportContract } from "@checkstack/report-common";
+import { autoAuthMiddleware, type RpcContext } from "@checkstack/backend-api";
+import { getPreviousPeriod } from "./period";
+import {
+  generateReport,
+  renderReportFile,
+  type ReportGeneratorDeps,
+} from "./report-generator";
+
+export function createRouter(deps: ReportGeneratorDeps) {
+  const { service } = deps;
+
+  const os = implement(reportContract)
+    .$context<RpcContext>()
+    .use(autoAuthMiddleware);
+
+  return os.router({
+    // =========================================================================
+    // REPORT DEFINITIONS
+    // =========================================================================
+
+    listDefinitions: os.listDefinitions.handler(async () => {
+      return service.listDefinitions();
+    }),
+
+    createDefinition: os.createDefinition.handler(async ({ input }) => {
+      return service.createDefinition(input);
+    }),
+
+    updateDefinition: os.updateDefinition.handler(async ({ input }) => {
+      const definition = await service.updateDefinition(input);
+      if (!definition) {
+        throw new ORPCError("NOT_FOUND", { message: "Report not found" });
+      }
+      return definition;
+    }),
+
+    deleteDefinition: os.deleteDefinition.handler(async ({ input }) => {
+      return { success: await service.deleteDefinition(input.id) };
+    }),
+
+    runDefinition: os.runDefinition.handler(async ({ input }) => {
+      const definition = await service.getDefinition(input.id);
+      if (!definition) {
+        throw new ORPCError("NOT_FOUND", { message: "Report not found" });
+      }
+      return generateReport(
+        deps,
+        definition,
+        getPreviousPeriod(definition.period, new Date()),
+      );
+    }),
+
+    // =========================================================================
+    // ARCHIVE
+    // =========================================================================
+
+    listReports: os.listReports.handler(async ({ input }) => {
+      return service.listReports(input);
+    }),
+
+    downloadReport: os.downloadReport.handler(async ({ input }) => {
+      const archived = await service.getReport(input.id);
+      if (!archived) {
+        throw new ORPCError("NOT_FOUND", { message: "Report not found" });
+      }
+      return renderReportFile(archived.data, input.format);
+    }),
+
+    deleteReport: os.deleteReport.handler(async ({ input }) => {
+      return { success: await service.deleteReport(input.id) };
+    }),
+  });
+}
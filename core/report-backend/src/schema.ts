@@ -0,0 +1,73 @@
+import {
+  pgTable,
+  pgEnum,
+  text,
+  timestamp,
+  jsonb,
+  integer,
+  boolean,
+  index,
+} from "drizzle-orm/pg-core";
+import type { ReportData, ReportScope } from "@checkstack/report-common";
+
+/**
+ * Report period enum
+ */
+export const reportPeriodEnum = pgEnum("report_period", [
+  "weekly",
+  "monthly",
+  "quarterly",
+]);
+
+/**
+ * Report format enum
+ */
+export const reportFormatEnum = pgEnum("report_format", ["pdf", "html"]);
+
+/**
+ * Recurring availability reports and who receives them
+ */
+export const reportDefinitions = pgTable("report_definitions", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  scope: jsonb("scope").notNull().$type<ReportScope>(),
+  period: reportPeriodEnum("period").notNull(),
+  format: reportFormatEnum("format").notNull(),
+  /** Email addresses */
+  recipients: jsonb("recipients").notNull().$type<string[]>(),
+  enabled: boolean("enabled").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Archive of generated reports. The content is kept as a snapshot, so a
+ * report renders identically no matter when it is downloaded.
+ */
+export const generatedReports = pgTable(
+  "generated_reports",
+  {
+    id: text("id").primaryKey(),
+    definitionId: text("definition_id").references(() => reportDefinitions.id, {
+      onDelete: "set null",
+    }),
+    name: text("name").notNull(),
+    period: reportPeriodEnum("period").notNull(),
+    periodStart: timestamp("period_start").notNull(),
+    periodEnd: timestamp("period_end").notNull(),
+    format: reportFormatEnum("format").notNull(),
+    data: jsonb("data").notNull().$type<ReportData>(),
+    recipients: jsonb("recipients").notNull().$type<string[]>(),
+    deliveredCount: integer("delivered_count").notNull().default(0),
+    deliveryError: text("delivery_error"),
+    generatedAt: timestamp("generated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    generatedAtIdx: index("generated_reports_generated_at_idx").on(
+      t.generatedAt,
+    ),
+  }),
+);
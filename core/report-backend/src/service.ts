@@ -0,0 +1,251 @@
+import { and, count, desc, eq, lte } from "drizzle-orm";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import {
+  ReportDataSchema,
+  type CreateReportDefinitionInput,
+  type GeneratedReport,
+  type ReportData,
+  type ReportDefinition,
+  type UpdateReportDefinitionInput,
+} from "@checkstack/report-common";
+import * as schema from "./schema";
+import { generatedReports, reportDefinitions } from "./schema";
+import { getNextRunAt, type PeriodBounds } from "./period";
+
+type Db = SafeDatabase<typeof schema>;
+
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+const toDefinition = (
+  row: typeof reportDefinitions.$inferSelect,
+): ReportDefinition => ({
+  ...row,
+  description: row.description ?? undefined,
+  lastRunAt: row.lastRunAt ?? undefined,
+});
+
+const toGeneratedReport = (
+  row: Omit<typeof generatedReports.$inferSelect, "data">,
+): GeneratedReport => ({
+  ...row,
+  definitionId: row.definitionId ?? undefined,
+  deliveryError: row.deliveryError ?? undefined,
+});
+
+const generatedReportColumns = {
+  id: generatedReports.id,
+  definitionId: generatedReports.definitionId,
+  name: generatedReports.name,
+  period: generatedReports.period,
+  periodStart: generatedReports.periodStart,
+  periodEnd: generatedReports.periodEnd,
+  format: generatedReports.format,
+  recipients: generatedReports.recipients,
+  deliveredCount: generatedReports.deliveredCount,
+  deliveryError: generatedReports.deliveryError,
+  generatedAt: generatedReports.generatedAt,
+};
+
+export class ReportService {
+  constructor(private db: Db) {}
+
+  // ===========================================================================
+  // DEFINITIONS
+  // ===========================================================================
+
+  async listDefinitions(): Promise<ReportDefinition[]> {
+    const rows = await this.db
+      .select()
+      .from(reportDefinitions)
+      .orderBy(reportDefinitions.name);
+    return rows.map((row) => toDefinition(row));
+  }
+
+  async getDefinition(id: string): Promise<ReportDefinition | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(reportDefinitions)
+      .where(eq(reportDefinitions.id, id));
+    return row ? toDefinition(row) : undefined;
+  }
+
+  async createDefinition(
+    input: CreateReportDefinitionInput,
+    now = new Date(),
+  ): Promise<ReportDefinition> {
+    const [row] = await this.db
+      .insert(reportDefinitions)
+      .values({
+        id: generateId(),
+        ...input,
+        nextRunAt: getNextRunAt(input.period, now),
+      })
+      .returning();
+    return toDefinition(row);
+  }
+
+  /**
+   * Update a definition. Changing the period reschedules the next report.
+   */
+  async updateDefinition(
+    input: UpdateReportDefinitionInput,
+    now = new Date(),
+  ): Promise<ReportDefinition | undefined> {
+    const { id, ...values } = input;
+    const [row] = await this.db
+      .update(reportDefinitions)
+      .set({
+        ...values,
+        ...(values.period && { nextRunAt: getNextRunAt(values.period, now) }),
+        updatedAt: now,
+      })
+      .where(eq(reportDefinitions.id, id))
+      .returning();
+    return row ? toDefinition(row) : undefined;
+  }
+
+  async deleteDefinition(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(reportDefinitions)
+      .where(eq(reportDefinitions.id, id))
+      .returning({ id: reportDefinitions.id });
+    return deleted.length > 0;
+  }
+
+  async getDueDefinitions(now: Date): Promise<ReportDefinition[]> {
+    const rows = await this.db
+      .select()
+      .from(reportDefinitions)
+      .where(
+        and(
+          eq(reportDefinitions.enabled, true),
+          lte(reportDefinitions.nextRunAt, now),
+        ),
+      );
+    return rows.map((row) => toDefinition(row));
+  }
+
+  /**
+   * Move a due definition to its next period. Only succeeds for the caller
+   * that still sees the old due date, so concurrent instances never
+   * generate the same report twice.
+   */
+  async claimRun(definition: ReportDefinition, now: Date): Promise<boolean> {
+    const claimed = await this.db
+      .update(reportDefinitions)
+      .set({
+        lastRunAt: now,
+        nextRunAt: getNextRunAt(definition.period, now),
+      })
+      .where(
+        and(
+          eq(reportDefinitions.id, definition.id),
+          eq(reportDefinitions.nextRunAt, definition.nextRunAt),
+        ),
+      )
+      .returning({ id: reportDefinitions.id });
+    return claimed.length > 0;
+  }
+
+  // ===========================================================================
+  // ARCHIVE
+  // ===========================================================================
+
+  async archiveReport({
+    definition,
+    period,
+    data,
+  }: {
+    definition: ReportDefinition;
+    period: PeriodBounds;
+    data: ReportData;
+  }): Promise<GeneratedReport> {
+    const [row] = await this.db
+      .insert(generatedReports)
+      .values({
+        id: generateId(),
+        definitionId: definition.id,
+        name: definition.name,
+        period: definition.period,
+        periodStart: period.start,
+        periodEnd: period.end,
+        format: definition.format,
+        data,
+        recipients: definition.recipients,
+        generatedAt: data.generatedAt,
+      })
+      .returning(generatedReportColumns);
+    return toGeneratedReport(row);
+  }
+
+  async recordDelivery(
+    id: string,
+    delivery: { deliveredCount: number; deliveryError?: string },
+  ): Promise<GeneratedReport | undefined> {
+    const [row] = await this.db
+      .update(generatedReports)
+      .set({
+        deliveredCount: delivery.deliveredCount,
+        // eslint-disable-next-line unicorn/no-null -- Drizzle requires null to clear a column
+        deliveryError: delivery.deliveryError ?? null,
+      })
+      .where(eq(generatedReports.id, id))
+      .returning(generatedReportColumns);
+    return row ? toGeneratedReport(row) : undefined;
+  }
+
+  async listReports({
+    definitionId,
+    limit,
+    offset,
+  }: {
+    definitionId?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ reports: GeneratedReport[]; total: number }> {
+    const filter = definitionId
+      ? eq(generatedReports.definitionId, definitionId)
+      : undefined;
+
+    const rows = await this.db
+      .select(generatedReportColumns)
+      .from(generatedReports)
+      .where(filter)
+      .orderBy(desc(generatedReports.generatedAt))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(generatedReports)
+      .where(filter);
+
+    return { reports: rows.map((row) => toGeneratedReport(row)), total };
+  }
+
+  async getReport(
+    id: string,
+  ): Promise<{ report: GeneratedReport; data: ReportData } | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(generatedReports)
+      .where(eq(generatedReports.id, id));
+    if (!row) return undefined;
+
+    const { data, ...report } = row;
+    // Dates are stored as strings in the JSON snapshot
+    return {
+      report: toGeneratedReport(report),
+      data: ReportDataSchema.parse(data),
+    };
+  }
+
+  async deleteReport(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(generatedReports)
+      .where(eq(generatedReports.id, id))
+      .returning({ id: generatedReports.id });
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,27 @@
+import { accessPair } from "@checkstack/common";
+
+/**
+ * Access rules for the Report plugin.
+ */
+export const reportAccess = {
+  /**
+   * Report definitions and the archive of generated reports.
+   */
+  report: accessPair("report", {
+    read: {
+      description: "View availability reports and download archived reports",
+      isDefault: true,
+    },
+    manage: {
+      description: "Manage availability report definitions and recipients",
+    },
+  }),
+};
+
+/**
+ * All access rules for registration with the plugin system.
+ */
+export const reportAccessRules = [
+  reportAccess.report.read,
+  reportAccess.report.manage,
+];
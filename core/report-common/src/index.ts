@@ -0,0 +1,5 @@
+export * from "./schemas";
+export * from "./access";
+export { reportContract, ReportApi, type ReportContract } from "./rpc-contract";
+export * from "./plugin-metadata";
+export { reportRoutes } from "./routes";
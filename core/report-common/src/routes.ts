@@ -0,0 +1,8 @@
+import { createRoutes } from "@checkstack/common";
+
+/**
+ * Route definitions for the report plugin.
+ */
+export const reportRoutes = createRoutes("report", {
+  home: "/",
+});
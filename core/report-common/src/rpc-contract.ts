@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { createClientDefinition, proc } from "@checkstack/common";
+import { reportAccess } from "./access";
+import { pluginMetadata } from "./plugin-metadata";
+import {
+  ReportDefinitionSchema,
+  CreateReportDefinitionInputSchema,
+  UpdateReportDefinitionInputSchema,
+  GeneratedReportSchema,
+  ReportFormatEnum,
+  ReportFileSchema,
+} from "./schemas";
+
+export const reportContract = {
+  // ==========================================================================
+  // REPORT DEFINITIONS
+  // ==========================================================================
+
+  listDefinitions: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [reportAccess.report.read],
+  }).output(z.array(ReportDefinitionSchema)),
+
+  createDefinition: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [reportAccess.report.manage],
+  })
+    .input(CreateReportDefinitionInputSchema)
+    .output(ReportDefinitionSchema),
+
+  updateDefinition: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [reportAccess.report.manage],
+  })
+    .input(UpdateReportDefinitionInputSchema)
+    .output(ReportDefinitionSchema),
+
+  /** Archived reports of the definition are kept */
+  deleteDefinition: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [reportAccess.report.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+
+  /**
+   * Generate the report for the last complete period right away and email
+   * it to the recipients. Does not change when the next report is due.
+   */
+  runDefinition: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [reportAccess.report.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(GeneratedReportSchema),
+
+  // ==========================================================================
+  // ARCHIVE
+  // ==========================================================================
+
+  /** Generated reports, newest first */
+  listReports: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [reportAccess.report.read],
+  })
+    .input(
+      z.object({
+        definitionId: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+        offset: z.number().int().min(0).default(0),
+      }),
+    )
+    .output(
+      z.object({
+        reports: z.array(GeneratedReportSchema),
+        total: z.number(),
+      }),
+    ),
+
+  /** Render an archived report in the requested format */
+  downloadReport: proc({
+    operationType: "query",
+    userType: "authenticated",
+    access: [reportAccess.report.read],
+  })
+    .input(z.object({ id: z.string(), format: ReportFormatEnum }))
+    .output(ReportFileSchema),
+
+  deleteReport: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [reportAccess.report.manage],
+  })
+    .input(z.object({ id: z.string() }))
+    .output(z.object({ success: z.boolean() })),
+};
+
+// Export contract type
+export type ReportContract = typeof reportContract;
+
+// Export client definition for type-safe forPlugin usage
+// Use: const client = rpcApi.forPlugin(ReportApi);
+export const ReportApi = createClientDefinition(reportContract, pluginMetadata);
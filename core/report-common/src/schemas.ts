@@ -0,0 +1,175 @@
+import { z } from "zod";
+
+// =============================================================================
+// REPORT DEFINITIONS
+// =============================================================================
+
+/** Calendar period covered by a report (UTC). Weeks start on Monday. */
+export const ReportPeriodEnum = z.enum(["weekly", "monthly", "quarterly"]);
+export type ReportPeriod = z.infer<typeof ReportPeriodEnum>;
+
+/** Format of the file attached to the email */
+export const ReportFormatEnum = z.enum(["pdf", "html"]);
+export type ReportFormat = z.infer<typeof ReportFormatEnum>;
+
+/**
+ * Systems covered by a report. Groups and views are resolved to their
+ * systems whenever a report is generated.
+ */
+export const ReportScopeSchema = z.object({
+  systemIds: z.array(z.string()),
+  groupIds: z.array(z.string()),
+  viewIds: z.array(z.string()),
+});
+export type ReportScope = z.infer<typeof ReportScopeSchema>;
+
+export const ReportDefinitionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  scope: ReportScopeSchema,
+  period: ReportPeriodEnum,
+  format: ReportFormatEnum,
+  /** Email addresses, recipients do not need a user account */
+  recipients: z.array(z.string()),
+  enabled: z.boolean(),
+  lastRunAt: z.coerce.date().optional(),
+  /** End of the current period, when the next report is generated */
+  nextRunAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+export type ReportDefinition = z.infer<typeof ReportDefinitionSchema>;
+
+const ReportDefinitionFieldsSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional(),
+  scope: ReportScopeSchema.refine(
+    (scope) =>
+      scope.systemIds.length + scope.groupIds.length + scope.viewIds.length > 0,
+    "Select at least one system, group or view",
+  ),
+  period: ReportPeriodEnum,
+  format: ReportFormatEnum,
+  recipients: z.array(z.string().email()),
+  enabled: z.boolean(),
+});
+
+export const CreateReportDefinitionInputSchema =
+  ReportDefinitionFieldsSchema.extend({
+    format: ReportFormatEnum.default("pdf"),
+    recipients: z.array(z.string().email()).default([]),
+    enabled: z.boolean().default(true),
+  });
+export type CreateReportDefinitionInput = z.infer<
+  typeof CreateReportDefinitionInputSchema
+>;
+
+export const UpdateReportDefinitionInputSchema =
+  ReportDefinitionFieldsSchema.partial().extend({
+    id: z.string(),
+  });
+export type UpdateReportDefinitionInput = z.infer<
+  typeof UpdateReportDefinitionInputSchema
+>;
+
+// =============================================================================
+// REPORT CONTENT
+// =============================================================================
+
+export const ReportSystemSchema = z.object({
+  systemId: z.string(),
+  name: z.string(),
+  /** Percentage of healthy runs, undefined without runs */
+  availability: z.number().optional(),
+  totalRuns: z.number(),
+  healthyRuns: z.number(),
+  degradedRuns: z.number(),
+  unhealthyRuns: z.number(),
+  avgLatencyMs: z.number().optional(),
+  p50LatencyMs: z.number().optional(),
+  p95LatencyMs: z.number().optional(),
+  p99LatencyMs: z.number().optional(),
+  incidentCount: z.number(),
+  /** Mean time to resolve incidents resolved within the period */
+  mttrMinutes: z.number().optional(),
+  maintenanceMinutes: z.number(),
+});
+export type ReportSystem = z.infer<typeof ReportSystemSchema>;
+
+export const ReportIncidentSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  severity: z.string(),
+  status: z.string(),
+  systemIds: z.array(z.string()),
+  createdAt: z.coerce.date(),
+  resolvedAt: z.coerce.date().optional(),
+});
+export type ReportIncident = z.infer<typeof ReportIncidentSchema>;
+
+export const ReportMaintenanceSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  systemIds: z.array(z.string()),
+  startAt: z.coerce.date(),
+  endAt: z.coerce.date(),
+});
+export type ReportMaintenance = z.infer<typeof ReportMaintenanceSchema>;
+
+export const ReportSummarySchema = z.object({
+  /** Healthy runs of all systems divided by all runs */
+  availability: z.number().optional(),
+  totalRuns: z.number(),
+  incidentCount: z.number(),
+  mttrMinutes: z.number().optional(),
+  maintenanceCount: z.number(),
+  /** Minutes in which at least one system was under maintenance */
+  maintenanceMinutes: z.number(),
+});
+export type ReportSummary = z.infer<typeof ReportSummarySchema>;
+
+/**
+ * Snapshot of everything shown in a report.
+ * Archived reports are rendered from this snapshot.
+ */
+export const ReportDataSchema = z.object({
+  title: z.string(),
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  generatedAt: z.coerce.date(),
+  summary: ReportSummarySchema,
+  systems: z.array(ReportSystemSchema),
+  incidents: z.array(ReportIncidentSchema),
+  maintenances: z.array(ReportMaintenanceSchema),
+});
+export type ReportData = z.infer<typeof ReportDataSchema>;
+
+// =============================================================================
+// ARCHIVE
+// =============================================================================
+
+export const GeneratedReportSchema = z.object({
+  id: z.string(),
+  /** Undefined once the definition was deleted */
+  definitionId: z.string().optional(),
+  name: z.string(),
+  period: ReportPeriodEnum,
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  generatedAt: z.coerce.date(),
+  format: ReportFormatEnum,
+  recipients: z.array(z.string()),
+  /** Number of recipients the email was sent to */
+  deliveredCount: z.number(),
+  deliveryError: z.string().optional(),
+});
+export type GeneratedReport = z.infer<typeof GeneratedReportSchema>;
+
+export const ReportFileSchema = z.object({
+  filename: z.string(),
+  contentType: z.string(),
+  /** Base64-encoded file content */
+  content: z.string(),
+});
+export type ReportFile = z.infer<typeof ReportFileSchema>;
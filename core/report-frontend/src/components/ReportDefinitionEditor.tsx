@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  ReportApi,
+  type ReportDefinition,
+  type ReportFormat,
+  type ReportPeriod,
+} from "@checkstack/report-common";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  Button,
+  Input,
+  Label,
+  Textarea,
+  Checkbox,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  useToast,
+} from "@checkstack/ui";
+
+interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  definition?: ReportDefinition;
+  systems: ScopeOption[];
+  groups: ScopeOption[];
+  views: ScopeOption[];
+  onSave: () => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const parseRecipients = (value: string): string[] =>
+  value
+    .split(/[\s,;]+/)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean);
+
+const ScopeList: React.FC<{
+  label: string;
+  idPrefix: string;
+  options: ScopeOption[];
+  selected: Set<string>;
+  onToggle: (id: string) => void;
+}> = ({ label, idPrefix, options, selected, onToggle }) => (
+  <div className="grid gap-2">
+    <Label>{label}</Label>
+    <div className="max-h-36 overflow-y-auto border rounded-md p-3 space-y-2">
+      {options.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No {label.toLowerCase()} available
+        </p>
+      ) : (
+        options.map((option) => (
+          <div
+            key={option.id}
+            className="flex items-center space-x-2 p-2 rounded hover:bg-accent cursor-pointer"
+            onClick={() => onToggle(option.id)}
+          >
+            <Checkbox
+              id={`${idPrefix}-${option.id}`}
+              checked={selected.has(option.id)}
+            />
+            <Label
+              htmlFor={`${idPrefix}-${option.id}`}
+              className="cursor-pointer flex-1"
+            >
+              {option.name}
+            </Label>
+          </div>
+        ))
+      )}
+    </div>
+  </div>
+);
+
+const toggle = (set: Set<string>, id: string): Set<string> => {
+  const next = new Set(set);
+  if (next.has(id)) {
+    next.delete(id);
+  } else {
+    next.add(id);
+  }
+  return next;
+};
+
+export const ReportDefinitionEditor: React.FC<Props> = ({
+  open,
+  onOpenChange,
+  definition,
+  systems,
+  groups,
+  views,
+  onSave,
+}) => {
+  const reportClient = usePluginClient(ReportApi);
+  const toast = useToast();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [systemIds, setSystemIds] = useState<Set<string>>(new Set());
+  const [groupIds, setGroupIds] = useState<Set<string>>(new Set());
+  const [viewIds, setViewIds] = useState<Set<string>>(new Set());
+  const [period, setPeriod] = useState<ReportPeriod>("monthly");
+  const [format, setFormat] = useState<ReportFormat>("pdf");
+  const [recipients, setRecipients] = useState("");
+  const [enabled, setEnabled] = useState(true);
+
+  const createMutation = reportClient.createDefinition.useMutation({
+    onSuccess: () => {
+      toast.success("Report created");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  const updateMutation = reportClient.updateDefinition.useMutation({
+    onSuccess: () => {
+      toast.success("Report updated");
+      onSave();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save");
+    },
+  });
+
+  // Reset form when the definition changes
+  useEffect(() => {
+    setName(definition?.name ?? "");
+    setDescription(definition?.description ?? "");
+    setSystemIds(new Set(definition?.scope.systemIds));
+    setGroupIds(new Set(definition?.scope.groupIds));
+    setViewIds(new Set(definition?.scope.viewIds));
+    setPeriod(definition?.period ?? "monthly");
+    setFormat(definition?.format ?? "pdf");
+    setRecipients(definition?.recipients.join("\n") ?? "");
+    setEnabled(definition?.enabled ?? true);
+  }, [definition, open]);
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    if (systemIds.size + groupIds.size + viewIds.size === 0) {
+      toast.error("Select at least one system, group or view");
+      return;
+    }
+    const recipientList = parseRecipients(recipients);
+    const invalid = recipientList.find((r) => !EMAIL_PATTERN.test(r));
+    if (invalid) {
+      toast.error(`Invalid email address: ${invalid}`);
+      return;
+    }
+
+    const input = {
+      name,
+      description: description || undefined,
+      scope: {
+        systemIds: [...systemIds],
+        groupIds: [...groupIds],
+        viewIds: [...viewIds],
+      },
+      period,
+      format,
+      recipients: recipientList,
+      enabled,
+    };
+    if (definition) {
+      updateMutation.mutate({ id: definition.id, ...input });
+    } else {
+      createMutation.mutate(input);
+    }
+  };
+
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader>
+          <DialogTitle>
+            {definition ? "Edit Report" : "Create Report"}
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Define which systems a scheduled availability report covers and who
+            receives it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4 max-h-[70vh] overflow-y-auto">
+          <div className="grid gap-2">
+            <Label htmlFor="report-name">Name</Label>
+            <Input
+              id="report-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Monthly platform availability"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="report-description">Description</Label>
+            <Textarea
+              id="report-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <ScopeList
+              label="Systems"
+              idPrefix="report-system"
+              options={systems}
+              selected={systemIds}
+              onToggle={(id) => setSystemIds(toggle(systemIds, id))}
+            />
+            <ScopeList
+              label="Groups"
+              idPrefix="report-group"
+              options={groups}
+              selected={groupIds}
+              onToggle={(id) => setGroupIds(toggle(groupIds, id))}
+            />
+            <ScopeList
+              label="Views"
+              idPrefix="report-view"
+              options={views}
+              selected={viewIds}
+              onToggle={(id) => setViewIds(toggle(viewIds, id))}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Groups and views are resolved to their systems each time the report
+            is generated.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Period</Label>
+              <Select
+                value={period}
+                onValueChange={(v) => setPeriod(v as ReportPeriod)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="quarterly">Quarterly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Attachment</Label>
+              <Select
+                value={format}
+                onValueChange={(v) => setFormat(v as ReportFormat)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                  <SelectItem value="html">HTML</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="report-recipients">Recipients</Label>
+            <Textarea
+              id="report-recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder={"cto@example.com\nops-leads@example.com"}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              One email address per line. Leave empty to only archive the
+              report.
+            </p>
+          </div>
+
+          <div className="border rounded-md p-4 bg-muted/30">
+            <div
+              className="flex items-center gap-3 cursor-pointer"
+              onClick={() => setEnabled(!enabled)}
+            >
+              <Checkbox id="report-enabled" checked={enabled} />
+              <div className="flex-1">
+                <Label
+                  htmlFor="report-enabled"
+                  className="cursor-pointer font-medium"
+                >
+                  Enabled
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Generate the report automatically at the end of each period.
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? "Saving..." : definition ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
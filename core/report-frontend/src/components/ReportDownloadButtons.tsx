@@ -0,0 +1,74 @@
+import React from "react";
+import { usePluginClient } from "@checkstack/frontend-api";
+import {
+  ReportApi,
+  type ReportFile,
+  type ReportFormat,
+} from "@checkstack/report-common";
+import { Button, useToast } from "@checkstack/ui";
+import { Download } from "lucide-react";
+
+const saveFile = (file: ReportFile) => {
+  const bytes = Uint8Array.from(atob(file.content), (c) => c.codePointAt(0)!);
+  const url = URL.createObjectURL(
+    new Blob([bytes], { type: file.contentType }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface Props {
+  reportId: string;
+}
+
+export const ReportDownloadButtons: React.FC<Props> = ({ reportId }) => {
+  const reportClient = usePluginClient(ReportApi);
+  const toast = useToast();
+
+  // Only rendered on demand when downloading
+  const pdf = reportClient.downloadReport.useQuery(
+    { id: reportId, format: "pdf" },
+    { enabled: false },
+  );
+  const html = reportClient.downloadReport.useQuery(
+    { id: reportId, format: "html" },
+    { enabled: false },
+  );
+
+  const handleDownload = async (format: ReportFormat) => {
+    const { data, error } = await (format === "pdf" ? pdf : html).refetch();
+    if (!data) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to download report",
+      );
+      return;
+    }
+    saveFile(data);
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => void handleDownload("pdf")}
+        disabled={pdf.isFetching}
+      >
+        <Download className="h-4 w-4 mr-1" />
+        PDF
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => void handleDownload("html")}
+        disabled={html.isFetching}
+      >
+        <Download className="h-4 w-4 mr-1" />
+        HTML
+      </Button>
+    </>
+  );
+};
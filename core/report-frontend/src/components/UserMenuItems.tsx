@@ -0,0 +1,30 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { FileBarChart } from "lucide-react";
+import type { UserMenuItemsContext } from "@checkstack/frontend-api";
+import { DropdownMenuItem } from "@checkstack/ui";
+import { resolveRoute } from "@checkstack/common";
+import {
+  reportRoutes,
+  reportAccess,
+  pluginMetadata,
+} from "@checkstack/report-common";
+
+export const ReportUserMenuItems = ({
+  accessRules: userPerms,
+}: UserMenuItemsContext) => {
+  const qualifiedId = `${pluginMetadata.pluginId}.${reportAccess.report.read.id}`;
+  const canRead = userPerms.includes("*") || userPerms.includes(qualifiedId);
+
+  if (!canRead) {
+    return <React.Fragment />;
+  }
+
+  return (
+    <Link to={resolveRoute(reportRoutes.routes.home)}>
+      <DropdownMenuItem icon={<FileBarChart className="h-4 w-4" />}>
+        Reports
+      </DropdownMenuItem>
+    </Link>
+  );
+};
@@ -0,0 +1,30 @@
+import {
+  UserMenuItemsSlot,
+  createSlotExtension,
+  createFrontendPlugin,
+} from "@checkstack/frontend-api";
+import {
+  reportRoutes,
+  reportAccess,
+  pluginMetadata,
+} from "@checkstack/report-common";
+import { ReportsPage } from "./pages/ReportsPage";
+import { ReportUserMenuItems } from "./components/UserMenuItems";
+
+export const reportPlugin = createFrontendPlugin({
+  metadata: pluginMetadata,
+  routes: [
+    {
+      route: reportRoutes.routes.home,
+      element: <ReportsPage />,
+      title: "Reports",
+      accessRule: reportAccess.report.read,
+    },
+  ],
+  extensions: [
+    createSlotExtension(UserMenuItemsSlot, {
+      id: "report.user-menu.items",
+      component: ReportUserMenuItems,
+    }),
+  ],
+});
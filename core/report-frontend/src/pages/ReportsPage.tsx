@@ -0,0 +1,423 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import {
+  usePluginClient,
+  accessApiRef,
+  useApi,
+  wrapInSuspense,
+} from "@checkstack/frontend-api";
+import {
+  ReportApi,
+  reportAccess,
+  type GeneratedReport,
+  type ReportDefinition,
+} from "@checkstack/report-common";
+import { CatalogApi } from "@checkstack/catalog-common";
+import {
+  Badge,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Button,
+  LoadingSpinner,
+  EmptyState,
+  Pagination,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  useToast,
+  ConfirmationModal,
+  PageLayout,
+} from "@checkstack/ui";
+import { Edit2, FileBarChart, Play, Plus, Trash2 } from "lucide-react";
+import { ReportDefinitionEditor } from "../components/ReportDefinitionEditor";
+import { ReportDownloadButtons } from "../components/ReportDownloadButtons";
+
+const ARCHIVE_PAGE_SIZE = 20;
+
+const PERIOD_LABELS: Record<ReportDefinition["period"], string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+};
+
+const formatDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+/** Last day covered by a report, periods end exclusively */
+const formatPeriod = (report: GeneratedReport) =>
+  `${formatDay(report.periodStart)} – ${formatDay(
+    new Date(report.periodEnd.getTime() - 1),
+  )}`;
+
+const ReportsPageContent: React.FC = () => {
+  const reportClient = usePluginClient(ReportApi);
+  const catalogClient = usePluginClient(CatalogApi);
+  const accessApi = useApi(accessApiRef);
+  const toast = useToast();
+
+  const { allowed: canRead, loading: accessLoading } = accessApi.useAccess(
+    reportAccess.report.read,
+  );
+  const { allowed: canManage } = accessApi.useAccess(
+    reportAccess.report.manage,
+  );
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingDefinition, setEditingDefinition] = useState<
+    ReportDefinition | undefined
+  >();
+  const [deleteDefinitionId, setDeleteDefinitionId] = useState<
+    string | undefined
+  >();
+  const [deleteReportId, setDeleteReportId] = useState<string | undefined>();
+  const [page, setPage] = useState(1);
+
+  const {
+    data: definitions = [],
+    isLoading: definitionsLoading,
+    refetch: refetchDefinitions,
+  } = reportClient.listDefinitions.useQuery(undefined, { enabled: canRead });
+
+  const {
+    data: archive,
+    isLoading: archiveLoading,
+    refetch: refetchArchive,
+  } = reportClient.listReports.useQuery(
+    { limit: ARCHIVE_PAGE_SIZE, offset: (page - 1) * ARCHIVE_PAGE_SIZE },
+    { enabled: canRead },
+  );
+  const reports = archive?.reports ?? [];
+  const totalPages = Math.ceil((archive?.total ?? 0) / ARCHIVE_PAGE_SIZE);
+
+  const { data: systemsData } = catalogClient.getSystems.useQuery({});
+  const { data: groups = [] } = catalogClient.getGroups.useQuery({});
+  const { data: views = [] } = catalogClient.getViews.useQuery({});
+  const systems = systemsData?.systems ?? [];
+
+  const runMutation = reportClient.runDefinition.useMutation({
+    onSuccess: (report) => {
+      toast.success(
+        report.deliveryError
+          ? `Report generated, delivery failed: ${report.deliveryError}`
+          : `Report generated and sent to ${report.deliveredCount} recipient(s)`,
+      );
+      void refetchDefinitions();
+      void refetchArchive();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to generate report",
+      );
+    },
+  });
+
+  const deleteDefinitionMutation = reportClient.deleteDefinition.useMutation({
+    onSuccess: () => {
+      toast.success("Report deleted");
+      void refetchDefinitions();
+      setDeleteDefinitionId(undefined);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+      setDeleteDefinitionId(undefined);
+    },
+  });
+
+  const deleteReportMutation = reportClient.deleteReport.useMutation({
+    onSuccess: () => {
+      toast.success("Archived report deleted");
+      void refetchArchive();
+      setDeleteReportId(undefined);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+      setDeleteReportId(undefined);
+    },
+  });
+
+  const getScopeSummary = ({ scope }: ReportDefinition): string => {
+    const names = [
+      ...scope.systemIds.map(
+        (id) => systems.find((s) => s.id === id)?.name ?? id,
+      ),
+      ...scope.groupIds.map(
+        (id) => `Group: ${groups.find((g) => g.id === id)?.name ?? id}`,
+      ),
+      ...scope.viewIds.map(
+        (id) => `View: ${views.find((v) => v.id === id)?.name ?? id}`,
+      ),
+    ];
+    return names.length > 3
+      ? `${names.slice(0, 3).join(", ")} +${names.length - 3} more`
+      : names.join(", ");
+  };
+
+  const handleSave = () => {
+    setEditorOpen(false);
+    void refetchDefinitions();
+  };
+
+  return (
+    <PageLayout
+      title="Reports"
+      subtitle="Scheduled availability reports and their archive"
+      icon={FileBarChart}
+      loading={accessLoading}
+      allowed={canRead}
+      actions={
+        canManage ? (
+          <Button
+            onClick={() => {
+              setEditingDefinition(undefined);
+              setEditorOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Report
+          </Button>
+        ) : undefined
+      }
+    >
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Scheduled Reports</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {definitionsLoading ? (
+              <div className="p-12 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : definitions.length === 0 ? (
+              <EmptyState
+                title="No reports"
+                description="Create a report to email availability numbers at the end of each week, month or quarter."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Covers</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Recipients</TableHead>
+                    <TableHead>Next Report</TableHead>
+                    <TableHead className="w-36">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {definitions.map((definition) => (
+                    <TableRow key={definition.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{definition.name}</span>
+                          {!definition.enabled && (
+                            <Badge variant="secondary">Disabled</Badge>
+                          )}
+                        </div>
+                        {definition.description && (
+                          <p className="text-sm text-muted-foreground truncate max-w-xs">
+                            {definition.description}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs">
+                        {getScopeSummary(definition)}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {PERIOD_LABELS[definition.period]} (
+                        {definition.format.toUpperCase()})
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {definition.recipients.length === 0
+                          ? "Archive only"
+                          : definition.recipients.length === 1
+                            ? definition.recipients[0]
+                            : `${definition.recipients.length} recipients`}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {definition.enabled
+                          ? format(definition.nextRunAt, "MMM d, yyyy HH:mm")
+                          : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {canManage && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Generate the last period now"
+                              onClick={() =>
+                                runMutation.mutate({ id: definition.id })
+                              }
+                              disabled={runMutation.isPending}
+                            >
+                              <Play className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingDefinition(definition);
+                                setEditorOpen(true);
+                              }}
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setDeleteDefinitionId(definition.id)
+                              }
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Archive</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {archiveLoading ? (
+              <div className="p-12 flex justify-center">
+                <LoadingSpinner />
+              </div>
+            ) : reports.length === 0 ? (
+              <EmptyState
+                title="No generated reports"
+                description="Generated reports are archived here for download."
+              />
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Report</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Generated</TableHead>
+                      <TableHead>Delivery</TableHead>
+                      <TableHead className="w-56">Download</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell className="font-medium">
+                          {report.name}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {formatPeriod(report)}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {format(report.generatedAt, "MMM d, yyyy HH:mm")}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {report.deliveryError ? (
+                            <Badge
+                              variant="destructive"
+                              title={report.deliveryError}
+                            >
+                              Failed
+                            </Badge>
+                          ) : report.recipients.length === 0 ? (
+                            <span className="text-muted-foreground">
+                              Not emailed
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">
+                              {report.deliveredCount}/{report.recipients.length}{" "}
+                              recipients
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <ReportDownloadButtons reportId={report.id} />
+                            {canManage && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setDeleteReportId(report.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {totalPages > 1 && (
+                  <div className="p-4 border-t">
+                    <Pagination
+                      page={page}
+                      totalPages={totalPages}
+                      onPageChange={setPage}
+                      total={archive?.total}
+                      showTotal
+                    />
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ReportDefinitionEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        definition={editingDefinition}
+        systems={systems}
+        groups={groups}
+        views={views}
+        onSave={handleSave}
+      />
+
+      <ConfirmationModal
+        isOpen={!!deleteDefinitionId}
+        onClose={() => setDeleteDefinitionId(undefined)}
+        title="Delete Report"
+        message="Are you sure you want to delete this report? Archived reports are kept."
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={() =>
+          deleteDefinitionId &&
+          deleteDefinitionMutation.mutate({ id: deleteDefinitionId })
+        }
+        isLoading={deleteDefinitionMutation.isPending}
+      />
+
+      <ConfirmationModal
+        isOpen={!!deleteReportId}
+        onClose={() => setDeleteReportId(undefined)}
+        title="Delete Archived Report"
+        message="Are you sure you want to delete this archived report?"
+        confirmText="Delete"
+        variant="danger"
+        onConfirm={() =>
+          deleteReportId && deleteReportMutation.mutate({ id: deleteReportId })
+        }
+        isLoading={deleteReportMutation.isPending}
+      />
+    </PageLayout>
+  );
+};
+
+export const ReportsPage = wrapInSuspense(ReportsPageContent);
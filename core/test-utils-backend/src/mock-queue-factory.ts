@@ -89,6 +89,10 @@ export function createMockQueueManager(): QueueManager {
         };
       },
       getInFlightCount: async () => 0,
+      listJobs: async () => [],
+      listDeadLetters: async () => [],
+      requeueDeadLetter: async () => false,
+      purgeDeadLetters: async () => 0,
       testConnection: async () => {
         // Mock implementation - always succeeds
       },
@@ -133,6 +137,10 @@ export function createMockQueueManager(): QueueManager {
       consumerGroups: 0,
     }),
     listAllRecurringJobs: async (): Promise<RecurringJobInfo[]> => [],
+    listAllJobs: async () => [],
+    listAllDeadLetters: async () => [],
+    requeueDeadLetter: async () => false,
+    purgeDeadLetters: async () => 0,
     startPolling: () => {},
     shutdown: async () => {
       for (const queue of queues.values()) {
@@ -0,0 +1,10 @@
+CREATE TABLE "organisation_branding" (
+	"id" text PRIMARY KEY NOT NULL,
+	"product_name" text NOT NULL,
+	"logo" text,
+	"favicon" text,
+	"light" jsonb NOT NULL,
+	"dark" jsonb NOT NULL,
+	"css_variables" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,57 @@
+import { describe, it, expect, mock } from "bun:test";
+import { createBrandingAssetsHandler, parseDataUrl } from "./branding";
+
+const BASE = "http://localhost:3000/api/theme/assets";
+
+describe("parseDataUrl", () => {
+  it("decodes base64 data URLs", () => {
+    const result = parseDataUrl("data:image/svg+xml;base64,PHN2Zy8+");
+    expect(result?.contentType).toBe("image/svg+xml");
+    expect(new TextDecoder().decode(result?.body)).toBe("<svg/>");
+  });
+
+  it("returns undefined for other values", () => {
+    expect(parseDataUrl("https://example.com/logo.png")).toBeUndefined();
+  });
+});
+
+describe("createBrandingAssetsHandler", () => {
+  const createHandler = (row: Record<string, unknown> | undefined) => {
+    const db = {
+      select: mock(() => ({
+        from: mock(() => ({
+          where: mock(() => ({
+            limit: mock(() => Promise.resolve(row ? [row] : [])),
+          })),
+        })),
+      })),
+    };
+    return createBrandingAssetsHandler(db as never);
+  };
+
+  it("serves the uploaded logo", async () => {
+    const handler = createHandler({
+      logo: "data:image/svg+xml;base64,PHN2Zy8+",
+      favicon: null,
+    });
+    const res = await handler(new Request(`${BASE}/logo?v=1`));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("image/svg+xml");
+    expect(res.headers.get("Content-Security-Policy")).toContain("sandbox");
+    expect(await res.text()).toBe("<svg/>");
+  });
+
+  it("returns 404 for missing images and unknown assets", async () => {
+    const handler = createHandler({ logo: null, favicon: null });
+
+    expect((await handler(new Request(`${BASE}/favicon`))).status).toBe(404);
+    expect((await handler(new Request(`${BASE}/other`))).status).toBe(404);
+  });
+
+  it("rejects other methods", async () => {
+    const handler = createHandler(undefined);
+    const res = await handler(new Request(`${BASE}/logo`, { method: "POST" }));
+    expect(res.status).toBe(405);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  BRANDING_ASSETS_API_PATH,
+  BrandingAssetSchema,
+  DEFAULT_PRODUCT_NAME,
+  getBrandingAssetPath,
+  type Branding,
+} from "@checkstack/theme-common";
+import type { SafeDatabase } from "@checkstack/backend-api";
+import { eq } from "drizzle-orm";
+import * as schema from "./schema";
+
+/** Id of the single organisation branding row */
+export const BRANDING_ID = "default";
+
+type BrandingRow = typeof schema.organisationBranding.$inferSelect;
+
+/**
+ * Branding served to clients. Images are referenced by asset path so the
+ * branding stays small enough to be fetched on every page load.
+ */
+export function toBranding(row: BrandingRow | undefined): Branding {
+  if (!row) {
+    return {
+      productName: DEFAULT_PRODUCT_NAME,
+      light: {},
+      dark: {},
+      cssVariables: {},
+    };
+  }
+  const version = row.updatedAt.getTime();
+  return {
+    productName: row.productName,
+    logoUrl: row.logo ? getBrandingAssetPath("logo", version) : undefined,
+    faviconUrl: row.favicon
+      ? getBrandingAssetPath("favicon", version)
+      : undefined,
+    light: row.light,
+    dark: row.dark,
+    cssVariables: row.cssVariables,
+  };
+}
+
+export async function getBrandingRow(
+  db: SafeDatabase<typeof schema>,
+): Promise<BrandingRow | undefined> {
+  const rows = await db
+    .select()
+    .from(schema.organisationBranding)
+    .where(eq(schema.organisationBranding.id, BRANDING_ID))
+    .limit(1);
+  return rows[0];
+}
+
+/**
+ * Decode a base64 data URL, undefined if it is malformed.
+ */
+export function parseDataUrl(
+  dataUrl: string,
+): { contentType: string; body: Uint8Array<ArrayBuffer> } | undefined {
+  const match = /^data:([\w+./-]+);base64,(.*)$/.exec(dataUrl);
+  if (!match) return undefined;
+  return {
+    contentType: match[1],
+    body: new Uint8Array(Buffer.from(match[2], "base64")),
+  };
+}
+
+/**
+ * HTTP handler serving the uploaded logo and favicon:
+ * `/api/theme/assets/logo` and `/api/theme/assets/favicon`.
+ *
+ * Asset paths carry the branding version, so responses can be cached long.
+ * Uploaded SVGs are sandboxed so they cannot run scripts on our origin.
+ */
+export function createBrandingAssetsHandler(db: SafeDatabase<typeof schema>) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const name = new URL(req.url).pathname
+      .slice(BRANDING_ASSETS_API_PATH.length)
+      .replaceAll(/^\/+|\/+$/g, "");
+    const asset = BrandingAssetSchema.safeParse(name);
+    if (!asset.success) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    const row = await getBrandingRow(db);
+    const dataUrl = row?.[asset.data];
+    const image = dataUrl ? parseDataUrl(dataUrl) : undefined;
+    if (!image) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    return new Response(image.body, {
+      status: 200,
+      headers: {
+        "Content-Type": image.contentType,
+        "Cache-Control": "public, max-age=86400",
+        "Content-Security-Policy":
+          "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  };
+}
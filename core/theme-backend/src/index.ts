@@ -2,16 +2,23 @@ import {
   createBackendPlugin,
   coreServices,
 } from "@checkstack/backend-api";
-import { pluginMetadata, themeContract } from "@checkstack/theme-common";
+import {
+  pluginMetadata,
+  themeAccessRules,
+  themeContract,
+} from "@checkstack/theme-common";
 import { eq } from "drizzle-orm";
 import * as schema from "./schema";
 import { createThemeRouter } from "./router";
+import { createBrandingAssetsHandler } from "./branding";
 import { authHooks } from "@checkstack/auth-backend";
 
 export default createBackendPlugin({
   metadata: pluginMetadata,
 
   register(env) {
+    env.registerAccessRules(themeAccessRules);
+
     // Register initialization logic with schema
     env.registerInit({
       schema,
@@ -24,6 +31,12 @@ export default createBackendPlugin({
         // Create and register the theme router
         const router = createThemeRouter(database);
         rpc.registerRouter(router, themeContract);
+
+        // Uploaded logo and favicon: /api/theme/assets/*
+        rpc.registerHttpHandler(
+          createBrandingAssetsHandler(database),
+          "/assets"
+        );
       },
       afterPluginsReady: async ({ database, logger, onHook }) => {
         const db = database;
@@ -124,4 +124,119 @@ describe("Theme Router", () => {
       }
     });
   });
+  describe("branding", () => {
+    const adminUser = { ...mockUser, accessRules: ["*"] };
+    const brandingRow = {
+      id: "default",
+      productName: "Acme Status",
+      logo: "data:image/png;base64,iVBORw0KGgo=",
+      favicon: null,
+      light: { primary: "#ff0000" },
+      dark: {},
+      cssVariables: { "--radius": "0.25rem" },
+      updatedAt: new Date(1000),
+    };
+
+    const mockBrandingSelect = (rows: unknown[]) => {
+      mockDb.select.mockReturnValueOnce({
+        from: mock(() => ({
+          where: mock(() => ({
+            limit: mock(() => Promise.resolve(rows)),
+          })),
+        })),
+      } as any);
+    };
+
+    const mockBrandingInsert = () => {
+      const values = mock((row: Record<string, unknown>) => ({
+        onConflictDoUpdate: mock(() => ({
+          returning: mock(() =>
+            Promise.resolve([{ ...brandingRow, ...row }])
+          ),
+        })),
+      }));
+      mockDb.insert.mockReturnValueOnce({ values } as any);
+      return values;
+    };
+
+    it("returns the default branding when none is configured", async () => {
+      const context = createMockRpcContext({ user: undefined });
+      mockBrandingSelect([]);
+
+      const result = await call(router.getBranding, undefined, { context });
+      expect(result).toEqual({
+        productName: "Checkstack",
+        light: {},
+        dark: {},
+        cssVariables: {},
+      });
+    });
+
+    it("serves uploaded images as versioned asset paths", async () => {
+      const context = createMockRpcContext({ user: undefined });
+      mockBrandingSelect([brandingRow]);
+
+      const result = await call(router.getBranding, undefined, { context });
+      expect(result.productName).toBe("Acme Status");
+      expect(result.logoUrl).toBe("/api/theme/assets/logo?v=1000");
+      expect(result.faviconUrl).toBeUndefined();
+    });
+
+    it("keeps the current logo when it is omitted", async () => {
+      const context = createMockRpcContext({ user: adminUser });
+      mockBrandingSelect([brandingRow]);
+      const values = mockBrandingInsert();
+
+      await call(
+        router.updateBranding,
+        {
+          productName: "Acme",
+          light: {},
+          dark: { accent: "#00ff00" },
+          cssVariables: {},
+        },
+        { context }
+      );
+
+      expect(values.mock.calls[0][0]).toMatchObject({
+        id: "default",
+        productName: "Acme",
+        logo: brandingRow.logo,
+        favicon: null,
+        dark: { accent: "#00ff00" },
+      });
+    });
+
+    it("removes the logo when it is null", async () => {
+      const context = createMockRpcContext({ user: adminUser });
+      mockBrandingSelect([brandingRow]);
+      mockBrandingInsert();
+
+      const result = await call(
+        router.updateBranding,
+        {
+          productName: "Acme",
+          logo: null,
+          light: {},
+          dark: {},
+          cssVariables: {},
+        },
+        { context }
+      );
+
+      expect(result.logoUrl).toBeUndefined();
+    });
+
+    it("requires the branding access rule", async () => {
+      const context = createMockRpcContext({ user: mockUser });
+
+      await expect(
+        call(
+          router.updateBranding,
+          { productName: "Acme", light: {}, dark: {}, cssVariables: {} },
+          { context }
+        )
+      ).rejects.toThrow("Missing access");
+    });
+  });
 });
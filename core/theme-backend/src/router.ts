@@ -8,12 +8,14 @@ import { themeContract } from "@checkstack/theme-common";
 import * as schema from "./schema";
 import { eq } from "drizzle-orm";
 import type { SafeDatabase } from "@checkstack/backend-api";
+import { BRANDING_ID, getBrandingRow, toBranding } from "./branding";
 
 /**
  * Creates the theme router using contract-based implementation.
  *
  * Auth is automatically enforced via autoAuthMiddleware based on
- * the contract's meta.userType (both endpoints are userType: "user").
+ * the contract's meta.userType. Theme preferences are per user, the
+ * organisation branding is readable anonymously.
  */
 export const createThemeRouter = (db: SafeDatabase<typeof schema>) => {
   // Create contract implementer with context type AND auto auth middleware
@@ -61,6 +63,35 @@ export const createThemeRouter = (db: SafeDatabase<typeof schema>) => {
           },
         });
     }),
+
+    getBranding: os.getBranding.handler(async () => {
+      return toBranding(await getBrandingRow(db));
+    }),
+
+    updateBranding: os.updateBranding.handler(async ({ input }) => {
+      const existing = await getBrandingRow(db);
+      const values = {
+        productName: input.productName,
+        // Omitted images keep the current upload, null removes it
+        logo: input.logo === undefined ? existing?.logo : input.logo,
+        favicon:
+          input.favicon === undefined ? existing?.favicon : input.favicon,
+        light: input.light,
+        dark: input.dark,
+        cssVariables: input.cssVariables,
+        updatedAt: new Date(),
+      };
+
+      const [row] = await db
+        .insert(schema.organisationBranding)
+        .values({ id: BRANDING_ID, ...values })
+        .onConflictDoUpdate({
+          target: [schema.organisationBranding.id],
+          set: values,
+        })
+        .returning();
+      return toBranding(row);
+    }),
   });
 };
 
@@ -1,4 +1,5 @@
-import { pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import type { BrandingPalette, CssVariables } from "@checkstack/theme-common";
 
 // User theme preference table
 export const userThemePreference = pgTable("user_theme_preference", {
@@ -6,3 +7,16 @@ export const userThemePreference = pgTable("user_theme_preference", {
   theme: text("theme").notNull().default("system"), // 'light', 'dark', or 'system'
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
+
+// Organisation branding, a single row with the id "default"
+export const organisationBranding = pgTable("organisation_branding", {
+  id: text("id").primaryKey(),
+  productName: text("product_name").notNull(),
+  // Images are stored as data URLs and served by the assets HTTP handler
+  logo: text("logo"),
+  favicon: text("favicon"),
+  light: jsonb("light").$type<BrandingPalette>().notNull(),
+  dark: jsonb("dark").$type<BrandingPalette>().notNull(),
+  cssVariables: jsonb("css_variables").$type<CssVariables>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
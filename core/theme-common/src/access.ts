@@ -0,0 +1,17 @@
+import { access } from "@checkstack/common";
+
+/**
+ * Access rules for the Theme plugin.
+ */
+export const themeAccess = {
+  /**
+   * Manage the organisation branding: logo, favicon, product name, colors
+   * and custom CSS variables. Reading the branding requires no access.
+   */
+  branding: access("branding", "manage", "Manage organisation branding"),
+};
+
+/**
+ * All access rules for registration with the plugin system.
+ */
+export const themeAccessRules = [themeAccess.branding];
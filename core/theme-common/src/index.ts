@@ -1,2 +1,22 @@
 export * from "./rpc-contract";
 export * from "./plugin-metadata";
+export { themeAccess, themeAccessRules } from "./access";
+export { themeRoutes } from "./routes";
+export {
+  DEFAULT_PRODUCT_NAME,
+  MAX_LOGO_DATA_URL_LENGTH,
+  MAX_FAVICON_DATA_URL_LENGTH,
+  BRANDING_ASSETS_API_PATH,
+  getBrandingAssetPath,
+  BrandingAssetSchema,
+  HexColorSchema,
+  BrandingPaletteSchema,
+  CssVariablesSchema,
+  BrandingSchema,
+  UpdateBrandingInputSchema,
+  type BrandingAsset,
+  type BrandingPalette,
+  type CssVariables,
+  type Branding,
+  type UpdateBrandingInput,
+} from "./schemas";
@@ -0,0 +1,8 @@
+import { createRoutes } from "@checkstack/common";
+
+/**
+ * Route definitions for the theme plugin.
+ */
+export const themeRoutes = createRoutes("theme", {
+  branding: "/branding",
+});
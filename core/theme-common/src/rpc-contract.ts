@@ -1,5 +1,7 @@
 import { createClientDefinition, proc } from "@checkstack/common";
 import { pluginMetadata } from "./plugin-metadata";
+import { themeAccess } from "./access";
+import { BrandingSchema, UpdateBrandingInputSchema } from "./schemas";
 import { z } from "zod";
 
 // Theme type - matches ThemeProvider's Theme type
@@ -33,6 +35,23 @@ export const themeContract = {
       })
     )
     .output(z.void()),
+
+  // Get the organisation branding
+  // Anonymous - login pages, public status pages and emails are branded too
+  getBranding: proc({
+    operationType: "query",
+    userType: "anonymous",
+    access: [],
+  }).output(BrandingSchema),
+
+  // Replace the organisation branding
+  updateBranding: proc({
+    operationType: "mutation",
+    userType: "authenticated",
+    access: [themeAccess.branding],
+  })
+    .input(UpdateBrandingInputSchema)
+    .output(BrandingSchema),
 };
 
 // Export contract type
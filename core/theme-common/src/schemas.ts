@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { pluginMetadata } from "./plugin-metadata";
+
+/** Product name shown when the organisation has not configured one */
+export const DEFAULT_PRODUCT_NAME = "Checkstack";
+
+/** Maximum size of an uploaded logo, as data URL */
+export const MAX_LOGO_DATA_URL_LENGTH = 512 * 1024;
+
+/** Maximum size of an uploaded favicon, as data URL */
+export const MAX_FAVICON_DATA_URL_LENGTH = 128 * 1024;
+
+/** Path of the theme HTTP handler serving the logo and favicon */
+export const BRANDING_ASSETS_API_PATH = `/api/${pluginMetadata.pluginId}/assets`;
+
+export const BrandingAssetSchema = z.enum(["logo", "favicon"]);
+export type BrandingAsset = z.infer<typeof BrandingAssetSchema>;
+
+/**
+ * Path of a branding asset, relative to the backend base URL.
+ * The version busts caches when the asset is replaced.
+ */
+export function getBrandingAssetPath(
+  asset: BrandingAsset,
+  version: number,
+): string {
+  return `${BRANDING_ASSETS_API_PATH}/${asset}?v=${version}`;
+}
+
+export const HexColorSchema = z
+  .string()
+  .regex(/^#[\dA-Fa-f]{6}$/, "Expected a hex color like #3b82f6");
+
+/**
+ * Brand colors of one color mode. Unset colors keep the built-in theme.
+ */
+export const BrandingPaletteSchema = z.object({
+  primary: HexColorSchema.optional(),
+  accent: HexColorSchema.optional(),
+});
+export type BrandingPalette = z.infer<typeof BrandingPaletteSchema>;
+
+/**
+ * Custom CSS variables applied on top of the theme, e.g.
+ * `{ "--radius": "0.25rem" }`. Values may not break out of the declaration.
+ */
+export const CssVariablesSchema = z.record(
+  z.string().regex(/^--[\w-]+$/, "CSS variable names must start with --"),
+  z
+    .string()
+    .max(200)
+    .regex(/^[^;{}<>\\]*$/, "CSS variable values may not contain ; { } < > \\"),
+);
+export type CssVariables = z.infer<typeof CssVariablesSchema>;
+
+const imageDataUrl = (maxLength: number) =>
+  z
+    .string()
+    .max(maxLength, "Image is too large")
+    .regex(
+      /^data:image\/(png|jpeg|gif|webp|svg\+xml|x-icon|vnd\.microsoft\.icon);base64,[\d+/=A-Za-z]+$/,
+      "Expected a base64 encoded PNG, JPEG, GIF, WebP, SVG or ICO image",
+    );
+
+/**
+ * Organisation branding as served to the frontend, emails and status pages.
+ */
+export const BrandingSchema = z.object({
+  productName: z.string(),
+  /** Logo path relative to the backend base URL */
+  logoUrl: z.string().optional(),
+  /** Favicon path relative to the backend base URL */
+  faviconUrl: z.string().optional(),
+  light: BrandingPaletteSchema,
+  dark: BrandingPaletteSchema,
+  cssVariables: CssVariablesSchema,
+});
+export type Branding = z.infer<typeof BrandingSchema>;
+
+/**
+ * Images are uploaded as data URLs: `null` removes the image, omitting it
+ * keeps the current one.
+ */
+export const UpdateBrandingInputSchema = z.object({
+  productName: z.string().trim().min(1).max(100),
+  logo: imageDataUrl(MAX_LOGO_DATA_URL_LENGTH).nullable().optional(),
+  favicon: imageDataUrl(MAX_FAVICON_DATA_URL_LENGTH).nullable().optional(),
+  light: BrandingPaletteSchema,
+  dark: BrandingPaletteSchema,
+  cssVariables: CssVariablesSchema,
+});
+export type UpdateBrandingInput = z.infer<typeof UpdateBrandingInputSchema>;
@@ -0,0 +1,30 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Palette } from "lucide-react";
+import type { UserMenuItemsContext } from "@checkstack/frontend-api";
+import { DropdownMenuItem } from "@checkstack/ui";
+import { resolveRoute } from "@checkstack/common";
+import {
+  themeRoutes,
+  themeAccess,
+  pluginMetadata,
+} from "@checkstack/theme-common";
+
+export const BrandingMenuItem = ({
+  accessRules: userPerms,
+}: UserMenuItemsContext) => {
+  const qualifiedId = `${pluginMetadata.pluginId}.${themeAccess.branding.id}`;
+  const canManage = userPerms.includes("*") || userPerms.includes(qualifiedId);
+
+  if (!canManage) {
+    return <React.Fragment />;
+  }
+
+  return (
+    <Link to={resolveRoute(themeRoutes.routes.branding)}>
+      <DropdownMenuItem icon={<Palette className="w-4 h-4" />}>
+        Branding
+      </DropdownMenuItem>
+    </Link>
+  );
+};
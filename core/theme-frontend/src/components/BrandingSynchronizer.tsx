@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { usePluginClient, useRuntimeConfig } from "@checkstack/frontend-api";
+import { useTheme } from "@checkstack/ui";
+import { ThemeApi } from "@checkstack/theme-common";
+import { toThemeBranding } from "../utils";
+
+/**
+ * Headless component that applies the organisation branding on load.
+ *
+ * The branding is public, so it is applied for logged-in and anonymous
+ * users alike. The branding page updates it directly after saving.
+ */
+export const BrandingSynchronizer = () => {
+  const { setBranding } = useTheme();
+  const { baseUrl } = useRuntimeConfig();
+  const themeClient = usePluginClient(ThemeApi);
+
+  const { data: branding } = themeClient.getBranding.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (branding) {
+      setBranding(toThemeBranding(branding, baseUrl));
+    }
+  }, [branding, baseUrl, setBranding]);
+
+  // Headless component - renders nothing
+  return <></>;
+};
@@ -1,16 +1,32 @@
 import {
   createFrontendPlugin,
+  createSlotExtension,
   NavbarRightSlot,
   UserMenuItemsBottomSlot,
+  UserMenuItemsSlot,
 } from "@checkstack/frontend-api";
-import { pluginMetadata } from "@checkstack/theme-common";
+import {
+  pluginMetadata,
+  themeAccess,
+  themeRoutes,
+} from "@checkstack/theme-common";
 import { ThemeToggleMenuItem } from "./components/ThemeToggleMenuItem";
 import { ThemeSynchronizer } from "./components/ThemeSynchronizer";
 import { NavbarThemeToggle } from "./components/NavbarThemeToggle";
+import { BrandingSynchronizer } from "./components/BrandingSynchronizer";
+import { BrandingMenuItem } from "./components/BrandingMenuItem";
+import { BrandingPage } from "./pages/BrandingPage";
 
 export const themePlugin = createFrontendPlugin({
   metadata: pluginMetadata,
-  routes: [],
+  routes: [
+    {
+      route: themeRoutes.routes.branding,
+      element: <BrandingPage />,
+      title: "Branding",
+      accessRule: themeAccess.branding,
+    },
+  ],
   extensions: [
     // Theme toggle in user menu (for logged-in users)
     {
@@ -24,6 +40,17 @@ export const themePlugin = createFrontendPlugin({
       slot: NavbarRightSlot,
       component: ThemeSynchronizer,
     },
+    // Branding synchronizer - headless component that applies the organisation branding
+    {
+      id: "theme.navbar.branding-synchronizer",
+      slot: NavbarRightSlot,
+      component: BrandingSynchronizer,
+    },
+    // Branding page link in user menu (for branding managers)
+    createSlotExtension(UserMenuItemsSlot, {
+      id: "theme.user-menu.branding",
+      component: BrandingMenuItem,
+    }),
     // Theme toggle button in navbar (for non-logged-in users)
     {
       id: "theme.navbar.toggle",
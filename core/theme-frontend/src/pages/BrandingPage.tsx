@@ -0,0 +1,369 @@
+import React, { useEffect, useState } from "react";
+import {
+  accessApiRef,
+  useApi,
+  usePluginClient,
+  useRuntimeConfig,
+  wrapInSuspense,
+} from "@checkstack/frontend-api";
+import {
+  ThemeApi,
+  themeAccess,
+  MAX_FAVICON_DATA_URL_LENGTH,
+  MAX_LOGO_DATA_URL_LENGTH,
+  type Branding,
+  type BrandingPalette,
+} from "@checkstack/theme-common";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  ColorPicker,
+  Input,
+  Label,
+  PageLayout,
+  useTheme,
+  useToast,
+} from "@checkstack/ui";
+import { Palette, Plus, Trash2, Upload } from "lucide-react";
+import { toThemeBranding } from "../utils";
+
+const ACCEPTED_IMAGES =
+  "image/png,image/jpeg,image/gif,image/webp,image/svg+xml,image/x-icon";
+
+/**
+ * Uploaded image: `undefined` keeps the stored image, `null` removes it.
+ */
+interface ImageState {
+  value: string | null | undefined;
+  previewUrl?: string;
+}
+
+interface CssVariableRow {
+  name: string;
+  value: string;
+}
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.addEventListener("load", () => resolve(reader.result as string));
+    reader.addEventListener("error", () => reject(reader.error));
+    reader.readAsDataURL(file);
+  });
+
+/** Drops empty colors, the built-in theme applies for them */
+const cleanPalette = (palette: BrandingPalette): BrandingPalette => ({
+  primary: palette.primary || undefined,
+  accent: palette.accent || undefined,
+});
+
+const ImageField: React.FC<{
+  id: string;
+  label: string;
+  description: string;
+  image: ImageState;
+  maxLength: number;
+  onChange: (image: ImageState) => void;
+  onError: (message: string) => void;
+}> = ({ id, label, description, image, maxLength, onChange, onError }) => {
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const dataUrl = await readAsDataUrl(file);
+    if (dataUrl.length > maxLength) {
+      onError(
+        `${label} must be smaller than ${Math.floor((maxLength * 3) / 4 / 1024)} KB`,
+      );
+      return;
+    }
+    onChange({ value: dataUrl, previewUrl: dataUrl });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-4">
+        <div className="flex h-16 w-32 items-center justify-center rounded-md border bg-muted/30">
+          {image.previewUrl ? (
+            <img
+              src={image.previewUrl}
+              alt={label}
+              className="max-h-14 max-w-28 object-contain"
+            />
+          ) : (
+            <span className="text-xs text-muted-foreground">None</span>
+          )}
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <label htmlFor={id} className="cursor-pointer">
+            <Upload className="h-4 w-4 mr-1" />
+            Upload
+          </label>
+        </Button>
+        <input
+          id={id}
+          type="file"
+          accept={ACCEPTED_IMAGES}
+          className="sr-only"
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!image.previewUrl}
+          // eslint-disable-next-line unicorn/no-null
+          onClick={() => onChange({ value: null })}
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Remove
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">{description}</p>
+    </div>
+  );
+};
+
+const PaletteFields: React.FC<{
+  mode: "light" | "dark";
+  palette: BrandingPalette;
+  onChange: (palette: BrandingPalette) => void;
+}> = ({ mode, palette, onChange }) => (
+  <div className="space-y-3">
+    <h3 className="text-sm font-semibold capitalize">{mode} mode</h3>
+    <div className="space-y-2">
+      <Label htmlFor={`${mode}-primary`}>Primary color</Label>
+      <ColorPicker
+        id={`${mode}-primary`}
+        value={palette.primary ?? ""}
+        onChange={(primary) => onChange({ ...palette, primary })}
+        placeholder="Built-in"
+      />
+    </div>
+    <div className="space-y-2">
+      <Label htmlFor={`${mode}-accent`}>Accent color</Label>
+      <ColorPicker
+        id={`${mode}-accent`}
+        value={palette.accent ?? ""}
+        onChange={(accent) => onChange({ ...palette, accent })}
+        placeholder="Built-in"
+      />
+    </div>
+  </div>
+);
+
+const BrandingPageContent: React.FC = () => {
+  const themeClient = usePluginClient(ThemeApi);
+  const accessApi = useApi(accessApiRef);
+  const { baseUrl } = useRuntimeConfig();
+  const { setBranding } = useTheme();
+  const toast = useToast();
+
+  const { allowed: canManage, loading: accessLoading } = accessApi.useAccess(
+    themeAccess.branding,
+  );
+
+  const { data: branding, isLoading } = themeClient.getBranding.useQuery();
+
+  const [productName, setProductName] = useState("");
+  const [logo, setLogo] = useState<ImageState>({ value: undefined });
+  const [favicon, setFavicon] = useState<ImageState>({ value: undefined });
+  const [light, setLight] = useState<BrandingPalette>({});
+  const [dark, setDark] = useState<BrandingPalette>({});
+  const [cssVariables, setCssVariables] = useState<CssVariableRow[]>([]);
+
+  const resetForm = (data: Branding) => {
+    const resolved = toThemeBranding(data, baseUrl);
+    setProductName(data.productName);
+    setLogo({ value: undefined, previewUrl: resolved.logoUrl });
+    setFavicon({ value: undefined, previewUrl: resolved.faviconUrl });
+    setLight(data.light);
+    setDark(data.dark);
+    setCssVariables(
+      Object.entries(data.cssVariables).map(([name, value]) => ({
+        name,
+        value,
+      })),
+    );
+  };
+
+  useEffect(() => {
+    if (branding) {
+      resetForm(branding);
+    }
+    // Only initialize the form when the branding is loaded
+  }, [branding]);
+
+  const updateMutation = themeClient.updateBranding.useMutation({
+    onSuccess: (result) => {
+      setBranding(toThemeBranding(result, baseUrl));
+      resetForm(result);
+      toast.success("Branding saved");
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save branding",
+      );
+    },
+  });
+
+  const updateVariable = (index: number, changes: Partial<CssVariableRow>) => {
+    setCssVariables((rows) =>
+      rows.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate({
+      productName,
+      logo: logo.value,
+      favicon: favicon.value,
+      light: cleanPalette(light),
+      dark: cleanPalette(dark),
+      cssVariables: Object.fromEntries(
+        cssVariables
+          .filter((row) => row.name.trim())
+          .map((row) => [row.name.trim(), row.value.trim()]),
+      ),
+    });
+  };
+
+  return (
+    <PageLayout
+      title="Branding"
+      subtitle="Logo, colors and product name shown in the app, emails and public status pages"
+      icon={Palette}
+      loading={accessLoading || isLoading}
+      allowed={canManage}
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Identity</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="product-name">Product name</Label>
+              <Input
+                id="product-name"
+                value={productName}
+                onChange={(e) => setProductName(e.target.value)}
+                maxLength={100}
+                className="max-w-sm"
+                required
+              />
+              <p className="text-sm text-muted-foreground">
+                Shown in the navigation bar, the browser title and emails.
+              </p>
+            </div>
+            <ImageField
+              id="branding-logo"
+              label="Logo"
+              description="Shown next to the product name and on top of emails and status pages."
+              image={logo}
+              maxLength={MAX_LOGO_DATA_URL_LENGTH}
+              onChange={setLogo}
+              onError={toast.error}
+            />
+            <ImageField
+              id="branding-favicon"
+              label="Favicon"
+              description="Browser tab icon of the app and status pages."
+              image={favicon}
+              maxLength={MAX_FAVICON_DATA_URL_LENGTH}
+              onChange={setFavicon}
+              onError={toast.error}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Colors</CardTitle>
+            <CardDescription>
+              Leave a color empty to keep the built-in one. Text colors on top
+              of them are picked automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-6 md:grid-cols-2">
+            <PaletteFields mode="light" palette={light} onChange={setLight} />
+            <PaletteFields mode="dark" palette={dark} onChange={setDark} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Custom CSS variables</CardTitle>
+            <CardDescription>
+              Override theme variables in both modes, e.g.{" "}
+              <code className="font-mono">--radius</code> with{" "}
+              <code className="font-mono">0.25rem</code>. Colors are HSL triples
+              like <code className="font-mono">217 91% 60%</code>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {cssVariables.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={row.name}
+                  onChange={(e) =>
+                    updateVariable(index, { name: e.target.value })
+                  }
+                  placeholder="--radius"
+                  className="font-mono"
+                  aria-label="Variable name"
+                  pattern="--[\w-]+"
+                  required
+                />
+                <Input
+                  value={row.value}
+                  onChange={(e) =>
+                    updateVariable(index, { value: e.target.value })
+                  }
+                  placeholder="0.25rem"
+                  className="font-mono"
+                  aria-label="Variable value"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setCssVariables((rows) =>
+                      rows.filter((_, i) => i !== index),
+                    )
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setCssVariables((rows) => [...rows, { name: "", value: "" }])
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add variable
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={updateMutation.isPending}>
+            Save branding
+          </Button>
+        </div>
+      </form>
+    </PageLayout>
+  );
+};
+
+export const BrandingPage = wrapInSuspense(BrandingPageContent);
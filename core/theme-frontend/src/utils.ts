@@ -0,0 +1,17 @@
+import type { Branding } from "@checkstack/theme-common";
+import type { ThemeBranding } from "@checkstack/ui";
+
+/**
+ * Branding for the ThemeProvider. Asset paths are relative to the backend,
+ * which is not necessarily the origin the frontend is served from.
+ */
+export function toThemeBranding(
+  branding: Branding,
+  baseUrl: string,
+): ThemeBranding {
+  return {
+    ...branding,
+    logoUrl: branding.logoUrl && `${baseUrl}${branding.logoUrl}`,
+    faviconUrl: branding.faviconUrl && `${baseUrl}${branding.faviconUrl}`,
+  };
+}
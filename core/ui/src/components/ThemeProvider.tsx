@@ -1,7 +1,34 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { getForegroundHslTriple, hexToHslTriple } from "../utils/color";
 
 type Theme = "light" | "dark" | "system";
 
+/** Brand colors of one color mode (hex) */
+interface ThemeBrandingPalette {
+  primary?: string;
+  accent?: string;
+}
+
+/**
+ * Organisation branding applied on top of the built-in theme.
+ * Matches the branding served by the theme plugin, with absolute image URLs.
+ */
+export interface ThemeBranding {
+  productName: string;
+  logoUrl?: string;
+  faviconUrl?: string;
+  light: ThemeBrandingPalette;
+  dark: ThemeBrandingPalette;
+  /** Custom CSS variables, e.g. `{ "--radius": "0.25rem" }` */
+  cssVariables: Record<string, string>;
+}
+
 interface ThemeProviderProps {
   children: React.ReactNode;
   defaultTheme?: Theme;
@@ -13,6 +40,9 @@ interface ThemeProviderState {
   /** The actual resolved theme ("light" or "dark"), accounting for system preference */
   resolvedTheme: "light" | "dark";
   setTheme: (theme: Theme) => void;
+  /** Organisation branding, undefined until it is loaded */
+  branding?: ThemeBranding;
+  setBranding: (branding: ThemeBranding | undefined) => void;
 }
 
 const getSystemTheme = (): "light" | "dark" => {
@@ -21,12 +51,55 @@ const getSystemTheme = (): "light" | "dark" => {
     : "light";
 };
 
+/**
+ * CSS variables of the branding for a color mode. Custom variables are
+ * applied last so they can override the palette.
+ */
+const getBrandingVariables = (
+  branding: ThemeBranding,
+  mode: "light" | "dark",
+): Record<string, string> => {
+  const variables: Record<string, string> = {};
+  const { primary, accent } = branding[mode];
+
+  const primaryHsl = primary && hexToHslTriple(primary);
+  const primaryForeground = primary && getForegroundHslTriple(primary);
+  if (primaryHsl && primaryForeground) {
+    variables["--primary"] = primaryHsl;
+    variables["--ring"] = primaryHsl;
+    variables["--primary-foreground"] = primaryForeground;
+  }
+
+  const accentHsl = accent && hexToHslTriple(accent);
+  const accentForeground = accent && getForegroundHslTriple(accent);
+  if (accentHsl && accentForeground) {
+    variables["--accent"] = accentHsl;
+    variables["--accent-foreground"] = accentForeground;
+  }
+
+  return { ...variables, ...branding.cssVariables };
+};
+
+const setFavicon = (href: string) => {
+  const { document } = globalThis;
+  let link = document.querySelector<HTMLLinkElement>("link[rel~='icon']");
+  if (!link) {
+    link = document.createElement("link");
+    link.rel = "icon";
+    document.head.append(link);
+  }
+  link.href = href;
+};
+
 const initialState: ThemeProviderState = {
   theme: "system",
   resolvedTheme: "light",
   setTheme: () => {
     // Will be implemented by provider
   },
+  setBranding: () => {
+    // Will be implemented by provider
+  },
 };
 
 const ThemeProviderContext = createContext<ThemeProviderState>(initialState);
@@ -40,6 +113,10 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
   const [theme, setTheme] = useState<Theme>(
     () => (localStorage.getItem(storageKey) as Theme) || defaultTheme,
   );
+  const [branding, setBranding] = useState<ThemeBranding>();
+
+  // Variables set by the branding, removed again when the branding changes
+  const appliedVariablesRef = useRef<string[]>([]);
 
   // Compute the resolved theme (what's actually displayed)
   const resolvedTheme: "light" | "dark" =
@@ -52,6 +129,30 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
     root.classList.add(resolvedTheme);
   }, [resolvedTheme]);
 
+  useEffect(() => {
+    const root = globalThis.document.documentElement;
+
+    for (const name of appliedVariablesRef.current) {
+      root.style.removeProperty(name);
+    }
+    const variables = branding
+      ? getBrandingVariables(branding, resolvedTheme)
+      : {};
+    for (const [name, value] of Object.entries(variables)) {
+      root.style.setProperty(name, value);
+    }
+    appliedVariablesRef.current = Object.keys(variables);
+  }, [branding, resolvedTheme]);
+
+  useEffect(() => {
+    if (!branding) return;
+
+    globalThis.document.title = branding.productName;
+    if (branding.faviconUrl) {
+      setFavicon(branding.faviconUrl);
+    }
+  }, [branding]);
+
   const value = {
     theme,
     resolvedTheme,
@@ -59,6 +160,8 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
       localStorage.setItem(storageKey, newTheme);
       setTheme(newTheme);
     },
+    branding,
+    setBranding,
   };
 
   return (
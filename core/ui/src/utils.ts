@@ -6,3 +6,4 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 export { stripMarkdown } from "./utils/strip-markdown";
+export { hexToHslTriple, getForegroundHslTriple } from "./utils/color";
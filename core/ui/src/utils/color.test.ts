@@ -0,0 +1,23 @@
+import { describe, expect, it } from "bun:test";
+import { getForegroundHslTriple, hexToHslTriple } from "./color";
+
+describe("hexToHslTriple", () => {
+  it("converts hex colors to HSL triples", () => {
+    expect(hexToHslTriple("#3b82f6")).toBe("217 91% 60%");
+    expect(hexToHslTriple("#ffffff")).toBe("0 0% 100%");
+    expect(hexToHslTriple("#000000")).toBe("0 0% 0%");
+    expect(hexToHslTriple("#ff0000")).toBe("0 100% 50%");
+  });
+
+  it("returns undefined for invalid colors", () => {
+    expect(hexToHslTriple("red")).toBeUndefined();
+    expect(hexToHslTriple("#fff")).toBeUndefined();
+  });
+});
+
+describe("getForegroundHslTriple", () => {
+  it("picks white text on dark colors and dark text on light ones", () => {
+    expect(getForegroundHslTriple("#1e3a8a")).toBe("0 0% 100%");
+    expect(getForegroundHslTriple("#fde047")).toBe("240 6% 10%");
+  });
+});
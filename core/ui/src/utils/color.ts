@@ -0,0 +1,64 @@
+/**
+ * Color conversions for theme CSS variables.
+ *
+ * Theme variables hold bare HSL triples ("262 83% 58%") so Tailwind can
+ * apply opacity modifiers, e.g. `bg-primary/10`.
+ */
+
+function parseHex(hex: string): [number, number, number] | undefined {
+  const match = /^#?([\dA-Fa-f]{2})([\dA-Fa-f]{2})([\dA-Fa-f]{2})$/.exec(hex);
+  if (!match) return undefined;
+  return [
+    Number.parseInt(match[1], 16) / 255,
+    Number.parseInt(match[2], 16) / 255,
+    Number.parseInt(match[3], 16) / 255,
+  ];
+}
+
+/**
+ * Convert a hex color like "#3b82f6" to an HSL triple like "217 91% 60%".
+ * Returns undefined for invalid colors.
+ */
+export function hexToHslTriple(hex: string): string | undefined {
+  const rgb = parseHex(hex);
+  if (!rgb) return undefined;
+
+  const [r, g, b] = rgb;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta !== 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === r) {
+      hue = ((g - b) / delta) % 6;
+    } else if (max === g) {
+      hue = (b - r) / delta + 2;
+    } else {
+      hue = (r - g) / delta + 4;
+    }
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  return `${Math.round(hue)} ${Math.round(saturation * 100)}% ${Math.round(
+    lightness * 100,
+  )}%`;
+}
+
+/**
+ * Readable text color on top of a hex background, as HSL triple:
+ * white on dark colors, near-black on light ones (WCAG relative luminance).
+ */
+export function getForegroundHslTriple(hex: string): string | undefined {
+  const rgb = parseHex(hex);
+  if (!rgb) return undefined;
+
+  const [r, g, b] = rgb.map((c) =>
+    c <= 0.039_28 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4,
+  );
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminance > 0.4 ? "240 6% 10%" : "0 0% 100%";
+}
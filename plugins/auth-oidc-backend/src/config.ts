@@ -0,0 +1,121 @@
+import { configBoolean, configString } from "@checkstack/backend-api";
+import { z } from "zod";
+
+const claimMappingSchema = z
+  .object({
+    claimValue: configString({}).describe(
+      "Value of the group/role claim, e.g. a Keycloak group or Entra ID app role",
+    ),
+  })
+  .describe("Claim value to match");
+
+/**
+ * A single OpenID Connect identity provider.
+ */
+export const oidcIssuerSchema = z.object({
+  id: configString({})
+    .regex(/^[a-z0-9][a-z0-9-]*$/, "Lowercase letters, digits and dashes only")
+    .describe(
+      "Unique identifier of this issuer, used in the login URL (e.g. keycloak)",
+    ),
+  displayName: configString({}).describe(
+    "Name shown on the login button (e.g. Company SSO)",
+  ),
+  discoveryUrl: configString({})
+    .url()
+    .describe(
+      "Issuer URL or its .well-known/openid-configuration discovery document",
+    ),
+  clientId: configString({}).describe("OAuth client ID"),
+  clientSecret: configString({ "x-secret": true })
+    .optional()
+    .describe("OAuth client secret (leave empty for public clients)"),
+  scopes: configString({})
+    .default("openid profile email")
+    .describe("Space-separated scopes to request"),
+  usePkce: configBoolean({})
+    .default(true)
+    .describe("Use PKCE (S256) for the authorization code flow"),
+
+  // Claim mapping
+  claimMapping: z
+    .object({
+      email: configString({})
+        .default("email")
+        .describe("Claim containing the email address"),
+      name: configString({})
+        .default("name")
+        .describe("Claim containing the display name"),
+      groups: configString({})
+        .default("groups")
+        .describe(
+          "Claim containing groups or roles, dot paths are supported (e.g. realm_access.roles)",
+        ),
+    })
+    .default({ email: "email", name: "name", groups: "groups" })
+    .describe("Map token claims to user fields"),
+  trustUnverifiedEmail: configBoolean({})
+    .default(false)
+    .describe(
+      "Accept email addresses without email_verified claim. Only enable for providers that verify all addresses, otherwise users can take over existing accounts",
+    ),
+
+  // Group/role claim to Checkstack role mapping
+  roleMapping: z
+    .object({
+      enabled: configBoolean({})
+        .default(false)
+        .describe("Enable claim-to-role mapping"),
+      mappings: z
+        .array(
+          claimMappingSchema.extend({
+            checkstackRole: configString({
+              "x-options-resolver": "roleOptions",
+            }).describe("Checkstack role ID to assign"),
+          }),
+        )
+        .default([])
+        .describe("Map claim values to Checkstack roles"),
+      defaultRole: configString({
+        "x-options-resolver": "roleOptions",
+      })
+        .optional()
+        .describe("Default role assigned to all users of this issuer"),
+    })
+    .default({ enabled: false, mappings: [] })
+    .describe("Map group/role claims to Checkstack roles"),
+
+  // Group/role claim to Checkstack team mapping
+  teamMapping: z
+    .object({
+      enabled: configBoolean({})
+        .default(false)
+        .describe("Enable claim-to-team mapping"),
+      mappings: z
+        .array(
+          claimMappingSchema.extend({
+            checkstackTeam: configString({
+              "x-options-resolver": "teamOptions",
+            }).describe("Checkstack team to join"),
+          }),
+        )
+        .default([])
+        .describe("Map claim values to Checkstack teams"),
+    })
+    .default({ enabled: false, mappings: [] })
+    .describe("Map group/role claims to Checkstack teams"),
+});
+
+export type OidcIssuerConfig = z.infer<typeof oidcIssuerSchema>;
+
+// OIDC Configuration Schema V1
+export const oidcConfigV1 = z.object({
+  issuers: z
+    .array(oidcIssuerSchema)
+    .default([])
+    .describe("OpenID Connect identity providers"),
+});
+
+export type OidcConfig = z.infer<typeof oidcConfigV1>;
+
+export const OIDC_CONFIG_VERSION = 1;
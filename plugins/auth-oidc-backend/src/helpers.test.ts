@@ -0,0 +1,135 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getClaim,
+  getClaimValues,
+  getStringClaim,
+  isEmailVerified,
+  mapClaimsToAccess,
+} from "./helpers";
+
+describe("getClaim", () => {
+  const claims = {
+    email: "jane@example.com",
+    "https://example.com/groups": ["admins"],
+    realm_access: { roles: ["ops", "viewer"] },
+  };
+
+  it("reads top-level claims", () => {
+    expect(getClaim({ claims, path: "email" })).toBe("jane@example.com");
+  });
+
+  it("prefers exact claim names containing dots", () => {
+    expect(getClaim({ claims, path: "https://example.com/groups" })).toEqual([
+      "admins",
+    ]);
+  });
+
+  it("resolves dot paths into nested claims", () => {
+    expect(getClaim({ claims, path: "realm_access.roles" })).toEqual([
+      "ops",
+      "viewer",
+    ]);
+    expect(getClaim({ claims, path: "realm_access.missing.x" })).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("getStringClaim", () => {
+  it("ignores empty and non-string values", () => {
+    expect(getStringClaim({ claims: { name: "" }, path: "name" })).toBe(
+      undefined,
+    );
+    expect(getStringClaim({ claims: { name: 42 }, path: "name" })).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("getClaimValues", () => {
+  it("accepts arrays and delimited strings", () => {
+    expect(getClaimValues({ claims: { g: ["a", "b"] }, path: "g" })).toEqual([
+      "a",
+      "b",
+    ]);
+    expect(getClaimValues({ claims: { g: "a b,c" }, path: "g" })).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(getClaimValues({ claims: {}, path: "g" })).toEqual([]);
+  });
+});
+
+describe("isEmailVerified", () => {
+  const issuer = { trustUnverifiedEmail: false };
+
+  it("accepts verified email addresses", () => {
+    expect(isEmailVerified({ claims: { email_verified: true }, issuer })).toBe(
+      true,
+    );
+    expect(
+      isEmailVerified({ claims: { email_verified: "true" }, issuer }),
+    ).toBe(true);
+  });
+
+  it("rejects unverified and missing verification claims", () => {
+    expect(isEmailVerified({ claims: { email_verified: false }, issuer })).toBe(
+      false,
+    );
+    expect(
+      isEmailVerified({ claims: { email_verified: "false" }, issuer }),
+    ).toBe(false);
+    expect(isEmailVerified({ claims: {}, issuer })).toBe(false);
+  });
+
+  it("accepts unverified email addresses of trusted issuers", () => {
+    expect(
+      isEmailVerified({
+        claims: {},
+        issuer: { trustUnverifiedEmail: true },
+      }),
+    ).toBe(true);
+  });
+});
+
+describe("mapClaimsToAccess", () => {
+  const issuer = {
+    roleMapping: {
+      enabled: true,
+      mappings: [
+        { claimValue: "admins", checkstackRole: "admin" },
+        { claimValue: "ops", checkstackRole: "operator" },
+      ],
+      defaultRole: "users",
+    },
+    teamMapping: {
+      enabled: true,
+      mappings: [
+        { claimValue: "ops", checkstackTeam: "team-ops" },
+        { claimValue: "dev", checkstackTeam: "team-dev" },
+      ],
+    },
+  };
+
+  it("maps matching claim values to roles and teams", () => {
+    expect(mapClaimsToAccess({ groups: ["ops"], issuer })).toEqual({
+      syncRoles: ["operator", "users"],
+      managedRoleIds: ["admin", "operator", "users"],
+      syncTeams: ["team-ops"],
+      managedTeamIds: ["team-ops", "team-dev"],
+    });
+  });
+
+  it("leaves assignments untouched when mappings are disabled", () => {
+    expect(
+      mapClaimsToAccess({
+        groups: ["ops"],
+        issuer: {
+          roleMapping: { ...issuer.roleMapping, enabled: false },
+          teamMapping: { ...issuer.teamMapping, enabled: false },
+        },
+      }),
+    ).toEqual({});
+  });
+});
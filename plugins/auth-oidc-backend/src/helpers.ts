@@ -0,0 +1,115 @@
+import type { OidcIssuerConfig } from "./config";
+
+/**
+ * Read a claim by name or dot path (e.g. "realm_access.roles").
+ * Claim names containing dots (e.g. URIs) are matched exactly first.
+ */
+export const getClaim = ({
+  claims,
+  path,
+}: {
+  claims: Record<string, unknown>;
+  path: string;
+}): unknown => {
+  if (path in claims) return claims[path];
+
+  let current: unknown = claims;
+  for (const part of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+};
+
+/**
+ * Read a single-valued string claim
+ */
+export const getStringClaim = (props: {
+  claims: Record<string, unknown>;
+  path: string;
+}): string | undefined => {
+  const value = getClaim(props);
+  if (typeof value === "string" && value.length > 0) return value;
+  return undefined;
+};
+
+/**
+ * Read a multi-valued claim as strings.
+ * Accepts arrays, single strings and space/comma separated lists.
+ */
+export const getClaimValues = (props: {
+  claims: Record<string, unknown>;
+  path: string;
+}): string[] => {
+  const value = getClaim(props);
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string") {
+    return value.split(/[\s,]+/).filter(Boolean);
+  }
+  return [];
+};
+
+/**
+ * Whether the email address of the token can be used to match existing users.
+ * Requires the standard `email_verified` claim unless the issuer is trusted.
+ * Some providers (e.g. Amazon Cognito) send the claim as a string.
+ */
+export const isEmailVerified = ({
+  claims,
+  issuer,
+}: {
+  claims: Record<string, unknown>;
+  issuer: Pick<OidcIssuerConfig, "trustUnverifiedEmail">;
+}): boolean => {
+  if (issuer.trustUnverifiedEmail) return true;
+  return claims.email_verified === true || claims.email_verified === "true";
+};
+
+/**
+ * Resolve roles and teams for a user from their group/role claim values.
+ * Returns undefined for disabled mappings so existing assignments are left untouched.
+ */
+export const mapClaimsToAccess = ({
+  groups,
+  issuer,
+}: {
+  groups: string[];
+  issuer: Pick<OidcIssuerConfig, "roleMapping" | "teamMapping">;
+}): {
+  syncRoles?: string[];
+  managedRoleIds?: string[];
+  syncTeams?: string[];
+  managedTeamIds?: string[];
+} => {
+  const result: ReturnType<typeof mapClaimsToAccess> = {};
+  const groupSet = new Set(groups);
+
+  const { roleMapping, teamMapping } = issuer;
+  if (roleMapping.enabled) {
+    const roles = roleMapping.mappings
+      .filter((m) => groupSet.has(m.claimValue))
+      .map((m) => m.checkstackRole);
+    const managed = roleMapping.mappings.map((m) => m.checkstackRole);
+    if (roleMapping.defaultRole) {
+      roles.push(roleMapping.defaultRole);
+      managed.push(roleMapping.defaultRole);
+    }
+    result.syncRoles = [...new Set(roles)];
+    result.managedRoleIds = [...new Set(managed)];
+  }
+
+  if (teamMapping.enabled) {
+    result.syncTeams = [
+      ...new Set(
+        teamMapping.mappings
+          .filter((m) => groupSet.has(m.claimValue))
+          .map((m) => m.checkstackTeam),
+      ),
+    ];
+    result.managedTeamIds = [
+      ...new Set(teamMapping.mappings.map((m) => m.checkstackTeam)),
+    ];
+  }
+
+  return result;
+};
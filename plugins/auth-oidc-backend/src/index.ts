@@ -0,0 +1,346 @@
+import {
+  createBackendPlugin,
+  type AuthStrategy,
+  coreServices,
+} from "@checkstack/backend-api";
+import { pluginMetadata } from "./plugin-metadata";
+import {
+  betterAuthExtensionPoint,
+  redirectToAuthError,
+  strategyMetaConfigV1,
+  STRATEGY_META_CONFIG_VERSION,
+} from "@checkstack/auth-backend";
+import { AuthApi } from "@checkstack/auth-common";
+import { hashPassword } from "better-auth/crypto";
+import {
+  oidcConfigV1,
+  OIDC_CONFIG_VERSION,
+  type OidcConfig,
+  type OidcIssuerConfig,
+} from "./config";
+import {
+  createAuthorizationRequest,
+  decodeLoginState,
+  discover,
+  encodeLoginState,
+  exchangeCode,
+  fetchUserInfo,
+  LOGIN_STATE_MAX_AGE_MS,
+  verifyIdToken,
+} from "./oidc-client";
+import {
+  getClaimValues,
+  getStringClaim,
+  isEmailVerified,
+  mapClaimsToAccess,
+} from "./helpers";
+
+const STATE_COOKIE = "checkstack-oidc-state";
+const STATE_COOKIE_PATH = "/api/auth-oidc";
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  const header = req.headers.get("cookie");
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return value.join("=");
+  }
+  return undefined;
+};
+
+const clearStateCookie = () =>
+  `${STATE_COOKIE}=; Path=${STATE_COOKIE_PATH}; HttpOnly; SameSite=Lax; Max-Age=0`;
+
+// OIDC Strategy Definition
+const oidcStrategy: AuthStrategy<OidcConfig> = {
+  id: "oidc",
+  displayName: "OpenID Connect",
+  description:
+    "Single Sign-On via any OpenID Connect provider (Keycloak, Entra ID, Okta, ...)",
+  icon: "KeyRound",
+  configVersion: OIDC_CONFIG_VERSION,
+  configSchema: oidcConfigV1,
+  requiresManualRegistration: false,
+  adminInstructions: `
+## OpenID Connect Configuration
+
+Add one or more OpenID Connect issuers. Each issuer gets its own button on the login page.
+
+### Identity Provider Setup
+Register a confidential or public client (authorization code flow) with:
+- **Redirect URI**: \`https://yourdomain.com/api/auth-oidc/oidc/callback\`
+- **Scopes**: \`openid profile email\` plus the scope that exposes groups, if any
+
+### Issuer Settings
+1. Enter a unique **ID** (used in the login URL) and a **Display Name**
+2. Set the **Discovery URL** to the issuer URL, e.g.
+   - Keycloak: \`https://keycloak.example.com/realms/<realm>\`
+   - Entra ID: \`https://login.microsoftonline.com/<tenant-id>/v2.0\`
+   - Okta: \`https://<org>.okta.com/oauth2/default\`
+3. Enter the **Client ID** and, for confidential clients, the **Client Secret**
+4. Keep **PKCE** enabled unless your provider does not support it
+
+### Claim Mapping
+- **Email** and **Name** default to the standard \`email\` and \`name\` claims
+- **Groups** points to the claim holding groups or roles. Nested claims use dot paths, e.g. \`realm_access.roles\` for Keycloak realm roles or \`roles\` for Entra ID app roles
+
+### Role and Team Mapping
+Enable **Role Mapping** or **Team Mapping** to assign Checkstack roles and teams from claim values.
+Mapped roles and teams are synchronized on every login, users who lose a group also lose the mapped role or team.
+
+> **Tip**: Claims missing from the ID token are read from the userinfo endpoint.
+`.trim(),
+};
+
+export default createBackendPlugin({
+  metadata: pluginMetadata,
+  register(env) {
+    // Register the OIDC strategy
+    const extensionPoint = env.getExtensionPoint(betterAuthExtensionPoint);
+    extensionPoint.addStrategy(oidcStrategy);
+
+    // Register init logic for OIDC endpoints
+    env.registerInit({
+      deps: {
+        rpc: coreServices.rpc,
+        logger: coreServices.logger,
+        config: coreServices.config,
+        rpcClient: coreServices.rpcClient,
+      },
+      init: async ({ rpc, logger, config, rpcClient }) => {
+        logger.debug("[auth-oidc-backend] Initializing OIDC authentication...");
+
+        const authClient = rpcClient.forPlugin(AuthApi);
+
+        const baseUrl =
+          process.env.PUBLIC_URL ||
+          process.env.BASE_URL ||
+          "http://localhost:3000";
+        const redirectUri = `${baseUrl}/api/auth-oidc/oidc/callback`;
+
+        // Config is read per request so changes propagate to all instances
+        const getIssuers = async (): Promise<OidcIssuerConfig[]> => {
+          const meta = await config.get(
+            `${oidcStrategy.id}.meta`,
+            strategyMetaConfigV1,
+            STRATEGY_META_CONFIG_VERSION,
+          );
+          if (!meta?.enabled) return [];
+
+          const oidcConfig = await config.get(
+            oidcStrategy.id,
+            oidcConfigV1,
+            OIDC_CONFIG_VERSION,
+          );
+          return oidcConfig?.issuers ?? [];
+        };
+
+        const getIssuer = async (
+          issuerId: string | null,
+        ): Promise<OidcIssuerConfig> => {
+          const issuers = await getIssuers();
+          const issuer = issuers.find((i) => i.id === issuerId);
+          if (!issuer) {
+            throw new Error("Unknown or disabled OpenID Connect issuer");
+          }
+          return issuer;
+        };
+
+        // Helper function to sync user via RPC
+        const syncUser = async ({
+          issuer,
+          subject,
+          claims,
+        }: {
+          issuer: OidcIssuerConfig;
+          subject: string;
+          claims: Record<string, unknown>;
+        }): Promise<{ userId: string; email: string }> => {
+          const mapping = issuer.claimMapping;
+          const email = getStringClaim({ claims, path: mapping.email });
+          if (!email) {
+            throw new Error(
+              `The identity provider did not return an email address (claim "${mapping.email}")`,
+            );
+          }
+          // Users are linked by email, an unverified address could take over
+          // an existing account
+          if (!isEmailVerified({ claims, issuer })) {
+            throw new Error(
+              `The identity provider did not verify the email address ${email}`,
+            );
+          }
+          const name =
+            getStringClaim({ claims, path: mapping.name }) ??
+            email.split("@")[0];
+
+          const access = mapClaimsToAccess({
+            groups: getClaimValues({ claims, path: mapping.groups }),
+            issuer,
+          });
+          if (access.syncRoles && access.syncRoles.length > 0) {
+            logger.debug(
+              `OIDC user ${email} will be assigned roles: ${access.syncRoles.join(", ")}`,
+            );
+          }
+
+          const hashedPassword = await hashPassword(crypto.randomUUID());
+
+          const { userId, created } = await authClient.upsertExternalUser({
+            email,
+            name,
+            providerId: `oidc-${issuer.id}`,
+            accountId: subject,
+            password: hashedPassword,
+            autoUpdateUser: true,
+            ...access,
+          });
+
+          if (created) {
+            logger.info(
+              `Created new user from OIDC issuer ${issuer.id}: ${email}`,
+            );
+          } else {
+            logger.debug(`Updated OIDC user: ${email}`);
+          }
+
+          return { userId, email };
+        };
+
+        // Issuer list for the login page: /oidc/issuers
+        rpc.registerHttpHandler(async () => {
+          const issuers = await getIssuers();
+          return Response.json(
+            issuers.map((i) => ({ id: i.id, displayName: i.displayName })),
+          );
+        }, "oidc/issuers");
+
+        // Login initiation endpoint: /oidc/login?issuer=<id>
+        rpc.registerHttpHandler(async (req: Request) => {
+          try {
+            const issuer = await getIssuer(
+              new URL(req.url).searchParams.get("issuer"),
+            );
+            const discovery = await discover(issuer.discoveryUrl);
+            const { url, loginState } = createAuthorizationRequest({
+              issuer,
+              discovery,
+              redirectUri,
+            });
+
+            return new Response(undefined, {
+              status: 302,
+              headers: {
+                Location: url,
+                "Set-Cookie": `${STATE_COOKIE}=${encodeLoginState(loginState)}; Path=${STATE_COOKIE_PATH}; HttpOnly; SameSite=Lax; Max-Age=${
+                  LOGIN_STATE_MAX_AGE_MS / 1000
+                }`,
+              },
+            });
+          } catch (error) {
+            logger.error("OIDC login initiation failed:", error);
+            return redirectToAuthError(
+              error instanceof Error
+                ? error.message
+                : "Failed to initiate OpenID Connect login",
+            );
+          }
+        }, "oidc/login");
+
+        // Redirect URI shared by all issuers: /oidc/callback
+        rpc.registerHttpHandler(async (req: Request) => {
+          try {
+            const params = new URL(req.url).searchParams;
+
+            const providerError = params.get("error");
+            if (providerError) {
+              return redirectToAuthError(
+                params.get("error_description") ?? providerError,
+              );
+            }
+
+            const loginState = decodeLoginState(readCookie(req, STATE_COOKIE));
+            if (!loginState || loginState.state !== params.get("state")) {
+              return redirectToAuthError(
+                "Login session expired or invalid, please try again",
+              );
+            }
+
+            const code = params.get("code");
+            if (!code) {
+              return redirectToAuthError("Missing authorization code");
+            }
+
+            const issuer = await getIssuer(loginState.issuerId);
+            const discovery = await discover(issuer.discoveryUrl);
+
+            // RFC 9207 mix-up protection when the provider sends "iss"
+            const returnedIssuer = params.get("iss");
+            if (returnedIssuer && returnedIssuer !== discovery.issuer) {
+              return redirectToAuthError("Issuer mismatch in callback");
+            }
+
+            const { idToken, accessToken } = await exchangeCode({
+              issuer,
+              discovery,
+              code,
+              redirectUri,
+              codeVerifier: loginState.codeVerifier,
+            });
+            const idClaims = await verifyIdToken({
+              idToken,
+              discovery,
+              clientId: issuer.clientId,
+              nonce: loginState.nonce,
+            });
+
+            // Userinfo supplements, ID token claims take precedence
+            const userInfo = accessToken
+              ? await fetchUserInfo({
+                  discovery,
+                  accessToken,
+                  subject: idClaims.sub,
+                })
+              : {};
+            const { userId, email } = await syncUser({
+              issuer,
+              subject: idClaims.sub,
+              claims: { ...userInfo, ...idClaims },
+            });
+
+            // Create session via RPC
+            const sessionToken = crypto.randomUUID();
+            const expiresAt = new Date(
+              Date.now() + SESSION_MAX_AGE_SECONDS * 1000,
+            );
+            await authClient.createSession({
+              userId,
+              token: sessionToken,
+              expiresAt,
+            });
+
+            logger.info(`Created session for OIDC user: ${email}`);
+
+            const headers = new Headers({ Location: "/" });
+            headers.append(
+              "Set-Cookie",
+              `better-auth.session_token=${sessionToken}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_MAX_AGE_SECONDS}`,
+            );
+            headers.append("Set-Cookie", clearStateCookie());
+            return new Response(undefined, { status: 302, headers });
+          } catch (error) {
+            logger.error("OIDC callback error:", error);
+            return redirectToAuthError(
+              error instanceof Error
+                ? error.message
+                : "OpenID Connect authentication failed",
+            );
+          }
+        }, "oidc/callback");
+
+        logger.debug("✅ OIDC authentication initialized");
+      },
+    });
+  },
+});
@@ -0,0 +1,277 @@
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { exportJWK, generateKeyPair, SignJWT, type CryptoKey } from "jose";
+import { createHash } from "node:crypto";
+import { oidcIssuerSchema } from "./config";
+import {
+  createAuthorizationRequest,
+  decodeLoginState,
+  discover,
+  encodeLoginState,
+  exchangeCode,
+  fetchUserInfo,
+  LOGIN_STATE_MAX_AGE_MS,
+  toDiscoveryUrl,
+  verifyIdToken,
+} from "./oidc-client";
+
+const CLIENT_ID = "checkstack";
+const REDIRECT_URI =
+  "https://checkstack.example.com/api/auth-oidc/oidc/callback";
+
+const issuerUrl = "https://idp.example.com";
+let privateKey: CryptoKey;
+let lastTokenRequest: { body: URLSearchParams; authorization?: string };
+let nextIdTokenClaims: Record<string, unknown> = {};
+
+const signIdToken = (claims: Record<string, unknown>) =>
+  new SignJWT(claims)
+    .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+    .setIssuer(issuerUrl)
+    .setAudience(CLIENT_ID)
+    .setIssuedAt()
+    .setExpirationTime("5m")
+    .sign(privateKey);
+
+/**
+ * Minimal OpenID provider serving discovery, JWKS, token and userinfo.
+ */
+beforeAll(async () => {
+  const keys = await generateKeyPair("RS256");
+  privateKey = keys.privateKey;
+  const publicJwk = {
+    ...(await exportJWK(keys.publicKey)),
+    kid: "test-key",
+    alg: "RS256",
+    use: "sig",
+  };
+
+  const handle = async (req: Request): Promise<Response> => {
+    const { pathname } = new URL(req.url);
+    switch (pathname) {
+      case "/.well-known/openid-configuration": {
+        return Response.json({
+          issuer: issuerUrl,
+          authorization_endpoint: `${issuerUrl}/authorize`,
+          token_endpoint: `${issuerUrl}/token`,
+          jwks_uri: `${issuerUrl}/jwks`,
+          userinfo_endpoint: `${issuerUrl}/userinfo`,
+        });
+      }
+      case "/jwks": {
+        return Response.json({ keys: [publicJwk] });
+      }
+      case "/token": {
+        lastTokenRequest = {
+          body: new URLSearchParams(await req.text()),
+          authorization: req.headers.get("authorization") ?? undefined,
+        };
+        if (lastTokenRequest.body.get("code") !== "valid-code") {
+          return Response.json(
+            { error: "invalid_grant", error_description: "Code expired" },
+            { status: 400 },
+          );
+        }
+        return Response.json({
+          id_token: await signIdToken(nextIdTokenClaims),
+          access_token: "access-token",
+          token_type: "Bearer",
+        });
+      }
+      case "/userinfo": {
+        if (req.headers.get("authorization") !== "Bearer access-token") {
+          return new Response(undefined, { status: 401 });
+        }
+        return Response.json({ sub: "user-1", groups: ["ops"] });
+      }
+      default: {
+        return new Response(undefined, { status: 404 });
+      }
+    }
+  };
+
+  spyOn(globalThis, "fetch").mockImplementation(((
+    input: RequestInfo | URL,
+    init?: RequestInit,
+  ) => handle(new Request(input, init))) as typeof fetch);
+});
+
+afterAll(() => {
+  spyOn(globalThis, "fetch").mockRestore();
+});
+
+const makeIssuer = (overrides: Record<string, unknown> = {}) =>
+  oidcIssuerSchema.parse({
+    id: "test",
+    displayName: "Test SSO",
+    discoveryUrl: issuerUrl,
+    clientId: CLIENT_ID,
+    ...overrides,
+  });
+
+describe("toDiscoveryUrl", () => {
+  it("appends the well-known path to issuer URLs", () => {
+    expect(toDiscoveryUrl("https://idp.example.com/realms/main/")).toBe(
+      "https://idp.example.com/realms/main/.well-known/openid-configuration",
+    );
+    expect(
+      toDiscoveryUrl(
+        "https://idp.example.com/.well-known/openid-configuration",
+      ),
+    ).toBe("https://idp.example.com/.well-known/openid-configuration");
+  });
+});
+
+describe("authorization request", () => {
+  it("builds a PKCE authorization URL", async () => {
+    const discovery = await discover(issuerUrl);
+    const { url, loginState } = createAuthorizationRequest({
+      issuer: makeIssuer(),
+      discovery,
+      redirectUri: REDIRECT_URI,
+    });
+
+    const params = new URL(url).searchParams;
+    expect(url.startsWith(`${issuerUrl}/authorize?`)).toBe(true);
+    expect(params.get("client_id")).toBe(CLIENT_ID);
+    expect(params.get("redirect_uri")).toBe(REDIRECT_URI);
+    expect(params.get("scope")).toBe("openid profile email");
+    expect(params.get("state")).toBe(loginState.state);
+    expect(params.get("nonce")).toBe(loginState.nonce);
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("code_challenge")).toBe(
+      createHash("sha256")
+        .update(loginState.codeVerifier ?? "")
+        .digest("base64url"),
+    );
+  });
+
+  it("omits PKCE when disabled", async () => {
+    const { url, loginState } = createAuthorizationRequest({
+      issuer: makeIssuer({ usePkce: false }),
+      discovery: await discover(issuerUrl),
+      redirectUri: REDIRECT_URI,
+    });
+
+    expect(loginState.codeVerifier).toBe(undefined);
+    expect(new URL(url).searchParams.has("code_challenge")).toBe(false);
+  });
+});
+
+describe("login state", () => {
+  const state = {
+    issuerId: "test",
+    state: "s",
+    nonce: "n",
+    codeVerifier: "v",
+    createdAt: Date.now(),
+  };
+
+  it("round-trips through the cookie encoding", () => {
+    expect(decodeLoginState(encodeLoginState(state))).toEqual(state);
+  });
+
+  it("rejects malformed and expired state", () => {
+    expect(decodeLoginState("not-json")).toBe(undefined);
+    expect(decodeLoginState(undefined)).toBe(undefined);
+    expect(
+      decodeLoginState(
+        encodeLoginState({
+          ...state,
+          createdAt: Date.now() - LOGIN_STATE_MAX_AGE_MS - 1,
+        }),
+      ),
+    ).toBe(undefined);
+  });
+});
+
+describe("code exchange and token verification", () => {
+  it("exchanges the code and verifies the ID token", async () => {
+    const discovery = await discover(issuerUrl);
+    nextIdTokenClaims = {
+      sub: "user-1",
+      nonce: "nonce-1",
+      email: "jane@example.com",
+    };
+
+    const tokens = await exchangeCode({
+      issuer: makeIssuer({ clientSecret: "s3cret" }),
+      discovery,
+      code: "valid-code",
+      redirectUri: REDIRECT_URI,
+      codeVerifier: "verifier",
+    });
+
+    expect(lastTokenRequest.body.get("code_verifier")).toBe("verifier");
+    expect(lastTokenRequest.body.get("redirect_uri")).toBe(REDIRECT_URI);
+    expect(lastTokenRequest.authorization).toBe(
+      `Basic ${Buffer.from(`${CLIENT_ID}:s3cret`).toString("base64")}`,
+    );
+
+    const claims = await verifyIdToken({
+      idToken: tokens.idToken,
+      discovery,
+      clientId: CLIENT_ID,
+      nonce: "nonce-1",
+    });
+    expect(claims.sub).toBe("user-1");
+    expect(claims.email).toBe("jane@example.com");
+
+    const userInfo = await fetchUserInfo({
+      discovery,
+      accessToken: tokens.accessToken ?? "",
+      subject: claims.sub,
+    });
+    expect(userInfo.groups).toEqual(["ops"]);
+  });
+
+  it("sends the client ID in the body for public clients", async () => {
+    nextIdTokenClaims = { sub: "user-1", nonce: "n" };
+    await exchangeCode({
+      issuer: makeIssuer(),
+      discovery: await discover(issuerUrl),
+      code: "valid-code",
+      redirectUri: REDIRECT_URI,
+    });
+
+    expect(lastTokenRequest.authorization).toBe(undefined);
+    expect(lastTokenRequest.body.get("client_id")).toBe(CLIENT_ID);
+  });
+
+  it("surfaces token endpoint errors", async () => {
+    await expect(
+      exchangeCode({
+        issuer: makeIssuer(),
+        discovery: await discover(issuerUrl),
+        code: "bad-code",
+        redirectUri: REDIRECT_URI,
+      }),
+    ).rejects.toThrow("Code expired");
+  });
+
+  it("rejects ID tokens with a wrong nonce or audience", async () => {
+    const discovery = await discover(issuerUrl);
+    const idToken = await signIdToken({ sub: "user-1", nonce: "other" });
+
+    await expect(
+      verifyIdToken({ idToken, discovery, clientId: CLIENT_ID, nonce: "n" }),
+    ).rejects.toThrow("nonce");
+    await expect(
+      verifyIdToken({
+        idToken,
+        discovery,
+        clientId: "another-client",
+        nonce: "other",
+      }),
+    ).rejects.toThrow();
+  });
+
+  it("rejects userinfo for a different subject", async () => {
+    await expect(
+      fetchUserInfo({
+        discovery: await discover(issuerUrl),
+        accessToken: "access-token",
+        subject: "user-2",
+      }),
+    ).rejects.toThrow("subject");
+  });
+});
@@ -0,0 +1,286 @@
+import { createHash, randomBytes } from "node:crypto";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from "jose";
+import type { OidcIssuerConfig } from "./config";
+
+/**
+ * Subset of the OpenID Provider metadata used by the plugin.
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+/**
+ * Per-login state kept in an HttpOnly cookie between redirect and callback.
+ */
+export interface OidcLoginState {
+  issuerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier?: string;
+  /** Epoch milliseconds, used to expire stale logins */
+  createdAt: number;
+}
+
+/** Logins must complete within this window */
+export const LOGIN_STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+const WELL_KNOWN_PATH = "/.well-known/openid-configuration";
+
+const discoveryCache = new Map<
+  string,
+  { document: OidcDiscoveryDocument; expiresAt: number }
+>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+const randomToken = () => randomBytes(32).toString("base64url");
+
+/**
+ * Resolve the discovery document URL from an issuer URL or a full discovery URL
+ */
+export function toDiscoveryUrl(url: string): string {
+  if (url.includes(WELL_KNOWN_PATH)) return url;
+  return `${url.replace(/\/+$/, "")}${WELL_KNOWN_PATH}`;
+}
+
+/**
+ * Fetch and cache the provider metadata of an issuer.
+ */
+export async function discover(
+  discoveryUrl: string,
+): Promise<OidcDiscoveryDocument> {
+  const url = toDiscoveryUrl(discoveryUrl);
+  const cached = discoveryCache.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.document;
+  }
+
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch OIDC discovery document: ${response.status}`,
+    );
+  }
+
+  const document = (await response.json()) as Partial<OidcDiscoveryDocument>;
+  if (
+    !document.issuer ||
+    !document.authorization_endpoint ||
+    !document.token_endpoint ||
+    !document.jwks_uri
+  ) {
+    throw new Error("OIDC discovery document is missing required endpoints");
+  }
+
+  const complete = document as OidcDiscoveryDocument;
+  discoveryCache.set(url, {
+    document: complete,
+    expiresAt: Date.now() + DISCOVERY_CACHE_TTL_MS,
+  });
+  return complete;
+}
+
+/**
+ * Build the authorization URL and the state to remember until the callback.
+ */
+export function createAuthorizationRequest({
+  issuer,
+  discovery,
+  redirectUri,
+}: {
+  issuer: OidcIssuerConfig;
+  discovery: OidcDiscoveryDocument;
+  redirectUri: string;
+}): { url: string; loginState: OidcLoginState } {
+  const loginState: OidcLoginState = {
+    issuerId: issuer.id,
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: issuer.usePkce ? randomToken() : undefined,
+    createdAt: Date.now(),
+  };
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", issuer.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", issuer.scopes);
+  url.searchParams.set("state", loginState.state);
+  url.searchParams.set("nonce", loginState.nonce);
+  if (loginState.codeVerifier) {
+    url.searchParams.set(
+      "code_challenge",
+      createHash("sha256").update(loginState.codeVerifier).digest("base64url"),
+    );
+    url.searchParams.set("code_challenge_method", "S256");
+  }
+
+  return { url: url.toString(), loginState };
+}
+
+export function encodeLoginState(state: OidcLoginState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+/**
+ * Decode the login state cookie.
+ * Returns undefined for malformed or expired state.
+ */
+export function decodeLoginState(
+  value: string | undefined,
+): OidcLoginState | undefined {
+  if (!value) return undefined;
+  try {
+    const state = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8"),
+    ) as OidcLoginState;
+    if (
+      typeof state.state !== "string" ||
+      typeof state.nonce !== "string" ||
+      typeof state.issuerId !== "string" ||
+      Date.now() - state.createdAt > LOGIN_STATE_MAX_AGE_MS
+    ) {
+      return undefined;
+    }
+    return state;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Exchange the authorization code at the token endpoint.
+ */
+export async function exchangeCode({
+  issuer,
+  discovery,
+  code,
+  redirectUri,
+  codeVerifier,
+}: {
+  issuer: OidcIssuerConfig;
+  discovery: OidcDiscoveryDocument;
+  code: string;
+  redirectUri: string;
+  codeVerifier?: string;
+}): Promise<{ idToken: string; accessToken?: string }> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+  });
+  if (codeVerifier) {
+    body.set("code_verifier", codeVerifier);
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (issuer.clientSecret) {
+    // client_secret_basic, credentials are form-encoded per RFC 6749 2.3.1
+    const credentials = `${encodeURIComponent(issuer.clientId)}:${encodeURIComponent(issuer.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", issuer.clientId);
+  }
+
+  const response = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers,
+    body,
+  });
+  const tokens = (await response.json().catch(() => ({}))) as {
+    id_token?: string;
+    access_token?: string;
+    error?: string;
+    error_description?: string;
+  };
+
+  if (!response.ok) {
+    throw new Error(
+      `Token exchange failed: ${tokens.error_description ?? tokens.error ?? response.status}`,
+    );
+  }
+  if (!tokens.id_token) {
+    throw new Error("Token response did not contain an ID token");
+  }
+
+  return { idToken: tokens.id_token, accessToken: tokens.access_token };
+}
+
+/**
+ * Verify signature, issuer, audience, expiry and nonce of an ID token.
+ */
+export async function verifyIdToken({
+  idToken,
+  discovery,
+  clientId,
+  nonce,
+}: {
+  idToken: string;
+  discovery: OidcDiscoveryDocument;
+  clientId: string;
+  nonce: string;
+}): Promise<JWTPayload & { sub: string }> {
+  let jwks = jwksCache.get(discovery.jwks_uri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(discovery.jwks_uri));
+    jwksCache.set(discovery.jwks_uri, jwks);
+  }
+
+  const { payload } = await jwtVerify(idToken, jwks, {
+    issuer: discovery.issuer,
+    audience: clientId,
+  });
+
+  if (payload.nonce !== nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+  const { sub } = payload;
+  if (!sub) {
+    throw new Error("ID token is missing the subject claim");
+  }
+
+  return { ...payload, sub };
+}
+
+/**
+ * Fetch additional claims from the userinfo endpoint.
+ * Providers such as Keycloak or Okta may only expose groups there.
+ */
+export async function fetchUserInfo({
+  discovery,
+  accessToken,
+  subject,
+}: {
+  discovery: OidcDiscoveryDocument;
+  accessToken: string;
+  subject: string;
+}): Promise<Record<string, unknown>> {
+  if (!discovery.userinfo_endpoint) return {};
+
+  const response = await fetch(discovery.userinfo_endpoint, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/json",
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch OIDC userinfo: ${response.status}`);
+  }
+
+  const claims = (await response.json()) as Record<string, unknown>;
+  // Userinfo claims must belong to the authenticated subject
+  if (claims.sub !== subject) {
+    throw new Error("Userinfo subject does not match ID token");
+  }
+  return claims;
+}
@@ -2,6 +2,7 @@ import { createBackendPlugin, coreServices } from "@checkstack/backend-api";
 import { HttpHealthCheckStrategy } from "./strategy";
 import { pluginMetadata } from "./plugin-metadata";
 import { RequestCollector } from "./request-collector";
+import { ScenarioCollector } from "./scenario-collector";
 
 export default createBackendPlugin({
   metadata: pluginMetadata,
@@ -17,6 +18,7 @@ export default createBackendPlugin({
         const strategy = new HttpHealthCheckStrategy();
         healthCheckRegistry.register(strategy);
         collectorRegistry.register(new RequestCollector());
+        collectorRegistry.register(new ScenarioCollector());
       },
     });
   },
@@ -0,0 +1,242 @@
+import { describe, expect, it, mock } from "bun:test";
+import {
+  ScenarioCollector,
+  type ScenarioConfig,
+  type ScenarioStep,
+} from "./scenario-collector";
+import type {
+  HttpRequest,
+  HttpResponse,
+  HttpTransportClient,
+} from "./transport-client";
+
+describe("ScenarioCollector", () => {
+  const createMockClient = (
+    responses: Partial<HttpResponse>[],
+  ): HttpTransportClient & { exec: ReturnType<typeof mock> } => {
+    let call = 0;
+    return {
+      exec: mock((_request: HttpRequest) => {
+        const response = responses[call++] ?? {};
+        return Promise.resolve({
+          statusCode: response.statusCode ?? 200,
+          statusText: response.statusText ?? "OK",
+          headers: response.headers ?? {},
+          body: response.body ?? "",
+        });
+      }),
+    };
+  };
+
+  const step = (overrides: Partial<ScenarioStep>): ScenarioStep => ({
+    name: "Step",
+    url: "https://shop.example.com",
+    method: "GET",
+    timeout: 5000,
+    extract: [],
+    assertions: [],
+    ...overrides,
+  });
+
+  const loginFlow: ScenarioConfig = {
+    steps: [
+      step({
+        name: "Login",
+        url: "https://shop.example.com/login",
+        method: "POST",
+        body: '{"user":"monitor"}',
+        extract: [
+          { variable: "token", source: "jsonpath", expression: "$.token" },
+        ],
+      }),
+      step({
+        name: "Cart",
+        url: "https://shop.example.com/cart",
+        headers: [{ name: "Authorization", value: "Bearer {{token}}" }],
+        extract: [
+          { variable: "cartId", source: "header", expression: "X-Cart-Id" },
+        ],
+      }),
+      step({
+        name: "Checkout",
+        url: "https://shop.example.com/cart/{{cartId}}/checkout",
+        method: "POST",
+        body: '{"cart":"{{cartId}}"}',
+      }),
+    ],
+  };
+
+  describe("execute", () => {
+    it("should pass extracted variables to later steps", async () => {
+      const collector = new ScenarioCollector();
+      const client = createMockClient([
+        { body: '{"token":"secret-token"}' },
+        { headers: { "x-cart-id": "c-17" } },
+        { statusCode: 201, statusText: "Created" },
+      ]);
+
+      const result = await collector.execute({
+        config: loginFlow,
+        client,
+        pluginId: "test",
+      });
+
+      expect(client.exec).toHaveBeenCalledTimes(3);
+      const [, cartCall, checkoutCall] = client.exec.mock.calls.map(
+        (c) => c[0] as HttpRequest,
+      );
+      expect(cartCall.headers).toEqual({
+        Authorization: "Bearer secret-token",
+      });
+      expect(checkoutCall.url).toBe(
+        "https://shop.example.com/cart/c-17/checkout",
+      );
+      expect(checkoutCall.body).toBe('{"cart":"c-17"}');
+
+      expect(result.error).toBeUndefined();
+      expect(result.result.success).toBe(true);
+      expect(result.result.stepCount).toBe(3);
+      expect(result.result.completedSteps).toBe(3);
+      expect(result.result.failedStep).toBeUndefined();
+      expect(result.result.stepTimings).toHaveLength(3);
+      expect(result.result.stepTimings[0]).toStartWith("Login: ");
+    });
+
+    it("should stop at the first failing step", async () => {
+      const collector = new ScenarioCollector();
+      const client = createMockClient([
+        { statusCode: 401, statusText: "Unauthorized" },
+      ]);
+
+      const result = await collector.execute({
+        config: loginFlow,
+        client,
+        pluginId: "test",
+      });
+
+      expect(client.exec).toHaveBeenCalledTimes(1);
+      expect(result.result.success).toBe(false);
+      expect(result.result.completedSteps).toBe(0);
+      expect(result.result.failedStep).toBe("Login");
+      expect(result.error).toBe('Step "Login": HTTP 401: Unauthorized');
+    });
+
+    it("should fail when a variable cannot be extracted", async () => {
+      const collector = new ScenarioCollector();
+      const client = createMockClient([{ body: '{"error":"nope"}' }]);
+
+      const result = await collector.execute({
+        config: loginFlow,
+        client,
+        pluginId: "test",
+      });
+
+      expect(result.result.failedStep).toBe("Login");
+      expect(result.error).toContain('Could not extract "token"');
+    });
+
+    it("should evaluate step assertions", async () => {
+      const collector = new ScenarioCollector();
+      const client = createMockClient([{ body: '{"status":"degraded"}' }]);
+
+      const result = await collector.execute({
+        config: {
+          steps: [
+            step({
+              name: "Health",
+              assertions: [
+                { field: "body", operator: "contains", value: '"ok"' },
+              ],
+            }),
+          ],
+        },
+        client,
+        pluginId: "test",
+      });
+
+      expect(result.result.success).toBe(false);
+      expect(result.error).toBe(
+        'Step "Health": Assertion failed: body contains "ok"',
+      );
+    });
+
+    it("should let statusCode assertions replace the default status check", async () => {
+      const collector = new ScenarioCollector();
+      const client = createMockClient([
+        { statusCode: 401, statusText: "Unauthorized" },
+      ]);
+
+      const result = await collector.execute({
+        config: {
+          steps: [
+            step({
+              name: "Anonymous",
+              assertions: [
+                { field: "statusCode", operator: "equals", value: "401" },
+              ],
+            }),
+          ],
+        },
+        client,
+        pluginId: "test",
+      });
+
+      expect(result.result.success).toBe(true);
+      expect(result.error).toBeUndefined();
+    });
+
+    it("should report transport errors on the failing step", async () => {
+      const collector = new ScenarioCollector();
+      const client: HttpTransportClient = {
+        exec: mock(() => Promise.reject(new Error("ECONNREFUSED"))),
+      };
+
+      const result = await collector.execute({
+        config: loginFlow,
+        client,
+        pluginId: "test",
+      });
+
+      expect(result.result.failedStep).toBe("Login");
+      expect(result.error).toBe('Step "Login": ECONNREFUSED');
+    });
+  });
+
+  describe("mergeResult", () => {
+    it("should calculate average total time and success rate", () => {
+      const collector = new ScenarioCollector();
+      const run = (totalTimeMs: number, success: boolean) => ({
+        id: "1",
+        status: success ? ("healthy" as const) : ("unhealthy" as const),
+        latencyMs: totalTimeMs,
+        checkId: "c1",
+        timestamp: new Date(),
+        metadata: {
+          stepCount: 2,
+          completedSteps: success ? 2 : 1,
+          totalTimeMs,
+          slowestStepMs: totalTimeMs,
+          stepTimings: [],
+          success,
+        },
+      });
+
+      let aggregated = collector.mergeResult(undefined, run(100, true));
+      aggregated = collector.mergeResult(aggregated, run(300, false));
+
+      expect(aggregated.avgTotalTimeMs.avg).toBe(200);
+      expect(aggregated.successRate.rate).toBe(50);
+    });
+  });
+
+  describe("metadata", () => {
+    it("should have correct static properties", () => {
+      const collector = new ScenarioCollector();
+
+      expect(collector.id).toBe("scenario");
+      expect(collector.displayName).toBe("HTTP Transaction");
+      expect(collector.allowMultiple).toBe(true);
+      expect(collector.supportedPlugins).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import {
+  Versioned,
+  z,
+  configString,
+  DynamicOperators,
+  evaluateAssertions,
+  type HealthCheckRunForAggregation,
+  type CollectorResult,
+  type CollectorStrategy,
+  mergeAverage,
+  mergeRate,
+  VersionedAggregated,
+  aggregatedAverage,
+  aggregatedRate,
+  type InferAggregatedResult,
+} from "@checkstack/backend-api";
+import {
+  healthResultArray,
+  healthResultNumber,
+  healthResultString,
+  healthResultBoolean,
+  healthResultSchema,
+} from "@checkstack/healthcheck-common";
+import { pluginMetadata } from "./plugin-metadata";
+import type { HttpTransportClient } from "./transport-client";
+import { extractVariable, interpolateVariables } from "./scenario-variables";
+
+// ============================================================================
+// CONFIGURATION SCHEMA
+// ============================================================================
+
+const extractionSchema = z.object({
+  variable: z
+    .string()
+    .regex(/^[A-Za-z_]\w*$/, "Use letters, digits and underscores")
+    .describe("Variable name, referenced as {{name}} in later steps"),
+  source: z
+    .enum(["jsonpath", "header", "regex"])
+    .default("jsonpath")
+    .describe("Where to read the value from"),
+  expression: z
+    .string()
+    .min(1)
+    .describe(
+      "JSONPath (e.g. $.token), header name, or regex (first capture group is used)",
+    ),
+});
+
+const stepAssertionSchema = z.object({
+  field: z
+    .enum(["statusCode", "responseTimeMs", "bodyLength", "body"])
+    .describe("Step result field"),
+  operator: DynamicOperators,
+  value: z
+    .string()
+    .optional()
+    .describe("Expected value (not needed for exists/notExists)"),
+});
+
+const scenarioStepSchema = z.object({
+  name: z.string().min(1).describe("Step name, e.g. Login"),
+  url: z
+    .string()
+    .min(1)
+    .describe("Full URL to request, may contain {{variables}}"),
+  method: z
+    .enum(["GET", "POST", "PUT", "DELETE", "HEAD"])
+    .default("GET")
+    .describe("HTTP method"),
+  headers: z
+    .array(z.object({ name: z.string(), value: z.string() }))
+    .optional()
+    .describe("Request headers, values may contain {{variables}}"),
+  body: configString({
+    "x-editor-types": ["none", "raw", "json", "yaml", "xml", "formdata"],
+  })
+    .optional()
+    .describe("Request body, may contain {{variables}}"),
+  timeout: z
+    .number()
+    .min(100)
+    .default(30_000)
+    .describe("Timeout in milliseconds"),
+  extract: z
+    .array(extractionSchema)
+    .default([])
+    .describe("Values to capture for later steps"),
+  assertions: z
+    .array(stepAssertionSchema)
+    .default([])
+    .describe(
+      "Step assertions. Without a statusCode assertion, any 2xx/3xx status passes",
+    ),
+});
+
+const scenarioConfigSchema = z.object({
+  steps: z
+    .array(scenarioStepSchema)
+    .min(1)
+    .describe(
+      "Requests executed in order. The scenario stops at the first failing step",
+    ),
+});
+
+export type ScenarioStep = z.infer<typeof scenarioStepSchema>;
+export type ScenarioConfig = z.infer<typeof scenarioConfigSchema>;
+
+// ============================================================================
+// RESULT SCHEMAS
+// ============================================================================
+
+const scenarioResultSchema = healthResultSchema({
+  stepCount: healthResultNumber({
+    "x-chart-type": "counter",
+    "x-chart-label": "Steps",
+  }),
+  completedSteps: healthResultNumber({
+    "x-chart-type": "counter",
+    "x-chart-label": "Completed Steps",
+  }),
+  failedStep: healthResultString({
+    "x-chart-type": "text",
+    "x-chart-label": "Failed Step",
+  }).optional(),
+  totalTimeMs: healthResultNumber({
+    "x-chart-type": "line",
+    "x-chart-label": "Total Time",
+    "x-chart-unit": "ms",
+  }),
+  slowestStepMs: healthResultNumber({
+    "x-chart-type": "line",
+    "x-chart-label": "Slowest Step",
+    "x-chart-unit": "ms",
+  }),
+  stepTimings: healthResultArray({
+    "x-chart-type": "text",
+    "x-chart-label": "Step Timings",
+  }),
+  success: healthResultBoolean({
+    "x-chart-type": "boolean",
+    "x-chart-label": "Transaction Success",
+  }),
+});
+
+export type ScenarioResult = z.infer<typeof scenarioResultSchema>;
+
+// Aggregated result fields definition
+const scenarioAggregatedFields = {
+  avgTotalTimeMs: aggregatedAverage({
+    "x-chart-type": "line",
+    "x-chart-label": "Avg Total Time",
+    "x-chart-unit": "ms",
+  }),
+  successRate: aggregatedRate({
+    "x-chart-type": "gauge",
+    "x-chart-label": "Success Rate",
+    "x-chart-unit": "%",
+  }),
+};
+
+export type ScenarioAggregatedResult = InferAggregatedResult<
+  typeof scenarioAggregatedFields
+>;
+
+// ============================================================================
+// SCENARIO COLLECTOR
+// ============================================================================
+
+/**
+ * Multi-step HTTP transaction collector.
+ * Runs requests in order and passes extracted values (tokens, IDs) from one
+ * step to the next, e.g. login → cart → checkout.
+ */
+export class ScenarioCollector implements CollectorStrategy<
+  HttpTransportClient,
+  ScenarioConfig,
+  ScenarioResult,
+  ScenarioAggregatedResult
+> {
+  id = "scenario";
+  displayName = "HTTP Transaction";
+  description =
+    "Run a sequence of HTTP requests, passing extracted values between steps";
+
+  supportedPlugins = [pluginMetadata];
+
+  allowMultiple = true;
+
+  config = new Versioned({ version: 1, schema: scenarioConfigSchema });
+  result = new Versioned({ version: 1, schema: scenarioResultSchema });
+  aggregatedResult = new VersionedAggregated({
+    version: 1,
+    fields: scenarioAggregatedFields,
+  });
+
+  async execute({
+    config,
+    client,
+  }: {
+    config: ScenarioConfig;
+    client: HttpTransportClient;
+    pluginId: string;
+  }): Promise<CollectorResult<ScenarioResult>> {
+    const variables: Record<string, string> = {};
+    const stepTimings: string[] = [];
+    let totalTimeMs = 0;
+    let slowestStepMs = 0;
+    let completedSteps = 0;
+    let failure: { step: string; error: string } | undefined;
+
+    for (const step of config.steps) {
+      const startTime = Date.now();
+      let error: string | undefined;
+
+      try {
+        error = await this.executeStep(step, client, variables);
+      } catch (stepError) {
+        error =
+          stepError instanceof Error ? stepError.message : String(stepError);
+      }
+
+      const durationMs = Date.now() - startTime;
+      totalTimeMs += durationMs;
+      slowestStepMs = Math.max(slowestStepMs, durationMs);
+      stepTimings.push(`${step.name}: ${durationMs}ms`);
+
+      if (error) {
+        failure = { step: step.name, error };
+        break;
+      }
+      completedSteps++;
+    }
+
+    return {
+      result: {
+        stepCount: config.steps.length,
+        completedSteps,
+        failedStep: failure?.step,
+        totalTimeMs,
+        slowestStepMs,
+        stepTimings,
+        success: !failure,
+      },
+      error: failure ? `Step "${failure.step}": ${failure.error}` : undefined,
+    };
+  }
+
+  /**
+   * Run a single step and capture its variables.
+   * Returns an error message if the step failed.
+   */
+  private async executeStep(
+    step: ScenarioStep,
+    client: HttpTransportClient,
+    variables: Record<string, string>,
+  ): Promise<string | undefined> {
+    // Convert headers array to record
+    const headers: Record<string, string> = {};
+    for (const h of step.headers ?? []) {
+      headers[h.name] = interpolateVariables(h.value, variables);
+    }
+
+    const startTime = Date.now();
+    const response = await client.exec({
+      url: interpolateVariables(step.url, variables),
+      method: step.method,
+      headers,
+      body:
+        step.body === undefined
+          ? undefined
+          : interpolateVariables(step.body, variables),
+      timeout: step.timeout,
+    });
+    const responseTimeMs = Date.now() - startTime;
+
+    // Explicit statusCode assertions replace the default 2xx/3xx check,
+    // so a step can expect e.g. a 401 for an unauthenticated request
+    const checksStatus = step.assertions.some((a) => a.field === "statusCode");
+    if (
+      !checksStatus &&
+      (response.statusCode < 200 || response.statusCode >= 400)
+    ) {
+      return `HTTP ${response.statusCode}: ${response.statusText}`;
+    }
+
+    const failedAssertion = evaluateAssertions(step.assertions, {
+      statusCode: response.statusCode,
+      responseTimeMs,
+      bodyLength: response.body?.length ?? 0,
+      body: response.body ?? "",
+    });
+    if (failedAssertion) {
+      return `Assertion failed: ${failedAssertion.field} ${
+        failedAssertion.operator
+      } ${failedAssertion.value ?? ""}`.trim();
+    }
+
+    for (const extraction of step.extract) {
+      const value = extractVariable(extraction, response);
+      if (value === undefined) {
+        return `Could not extract "${extraction.variable}" using ${extraction.source} "${extraction.expression}"`;
+      }
+      variables[extraction.variable] = value;
+    }
+
+    return undefined;
+  }
+
+  mergeResult(
+    existing: ScenarioAggregatedResult | undefined,
+    newRun: HealthCheckRunForAggregation<ScenarioResult>,
+  ): ScenarioAggregatedResult {
+    return {
+      avgTotalTimeMs: mergeAverage(
+        existing?.avgTotalTimeMs,
+        newRun.metadata?.totalTimeMs,
+      ),
+      successRate: mergeRate(existing?.successRate, newRun.metadata?.success),
+    };
+  }
+}
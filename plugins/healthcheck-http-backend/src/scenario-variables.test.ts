@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import { extractVariable, interpolateVariables } from "./scenario-variables";
+import type { HttpResponse } from "./transport-client";
+
+const response = (overrides: Partial<HttpResponse> = {}): HttpResponse => ({
+  statusCode: 200,
+  statusText: "OK",
+  headers: {},
+  body: "",
+  ...overrides,
+});
+
+describe("interpolateVariables", () => {
+  it("should replace placeholders with variable values", () => {
+    expect(
+      interpolateVariables("https://api.example.com/carts/{{ cartId }}", {
+        cartId: "42",
+      }),
+    ).toBe("https://api.example.com/carts/42");
+  });
+
+  it("should leave text without placeholders unchanged", () => {
+    expect(interpolateVariables('{"a":"b"}', {})).toBe('{"a":"b"}');
+  });
+
+  it("should throw for unknown variables", () => {
+    expect(() => interpolateVariables("Bearer {{token}}", {})).toThrow(
+      'Unknown variable "token"',
+    );
+  });
+});
+
+describe("extractVariable", () => {
+  it("should extract values via JSONPath", () => {
+    const res = response({
+      body: JSON.stringify({ data: { token: "abc", ids: [7, 8] } }),
+    });
+
+    expect(
+      extractVariable(
+        { variable: "t", source: "jsonpath", expression: "$.data.token" },
+        res,
+      ),
+    ).toBe("abc");
+    expect(
+      extractVariable(
+        { variable: "id", source: "jsonpath", expression: "$.data.ids[0]" },
+        res,
+      ),
+    ).toBe("7");
+    expect(
+      extractVariable(
+        { variable: "x", source: "jsonpath", expression: "$.missing" },
+        res,
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should return undefined for JSONPath on non-JSON bodies", () => {
+    expect(
+      extractVariable(
+        { variable: "t", source: "jsonpath", expression: "$.token" },
+        response({ body: "<html>" }),
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should extract headers case-insensitively", () => {
+    expect(
+      extractVariable(
+        { variable: "loc", source: "header", expression: "Location" },
+        response({ headers: { location: "/carts/9" } }),
+      ),
+    ).toBe("/carts/9");
+  });
+
+  it("should extract the first regex capture group", () => {
+    const res = response({ body: '<input name="csrf" value="x1y2">' });
+
+    expect(
+      extractVariable(
+        { variable: "csrf", source: "regex", expression: 'value="(\\w+)"' },
+        res,
+      ),
+    ).toBe("x1y2");
+    expect(
+      extractVariable(
+        { variable: "csrf", source: "regex", expression: "x1y2" },
+        res,
+      ),
+    ).toBe("x1y2");
+  });
+});
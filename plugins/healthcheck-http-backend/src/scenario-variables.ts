@@ -0,0 +1,69 @@
+import { JSONPath } from "jsonpath-plus";
+import type { HttpResponse } from "./transport-client";
+
+/**
+ * Where a variable value is read from in a step's response.
+ */
+export type ExtractionSource = "jsonpath" | "header" | "regex";
+
+export interface VariableExtraction {
+  variable: string;
+  source: ExtractionSource;
+  expression: string;
+}
+
+/** Matches `{{name}}` placeholders, allowing whitespace inside the braces */
+const PLACEHOLDER_PATTERN = /{{\s*([A-Za-z_]\w*)\s*}}/g;
+
+/**
+ * Replace `{{name}}` placeholders with variable values.
+ * Throws if a placeholder references a variable that was never extracted,
+ * so a misconfigured scenario fails loudly instead of calling a wrong URL.
+ */
+export function interpolateVariables(
+  template: string,
+  variables: Record<string, string>,
+): string {
+  return template.replaceAll(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown variable "${name}"`);
+    }
+    return variables[name];
+  });
+}
+
+/**
+ * Read a variable value from a response.
+ * Returns undefined if the expression does not match anything.
+ */
+export function extractVariable(
+  extraction: VariableExtraction,
+  response: HttpResponse,
+): string | undefined {
+  switch (extraction.source) {
+    case "header": {
+      return response.headers[extraction.expression.toLowerCase()];
+    }
+    case "regex": {
+      const match = new RegExp(extraction.expression).exec(response.body);
+      if (!match) return undefined;
+      // Prefer the first capture group, fall back to the whole match
+      return match[1] ?? match[0];
+    }
+    case "jsonpath": {
+      let json: unknown;
+      try {
+        json = JSON.parse(response.body);
+      } catch {
+        return undefined;
+      }
+      const [value] = JSONPath({
+        path: extraction.expression,
+        json: json as object,
+        wrap: true,
+      }) as unknown[];
+      if (value === undefined || value === null) return undefined;
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    }
+  }
+}
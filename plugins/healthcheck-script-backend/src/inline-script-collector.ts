@@ -12,6 +12,8 @@ import {
   aggregatedAverage,
   aggregatedRate,
   type InferAggregatedResult,
+  type ScriptSandboxLog,
+  runSandboxedScript,
 } from "@checkstack/backend-api";
 import {
   healthResultNumber,
@@ -23,29 +25,9 @@ import { pluginMetadata } from "./plugin-metadata";
 import type { ScriptTransportClient } from "./transport-client";
 
 // ============================================================================
-// SCRIPT EXECUTION UTILITIES (shared with integration-script-backend pattern)
+// SCRIPT EXECUTION UTILITIES
 // ============================================================================
 
-/**
- * Context available to inline scripts.
- */
-interface ScriptContext {
-  /** Health check configuration */
-  config: Record<string, unknown>;
-  /** Fetch API for HTTP requests */
-  fetch: typeof fetch;
-}
-
-/**
- * Safe console interface for scripts.
- */
-interface SafeConsole {
-  log: (...args: unknown[]) => void;
-  warn: (...args: unknown[]) => void;
-  error: (...args: unknown[]) => void;
-  info: (...args: unknown[]) => void;
-}
-
 /**
  * Expected return type from health check scripts.
  */
@@ -59,75 +41,34 @@ interface ScriptHealthResult {
 }
 
 /**
- * Execute an inline script with the given context.
+ * Normalize a script's return value into a health result.
  */
-async function executeInlineScript({
-  script,
-  context,
-  safeConsole,
-  timeoutMs,
-}: {
-  script: string;
-  context: ScriptContext;
-  safeConsole: SafeConsole;
-  timeoutMs: number;
-}): Promise<{
-  result: ScriptHealthResult | undefined;
-  error?: string;
-  timedOut: boolean;
-}> {
-  try {
-    // Create an async function from the script
-    const asyncFn = new Function(
-      "context",
-      "console",
-      "fetch",
-      `return (async () => { ${script} })();`,
-    );
-
-    // Execute with timeout
-    const result = await Promise.race([
-      asyncFn(context, safeConsole, fetch),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error("__TIMEOUT__")), timeoutMs),
-      ),
-    ]);
-
-    // Normalize result
-    if (result === undefined || result === null) {
-      return { result: { success: true }, timedOut: false };
-    }
-
-    if (typeof result === "boolean") {
-      return { result: { success: result }, timedOut: false };
-    }
+function toScriptHealthResult(value: unknown): ScriptHealthResult {
+  if (value === undefined || value === null) {
+    return { success: true };
+  }
 
-    if (typeof result === "object") {
-      return {
-        result: {
-          success: Boolean(result.success ?? true),
-          message: result.message,
-          value: result.value,
-        },
-        timedOut: false,
-      };
-    }
+  if (typeof value === "boolean") {
+    return { success: value };
+  }
 
+  if (typeof value === "object") {
+    const result = value as Partial<ScriptHealthResult>;
     return {
-      result: { success: true, message: String(result) },
-      timedOut: false,
+      success: Boolean(result.success ?? true),
+      message: result.message,
+      value: result.value,
     };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    if (message === "__TIMEOUT__") {
-      return {
-        result: undefined,
-        error: "Script execution timed out",
-        timedOut: true,
-      };
-    }
-    return { result: undefined, error: message, timedOut: false };
   }
+
+  return { success: true, message: String(value) };
+}
+
+/**
+ * Format captured console output, prefixing everything but plain logs.
+ */
+function formatLog({ level, message }: ScriptSandboxLog): string {
+  return level === "log" ? message : `[${level.toUpperCase()}] ${message}`;
 }
 
 // ============================================================================
@@ -204,7 +145,7 @@ export type InlineScriptAggregatedResult = InferAggregatedResult<
 
 /**
  * Inline Script collector for health checks.
- * Executes TypeScript/JavaScript code directly and checks the result.
+ * Executes TypeScript/JavaScript code in a sandboxed subprocess and checks the result.
  *
  * Scripts should return an object with:
  * - success: boolean - Whether the check passed
@@ -216,6 +157,9 @@ export type InlineScriptAggregatedResult = InferAggregatedResult<
  * - console.log/warn/error - Logging functions
  * - fetch - HTTP client for making requests
  *
+ * Scripts cannot access environment variables, the filesystem or modules,
+ * see `runSandboxedScript()`.
+ *
  * @example
  * ```typescript
  * // Simple check
@@ -260,47 +204,12 @@ export class InlineScriptCollector implements CollectorStrategy<
   }): Promise<CollectorResult<InlineScriptResult>> {
     const startTime = Date.now();
 
-    // Build context for the script
-    const scriptContext: ScriptContext = {
-      config: config as unknown as Record<string, unknown>,
-      fetch,
-    };
-
-    // Create a safe console that captures logs
-    const logs: string[] = [];
-    const safeConsole: SafeConsole = {
-      log: (...args) => {
-        logs.push(
-          args
-            .map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a)))
-            .join(" "),
-        );
-      },
-      warn: (...args) => {
-        logs.push(
-          `[WARN] ${args.map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a))).join(" ")}`,
-        );
-      },
-      error: (...args) => {
-        logs.push(
-          `[ERROR] ${args.map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a))).join(" ")}`,
-        );
-      },
-      info: (...args) => {
-        logs.push(
-          `[INFO] ${args.map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a))).join(" ")}`,
-        );
-      },
-    };
-
-    // Execute the script
-    const { result, error, timedOut } = await executeInlineScript({
+    // Execute the script in an isolated subprocess
+    const { value, logs, error, timedOut } = await runSandboxedScript({
       script: config.script,
-      context: scriptContext,
-      safeConsole,
+      context: { config },
       timeoutMs: config.timeout,
     });
-
     const executionTimeMs = Date.now() - startTime;
 
     if (error) {
@@ -315,19 +224,20 @@ export class InlineScriptCollector implements CollectorStrategy<
       };
     }
 
+    const result = toScriptHealthResult(value);
     return {
       result: {
-        success: result?.success ?? true,
+        success: result.success,
         message:
-          result?.message ?? (logs.length > 0 ? logs.join("\n") : undefined),
-        value: result?.value,
+          result.message ??
+          (logs.length > 0
+            ? logs.map((log) => formatLog(log)).join("\n")
+            : undefined),
+        value: result.value,
         executionTimeMs,
         timedOut: false,
       },
-      error:
-        result?.success === false
-          ? (result.message ?? "Check failed")
-          : undefined,
+      error: result.success ? undefined : (result.message ?? "Check failed"),
     };
   }
 
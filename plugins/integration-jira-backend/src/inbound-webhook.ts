@@ -0,0 +1,159 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { InferClient } from "@checkstack/common";
+import type { IncidentApi } from "@checkstack/incident-common";
+import {
+  getIncidentIdFromCorrelationKey,
+  type InboundWebhookParams,
+} from "@checkstack/integration-backend";
+
+/**
+ * Header carrying the HMAC signature of Jira webhooks with a secret.
+ */
+const SIGNATURE_HEADER = "x-hub-signature";
+
+/**
+ * Status change of a Jira issue, extracted from a webhook payload.
+ */
+export interface JiraStatusChange {
+  issueKey: string;
+  fromStatus?: string;
+  toStatus: string;
+  /** Whether the new status is in Jira's "Done" category */
+  done: boolean;
+}
+
+/**
+ * Verify the `X-Hub-Signature: sha256=<hex>` header of a Jira webhook.
+ */
+export function verifyJiraSignature(props: {
+  body: string;
+  signature: string | null;
+  secret: string;
+}): boolean {
+  const { body, signature, secret } = props;
+  if (!signature?.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret).update(body).digest();
+  const received = Buffer.from(signature.slice("sha256=".length), "hex");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+/**
+ * Extract the status change from a `jira:issue_updated` webhook payload.
+ * Returns undefined for any other event or update.
+ */
+export function parseJiraStatusChange(
+  payload: unknown,
+): JiraStatusChange | undefined {
+  const event = payload as {
+    webhookEvent?: string;
+    issue?: {
+      key?: string;
+      fields?: { status?: { statusCategory?: { key?: string } } };
+    };
+    changelog?: {
+      items?: Array<{ field?: string; fromString?: string; toString?: string }>;
+    };
+  };
+
+  if (event?.webhookEvent !== "jira:issue_updated" || !event.issue?.key) {
+    return undefined;
+  }
+
+  const statusItem = event.changelog?.items?.find(
+    (item) => item.field === "status",
+  );
+  if (!statusItem?.toString) {
+    return undefined;
+  }
+
+  return {
+    issueKey: event.issue.key,
+    fromStatus: statusItem.fromString,
+    toStatus: statusItem.toString,
+    done: event.issue.fields?.status?.statusCategory?.key === "done",
+  };
+}
+
+function ignored(reason: string): Response {
+  return Response.json({ status: "ignored", reason });
+}
+
+/**
+ * Mirror Jira status changes of issues created for incidents back to the
+ * incident as status updates. Moving the issue to a "Done" status resolves
+ * the incident.
+ */
+export async function handleJiraWebhook(
+  params: InboundWebhookParams<{ webhookSecret?: string }> & {
+    incidentClient: InferClient<typeof IncidentApi>;
+  },
+): Promise<Response> {
+  const { request, body, connection, findCorrelationKey, incidentClient } =
+    params;
+
+  if (!connection.webhookSecret) {
+    return Response.json(
+      { error: "Inbound webhook is not enabled for this connection" },
+      { status: 404 },
+    );
+  }
+
+  if (
+    !verifyJiraSignature({
+      body,
+      signature: request.headers.get(SIGNATURE_HEADER),
+      secret: connection.webhookSecret,
+    })
+  ) {
+    return Response.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const change = parseJiraStatusChange(payload);
+  if (!change) {
+    return ignored("Not a status change");
+  }
+
+  const correlationKey = await findCorrelationKey(change.issueKey);
+  const incidentId = correlationKey
+    ? getIncidentIdFromCorrelationKey(correlationKey)
+    : undefined;
+  if (!incidentId) {
+    return ignored(`${change.issueKey} does not belong to an incident`);
+  }
+
+  const incident = await incidentClient.getIncident({ id: incidentId });
+  if (!incident) {
+    return ignored(`Incident not found: ${incidentId}`);
+  }
+
+  // The issue was most likely closed because the incident was resolved
+  if (change.done && incident.status === "resolved") {
+    return ignored("Incident is already resolved");
+  }
+
+  await incidentClient.addUpdate({
+    incidentId,
+    message: change.fromStatus
+      ? `Jira issue ${change.issueKey} moved from "${change.fromStatus}" to "${change.toStatus}"`
+      : `Jira issue ${change.issueKey} moved to "${change.toStatus}"`,
+    statusChange: change.done ? "resolved" : undefined,
+  });
+
+  params.logger.info(
+    `Mirrored Jira status of ${change.issueKey} to incident ${incidentId}`,
+  );
+
+  return Response.json({ status: "updated", incidentId });
+}
@@ -4,6 +4,7 @@ import {
 } from "@checkstack/backend-api";
 import { integrationProviderExtensionPoint } from "@checkstack/integration-backend";
 import { pluginMetadata } from "@checkstack/integration-jira-common";
+import { IncidentApi } from "@checkstack/incident-common";
 import { createJiraProvider } from "./provider";
 
 export const jiraPlugin = createBackendPlugin({
@@ -14,13 +15,16 @@ export const jiraPlugin = createBackendPlugin({
     env.registerInit({
       deps: {
         logger: coreServices.logger,
+        rpcClient: coreServices.rpcClient,
       },
-      init: async ({ logger }) => {
+      init: async ({ logger, rpcClient }) => {
         logger.debug("🔌 Registering Jira Integration Provider...");
 
         // Create and register the Jira provider
-        // No dependencies needed - connection access is provided through context/params
-        const jiraProvider = createJiraProvider();
+        // Connection access is provided through context/params
+        const jiraProvider = createJiraProvider({
+          incidentClient: rpcClient.forPlugin(IncidentApi),
+        });
         const integrationExt = env.getExtensionPoint(
           integrationProviderExtensionPoint
         );
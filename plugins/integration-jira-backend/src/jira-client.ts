@@ -49,6 +49,32 @@ export interface CreateIssuePayload {
   additionalFields?: Record<string, unknown>;
 }
 
+/**
+ * Workflow transition available for an issue.
+ */
+export interface JiraTransition {
+  id: string;
+  name: string;
+  /** Status the issue ends up in */
+  to?: { id: string; name: string };
+}
+
+/**
+ * Convert plain text to a minimal Atlassian Document Format document.
+ */
+export function toAdfDocument(text: string): Record<string, unknown> {
+  return {
+    type: "doc",
+    version: 1,
+    content: [
+      {
+        type: "paragraph",
+        content: [{ type: "text", text }],
+      },
+    ],
+  };
+}
+
 /**
  * Options for creating a Jira client.
  */
@@ -95,6 +121,11 @@ export function createJiraClient(options: JiraClientOptions) {
       throw new Error(`Jira API error: ${response.status} - ${errorText}`);
     }
 
+    // Transitions and other actions respond without content
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
     return response.json() as Promise<T>;
   }
 
@@ -273,16 +304,7 @@ export function createJiraClient(options: JiraClientOptions) {
 
       if (description) {
         // Use Atlassian Document Format for description
-        fields.description = {
-          type: "doc",
-          version: 1,
-          content: [
-            {
-              type: "paragraph",
-              content: [{ type: "text", text: description }],
-            },
-          ],
-        };
+        fields.description = toAdfDocument(description);
       }
 
       if (priorityId) {
@@ -294,6 +316,49 @@ export function createJiraClient(options: JiraClientOptions) {
         body: JSON.stringify({ fields }),
       });
     },
+
+    /**
+     * Add a plain text comment to an issue.
+     */
+    async addComment(issueKey: string, body: string): Promise<void> {
+      await request<{ id: string }>(
+        `/issue/${encodeURIComponent(issueKey)}/comment`,
+        {
+          method: "POST",
+          body: JSON.stringify({ body: toAdfDocument(body) }),
+        }
+      );
+    },
+
+    /**
+     * Get the workflow transitions currently available for an issue.
+     */
+    async getTransitions(issueKey: string): Promise<JiraTransition[]> {
+      const result = await request<{ transitions?: JiraTransition[] }>(
+        `/issue/${encodeURIComponent(issueKey)}/transitions`
+      );
+      return (result.transitions || []).map((t) => ({
+        id: t.id,
+        name: t.name,
+        to: t.to ? { id: t.to.id, name: t.to.name } : undefined,
+      }));
+    },
+
+    /**
+     * Move an issue through a workflow transition.
+     */
+    async transitionIssue(
+      issueKey: string,
+      transitionId: string
+    ): Promise<void> {
+      await request<void>(
+        `/issue/${encodeURIComponent(issueKey)}/transitions`,
+        {
+          method: "POST",
+          body: JSON.stringify({ transition: { id: transitionId } }),
+        }
+      );
+    },
   };
 }
 
@@ -0,0 +1,307 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  mock,
+  spyOn,
+} from "bun:test";
+import { createHmac } from "node:crypto";
+import type { IntegrationDeliveryContext } from "@checkstack/integration-backend";
+import { createJiraProvider, type JiraProviderConfig } from "./provider";
+import { parseJiraStatusChange, verifyJiraSignature } from "./inbound-webhook";
+
+/**
+ * Unit tests for the Jira Integration Provider.
+ *
+ * Tests cover:
+ * - Issue creation for uncorrelated events
+ * - Comments on the open issue for follow-up events
+ * - Workflow transitions on recovery
+ * - Mirroring Jira status changes back to incidents
+ */
+
+const mockLogger = {
+  debug: mock(() => {}),
+  info: mock(() => {}),
+  warn: mock(() => {}),
+  error: mock(() => {}),
+};
+
+const connection = {
+  baseUrl: "https://example.atlassian.net",
+  email: "bot@example.com",
+  apiToken: "token",
+  webhookSecret: "s3cret",
+};
+
+const providerConfig: JiraProviderConfig = {
+  connectionId: "conn-1",
+  projectKey: "OPS",
+  issueTypeId: "10001",
+  summaryTemplate: "{{payload.systemName}} is {{payload.newStatus}}",
+  resolveTransition: "Done",
+};
+
+const incidentClient = {
+  getIncident: mock(async () => ({ status: "investigating" })),
+  addUpdate: mock(async () => ({})),
+};
+
+const provider = createJiraProvider({
+  incidentClient: incidentClient as unknown as Parameters<
+    typeof createJiraProvider
+  >[0]["incidentClient"],
+});
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+function createContext(props: {
+  eventId: string;
+  payload: Record<string, unknown>;
+  openIssueKey?: string;
+}): IntegrationDeliveryContext<JiraProviderConfig> {
+  return {
+    event: {
+      eventId: props.eventId,
+      payload: props.payload,
+      timestamp: new Date().toISOString(),
+      deliveryId: "delivery-1",
+    },
+    subscription: { id: "sub-1", name: "Jira" },
+    providerConfig,
+    logger: mockLogger,
+    getConnectionWithCredentials: async () => ({ config: connection }),
+    correlation: { key: "system:sys-1", externalId: props.openIssueKey },
+  };
+}
+
+describe("Jira Integration Provider", () => {
+  let requests: RecordedRequest[];
+  let fetchSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    requests = [];
+    incidentClient.getIncident.mockClear();
+    incidentClient.addUpdate.mockClear();
+
+    fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (
+      url: RequestInfo | URL,
+      init?: RequestInit,
+    ) => {
+      const path = new URL(url.toString()).pathname.replace("/rest/api/3", "");
+      const method = init?.method ?? "GET";
+      requests.push({
+        method,
+        path,
+        body: init?.body ? JSON.parse(init.body as string) : undefined,
+      });
+
+      if (path === "/issue" && method === "POST") {
+        return Response.json({ id: "1", key: "OPS-1", self: "" });
+      }
+      if (path.endsWith("/transitions") && method === "GET") {
+        return Response.json({
+          transitions: [
+            { id: "11", name: "Start Progress" },
+            { id: "31", name: "Done", to: { id: "3", name: "Done" } },
+          ],
+        });
+      }
+      if (path.endsWith("/transitions")) {
+        return new Response(undefined, { status: 204 });
+      }
+      return Response.json({ id: "c-1" });
+    }) as unknown as typeof fetch);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  describe("deliver", () => {
+    it("creates an issue when there is no open issue", async () => {
+      const result = await provider.deliver(
+        createContext({
+          eventId: "healthcheck.healthcheck.system.degraded",
+          payload: {
+            systemId: "sys-1",
+            systemName: "API",
+            newStatus: "degraded",
+          },
+        }),
+      );
+
+      expect(result).toEqual({ success: true, externalId: "OPS-1" });
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({ method: "POST", path: "/issue" });
+    });
+
+    it("comments on the open issue for follow-up events", async () => {
+      const result = await provider.deliver(
+        createContext({
+          eventId: "healthcheck.healthcheck.system.degraded",
+          payload: {
+            systemId: "sys-1",
+            systemName: "API",
+            newStatus: "unhealthy",
+          },
+          openIssueKey: "OPS-1",
+        }),
+      );
+
+      expect(result).toEqual({ success: true, externalId: "OPS-1" });
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({
+        method: "POST",
+        path: "/issue/OPS-1/comment",
+      });
+      expect(JSON.stringify(requests[0].body)).toContain("API is unhealthy");
+    });
+
+    it("transitions and resolves the open issue on recovery", async () => {
+      const result = await provider.deliver(
+        createContext({
+          eventId: "healthcheck.healthcheck.system.healthy",
+          payload: {
+            systemId: "sys-1",
+            systemName: "API",
+            newStatus: "healthy",
+          },
+          openIssueKey: "OPS-1",
+        }),
+      );
+
+      expect(result).toEqual({
+        success: true,
+        externalId: "OPS-1",
+        resolved: true,
+      });
+      expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+        "GET /issue/OPS-1/transitions",
+        "POST /issue/OPS-1/transitions",
+        "POST /issue/OPS-1/comment",
+      ]);
+      expect(requests[1].body).toEqual({ transition: { id: "31" } });
+    });
+
+    it("does not create an issue for recovery without an open issue", async () => {
+      const result = await provider.deliver(
+        createContext({
+          eventId: "healthcheck.healthcheck.system.healthy",
+          payload: { systemId: "sys-1", newStatus: "healthy" },
+        }),
+      );
+
+      expect(result).toEqual({ success: true });
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe("inbound webhook", () => {
+    const statusChange = {
+      webhookEvent: "jira:issue_updated",
+      issue: {
+        key: "OPS-7",
+        fields: { status: { statusCategory: { key: "done" } } },
+      },
+      changelog: {
+        items: [
+          { field: "status", fromString: "In Progress", toString: "Done" },
+        ],
+      },
+    };
+
+    function sign(body: string, secret = connection.webhookSecret): string {
+      return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+    }
+
+    function handle(body: string, signature: string) {
+      return provider.handleInboundWebhook!({
+        request: new Request("http://localhost/webhook", {
+          method: "POST",
+          headers: { "X-Hub-Signature": signature },
+          body,
+        }),
+        body,
+        connectionId: "conn-1",
+        connection,
+        findCorrelationKey: async (externalId) =>
+          externalId === "OPS-7" ? "incident:inc-1" : undefined,
+        logger: mockLogger,
+      });
+    }
+
+    it("verifies HMAC signatures", () => {
+      expect(
+        verifyJiraSignature({
+          body: "{}",
+          signature: sign("{}"),
+          secret: "s3cret",
+        }),
+      ).toBe(true);
+      expect(
+        verifyJiraSignature({
+          body: "{}",
+          signature: sign("{}", "other"),
+          secret: "s3cret",
+        }),
+      ).toBe(false);
+      expect(
+        verifyJiraSignature({ body: "{}", signature: null, secret: "s3cret" }),
+      ).toBe(false);
+    });
+
+    it("only extracts status changes", () => {
+      expect(parseJiraStatusChange(statusChange)).toEqual({
+        issueKey: "OPS-7",
+        fromStatus: "In Progress",
+        toStatus: "Done",
+        done: true,
+      });
+      expect(
+        parseJiraStatusChange({
+          ...statusChange,
+          changelog: { items: [{ field: "assignee", toString: "Jane" }] },
+        }),
+      ).toBeUndefined();
+    });
+
+    it("rejects invalid signatures", async () => {
+      const body = JSON.stringify(statusChange);
+      const response = await handle(body, sign(body, "wrong"));
+
+      expect(response.status).toBe(401);
+      expect(incidentClient.addUpdate).not.toHaveBeenCalled();
+    });
+
+    it("resolves the incident when its issue is done", async () => {
+      const body = JSON.stringify(statusChange);
+      const response = await handle(body, sign(body));
+
+      expect(response.status).toBe(200);
+      expect(incidentClient.addUpdate).toHaveBeenCalledWith({
+        incidentId: "inc-1",
+        message: 'Jira issue OPS-7 moved from "In Progress" to "Done"',
+        statusChange: "resolved",
+      });
+    });
+
+    it("ignores issues that do not belong to an incident", async () => {
+      const body = JSON.stringify({
+        ...statusChange,
+        issue: { ...statusChange.issue, key: "OPS-8" },
+      });
+      const response = await handle(body, sign(body));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ status: "ignored" });
+      expect(incidentClient.addUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
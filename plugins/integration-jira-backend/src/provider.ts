@@ -1,5 +1,11 @@
 import { z } from "zod";
-import { Versioned, configString } from "@checkstack/backend-api";
+import {
+  Versioned,
+  configString,
+  type Logger,
+} from "@checkstack/backend-api";
+import type { InferClient } from "@checkstack/common";
+import type { IncidentApi } from "@checkstack/incident-common";
 import type {
   IntegrationProvider,
   IntegrationDeliveryContext,
@@ -8,8 +14,13 @@ import type {
   ConnectionOption,
   GetConnectionOptionsParams,
 } from "@checkstack/integration-backend";
-import { createJiraClient, createJiraClientFromConfig } from "./jira-client";
+import {
+  createJiraClient,
+  createJiraClientFromConfig,
+  type JiraClient,
+} from "./jira-client";
 import { expandTemplate } from "./template-engine";
+import { handleJiraWebhook } from "./inbound-webhook";
 
 /**
  * Schema for Jira connection configuration.
@@ -19,6 +30,10 @@ export const JiraConnectionConfigSchema = z.object({
   baseUrl: configString({}).url().describe("Jira Cloud base URL"),
   email: configString({}).email().describe("Jira user email"),
   apiToken: configString({ "x-secret": true }).describe("Jira API token"),
+  /** Enables the inbound webhook that mirrors issue status changes */
+  webhookSecret: configString({ "x-secret": true })
+    .optional()
+    .describe("Inbound webhook secret (optional)"),
 });
 
 export type JiraConnectionConfig = z.infer<typeof JiraConnectionConfigSchema>;
@@ -85,6 +100,14 @@ export const JiraSubscriptionConfigSchema = z.object({
     .array(DynamicJiraFieldMappingSchema)
     .optional()
     .describe("Additional field mappings"),
+  /** Comment added for follow-up events (defaults to summary and description) */
+  commentTemplate: configString({})
+    .optional()
+    .describe("Follow-up comment template"),
+  /** Workflow transition run when the system recovers or the incident is resolved */
+  resolveTransition: configString({})
+    .optional()
+    .describe("Transition on recovery (name or ID, e.g. Done)"),
 });
 
 /**
@@ -92,19 +115,66 @@ export const JiraSubscriptionConfigSchema = z.object({
  */
 export type JiraProviderConfig = z.infer<typeof JiraSubscriptionConfigSchema>;
 
+/**
+ * Events that end the outage or incident an issue was created for.
+ * Matched by suffix since event IDs are namespaced by the owning plugin.
+ */
+const RESOLUTION_EVENT_SUFFIXES = ["system.healthy", "incident.resolved"];
+
+function isResolutionEvent(eventId: string): boolean {
+  return RESOLUTION_EVENT_SUFFIXES.some((suffix) => eventId.endsWith(suffix));
+}
+
+/**
+ * Run the configured workflow transition, matched by ID, name or target status.
+ * A transition that is not available (e.g. the issue is already closed) is skipped.
+ */
+async function runTransition(props: {
+  client: JiraClient;
+  issueKey: string;
+  transition: string;
+  logger: Logger;
+}): Promise<void> {
+  const { client, issueKey, transition, logger } = props;
+  const wanted = transition.trim().toLowerCase();
+
+  const transitions = await client.getTransitions(issueKey);
+  const match = transitions.find(
+    (t) =>
+      t.id === transition.trim() ||
+      t.name.toLowerCase() === wanted ||
+      t.to?.name.toLowerCase() === wanted
+  );
+
+  if (!match) {
+    logger.warn(
+      `Jira transition "${transition}" is not available for ${issueKey}, skipping`,
+      { available: transitions.map((t) => t.name) }
+    );
+    return;
+  }
+
+  await client.transitionIssue(issueKey, match.id);
+  logger.info(`Transitioned Jira issue ${issueKey} via "${match.name}"`);
+}
+
 /**
  * Create the Jira integration provider.
  * Uses the generic connection management system for site-wide Jira connections.
  * Connection access is provided through params/context at call time.
+ *
+ * @param deps.incidentClient - Used to mirror Jira status changes to incidents
  */
-export function createJiraProvider(): IntegrationProvider<
-  JiraProviderConfig,
-  JiraConnectionConfig
-> {
+export function createJiraProvider(deps: {
+  incidentClient: InferClient<typeof IncidentApi>;
+}): IntegrationProvider<JiraProviderConfig, JiraConnectionConfig> {
+  const { incidentClient } = deps;
+
   return {
     id: "jira",
     displayName: "Jira",
-    description: "Create Jira issues from integration events",
+    description:
+      "Create Jira issues from integration events and keep them in sync",
     icon: "Ticket",
 
     // Subscription configuration schema
@@ -134,6 +204,23 @@ Use double curly braces to reference event payload properties:
 - \`{{payload.system.name}}\` - Nested property access
 
 If a property is missing, the placeholder will be preserved in the output for debugging.
+
+### Issue Lifecycle
+
+Events are correlated by incident (incident events) or system (health events):
+- The first event creates an issue.
+- Follow-up events add a comment to the open issue, using the comment template.
+- Recovery (\`System Health Restored\`) and \`Incident Resolved\` events comment on the issue and run the configured transition, e.g. \`Done\`. The next event starts a new issue.
+
+Subscribe to the follow-up and recovery events with the same Jira connection to keep issues in sync.
+
+### Status Webhook (optional)
+
+Set a webhook secret on the connection, then create a Jira webhook for "Issue updated" events with the same secret, pointing to:
+
+\`{BASE_URL}/api/integration/inbound/integration-jira.jira/{connectionId}\`
+
+Status changes of issues created for incidents are added as incident updates. Moving an issue to a "Done" status resolves its incident.
       `.trim(),
       examplePayload: JSON.stringify(
         {
@@ -264,7 +351,15 @@ If a property is missing, the placeholder will be preserved in the output for de
     },
 
     /**
-     * Deliver an event by creating a Jira issue.
+     * Mirror status changes of incident issues back to the incidents.
+     */
+    async handleInboundWebhook(params) {
+      return handleJiraWebhook({ ...params, incidentClient });
+    },
+
+    /**
+     * Deliver an event by creating a Jira issue, or by continuing the open
+     * issue of the same incident or system.
      */
     async deliver(
       context: IntegrationDeliveryContext<JiraProviderConfig>
@@ -278,6 +373,8 @@ If a property is missing, the placeholder will be preserved in the output for de
         descriptionTemplate,
         priorityId,
         fieldMappings,
+        commentTemplate,
+        resolveTransition,
       } = providerConfig;
 
       // Get the connection with credentials from the delivery context
@@ -314,6 +411,12 @@ If a property is missing, the placeholder will be preserved in the output for de
       const description = descriptionTemplate
         ? expandTemplate(descriptionTemplate, payload)
         : undefined;
+      const comment = commentTemplate
+        ? expandTemplate(commentTemplate, payload)
+        : [summary, description].filter(Boolean).join("\n\n");
+
+      // Issue created for an earlier event of the same incident or system
+      const openIssueKey = context.correlation?.externalId;
 
       // Build additional fields from field mappings
       const additionalFields: Record<string, unknown> = {};
@@ -325,6 +428,38 @@ If a property is missing, the placeholder will be preserved in the output for de
       }
 
       try {
+        if (isResolutionEvent(event.eventId)) {
+          if (!openIssueKey) {
+            logger.debug(
+              `No open Jira issue to resolve for ${
+                context.correlation?.key ?? event.eventId
+              }`
+            );
+            return { success: true };
+          }
+
+          // Transition first, so a retry after a failed comment skips it
+          if (resolveTransition) {
+            await runTransition({
+              client,
+              issueKey: openIssueKey,
+              transition: resolveTransition,
+              logger,
+            });
+          }
+          await client.addComment(openIssueKey, comment);
+
+          logger.info(`Resolved Jira issue: ${openIssueKey}`);
+          return { success: true, externalId: openIssueKey, resolved: true };
+        }
+
+        if (openIssueKey) {
+          await client.addComment(openIssueKey, comment);
+
+          logger.info(`Commented on Jira issue: ${openIssueKey}`);
+          return { success: true, externalId: openIssueKey };
+        }
+
         // Create the issue
         const result = await client.createIssue({
           projectKey,
@@ -351,7 +486,10 @@ If a property is missing, the placeholder will be preserved in the output for de
       } catch (error) {
         const message =
           error instanceof Error ? error.message : "Unknown error";
-        logger.error(`Failed to create Jira issue: ${message}`, { error });
+        const action = openIssueKey
+          ? `update Jira issue ${openIssueKey}`
+          : "create Jira issue";
+        logger.error(`Failed to ${action}: ${message}`, { error });
 
         // Check if it's a rate limit error
         if (
@@ -367,7 +505,7 @@ If a property is missing, the placeholder will be preserved in the output for de
 
         return {
           success: false,
-          error: `Failed to create Jira issue: ${message}`,
+          error: `Failed to ${action}: ${message}`,
         };
       }
     },
@@ -1,5 +1,10 @@
 import { z } from "zod";
-import { Versioned, configString, configNumber } from "@checkstack/backend-api";
+import {
+  Versioned,
+  configString,
+  configNumber,
+  runSandboxedScript,
+} from "@checkstack/backend-api";
 import type {
   IntegrationProvider,
   IntegrationDeliveryContext,
@@ -57,63 +62,6 @@ export interface ScriptContext {
   };
 }
 
-/**
- * Safe console interface for scripts.
- */
-interface SafeConsole {
-  log: (...args: unknown[]) => void;
-  warn: (...args: unknown[]) => void;
-  error: (...args: unknown[]) => void;
-  info: (...args: unknown[]) => void;
-}
-
-// =============================================================================
-// Script Execution
-// =============================================================================
-
-/**
- * Execute a user script with the given context.
- * Uses Function constructor for isolation while keeping it lightweight.
- */
-async function executeScript({
-  script,
-  context,
-  safeConsole,
-  timeoutMs,
-}: {
-  script: string;
-  context: ScriptContext;
-  safeConsole: SafeConsole;
-  timeoutMs: number;
-}): Promise<{ result: unknown; error?: string }> {
-  try {
-    // Create an async function from the script
-    // The script can use: context, console, fetch
-    const asyncFn = new Function(
-      "context",
-      "console",
-      "fetch",
-      `return (async () => { ${script} })();`,
-    );
-
-    // Execute with timeout
-    const result = await Promise.race([
-      asyncFn(context, safeConsole, fetch),
-      new Promise((_, reject) =>
-        setTimeout(
-          () => reject(new Error("Script execution timed out")),
-          timeoutMs,
-        ),
-      ),
-    ]);
-
-    return { result };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return { result: undefined, error: message };
-  }
-}
-
 // =============================================================================
 // Script Provider Implementation
 // =============================================================================
@@ -143,6 +91,8 @@ Your script has access to:
 - \`console.log/warn/error\` - Logging functions
 - \`fetch\` - Make HTTP requests
 
+Scripts run in an isolated sandbox without access to environment variables, the filesystem or modules. The return value must be JSON-serializable.
+
 **Example:**
 \`\`\`typescript
 // Log the event
@@ -185,49 +135,36 @@ return { id: await response.json().then(r => r.id) };
       },
     };
 
-    // Create a safe console that logs through our logger
-    const logs: string[] = [];
-    const safeConsole: SafeConsole = {
-      log: (...args) => {
-        const msg = args
-          .map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a)))
-          .join(" ");
-        logs.push(`[LOG] ${msg}`);
-        logger.debug(`Script log: ${msg}`);
-      },
-      warn: (...args) => {
-        const msg = args
-          .map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a)))
-          .join(" ");
-        logs.push(`[WARN] ${msg}`);
-        logger.warn(`Script warn: ${msg}`);
-      },
-      error: (...args) => {
-        const msg = args
-          .map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a)))
-          .join(" ");
-        logs.push(`[ERROR] ${msg}`);
-        logger.error(`Script error: ${msg}`);
-      },
-      info: (...args) => {
-        const msg = args
-          .map((a) => (typeof a === "object" ? JSON.stringify(a) : String(a)))
-          .join(" ");
-        logs.push(`[INFO] ${msg}`);
-        logger.info(`Script info: ${msg}`);
-      },
-    };
-
     logger.debug(`Executing script for event ${event.eventId}`);
 
-    // Execute the script
-    const { result, error } = await executeScript({
+    // Execute the script in an isolated subprocess
+    const { value, logs, error } = await runSandboxedScript({
       script: config.script,
-      context: scriptContext,
-      safeConsole,
+      context: { ...scriptContext },
       timeoutMs: config.timeout,
     });
 
+    // Forward captured console output to the plugin logger
+    for (const { level, message } of logs) {
+      switch (level) {
+        case "warn": {
+          logger.warn(`Script warn: ${message}`);
+          break;
+        }
+        case "error": {
+          logger.error(`Script error: ${message}`);
+          break;
+        }
+        case "info": {
+          logger.info(`Script info: ${message}`);
+          break;
+        }
+        default: {
+          logger.debug(`Script log: ${message}`);
+        }
+      }
+    }
+
     if (error) {
       logger.error(`Script execution failed: ${error}`);
       return {
@@ -240,8 +177,8 @@ return { id: await response.json().then(r => r.id) };
 
     // Extract external ID from result if present
     let externalId: string | undefined;
-    if (result && typeof result === "object" && "id" in result) {
-      externalId = String((result as { id: unknown }).id);
+    if (value && typeof value === "object" && "id" in value) {
+      externalId = String(value.id);
     }
 
     return {
@@ -101,6 +101,28 @@ describe("Slack Notification Strategy", () => {
       expect(elements[0].url).toBe("https://example.com/incident/123");
     });
 
+    it("adds secondary actions as additional buttons", () => {
+      const payload = buildSlackPayload({
+        title: "System health critical",
+        importance: "critical",
+        action: { label: "View System", url: "https://example.com/system/1" },
+        actions: [
+          { label: "Acknowledge", url: "https://example.com/ack" },
+          { label: "Snooze 1h", url: "https://example.com/snooze" },
+        ],
+      });
+
+      const elements = payload.blocks[1].elements as Array<
+        Record<string, unknown>
+      >;
+      expect(elements.map((e) => e.url)).toEqual([
+        "https://example.com/system/1",
+        "https://example.com/ack",
+        "https://example.com/snooze",
+      ]);
+      expect(new Set(elements.map((e) => e.action_id)).size).toBe(3);
+    });
+
     it("uses correct colors for importance levels", () => {
       const infoPayload = buildSlackPayload({
         title: "Info",
@@ -66,6 +66,7 @@ interface SlackBlockOptions {
   body?: string;
   importance: "info" | "warning" | "critical";
   action?: { label: string; url: string };
+  actions?: { label: string; url: string }[];
 }
 
 interface SlackPayload {
@@ -75,7 +76,7 @@ interface SlackPayload {
 }
 
 function buildSlackPayload(options: SlackBlockOptions): SlackPayload {
-  const { title, body, importance, action } = options;
+  const { title, body, importance, action, actions = [] } = options;
 
   const importanceEmoji: Record<string, string> = {
     info: "ℹ️",
@@ -113,22 +114,23 @@ function buildSlackPayload(options: SlackBlockOptions): SlackPayload {
     });
   }
 
-  // Action button (if provided)
-  if (action?.url) {
+  // Action buttons (if provided), the primary action comes first
+  const buttons = [...(action?.url ? [action] : []), ...actions];
+  if (buttons.length > 0) {
     blocks.push({
       type: "actions",
-      elements: [
-        {
-          type: "button",
-          text: {
-            type: "plain_text",
-            text: action.label,
-            emoji: true,
-          },
-          url: action.url,
-          action_id: "notification_action",
+      elements: buttons.map((button, index) => ({
+        type: "button",
+        text: {
+          type: "plain_text",
+          text: button.label,
+          emoji: true,
         },
-      ],
+        url: button.url,
+        // Action IDs must be unique within a block
+        action_id:
+          index === 0 ? "notification_action" : `notification_action_${index}`,
+      })),
     });
   }
 
@@ -187,6 +189,7 @@ const slackStrategy: NotificationStrategy<SlackConfig, SlackUserConfig> = {
         body: notification.body,
         importance: notification.importance,
         action: notification.action,
+        actions: notification.actions,
       });
 
       // Send to Slack webhook
@@ -205,9 +208,15 @@ const slackStrategy: NotificationStrategy<SlackConfig, SlackUserConfig> = {
           status: response.status,
           error: errorText.slice(0, 500),
         });
+        // Slack rate limits webhooks and tells when to retry
+        const retryAfter = Number(response.headers.get("Retry-After"));
         return {
           success: false,
           error: `Failed to send Slack message: ${response.status}`,
+          retryAfterMs:
+            response.status === 429 && retryAfter > 0
+              ? retryAfter * 1000
+              : undefined,
         };
       }
 
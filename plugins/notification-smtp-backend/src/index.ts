@@ -47,18 +47,18 @@ type SmtpConfig = z.infer<typeof smtpConfigSchemaV1>;
 
 /**
  * Layout configuration for email styling.
- * Admins can customize branding via the settings UI.
+ * Unset logo and colors fall back to the organisation branding.
  */
 const smtpLayoutConfigSchemaV1 = z.object({
   logoUrl: configString({})
     .url()
     .optional()
-    .describe("Logo URL (max 200px wide)"),
+    .describe("Logo URL (max 200px wide), defaults to the organisation logo"),
   primaryColor: configString({ "x-color": true })
-    .describe("Primary brand color (hex)")
-    .default("#3b82f6"),
+    .describe("Primary brand color (hex), defaults to the organisation color")
+    .optional(),
   accentColor: configString({ "x-color": true })
-    .describe("Accent color for buttons")
+    .describe("Accent color for buttons, defaults to the organisation color")
     .optional(),
   footerText: configString({})
     .default("This is an automated notification.")
@@ -106,7 +106,13 @@ Configure your SMTP server to enable email notifications:
 > **Tip**: For Gmail, use \`smtp.gmail.com\` port 587 with an App Password.
 `.trim(),
 
-  async send({ contact, notification, strategyConfig, layoutConfig }) {
+  async send({
+    contact,
+    notification,
+    strategyConfig,
+    layoutConfig,
+    branding,
+  }) {
     // Validate required config
     if (!strategyConfig.host || !strategyConfig.fromAddress) {
       return {
@@ -141,15 +147,18 @@ Configure your SMTP server to enable email notifications:
       ? markdownToPlainText(notification.body)
       : notification.title;
 
-    // Wrap content in the email layout with admin customizations
+    // Wrap content in the email layout, layout config overrides the
+    // organisation branding
     const html = wrapInEmailLayout({
       title: notification.title,
       bodyHtml,
       importance: notification.importance,
       action: notification.action,
-      logoUrl: layoutConfig?.logoUrl,
-      primaryColor: layoutConfig?.primaryColor,
-      accentColor: layoutConfig?.accentColor,
+      actions: notification.actions,
+      productName: branding?.productName,
+      logoUrl: layoutConfig?.logoUrl ?? branding?.logoUrl,
+      primaryColor: layoutConfig?.primaryColor ?? branding?.primaryColor,
+      accentColor: layoutConfig?.accentColor ?? branding?.accentColor,
       footerText: layoutConfig?.footerText,
     });
 
@@ -160,6 +169,12 @@ Configure your SMTP server to enable email notifications:
         subject: notification.title,
         text: plainText,
         html,
+        attachments: notification.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content,
+          encoding: "base64",
+        })),
       });
 
       return {
@@ -103,6 +103,21 @@ describe("Microsoft Teams Notification Strategy", () => {
       expect(actions[0].url).toBe("https://example.com/incident/123");
     });
 
+    it("appends secondary actions after the primary action", () => {
+      const card = buildAdaptiveCard({
+        title: "System health critical",
+        importance: "critical",
+        action: { label: "View System", url: "https://example.com/system/1" },
+        actions: [{ label: "Acknowledge", url: "https://example.com/ack" }],
+      }) as Record<string, unknown>;
+
+      const actions = card.actions as Array<Record<string, unknown>>;
+      expect(actions.map((a) => a.title)).toEqual([
+        "View System",
+        "Acknowledge",
+      ]);
+    });
+
     it("uses correct colors for importance levels", () => {
       const infoCard = buildAdaptiveCard({
         title: "Info",
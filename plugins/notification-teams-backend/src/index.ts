@@ -96,10 +96,11 @@ interface AdaptiveCardOptions {
   body?: string;
   importance: "info" | "warning" | "critical";
   action?: { label: string; url: string };
+  actions?: { label: string; url: string }[];
 }
 
 function buildAdaptiveCard(options: AdaptiveCardOptions): object {
-  const { title, body, importance, action } = options;
+  const { title, body, importance, action, actions = [] } = options;
 
   const importanceColors: Record<string, string> = {
     info: "accent",
@@ -139,14 +140,14 @@ function buildAdaptiveCard(options: AdaptiveCardOptions): object {
     body: bodyElements,
   };
 
-  if (action?.url) {
-    card.actions = [
-      {
-        type: "Action.OpenUrl",
-        title: action.label,
-        url: action.url,
-      },
-    ];
+  // Primary action first, followed by secondary actions
+  const links = [...(action?.url ? [action] : []), ...actions];
+  if (links.length > 0) {
+    card.actions = links.map((link) => ({
+      type: "Action.OpenUrl",
+      title: link.label,
+      url: link.url,
+    }));
   }
 
   return card;
@@ -298,6 +299,7 @@ const teamsStrategy: NotificationStrategy<TeamsConfig> = {
         body: notification.body,
         importance: notification.importance,
         action: notification.action,
+        actions: notification.actions,
       });
 
       // Step 3: Send message to the chat
@@ -71,6 +71,10 @@ const telegramifyMarkdown = require("telegramify-markdown") as (
   unsupportedTagsStrategy?: "escape" | "remove" | "keep"
 ) => string;
 
+/** Telegram rejects inline buttons pointing to localhost */
+const isLocalhost = (url: string) =>
+  url.includes("localhost") || url.includes("127.0.0.1");
+
 /**
  * Telegram notification strategy using grammY.
  */
@@ -147,32 +151,35 @@ const telegramStrategy: NotificationStrategy<
         messageText += `\n\n${messageBody}`;
       }
 
-      // Build inline keyboard for action button
-      const actionUrl = notification.action?.url;
-
-      // Don't show action button for localhost URLs (Telegram rejects them)
-      // Instead, add as inline link in the message
-      const isLocalhost =
-        actionUrl?.includes("localhost") || actionUrl?.includes("127.0.0.1");
-
-      if (notification.action && actionUrl && isLocalhost) {
-        // Add action as plain text (Telegram won't make localhost links clickable anyway)
+      // Build inline keyboard for the primary and secondary action buttons
+      const links = [
+        ...(notification.action?.url ? [notification.action] : []),
+        ...(notification.actions ?? []),
+      ];
+
+      // Don't show action buttons for localhost URLs (Telegram rejects them)
+      // Instead, add them as inline links in the message
+      const localLinks = links.filter((link) => isLocalhost(link.url));
+      if (localLinks.length > 0) {
+        // Add actions as plain text (Telegram won't make localhost links clickable anyway)
         // This makes it easier to copy the URL for debugging
-        const plainTextAction = `📎 ${notification.action.label}:\n${actionUrl}\n\n_Note: Telegram blocks localhost URLs, so no inline button is shown._`;
+        const plainTextActions = localLinks
+          .map((link) => `📎 ${link.label}:\n${link.url}`)
+          .join("\n\n");
+        const plainTextAction = `${plainTextActions}\n\n_Note: Telegram blocks localhost URLs, so no inline button is shown._`;
         messageText += `\n\n${telegramifyMarkdown(plainTextAction, "escape")}`;
       }
 
+      const buttonLinks = links.filter((link) => !isLocalhost(link.url));
       const inlineKeyboard =
-        notification.action && actionUrl && !isLocalhost
+        buttonLinks.length > 0
           ? {
-              inline_keyboard: [
-                [
-                  {
-                    text: notification.action.label,
-                    url: actionUrl,
-                  },
-                ],
-              ],
+              inline_keyboard: buttonLinks.map((link) => [
+                {
+                  text: link.label,
+                  url: link.url,
+                },
+              ]),
             }
           : undefined;
 
@@ -6,8 +6,13 @@ import {
   ConsumeOptions,
   RecurringJobDetails,
   RecurringSchedule,
+  JobInfo,
+  JobState,
+  DeadLetterJob,
+  DeadLetterFilter,
+  matchesDeadLetterFilter,
 } from "@checkstack/queue-api";
-import { Queue as BullQueue, Worker, JobsOptions } from "bullmq";
+import { Queue as BullQueue, Worker, Job, JobsOptions } from "bullmq";
 import type { BullMQConfig } from "./plugin";
 
 /**
@@ -19,7 +24,21 @@ interface ConsumerGroupState {
 }
 
 /**
- * BullMQ-based queue implementation
+ * Maximum number of jobs listed per state
+ */
+const JOB_LIST_LIMIT = 100;
+
+/**
+ * Maximum number of dead letters listed
+ */
+const DEAD_LETTER_LIST_LIMIT = 1000;
+
+/**
+ * BullMQ-based queue implementation.
+ *
+ * Failed jobs stay in BullMQ's failed set, which serves as the dead-letter
+ * store. Workers are named after their consumer group, so the group a job
+ * failed in is recorded as `processedBy`.
  */
 export class BullMQQueue<T = unknown> implements Queue<T> {
   private queue: BullQueue;
@@ -135,6 +154,7 @@ export class BullMQQueue<T = unknown> implements Queue<T> {
           },
           prefix: this.config.keyPrefix,
           concurrency: this.config.concurrency,
+          name: consumerGroup,
           // BullMQ's built-in retry mechanism
           settings: {
             backoffStrategy: (attemptsMade: number) => {
@@ -182,7 +202,7 @@ export class BullMQQueue<T = unknown> implements Queue<T> {
     await this.queue.upsertJobScheduler(
       jobId,
       "cronPattern" in options && options.cronPattern
-        ? { pattern: options.cronPattern }
+        ? { pattern: options.cronPattern, tz: options.timezone }
         : { every: options.intervalSeconds! * 1000 },
       {
         name: this.name,
@@ -237,7 +257,11 @@ export class BullMQQueue<T = unknown> implements Queue<T> {
     };
 
     if (scheduler.pattern) {
-      return { ...baseDetails, cronPattern: scheduler.pattern };
+      return {
+        ...baseDetails,
+        cronPattern: scheduler.pattern,
+        timezone: scheduler.tz,
+      };
     }
     return {
       ...baseDetails,
@@ -250,6 +274,78 @@ export class BullMQQueue<T = unknown> implements Queue<T> {
     return counts.active || 0;
   }
 
+  async listJobs(): Promise<JobInfo<T>[]> {
+    const end = JOB_LIST_LIMIT - 1;
+    const [active, waiting, delayed] = await Promise.all([
+      this.queue.getActive(0, end),
+      this.queue.getJobs(["waiting", "prioritized"], 0, end),
+      this.queue.getDelayed(0, end),
+    ]);
+
+    const toJobInfo = (job: Job, state: JobState): JobInfo<T> => ({
+      id: job.id!,
+      data: job.data as T,
+      state,
+      priority: job.opts.priority,
+      attempts: job.attemptsMade,
+      enqueuedAt: new Date(job.timestamp),
+      availableAt:
+        state === "delayed" ? new Date(job.timestamp + job.delay) : undefined,
+      consumerGroup: state === "active" ? job.processedBy : undefined,
+    });
+
+    return [
+      ...active.map((job) => toJobInfo(job, "active")),
+      ...waiting.map((job) => toJobInfo(job, "waiting")),
+      ...delayed.map((job) => toJobInfo(job, "delayed")),
+    ];
+  }
+
+  async listDeadLetters(): Promise<DeadLetterJob<T>[]> {
+    const jobs = await this.queue.getFailed(0, DEAD_LETTER_LIST_LIMIT - 1);
+    return jobs.map((job) => this.toDeadLetter(job));
+  }
+
+  async requeueDeadLetter(id: string): Promise<boolean> {
+    const job = await this.queue.getJob(id);
+    if (!job || !(await job.isFailed())) {
+      return false;
+    }
+    await job.retry("failed", { resetAttemptsMade: true });
+    return true;
+  }
+
+  async purgeDeadLetters(filter?: DeadLetterFilter): Promise<number> {
+    const jobs = await this.queue.getFailed();
+    const matching = jobs.filter((job) =>
+      matchesDeadLetterFilter(this.toDeadLetter(job), filter),
+    );
+    await Promise.all(matching.map((job) => job.remove()));
+    return matching.length;
+  }
+
+  private toDeadLetter(job: Job): DeadLetterJob<T> {
+    // BullMQ keeps one stack trace per failed attempt
+    const attempts =
+      job.stacktrace.length > 0
+        ? job.stacktrace.map((trace, index) => ({
+            attempt: index + 1,
+            error: trace.split("\n")[0],
+          }))
+        : [{ attempt: job.attemptsMade, error: job.failedReason }];
+
+    return {
+      id: job.id!,
+      jobId: job.id!,
+      consumerGroup: job.processedBy ?? "unknown",
+      data: job.data as T,
+      error: job.failedReason,
+      attempts,
+      enqueuedAt: new Date(job.timestamp),
+      failedAt: new Date(job.finishedOn ?? job.timestamp),
+    };
+  }
+
   async stop(): Promise<void> {
     if (this.stopped) {
       return;
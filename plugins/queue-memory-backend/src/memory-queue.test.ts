@@ -504,5 +504,113 @@ describe("InMemoryQueue Consumer Groups", () => {
     });
   });
 
+  describe("Dead Letters", () => {
+    it("should keep jobs that exhausted retries with their attempts", async () => {
+      await queue.consume(
+        async () => {
+          throw new Error("Always fails");
+        },
+        { consumerGroup: "dead-group", maxRetries: 1 }
+      );
+
+      await queue.enqueue("payload", { jobId: "job-1" });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const deadLetters = await queue.listDeadLetters();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0].jobId).toBe("job-1");
+      expect(deadLetters[0].consumerGroup).toBe("dead-group");
+      expect(deadLetters[0].data).toBe("payload");
+      expect(deadLetters[0].error).toBe("Always fails");
+      expect(deadLetters[0].attempts.map((a) => a.attempt)).toEqual([1, 2]);
+    });
+
+    it("should requeue a dead letter only for its consumer group", async () => {
+      let shouldFail = true;
+      const failing: string[] = [];
+      const other: string[] = [];
+
+      await queue.consume(
+        async (job) => {
+          failing.push(job.data);
+          if (shouldFail) throw new Error("Fails");
+        },
+        { consumerGroup: "failing-group", maxRetries: 0 }
+      );
+      await queue.consume(
+        async (job) => {
+          other.push(job.data);
+        },
+        { consumerGroup: "other-group", maxRetries: 0 }
+      );
+
+      await queue.enqueue("payload");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const [deadLetter] = await queue.listDeadLetters();
+      shouldFail = false;
+      expect(await queue.requeueDeadLetter(deadLetter.id)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(failing).toEqual(["payload", "payload"]);
+      expect(other).toEqual(["payload"]);
+      expect(await queue.listDeadLetters()).toHaveLength(0);
+      expect(await queue.requeueDeadLetter(deadLetter.id)).toBe(false);
+    });
+
+    it("should purge dead letters matching the filter", async () => {
+      for (const group of ["group-a", "group-b"]) {
+        await queue.consume(
+          async () => {
+            throw new Error("Fails");
+          },
+          { consumerGroup: group, maxRetries: 0 }
+        );
+      }
+
+      await queue.enqueue("one");
+      await queue.enqueue("two");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(await queue.listDeadLetters()).toHaveLength(4);
+      expect(await queue.purgeDeadLetters({ consumerGroup: "group-a" })).toBe(
+        2
+      );
+
+      const [remaining] = await queue.listDeadLetters();
+      expect(await queue.purgeDeadLetters({ ids: [remaining.id] })).toBe(1);
+      expect(await queue.purgeDeadLetters()).toBe(1);
+      expect(await queue.listDeadLetters()).toHaveLength(0);
+    });
+  });
+
+  describe("Job Listing", () => {
+    it("should list active and delayed jobs", async () => {
+      let release: () => void = () => {};
+      await queue.consume(
+        () =>
+          new Promise<void>((resolve) => {
+            release = resolve;
+          }),
+        { consumerGroup: "slow-group", maxRetries: 0 }
+      );
+
+      await queue.enqueue("running", { jobId: "running-job" });
+      await queue.enqueue("later", { jobId: "delayed-job", startDelay: 60 });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const jobs = await queue.listJobs();
+      const running = jobs.find((j) => j.id === "running-job");
+      const delayed = jobs.find((j) => j.id === "delayed-job");
+
+      expect(running?.state).toBe("active");
+      expect(running?.consumerGroup).toBe("slow-group");
+      expect(delayed?.state).toBe("delayed");
+      expect(delayed?.availableAt).toBeInstanceOf(Date);
+
+      release();
+    });
+  });
+
   // NOTE: Recurring job tests are in recurring-jobs.test.ts
 });
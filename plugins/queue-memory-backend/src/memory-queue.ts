@@ -6,6 +6,11 @@ import {
   ConsumeOptions,
   RecurringJobDetails,
   RecurringSchedule,
+  JobAttempt,
+  JobInfo,
+  DeadLetterJob,
+  DeadLetterFilter,
+  matchesDeadLetterFilter,
 } from "@checkstack/queue-api";
 import type { Logger } from "@checkstack/backend-api";
 import { InMemoryQueueConfig } from "./plugin";
@@ -68,6 +73,11 @@ interface ConsumerGroupState<T> {
  */
 const MAX_TIMEOUT = 2_147_483_647;
 
+/**
+ * Maximum number of dead letters kept per queue, the oldest are dropped
+ */
+const MAX_DEAD_LETTERS = 1000;
+
 /**
  * Recurring job metadata - supports both interval and cron patterns
  */
@@ -77,6 +87,7 @@ type RecurringJobMetadata<T> = {
   priority: number;
   enabled: boolean;
   timerId?: ReturnType<typeof setTimeout> | ReturnType<typeof setInterval>;
+  nextRunAt?: Date;
 } & RecurringSchedule;
 
 /**
@@ -86,6 +97,13 @@ export class InMemoryQueue<T> implements Queue<T> {
   private jobs: InternalQueueJob<T>[] = [];
   private consumerGroups = new Map<string, ConsumerGroupState<T>>();
   private recurringJobs = new Map<string, RecurringJobMetadata<T>>();
+  // Keyed by consumer group and job ID
+  private activeJobs = new Map<
+    string,
+    { job: InternalQueueJob<T>; consumerGroup: string }
+  >();
+  private attemptHistory = new Map<string, JobAttempt[]>();
+  private deadLetters: DeadLetterJob<T>[] = []; // Most recent first
   private semaphore: Semaphore;
   private stopped = false;
   private processing = 0;
@@ -130,6 +148,21 @@ export class InMemoryQueue<T> implements Queue<T> {
     }, ms);
   }
 
+  /**
+   * Insert a job in priority order (higher priority first)
+   */
+  private insertJob(job: InternalQueueJob<T>): void {
+    const insertIndex = this.jobs.findIndex(
+      (existingJob) => (existingJob.priority ?? 0) < (job.priority ?? 0),
+    );
+
+    if (insertIndex === -1) {
+      this.jobs.push(job);
+    } else {
+      this.jobs.splice(insertIndex, 0, job);
+    }
+  }
+
   async enqueue(
     data: T,
     options?: { priority?: number; startDelay?: number; jobId?: string },
@@ -164,16 +197,7 @@ export class InMemoryQueue<T> implements Queue<T> {
       availableAt,
     };
 
-    // Insert job in priority order (higher priority first)
-    const insertIndex = this.jobs.findIndex(
-      (existingJob) => existingJob.priority! < job.priority!,
-    );
-
-    if (insertIndex === -1) {
-      this.jobs.push(job);
-    } else {
-      this.jobs.splice(insertIndex, 0, job);
-    }
+    this.insertJob(job);
 
     // Trigger processing for all consumer groups (or schedule for later)
     if (!this.stopped) {
@@ -257,7 +281,7 @@ export class InMemoryQueue<T> implements Queue<T> {
 
     // Handle cron-based scheduling
     if ("cronPattern" in options && options.cronPattern) {
-      const cronPattern = options.cronPattern;
+      const { cronPattern, timezone } = options;
 
       // Wall-clock cron scheduling with MAX_TIMEOUT handling
       const scheduleNextCronRun = () => {
@@ -267,9 +291,12 @@ export class InMemoryQueue<T> implements Queue<T> {
         if (!metadata || !metadata.enabled) return;
 
         try {
-          const interval = parser.parseExpression(cronPattern);
+          const interval = parser.parseExpression(cronPattern, {
+            tz: timezone,
+          });
           const nextRun = interval.next().toDate();
           const delayMs = nextRun.getTime() - Date.now();
+          metadata.nextRunAt = nextRun;
 
           if (delayMs > MAX_TIMEOUT) {
             // Chunk long delays - wake up periodically to recalculate
@@ -298,6 +325,7 @@ export class InMemoryQueue<T> implements Queue<T> {
       this.recurringJobs.set(jobId, {
         jobId,
         cronPattern,
+        timezone,
         payload: data,
         priority,
         enabled: true,
@@ -318,6 +346,10 @@ export class InMemoryQueue<T> implements Queue<T> {
     // Create interval for wall-clock scheduling
     const timerId = setInterval(() => {
       if (!this.stopped) {
+        const metadata = this.recurringJobs.get(jobId);
+        if (metadata) {
+          metadata.nextRunAt = new Date(Date.now() + intervalMs);
+        }
         const uniqueId = `${jobId}:${Date.now()}-${Math.random()
           .toString(36)
           .slice(2, 8)}`;
@@ -333,6 +365,7 @@ export class InMemoryQueue<T> implements Queue<T> {
       priority,
       enabled: true,
       timerId,
+      nextRunAt: new Date(Date.now() + intervalMs),
     });
 
     // Schedule first execution immediately for interval-based jobs
@@ -388,10 +421,15 @@ export class InMemoryQueue<T> implements Queue<T> {
       jobId: metadata.jobId,
       data: metadata.payload,
       priority: metadata.priority,
+      nextRunAt: metadata.nextRunAt,
     };
 
     if ("cronPattern" in metadata && metadata.cronPattern) {
-      return { ...baseDetails, cronPattern: metadata.cronPattern };
+      return {
+        ...baseDetails,
+        cronPattern: metadata.cronPattern,
+        timezone: metadata.timezone,
+      };
     }
     return { ...baseDetails, intervalSeconds: metadata.intervalSeconds! };
   }
@@ -449,17 +487,29 @@ export class InMemoryQueue<T> implements Queue<T> {
     await this.semaphore.acquire();
     this.processing++;
 
+    const key = `${groupId}:${job.id}`;
+    this.activeJobs.set(key, { job, consumerGroup: groupId });
+
     let isRetrying = false;
 
     try {
       await consumer.handler(job);
       this.stats.completed++;
+      this.attemptHistory.delete(key);
     } catch (error) {
       this.logger.error(
         `Job ${job.id} failed in group ${groupId} (attempt ${job.attempts}):`,
         error,
       );
 
+      const attempts = this.attemptHistory.get(key) ?? [];
+      attempts.push({
+        attempt: attempts.length + 1,
+        error: error instanceof Error ? error.message : String(error),
+        failedAt: new Date(),
+      });
+      this.attemptHistory.set(key, attempts);
+
       // Retry logic
       if (job.attempts! < consumer.maxRetries) {
         job.attempts!++;
@@ -469,14 +519,7 @@ export class InMemoryQueue<T> implements Queue<T> {
         groupState.processedJobIds.delete(job.id);
 
         // Re-add job to queue for retry (with priority to process soon, preserving availableAt)
-        const insertIndex = this.jobs.findIndex(
-          (existingJob) => existingJob.priority! < (job.priority ?? 0),
-        );
-        if (insertIndex === -1) {
-          this.jobs.push(job);
-        } else {
-          this.jobs.splice(insertIndex, 0, job);
-        }
+        this.insertJob(job);
 
         // Re-trigger processing with exponential backoff
         const delay =
@@ -488,8 +531,11 @@ export class InMemoryQueue<T> implements Queue<T> {
         });
       } else {
         this.stats.failed++;
+        this.attemptHistory.delete(key);
+        this.addDeadLetter(job, groupId, attempts);
       }
     } finally {
+      this.activeJobs.delete(key);
       this.processing--;
       this.semaphore.release();
 
@@ -500,6 +546,102 @@ export class InMemoryQueue<T> implements Queue<T> {
     }
   }
 
+  private addDeadLetter(
+    job: InternalQueueJob<T>,
+    consumerGroup: string,
+    attempts: JobAttempt[],
+  ): void {
+    this.deadLetters.unshift({
+      id: crypto.randomUUID(),
+      jobId: job.id,
+      consumerGroup,
+      data: job.data,
+      error: attempts.at(-1)?.error ?? "Unknown error",
+      attempts,
+      enqueuedAt: job.timestamp,
+      failedAt: new Date(),
+    });
+    if (this.deadLetters.length > MAX_DEAD_LETTERS) {
+      this.deadLetters.length = MAX_DEAD_LETTERS;
+    }
+  }
+
+  async listJobs(): Promise<JobInfo<T>[]> {
+    const now = new Date();
+
+    const active: JobInfo<T>[] = [...this.activeJobs.values()].map(
+      ({ job, consumerGroup }) => ({
+        id: job.id,
+        data: job.data,
+        state: "active",
+        priority: job.priority,
+        attempts: job.attempts ?? 0,
+        enqueuedAt: job.timestamp,
+        consumerGroup,
+      }),
+    );
+    const activeIds = new Set(active.map((job) => job.id));
+
+    const queued: JobInfo<T>[] = this.jobs
+      .filter((job) => !activeIds.has(job.id))
+      .map((job) => {
+        const delayed = job.availableAt > now;
+        return {
+          id: job.id,
+          data: job.data,
+          state: delayed ? "delayed" : "waiting",
+          priority: job.priority,
+          attempts: job.attempts ?? 0,
+          enqueuedAt: job.timestamp,
+          availableAt: delayed ? job.availableAt : undefined,
+        };
+      });
+
+    return [...active, ...queued];
+  }
+
+  async listDeadLetters(): Promise<DeadLetterJob<T>[]> {
+    return [...this.deadLetters];
+  }
+
+  async requeueDeadLetter(id: string): Promise<boolean> {
+    const deadLetter = this.deadLetters.find((d) => d.id === id);
+    if (!deadLetter) {
+      return false;
+    }
+    this.deadLetters = this.deadLetters.filter((d) => d !== deadLetter);
+
+    // New job ID, marked as processed by all other groups so only the
+    // group it failed in picks it up again
+    const job: InternalQueueJob<T> = {
+      id: `${deadLetter.jobId}:requeued-${crypto.randomUUID().slice(0, 8)}`,
+      data: deadLetter.data,
+      priority: 0,
+      timestamp: new Date(),
+      attempts: 0,
+      availableAt: new Date(),
+    };
+    for (const [groupId, groupState] of this.consumerGroups) {
+      if (groupId !== deadLetter.consumerGroup) {
+        groupState.processedJobIds.add(job.id);
+      }
+    }
+    this.insertJob(job);
+
+    if (!this.stopped) {
+      void this.processNext();
+    }
+    return true;
+  }
+
+  async purgeDeadLetters(filter?: DeadLetterFilter): Promise<number> {
+    const count = this.deadLetters.length;
+    this.deadLetters = this.deadLetters.filter(
+      (deadLetter) => !matchesDeadLetterFilter(deadLetter, filter),
+    );
+    return count - this.deadLetters.length;
+  }
+
   async stop(): Promise<void> {
     this.stopped = true;
 
@@ -201,4 +201,39 @@ describe("InMemoryQueue Recurring Jobs", () => {
     expect(executionCount).toBeGreaterThan(countAfterFirst);
     expect(executionCount - countAfterFirst).toBeGreaterThanOrEqual(2);
   });
+
+  it("should report the next run time of recurring jobs", async () => {
+    queue = createTestQueue("test-next-run");
+
+    const before = Date.now();
+    await queue.scheduleRecurring("payload", {
+      jobId: "recurring-next-run",
+      intervalSeconds: 100, // 1s with multiplier
+    });
+
+    const details = await queue.getRecurringJobDetails("recurring-next-run");
+    expect(details?.nextRunAt?.getTime()).toBeGreaterThanOrEqual(
+      before + 1000
+    );
+  });
+
+  it("should evaluate cron patterns in the given timezone", async () => {
+    queue = createTestQueue("test-cron-timezone");
+
+    await queue.scheduleRecurring("payload", {
+      jobId: "recurring-cron-tz",
+      cronPattern: "0 9 * * *",
+      timezone: "America/New_York",
+    });
+
+    const details = await queue.getRecurringJobDetails("recurring-cron-tz");
+    expect(details?.timezone).toBe("America/New_York");
+
+    const hour = new Intl.DateTimeFormat("en-US", {
+      timeZone: "America/New_York",
+      hour: "numeric",
+      hourCycle: "h23",
+    }).format(details?.nextRunAt);
+    expect(hour).toBe("09");
+  });
 });